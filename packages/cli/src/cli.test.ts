@@ -26,16 +26,16 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 describe('cli.ts', () => {
   let createProgramMock: ReturnType<typeof vi.fn>
-  let parseMock: ReturnType<typeof vi.fn>
+  let parseAsyncMock: ReturnType<typeof vi.fn>
 
   beforeEach(() => {
     // Reset modules before each test to ensure clean import
     vi.resetModules()
 
-    // Mock createProgram to return an object with a parse method
-    parseMock = vi.fn()
+    // Mock createProgram to return an object with a parseAsync method
+    parseAsyncMock = vi.fn()
     createProgramMock = vi.fn(() => ({
-      parse: parseMock,
+      parseAsync: parseAsyncMock,
     }))
 
     vi.doMock('./program', () => ({
@@ -43,11 +43,11 @@ describe('cli.ts', () => {
     }))
   })
 
-  it('should call createProgram and parse once', async () => {
+  it('should call createProgram and parseAsync once', async () => {
     // Import the CLI file, which should trigger the calls
     await import('./cli')
 
     expect(createProgramMock).toHaveBeenCalledTimes(1)
-    expect(parseMock).toHaveBeenCalledTimes(1)
+    expect(parseAsyncMock).toHaveBeenCalledTimes(1)
   })
 })
@@ -25,4 +25,4 @@
 
 import { createProgram } from './program'
 
-createProgram().parse()
+createProgram().parseAsync()
@@ -0,0 +1,186 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+import fs from 'node:fs'
+import path from 'node:path'
+import {
+  ANONYMOUS_NAME,
+  ErrorType,
+  ResumeSchema,
+  YAMLResumeError,
+} from '@yamlresume/core'
+import type { Command } from 'commander'
+import { consola } from 'consola'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import yaml from 'yaml'
+
+import { anonymizeResumeFile, createAnonymizeCommand } from './anonymize'
+import { getFixture } from './utils'
+
+describe(anonymizeResumeFile, () => {
+  let stdoutSpy: ReturnType<typeof vi.spyOn>
+  let consolaSuccessSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    stdoutSpy = vi
+      // biome-ignore lint/suspicious/noExplicitAny: ignore
+      .spyOn(process.stdout, 'write' as any)
+      .mockImplementation(() => true)
+    consolaSuccessSpy = vi.spyOn(consola, 'success').mockImplementation(vi.fn())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should print anonymized resume to stdout by default', () => {
+    const resumePath = getFixture('software-engineer.yml')
+
+    anonymizeResumeFile(resumePath)
+
+    expect(stdoutSpy).toBeCalledTimes(1)
+    const resume = yaml.parse(stdoutSpy.mock.calls[0][0] as string)
+    expect(resume.content.basics.name).toBe(ANONYMOUS_NAME)
+    expect(resume.content.basics).not.toHaveProperty('email')
+    expect(resume.content).not.toHaveProperty('profiles')
+    expect(ResumeSchema.safeParse(resume).success).toBe(true)
+    expect(consolaSuccessSpy).not.toBeCalled()
+  })
+
+  it('should generalize organization names on request', () => {
+    const resumePath = getFixture('software-engineer.yml')
+
+    anonymizeResumeFile(resumePath, { generalize: true })
+
+    const resume = yaml.parse(stdoutSpy.mock.calls[0][0] as string)
+    expect(resume.content.work[0].name).toBe('Employer A')
+    expect(resume.content.education[0].institution).toBe('Institution A')
+  })
+
+  it('should write anonymized resume to the output file', () => {
+    const resumePath = getFixture('software-engineer.yml')
+    const output = path.join(path.dirname(resumePath), 'anonymized.yml')
+
+    anonymizeResumeFile(resumePath, { output })
+
+    expect(fs.existsSync(output)).toBe(true)
+    const resume = yaml.parse(fs.readFileSync(output, 'utf8'))
+    expect(resume.content.basics.name).toBe(ANONYMOUS_NAME)
+    expect(consolaSuccessSpy).toBeCalledWith(
+      `Anonymized resume successfully: ${output}`
+    )
+    expect(stdoutSpy).not.toBeCalled()
+
+    // cleanup
+    fs.unlinkSync(output)
+  })
+
+  it('should handle file write error', () => {
+    const resumePath = getFixture('software-engineer.yml')
+    vi.spyOn(consola, 'debug').mockImplementation(vi.fn())
+    vi.spyOn(fs, 'writeFileSync').mockImplementation(() => {
+      throw new Error('Write error')
+    })
+
+    expect(() =>
+      anonymizeResumeFile(resumePath, { output: 'anonymized.yml' })
+    ).toThrow(YAMLResumeError)
+  })
+})
+
+describe(createAnonymizeCommand, () => {
+  let anonymizeCommand: Command
+  let consolaErrorSpy: ReturnType<typeof vi.spyOn>
+  let stdoutSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    anonymizeCommand = createAnonymizeCommand()
+    consolaErrorSpy = vi.spyOn(consola, 'error').mockImplementation(vi.fn())
+    stdoutSpy = vi
+      // biome-ignore lint/suspicious/noExplicitAny: ignore
+      .spyOn(process.stdout, 'write' as any)
+      .mockImplementation(() => true)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should have correct name and description', () => {
+    expect(anonymizeCommand.name()).toBe('anonymize')
+    expect(anonymizeCommand.description()).toBe(
+      'anonymize a resume for blind-hiring submissions'
+    )
+  })
+
+  it('should have generalize, output and validate options', () => {
+    for (const option of ['--generalize', '--output', '--no-validate']) {
+      expect(
+        anonymizeCommand.options.find((opt) => opt.long === option)
+      ).toBeDefined()
+    }
+  })
+
+  it('should anonymize resume to stdout', () => {
+    const resumePath = getFixture('software-engineer.yml')
+
+    anonymizeCommand.parse(['yamlresume', 'anonymize', resumePath, '-g'])
+
+    expect(stdoutSpy).toBeCalledTimes(1)
+    const resume = yaml.parse(stdoutSpy.mock.calls[0][0] as string)
+    expect(resume.content.work[0].name).toBe('Employer A')
+    expect(consolaErrorSpy).not.toBeCalled()
+  })
+
+  it('should keep stdout clean when the resume has summary warnings', () => {
+    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(vi.fn())
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(vi.fn())
+    const resumePath = getFixture('summary-warnings.yml')
+
+    anonymizeCommand.parse(['yamlresume', 'anonymize', resumePath])
+
+    expect(stdoutSpy).toBeCalledTimes(1)
+    const resume = yaml.parse(stdoutSpy.mock.calls[0][0] as string)
+    expect(resume.content.basics.name).toBe(ANONYMOUS_NAME)
+    expect(ResumeSchema.safeParse(resume).success).toBe(true)
+    expect(consoleLogSpy).not.toBeCalled()
+    expect(consoleErrorSpy).toBeCalledWith(
+      expect.stringContaining('warning: images are not supported')
+    )
+    expect(consolaErrorSpy).not.toBeCalled()
+  })
+
+  it('should handle file read error', () => {
+    // @ts-ignore
+    const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(vi.fn())
+
+    anonymizeCommand.parse(['yamlresume', 'anonymize', 'non-existent-file.yml'])
+
+    expect(consolaErrorSpy).toBeCalledWith(
+      'Failed to read resume file: non-existent-file.yml'
+    )
+    expect(processExitSpy).toBeCalledWith(ErrorType.FILE_READ_ERROR.errno)
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+import fs from 'node:fs'
+import {
+  anonymizeResume,
+  joinNonEmptyString,
+  toCodeBlock,
+  YAMLResumeError,
+} from '@yamlresume/core'
+import { Command } from 'commander'
+import consola from 'consola'
+import yaml from 'yaml'
+
+import { readResume } from './validate'
+
+/**
+ * Anonymize a YAML resume for blind-hiring submissions.
+ *
+ * The anonymized resume is printed to stdout in YAML unless an output file is
+ * given, the result can be built with `yamlresume build` directly.
+ *
+ * @param resumePath - The source resume file path (YAML, YML, or JSON).
+ * @param options - Anonymize options including whether to generalize
+ * organization names, the output file and whether to validate the resume.
+ * @throws {YAMLResumeError} When the output file cannot be written.
+ */
+export function anonymizeResumeFile(
+  resumePath: string,
+  options: { generalize?: boolean; output?: string; validate?: boolean } = {}
+) {
+  const { generalize = false, output, validate = true } = options
+  const { resume } = readResume(resumePath, validate)
+
+  const content = yaml.stringify(
+    anonymizeResume(resume, { generalizeOrganizations: generalize }),
+    { indent: 2 }
+  )
+
+  if (!output) {
+    process.stdout.write(content)
+    return
+  }
+
+  try {
+    fs.writeFileSync(output, content)
+    consola.success(`Anonymized resume successfully: ${output}`)
+  } catch (error) {
+    consola.debug(
+      joinNonEmptyString([
+        'Error anonymizing resume: ',
+        toCodeBlock(error.stack),
+      ])
+    )
+    throw new YAMLResumeError('FILE_WRITE_ERROR', { path: output })
+  }
+}
+
+/**
+ * Create a command instance to anonymize a YAML resume
+ */
+export function createAnonymizeCommand() {
+  return new Command()
+    .name('anonymize')
+    .description('anonymize a resume for blind-hiring submissions')
+    .argument('<resume-path>', 'the resume file path')
+    .option(
+      '-g, --generalize',
+      'replace employer and institution names with generic labels'
+    )
+    .option('-o, --output <file>', 'output file, default to stdout')
+    .option('--no-validate', 'skip resume schema validation')
+    .action(
+      (
+        resumePath: string,
+        options: { generalize?: boolean; output?: string; validate: boolean }
+      ) => {
+        try {
+          anonymizeResumeFile(resumePath, options)
+        } catch (error) {
+          consola.error(error.message)
+          process.exit(error.errno)
+        }
+      }
+    )
+}
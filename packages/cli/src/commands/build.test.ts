@@ -47,6 +47,7 @@ import {
   buildResume,
   createBuildCommand,
   getPdfPath,
+  inferLanguages,
   inferLaTeXCommand,
   inferLaTeXEnvironment,
   inferOutput,
@@ -164,6 +165,7 @@ describe(getPdfPath, () => {
       { texPath: 'resume.tex', expected: 'resume.pdf' },
       { texPath: '/output/resume.tex', expected: '/output/resume.pdf' },
       { texPath: './dist/resume.tex', expected: './dist/resume.pdf' },
+      { texPath: './dist/resume.typ', expected: './dist/resume.pdf' },
     ]
 
     tests.forEach(({ texPath, expected }) => {
@@ -242,6 +244,10 @@ describe(normalizeExtension, () => {
     const tests = [
       { extension: '.tex', expected: 'tex' },
       { extension: '.md', expected: 'markdown' },
+      { extension: '.html', expected: 'html' },
+      { extension: '.txt', expected: 'text' },
+      { extension: '.typ', expected: 'typst' },
+      { extension: '.docx', expected: 'docx' },
       { extension: '.json', expected: 'json' },
       { extension: 'pdf', expected: 'pdf' },
     ]
@@ -335,6 +341,35 @@ describe(inferLaTeXCommand, () => {
   })
 })
 
+describe(inferLanguages, () => {
+  it('should infer languages from localized strings', () => {
+    const { resume } = readResume(getFixture('multilingual-resume.yml'), false)
+
+    expect(inferLanguages(resume)).toEqual(['en', 'zh-hans'])
+    expect(inferLanguages(resume, [])).toEqual(['en', 'zh-hans'])
+  })
+
+  it('should return an empty array for resumes without localized strings', () => {
+    const { resume } = readResume(getFixture('markdown-resume.yml'), false)
+
+    expect(inferLanguages(resume)).toEqual([])
+  })
+
+  it('should prefer requested languages', () => {
+    const { resume } = readResume(getFixture('multilingual-resume.yml'), false)
+
+    expect(inferLanguages(resume, ['zh-hans', 'fr'])).toEqual(['zh-hans', 'fr'])
+  })
+
+  it('should throw an error if a requested language is invalid', () => {
+    const { resume } = readResume(getFixture('markdown-resume.yml'), false)
+
+    expect(() => inferLanguages(resume, ['xx'])).toThrow(
+      new YAMLResumeError('INVALID_LOCALE_LANGUAGE', { language: 'xx' })
+    )
+  })
+})
+
 describe(buildResume, () => {
   const outputStr: string[] = []
   let execSpy: ReturnType<typeof vi.mocked>
@@ -538,6 +573,198 @@ describe(buildResume, () => {
     if (fs.existsSync(mdFile)) fs.unlinkSync(mdFile)
   })
 
+  it('should generate one file per language of localized strings', async () => {
+    const resumePath = getFixture('multilingual-resume.yml')
+
+    const enFile = resumePath.replace('.yml', '.en.md')
+    const zhFile = resumePath.replace('.yml', '.zh-hans.md')
+
+    await buildResume(resumePath)
+
+    expect(outputStr).toEqual([
+      `Generated resume markdown file successfully: ${enFile}`,
+      `Generated resume markdown file successfully: ${zhFile}`,
+    ])
+
+    expect(fs.readFileSync(enFile, 'utf8')).toMatch('# Andy Dufresne')
+    expect(fs.readFileSync(enFile, 'utf8')).toMatch('## Education')
+    expect(fs.readFileSync(zhFile, 'utf8')).toMatch('# 安迪·杜佛兰')
+    expect(fs.readFileSync(zhFile, 'utf8')).toMatch('## 教育背景')
+    expect(fs.readFileSync(zhFile, 'utf8')).toMatch('缅因大学')
+
+    // cleanup
+    fs.unlinkSync(enFile)
+    fs.unlinkSync(zhFile)
+  })
+
+  it('should generate files for the requested languages only', async () => {
+    const resumePath = getFixture('multilingual-resume.yml')
+    const mdFile = resumePath.replace('.yml', '.md')
+
+    await buildResume(resumePath, { language: ['zh-hans'] })
+
+    expect(outputStr).toEqual([
+      `Generated resume markdown file successfully: ${mdFile}`,
+    ])
+    expect(fs.readFileSync(mdFile, 'utf8')).toMatch('# 安迪·杜佛兰')
+
+    // cleanup
+    fs.unlinkSync(mdFile)
+  })
+
+  it('should throw an error if a requested language is invalid', async () => {
+    const resumePath = getFixture('multilingual-resume.yml')
+
+    await expect(
+      buildResume(resumePath, { language: ['en', 'xx'] })
+    ).rejects.toThrow(
+      new YAMLResumeError('INVALID_LOCALE_LANGUAGE', { language: 'xx' })
+    )
+  })
+
+  it('should generate html file', async () => {
+    const resumePath = getFixture('html-resume.yml')
+
+    // output file will be inferred
+    const htmlFile = resumePath.replace('.yml', '.html')
+
+    await buildResume(resumePath)
+
+    expect(execSpy).not.toBeCalled() // HTML doesn't trigger latex compilation
+    expect(fs.existsSync(htmlFile)).toBe(true)
+    expect(fs.readFileSync(htmlFile, 'utf8')).toMatch(/^<!DOCTYPE html>/)
+
+    expect(outputStr).toEqual([
+      `Generated resume html file successfully: ${htmlFile}`,
+    ])
+
+    // cleanup
+    if (fs.existsSync(htmlFile)) fs.unlinkSync(htmlFile)
+  })
+
+  it('should generate plain text file', async () => {
+    const resumePath = getFixture('text-resume.yml')
+
+    // output file will be inferred
+    const txtFile = resumePath.replace('.yml', '.txt')
+
+    await buildResume(resumePath)
+
+    expect(execSpy).not.toBeCalled() // text doesn't trigger latex compilation
+    expect(fs.existsSync(txtFile)).toBe(true)
+
+    expect(outputStr).toEqual([
+      `Generated resume text file successfully: ${txtFile}`,
+    ])
+
+    // cleanup
+    if (fs.existsSync(txtFile)) fs.unlinkSync(txtFile)
+  })
+
+  it('should generate typst and pdf file', async () => {
+    const resumePath = getFixture('typst-resume.yml')
+
+    // output file will be inferred
+    const typFile = resumePath.replace('.yml', '.typ')
+    const pdfFile = getPdfPath(typFile)
+
+    await buildResume(resumePath)
+
+    expect(fs.existsSync(typFile)).toBe(true)
+    expect(fs.readFileSync(typFile, 'utf8')).toMatch('#heading("Schooling")')
+
+    expect(whichSpy).toBeCalledWith('typst')
+    expect(execSpy).toBeCalledTimes(1)
+    expect(execSpy).toBeCalledWith('typst', ['compile', 'typst-resume.typ'], {
+      cwd: path.dirname(path.resolve(typFile)),
+      encoding: 'utf8',
+    })
+
+    expect(outputStr).toEqual([
+      `Generated resume typst file successfully: ${typFile}`,
+      'Generating resume pdf file with command: `typst compile typst-resume.typ`...',
+      `Generated resume pdf file successfully: ${pdfFile}`,
+    ])
+
+    // cleanup
+    if (fs.existsSync(typFile)) fs.unlinkSync(typFile)
+  })
+
+  it('should only generate typst file if pdf option is false', async () => {
+    const resumePath = getFixture('typst-resume.yml')
+    const typFile = resumePath.replace('.yml', '.typ')
+
+    await buildResume(resumePath, { pdf: false })
+
+    expect(whichSpy).not.toBeCalled()
+    expect(execSpy).not.toBeCalled()
+    expect(outputStr).toEqual([
+      `Generated resume typst file successfully: ${typFile}`,
+    ])
+
+    // cleanup
+    if (fs.existsSync(typFile)) fs.unlinkSync(typFile)
+  })
+
+  it('should skip pdf generation if typst is not available', async () => {
+    whichSpy.mockImplementation(() => {
+      throw new Error('not found')
+    })
+    const consolaWarnSpy = vi.spyOn(consola, 'warn').mockImplementation(vi.fn())
+
+    const resumePath = getFixture('typst-resume.yml')
+    const typFile = resumePath.replace('.yml', '.typ')
+
+    await buildResume(resumePath)
+
+    expect(execSpy).not.toBeCalled()
+    expect(fs.existsSync(typFile)).toBe(true)
+    expect(consolaWarnSpy).toBeCalledWith(
+      'Typst compiler not found, skip generating resume pdf file. Please install typst to compile the typst file.'
+    )
+
+    // cleanup
+    if (fs.existsSync(typFile)) fs.unlinkSync(typFile)
+  })
+
+  it('should handle error when compiling typst file', async () => {
+    execSpy.mockRejectedValue(new Error('Mock error'))
+
+    const resumePath = getFixture('typst-resume.yml')
+
+    await expect(buildResume(resumePath)).rejects.toThrow(
+      new YAMLResumeError('TYPST_COMPILE_ERROR', { error: 'Mock error' })
+    )
+    expect(consolaDebugSpy).toBeCalledTimes(2)
+  })
+
+  it('should generate docx file', async () => {
+    const resumePath = getFixture('docx-resume.yml')
+
+    // output file will be inferred
+    const docxFile = resumePath.replace('.yml', '.docx')
+
+    await buildResume(resumePath)
+
+    expect(execSpy).not.toBeCalled() // docx doesn't trigger any compilation
+    expect(fs.existsSync(docxFile)).toBe(true)
+
+    // docx files are zip packages with stored entries
+    const content = fs.readFileSync(docxFile)
+    expect(content.subarray(0, 4)).toEqual(Buffer.from('PK\x03\x04', 'latin1'))
+    expect(content.toString('utf8')).toMatch('word/document.xml')
+    expect(content.toString('utf8')).toMatch(
+      '<w:t xml:space="preserve">Schooling</w:t>'
+    )
+
+    expect(outputStr).toEqual([
+      `Generated resume docx file successfully: ${docxFile}`,
+    ])
+
+    // cleanup
+    if (fs.existsSync(docxFile)) fs.unlinkSync(docxFile)
+  })
+
   it('should handle file write error', async () => {
     const resumePath = getFixture('software-engineer.yml')
     const writeSpy = vi.spyOn(fs, 'writeFileSync').mockImplementation(() => {
@@ -689,7 +916,7 @@ describe(createBuildCommand, () => {
   it('should have correct name and description', () => {
     expect(buildCommand.name()).toBe('build')
     expect(buildCommand.description()).toBe(
-      'build a resume to LaTeX, PDF, or Markdown'
+      'build a resume to LaTeX, PDF, Markdown, HTML, plain text, Typst, or Docx'
     )
   })
 
@@ -740,6 +967,26 @@ describe(createBuildCommand, () => {
     expect(consolaSuccessSpy).toBeCalledTimes(2)
   })
 
+  it('should build resume in the requested languages', async () => {
+    const resumePath = getFixture('multilingual-resume.yml')
+    const mdFile = (language: string) =>
+      resumePath.replace('.yml', `.${language}.md`)
+
+    await buildCommand.parseAsync([
+      'yamlresume',
+      'build',
+      '-l',
+      'zh-hans',
+      '--language',
+      'fr',
+      resumePath,
+    ])
+
+    expect(consolaSuccessSpy).toBeCalledTimes(2)
+    expect(fs.readFileSync(mdFile('fr'), 'utf8')).toMatch('## Formation')
+    expect(fs.readFileSync(mdFile('zh-hans'), 'utf8')).toMatch('## 教育背景')
+  })
+
   it('should handle error when building resume to PDF', async () => {
     execSpy.mockRejectedValue(new Error('Mock error'))
 
@@ -26,8 +26,13 @@ import fs from 'node:fs'
 import path from 'node:path'
 import {
   DEFAULT_RESUME_LAYOUTS,
+  DocxRenderer,
+  getLocaleLanguageIds,
+  getResumeLanguages,
   getResumeRenderer,
   joinNonEmptyString,
+  type LocaleLanguage,
+  localizeResume,
   type Resume,
   toCodeBlock,
   YAMLResumeError,
@@ -78,6 +83,7 @@ export function inferOutput(resumePath: string, outputDir?: string): string {
  * @param index - The index of the current layout
  * @param total - The total number of layouts for this engine
  * @param outputDir - Optional output directory
+ * @param language - Optional locale language of the output
  * @returns The determined output file path
  */
 function getOutputPath(
@@ -85,16 +91,20 @@ function getOutputPath(
   extension: string,
   index: number,
   total: number,
-  outputDir?: string
+  outputDir?: string,
+  language?: string
 ): string {
   const baseName = path.basename(resumePath.replace(/\.yaml|\.yml|\.json$/, ''))
 
+  // If the resume is built in multiple languages, append the language to the
+  // filename, e.g., resume.en.tex, resume.zh-hans.tex
   // If there are multiple layouts, append the index to the filename
   // e.g., resume.0.tex, resume.1.tex
   // Otherwise, use the base filename
   // e.g., resume.tex
-  const fileName =
-    total > 1 ? `${baseName}.${index}${extension}` : `${baseName}${extension}`
+  const fileName = `${[baseName, language, total > 1 ? index : undefined]
+    .filter((part) => part !== undefined)
+    .join('.')}${extension}`
 
   if (outputDir) {
     return path.join(outputDir, fileName)
@@ -103,13 +113,13 @@ function getOutputPath(
 }
 
 /**
- * Get the PDF output path from a tex file path
+ * Get the PDF output path from a tex or typst file path
  *
- * @param texPath - The tex file path
+ * @param texPath - The tex or typst file path
  * @returns The PDF file path
  */
 export function getPdfPath(texPath: string): string {
-  return texPath.replace(/\.tex$/, '.pdf')
+  return texPath.replace(/\.(tex|typ)$/, '.pdf')
 }
 
 type LaTeXEnvironment = 'xelatex' | 'tectonic'
@@ -202,6 +212,12 @@ export function normalizeExtension(extension: string): string {
       return 'tex'
     case '.md':
       return 'markdown'
+    case '.txt':
+      return 'text'
+    case '.typ':
+      return 'typst'
+    case '.docx':
+      return 'docx'
     default:
       return extension.replace('.', '')
   }
@@ -217,14 +233,16 @@ function generateOutput(
   total: number,
   outputDir: string | undefined,
   extension: string,
-  layoutIndex: number
+  layoutIndex: number,
+  language?: string
 ): string {
   const outputFile = getOutputPath(
     resumePath,
     extension,
     index,
     total,
-    outputDir
+    outputDir,
+    language
   )
 
   const dir = path.dirname(outputFile)
@@ -233,7 +251,9 @@ function generateOutput(
   }
 
   const renderer = getResumeRenderer(resume, layoutIndex)
-  const content = renderer.render()
+  // docx files are zip packages, so they are written as binary content
+  const content =
+    renderer instanceof DocxRenderer ? renderer.renderDocx() : renderer.render()
 
   try {
     fs.writeFileSync(outputFile, content)
@@ -280,24 +300,58 @@ async function compileLaTeX(texFile: string, outputDir?: string) {
 }
 
 /**
- * Build a YAML resume to LaTeX & PDF and/or Markdown
+ * Compile a Typst file to PDF
  *
- * It first validates the resume against the schema (unless `--no-validate` flag
- * is used), then iterates through configured layouts to generate outputs.
+ * Typst is optional, if the `typst` CLI is not installed we only keep the
+ * generated Typst file.
+ */
+async function compileTypst(typFile: string) {
+  if (!isCommandAvailable('typst')) {
+    consola.warn(
+      'Typst compiler not found, skip generating resume pdf file. Please install typst to compile the typst file.'
+    )
+    return
+  }
+
+  const command = 'typst'
+  const args = ['compile', path.basename(typFile)]
+
+  consola.start(
+    `Generating resume pdf file with command: \`${command} ${args.join(' ')}\`...`
+  )
+
+  try {
+    const result = await execa(command, args, {
+      cwd: path.dirname(path.resolve(typFile)),
+      encoding: 'utf8',
+    })
+    consola.success(
+      `Generated resume pdf file successfully: ${getPdfPath(typFile)}`
+    )
+    consola.debug(joinNonEmptyString(['stdout: ', toCodeBlock(result.stdout)]))
+  } catch (error) {
+    consola.debug(joinNonEmptyString(['stdout: ', toCodeBlock(error.stdout)]))
+    consola.debug(joinNonEmptyString(['stderr: ', toCodeBlock(error.stderr)]))
+    throw new YAMLResumeError('TYPST_COMPILE_ERROR', { error: error.message })
+  }
+}
+
+/**
+ * Build the outputs of all layouts of a resume.
  *
- * @param resumePath - The source resume file path (YAML, YML, or JSON).
- * @param options - Build options including validation, PDF generation flags,
- * and output directory.
+ * @param resumePath - The source resume file path.
+ * @param resume - The resume object.
+ * @param options - Build options including PDF generation flag and output
+ * directory.
+ * @param language - Optional locale language appended to the output file
+ * names.
  */
-export async function buildResume(
+async function buildResumeLayouts(
   resumePath: string,
-  options: { pdf?: boolean; validate?: boolean; output?: string } = {
-    pdf: true,
-    validate: true,
-  }
+  resume: Resume,
+  options: { pdf?: boolean; output?: string },
+  language?: LocaleLanguage
 ) {
-  const { resume } = readResume(resumePath, options.validate)
-
   // Fallback to default layout if none provided
   const allLayouts = resume.layouts ?? DEFAULT_RESUME_LAYOUTS
   // Ensure resume has layouts for the renderer to use
@@ -310,12 +364,20 @@ export async function buildResume(
   const totals = {
     latex: allLayouts.filter((l) => l.engine === 'latex').length,
     markdown: allLayouts.filter((l) => l.engine === 'markdown').length,
+    html: allLayouts.filter((l) => l.engine === 'html').length,
+    text: allLayouts.filter((l) => l.engine === 'text').length,
+    typst: allLayouts.filter((l) => l.engine === 'typst').length,
+    docx: allLayouts.filter((l) => l.engine === 'docx').length,
   }
 
   // Track current index for each engine
   const indices = {
     latex: 0,
     markdown: 0,
+    html: 0,
+    text: 0,
+    typst: 0,
+    docx: 0,
   }
 
   for (let layoutIndex = 0; layoutIndex < allLayouts.length; layoutIndex++) {
@@ -330,7 +392,8 @@ export async function buildResume(
           totals.latex,
           options.output,
           '.tex',
-          layoutIndex
+          layoutIndex,
+          language
         )
 
         if (options.pdf === true) {
@@ -346,7 +409,64 @@ export async function buildResume(
           totals.markdown,
           options.output,
           '.md',
-          layoutIndex
+          layoutIndex,
+          language
+        )
+        break
+      }
+      case 'html': {
+        generateOutput(
+          resumePath,
+          resume,
+          indices.html++,
+          totals.html,
+          options.output,
+          '.html',
+          layoutIndex,
+          language
+        )
+        break
+      }
+      case 'text': {
+        generateOutput(
+          resumePath,
+          resume,
+          indices.text++,
+          totals.text,
+          options.output,
+          '.txt',
+          layoutIndex,
+          language
+        )
+        break
+      }
+      case 'typst': {
+        const typFile = generateOutput(
+          resumePath,
+          resume,
+          indices.typst++,
+          totals.typst,
+          options.output,
+          '.typ',
+          layoutIndex,
+          language
+        )
+
+        if (options.pdf === true) {
+          await compileTypst(typFile)
+        }
+        break
+      }
+      case 'docx': {
+        generateOutput(
+          resumePath,
+          resume,
+          indices.docx++,
+          totals.docx,
+          options.output,
+          '.docx',
+          layoutIndex,
+          language
         )
         break
       }
@@ -354,24 +474,109 @@ export async function buildResume(
   }
 }
 
+/**
+ * Infer the locale languages a resume should be built in.
+ *
+ * Requested languages win, otherwise the resume is built in all languages used
+ * by its localized strings.
+ *
+ * @param resume - The resume object.
+ * @param languages - The requested locale languages.
+ * @returns The locale languages, or an empty array if the resume is built as
+ * is, i.e, it has no localized strings and no languages are requested.
+ * @throws {YAMLResumeError} If a requested language is not supported.
+ */
+export function inferLanguages(
+  resume: Resume,
+  languages: string[] = []
+): LocaleLanguage[] {
+  for (const language of languages) {
+    if (!getLocaleLanguageIds().includes(language)) {
+      throw new YAMLResumeError('INVALID_LOCALE_LANGUAGE', { language })
+    }
+  }
+
+  return languages.length > 0
+    ? (languages as LocaleLanguage[])
+    : getResumeLanguages(resume)
+}
+
+/**
+ * Build a YAML resume to LaTeX & PDF, Markdown, HTML, plain text, Typst & PDF
+ * and/or Docx
+ *
+ * It first validates the resume against the schema (unless `--no-validate` flag
+ * is used), then iterates through configured layouts to generate outputs.
+ *
+ * A resume with localized strings is built once per language, with the
+ * language appended to the output file names if there are multiple languages,
+ * e.g, `resume.en.tex` and `resume.zh-hans.tex`.
+ *
+ * @param resumePath - The source resume file path (YAML, YML, or JSON).
+ * @param options - Build options including validation, PDF generation flags,
+ * output directory and locale languages.
+ */
+export async function buildResume(
+  resumePath: string,
+  options: {
+    pdf?: boolean
+    validate?: boolean
+    output?: string
+    language?: string[]
+  } = {
+    pdf: true,
+    validate: true,
+  }
+) {
+  const { resume } = readResume(resumePath, options.validate)
+  const languages = inferLanguages(resume, options.language)
+
+  if (languages.length === 0) {
+    await buildResumeLayouts(resumePath, resume, options)
+    return
+  }
+
+  for (const language of languages) {
+    await buildResumeLayouts(
+      resumePath,
+      localizeResume(resume, language),
+      options,
+      languages.length > 1 ? language : undefined
+    )
+  }
+}
+
 /**
  * Create a command instance to build a YAML resume to LaTeX and PDF
  */
 export function createBuildCommand() {
   return new Command()
     .name('build')
-    .description('build a resume to LaTeX, PDF, or Markdown')
+    .description(
+      'build a resume to LaTeX, PDF, Markdown, HTML, plain text, Typst, or Docx'
+    )
     .argument('<resume-path>', 'the resume file path')
     .option(
       '--no-pdf',
-      'only generate TeX file without PDF (for LaTeX layouts)'
+      'only generate TeX or Typst file without PDF (for LaTeX and Typst layouts)'
     )
     .option('--no-validate', 'skip resume schema validation')
     .option('-o, --output <dir>', 'output directory for generated files')
+    .option(
+      '-l, --language <language>',
+      'build the resume in the given locale language (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      []
+    )
     .action(
       async (
         resumePath: string,
-        options: { pdf: boolean; validate: boolean; output?: string }
+        options: {
+          pdf: boolean
+          validate: boolean
+          output?: string
+          language: string[]
+        }
       ) => {
         try {
           await buildResume(resumePath, options)
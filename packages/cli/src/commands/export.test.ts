@@ -0,0 +1,212 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { ErrorType, YAMLResumeError } from '@yamlresume/core'
+import type { Command } from 'commander'
+import { consola } from 'consola'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import yaml from 'yaml'
+
+import { convertResume, createExportCommand, exportResume } from './export'
+import { getFixture } from './utils'
+
+describe(convertResume, () => {
+  it('should convert resume to json resume', () => {
+    const resume = yaml.parse(
+      fs.readFileSync(getFixture('software-engineer.yml'), 'utf8')
+    )
+
+    const result = JSON.parse(convertResume(resume, 'jsonresume'))
+
+    expect(result.basics.name).toBe(resume.content.basics.name)
+    expect(result.basics.label).toBe(resume.content.basics.headline)
+    expect(result).not.toHaveProperty('layouts')
+    expect(result).not.toHaveProperty('locale')
+  })
+})
+
+describe(exportResume, () => {
+  let stdoutSpy: ReturnType<typeof vi.spyOn>
+  let consolaSuccessSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    stdoutSpy = vi
+      // biome-ignore lint/suspicious/noExplicitAny: ignore
+      .spyOn(process.stdout, 'write' as any)
+      .mockImplementation(() => true)
+    consolaSuccessSpy = vi.spyOn(consola, 'success').mockImplementation(vi.fn())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should print exported content to stdout by default', () => {
+    const resumePath = getFixture('software-engineer.yml')
+
+    exportResume(resumePath)
+
+    expect(stdoutSpy).toBeCalledTimes(1)
+    const content = stdoutSpy.mock.calls[0][0] as string
+    expect(JSON.parse(content)).toHaveProperty('basics')
+    expect(consolaSuccessSpy).not.toBeCalled()
+  })
+
+  it('should write exported content to the output file', () => {
+    const resumePath = getFixture('software-engineer.yml')
+    const output = path.join(path.dirname(resumePath), 'jsonresume.json')
+
+    exportResume(resumePath, { format: 'jsonresume', output })
+
+    expect(fs.existsSync(output)).toBe(true)
+    expect(JSON.parse(fs.readFileSync(output, 'utf8'))).toHaveProperty('basics')
+    expect(consolaSuccessSpy).toBeCalledWith(
+      `Exported resume to jsonresume successfully: ${output}`
+    )
+    expect(stdoutSpy).not.toBeCalled()
+
+    // cleanup
+    fs.unlinkSync(output)
+  })
+
+  it('should resolve localized strings to the given language', () => {
+    const resumePath = getFixture('multilingual-resume.yml')
+
+    exportResume(resumePath)
+    exportResume(resumePath, { language: 'zh-hans' })
+
+    const [english, chinese] = stdoutSpy.mock.calls.map(([content]) =>
+      JSON.parse(content as string)
+    )
+    expect(english.basics.name).toBe('Andy Dufresne')
+    expect(english.education[0].institution).toBe('University of Maine')
+    expect(chinese.basics.name).toBe('安迪·杜佛兰')
+    expect(chinese.education[0].institution).toBe('缅因大学')
+  })
+
+  it('should throw an error for an invalid language', () => {
+    const resumePath = getFixture('multilingual-resume.yml')
+
+    expect(() => exportResume(resumePath, { language: 'xx' })).toThrow(
+      new YAMLResumeError('INVALID_LOCALE_LANGUAGE', { language: 'xx' })
+    )
+    expect(stdoutSpy).not.toBeCalled()
+  })
+
+  it('should handle file write error', () => {
+    const resumePath = getFixture('software-engineer.yml')
+    vi.spyOn(consola, 'debug').mockImplementation(vi.fn())
+    vi.spyOn(fs, 'writeFileSync').mockImplementation(() => {
+      throw new Error('Write error')
+    })
+
+    expect(() => exportResume(resumePath, { output: 'resume.json' })).toThrow(
+      YAMLResumeError
+    )
+  })
+})
+
+describe(createExportCommand, () => {
+  let exportCommand: Command
+  let consolaErrorSpy: ReturnType<typeof vi.spyOn>
+  let stdoutSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    exportCommand = createExportCommand()
+    consolaErrorSpy = vi.spyOn(consola, 'error').mockImplementation(vi.fn())
+    stdoutSpy = vi
+      // biome-ignore lint/suspicious/noExplicitAny: ignore
+      .spyOn(process.stdout, 'write' as any)
+      .mockImplementation(() => true)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should have correct name and description', () => {
+    expect(exportCommand.name()).toBe('export')
+    expect(exportCommand.description()).toBe(
+      'export a resume to other resume formats, e.g, JSON Resume'
+    )
+  })
+
+  it('should have format, output, validate and language options', () => {
+    const format = exportCommand.options.find((opt) => opt.long === '--format')
+    expect(format?.argChoices).toEqual(['jsonresume'])
+    expect(format?.defaultValue).toBe('jsonresume')
+
+    expect(
+      exportCommand.options.find((opt) => opt.long === '--output')
+    ).toBeDefined()
+    expect(
+      exportCommand.options.find((opt) => opt.long === '--no-validate')
+    ).toBeDefined()
+    expect(
+      exportCommand.options.find((opt) => opt.long === '--language')
+    ).toBeDefined()
+  })
+
+  it('should export resume to stdout', () => {
+    const resumePath = getFixture('software-engineer.yml')
+
+    exportCommand.parse(['yamlresume', 'export', resumePath])
+
+    expect(stdoutSpy).toBeCalledTimes(1)
+    expect(consolaErrorSpy).not.toBeCalled()
+  })
+
+  it('should keep stdout clean when the resume has summary warnings', () => {
+    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(vi.fn())
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(vi.fn())
+    const resumePath = getFixture('summary-warnings.yml')
+
+    exportCommand.parse(['yamlresume', 'export', resumePath])
+
+    expect(stdoutSpy).toBeCalledTimes(1)
+    const content = stdoutSpy.mock.calls[0][0] as string
+    expect(JSON.parse(content)).toHaveProperty('basics')
+    expect(consoleLogSpy).not.toBeCalled()
+    expect(consoleErrorSpy).toBeCalledWith(
+      expect.stringContaining('warning: images are not supported')
+    )
+    expect(consolaErrorSpy).not.toBeCalled()
+  })
+
+  it('should handle file read error', () => {
+    // @ts-ignore
+    const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(vi.fn())
+
+    exportCommand.parse(['yamlresume', 'export', 'non-existent-file.yml'])
+
+    expect(consolaErrorSpy).toBeCalledWith(
+      'Failed to read resume file: non-existent-file.yml'
+    )
+    expect(processExitSpy).toBeCalledWith(ErrorType.FILE_READ_ERROR.errno)
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import fs from 'node:fs'
+import {
+  convertYAMLResumeToJSONResume,
+  getLocaleLanguageIds,
+  joinNonEmptyString,
+  type LocaleLanguage,
+  localizeResume,
+  type Resume,
+  toCodeBlock,
+  YAMLResumeError,
+} from '@yamlresume/core'
+import { Command, Option } from 'commander'
+import consola from 'consola'
+
+import { readResume } from './validate'
+
+/**
+ * All supported export formats.
+ */
+export const EXPORT_FORMAT_OPTIONS = ['jsonresume'] as const
+
+/**
+ * The type of export format.
+ */
+export type ExportFormat = (typeof EXPORT_FORMAT_OPTIONS)[number]
+
+/**
+ * Convert a resume into the given export format.
+ *
+ * @param resume - The resume object.
+ * @param format - The export format.
+ * @returns The exported content.
+ */
+export function convertResume(resume: Resume, format: ExportFormat): string {
+  switch (format) {
+    case 'jsonresume':
+      return `${JSON.stringify(convertYAMLResumeToJSONResume(resume), null, 2)}\n`
+  }
+}
+
+/**
+ * Export a YAML resume to another resume format.
+ *
+ * The exported content is printed to stdout unless an output file is given,
+ * so it can be piped to other tools easily.
+ *
+ * Localized strings are resolved to the given language, or to the locale
+ * language of the resume if absent.
+ *
+ * @param resumePath - The source resume file path (YAML, YML, or JSON).
+ * @param options - Export options including the format, the output file,
+ * whether to validate the resume and the locale language to export.
+ * @throws {YAMLResumeError} When the language is not supported or the output
+ * file cannot be written.
+ */
+export function exportResume(
+  resumePath: string,
+  options: {
+    format?: ExportFormat
+    output?: string
+    validate?: boolean
+    language?: string
+  } = {}
+) {
+  const { format = 'jsonresume', output, validate = true, language } = options
+
+  if (language && !getLocaleLanguageIds().includes(language)) {
+    throw new YAMLResumeError('INVALID_LOCALE_LANGUAGE', { language })
+  }
+
+  const { resume } = readResume(resumePath, validate)
+
+  const content = convertResume(
+    language ? localizeResume(resume, language as LocaleLanguage) : resume,
+    format
+  )
+
+  if (!output) {
+    process.stdout.write(content)
+    return
+  }
+
+  try {
+    fs.writeFileSync(output, content)
+    consola.success(`Exported resume to ${format} successfully: ${output}`)
+  } catch (error) {
+    consola.debug(
+      joinNonEmptyString(['Error exporting resume: ', toCodeBlock(error.stack)])
+    )
+    throw new YAMLResumeError('FILE_WRITE_ERROR', { path: output })
+  }
+}
+
+/**
+ * Create a command instance to export a YAML resume to other formats
+ */
+export function createExportCommand() {
+  return new Command()
+    .name('export')
+    .description('export a resume to other resume formats, e.g, JSON Resume')
+    .argument('<resume-path>', 'the resume file path')
+    .addOption(
+      new Option('-f, --format <format>', 'the export format')
+        .choices(EXPORT_FORMAT_OPTIONS)
+        .default('jsonresume')
+    )
+    .option('-o, --output <file>', 'output file, default to stdout')
+    .option('--no-validate', 'skip resume schema validation')
+    .option(
+      '-l, --language <language>',
+      'export the resume in the given locale language'
+    )
+    .action(
+      (
+        resumePath: string,
+        options: {
+          format: ExportFormat
+          output?: string
+          validate: boolean
+          language?: string
+        }
+      ) => {
+        try {
+          exportResume(resumePath, options)
+        } catch (error) {
+          consola.error(error.message)
+          process.exit(error.errno)
+        }
+      }
+    )
+}
@@ -22,8 +22,10 @@
  * IN THE SOFTWARE.
  */
 
+export { createAnonymizeCommand } from './anonymize'
 export { createBuildCommand } from './build'
 export { createDevCommand } from './dev'
+export { createExportCommand } from './export'
 export { createLanguagesCommand } from './languages'
 export { createNewCommand } from './new'
 export { createTemplatesCommand } from './templates'
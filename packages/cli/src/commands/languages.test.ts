@@ -25,6 +25,8 @@
 import {
   getLocaleLanguageDetail,
   LOCALE_LANGUAGE_OPTIONS,
+  registerLocalePack,
+  unregisterLocalePack,
 } from '@yamlresume/core'
 import type { Command } from 'commander'
 import { consola } from 'consola'
@@ -50,6 +52,20 @@ describe(listLanguages, () => {
     // +2 for header and separator
     expect(rows.length).toBe(LOCALE_LANGUAGE_OPTIONS.length + 2)
   })
+
+  it('should include languages of registered locale packs', () => {
+    registerLocalePack({ language: 'nl', name: 'Dutch' })
+    registerLocalePack({ language: 'sv' })
+
+    const rows = listLanguages().split('\n')
+
+    expect(rows.length).toBe(LOCALE_LANGUAGE_OPTIONS.length + 4)
+    expect(rows[rows.length - 2]).toMatch(/\| nl\s+\| Dutch\s+\|/)
+    expect(rows[rows.length - 1]).toMatch(/\| sv\s+\| sv\s+\|/)
+
+    unregisterLocalePack('nl')
+    unregisterLocalePack('sv')
+  })
 })
 
 describe(createLanguagesCommand, () => {
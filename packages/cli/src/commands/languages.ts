@@ -24,6 +24,7 @@
 
 import {
   getLocaleLanguageDetail,
+  getRegisteredLocalePacks,
   LOCALE_LANGUAGE_OPTIONS,
 } from '@yamlresume/core'
 import { Command } from 'commander'
@@ -33,7 +34,8 @@ import { markdownTable } from 'markdown-table'
 /**
  * Generates a markdown table listing all supported locale languages.
  *
- * The table includes columns for the language code and the language name.
+ * The table includes columns for the language code and the language name,
+ * languages of registered locale packs are listed after the builtin ones.
  *
  * @returns A string containing the formatted markdown table.
  */
@@ -44,6 +46,10 @@ export function listLanguages() {
       value,
       getLocaleLanguageDetail(value).name,
     ]),
+    ...getRegisteredLocalePacks().map(({ language, name }) => [
+      language,
+      name ?? language,
+    ]),
   ])
 }
 
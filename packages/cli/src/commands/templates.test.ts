@@ -25,6 +25,9 @@
 import {
   getLatexTemplateDetail,
   LATEX_TEMPLATE_OPTIONS,
+  ModerncvBankingRenderer,
+  registerTemplate,
+  unregisterTemplate,
 } from '@yamlresume/core'
 import type { Command } from 'commander'
 import { consola } from 'consola'
@@ -56,6 +59,26 @@ describe(listLaTeXTemplates, () => {
     // +2 for header and separator
     expect(rows.length).toBe(LATEX_TEMPLATE_OPTIONS.length + 2)
   })
+
+  it('should include registered custom templates', () => {
+    registerTemplate('acme-resume', ModerncvBankingRenderer, {
+      name: 'Acme Resume',
+      description: 'In-house template of Acme Inc.',
+    })
+
+    try {
+      const result = listLaTeXTemplates()
+
+      expect(result).toContain('acme-resume')
+      expect(result).toContain('Acme Resume')
+      expect(result).toContain('In-house template of Acme Inc.')
+      expect(result.trim().split('\n').length).toBe(
+        LATEX_TEMPLATE_OPTIONS.length + 3
+      )
+    } finally {
+      unregisterTemplate('acme-resume')
+    }
+  })
 })
 
 describe(createTemplatesCommand, () => {
@@ -22,10 +22,7 @@
  * IN THE SOFTWARE.
  */
 
-import {
-  getLatexTemplateDetail,
-  LATEX_TEMPLATE_OPTIONS,
-} from '@yamlresume/core'
+import { getRegisteredTemplates } from '@yamlresume/core'
 import { Command } from 'commander'
 import consola from 'consola'
 import { markdownTable } from 'markdown-table'
@@ -33,17 +30,21 @@ import { markdownTable } from 'markdown-table'
 /**
  * Generates a markdown table listing all supported templates.
  *
- * The table includes columns for the template id,  name and description.
+ * Both builtin templates and custom templates registered via
+ * `registerTemplate` are listed. The table includes columns for the template
+ * id, engine, name and description.
  *
  * @returns A string containing the formatted markdown table.
  */
 export function listLaTeXTemplates() {
   return markdownTable([
     ['layout.template', 'Engine', 'Template Name', 'Description'],
-    ...LATEX_TEMPLATE_OPTIONS.map((value) => {
-      const details = getLatexTemplateDetail(value)
-      return [value, details.engine, details.name, details.description]
-    }),
+    ...getRegisteredTemplates().map((template) => [
+      template.id,
+      template.engine,
+      template.name,
+      template.description,
+    ]),
   ])
 }
 
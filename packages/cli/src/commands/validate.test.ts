@@ -23,7 +23,9 @@
  */
 
 import fs from 'node:fs'
+import path from 'node:path'
 import {
+  collectSummaryDiagnostics,
   ErrorType,
   joinNonEmptyString,
   type Resume,
@@ -32,23 +34,31 @@ import {
 } from '@yamlresume/core'
 import type { Command } from 'commander'
 import consola from 'consola'
-import { cloneDeep } from 'lodash-es'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import yaml from 'yaml'
 
 import { getFixture } from './utils'
 import {
+  composeResume,
   createValidateCommand,
+  formatErrorsAsJSON,
+  formatErrorsAsSARIF,
+  formatSummaryPath,
+  locateSummaryDiagnostics,
+  type PositionalError,
+  parseMaxWarnings,
   prettifySchemaValidationError,
-  prettifyYamlParseError,
   readResume,
+  validateComposedResume,
   validateResume,
+  validateResumeFile,
 } from './validate'
 
 describe(prettifySchemaValidationError, () => {
   it('should format error with line and column information', () => {
-    const error = {
+    const error: PositionalError = {
       message: 'Invalid field',
+      severity: 'warning',
       line: 2,
       column: 5,
       path: ['name'],
@@ -68,8 +78,9 @@ describe(prettifySchemaValidationError, () => {
   })
 
   it('should handle empty line content', () => {
-    const error = {
+    const error: PositionalError = {
       message: 'Missing required field',
+      severity: 'error',
       line: 1,
       column: 1,
       path: [],
@@ -81,7 +92,7 @@ describe(prettifySchemaValidationError, () => {
 
     expect(result).toEqual(
       [
-        'test.yaml:1:1: warning: Missing required field', //
+        'test.yaml:1:1: error: Missing required field', //
         '',
         '^',
       ].join('\n')
@@ -89,56 +100,6 @@ describe(prettifySchemaValidationError, () => {
   })
 })
 
-describe(prettifyYamlParseError, () => {
-  it('should format YAML parsing error with line and column information', () => {
-    const message = 'Nested mappings are not allowed in compact mappings'
-    const errorMessage = `${message} at line 6, column 10`
-    const resumePath = 'test.yaml'
-    const resumeStr = joinNonEmptyString(
-      [
-        'name: A',
-        '  nested: value',
-        '  another: line',
-        '  more: content',
-        '  even: more',
-        '  nested: value',
-      ],
-      '\n'
-    )
-
-    const result = prettifyYamlParseError(errorMessage, resumePath, resumeStr)
-
-    expect(result).toEqual(
-      [
-        `test.yaml:6:10: error: ${message}.`,
-        '  nested: value',
-        '         ^',
-      ].join('\n')
-    )
-  })
-
-  it('should handle YAML error without line/column information', () => {
-    const errorMessage = 'Some generic YAML error'
-    const resumePath = 'test.yaml'
-    const resumeStr = 'name: A'
-
-    const result = prettifyYamlParseError(errorMessage, resumePath, resumeStr)
-
-    expect(result).toEqual('test.yaml: error: Some generic YAML error.')
-  })
-
-  it('should handle empty YAML file', () => {
-    const errorMessage = 'Some generic YAML error at line 1, column 1'
-    const resumePath = 'test.yaml'
-    const resumeStr = ''
-
-    const result = prettifyYamlParseError(errorMessage, resumePath, resumeStr)
-    expect(result).toEqual(
-      ['test.yaml:1:1: error: Some generic YAML error.', '', '^'].join('\n')
-    )
-  })
-})
-
 describe(validateResume, () => {
   it('should return empty array for valid YAML', () => {
     const resumeStr = fs.readFileSync(
@@ -161,6 +122,7 @@ describe(validateResume, () => {
         errors: [
           {
             message: 'content is required.',
+            severity: 'error',
             line: 1,
             column: 1,
             path: ['content'],
@@ -179,14 +141,16 @@ describe(validateResume, () => {
         errors: [
           {
             message: 'basics is required.',
-            line: 1,
-            column: 1,
+            severity: 'error',
+            line: 2,
+            column: 3,
             path: ['content', 'basics'],
           },
           {
             message: 'education is required.',
-            line: 1,
-            column: 1,
+            severity: 'error',
+            line: 2,
+            column: 3,
             path: ['content', 'education'],
           },
         ],
@@ -203,8 +167,9 @@ describe(validateResume, () => {
         errors: [
           {
             message: 'education is required.',
-            line: 1,
-            column: 1,
+            severity: 'error',
+            line: 2,
+            column: 3,
             path: ['content', 'education'],
           },
         ],
@@ -221,12 +186,14 @@ describe(validateResume, () => {
         errors: [
           {
             message: 'education is required.',
-            line: 1,
-            column: 1,
+            severity: 'error',
+            line: 2,
+            column: 3,
             path: ['content', 'education'],
           },
           {
             message: 'name should be 2 characters or more.',
+            severity: 'error',
             line: 3,
             column: 11,
             path: ['content', 'basics', 'name'],
@@ -242,6 +209,195 @@ describe(validateResume, () => {
   })
 })
 
+describe(composeResume, () => {
+  it('should compose a resume from a single file', () => {
+    const resumePath = getFixture('software-engineer.yml')
+    const resumeStr = fs.readFileSync(resumePath, 'utf8')
+
+    const { document, sources } = composeResume(resumePath)
+
+    expect(document.toJS()).toEqual(yaml.parse(resumeStr))
+    expect(sources.map(({ path }) => path)).toEqual([resumePath])
+  })
+
+  it('should collect YAML parse errors', () => {
+    const resumePath = getFixture('invalid-yaml.yml')
+
+    expect(composeResume(resumePath).parseErrors).toEqual([
+      {
+        message: 'All mapping items must start at the same column.',
+        severity: 'error',
+        line: 27,
+        column: 1,
+        path: [],
+        resumePath,
+      },
+    ])
+    expect(composeResume(getFixture('compose-resume.yml')).parseErrors).toEqual(
+      []
+    )
+  })
+
+  it('should resolve included files and deep merge the base resume', () => {
+    const resumePath = getFixture('compose-resume.yml')
+
+    const { document, sources } = composeResume(resumePath)
+    const resume = document.toJS() as Resume
+
+    expect(resume).not.toHaveProperty('extends')
+    expect(resume.content.basics).toEqual({
+      name: 'Andy Dufresne',
+      headline: 'Senior Software Engineer',
+      email: 'hi@ppresume.com',
+    })
+    expect(resume.content.work).toEqual([
+      {
+        name: 'PPResume',
+        url: 'https://ppresume.com',
+        startDate: 'Dec 1, 2022',
+        position: 'Senior Software Engineer',
+        summary: 'Built a resume builder',
+      },
+    ])
+    expect(resume.layouts).toEqual([{ engine: 'markdown' }])
+    expect(sources.map(({ path }) => path)).toEqual([
+      resumePath,
+      getFixture('compose-work.yml'),
+      getFixture('compose-base.yml'),
+    ])
+  })
+
+  it('should throw an error for circular includes', () => {
+    const resumePath = getFixture('compose-circular-a.yml')
+
+    try {
+      composeResume(resumePath)
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(YAMLResumeError)
+      expect(error.code).toBe('INVALID_INCLUDE')
+      expect(error.message).toBe(
+        `Invalid include in ${resumePath}: circular include detected.`
+      )
+    }
+  })
+
+  it('should throw an error if an included file cannot be read', () => {
+    const resumePath = getFixture('non-exist.yml')
+
+    vi.spyOn(fs, 'readFileSync').mockImplementationOnce(
+      () => 'work: !include non-exist-work.yml'
+    )
+
+    try {
+      composeResume(resumePath)
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(YAMLResumeError)
+      expect(error.code).toBe('FILE_READ_ERROR')
+      expect(error.message).toBe(
+        `Failed to read resume file: ${getFixture('non-exist-work.yml')}`
+      )
+    }
+  })
+
+  it('should throw an error for invalid includes', () => {
+    const tests = ['extends: 42', 'extends: ""', 'work: !include\n  - work.yml']
+
+    for (const resumeStr of tests) {
+      vi.spyOn(fs, 'readFileSync').mockImplementationOnce(() => resumeStr)
+
+      try {
+        composeResume('resume.yml')
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(YAMLResumeError)
+        expect(error.code).toBe('INVALID_INCLUDE')
+      }
+    }
+  })
+})
+
+describe(validateComposedResume, () => {
+  it('should return empty array for valid composed resume', () => {
+    const composed = composeResume(getFixture('compose-resume.yml'))
+
+    expect(validateComposedResume(composed, ResumeSchema)).toEqual([])
+  })
+
+  it('should locate errors in included files', () => {
+    const resumePath = getFixture('compose-invalid-resume.yml')
+    const composed = composeResume(resumePath)
+
+    expect(validateComposedResume(composed, ResumeSchema)).toEqual([
+      {
+        message: 'name should be 2 characters or more.',
+        severity: 'error',
+        line: 26,
+        column: 9,
+        path: ['content', 'work', 0, 'name'],
+        resumePath: getFixture('compose-invalid-work.yml'),
+      },
+    ])
+  })
+
+  it('should locate missing fields in included files', () => {
+    const resumePath = getFixture('compose-missing-resume.yml')
+    const composed = composeResume(resumePath)
+
+    expect(validateComposedResume(composed, ResumeSchema)).toEqual([
+      {
+        message: 'degree option is required.',
+        severity: 'error',
+        line: 26,
+        column: 3,
+        path: ['content', 'education', 0, 'degree'],
+        resumePath: getFixture('compose-missing-education.yml'),
+      },
+    ])
+  })
+})
+
+describe(locateSummaryDiagnostics, () => {
+  it('should locate summary diagnostics in the source file', () => {
+    const resumePath = getFixture('summary-warnings.yml')
+    const composed = composeResume(resumePath)
+    const diagnostics = collectSummaryDiagnostics(
+      composed.document.toJS() as Resume
+    )
+
+    expect(locateSummaryDiagnostics(composed, diagnostics)).toEqual([
+      {
+        message: 'images are not supported and were removed.',
+        severity: 'warning',
+        line: 40,
+        column: 13,
+        path: ['content', 'work', 0, 'summary'],
+        resumePath,
+      },
+      {
+        message: 'images are not supported and were removed.',
+        severity: 'warning',
+        line: 42,
+        column: 23,
+        path: ['content', 'work', 0, 'highlights', 0],
+        resumePath,
+      },
+    ])
+  })
+})
+
+describe(formatSummaryPath, () => {
+  it('should format paths to summary fields', () => {
+    expect(formatSummaryPath(['content', 'basics', 'summary'])).toBe(
+      'basics.summary'
+    )
+    expect(formatSummaryPath(['content', 'work', 2, 'summary'])).toBe(
+      'work[2].summary'
+    )
+  })
+})
+
 describe(readResume, () => {
   it('should check valid resume successfully', () => {
     const resumePath = getFixture('software-engineer.yml')
@@ -249,6 +405,31 @@ describe(readResume, () => {
     expect(validated).toBe('success')
   })
 
+  it('should warn about removed markdown constructs in summaries', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn())
+    const resumePath = getFixture('summary-warnings.yml')
+
+    const { validated } = readResume(resumePath)
+
+    expect(validated).toBe('success')
+    expect(consoleSpy).toBeCalledTimes(2)
+    expect(consoleSpy).toHaveBeenNthCalledWith(
+      1,
+      joinNonEmptyString(
+        [
+          'work[0].summary:4:5: warning: images are not supported and were removed.',
+          'See ![architecture](architecture.png)',
+          '    ^',
+        ],
+        '\n'
+      )
+    )
+
+    consoleSpy.mockClear()
+    readResume(resumePath, false)
+    expect(consoleSpy).not.toBeCalled()
+  })
+
   it('should throw an error if the file cannot be read', () => {
     const resumePath = 'non-exist.yml'
 
@@ -262,7 +443,9 @@ describe(readResume, () => {
   })
 
   it('should throw an invalid yaml error if the resume cannot be parsed', () => {
-    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(vi.fn())
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(vi.fn())
     const resumePath = getFixture('invalid-yaml.yml')
 
     try {
@@ -271,12 +454,12 @@ describe(readResume, () => {
       expect(error).toBeInstanceOf(YAMLResumeError)
       expect(error.code).toBe('INVALID_YAML')
       expect(error.message).toContain('Invalid YAML format: ')
-      expect(consoleLogSpy).toBeCalledWith(expect.stringContaining('error'))
+      expect(consoleErrorSpy).toBeCalledWith(expect.stringContaining('error'))
     }
   })
 
   it('should print errors if resume is not checked by `resumeSchema`', () => {
-    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(vi.fn())
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn())
 
     const resumePath = getFixture('invalid-schema.yml')
     const resumeStr = fs.readFileSync(resumePath, 'utf8')
@@ -287,21 +470,13 @@ describe(readResume, () => {
     expect(result).toEqual({ resume, validated: 'unknown' })
     expect(consoleSpy).not.toBeCalled()
 
-    const invalidResume = cloneDeep(resume)
-    invalidResume.content.basics.name = ''
-
-    // now let us mock yaml.parse to return a invalid schema resume
-    vi.spyOn(yaml, 'parse').mockImplementation(() => {
-      return invalidResume
-    })
-
     result = readResume(resumePath, true)
-    expect(result).toEqual({ resume: invalidResume, validated: 'failed' })
+    expect(result).toEqual({ resume, validated: 'failed' })
 
     expect(consoleSpy).toBeCalledWith(
       joinNonEmptyString(
         [
-          `${resumePath}:26:11: warning: name should be 2 characters or more.`,
+          `${resumePath}:26:11: error: name should be 2 characters or more.`,
           '    name: A # too short',
           '          ^',
         ],
@@ -309,6 +484,222 @@ describe(readResume, () => {
       )
     )
   })
+
+  it('should print errors against the files they are located in', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn())
+
+    const resumePath = getFixture('compose-invalid-resume.yml')
+    const { validated } = readResume(resumePath)
+
+    expect(validated).toBe('failed')
+    expect(consoleSpy).toBeCalledWith(
+      joinNonEmptyString(
+        [
+          `${getFixture('compose-invalid-work.yml')}:26:9: error: name should be 2 characters or more.`,
+          '- name: A',
+          '        ^',
+        ],
+        '\n'
+      )
+    )
+  })
+})
+
+describe(formatErrorsAsJSON, () => {
+  it('should format errors as a JSON array', () => {
+    const errors: PositionalError[] = [
+      {
+        message: 'name should be 2 characters or more.',
+        severity: 'error',
+        line: 26,
+        column: 11,
+        path: ['content', 'basics', 'name'],
+        resumePath: 'resume.yml',
+      },
+    ]
+
+    expect(JSON.parse(formatErrorsAsJSON(errors))).toEqual([
+      {
+        resumePath: 'resume.yml',
+        line: 26,
+        column: 11,
+        path: ['content', 'basics', 'name'],
+        severity: 'error',
+        message: 'name should be 2 characters or more.',
+      },
+    ])
+    expect(formatErrorsAsJSON([])).toBe('[]\n')
+  })
+})
+
+describe(formatErrorsAsSARIF, () => {
+  it('should format errors as a SARIF log', () => {
+    const errors: PositionalError[] = [
+      {
+        message: 'name should be 2 characters or more.',
+        severity: 'error',
+        line: 26,
+        column: 11,
+        path: ['content', 'work', 0, 'name'],
+        resumePath: path.join(process.cwd(), 'resumes', 'resume.yml'),
+      },
+    ]
+
+    const log = JSON.parse(formatErrorsAsSARIF(errors))
+
+    expect(log.version).toBe('2.1.0')
+    expect(log.runs).toHaveLength(1)
+    expect(log.runs[0].tool.driver.name).toBe('yamlresume')
+    expect(log.runs[0].results).toEqual([
+      {
+        ruleId: 'schema-validation',
+        level: 'error',
+        message: { text: 'name should be 2 characters or more.' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'resumes/resume.yml' },
+              region: { startLine: 26, startColumn: 11 },
+            },
+            logicalLocations: [{ fullyQualifiedName: 'content.work.0.name' }],
+          },
+        ],
+      },
+    ])
+  })
+})
+
+describe(validateResumeFile, () => {
+  let stdoutSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    stdoutSpy = vi.spyOn(process.stdout, 'write').mockImplementation(vi.fn())
+    vi.spyOn(console, 'error').mockImplementation(vi.fn())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should return empty array for valid resume', () => {
+    const resumePath = getFixture('software-engineer.yml')
+
+    expect(validateResumeFile(resumePath)).toEqual([])
+    expect(stdoutSpy).not.toBeCalled()
+  })
+
+  it('should print errors in the given format', () => {
+    const resumePath = getFixture('invalid-schema.yml')
+    const errors = validateComposedResume(
+      composeResume(resumePath),
+      ResumeSchema
+    )
+
+    expect(() => validateResumeFile(resumePath, { format: 'json' })).toThrow()
+    expect(stdoutSpy).toBeCalledWith(formatErrorsAsJSON(errors))
+
+    expect(() => validateResumeFile(resumePath, { format: 'sarif' })).toThrow()
+    expect(stdoutSpy).toBeCalledWith(formatErrorsAsSARIF(errors))
+  })
+
+  it('should print YAML parse errors in the given format', () => {
+    const resumePath = getFixture('invalid-yaml.yml')
+    const { parseErrors } = composeResume(resumePath)
+
+    for (const format of ['json', 'sarif'] as const) {
+      try {
+        validateResumeFile(resumePath, { format })
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(YAMLResumeError)
+        expect(error.code).toBe('INVALID_YAML')
+      }
+    }
+
+    expect(stdoutSpy).toHaveBeenNthCalledWith(
+      1,
+      formatErrorsAsJSON(parseErrors)
+    )
+    expect(stdoutSpy).toHaveBeenNthCalledWith(
+      2,
+      formatErrorsAsSARIF(parseErrors)
+    )
+    expect(console.error).not.toBeCalled()
+  })
+
+  it('should report summary diagnostics as warnings', () => {
+    const resumePath = getFixture('summary-warnings.yml')
+    const options = { maxWarnings: 2 }
+
+    const errors = validateResumeFile(resumePath, {
+      ...options,
+      format: 'json',
+    })
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toMatchObject({
+      message: 'images are not supported and were removed.',
+      line: 40,
+      column: 13,
+    })
+    expect(stdoutSpy).toBeCalledWith(formatErrorsAsJSON(errors))
+
+    validateResumeFile(resumePath, { ...options, format: 'sarif' })
+    expect(stdoutSpy).toBeCalledWith(formatErrorsAsSARIF(errors))
+
+    validateResumeFile(resumePath, options)
+    expect(console.error).toBeCalledWith(
+      joinNonEmptyString(
+        [
+          `${resumePath}:40:13: warning: images are not supported and were removed.`,
+          '        See ![architecture](architecture.png)',
+          '            ^',
+        ],
+        '\n'
+      )
+    )
+
+    expect(() => validateResumeFile(resumePath, { maxWarnings: 0 })).toThrow(
+      'Resume validation failed: found 2 warning(s), max allowed is 0.'
+    )
+  })
+
+  it('should allow any number of warnings by default', () => {
+    const resumePath = getFixture('summary-warnings.yml')
+
+    expect(validateResumeFile(resumePath)).toHaveLength(2)
+    expect(validateResumeFile(resumePath, { maxWarnings: -1 })).toHaveLength(2)
+  })
+
+  it('should always throw an error if there are errors', () => {
+    const resumePath = getFixture('invalid-schema.yml')
+
+    try {
+      validateResumeFile(resumePath, { format: 'json', maxWarnings: 10 })
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(YAMLResumeError)
+      expect(error.code).toBe('INVALID_RESUME')
+      expect(error.message).toBe(
+        'Resume validation failed: found 1 error(s) and 0 warning(s).'
+      )
+    }
+  })
+})
+
+describe(parseMaxWarnings, () => {
+  it('should parse -1 and non-negative integers', () => {
+    expect(parseMaxWarnings('-1')).toBe(-1)
+    expect(parseMaxWarnings('0')).toBe(0)
+    expect(parseMaxWarnings('10')).toBe(10)
+  })
+
+  it('should throw an error for invalid values', () => {
+    for (const value of ['-2', '1.5', 'abc', '']) {
+      expect(() => parseMaxWarnings(value)).toThrow(
+        'should be -1 or a non-negative integer.'
+      )
+    }
+  })
 })
 
 describe(createValidateCommand, () => {
@@ -316,7 +707,7 @@ describe(createValidateCommand, () => {
   let consolaSuccessSpy: ReturnType<typeof vi.spyOn>
   let consolaFailSpy: ReturnType<typeof vi.spyOn>
   let consolaErrorSpy: ReturnType<typeof vi.spyOn>
-  let consoleLogSpy: ReturnType<typeof vi.spyOn>
+  let consoleErrorSpy: ReturnType<typeof vi.spyOn>
 
   beforeEach(() => {
     validateCommand = createValidateCommand()
@@ -324,7 +715,7 @@ describe(createValidateCommand, () => {
     consolaSuccessSpy = vi.spyOn(consola, 'success').mockImplementation(vi.fn())
     consolaFailSpy = vi.spyOn(consola, 'fail').mockImplementation(vi.fn())
     consolaErrorSpy = vi.spyOn(consola, 'error').mockImplementation(vi.fn())
-    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(vi.fn())
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn())
   })
 
   afterEach(() => {
@@ -362,19 +753,111 @@ describe(createValidateCommand, () => {
     expect(consolaSuccessSpy).toBeCalledWith('Resume validation passed.')
     expect(consolaFailSpy).not.toBeCalled()
     expect(consolaErrorSpy).not.toBeCalled()
-    expect(consoleLogSpy).not.toBeCalled()
+    expect(consoleErrorSpy).not.toBeCalled()
+  })
+
+  it('should have format and max warnings options', () => {
+    const options = validateCommand.options.map((option) => option.long)
+    expect(options).toEqual(['--format', '--max-warnings'])
   })
 
   it('should fail validation for invalid resume', () => {
     const resumePath = getFixture('invalid-schema.yml')
 
+    // @ts-ignore
+    const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(vi.fn())
+
     validateCommand.parse(['yamlresume', 'validate', resumePath])
 
-    expect(consolaFailSpy).toBeCalledTimes(1)
-    expect(consolaFailSpy).toBeCalledWith('Resume validation failed.')
+    expect(consolaErrorSpy).toBeCalledTimes(1)
+    expect(consolaErrorSpy).toBeCalledWith(
+      'Resume validation failed: found 1 error(s) and 0 warning(s).'
+    )
     expect(consolaSuccessSpy).not.toBeCalled()
+    expect(consolaFailSpy).not.toBeCalled()
+    expect(consoleErrorSpy).toBeCalled()
+    expect(processExitSpy).toBeCalledWith(ErrorType.INVALID_RESUME.errno)
+  })
+
+  it('should pass validation with warnings by default', () => {
+    const resumePath = getFixture('summary-warnings.yml')
+    const consolaWarnSpy = vi.spyOn(consola, 'warn').mockImplementation(vi.fn())
+    // @ts-ignore
+    const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(vi.fn())
+
+    validateCommand.parse(['yamlresume', 'validate', resumePath])
+
+    expect(consolaWarnSpy).toBeCalledWith(
+      'Resume validation passed with 2 warning(s).'
+    )
+    expect(consolaErrorSpy).not.toBeCalled()
+    expect(processExitSpy).not.toBeCalled()
+  })
+
+  it('should pass validation with warnings below max warnings', () => {
+    const resumePath = getFixture('summary-warnings.yml')
+    const consolaWarnSpy = vi.spyOn(consola, 'warn').mockImplementation(vi.fn())
+
+    validateCommand.parse([
+      'yamlresume',
+      'validate',
+      resumePath,
+      '--max-warnings',
+      '2',
+    ])
+
+    expect(consolaWarnSpy).toBeCalledWith(
+      'Resume validation passed with 2 warning(s).'
+    )
     expect(consolaErrorSpy).not.toBeCalled()
-    expect(consoleLogSpy).toBeCalled()
+  })
+
+  it('should fail validation for errors regardless of max warnings', () => {
+    const resumePath = getFixture('invalid-schema.yml')
+
+    // @ts-ignore
+    const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(vi.fn())
+
+    validateCommand.parse([
+      'yamlresume',
+      'validate',
+      resumePath,
+      '--max-warnings',
+      '1',
+    ])
+
+    expect(consolaErrorSpy).toBeCalledWith(
+      'Resume validation failed: found 1 error(s) and 0 warning(s).'
+    )
+    expect(consolaSuccessSpy).not.toBeCalled()
+    expect(processExitSpy).toBeCalledWith(ErrorType.INVALID_RESUME.errno)
+  })
+
+  it('should print errors in json format', () => {
+    const resumePath = getFixture('invalid-schema.yml')
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(vi.fn())
+
+    // @ts-ignore
+    const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(vi.fn())
+
+    validateCommand.parse(['yamlresume', 'validate', resumePath, '-f', 'json'])
+
+    const [output] = stdoutSpy.mock.calls[0]
+    expect(JSON.parse(output as string)).toEqual([
+      {
+        resumePath,
+        line: 26,
+        column: 11,
+        path: ['content', 'basics', 'name'],
+        severity: 'error',
+        message: 'name should be 2 characters or more.',
+      },
+    ])
+    expect(consoleErrorSpy).not.toBeCalled()
+    expect(consolaSuccessSpy).not.toBeCalled()
+    expect(processExitSpy).toBeCalledWith(ErrorType.INVALID_RESUME.errno)
   })
 
   it('should handle file read error', () => {
@@ -405,7 +888,7 @@ describe(createValidateCommand, () => {
     expect(consolaErrorSpy).toBeCalledWith(
       expect.stringContaining('Invalid YAML format:')
     )
-    expect(consoleLogSpy).toBeCalledTimes(1)
+    expect(consoleErrorSpy).toBeCalledTimes(1)
     expect(processExitSpy).toBeCalledTimes(1)
     expect(processExitSpy).toBeCalledWith(ErrorType.INVALID_YAML.errno)
   })
@@ -23,30 +23,110 @@
  */
 
 import fs from 'node:fs'
+import path from 'node:path'
 import {
-  joinNonEmptyString,
+  collectSummaryDiagnostics,
   type Resume,
   ResumeSchema,
+  type SummaryDiagnostic,
   YAMLResumeError,
 } from '@yamlresume/core'
 import chalk from 'chalk'
-import { Command } from 'commander'
+import { Command, InvalidArgumentError, Option } from 'commander'
 import consola from 'consola'
-import yaml, { isNode, LineCounter, parseDocument } from 'yaml'
+import { get } from 'lodash-es'
+import {
+  type Document,
+  isMap,
+  isNode,
+  isScalar,
+  LineCounter,
+  type Node,
+  parseDocument,
+  Scalar,
+  type ScalarTag,
+  visit,
+  type YAMLError,
+} from 'yaml'
+
+import packageJson from '../../package.json' with { type: 'json' }
 
 /**
  * A positional error with line number, column number, and path.
  *
  * @param message The error message.
+ * @param severity The severity, errors always fail the validation while
+ * warnings only fail it if there are more than allowed.
  * @param line The line number.
  * @param column The column number.
  * @param path The path to the error.
+ * @param resumePath The file the error is located in, only set for resumes
+ * composed from multiple files.
  */
 export interface PositionalError {
   message: string
+  severity: 'error' | 'warning'
   line: number
   column: number
   path: (string | number | symbol)[]
+  resumePath?: string
+}
+
+/**
+ * All supported validation output formats.
+ */
+export const VALIDATE_FORMAT_OPTIONS = ['text', 'json', 'sarif'] as const
+
+/**
+ * The type of validation output format.
+ */
+export type ValidateFormat = (typeof VALIDATE_FORMAT_OPTIONS)[number]
+
+/**
+ * A source file of a resume.
+ *
+ * @param path The source file path.
+ * @param content The content of the source file.
+ * @param lineCounter The line counter used to locate nodes in the source file.
+ */
+export interface ResumeSource {
+  path: string
+  content: string
+  lineCounter: LineCounter
+}
+
+/**
+ * A resume composed from one or more source files.
+ *
+ * @param document The composed YAML document.
+ * @param sources The source files, the root resume file comes first.
+ * @param nodeSources The source file every node of the document comes from.
+ * @param parseErrors The YAML parse errors of the source files, a resume with
+ * parse errors cannot be validated.
+ */
+export interface ComposedResume {
+  document: Document
+  sources: ResumeSource[]
+  nodeSources: WeakMap<Node, ResumeSource>
+  parseErrors: PositionalError[]
+}
+
+/**
+ * The YAML tag to include another file, e.g, `work: !include work.yml`.
+ */
+const INCLUDE_TAG = '!include'
+
+/**
+ * The top level key to inherit from a base resume, e.g, `extends: base.yml`.
+ */
+const EXTENDS_KEY = 'extends'
+
+/**
+ * Keep the `!include` tag as a plain string so it can be resolved later.
+ */
+const includeTag: ScalarTag = {
+  tag: INCLUDE_TAG,
+  resolve: (str) => str,
 }
 
 /**
@@ -72,7 +152,10 @@ export function prettifySchemaValidationError(
   const filePath = chalk.white.bold(
     `${resumePath}:${error.line}:${error.column}`
   )
-  const errorType = chalk.red.bold('warning')
+  const errorType =
+    error.severity === 'error'
+      ? chalk.red.bold(error.severity)
+      : chalk.magenta.bold(error.severity)
   const message = chalk.white(error.message)
   const codeLine = chalk.white(lineContent)
   const pointerLine = chalk.green.bold(pointer)
@@ -85,60 +168,119 @@ export function prettifySchemaValidationError(
 }
 
 /**
- * Parses YAML parsing error messages and extracts line/column information
+ * Locates a YAML parse error in its source file.
  *
- * @param errorMessage The error message from `yaml.parse`
- * @param resumePath The source file path
- * @param resumeStr The content of the source file for line display
- * @returns Formatted error string in clang style
+ * @param error The error from `yaml.parseDocument`.
+ * @param source The source file the error comes from.
+ * @returns The positional error, which is located at the start of the file if
+ * the error has no position.
  */
-export function prettifyYamlParseError(
-  errorMessage: string,
-  resumePath: string,
-  resumeStr: string
-): string {
-  // parse the error message to extract line and column
+function locateYamlParseError(
+  error: YAMLError,
+  source: ResumeSource
+): PositionalError {
   // example:
-  // "Nested mappings are not allowed in compact mappings at line 6, column 10"
-  const lineMatch = errorMessage.match(/at line (\d+), column (\d+)/)
-
-  if (!lineMatch) {
-    // if we can't parse the error, return a simple formatted message
-    return joinNonEmptyString(
-      [
-        chalk.white.bold(resumePath),
-        chalk.red.bold('error'),
-        `${chalk.white(errorMessage)}.`,
-      ],
-      ': '
-    )
+  // "Nested mappings are not allowed in compact mappings at line 6, column 10:"
+  const message = error.message
+    .split('\n')[0]
+    .replace(/ at line \d+, column \d+:?/, '')
+    .trim()
+  const [position] = error.linePos ?? []
+
+  return {
+    message: `${message}.`,
+    severity: 'error',
+    line: position?.line ?? 1,
+    column: position?.col ?? 1,
+    path: [],
+    ...(source.path ? { resumePath: source.path } : {}),
   }
+}
 
-  const line = Number.parseInt(lineMatch[1], 10)
-  const column = Number.parseInt(lineMatch[2], 10)
-  const lines = resumeStr.split('\n')
-  const lineContent = lines[line - 1] || ''
-
-  // create the pointer line with spaces and caret
-  const pointer = `${' '.repeat(column - 1)}^`
-
-  // color scheme similar to clang with enhanced visibility
-  const filePath = chalk.white.bold(`${resumePath}:${line}:${column}`)
-  const errorType = chalk.red.bold('error')
-  const message = chalk.white(
-    errorMessage
-      .split('\n')[0]
-      .replace(/ at line \d+, column \d+:?/, '.')
-      .trim()
-  )
-  const codeLine = chalk.white(lineContent)
-  const pointerLine = chalk.green.bold(pointer)
+/**
+ * Get the node at the given path, or the nearest existing ancestor of it if
+ * the node does not exist, e.g, a required field is missing.
+ *
+ * @param document The YAML document.
+ * @param path The path to the node.
+ * @returns The node or its nearest existing ancestor, which is the root node
+ * of the document if no ancestor exists.
+ */
+function getNearestNode(document: Document, path: PropertyKey[]): unknown {
+  for (let length = path.length; length > 0; length--) {
+    const node = document.getIn(path.slice(0, length), true)
 
-  return [
-    `${filePath}: ${errorType}: ${message}`,
-    `${codeLine}`,
-    `${pointerLine}`,
-  ].join('\n')
+    if (isNode(node)) {
+      return node
+    }
+  }
+
+  return document.contents
+}
+
+/**
+ * Get the line and column a node starts at in its source file.
+ *
+ * @param node The node to locate.
+ * @param source The source file of the node.
+ * @returns The line and column of the node, which is the start of the file
+ * if the node has no range.
+ */
+function getNodePosition(
+  node: unknown,
+  source: ResumeSource
+): { line: number; column: number } {
+  if (!isNode(node) || !node.range) {
+    return { line: 1, column: 1 }
+  }
+
+  const { line, col } = source.lineCounter.linePos(node.range[0])
+
+  return { line, column: col }
+}
+
+/**
+ * Validates a YAML document against a Zod schema and locates the errors.
+ *
+ * Errors of missing nodes are located at their nearest existing ancestor, so
+ * that they point to the file the ancestor comes from.
+ *
+ * @param document The YAML document to validate.
+ * @param schema The Zod schema to validate against.
+ * @param getSource Get the source file of a node.
+ * @returns A list of positional errors, or an empty array if validation is
+ * successful.
+ */
+function validateDocument(
+  document: Document,
+  schema: typeof ResumeSchema,
+  getSource: (node: unknown) => ResumeSource
+): PositionalError[] {
+  const validationResult = schema.safeParse(document.toJS())
+
+  if (validationResult.success) {
+    return []
+  }
+
+  const {
+    error: { issues },
+  } = validationResult
+
+  return issues.map((issue) => {
+    const path = issue.path
+    const node = getNearestNode(document, path)
+    const source = getSource(node)
+    const { line, column } = getNodePosition(node, source)
+
+    return {
+      message: issue.message,
+      severity: 'error',
+      line,
+      column,
+      path,
+      ...(source.path ? { resumePath: source.path } : {}),
+    }
+  })
 }
 
 /**
@@ -161,39 +303,291 @@ export function validateResume(
     keepSourceTokens: true,
   })
 
-  const validationResult = schema.safeParse(resumeCST.toJS())
+  const source = { path: '', content: yamlStr, lineCounter }
 
-  if (validationResult.success) {
-    return []
+  return validateDocument(resumeCST, schema, () => source).sort(
+    (a, b) => a.line - b.line
+  )
+}
+
+/**
+ * Validates a composed resume against a Zod schema and returns errors.
+ *
+ * Every error points to the file, line and column it comes from, errors are
+ * sorted by the order of source files first and line numbers second.
+ *
+ * @param composed The composed resume to validate.
+ * @param schema The Zod schema to validate against.
+ * @returns A list of positional errors, or an empty array if validation is
+ * successful.
+ */
+export function validateComposedResume(
+  composed: ComposedResume,
+  schema: typeof ResumeSchema
+): PositionalError[] {
+  const [rootSource] = composed.sources
+  const getSourceIndex = (error: PositionalError) =>
+    composed.sources.findIndex((source) => source.path === error.resumePath)
+
+  return validateDocument(
+    composed.document,
+    schema,
+    (node) => (isNode(node) && composed.nodeSources.get(node)) || rootSource
+  ).sort((a, b) => getSourceIndex(a) - getSourceIndex(b) || a.line - b.line)
+}
+
+/**
+ * Locates summary diagnostics in the source files of a composed resume.
+ *
+ * Lines and columns of summary diagnostics are relative to the summary, they
+ * are mapped to the source file for literal block scalars, e.g, `summary: |`,
+ * and single line scalars, summaries in any other style are located at their
+ * start.
+ *
+ * @param composed The composed resume the diagnostics are collected from.
+ * @param diagnostics The summary diagnostics.
+ * @returns A list of positional errors, in the order of the diagnostics.
+ */
+export function locateSummaryDiagnostics(
+  composed: ComposedResume,
+  diagnostics: SummaryDiagnostic[]
+): PositionalError[] {
+  return diagnostics.map((diagnostic) => {
+    const node = getNearestNode(composed.document, diagnostic.path)
+    const source =
+      (isNode(node) && composed.nodeSources.get(node)) || composed.sources[0]
+    let { line, column } = getNodePosition(node, source)
+
+    if (isScalar(node) && node.range) {
+      const raw = source.content.slice(node.range[0], node.range[1])
+
+      if (node.type === Scalar.BLOCK_LITERAL) {
+        // the content starts on the line after the block header, and is
+        // indented as its first non-empty line
+        const contentLine = source.content
+          .split('\n')
+          .slice(line)
+          .find((text) => text.trim() !== '')
+        const indent = contentLine.length - contentLine.trimStart().length
+
+        line += diagnostic.line
+        column = indent + diagnostic.column
+      } else if (!raw.includes('\n')) {
+        // skip the opening quote of quoted scalars
+        const quote = node.type === Scalar.PLAIN ? 0 : 1
+
+        column += quote + diagnostic.column - 1
+      }
+    }
+
+    return {
+      message: `${diagnostic.message}.`,
+      severity: 'warning',
+      line,
+      column,
+      path: diagnostic.path,
+      ...(source.path ? { resumePath: source.path } : {}),
+    }
+  })
+}
+
+/**
+ * Resolve a file path referenced by `!include` or `extends` relative to the
+ * file referencing it.
+ *
+ * @param resumePath The file path referencing another file.
+ * @param filePath The referenced file path.
+ * @returns The resolved file path.
+ */
+function resolveIncludePath(resumePath: string, filePath: string): string {
+  return path.isAbsolute(filePath)
+    ? filePath
+    : path.join(path.dirname(resumePath), filePath)
+}
+
+/**
+ * Deep merge two YAML nodes, maps are merged recursively, any other nodes,
+ * i.e, scalars and sequences, are replaced by the overriding node.
+ *
+ * The base node is modified in place.
+ *
+ * @param base The base node.
+ * @param override The overriding node.
+ * @returns The merged node.
+ */
+function mergeNodes(base: unknown, override: unknown): unknown {
+  if (!isMap(base) || !isMap(override)) {
+    return override
   }
 
-  const {
-    error: { issues },
-  } = validationResult
+  const getKey = (key: unknown) => (isScalar(key) ? key.value : key)
 
-  return issues
-    .map((issue) => {
-      const path = issue.path
-      const node = resumeCST.getIn(path, true)
+  for (const pair of override.items) {
+    const basePair = base.items.find(
+      (item) => getKey(item.key) === getKey(pair.key)
+    )
 
-      let line = 1
-      let column = 1
+    if (basePair) {
+      basePair.key = pair.key
+      basePair.value = mergeNodes(basePair.value, pair.value)
+    } else {
+      base.items.push(pair)
+    }
+  }
 
-      if (isNode(node) && node.range) {
-        const startOffset = node.range[0]
-        const pos = lineCounter.linePos(startOffset)
-        line = pos.line
-        column = pos.col
-      }
+  return base
+}
 
-      return {
-        message: issue.message,
-        line,
-        column,
-        path,
+/**
+ * Load a resume source file and resolve its `!include` tags and `extends` key
+ * recursively.
+ *
+ * @param resumePath The source file path.
+ * @param composed The composed resume to collect source files into.
+ * @param ancestors The absolute paths of files including this file, used to
+ * detect circular includes.
+ * @returns The YAML document with all includes resolved, or the document as is
+ * if it cannot be parsed, in which case the parse error is collected into the
+ * composed resume.
+ * @throws {YAMLResumeError} If a file cannot be read or included.
+ */
+function loadResumeSource(
+  resumePath: string,
+  composed: ComposedResume,
+  ancestors: string[]
+): Document {
+  const absolutePath = path.resolve(resumePath)
+
+  if (ancestors.includes(absolutePath)) {
+    throw new YAMLResumeError('INVALID_INCLUDE', {
+      path: resumePath,
+      error: 'circular include detected.',
+    })
+  }
+
+  let content: string
+
+  try {
+    content = fs.readFileSync(resumePath, 'utf8')
+  } catch (_error) {
+    throw new YAMLResumeError('FILE_READ_ERROR', { path: resumePath })
+  }
+
+  const lineCounter = new LineCounter()
+  const document = parseDocument(content, {
+    lineCounter,
+    keepSourceTokens: true,
+    customTags: [includeTag],
+  })
+
+  const source = { path: resumePath, content, lineCounter }
+  composed.sources.push(source)
+
+  if (document.errors.length > 0) {
+    // only report the first error, which should be enough for users to know
+    // that there is something wrong with the yaml file
+    composed.parseErrors.push(locateYamlParseError(document.errors[0], source))
+    return document
+  }
+
+  visit(document, {
+    Node(_, node) {
+      composed.nodeSources.set(node, source)
+    },
+  })
+
+  const includeAncestors = [...ancestors, absolutePath]
+  const includeFile = (filePath: string) =>
+    loadResumeSource(
+      resolveIncludePath(resumePath, filePath),
+      composed,
+      includeAncestors
+    ).contents
+
+  visit(document, {
+    Collection(_, node) {
+      if (node.tag === INCLUDE_TAG) {
+        throw new YAMLResumeError('INVALID_INCLUDE', {
+          path: resumePath,
+          error: `${INCLUDE_TAG} should be followed by a file path.`,
+        })
       }
+    },
+    Scalar(_, node) {
+      if (node.tag !== INCLUDE_TAG) {
+        return undefined
+      }
+
+      // an empty file is included as a null value
+      return includeFile(String(node.value)) ?? new Scalar(null)
+    },
+  })
+
+  if (isMap(document.contents) && document.contents.has(EXTENDS_KEY)) {
+    const node = document.contents.get(EXTENDS_KEY, true)
+    const basePath: unknown = isScalar(node) ? node.value : undefined
+
+    if (typeof basePath !== 'string' || basePath.trim() === '') {
+      throw new YAMLResumeError('INVALID_INCLUDE', {
+        path: resumePath,
+        error: `${EXTENDS_KEY} should be a file path.`,
+      })
+    }
+
+    document.contents.delete(EXTENDS_KEY)
+    document.contents = mergeNodes(
+      includeFile(basePath),
+      document.contents
+    ) as typeof document.contents
+  }
+
+  return document
+}
+
+/**
+ * Compose a resume from its source file and all files it includes.
+ *
+ * A resume can include another file with the `!include` tag, e.g,
+ * `work: !include work.yml`, or inherit from a base resume with the top level
+ * `extends` key, e.g, `extends: base.yml`, in which case the resume is deep
+ * merged into the base resume. File paths are relative to the file
+ * referencing them.
+ *
+ * YAML parse errors are collected into `parseErrors` instead of thrown, so that
+ * they can be reported in any output format.
+ *
+ * @param resumePath The root resume file path.
+ * @returns The composed resume.
+ * @throws {YAMLResumeError} If a file cannot be read or included.
+ */
+export function composeResume(resumePath: string): ComposedResume {
+  const composed: ComposedResume = {
+    document: undefined,
+    sources: [],
+    nodeSources: new WeakMap(),
+    parseErrors: [],
+  }
+
+  composed.document = loadResumeSource(resumePath, composed, [])
+
+  return composed
+}
+
+/**
+ * Throw an invalid YAML error if a source file of a composed resume cannot be
+ * parsed.
+ *
+ * @param composed The composed resume.
+ * @throws {YAMLResumeError} If there are YAML parse errors.
+ */
+function assertResumeParsed(composed: ComposedResume) {
+  const [parseError] = composed.parseErrors
+
+  if (parseError) {
+    throw new YAMLResumeError('INVALID_YAML', {
+      error: `Failed to parse ${parseError.resumePath}.`,
     })
-    .sort((a, b) => a.line - b.line)
+  }
 }
 
 /**
@@ -201,9 +595,11 @@ export function validateResume(
  *
  * Steps:
  *
- * 1. read the resume from the source file
- * 2. validate the resume with `yaml.parse`
- * 3. if `validate` is true, validate the resume with `ResumeSchema`
+ * 1. read the resume from the source file and all files it includes
+ * 2. validate the resume files with `yaml.parseDocument`
+ * 3. if `validate` is true, validate the resume with `ResumeSchema` and warn
+ *    about markdown constructs in summaries that will be removed from the
+ *    output
  *
  * @param resuemPath - The source resume file path (YAML, YML, or JSON).
  * @returns The resume object.
@@ -213,51 +609,257 @@ export function readResume(
   resuemPath: string,
   validate = true
 ): { resume: Resume; validated: 'success' | 'failed' | 'unknown' } {
-  let resumeStr: string
+  const composed = composeResume(resuemPath)
 
-  try {
-    resumeStr = fs.readFileSync(resuemPath, 'utf8')
-  } catch (_error) {
-    throw new YAMLResumeError('FILE_READ_ERROR', { path: resuemPath })
+  printSchemaValidationErrors(composed, composed.parseErrors)
+  assertResumeParsed(composed)
+
+  const resume = composed.document.toJS() as Resume
+
+  if (validate) {
+    const errors = validateComposedResume(composed, ResumeSchema)
+
+    printSummaryDiagnostics(resume, collectSummaryDiagnostics(resume))
+
+    if (errors.length > 0) {
+      printSchemaValidationErrors(composed, errors)
+      return { resume, validated: 'failed' }
+    }
+
+    return { resume, validated: 'success' }
   }
 
-  let resume: Resume
+  return { resume, validated: 'unknown' }
+}
 
-  try {
-    resume = yaml.parse(resumeStr) as Resume
-  } catch (error) {
-    // Format YAML parsing errors in clang style
-    //
-    // Actually you can use `parseDocument` to get a list of errors, here we
-    // only use `yaml.parse` to get the first error, which should be enough for
-    // users to know that there is something wrong with the yaml file.
-    const formattedError = prettifyYamlParseError(
-      error.message,
-      resuemPath,
-      resumeStr
+/**
+ * Print schema validation errors of a composed resume to stderr in clang style,
+ * so they never mix with resumes printed to stdout.
+ *
+ * @param composed The composed resume.
+ * @param errors The schema validation errors.
+ */
+function printSchemaValidationErrors(
+  composed: ComposedResume,
+  errors: PositionalError[]
+) {
+  for (const error of errors) {
+    const source =
+      composed.sources.find(({ path }) => path === error.resumePath) ??
+      composed.sources[0]
+
+    console.error(
+      prettifySchemaValidationError(error, source.path, source.content)
     )
+  }
+}
 
-    console.log(formattedError)
-    throw new YAMLResumeError('INVALID_YAML', {
-      error: `Failed to parse ${resuemPath}.`,
+/**
+ * Formats the path to a summary field, e.g, `work[2].summary`.
+ *
+ * @param path The path to the summary field, starting with `content`.
+ * @returns The formatted path.
+ */
+export function formatSummaryPath(path: (string | number)[]): string {
+  return path
+    .slice(1)
+    .map((key, index) => {
+      if (typeof key === 'number') return `[${key}]`
+      return index === 0 ? key : `.${key}`
     })
+    .join('')
+}
+
+/**
+ * Print summary diagnostics to stderr in clang style, lines and columns are
+ * relative to the summary, e.g, `work[2].summary:3:5`.
+ *
+ * @param resume The resume the diagnostics are collected from.
+ * @param diagnostics The summary diagnostics.
+ */
+export function printSummaryDiagnostics(
+  resume: Resume,
+  diagnostics: SummaryDiagnostic[]
+) {
+  for (const diagnostic of diagnostics) {
+    console.error(
+      prettifySchemaValidationError(
+        {
+          ...diagnostic,
+          message: `${diagnostic.message}.`,
+          severity: 'warning',
+        },
+        formatSummaryPath(diagnostic.path),
+        get(resume, diagnostic.path)
+      )
+    )
   }
+}
 
-  if (validate) {
-    const errors = validateResume(resumeStr, ResumeSchema)
+/**
+ * Formats validation errors as JSON.
+ *
+ * @param errors The validation errors.
+ * @returns A JSON array of errors with file, line, column, path, severity and
+ * message.
+ */
+export function formatErrorsAsJSON(errors: PositionalError[]): string {
+  const results = errors.map(
+    ({ resumePath, line, column, path, severity, message }) => ({
+      resumePath,
+      line,
+      column,
+      path: path.map(String),
+      severity,
+      message,
+    })
+  )
 
-    if (errors.length > 0) {
-      for (const error of errors) {
-        console.log(prettifySchemaValidationError(error, resuemPath, resumeStr))
-      }
+  return `${JSON.stringify(results, null, 2)}\n`
+}
 
-      return { resume, validated: 'failed' }
-    }
+/**
+ * Formats validation errors as a SARIF log.
+ *
+ * SARIF (Static Analysis Results Interchange Format) is understood by CI
+ * services like GitHub code scanning, file paths are relative to the current
+ * working directory.
+ *
+ * @param errors The validation errors.
+ * @returns A SARIF 2.1.0 log.
+ * @see {@link https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html}
+ */
+export function formatErrorsAsSARIF(errors: PositionalError[]): string {
+  const ruleId = 'schema-validation'
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'yamlresume',
+            version: packageJson.version,
+            informationUri: 'https://yamlresume.dev',
+            rules: [
+              {
+                id: ruleId,
+                shortDescription: {
+                  text: 'Resume should conform to the YAMLResume schema',
+                },
+              },
+            ],
+          },
+        },
+        results: errors.map((error) => ({
+          ruleId,
+          level: error.severity,
+          message: { text: error.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: {
+                  uri: path
+                    .relative(process.cwd(), error.resumePath)
+                    .split(path.sep)
+                    .join('/'),
+                },
+                region: { startLine: error.line, startColumn: error.column },
+              },
+              logicalLocations: [
+                { fullyQualifiedName: error.path.map(String).join('.') },
+              ],
+            },
+          ],
+        })),
+      },
+    ],
+  }
 
-    return { resume, validated: 'success' }
+  return `${JSON.stringify(log, null, 2)}\n`
+}
+
+/**
+ * Validate a resume file and print the validation errors in the given format.
+ *
+ * YAML parse errors and schema validation errors are reported as errors,
+ * markdown constructs in summaries that will be removed from the output are
+ * reported as warnings after them.
+ *
+ * @param resumePath - The source resume file path (YAML, YML, or JSON).
+ * @param options - Validate options including the output format and the
+ * maximum number of warnings allowed, unlimited by default.
+ * @returns The summary warnings.
+ * @throws {YAMLResumeError} If the resume cannot be read or parsed, there are
+ * any errors, or there are more warnings than allowed.
+ */
+export function validateResumeFile(
+  resumePath: string,
+  options: { format?: ValidateFormat; maxWarnings?: number } = {}
+): PositionalError[] {
+  const { format = 'text', maxWarnings = -1 } = options
+
+  const composed = composeResume(resumePath)
+  const errors =
+    composed.parseErrors.length > 0
+      ? composed.parseErrors
+      : [
+          ...validateComposedResume(composed, ResumeSchema),
+          ...locateSummaryDiagnostics(
+            composed,
+            collectSummaryDiagnostics(composed.document.toJS() as Resume)
+          ),
+        ]
+
+  switch (format) {
+    case 'text':
+      printSchemaValidationErrors(composed, errors)
+      break
+    case 'json':
+      process.stdout.write(formatErrorsAsJSON(errors))
+      break
+    case 'sarif':
+      process.stdout.write(formatErrorsAsSARIF(errors))
+      break
   }
 
-  return { resume, validated: 'unknown' }
+  assertResumeParsed(composed)
+
+  const warnings = errors.filter(({ severity }) => severity === 'warning')
+  const errorCount = errors.length - warnings.length
+
+  // errors always fail the validation, `maxWarnings` applies to warnings only
+  if (errorCount > 0) {
+    throw new YAMLResumeError('INVALID_RESUME', {
+      error: `found ${errorCount} error(s) and ${warnings.length} warning(s).`,
+    })
+  }
+
+  // a negative `maxWarnings` allows any number of warnings
+  if (maxWarnings >= 0 && warnings.length > maxWarnings) {
+    throw new YAMLResumeError('INVALID_RESUME', {
+      error: `found ${warnings.length} warning(s), max allowed is ${maxWarnings}.`,
+    })
+  }
+
+  return warnings
+}
+
+/**
+ * Parse the `--max-warnings` option.
+ *
+ * @param value - The option value.
+ * @returns The maximum number of warnings allowed, -1 for unlimited.
+ * @throws {InvalidArgumentError} If the value is neither -1 nor a non-negative
+ * integer.
+ */
+export function parseMaxWarnings(value: string): number {
+  if (!/^(-1|\d+)$/.test(value)) {
+    throw new InvalidArgumentError('should be -1 or a non-negative integer.')
+  }
+
+  return Number.parseInt(value, 10)
 }
 
 /**
@@ -268,19 +870,40 @@ export function createValidateCommand() {
     .name('validate')
     .description('validate a resume against the YAMLResume schema')
     .argument('<resume-path>', 'the resume file path')
-    .action(async (resumePath: string) => {
-      try {
-        const { validated } = readResume(resumePath, true)
-
-        if (validated === 'success') {
-          consola.success('Resume validation passed.')
-        }
-        if (validated === 'failed') {
-          consola.fail('Resume validation failed.')
+    .addOption(
+      new Option('-f, --format <format>', 'the output format')
+        .choices(VALIDATE_FORMAT_OPTIONS)
+        .default('text')
+    )
+    .addOption(
+      new Option(
+        '--max-warnings <number>',
+        'maximum number of warnings allowed, errors always fail'
+      )
+        .argParser(parseMaxWarnings)
+        .default(-1, 'unlimited')
+    )
+    .action(
+      (
+        resumePath: string,
+        options: { format: ValidateFormat; maxWarnings: number }
+      ) => {
+        try {
+          const warnings = validateResumeFile(resumePath, options)
+
+          if (options.format === 'text') {
+            if (warnings.length === 0) {
+              consola.success('Resume validation passed.')
+            } else {
+              consola.warn(
+                `Resume validation passed with ${warnings.length} warning(s).`
+              )
+            }
+          }
+        } catch (error) {
+          consola.error(error.message)
+          process.exit(error.errno)
         }
-      } catch (error) {
-        consola.error(error.message)
-        process.exit(error.errno)
       }
-    })
+    )
 }
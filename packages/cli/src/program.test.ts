@@ -23,6 +23,12 @@
  */
 
 import fs from 'node:fs'
+import path from 'node:path'
+import {
+  unregisterLocalePack,
+  unregisterTemplate,
+  YAMLResumeError,
+} from '@yamlresume/core'
 import consola from 'consola'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import packageJson from '../package.json' with { type: 'json' }
@@ -83,7 +89,7 @@ describe('program', () => {
   })
 
   describe('verbose flag', () => {
-    it('should support -v/--verbose flag', () => {
+    it('should support -v/--verbose flag', async () => {
       // mock fs functions to run a fake `new` command in order to test the
       // verbose flag
       vi.spyOn(fs, 'existsSync').mockReturnValue(false)
@@ -91,10 +97,105 @@ describe('program', () => {
       vi.spyOn(fs, 'writeFileSync').mockImplementation(vi.fn())
 
       // run the command
-      program.parse(['node', 'cli.js', '-v', 'new'])
+      await program.parseAsync(['node', 'cli.js', '-v', 'new'])
 
       // check the level after command execution
       expect(consola.level).toBe(4)
     })
   })
+
+  describe('locale pack option', () => {
+    afterEach(() => {
+      unregisterLocalePack('nl')
+      vi.restoreAllMocks()
+    })
+
+    it('should load locale packs before running a command', async () => {
+      vi.spyOn(consola, 'warn').mockImplementation(vi.fn())
+      const logSpy = vi.spyOn(consola, 'log').mockImplementation(vi.fn())
+
+      await program.parseAsync([
+        'node',
+        'cli.js',
+        '--locale-pack',
+        path.join(__dirname, 'utils', 'fixtures', 'locale-pack-nl.json'),
+        'languages',
+        'list',
+      ])
+
+      expect(logSpy).toBeCalledWith(expect.stringMatching(/\| nl\s+\| Dutch/))
+    })
+
+    it('should exit with an error if a locale pack is invalid', async () => {
+      const errorSpy = vi.spyOn(consola, 'error').mockImplementation(vi.fn())
+      const exitSpy = vi
+        .spyOn(process, 'exit')
+        .mockImplementation((() => {}) as never)
+
+      await program.parseAsync([
+        'node',
+        'cli.js',
+        '--locale-pack',
+        path.join(__dirname, 'utils', 'fixtures', 'invalid-locale-pack.json'),
+        'languages',
+        'list',
+      ])
+
+      expect(errorSpy).toBeCalledWith(
+        expect.stringContaining('Invalid locale pack')
+      )
+      expect(exitSpy).toBeCalledWith(
+        new YAMLResumeError('INVALID_LOCALE_PACK', { error: '' }).errno
+      )
+    })
+  })
+
+  describe('plugin option', () => {
+    afterEach(() => {
+      unregisterTemplate('plugin-template')
+      vi.restoreAllMocks()
+    })
+
+    it('should load plugins before running a command', async () => {
+      const logSpy = vi.spyOn(consola, 'log').mockImplementation(vi.fn())
+
+      await program.parseAsync([
+        'node',
+        'cli.js',
+        '--plugin',
+        path.join(__dirname, 'utils', 'fixtures', 'template-plugin.js'),
+        'templates',
+        'list',
+      ])
+
+      expect(logSpy).toBeCalledWith(expect.stringContaining('plugin-template'))
+    })
+
+    it('should exit with an error if a plugin cannot be loaded', async () => {
+      const errorSpy = vi.spyOn(consola, 'error').mockImplementation(vi.fn())
+      const exitSpy = vi
+        .spyOn(process, 'exit')
+        .mockImplementation((() => {}) as never)
+      vi.spyOn(consola, 'log').mockImplementation(vi.fn())
+
+      await program.parseAsync([
+        'node',
+        'cli.js',
+        '--plugin',
+        'non-existent-yamlresume-plugin',
+        'templates',
+        'list',
+      ])
+
+      expect(errorSpy).toBeCalledWith(
+        expect.stringContaining(
+          'Failed to load plugin non-existent-yamlresume-plugin'
+        )
+      )
+      expect(exitSpy).toBeCalledWith(
+        new YAMLResumeError('PLUGIN_LOAD_ERROR', { plugin: '', error: '' })
+          .errno
+      )
+    })
+  })
 })
@@ -23,17 +23,20 @@
  */
 
 import { Command } from 'commander'
+import consola from 'consola'
 
 import packageJson from '../package.json' with { type: 'json' }
 import {
+  createAnonymizeCommand,
   createBuildCommand,
   createDevCommand,
+  createExportCommand,
   createLanguagesCommand,
   createNewCommand,
   createTemplatesCommand,
   createValidateCommand,
 } from './commands'
-import { setVerboseLog } from './utils'
+import { loadLocalePacks, loadPlugins, setVerboseLog } from './utils'
 
 /**
  * Create the CLI program.
@@ -56,13 +59,37 @@ export function createProgram(): Command {
     .description(['YAMLResume — Resume as Code in YAML', banner].join('\n'))
     .version(packageJson.version)
     .option('-v, --verbose', 'verbose output')
-    .hook('preAction', (thisCommand) => {
-      setVerboseLog(thisCommand.opts().verbose)
+    .option(
+      '--locale-pack <path>',
+      'load an external JSON locale pack (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      []
+    )
+    .option(
+      '--plugin <module>',
+      'load a plugin file or package, e.g, a LaTeX template (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      []
+    )
+    .hook('preAction', async (thisCommand) => {
+      const { verbose, localePack, plugin } = thisCommand.opts()
+
+      setVerboseLog(verbose)
+
+      try {
+        loadLocalePacks(localePack)
+        await loadPlugins(plugin)
+      } catch (error) {
+        consola.error(error.message)
+        process.exit(error.errno)
+      }
     })
 
   program.addCommand(createNewCommand())
   program.addCommand(createBuildCommand())
   program.addCommand(createDevCommand())
+  program.addCommand(createExportCommand())
+  program.addCommand(createAnonymizeCommand())
   program.addCommand(createLanguagesCommand())
   program.addCommand(createTemplatesCommand())
   program.addCommand(createValidateCommand())
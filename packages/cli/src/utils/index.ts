@@ -23,3 +23,5 @@
  */
 
 export { setVerboseLog } from './consola'
+export { loadLocalePacks } from './locale'
+export { loadPlugins } from './plugin'
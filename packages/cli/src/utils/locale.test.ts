@@ -0,0 +1,97 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import {
+  getRegisteredLocalePacks,
+  unregisterLocalePack,
+  YAMLResumeError,
+} from '@yamlresume/core'
+import consola from 'consola'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { loadLocalePacks } from './locale'
+
+function getFixture(fixture: string) {
+  return path.join(__dirname, 'fixtures', fixture)
+}
+
+describe(loadLocalePacks, () => {
+  afterEach(() => {
+    unregisterLocalePack('nl')
+    vi.restoreAllMocks()
+  })
+
+  it('should do nothing without locale packs', () => {
+    expect(() => loadLocalePacks()).not.toThrow()
+    expect(() => loadLocalePacks([])).not.toThrow()
+    expect(getRegisteredLocalePacks()).toEqual([])
+  })
+
+  it('should register locale packs and warn about missing translations', () => {
+    const warnSpy = vi.spyOn(consola, 'warn').mockImplementation(vi.fn())
+
+    loadLocalePacks([getFixture('locale-pack-nl.json')])
+
+    expect(getRegisteredLocalePacks()).toHaveLength(1)
+    expect(getRegisteredLocalePacks()[0]).toMatchObject({
+      language: 'nl',
+      name: 'Dutch',
+      terms: { keywords: 'Trefwoorden' },
+    })
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Locale pack "nl" is missing 10 sections translation(s)'
+      )
+    )
+  })
+
+  it('should throw an error if the locale pack does not exist', () => {
+    const packPath = getFixture('non-existent-pack.json')
+
+    expect(() => loadLocalePacks([packPath])).toThrow(
+      new YAMLResumeError('FILE_NOT_FOUND', { path: packPath })
+    )
+  })
+
+  it('should throw an error if the locale pack cannot be read', () => {
+    const packPath = getFixture('locale-pack-nl.json')
+
+    vi.spyOn(fs, 'readFileSync').mockImplementation(() => {
+      throw new Error('EACCES')
+    })
+
+    expect(() => loadLocalePacks([packPath])).toThrow(
+      new YAMLResumeError('FILE_READ_ERROR', { path: packPath })
+    )
+  })
+
+  it('should throw an error if the locale pack is invalid', () => {
+    expect(() =>
+      loadLocalePacks([getFixture('invalid-locale-pack.json')])
+    ).toThrow('Invalid locale pack')
+    expect(getRegisteredLocalePacks()).toEqual([])
+  })
+})
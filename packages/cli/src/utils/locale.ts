@@ -0,0 +1,58 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import fs from 'node:fs'
+import { loadLocalePack, YAMLResumeError } from '@yamlresume/core'
+import consola from 'consola'
+
+/**
+ * Load external JSON locale packs and register them as locale languages
+ *
+ * Translations missing from a locale pack fall back to English, a warning is
+ * printed for each category with missing translations.
+ *
+ * @param paths - The paths of the JSON locale pack files
+ * @throws {YAMLResumeError} If a locale pack cannot be read or is invalid.
+ */
+export function loadLocalePacks(paths: string[] = []) {
+  for (const packPath of paths) {
+    if (!fs.existsSync(packPath)) {
+      throw new YAMLResumeError('FILE_NOT_FOUND', { path: packPath })
+    }
+
+    let content: string
+    try {
+      content = fs.readFileSync(packPath, 'utf8')
+    } catch (_error) {
+      throw new YAMLResumeError('FILE_READ_ERROR', { path: packPath })
+    }
+
+    const { pack, warnings } = loadLocalePack(content)
+
+    warnings.forEach((warning) => {
+      consola.warn(warning)
+    })
+    consola.debug(`Loaded locale pack "${pack.language}" from ${packPath}`)
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import path from 'node:path'
+import {
+  getRegisteredTemplateIds,
+  unregisterTemplate,
+  YAMLResumeError,
+} from '@yamlresume/core'
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { loadPlugins } from './plugin'
+
+function getFixture(fixture: string) {
+  return path.join(__dirname, 'fixtures', fixture)
+}
+
+describe(loadPlugins, () => {
+  afterEach(() => {
+    unregisterTemplate('plugin-template')
+  })
+
+  it('should do nothing without plugins', async () => {
+    await expect(loadPlugins()).resolves.toBeUndefined()
+    await expect(loadPlugins([])).resolves.toBeUndefined()
+    expect(getRegisteredTemplateIds()).not.toContain('plugin-template')
+  })
+
+  it('should load plugins which register templates', async () => {
+    const pluginPath = path.relative(
+      process.cwd(),
+      getFixture('template-plugin.js')
+    )
+
+    await loadPlugins([`./${pluginPath}`])
+
+    expect(getRegisteredTemplateIds()).toContain('plugin-template')
+  })
+
+  it('should throw an error if a plugin cannot be loaded', async () => {
+    const plugins = [
+      getFixture('non-existent-plugin.js'),
+      'non-existent-yamlresume-plugin',
+    ]
+
+    for (const plugin of plugins) {
+      await expect(loadPlugins([plugin])).rejects.toThrow(YAMLResumeError)
+      await expect(loadPlugins([plugin])).rejects.toThrow(
+        `Failed to load plugin ${plugin}`
+      )
+    }
+  })
+
+  it('should throw an error if a plugin registers an existing template', async () => {
+    const plugin = getFixture('conflict-plugin.js')
+
+    await expect(loadPlugins([plugin])).rejects.toThrow(
+      new YAMLResumeError('PLUGIN_LOAD_ERROR', {
+        plugin,
+        error: 'Template is already registered: jake',
+      })
+    )
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { YAMLResumeError } from '@yamlresume/core'
+import consola from 'consola'
+
+/**
+ * Resolve a plugin to a module specifier which can be imported
+ *
+ * File paths are resolved against the current working directory, packages are
+ * resolved from the current working directory first, so that packages
+ * installed in the resume project are found, and from the CLI otherwise.
+ *
+ * @param plugin - The file path or package name of the plugin
+ * @returns The module specifier of the plugin
+ */
+function resolvePlugin(plugin: string): string {
+  if (path.isAbsolute(plugin) || plugin.startsWith('.')) {
+    return pathToFileURL(path.resolve(plugin)).href
+  }
+
+  try {
+    const require = createRequire(path.join(process.cwd(), 'package.json'))
+    return pathToFileURL(require.resolve(plugin)).href
+  } catch (_error) {
+    return plugin
+  }
+}
+
+/**
+ * Load plugins, i.e, modules which extend YAMLResume when imported, e.g,
+ * packages registering their own LaTeX templates with `registerTemplate`
+ *
+ * @param plugins - The file paths or package names of the plugins
+ * @throws {YAMLResumeError} If a plugin cannot be loaded.
+ */
+export async function loadPlugins(plugins: string[] = []) {
+  for (const plugin of plugins) {
+    try {
+      await import(resolvePlugin(plugin))
+    } catch (error) {
+      throw new YAMLResumeError('PLUGIN_LOAD_ERROR', {
+        plugin,
+        error: error.message,
+      })
+    }
+
+    consola.debug(`Loaded plugin ${plugin}`)
+  }
+}
@@ -49,6 +49,17 @@ describe('AST Types', () => {
       expect(italicMark.type).toBe('italic')
     })
 
+    it('should allow valid code and strike marks', () => {
+      const codeMark: Mark = {
+        type: 'code',
+      }
+      const strikeMark: Mark = {
+        type: 'strike',
+      }
+      expect(codeMark.type).toBe('code')
+      expect(strikeMark.type).toBe('strike')
+    })
+
     it('should allow valid link mark with attributes', () => {
       const linkMark: Mark = {
         type: 'link',
@@ -167,6 +178,36 @@ describe('AST Types', () => {
       expect(docNode.content?.[0].type).toBe('paragraph')
     })
 
+    it('should allow valid heading node', () => {
+      const headingNode: Node = {
+        type: 'heading',
+        attrs: { level: 2 },
+        content: [{ type: 'text', text: 'Heading' }],
+      }
+      expect(headingNode.type).toBe('heading')
+      expect(headingNode.attrs.level).toBe(2)
+    })
+
+    it('should allow valid blockquote node with hard breaks', () => {
+      const blockquoteNode: Node = {
+        type: 'blockquote',
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'First line' },
+              { type: 'hardBreak' },
+              { type: 'text', text: 'Second line' },
+            ],
+          },
+        ],
+      }
+      expect(blockquoteNode.type).toBe('blockquote')
+      expect(
+        (blockquoteNode.content?.[0] as ParagraphNode).content?.[1].type
+      ).toBe('hardBreak')
+    })
+
     it('should allow complex nested structure', () => {
       const complexNode: Node = {
         type: 'doc',
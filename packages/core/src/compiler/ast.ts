@@ -27,6 +27,11 @@ export type BoldMark = {
   type: 'bold'
 }
 
+/** Represents an inline code formatting mark. */
+export type CodeMark = {
+  type: 'code'
+}
+
 /** Represents a link mark with optional attributes. */
 export type LinkMark = {
   /** Optional attributes for the link. */
@@ -46,12 +51,24 @@ export type ItalicMark = {
   type: 'italic'
 }
 
+/** Represents a strikethrough formatting mark. */
+export type StrikeMark = {
+  type: 'strike'
+}
+
 /** Represents a union of all possible inline formatting marks. */
-export type Mark = BoldMark | ItalicMark | LinkMark
+export type Mark = BoldMark | CodeMark | ItalicMark | LinkMark | StrikeMark
 
 /** Represents a sequence of child nodes, often used for block node content. */
 export type Fragment = Node[] | undefined
 
+/** Represents a blockquote node. */
+export type BlockquoteNode = {
+  /** The block nodes (like ParagraphNode) contained within this blockquote. */
+  content?: Fragment
+  type: 'blockquote'
+}
+
 /** Represents a bullet list node (unordered list). */
 export type BulletListNode = {
   /** Child nodes (typically ListItemNode) contained within this list. */
@@ -72,6 +89,23 @@ export type DocNode = {
   type: 'doc'
 }
 
+/** Represents a hard line break within a block node. */
+export type HardBreakNode = {
+  type: 'hardBreak'
+}
+
+/** Represents a heading node. */
+export type HeadingNode = {
+  /** Inline child nodes (like TextNode) contained within this heading. */
+  content?: Fragment
+  type: 'heading'
+  /** Attributes for the heading. */
+  attrs: {
+    /** The level of the heading, from 1 to 6. */
+    level: number
+  }
+}
+
 /** Represents an item within a list (either bullet or ordered). */
 export type ListItemNode = {
   /** Child nodes (like ParagraphNode) contained within this list item. */
@@ -116,8 +150,11 @@ export type TextNode = {
  * @see {@link https://tiptap.dev/docs/editor/core-concepts/schema}
  **/
 export type Node =
+  | BlockquoteNode
   | BulletListNode
   | DocNode
+  | HardBreakNode
+  | HeadingNode
   | ListItemNode
   | OrderedListNode
   | ParagraphNode
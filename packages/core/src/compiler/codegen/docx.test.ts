@@ -0,0 +1,337 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type {
+  BlockquoteNode,
+  BulletListNode,
+  DocNode,
+  HeadingNode,
+  ListItemNode,
+  Mark,
+  OrderedListNode,
+  ParagraphNode,
+} from '@/compiler/ast'
+import {
+  createDocxHyperlink,
+  createDocxParagraph,
+  createDocxRun,
+  DocxCodeGenerator,
+  nodeToDocx,
+} from './docx'
+import astJson from './fixtures/ast.json'
+
+describe(createDocxRun, () => {
+  it('should create a plain run', () => {
+    expect(createDocxRun('Hello')).toBe(
+      '<w:r><w:t xml:space="preserve">Hello</w:t></w:r>'
+    )
+  })
+
+  it('should create a run with formatting', () => {
+    expect(
+      createDocxRun('Hello', {
+        bold: true,
+        italic: true,
+        strike: true,
+        code: true,
+        underline: true,
+        style: 'Hyperlink',
+      })
+    ).toBe(
+      [
+        '<w:r><w:rPr>',
+        '<w:rStyle w:val="Hyperlink"/>',
+        '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>',
+        '<w:b/><w:i/><w:strike/><w:u w:val="single"/>',
+        '</w:rPr><w:t xml:space="preserve">Hello</w:t></w:r>',
+      ].join('')
+    )
+  })
+})
+
+describe(createDocxParagraph, () => {
+  it('should create a paragraph without properties', () => {
+    expect(createDocxParagraph('')).toBe('<w:p></w:p>')
+  })
+
+  it('should create a paragraph with style and numbering', () => {
+    expect(
+      createDocxParagraph('', {
+        style: 'ListBullet',
+        numbering: { id: 1, level: 2 },
+      })
+    ).toBe(
+      [
+        '<w:p><w:pPr><w:pStyle w:val="ListBullet"/>',
+        '<w:numPr><w:ilvl w:val="2"/><w:numId w:val="1"/></w:numPr>',
+        '</w:pPr></w:p>',
+      ].join('')
+    )
+  })
+})
+
+describe(createDocxHyperlink, () => {
+  it('should create a hyperlink field', () => {
+    expect(createDocxHyperlink('https://yamlresume.dev', 'runs')).toBe(
+      '<w:fldSimple w:instr="HYPERLINK &quot;https://yamlresume.dev&quot;">runs</w:fldSimple>'
+    )
+  })
+})
+
+describe(nodeToDocx, () => {
+  const paragraph = (text: string): ParagraphNode => ({
+    content: [{ text, type: 'text' }],
+    type: 'paragraph',
+  })
+
+  const run = (text: string) => createDocxRun(text)
+
+  const link = (href: string): Mark => ({
+    type: 'link',
+    attrs: { href, class: null, target: '' },
+  })
+
+  describe('blockquoteNodeToDocx', () => {
+    it('should map paragraphs to quote paragraphs', () => {
+      const node: BlockquoteNode = {
+        content: [paragraph('Hello'), { content: [], type: 'paragraph' }],
+        type: 'blockquote',
+      }
+
+      expect(nodeToDocx(node)).toBe(
+        createDocxParagraph(run('Hello'), { style: 'Quote' })
+      )
+    })
+  })
+
+  describe('bulletListNodeToDocx', () => {
+    it('should map list items to list bullet paragraphs', () => {
+      const node: BulletListNode = {
+        content: [
+          { content: [paragraph('Hello,')], type: 'listItem' },
+          { content: [paragraph('world!')], type: 'listItem' },
+        ],
+        type: 'bulletList',
+      }
+
+      const options = {
+        style: 'ListBullet',
+        numbering: { id: 1, level: 0 },
+      }
+
+      expect(nodeToDocx(node)).toBe(
+        createDocxParagraph(run('Hello,'), options) +
+          createDocxParagraph(run('world!'), options)
+      )
+    })
+
+    it('should increase the level of nested lists', () => {
+      const node: BulletListNode = {
+        content: [
+          {
+            content: [
+              paragraph('Parent'),
+              paragraph('More'),
+              {
+                content: [{ content: [paragraph('Child')], type: 'listItem' }],
+                type: 'orderedList',
+              },
+            ],
+            type: 'listItem',
+          },
+        ],
+        type: 'bulletList',
+      }
+
+      expect(nodeToDocx(node)).toBe(
+        [
+          createDocxParagraph(run('Parent'), {
+            style: 'ListBullet',
+            numbering: { id: 1, level: 0 },
+          }),
+          createDocxParagraph(run('More'), { style: 'ListContinue' }),
+          createDocxParagraph(run('Child'), {
+            style: 'ListNumber',
+            numbering: { id: 2, level: 1 },
+          }),
+        ].join('')
+      )
+    })
+  })
+
+  describe('docNodeToDocx', () => {
+    it('should return empty string with no content', () => {
+      const node: DocNode = {
+        content: [],
+        type: 'doc',
+      }
+
+      expect(nodeToDocx(node)).toBe('')
+    })
+
+    it('should return wordprocessingml with a json object', () => {
+      const xml = nodeToDocx(astJson as DocNode)
+
+      expect(xml).toMatch('<w:b/>')
+      expect(xml).toMatch('<w:pStyle w:val="ListBullet"/>')
+      expect(xml).toMatch('<w:pStyle w:val="ListNumber"/>')
+      expect(xml).not.toMatch('\\textbf')
+      expect(xml).not.toMatch('<strong>')
+    })
+  })
+
+  describe('hardBreakNodeToDocx', () => {
+    it('should return a break run', () => {
+      expect(nodeToDocx({ type: 'hardBreak' })).toBe('<w:r><w:br/></w:r>')
+    })
+  })
+
+  describe('headingNodeToDocx', () => {
+    it('should map headings to heading 3 paragraphs', () => {
+      const node: HeadingNode = {
+        attrs: { level: 1 },
+        content: [{ text: 'Highlights', type: 'text' }],
+        type: 'heading',
+      }
+
+      expect(nodeToDocx(node)).toBe(
+        createDocxParagraph(run('Highlights'), { style: 'Heading3' })
+      )
+    })
+  })
+
+  describe('listItemNodeToDocx', () => {
+    it('should return empty string with no content', () => {
+      const node: ListItemNode = {
+        content: [],
+        type: 'listItem',
+      }
+
+      expect(nodeToDocx(node)).toBe('')
+    })
+  })
+
+  describe('orderedListNodeToDocx', () => {
+    it('should map list items to list number paragraphs', () => {
+      const node: OrderedListNode = {
+        content: [{ content: [paragraph('First')], type: 'listItem' }],
+        type: 'orderedList',
+      }
+
+      expect(nodeToDocx(node)).toBe(
+        createDocxParagraph(run('First'), {
+          style: 'ListNumber',
+          numbering: { id: 2, level: 0 },
+        })
+      )
+    })
+  })
+
+  describe('paragraphNodeToDocx', () => {
+    it('should return empty string with no content', () => {
+      expect(nodeToDocx({ content: [], type: 'paragraph' })).toBe('')
+    })
+
+    it('should wrap runs in a paragraph', () => {
+      expect(nodeToDocx(paragraph('Hello'))).toBe(
+        '<w:p><w:r><w:t xml:space="preserve">Hello</w:t></w:r></w:p>'
+      )
+    })
+  })
+
+  describe('textNodeToDocx', () => {
+    it('should escape xml special characters', () => {
+      expect(nodeToDocx({ text: 'R&D <"team">', type: 'text' })).toBe(
+        run('R&amp;D &lt;&quot;team&quot;&gt;')
+      )
+    })
+
+    it('should apply marks', () => {
+      const tests: { marks: Mark[]; text: string; expected: string }[] = [
+        {
+          marks: [{ type: 'bold' }],
+          text: 'text',
+          expected: createDocxRun('text', { bold: true }),
+        },
+        {
+          marks: [{ type: 'italic' }],
+          text: 'text',
+          expected: createDocxRun('text', { italic: true }),
+        },
+        {
+          marks: [{ type: 'strike' }],
+          text: 'text',
+          expected: createDocxRun('text', { strike: true }),
+        },
+        {
+          marks: [{ type: 'code' }],
+          text: 'text',
+          expected: createDocxRun('text', { code: true }),
+        },
+        {
+          marks: [{ type: 'bold' }, link('https://yamlresume.dev?a=1&b=2')],
+          text: 'YAMLResume',
+          expected: createDocxHyperlink(
+            'https://yamlresume.dev?a=1&amp;b=2',
+            createDocxRun('YAMLResume', { bold: true, style: 'Hyperlink' })
+          ),
+        },
+      ]
+
+      for (const { marks, text, expected } of tests) {
+        expect(nodeToDocx({ marks, text, type: 'text' })).toBe(expected)
+      }
+    })
+
+    it('should underline links if the context asks for it', () => {
+      expect(
+        nodeToDocx(
+          {
+            marks: [link('https://yamlresume.dev')],
+            text: 'YAMLResume',
+            type: 'text',
+          },
+          { typography: { links: { underline: true } } }
+        )
+      ).toBe(
+        createDocxHyperlink(
+          'https://yamlresume.dev',
+          createDocxRun('YAMLResume', { underline: true, style: 'Hyperlink' })
+        )
+      )
+    })
+  })
+})
+
+describe(DocxCodeGenerator, () => {
+  it('should generate wordprocessingml from an AST node', () => {
+    const generator = new DocxCodeGenerator()
+
+    expect(generator.generate(astJson as DocNode)).toBe(
+      nodeToDocx(astJson as DocNode)
+    )
+  })
+})
@@ -0,0 +1,442 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type {
+  BlockquoteNode,
+  BulletListNode,
+  DocNode,
+  Fragment,
+  HeadingNode,
+  ListItemNode,
+  Node,
+  OrderedListNode,
+  ParagraphNode,
+  TextNode,
+} from '@/compiler/ast'
+import { escapeHtml, joinNonEmptyString } from '@/utils'
+import type { CodeGenerationContext, CodeGenerator } from './interface'
+
+/**
+ * Formatting options of a WordprocessingML run.
+ */
+export type DocxRunOptions = {
+  /** Whether the run is bold. */
+  bold?: boolean
+  /** Whether the run is italic. */
+  italic?: boolean
+  /** Whether the run is struck through. */
+  strike?: boolean
+  /** Whether the run is set in a monospaced font. */
+  code?: boolean
+  /** Whether the run is underlined. */
+  underline?: boolean
+  /** The character style of the run, e.g, `Hyperlink`. */
+  style?: string
+}
+
+/**
+ * Formatting options of a WordprocessingML paragraph.
+ */
+export type DocxParagraphOptions = {
+  /** The paragraph style, e.g, `Heading1` or `ListBullet`. */
+  style?: string
+  /** The numbering of the paragraph, used by list items. */
+  numbering?: {
+    /** The id of the numbering definition. */
+    id: number
+    /** The zero-based nesting level. */
+    level: number
+  }
+}
+
+/**
+ * The enclosing list of a node, used to render nested lists.
+ */
+type DocxList = {
+  /** The paragraph style of the list items. */
+  style: 'ListBullet' | 'ListNumber'
+  /** The zero-based nesting level of the list. */
+  level: number
+}
+
+/**
+ * Numbering definition ids for bullet and ordered lists, they must match the
+ * definitions in `word/numbering.xml`.
+ */
+export const DOCX_NUMBERING_IDS = {
+  ListBullet: 1,
+  ListNumber: 2,
+} as const
+
+/**
+ * Create a WordprocessingML run.
+ *
+ * @param text - The text of the run, must be already escaped.
+ * @param options - The formatting options of the run.
+ * @returns The generated run.
+ */
+export function createDocxRun(
+  text: string,
+  { bold, italic, strike, code, underline, style }: DocxRunOptions = {}
+): string {
+  const properties = joinNonEmptyString(
+    [
+      style ? `<w:rStyle w:val="${style}"/>` : '',
+      code
+        ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>'
+        : '',
+      bold ? '<w:b/>' : '',
+      italic ? '<w:i/>' : '',
+      strike ? '<w:strike/>' : '',
+      underline ? '<w:u w:val="single"/>' : '',
+    ],
+    ''
+  )
+
+  return joinNonEmptyString(
+    [
+      '<w:r>',
+      properties ? `<w:rPr>${properties}</w:rPr>` : '',
+      `<w:t xml:space="preserve">${text}</w:t>`,
+      '</w:r>',
+    ],
+    ''
+  )
+}
+
+/**
+ * Create a WordprocessingML hyperlink.
+ *
+ * A simple `HYPERLINK` field is used so that the document does not need an
+ * extra relationship for every link.
+ *
+ * @param url - The url of the link, must be already escaped.
+ * @param runs - The runs displayed for the link.
+ * @returns The generated hyperlink.
+ */
+export function createDocxHyperlink(url: string, runs: string): string {
+  return `<w:fldSimple w:instr="HYPERLINK &quot;${url}&quot;">${runs}</w:fldSimple>`
+}
+
+/**
+ * Create a WordprocessingML paragraph.
+ *
+ * @param content - The runs of the paragraph.
+ * @param options - The formatting options of the paragraph.
+ * @returns The generated paragraph.
+ */
+export function createDocxParagraph(
+  content: string,
+  { style, numbering }: DocxParagraphOptions = {}
+): string {
+  const properties = joinNonEmptyString(
+    [
+      style ? `<w:pStyle w:val="${style}"/>` : '',
+      numbering
+        ? `<w:numPr><w:ilvl w:val="${numbering.level}"/><w:numId w:val="${numbering.id}"/></w:numPr>`
+        : '',
+    ],
+    ''
+  )
+
+  return joinNonEmptyString(
+    [
+      '<w:p>',
+      properties ? `<w:pPr>${properties}</w:pPr>` : '',
+      content,
+      '</w:p>',
+    ],
+    ''
+  )
+}
+
+/**
+ * Generate WordprocessingML from a Node.
+ *
+ * This class implements the `CodeGenerator` interface and provides a method
+ * to convert an AST node into WordprocessingML paragraphs, i.e, the content
+ * of `word/document.xml` in a docx file. Bullet and ordered lists are mapped
+ * to the builtin `List Bullet` and `List Number` styles and links to the
+ * builtin `Hyperlink` style.
+ *
+ * @see {@link CodeGenerator}
+ */
+export class DocxCodeGenerator implements CodeGenerator {
+  /**
+   * Generate WordprocessingML from an AST node.
+   *
+   * @param node - The AST node to generate WordprocessingML from.
+   * @param context - Optional context containing layout settings.
+   * @returns The generated WordprocessingML.
+   */
+  generate(node: Node, context?: CodeGenerationContext): string {
+    return nodeToDocx(node, context)
+  }
+}
+
+/**
+ * Convert an AST node to its corresponding WordprocessingML.
+ *
+ * @param node - The AST node to convert.
+ * @param context - Optional context containing layout settings.
+ * @param list - The enclosing list, used internally for nested lists.
+ * @returns The generated WordprocessingML.
+ */
+export function nodeToDocx(
+  node: Node,
+  context?: CodeGenerationContext,
+  list?: DocxList
+): string {
+  switch (node.type) {
+    case 'blockquote':
+      return blockquoteNodeToDocx(node, context)
+    case 'bulletList':
+      return bulletListNodeToDocx(node, context, list)
+    case 'doc':
+      return docNodeToDocx(node, context)
+    case 'hardBreak':
+      return '<w:r><w:br/></w:r>'
+    case 'heading':
+      return headingNodeToDocx(node, context)
+    case 'listItem':
+      return listItemNodeToDocx(node, context, list)
+    case 'orderedList':
+      return orderedListNodeToDocx(node, context, list)
+    case 'paragraph':
+      return paragraphNodeToDocx(node, context)
+    case 'text':
+      return textNodeToDocx(node, context)
+  }
+}
+
+/**
+ * Convert a blockquote node to its corresponding WordprocessingML.
+ *
+ * Paragraphs of the blockquote use the builtin `Quote` style.
+ *
+ * @param node - The blockquote node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated WordprocessingML.
+ */
+function blockquoteNodeToDocx(
+  node: BlockquoteNode,
+  context?: CodeGenerationContext
+): string {
+  return (node.content ?? [])
+    .map((child) => {
+      if (child.type !== 'paragraph') {
+        return nodeToDocx(child, context)
+      }
+
+      if (child.content === undefined || child.content.length === 0) {
+        return ''
+      }
+
+      return createDocxParagraph(fragmentToDocx(child.content, context), {
+        style: 'Quote',
+      })
+    })
+    .join('')
+}
+
+/**
+ * Convert a bullet list node to its corresponding WordprocessingML.
+ *
+ * @param node - The bullet list node to convert.
+ * @param context - Optional context containing layout settings.
+ * @param parent - The enclosing list if this list is nested.
+ * @returns The generated WordprocessingML.
+ */
+function bulletListNodeToDocx(
+  node: BulletListNode,
+  context?: CodeGenerationContext,
+  parent?: DocxList
+): string {
+  const list: DocxList = {
+    style: 'ListBullet',
+    level: parent ? parent.level + 1 : 0,
+  }
+
+  return fragmentToDocx(node.content, context, list)
+}
+
+/**
+ * Convert a document node to its corresponding WordprocessingML.
+ *
+ * @param node - The document node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated WordprocessingML.
+ */
+function docNodeToDocx(node: DocNode, context?: CodeGenerationContext): string {
+  return fragmentToDocx(node.content, context)
+}
+
+/**
+ * Convert a heading node to its corresponding WordprocessingML.
+ *
+ * `Heading 1` and `Heading 2` are used by sections and entries, so every
+ * heading in the content is rendered with the `Heading 3` style.
+ *
+ * @param node - The heading node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated WordprocessingML.
+ */
+function headingNodeToDocx(
+  node: HeadingNode,
+  context?: CodeGenerationContext
+): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  return createDocxParagraph(fragmentToDocx(node.content, context), {
+    style: 'Heading3',
+  })
+}
+
+/**
+ * Convert a list item node to its corresponding WordprocessingML.
+ *
+ * The first paragraph of the item carries the list marker, the following
+ * paragraphs use the `List Continue` style so that they line up with it.
+ *
+ * @param node - The list item node to convert.
+ * @param context - Optional context containing layout settings.
+ * @param list - The enclosing list.
+ * @returns The generated WordprocessingML.
+ */
+function listItemNodeToDocx(
+  node: ListItemNode,
+  context?: CodeGenerationContext,
+  list: DocxList = { style: 'ListBullet', level: 0 }
+): string {
+  let hasMarker = false
+
+  return (node.content ?? [])
+    .map((child) => {
+      if (child.type !== 'paragraph') {
+        return nodeToDocx(child, context, list)
+      }
+
+      const content = fragmentToDocx(child.content, context)
+      if (hasMarker) {
+        return createDocxParagraph(content, { style: 'ListContinue' })
+      }
+
+      hasMarker = true
+      return createDocxParagraph(content, {
+        style: list.style,
+        numbering: { id: DOCX_NUMBERING_IDS[list.style], level: list.level },
+      })
+    })
+    .join('')
+}
+
+/**
+ * Convert an ordered list node to its corresponding WordprocessingML.
+ *
+ * @param node - The ordered list node to convert.
+ * @param context - Optional context containing layout settings.
+ * @param parent - The enclosing list if this list is nested.
+ * @returns The generated WordprocessingML.
+ */
+function orderedListNodeToDocx(
+  node: OrderedListNode,
+  context?: CodeGenerationContext,
+  parent?: DocxList
+): string {
+  const list: DocxList = {
+    style: 'ListNumber',
+    level: parent ? parent.level + 1 : 0,
+  }
+
+  return fragmentToDocx(node.content, context, list)
+}
+
+/**
+ * Convert a paragraph node to its corresponding WordprocessingML.
+ *
+ * @param node - The paragraph node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated WordprocessingML.
+ */
+function paragraphNodeToDocx(
+  node: ParagraphNode,
+  context?: CodeGenerationContext
+): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  return createDocxParagraph(fragmentToDocx(node.content, context))
+}
+
+/**
+ * Convert a text node to its corresponding WordprocessingML.
+ *
+ * @param node - The text node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated WordprocessingML.
+ */
+function textNodeToDocx(
+  node: TextNode,
+  context?: CodeGenerationContext
+): string {
+  const marks = node.marks ?? []
+  const link = marks.find((mark) => mark.type === 'link')
+
+  const run = createDocxRun(escapeHtml(node.text), {
+    bold: marks.some((mark) => mark.type === 'bold'),
+    italic: marks.some((mark) => mark.type === 'italic'),
+    strike: marks.some((mark) => mark.type === 'strike'),
+    code: marks.some((mark) => mark.type === 'code'),
+    underline: link ? (context?.typography?.links?.underline ?? false) : false,
+    style: link ? 'Hyperlink' : undefined,
+  })
+
+  if (link === undefined) {
+    return run
+  }
+
+  return createDocxHyperlink(escapeHtml(link.attrs.href), run)
+}
+
+/**
+ * Convert a fragment to its corresponding WordprocessingML.
+ *
+ * @param fragment - The fragment to convert.
+ * @param context - Optional context containing layout settings.
+ * @param list - The enclosing list, if any.
+ * @returns The generated WordprocessingML.
+ */
+function fragmentToDocx(
+  fragment: Fragment,
+  context?: CodeGenerationContext,
+  list?: DocxList
+): string {
+  if (fragment === undefined) {
+    return ''
+  }
+  return fragment.map((node) => nodeToDocx(node, context, list)).join('')
+}
@@ -0,0 +1,254 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type {
+  BlockquoteNode,
+  BulletListNode,
+  DocNode,
+  HeadingNode,
+  ListItemNode,
+  Mark,
+  OrderedListNode,
+  ParagraphNode,
+  TextNode,
+} from '@/compiler/ast'
+import astJson from './fixtures/ast.json'
+import { HtmlCodeGenerator, nodeToHTML } from './html'
+
+describe(nodeToHTML, () => {
+  const paragraph = (text: string): ParagraphNode => ({
+    content: [{ text, type: 'text' }],
+    type: 'paragraph',
+  })
+
+  describe('blockquoteNodeToHTML', () => {
+    it('should wrap content in a blockquote element', () => {
+      const node: BlockquoteNode = {
+        content: [paragraph('Hello')],
+        type: 'blockquote',
+      }
+
+      expect(nodeToHTML(node)).toBe(
+        '<blockquote>\n<p>Hello</p>\n</blockquote>\n'
+      )
+    })
+  })
+
+  describe('bulletListNodeToHTML', () => {
+    it('should return an empty bullet list with no items', () => {
+      const node: BulletListNode = {
+        content: [],
+        type: 'bulletList',
+      }
+
+      expect(nodeToHTML(node)).toBe('<ul>\n</ul>\n')
+    })
+
+    it('should return non-empty bullet list with multiple items', () => {
+      const node: BulletListNode = {
+        content: [
+          { content: [paragraph('Hello, ')], type: 'listItem' },
+          { content: [paragraph('world!')], type: 'listItem' },
+        ],
+        type: 'bulletList',
+      }
+
+      expect(nodeToHTML(node)).toBe(
+        '<ul>\n<li>Hello, </li>\n<li>world!</li>\n</ul>\n'
+      )
+    })
+  })
+
+  describe('docNodeToHTML', () => {
+    it('should return empty string with no content', () => {
+      const node: DocNode = {
+        content: [],
+        type: 'doc',
+      }
+
+      expect(nodeToHTML(node)).toBe('')
+    })
+
+    it('should return proper string with a json object', () => {
+      const html = nodeToHTML(astJson as DocNode)
+
+      expect(html).toMatch('<strong>bold</strong>')
+      expect(html).toMatch('<em>italic</em>')
+      expect(html).toMatch('<ul>')
+      expect(html).toMatch('<ol>')
+      expect(html).not.toMatch('\\textbf')
+    })
+  })
+
+  describe('hardBreakNodeToHTML', () => {
+    it('should return a line break element', () => {
+      expect(nodeToHTML({ type: 'hardBreak' })).toBe('<br>\n')
+    })
+  })
+
+  describe('headingNodeToHTML', () => {
+    it('should return empty string with no content', () => {
+      expect(
+        nodeToHTML({ attrs: { level: 1 }, content: [], type: 'heading' })
+      ).toBe('')
+    })
+
+    it('should demote headings below the headings of the page', () => {
+      const heading = (level: number): HeadingNode => ({
+        attrs: { level },
+        content: [{ text: 'Highlights', type: 'text' }],
+        type: 'heading',
+      })
+
+      expect(nodeToHTML(heading(1))).toBe('<h4>Highlights</h4>\n')
+      expect(nodeToHTML(heading(5))).toBe('<h6>Highlights</h6>\n')
+    })
+  })
+
+  describe('listItemNodeToHTML', () => {
+    it('should return empty item with no content', () => {
+      const node: ListItemNode = {
+        content: [],
+        type: 'listItem',
+      }
+
+      expect(nodeToHTML(node)).toBe('<li></li>\n')
+    })
+
+    it('should render nested lists inside the list item', () => {
+      const node: ListItemNode = {
+        content: [
+          paragraph('Parent'),
+          {
+            content: [{ content: [paragraph('Child')], type: 'listItem' }],
+            type: 'bulletList',
+          },
+        ],
+        type: 'listItem',
+      }
+
+      expect(nodeToHTML(node)).toBe(
+        '<li>Parent\n<ul>\n<li>Child</li>\n</ul>\n</li>\n'
+      )
+    })
+  })
+
+  describe('orderedListNodeToHTML', () => {
+    it('should return an ordered list', () => {
+      const node: OrderedListNode = {
+        content: [{ content: [paragraph('First')], type: 'listItem' }],
+        type: 'orderedList',
+      }
+
+      expect(nodeToHTML(node)).toBe('<ol>\n<li>First</li>\n</ol>\n')
+    })
+
+    it('should keep a custom start number', () => {
+      const node: OrderedListNode = {
+        attrs: { start: 3 },
+        content: [{ content: [paragraph('Third')], type: 'listItem' }],
+        type: 'orderedList',
+      }
+
+      expect(nodeToHTML(node)).toBe('<ol start="3">\n<li>Third</li>\n</ol>\n')
+    })
+  })
+
+  describe('paragraphNodeToHTML', () => {
+    it('should return empty string with no content', () => {
+      const node: ParagraphNode = {
+        content: [],
+        type: 'paragraph',
+      }
+
+      expect(nodeToHTML(node)).toBe('')
+    })
+
+    it('should wrap text in a paragraph element', () => {
+      expect(nodeToHTML(paragraph('Hello'))).toBe('<p>Hello</p>\n')
+    })
+  })
+
+  describe('textNodeToHTML', () => {
+    it('should escape plain text', () => {
+      const node: TextNode = {
+        text: 'R&D <b>',
+        type: 'text',
+      }
+
+      expect(nodeToHTML(node)).toBe('R&amp;D &lt;b&gt;')
+    })
+
+    it('should return text with marks applied', () => {
+      const tests: { marks: Mark[]; expected: string }[] = [
+        { marks: [{ type: 'bold' }], expected: '<strong>text</strong>' },
+        { marks: [{ type: 'italic' }], expected: '<em>text</em>' },
+        { marks: [{ type: 'code' }], expected: '<code>text</code>' },
+        { marks: [{ type: 'strike' }], expected: '<s>text</s>' },
+        {
+          marks: [{ type: 'bold' }, { type: 'italic' }],
+          expected: '<em><strong>text</strong></em>',
+        },
+        {
+          marks: [
+            {
+              type: 'link',
+              attrs: {
+                href: 'https://yamlresume.dev/?a=1&b=2',
+                class: null,
+                target: '',
+              },
+            },
+          ],
+          expected: '<a href="https://yamlresume.dev/?a=1&amp;b=2">text</a>',
+        },
+      ]
+
+      for (const { marks, expected } of tests) {
+        expect(nodeToHTML({ marks, text: 'text', type: 'text' })).toBe(expected)
+      }
+    })
+
+    it('should handle link underline based on typography context', () => {
+      const node: TextNode = {
+        marks: [
+          {
+            type: 'link',
+            attrs: { href: 'https://yamlresume.dev', class: null, target: '' },
+          },
+        ],
+        text: 'YAMLResume',
+        type: 'text',
+      }
+
+      expect(
+        new HtmlCodeGenerator().generate(node, {
+          typography: { links: { underline: true } },
+        })
+      ).toBe('<a href="https://yamlresume.dev"><u>YAMLResume</u></a>')
+    })
+  })
+})
@@ -0,0 +1,290 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type {
+  BlockquoteNode,
+  BulletListNode,
+  DocNode,
+  Fragment,
+  HeadingNode,
+  ListItemNode,
+  Mark,
+  Node,
+  OrderedListNode,
+  ParagraphNode,
+  TextNode,
+} from '@/compiler/ast'
+import { escapeHtml } from '@/utils'
+import type { CodeGenerationContext, CodeGenerator } from './interface'
+
+/**
+ * Generate HTML code from a Node.
+ *
+ * This class implements the `CodeGenerator` interface and provides a method
+ * to convert an AST node into its corresponding HTML code.
+ *
+ * @see {@link CodeGenerator}
+ */
+export class HtmlCodeGenerator implements CodeGenerator {
+  /**
+   * Generate HTML code from an AST node.
+   *
+   * @param node - The AST node to generate HTML code from.
+   * @param context - Optional context containing layout settings.
+   * @returns The generated HTML code.
+   */
+  generate(node: Node, context?: CodeGenerationContext): string {
+    return nodeToHTML(node, context)
+  }
+}
+
+/**
+ * Convert an AST node to its corresponding HTML code.
+ *
+ * @param node - The AST node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated HTML code.
+ */
+export function nodeToHTML(
+  node: Node,
+  context?: CodeGenerationContext
+): string {
+  switch (node.type) {
+    case 'blockquote':
+      return blockquoteNodeToHTML(node, context)
+    case 'bulletList':
+      return bulletListNodeToHTML(node, context)
+    case 'doc':
+      return docNodeToHTML(node, context)
+    case 'hardBreak':
+      return '<br>\n'
+    case 'heading':
+      return headingNodeToHTML(node, context)
+    case 'listItem':
+      return listItemNodeToHTML(node, context)
+    case 'orderedList':
+      return orderedListNodeToHTML(node, context)
+    case 'paragraph':
+      return paragraphNodeToHTML(node, context)
+    case 'text':
+      return textNodeToHTML(node, context)
+  }
+}
+
+/**
+ * Convert a blockquote node to its corresponding HTML code.
+ *
+ * @param node - The blockquote node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated HTML code.
+ */
+function blockquoteNodeToHTML(
+  node: BlockquoteNode,
+  context?: CodeGenerationContext
+): string {
+  return `<blockquote>\n${fragmentToHTML(node.content, context)}</blockquote>\n`
+}
+
+/**
+ * Convert a bullet list node to its corresponding HTML code.
+ *
+ * @param node - The bullet list node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated HTML code.
+ */
+function bulletListNodeToHTML(
+  node: BulletListNode,
+  context?: CodeGenerationContext
+): string {
+  return `<ul>\n${fragmentToHTML(node.content, context)}</ul>\n`
+}
+
+/**
+ * Convert a document node to its corresponding HTML code.
+ *
+ * @param node - The document node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated HTML code.
+ */
+function docNodeToHTML(node: DocNode, context?: CodeGenerationContext): string {
+  return fragmentToHTML(node.content, context)
+}
+
+/**
+ * Convert a heading node to its corresponding HTML code.
+ *
+ * Summaries are nested under the `<h1>` to `<h3>` headings of the page, so the
+ * heading is demoted by 3 levels, e.g, `# Heading` becomes `<h4>`.
+ *
+ * @param node - The heading node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated HTML code.
+ */
+function headingNodeToHTML(
+  node: HeadingNode,
+  context?: CodeGenerationContext
+): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  const level = Math.min(node.attrs.level + 3, 6)
+
+  return `<h${level}>${fragmentToHTML(node.content, context)}</h${level}>\n`
+}
+
+/**
+ * Convert a list item node to its corresponding HTML code.
+ *
+ * A list item whose only child is a paragraph is rendered without the
+ * wrapping `<p>` element, which gives tighter lists just like the LaTeX
+ * output.
+ *
+ * @param node - The list item node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated HTML code.
+ */
+function listItemNodeToHTML(
+  node: ListItemNode,
+  context?: CodeGenerationContext
+): string {
+  const [first, ...rest] = node.content ?? []
+
+  if (first?.type === 'paragraph') {
+    const inline = fragmentToHTML(first.content, context)
+    const nested = fragmentToHTML(rest, context)
+
+    return `<li>${inline}${nested ? `\n${nested}` : ''}</li>\n`
+  }
+
+  return `<li>${fragmentToHTML(node.content, context)}</li>\n`
+}
+
+/**
+ * Convert an ordered list node to its corresponding HTML code.
+ *
+ * @param node - The ordered list node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated HTML code.
+ */
+function orderedListNodeToHTML(
+  node: OrderedListNode,
+  context?: CodeGenerationContext
+): string {
+  const start = node.attrs?.start
+  const startAttr =
+    start !== undefined && start !== 1 ? ` start="${start}"` : ''
+
+  return `<ol${startAttr}>\n${fragmentToHTML(node.content, context)}</ol>\n`
+}
+
+/**
+ * Convert a paragraph node to its corresponding HTML code.
+ *
+ * @param node - The paragraph node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated HTML code.
+ */
+function paragraphNodeToHTML(
+  node: ParagraphNode,
+  context?: CodeGenerationContext
+): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  return `<p>${fragmentToHTML(node.content, context)}</p>\n`
+}
+
+/**
+ * Convert a text node to its corresponding HTML code.
+ *
+ * @param node - The text node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated HTML code.
+ */
+function textNodeToHTML(
+  node: TextNode,
+  context?: CodeGenerationContext
+): string {
+  const escapedText = escapeHtml(node.text)
+
+  if (node.marks === undefined) {
+    return escapedText
+  }
+
+  return node.marks.reduce(
+    (text, mark) => applyMarkToText(text, mark, context),
+    escapedText
+  )
+}
+
+/**
+ * Apply a mark to a text.
+ *
+ * @param text - The text to apply the mark to.
+ * @param mark - The mark to apply.
+ * @param context - Optional context containing layout settings.
+ */
+function applyMarkToText(
+  text: string,
+  mark: Mark,
+  context?: CodeGenerationContext
+) {
+  switch (mark.type) {
+    case 'bold':
+      return `<strong>${text}</strong>`
+    case 'code':
+      return `<code>${text}</code>`
+    case 'strike':
+      return `<s>${text}</s>`
+    case 'italic':
+      return `<em>${text}</em>`
+    case 'link': {
+      const href = escapeHtml(mark.attrs.href)
+      const shouldUnderline = context?.typography?.links?.underline ?? false
+      if (shouldUnderline) {
+        return `<a href="${href}"><u>${text}</u></a>`
+      }
+      return `<a href="${href}">${text}</a>`
+    }
+  }
+}
+
+/**
+ * Convert a fragment to its corresponding HTML code.
+ *
+ * @param fragment - The fragment to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated HTML code.
+ */
+function fragmentToHTML(
+  fragment: Fragment,
+  context?: CodeGenerationContext
+): string {
+  if (fragment === undefined) {
+    return ''
+  }
+  return fragment.map((node) => nodeToHTML(node, context)).join('')
+}
@@ -22,4 +22,10 @@
  * IN THE SOFTWARE.
  */
 
+export { DocxCodeGenerator } from './docx'
+export { HtmlCodeGenerator } from './html'
+export type { CodeGenerationContext, CodeGenerator } from './interface'
 export { LatexCodeGenerator } from './latex'
+export { MarkdownCodeGenerator } from './markdown'
+export { TextCodeGenerator } from './text'
+export { TypstCodeGenerator } from './typst'
@@ -25,8 +25,10 @@
 import { describe, expect, it } from 'vitest'
 
 import type {
+  BlockquoteNode,
   BulletListNode,
   DocNode,
+  HeadingNode,
   ListItemNode,
   Mark,
   OrderedListNode,
@@ -43,6 +45,19 @@ import outputTex from './fixtures/output.tex?raw'
 import { nodeToTeX } from './latex'
 
 describe(nodeToTeX, () => {
+  describe('blockquoteNodeToTeX', () => {
+    it('should wrap content in a quote environment', () => {
+      const node: BlockquoteNode = {
+        content: [
+          { content: [{ text: 'Hello', type: 'text' }], type: 'paragraph' },
+        ],
+        type: 'blockquote',
+      }
+
+      expect(nodeToTeX(node)).toBe('\\begin{quote}\nHello\n\n\\end{quote}\n')
+    })
+  })
+
   describe('bulletListNodeToTeX', () => {
     it('should return an empty bullet list with no items', () => {
       const node: BulletListNode = {
@@ -173,6 +188,30 @@ describe(nodeToTeX, () => {
     })
   })
 
+  describe('hardBreakNodeToTeX', () => {
+    it('should return a newline command', () => {
+      expect(nodeToTeX({ type: 'hardBreak' })).toBe('\\newline\n')
+    })
+  })
+
+  describe('headingNodeToTeX', () => {
+    it('should return empty string with no content', () => {
+      expect(
+        nodeToTeX({ attrs: { level: 1 }, content: [], type: 'heading' })
+      ).toBe('')
+    })
+
+    it('should render a heading as a bold paragraph', () => {
+      const node: HeadingNode = {
+        attrs: { level: 2 },
+        content: [{ text: 'Highlights', type: 'text' }],
+        type: 'heading',
+      }
+
+      expect(nodeToTeX(node)).toBe('\\textbf{Highlights}\n\n')
+    })
+  })
+
   describe('listItemNodeToTeX', () => {
     it('should return empty item with empty string', () => {
       const emptyParagraphNode: ParagraphNode = {
@@ -373,6 +412,14 @@ describe(nodeToTeX, () => {
           marks: [{ type: 'italic' }],
           expected: `\\textit{${text}}`,
         },
+        {
+          marks: [{ type: 'code' }],
+          expected: `\\texttt{${text}}`,
+        },
+        {
+          marks: [{ type: 'strike' }],
+          expected: `\\sout{${text}}`,
+        },
 
         {
           marks: [
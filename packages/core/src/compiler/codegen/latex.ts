@@ -23,9 +23,11 @@
  */
 
 import type {
+  BlockquoteNode,
   BulletListNode,
   DocNode,
   Fragment,
+  HeadingNode,
   ListItemNode,
   Mark,
   Node,
@@ -66,10 +68,16 @@ export class LatexCodeGenerator implements CodeGenerator {
  */
 export function nodeToTeX(node: Node, context?: CodeGenerationContext): string {
   switch (node.type) {
+    case 'blockquote':
+      return blockquoteNodeToTeX(node, context)
     case 'bulletList':
       return bulletListNodeToTeX(node, context)
     case 'doc':
       return docNodeToTeX(node, context)
+    case 'hardBreak':
+      return '\\newline\n'
+    case 'heading':
+      return headingNodeToTeX(node, context)
     case 'listItem':
       return listItemNodeToTeX(node, context)
     case 'orderedList':
@@ -81,6 +89,20 @@ export function nodeToTeX(node: Node, context?: CodeGenerationContext): string {
   }
 }
 
+/**
+ * Convert a blockquote node to its corresponding LaTeX code.
+ *
+ * @param node - The blockquote node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated LaTeX code.
+ */
+function blockquoteNodeToTeX(
+  node: BlockquoteNode,
+  context?: CodeGenerationContext
+): string {
+  return `\\begin{quote}\n${fragmentToTeX(node.content, context)}\\end{quote}\n`
+}
+
 /**
  * Convert a bullet list node to its corresponding LaTeX code.
  *
@@ -106,6 +128,27 @@ function docNodeToTeX(node: DocNode, context?: CodeGenerationContext): string {
   return fragmentToTeX(node.content, context)
 }
 
+/**
+ * Convert a heading node to its corresponding LaTeX code.
+ *
+ * Sectioning commands are reserved for the sections of the resume, so the
+ * heading is rendered as a bold paragraph regardless of its level.
+ *
+ * @param node - The heading node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated LaTeX code.
+ */
+function headingNodeToTeX(
+  node: HeadingNode,
+  context?: CodeGenerationContext
+): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  return `\\textbf{${fragmentToTeX(node.content, context)}}\n\n`
+}
+
 /**
  * Convert a list item node to its corresponding LaTeX code.
  *
@@ -198,6 +241,10 @@ function applyMarkToText(
   switch (mark.type) {
     case 'bold':
       return `\\textbf{${text}}`
+    case 'code':
+      return `\\texttt{${text}}`
+    case 'strike':
+      return `\\sout{${text}}`
     case 'italic':
       return `\\textit{${text}}`
     case 'link': {
@@ -0,0 +1,240 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type {
+  BlockquoteNode,
+  BulletListNode,
+  DocNode,
+  HeadingNode,
+  ListItemNode,
+  Mark,
+  OrderedListNode,
+  ParagraphNode,
+} from '@/compiler/ast'
+import { MarkdownParser } from '@/compiler/parser'
+import astJson from './fixtures/ast.json'
+import { MarkdownCodeGenerator, nodeToMarkdown } from './markdown'
+
+describe(nodeToMarkdown, () => {
+  const paragraph = (text: string): ParagraphNode => ({
+    content: [{ text, type: 'text' }],
+    type: 'paragraph',
+  })
+
+  const link = (href: string): Mark => ({
+    type: 'link',
+    attrs: { href, class: null, target: '' },
+  })
+
+  describe('blockquoteNodeToMarkdown', () => {
+    it('should prefix every line with a quote marker', () => {
+      const node: BlockquoteNode = {
+        content: [paragraph('Hello'), paragraph('world!')],
+        type: 'blockquote',
+      }
+
+      expect(nodeToMarkdown(node)).toBe('> Hello\n>\n> world!\n\n')
+    })
+  })
+
+  describe('bulletListNodeToMarkdown', () => {
+    it('should return non-empty bullet list with multiple items', () => {
+      const node: BulletListNode = {
+        content: [
+          { content: [paragraph('Hello,')], type: 'listItem' },
+          { content: [paragraph('world!')], type: 'listItem' },
+        ],
+        type: 'bulletList',
+      }
+
+      expect(nodeToMarkdown(node)).toBe('- Hello,\n- world!\n\n')
+    })
+
+    it('should indent nested lists by the width of the parent marker', () => {
+      const node: OrderedListNode = {
+        attrs: { start: 9 },
+        content: [
+          { content: [paragraph('Ninth')], type: 'listItem' },
+          {
+            content: [
+              paragraph('Tenth'),
+              {
+                content: [{ content: [paragraph('Child')], type: 'listItem' }],
+                type: 'bulletList',
+              },
+            ],
+            type: 'listItem',
+          },
+        ],
+        type: 'orderedList',
+      }
+
+      expect(nodeToMarkdown(node)).toBe('9. Ninth\n10. Tenth\n    - Child\n\n')
+    })
+  })
+
+  describe('docNodeToMarkdown', () => {
+    it('should return empty string with no content', () => {
+      const node: DocNode = {
+        content: [],
+        type: 'doc',
+      }
+
+      expect(nodeToMarkdown(node)).toBe('')
+    })
+
+    it('should return markdown with a json object', () => {
+      const markdown = nodeToMarkdown(astJson as DocNode)
+
+      expect(markdown).toMatch('**')
+      expect(markdown).toMatch(/^- /m)
+      expect(markdown).toMatch(/^1\. /m)
+      expect(markdown).not.toMatch('\\textbf')
+      expect(markdown).not.toMatch('<strong>')
+    })
+
+    it('should be stable when parsed and generated again', () => {
+      const parser = new MarkdownParser()
+      const markdown = nodeToMarkdown(astJson as DocNode)
+
+      expect(nodeToMarkdown(parser.parse(markdown))).toBe(markdown)
+    })
+  })
+
+  describe('hardBreakNodeToMarkdown', () => {
+    it('should return a backslash line break', () => {
+      expect(nodeToMarkdown({ type: 'hardBreak' })).toBe('\\\n')
+    })
+  })
+
+  describe('headingNodeToMarkdown', () => {
+    it('should demote headings below the headings of the resume', () => {
+      const heading = (level: number): HeadingNode => ({
+        attrs: { level },
+        content: [{ text: 'Highlights', type: 'text' }],
+        type: 'heading',
+      })
+
+      expect(nodeToMarkdown(heading(1))).toBe('#### Highlights\n\n')
+      expect(nodeToMarkdown(heading(4))).toBe('###### Highlights\n\n')
+    })
+  })
+
+  describe('listItemNodeToMarkdown', () => {
+    it('should return empty string with no content', () => {
+      const node: ListItemNode = {
+        content: [],
+        type: 'listItem',
+      }
+
+      expect(nodeToMarkdown(node)).toBe('')
+    })
+
+    it('should separate consecutive paragraphs with a blank line', () => {
+      const node: BulletListNode = {
+        content: [
+          {
+            content: [paragraph('First'), paragraph('Second')],
+            type: 'listItem',
+          },
+        ],
+        type: 'bulletList',
+      }
+
+      expect(nodeToMarkdown(node)).toBe('- First\n\n  Second\n\n')
+    })
+  })
+
+  describe('paragraphNodeToMarkdown', () => {
+    it('should return empty string with no content', () => {
+      expect(nodeToMarkdown({ content: [], type: 'paragraph' })).toBe('')
+    })
+
+    it('should end a paragraph with a blank line', () => {
+      expect(nodeToMarkdown(paragraph('Hello'))).toBe('Hello\n\n')
+    })
+  })
+
+  describe('textNodeToMarkdown', () => {
+    it('should escape special characters', () => {
+      expect(
+        nodeToMarkdown({ text: '# 1 in snake_case *', type: 'text' })
+      ).toBe('\\# 1 in snake\\_case \\*')
+    })
+
+    it('should apply marks', () => {
+      const tests: { marks: Mark[]; text: string; expected: string }[] = [
+        { marks: [{ type: 'bold' }], text: 'text', expected: '**text**' },
+        { marks: [{ type: 'italic' }], text: 'text', expected: '*text*' },
+        { marks: [{ type: 'strike' }], text: 'text', expected: '~~text~~' },
+        {
+          marks: [{ type: 'code' }],
+          text: 'snake_case',
+          expected: '`snake_case`',
+        },
+        { marks: [{ type: 'code' }], text: 'a`b', expected: '``a`b``' },
+        { marks: [{ type: 'code' }], text: '`a', expected: '`` `a ``' },
+        {
+          marks: [{ type: 'bold' }, link('https://yamlresume.dev')],
+          text: 'YAMLResume',
+          expected: '[**YAMLResume**](https://yamlresume.dev)',
+        },
+        {
+          marks: [link('https://en.wikipedia.org/wiki/C_(language)')],
+          text: 'C',
+          expected: '[C](https://en.wikipedia.org/wiki/C_\\(language\\))',
+        },
+      ]
+
+      for (const { marks, text, expected } of tests) {
+        expect(nodeToMarkdown({ marks, text, type: 'text' })).toBe(expected)
+      }
+    })
+
+    it('should keep surrounding whitespaces outside of marks', () => {
+      expect(
+        nodeToMarkdown({
+          marks: [{ type: 'bold' }],
+          text: ' bold ',
+          type: 'text',
+        })
+      ).toBe(' **bold** ')
+      expect(
+        nodeToMarkdown({ marks: [{ type: 'italic' }], text: ' ', type: 'text' })
+      ).toBe(' ')
+    })
+  })
+})
+
+describe(MarkdownCodeGenerator, () => {
+  it('should generate markdown from an AST node', () => {
+    const generator = new MarkdownCodeGenerator()
+
+    expect(generator.generate(astJson as DocNode)).toBe(
+      nodeToMarkdown(astJson as DocNode)
+    )
+  })
+})
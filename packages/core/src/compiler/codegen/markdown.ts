@@ -0,0 +1,312 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type {
+  BlockquoteNode,
+  BulletListNode,
+  DocNode,
+  Fragment,
+  HeadingNode,
+  ListItemNode,
+  Mark,
+  Node,
+  OrderedListNode,
+  ParagraphNode,
+  TextNode,
+} from '@/compiler/ast'
+import { escapeMarkdown, escapeMarkdownUrl } from '@/utils'
+import type { CodeGenerator } from './interface'
+
+/**
+ * Generate markdown from a Node.
+ *
+ * This class implements the `CodeGenerator` interface and provides a method
+ * to convert an AST node back into normalized markdown, no matter which
+ * `Parser` produced the node. Bullet lists always use `- `, nested lists are
+ * indented by the width of their parent's marker, and special characters in
+ * texts are escaped.
+ *
+ * @see {@link CodeGenerator}
+ */
+export class MarkdownCodeGenerator implements CodeGenerator {
+  /**
+   * Generate markdown from an AST node.
+   *
+   * @param node - The AST node to generate markdown from.
+   * @returns The generated markdown.
+   */
+  generate(node: Node): string {
+    return nodeToMarkdown(node)
+  }
+}
+
+/**
+ * Convert an AST node to its corresponding markdown.
+ *
+ * @param node - The AST node to convert.
+ * @returns The generated markdown.
+ */
+export function nodeToMarkdown(node: Node): string {
+  switch (node.type) {
+    case 'blockquote':
+      return blockquoteNodeToMarkdown(node)
+    case 'bulletList':
+      return bulletListNodeToMarkdown(node)
+    case 'doc':
+      return docNodeToMarkdown(node)
+    case 'hardBreak':
+      return '\\\n'
+    case 'heading':
+      return headingNodeToMarkdown(node)
+    case 'listItem':
+      return listItemNodeToMarkdown(node)
+    case 'orderedList':
+      return orderedListNodeToMarkdown(node)
+    case 'paragraph':
+      return paragraphNodeToMarkdown(node)
+    case 'text':
+      return textNodeToMarkdown(node)
+  }
+}
+
+/**
+ * Prefix the first line of a markdown with a list marker and indent the
+ * following lines with the same width, markdown relies on the indentation to
+ * nest block content under a list item.
+ *
+ * @param markdown - The markdown to prefix.
+ * @param marker - The list marker, e.g, `- ` or `1. `.
+ * @returns The prefixed markdown.
+ */
+function prefixWithMarker(markdown: string, marker: string): string {
+  const indent = ' '.repeat(marker.length)
+
+  return markdown
+    .split('\n')
+    .map((line, index) => {
+      if (index === 0) return `${marker}${line}`
+      return line ? `${indent}${line}` : line
+    })
+    .join('\n')
+}
+
+/**
+ * Convert a blockquote node to its corresponding markdown.
+ *
+ * @param node - The blockquote node to convert.
+ * @returns The generated markdown.
+ */
+function blockquoteNodeToMarkdown(node: BlockquoteNode): string {
+  const markdown = fragmentToMarkdown(node.content).trimEnd()
+
+  if (markdown === '') {
+    return ''
+  }
+
+  const lines = markdown
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n')
+
+  return `${lines}\n\n`
+}
+
+/**
+ * Convert a bullet list node to its corresponding markdown.
+ *
+ * @param node - The bullet list node to convert.
+ * @returns The generated markdown.
+ */
+function bulletListNodeToMarkdown(node: BulletListNode): string {
+  const items = (node.content ?? []).map((item) =>
+    prefixWithMarker(nodeToMarkdown(item), '- ')
+  )
+
+  return `${items.join('\n')}\n\n`
+}
+
+/**
+ * Convert a document node to its corresponding markdown.
+ *
+ * @param node - The document node to convert.
+ * @returns The generated markdown.
+ */
+function docNodeToMarkdown(node: DocNode): string {
+  return fragmentToMarkdown(node.content)
+}
+
+/**
+ * Convert a heading node to its corresponding markdown.
+ *
+ * Summaries are nested under the `#` to `###` headings of the resume, so the
+ * heading is demoted by 3 levels, e.g, `# Heading` becomes `#### Heading`.
+ *
+ * @param node - The heading node to convert.
+ * @returns The generated markdown.
+ */
+function headingNodeToMarkdown(node: HeadingNode): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  const level = Math.min(node.attrs.level + 3, 6)
+
+  return `${'#'.repeat(level)} ${fragmentToMarkdown(node.content)}\n\n`
+}
+
+/**
+ * Convert a list item node to its corresponding markdown.
+ *
+ * Children are kept on consecutive lines so that list items stay tight, only
+ * consecutive paragraphs are separated by a blank line, otherwise they would
+ * be merged into one paragraph.
+ *
+ * @param node - The list item node to convert.
+ * @returns The generated markdown.
+ */
+function listItemNodeToMarkdown(node: ListItemNode): string {
+  const children = (node.content ?? []).filter(
+    (child) => nodeToMarkdown(child).trim() !== ''
+  )
+
+  return children
+    .map((child, index) => {
+      const markdown = nodeToMarkdown(child).trimEnd()
+      const previous = children[index - 1]
+
+      if (previous?.type === 'paragraph' && child.type === 'paragraph') {
+        return `\n${markdown}`
+      }
+
+      return markdown
+    })
+    .join('\n')
+}
+
+/**
+ * Convert an ordered list node to its corresponding markdown.
+ *
+ * @param node - The ordered list node to convert.
+ * @returns The generated markdown.
+ */
+function orderedListNodeToMarkdown(node: OrderedListNode): string {
+  const start = node.attrs?.start ?? 1
+  const items = (node.content ?? []).map((item, index) =>
+    prefixWithMarker(nodeToMarkdown(item), `${start + index}. `)
+  )
+
+  return `${items.join('\n')}\n\n`
+}
+
+/**
+ * Convert a paragraph node to its corresponding markdown.
+ *
+ * @param node - The paragraph node to convert.
+ * @returns The generated markdown.
+ */
+function paragraphNodeToMarkdown(node: ParagraphNode): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  return `${fragmentToMarkdown(node.content)}\n\n`
+}
+
+/**
+ * Convert a text node to its corresponding markdown.
+ *
+ * Leading and trailing whitespaces are kept outside of the marks, because
+ * emphasis delimiters next to a whitespace are not parsed as emphasis. Inline
+ * code is not escaped, instead it is wrapped in a backtick string longer than
+ * any backtick string inside of it.
+ *
+ * @param node - The text node to convert.
+ * @returns The generated markdown.
+ */
+function textNodeToMarkdown(node: TextNode): string {
+  const escapedText = node.marks?.some((mark) => mark.type === 'code')
+    ? toInlineCode(node.text)
+    : escapeMarkdown(node.text)
+
+  if (node.marks === undefined || escapedText.trim() === '') {
+    return escapedText
+  }
+
+  const [, leading, text, trailing] = escapedText.match(
+    /^(\s*)([\s\S]*?)(\s*)$/
+  )
+
+  return `${leading}${node.marks.reduce(applyMarkToText, text)}${trailing}`
+}
+
+/**
+ * Wrap a text in backticks as markdown inline code.
+ *
+ * @param text - The text to wrap.
+ * @returns The markdown inline code.
+ */
+function toInlineCode(text: string): string {
+  const longest = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((backticks) => backticks.length)
+  )
+  const fence = '`'.repeat(longest + 1)
+  const padding = /^`|`$/.test(text) ? ' ' : ''
+
+  return `${fence}${padding}${text}${padding}${fence}`
+}
+
+/**
+ * Apply a mark to a text.
+ *
+ * @param text - The text to apply the mark to.
+ * @param mark - The mark to apply.
+ */
+function applyMarkToText(text: string, mark: Mark) {
+  switch (mark.type) {
+    case 'bold':
+      return `**${text}**`
+    case 'code':
+      return text
+    case 'italic':
+      return `*${text}*`
+    case 'link':
+      return `[${text}](${escapeMarkdownUrl(mark.attrs.href)})`
+    case 'strike':
+      return `~~${text}~~`
+  }
+}
+
+/**
+ * Convert a fragment to its corresponding markdown.
+ *
+ * @param fragment - The fragment to convert.
+ * @returns The generated markdown.
+ */
+function fragmentToMarkdown(fragment: Fragment): string {
+  if (fragment === undefined) {
+    return ''
+  }
+  return fragment.map((node) => nodeToMarkdown(node)).join('')
+}
@@ -0,0 +1,224 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type {
+  BlockquoteNode,
+  BulletListNode,
+  DocNode,
+  HeadingNode,
+  ListItemNode,
+  Mark,
+  OrderedListNode,
+  ParagraphNode,
+} from '@/compiler/ast'
+import astJson from './fixtures/ast.json'
+import { nodeToText, TextCodeGenerator } from './text'
+
+describe(nodeToText, () => {
+  const paragraph = (text: string): ParagraphNode => ({
+    content: [{ text, type: 'text' }],
+    type: 'paragraph',
+  })
+
+  describe('blockquoteNodeToText', () => {
+    it('should prefix every line with a quote marker', () => {
+      const node: BlockquoteNode = {
+        content: [paragraph('Hello'), paragraph('world!')],
+        type: 'blockquote',
+      }
+
+      expect(nodeToText(node)).toBe('> Hello\n>\n> world!\n\n')
+    })
+  })
+
+  describe('bulletListNodeToText', () => {
+    it('should return non-empty bullet list with multiple items', () => {
+      const node: BulletListNode = {
+        content: [
+          { content: [paragraph('Hello,')], type: 'listItem' },
+          { content: [paragraph('world!')], type: 'listItem' },
+        ],
+        type: 'bulletList',
+      }
+
+      expect(nodeToText(node)).toBe('- Hello,\n- world!\n\n')
+    })
+
+    it('should indent nested lists', () => {
+      const node: BulletListNode = {
+        content: [
+          {
+            content: [
+              paragraph('Parent'),
+              {
+                content: [{ content: [paragraph('Child')], type: 'listItem' }],
+                type: 'bulletList',
+              },
+            ],
+            type: 'listItem',
+          },
+        ],
+        type: 'bulletList',
+      }
+
+      expect(nodeToText(node)).toBe('- Parent\n  - Child\n\n')
+    })
+  })
+
+  describe('docNodeToText', () => {
+    it('should return empty string with no content', () => {
+      const node: DocNode = {
+        content: [],
+        type: 'doc',
+      }
+
+      expect(nodeToText(node)).toBe('')
+    })
+
+    it('should return plain text without markup with a json object', () => {
+      const text = nodeToText(astJson as DocNode)
+
+      expect(text).toMatch('bold')
+      expect(text).toMatch(/^- /m)
+      expect(text).toMatch(/^1\. /m)
+      expect(text).not.toMatch('**')
+      expect(text).not.toMatch('\\textbf')
+      expect(text).not.toMatch('<strong>')
+    })
+  })
+
+  describe('hardBreakNodeToText', () => {
+    it('should return a newline', () => {
+      expect(nodeToText({ type: 'hardBreak' })).toBe('\n')
+    })
+  })
+
+  describe('headingNodeToText', () => {
+    it('should render a heading as a paragraph', () => {
+      const node: HeadingNode = {
+        attrs: { level: 2 },
+        content: [{ text: 'Highlights', type: 'text' }],
+        type: 'heading',
+      }
+
+      expect(nodeToText(node)).toBe('Highlights\n\n')
+    })
+  })
+
+  describe('listItemNodeToText', () => {
+    it('should return empty string with no content', () => {
+      const node: ListItemNode = {
+        content: [],
+        type: 'listItem',
+      }
+
+      expect(nodeToText(node)).toBe('')
+    })
+  })
+
+  describe('orderedListNodeToText', () => {
+    it('should number list items', () => {
+      const node: OrderedListNode = {
+        content: [
+          { content: [paragraph('First')], type: 'listItem' },
+          { content: [paragraph('Second')], type: 'listItem' },
+        ],
+        type: 'orderedList',
+      }
+
+      expect(nodeToText(node)).toBe('1. First\n2. Second\n\n')
+    })
+
+    it('should keep a custom start number', () => {
+      const node: OrderedListNode = {
+        attrs: { start: 9 },
+        content: [
+          { content: [paragraph('Ninth')], type: 'listItem' },
+          { content: [paragraph('Tenth')], type: 'listItem' },
+        ],
+        type: 'orderedList',
+      }
+
+      expect(nodeToText(node)).toBe('9. Ninth\n10. Tenth\n\n')
+    })
+  })
+
+  describe('paragraphNodeToText', () => {
+    it('should return empty string with no content', () => {
+      expect(nodeToText({ content: [], type: 'paragraph' })).toBe('')
+    })
+
+    it('should end a paragraph with a blank line', () => {
+      expect(nodeToText(paragraph('Hello'))).toBe('Hello\n\n')
+    })
+  })
+
+  describe('textNodeToText', () => {
+    it('should keep special characters as is', () => {
+      expect(nodeToText({ text: 'R&D <b> 100%', type: 'text' })).toBe(
+        'R&D <b> 100%'
+      )
+    })
+
+    it('should drop marks but keep link urls', () => {
+      const link = (href: string): Mark => ({
+        type: 'link',
+        attrs: { href, class: null, target: '' },
+      })
+
+      const tests: { marks: Mark[]; text: string; expected: string }[] = [
+        { marks: [{ type: 'bold' }], text: 'text', expected: 'text' },
+        { marks: [{ type: 'italic' }], text: 'text', expected: 'text' },
+        { marks: [{ type: 'code' }], text: 'text', expected: 'text' },
+        { marks: [{ type: 'strike' }], text: 'text', expected: 'text' },
+        {
+          marks: [{ type: 'bold' }, link('https://yamlresume.dev')],
+          text: 'YAMLResume',
+          expected: 'YAMLResume (https://yamlresume.dev)',
+        },
+        {
+          marks: [link('https://yamlresume.dev')],
+          text: 'https://yamlresume.dev',
+          expected: 'https://yamlresume.dev',
+        },
+      ]
+
+      for (const { marks, text, expected } of tests) {
+        expect(nodeToText({ marks, text, type: 'text' })).toBe(expected)
+      }
+    })
+  })
+})
+
+describe(TextCodeGenerator, () => {
+  it('should generate plain text from an AST node', () => {
+    const generator = new TextCodeGenerator()
+
+    expect(generator.generate(astJson as DocNode)).toBe(
+      nodeToText(astJson as DocNode)
+    )
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type {
+  BlockquoteNode,
+  BulletListNode,
+  DocNode,
+  Fragment,
+  HeadingNode,
+  ListItemNode,
+  Node,
+  OrderedListNode,
+  ParagraphNode,
+  TextNode,
+} from '@/compiler/ast'
+import type { CodeGenerator } from './interface'
+
+/**
+ * Generate plain text from a Node.
+ *
+ * This class implements the `CodeGenerator` interface and provides a method
+ * to convert an AST node into plain text without any markup. Bullet lists are
+ * rendered with a leading `- `, ordered lists with their item numbers, and
+ * links are rendered as `text (url)`.
+ *
+ * @see {@link CodeGenerator}
+ */
+export class TextCodeGenerator implements CodeGenerator {
+  /**
+   * Generate plain text from an AST node.
+   *
+   * @param node - The AST node to generate plain text from.
+   * @returns The generated plain text.
+   */
+  generate(node: Node): string {
+    return nodeToText(node)
+  }
+}
+
+/**
+ * Convert an AST node to its corresponding plain text.
+ *
+ * @param node - The AST node to convert.
+ * @returns The generated plain text.
+ */
+export function nodeToText(node: Node): string {
+  switch (node.type) {
+    case 'blockquote':
+      return blockquoteNodeToText(node)
+    case 'bulletList':
+      return bulletListNodeToText(node)
+    case 'doc':
+      return docNodeToText(node)
+    case 'hardBreak':
+      return '\n'
+    case 'heading':
+      return headingNodeToText(node)
+    case 'listItem':
+      return listItemNodeToText(node)
+    case 'orderedList':
+      return orderedListNodeToText(node)
+    case 'paragraph':
+      return paragraphNodeToText(node)
+    case 'text':
+      return textNodeToText(node)
+  }
+}
+
+/**
+ * Prefix the first line of a text with a list marker and indent the following
+ * lines with the same width, so that nested content lines up with the marker.
+ *
+ * @param text - The text to prefix.
+ * @param marker - The list marker, e.g, `- ` or `1. `.
+ * @returns The prefixed text.
+ */
+function prefixWithMarker(text: string, marker: string): string {
+  const indent = ' '.repeat(marker.length)
+
+  return text
+    .split('\n')
+    .map((line, index) => {
+      if (index === 0) return `${marker}${line}`
+      return line ? `${indent}${line}` : line
+    })
+    .join('\n')
+}
+
+/**
+ * Convert a blockquote node to its corresponding plain text.
+ *
+ * Every line of the blockquote is prefixed with `> `, like a quoted email.
+ *
+ * @param node - The blockquote node to convert.
+ * @returns The generated plain text.
+ */
+function blockquoteNodeToText(node: BlockquoteNode): string {
+  const text = fragmentToText(node.content).trimEnd()
+
+  if (text === '') {
+    return ''
+  }
+
+  const lines = text
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n')
+
+  return `${lines}\n\n`
+}
+
+/**
+ * Convert a bullet list node to its corresponding plain text.
+ *
+ * @param node - The bullet list node to convert.
+ * @returns The generated plain text.
+ */
+function bulletListNodeToText(node: BulletListNode): string {
+  const items = (node.content ?? []).map((item) =>
+    prefixWithMarker(nodeToText(item), '- ')
+  )
+
+  return `${items.join('\n')}\n\n`
+}
+
+/**
+ * Convert a document node to its corresponding plain text.
+ *
+ * @param node - The document node to convert.
+ * @returns The generated plain text.
+ */
+function docNodeToText(node: DocNode): string {
+  return fragmentToText(node.content)
+}
+
+/**
+ * Convert a heading node to its corresponding plain text.
+ *
+ * @param node - The heading node to convert.
+ * @returns The generated plain text.
+ */
+function headingNodeToText(node: HeadingNode): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  return `${fragmentToText(node.content)}\n\n`
+}
+
+/**
+ * Convert a list item node to its corresponding plain text.
+ *
+ * Blank lines between the children are removed so that list items stay tight.
+ *
+ * @param node - The list item node to convert.
+ * @returns The generated plain text.
+ */
+function listItemNodeToText(node: ListItemNode): string {
+  return (node.content ?? [])
+    .map((child) => nodeToText(child).trimEnd())
+    .filter((child) => child !== '')
+    .join('\n')
+}
+
+/**
+ * Convert an ordered list node to its corresponding plain text.
+ *
+ * @param node - The ordered list node to convert.
+ * @returns The generated plain text.
+ */
+function orderedListNodeToText(node: OrderedListNode): string {
+  const start = node.attrs?.start ?? 1
+  const items = (node.content ?? []).map((item, index) =>
+    prefixWithMarker(nodeToText(item), `${start + index}. `)
+  )
+
+  return `${items.join('\n')}\n\n`
+}
+
+/**
+ * Convert a paragraph node to its corresponding plain text.
+ *
+ * @param node - The paragraph node to convert.
+ * @returns The generated plain text.
+ */
+function paragraphNodeToText(node: ParagraphNode): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  return `${fragmentToText(node.content)}\n\n`
+}
+
+/**
+ * Convert a text node to its corresponding plain text.
+ *
+ * All marks are dropped except links, whose url is appended to the text in
+ * parentheses unless the text is the url itself.
+ *
+ * @param node - The text node to convert.
+ * @returns The generated plain text.
+ */
+function textNodeToText(node: TextNode): string {
+  const link = node.marks?.find((mark) => mark.type === 'link')
+
+  if (link?.attrs?.href === undefined || link.attrs.href === node.text) {
+    return node.text
+  }
+
+  return `${node.text} (${link.attrs.href})`
+}
+
+/**
+ * Convert a fragment to its corresponding plain text.
+ *
+ * @param fragment - The fragment to convert.
+ * @returns The generated plain text.
+ */
+function fragmentToText(fragment: Fragment): string {
+  if (fragment === undefined) {
+    return ''
+  }
+  return fragment.map((node) => nodeToText(node)).join('')
+}
@@ -0,0 +1,268 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type {
+  BlockquoteNode,
+  BulletListNode,
+  DocNode,
+  HeadingNode,
+  ListItemNode,
+  Mark,
+  OrderedListNode,
+  ParagraphNode,
+} from '@/compiler/ast'
+import astJson from './fixtures/ast.json'
+import { nodeToTypst, TypstCodeGenerator } from './typst'
+
+describe(nodeToTypst, () => {
+  const paragraph = (text: string): ParagraphNode => ({
+    content: [{ text, type: 'text' }],
+    type: 'paragraph',
+  })
+
+  const link = (href: string): Mark => ({
+    type: 'link',
+    attrs: { href, class: null, target: '' },
+  })
+
+  describe('blockquoteNodeToTypst', () => {
+    it('should wrap content in a block quote', () => {
+      const node: BlockquoteNode = {
+        content: [paragraph('Hello')],
+        type: 'blockquote',
+      }
+
+      expect(nodeToTypst(node)).toBe('#quote(block: true)[\nHello\n]\n\n')
+    })
+  })
+
+  describe('bulletListNodeToTypst', () => {
+    it('should return non-empty bullet list with multiple items', () => {
+      const node: BulletListNode = {
+        content: [
+          { content: [paragraph('Hello,')], type: 'listItem' },
+          { content: [paragraph('world!')], type: 'listItem' },
+        ],
+        type: 'bulletList',
+      }
+
+      expect(nodeToTypst(node)).toBe('- Hello,\n- world!\n\n')
+    })
+
+    it('should indent nested lists', () => {
+      const node: BulletListNode = {
+        content: [
+          {
+            content: [
+              paragraph('Parent'),
+              {
+                content: [{ content: [paragraph('Child')], type: 'listItem' }],
+                type: 'bulletList',
+              },
+            ],
+            type: 'listItem',
+          },
+        ],
+        type: 'bulletList',
+      }
+
+      expect(nodeToTypst(node)).toBe('- Parent\n  - Child\n\n')
+    })
+  })
+
+  describe('docNodeToTypst', () => {
+    it('should return empty string with no content', () => {
+      const node: DocNode = {
+        content: [],
+        type: 'doc',
+      }
+
+      expect(nodeToTypst(node)).toBe('')
+    })
+
+    it('should return typst markup with a json object', () => {
+      const markup = nodeToTypst(astJson as DocNode)
+
+      expect(markup).toMatch('#strong[')
+      expect(markup).toMatch(/^- /m)
+      expect(markup).toMatch(/^1\. /m)
+      expect(markup).not.toMatch('\\textbf')
+      expect(markup).not.toMatch('<strong>')
+    })
+  })
+
+  describe('hardBreakNodeToTypst', () => {
+    it('should return a line break', () => {
+      expect(nodeToTypst({ type: 'hardBreak' })).toBe('\\\n')
+    })
+  })
+
+  describe('headingNodeToTypst', () => {
+    it('should render a heading as a strong paragraph', () => {
+      const node: HeadingNode = {
+        attrs: { level: 1 },
+        content: [{ text: 'Highlights', type: 'text' }],
+        type: 'heading',
+      }
+
+      expect(nodeToTypst(node)).toBe('#strong[Highlights]\n\n')
+    })
+  })
+
+  describe('listItemNodeToTypst', () => {
+    it('should return empty string with no content', () => {
+      const node: ListItemNode = {
+        content: [],
+        type: 'listItem',
+      }
+
+      expect(nodeToTypst(node)).toBe('')
+    })
+  })
+
+  describe('orderedListNodeToTypst', () => {
+    it('should number list items', () => {
+      const node: OrderedListNode = {
+        content: [
+          { content: [paragraph('First')], type: 'listItem' },
+          { content: [paragraph('Second')], type: 'listItem' },
+        ],
+        type: 'orderedList',
+      }
+
+      expect(nodeToTypst(node)).toBe('1. First\n2. Second\n\n')
+    })
+
+    it('should keep a custom start number', () => {
+      const node: OrderedListNode = {
+        attrs: { start: 9 },
+        content: [
+          { content: [paragraph('Ninth')], type: 'listItem' },
+          { content: [paragraph('Tenth')], type: 'listItem' },
+        ],
+        type: 'orderedList',
+      }
+
+      expect(nodeToTypst(node)).toBe('9. Ninth\n10. Tenth\n\n')
+    })
+  })
+
+  describe('paragraphNodeToTypst', () => {
+    it('should return empty string with no content', () => {
+      expect(nodeToTypst({ content: [], type: 'paragraph' })).toBe('')
+    })
+
+    it('should end a paragraph with a blank line', () => {
+      expect(nodeToTypst(paragraph('Hello'))).toBe('Hello\n\n')
+    })
+
+    it('should escape a dot or a parenthesis after a marked text', () => {
+      const node: ParagraphNode = {
+        content: [
+          { marks: [{ type: 'bold' }], text: 'Google', type: 'text' },
+          { text: '.com (search)', type: 'text' },
+        ],
+        type: 'paragraph',
+      }
+
+      expect(nodeToTypst(node)).toBe('#strong[Google]\\.com (search)\n\n')
+    })
+
+    it('should escape a dot after inline code', () => {
+      const node: ParagraphNode = {
+        content: [
+          { marks: [{ type: 'code' }], text: 'Node', type: 'text' },
+          { text: '.js', type: 'text' },
+        ],
+        type: 'paragraph',
+      }
+
+      expect(nodeToTypst(node)).toBe('#raw("Node")\\.js\n\n')
+    })
+  })
+
+  describe('textNodeToTypst', () => {
+    it('should escape special characters', () => {
+      expect(nodeToTypst({ text: '#1 in C++ *', type: 'text' })).toBe(
+        '\\#1 in C++ \\*'
+      )
+    })
+
+    it('should apply marks', () => {
+      const tests: { marks: Mark[]; text: string; expected: string }[] = [
+        { marks: [{ type: 'bold' }], text: 'text', expected: '#strong[text]' },
+        { marks: [{ type: 'italic' }], text: 'text', expected: '#emph[text]' },
+        {
+          marks: [{ type: 'code' }],
+          text: 'a "#b"',
+          expected: '#raw("a \\"#b\\"")',
+        },
+        {
+          marks: [{ type: 'strike' }],
+          text: 'text',
+          expected: '#strike[text]',
+        },
+        {
+          marks: [{ type: 'bold' }, link('https://yamlresume.dev')],
+          text: 'YAMLResume',
+          expected: '#link("https://yamlresume.dev")[#strong[YAMLResume]]',
+        },
+        {
+          marks: [link('https://example.com/"quoted"')],
+          text: 'quoted',
+          expected: '#link("https://example.com/\\"quoted\\"")[quoted]',
+        },
+      ]
+
+      for (const { marks, text, expected } of tests) {
+        expect(nodeToTypst({ marks, text, type: 'text' })).toBe(expected)
+      }
+    })
+
+    it('should underline links if the context asks for it', () => {
+      expect(
+        nodeToTypst(
+          {
+            marks: [link('https://yamlresume.dev')],
+            text: 'YAMLResume',
+            type: 'text',
+          },
+          { typography: { links: { underline: true } } }
+        )
+      ).toBe('#underline[#link("https://yamlresume.dev")[YAMLResume]]')
+    })
+  })
+})
+
+describe(TypstCodeGenerator, () => {
+  it('should generate typst markup from an AST node', () => {
+    const generator = new TypstCodeGenerator()
+
+    expect(generator.generate(astJson as DocNode)).toBe(
+      nodeToTypst(astJson as DocNode)
+    )
+  })
+})
@@ -0,0 +1,331 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type {
+  BlockquoteNode,
+  BulletListNode,
+  DocNode,
+  Fragment,
+  HeadingNode,
+  ListItemNode,
+  Mark,
+  Node,
+  OrderedListNode,
+  ParagraphNode,
+  TextNode,
+} from '@/compiler/ast'
+import { escapeTypst, escapeTypstString } from '@/utils'
+import type { CodeGenerationContext, CodeGenerator } from './interface'
+
+/**
+ * Generate Typst markup from a Node.
+ *
+ * This class implements the `CodeGenerator` interface and provides a method
+ * to convert an AST node into its corresponding Typst markup.
+ *
+ * @see {@link CodeGenerator}
+ */
+export class TypstCodeGenerator implements CodeGenerator {
+  /**
+   * Generate Typst markup from an AST node.
+   *
+   * @param node - The AST node to generate Typst markup from.
+   * @param context - Optional context containing layout settings.
+   * @returns The generated Typst markup.
+   */
+  generate(node: Node, context?: CodeGenerationContext): string {
+    return nodeToTypst(node, context)
+  }
+}
+
+/**
+ * Convert an AST node to its corresponding Typst markup.
+ *
+ * @param node - The AST node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated Typst markup.
+ */
+export function nodeToTypst(
+  node: Node,
+  context?: CodeGenerationContext
+): string {
+  switch (node.type) {
+    case 'blockquote':
+      return blockquoteNodeToTypst(node, context)
+    case 'bulletList':
+      return bulletListNodeToTypst(node, context)
+    case 'doc':
+      return docNodeToTypst(node, context)
+    case 'hardBreak':
+      return '\\\n'
+    case 'heading':
+      return headingNodeToTypst(node, context)
+    case 'listItem':
+      return listItemNodeToTypst(node, context)
+    case 'orderedList':
+      return orderedListNodeToTypst(node, context)
+    case 'paragraph':
+      return paragraphNodeToTypst(node, context)
+    case 'text':
+      return textNodeToTypst(node, context)
+  }
+}
+
+/**
+ * Prefix the first line of a markup with a list marker and indent the
+ * following lines with the same width, Typst relies on the indentation to
+ * nest lists.
+ *
+ * @param markup - The markup to prefix.
+ * @param marker - The list marker, e.g, `- ` or `1. `.
+ * @returns The prefixed markup.
+ */
+function prefixWithMarker(markup: string, marker: string): string {
+  const indent = ' '.repeat(marker.length)
+
+  return markup
+    .split('\n')
+    .map((line, index) => {
+      if (index === 0) return `${marker}${line}`
+      return line ? `${indent}${line}` : line
+    })
+    .join('\n')
+}
+
+/**
+ * Convert a blockquote node to its corresponding Typst markup.
+ *
+ * @param node - The blockquote node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated Typst markup.
+ */
+function blockquoteNodeToTypst(
+  node: BlockquoteNode,
+  context?: CodeGenerationContext
+): string {
+  const markup = fragmentToTypst(node.content, context).trimEnd()
+
+  if (markup === '') {
+    return ''
+  }
+
+  return `#quote(block: true)[\n${markup}\n]\n\n`
+}
+
+/**
+ * Convert a bullet list node to its corresponding Typst markup.
+ *
+ * @param node - The bullet list node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated Typst markup.
+ */
+function bulletListNodeToTypst(
+  node: BulletListNode,
+  context?: CodeGenerationContext
+): string {
+  const items = (node.content ?? []).map((item) =>
+    prefixWithMarker(nodeToTypst(item, context), '- ')
+  )
+
+  return `${items.join('\n')}\n\n`
+}
+
+/**
+ * Convert a document node to its corresponding Typst markup.
+ *
+ * @param node - The document node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated Typst markup.
+ */
+function docNodeToTypst(
+  node: DocNode,
+  context?: CodeGenerationContext
+): string {
+  return fragmentToTypst(node.content, context)
+}
+
+/**
+ * Convert a heading node to its corresponding Typst markup.
+ *
+ * Typst headings are reserved for resume sections, which have their own show
+ * rule, so a heading in the content is rendered as a strong paragraph.
+ *
+ * @param node - The heading node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated Typst markup.
+ */
+function headingNodeToTypst(
+  node: HeadingNode,
+  context?: CodeGenerationContext
+): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  return `#strong[${fragmentToTypst(node.content, context)}]\n\n`
+}
+
+/**
+ * Convert a list item node to its corresponding Typst markup.
+ *
+ * Blank lines between the children are removed so that list items stay tight.
+ *
+ * @param node - The list item node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated Typst markup.
+ */
+function listItemNodeToTypst(
+  node: ListItemNode,
+  context?: CodeGenerationContext
+): string {
+  return (node.content ?? [])
+    .map((child) => nodeToTypst(child, context).trimEnd())
+    .filter((child) => child !== '')
+    .join('\n')
+}
+
+/**
+ * Convert an ordered list node to its corresponding Typst markup.
+ *
+ * @param node - The ordered list node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated Typst markup.
+ */
+function orderedListNodeToTypst(
+  node: OrderedListNode,
+  context?: CodeGenerationContext
+): string {
+  const start = node.attrs?.start ?? 1
+  const items = (node.content ?? []).map((item, index) =>
+    prefixWithMarker(nodeToTypst(item, context), `${start + index}. `)
+  )
+
+  return `${items.join('\n')}\n\n`
+}
+
+/**
+ * Convert a paragraph node to its corresponding Typst markup.
+ *
+ * @param node - The paragraph node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated Typst markup.
+ */
+function paragraphNodeToTypst(
+  node: ParagraphNode,
+  context?: CodeGenerationContext
+): string {
+  if (node.content === undefined || node.content.length === 0) {
+    return ''
+  }
+
+  return `${fragmentToTypst(node.content, context)}\n\n`
+}
+
+/**
+ * Convert a text node to its corresponding Typst markup.
+ *
+ * Inline code is rendered with `#raw`, whose string argument is not parsed as
+ * markup and hence only needs string escaping.
+ *
+ * @param node - The text node to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated Typst markup.
+ */
+function textNodeToTypst(
+  node: TextNode,
+  context?: CodeGenerationContext
+): string {
+  const escapedText = node.marks?.some((mark) => mark.type === 'code')
+    ? `#raw("${escapeTypstString(node.text)}")`
+    : escapeTypst(node.text)
+
+  if (node.marks === undefined) {
+    return escapedText
+  }
+
+  return node.marks.reduce(
+    (text, mark) => applyMarkToText(text, mark, context),
+    escapedText
+  )
+}
+
+/**
+ * Apply a mark to a text.
+ *
+ * @param text - The text to apply the mark to.
+ * @param mark - The mark to apply.
+ * @param context - Optional context containing layout settings.
+ */
+function applyMarkToText(
+  text: string,
+  mark: Mark,
+  context?: CodeGenerationContext
+) {
+  switch (mark.type) {
+    case 'bold':
+      return `#strong[${text}]`
+    case 'code':
+      return text
+    case 'italic':
+      return `#emph[${text}]`
+    case 'link': {
+      const link = `#link("${escapeTypstString(mark.attrs.href)}")[${text}]`
+      const shouldUnderline = context?.typography?.links?.underline ?? false
+      if (shouldUnderline) {
+        return `#underline[${link}]`
+      }
+      return link
+    }
+    case 'strike':
+      return `#strike[${text}]`
+  }
+}
+
+/**
+ * Convert a fragment to its corresponding Typst markup.
+ *
+ * @param fragment - The fragment to convert.
+ * @param context - Optional context containing layout settings.
+ * @returns The generated Typst markup.
+ */
+function fragmentToTypst(
+  fragment: Fragment,
+  context?: CodeGenerationContext
+): string {
+  if (fragment === undefined) {
+    return ''
+  }
+
+  return fragment
+    .map((node) => nodeToTypst(node, context))
+    .reduce((markup, next) => {
+      // a function call like `#strong[...]` or `#raw("...")` would take a
+      // following `.` or `(` as a field access or another call, hence we
+      // escape it
+      if (/(\]|"\))$/.test(markup) && /^[.(]/.test(next)) {
+        return `${markup}\\${next}`
+      }
+      return `${markup}${next}`
+    }, '')
+}
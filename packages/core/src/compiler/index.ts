@@ -23,12 +23,28 @@
  */
 
 export type {
+  BlockquoteNode,
   BulletListNode,
   DocNode,
+  HardBreakNode,
+  HeadingNode,
   Node,
   OrderedListNode,
   ParagraphNode,
   TextNode,
 } from './ast'
-export { LatexCodeGenerator } from './codegen'
-export { MarkdownParser, type Parser } from './parser'
+export {
+  type CodeGenerationContext,
+  type CodeGenerator,
+  DocxCodeGenerator,
+  HtmlCodeGenerator,
+  LatexCodeGenerator,
+  MarkdownCodeGenerator,
+  TextCodeGenerator,
+  TypstCodeGenerator,
+} from './codegen'
+export {
+  MarkdownParser,
+  type Parser,
+  type ParserDiagnostic,
+} from './parser'
@@ -22,5 +22,5 @@
  * IN THE SOFTWARE.
  */
 
-export type { Parser } from './interface'
+export type { Parser, ParserDiagnostic } from './interface'
 export { MarkdownParser } from './markdown'
@@ -24,6 +24,24 @@
 
 import type { Node } from '@/compiler'
 
+/**
+ * A problem found while parsing an input string, e.g, a construct that is not
+ * supported and was removed from the AST node.
+ *
+ * Lines and columns are 1-based and offsets are 0-based, all relative to the
+ * input string.
+ */
+export interface ParserDiagnostic {
+  /** The description of the problem. */
+  message: string
+  /** The line of the problem in the input string. */
+  line: number
+  /** The column of the problem in the input string. */
+  column: number
+  /** The offset of the problem in the input string. */
+  offset: number
+}
+
 /**
  * Interface for parsing input strings into AST nodes.
  *
@@ -40,4 +58,10 @@ export interface Parser {
    * @returns The parsed AST node.
    */
   parse(input: string): Node
+
+  /**
+   * Diagnostics collected by the last call to `parse`, if the parser supports
+   * them.
+   */
+  diagnostics?: ParserDiagnostic[]
 }
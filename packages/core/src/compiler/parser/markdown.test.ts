@@ -40,7 +40,7 @@ describe(MarkdownParser, () => {
       expect(result).toEqual({ type: 'doc', content: [] })
     })
 
-    it('should ignore unknown marks in markdown', () => {
+    it('should keep inline code in markdown', () => {
       const input = 'This is a `inline code` mark'
       const result = parser.parse(input)
       expect(result).toEqual({
@@ -50,6 +50,7 @@ describe(MarkdownParser, () => {
             type: 'paragraph',
             content: [
               { type: 'text', text: 'This is a ' },
+              { type: 'text', text: 'inline code', marks: [{ type: 'code' }] },
               { type: 'text', text: ' mark' },
             ],
           },
@@ -185,6 +186,61 @@ describe(MarkdownParser, () => {
       })
     })
 
+    it('should parse text with strikethrough marks', () => {
+      const input = 'Use ~~Angular~~ React'
+      const result = parser.parse(input)
+      expect(result).toEqual({
+        type: 'doc',
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'Use ' },
+              { type: 'text', text: 'Angular', marks: [{ type: 'strike' }] },
+              { type: 'text', text: ' React' },
+            ],
+          },
+        ],
+      })
+    })
+
+    it('should keep tildes that are not strikethrough', () => {
+      const input = 'About ~~ 10 people and ~5 years'
+      const result = parser.parse(input)
+      expect(result).toEqual({
+        type: 'doc',
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'About ~~ 10 people and ~5 years' },
+            ],
+          },
+        ],
+      })
+    })
+
+    it('should parse inline code inside other marks', () => {
+      const input = '**Built with `TypeScript`**'
+      const result = parser.parse(input)
+      expect(result).toEqual({
+        type: 'doc',
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'Built with ', marks: [{ type: 'bold' }] },
+              {
+                type: 'text',
+                text: 'TypeScript',
+                marks: [{ type: 'bold' }, { type: 'code' }],
+              },
+            ],
+          },
+        ],
+      })
+    })
+
     it('should parse text with nested marks', () => {
       const input = 'That **is** **bold _italic_** text'
       const result = parser.parse(input)
@@ -513,7 +569,114 @@ describe(MarkdownParser, () => {
       const result = parser.parse(input)
       expect(result).toEqual({
         type: 'doc',
-        content: [],
+        content: [
+          {
+            type: 'blockquote',
+            content: [
+              {
+                type: 'paragraph',
+                content: [{ type: 'text', text: 'This is a blockquote' }],
+              },
+            ],
+          },
+        ],
+      })
+    })
+  })
+
+  describe('headings', () => {
+    it('should parse headings with their levels', () => {
+      const input = '# Highlights\n\n### **Key** projects'
+      const result = parser.parse(input)
+      expect(result).toEqual({
+        type: 'doc',
+        content: [
+          {
+            type: 'heading',
+            attrs: { level: 1 },
+            content: [{ type: 'text', text: 'Highlights' }],
+          },
+          {
+            type: 'heading',
+            attrs: { level: 3 },
+            content: [
+              { type: 'text', text: 'Key', marks: [{ type: 'bold' }] },
+              { type: 'text', text: ' projects' },
+            ],
+          },
+        ],
+      })
+    })
+  })
+
+  describe('diagnostics', () => {
+    it('should report unsupported constructs with their positions', () => {
+      const input = 'Intro <b>bold</b>\n\n```\ncode\n```\n\n| a |\n| - |'
+      const result = parser.parse(input)
+
+      expect(result).toEqual({
+        type: 'doc',
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'Intro ' },
+              { type: 'text', text: 'bold' },
+            ],
+          },
+          {
+            type: 'paragraph',
+            content: [{ type: 'text', text: '| a |\n| - |' }],
+          },
+        ],
+      })
+      expect(parser.diagnostics).toEqual([
+        {
+          message: 'HTML tags are not supported and were removed',
+          line: 1,
+          column: 7,
+          offset: 6,
+        },
+        {
+          message: 'HTML tags are not supported and were removed',
+          line: 1,
+          column: 14,
+          offset: 13,
+        },
+        {
+          message: 'code blocks are not supported and were removed',
+          line: 3,
+          column: 1,
+          offset: 19,
+        },
+      ])
+    })
+
+    it('should reset diagnostics on every parse', () => {
+      parser.parse('![image](image.png)')
+      expect(parser.diagnostics).toHaveLength(1)
+
+      parser.parse('No images here')
+      expect(parser.diagnostics).toEqual([])
+    })
+  })
+
+  describe('hard breaks', () => {
+    it('should parse hard breaks', () => {
+      const input = 'First line\\\nSecond line'
+      const result = parser.parse(input)
+      expect(result).toEqual({
+        type: 'doc',
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'First line' },
+              { type: 'hardBreak' },
+              { type: 'text', text: 'Second line' },
+            ],
+          },
+        ],
       })
     })
   })
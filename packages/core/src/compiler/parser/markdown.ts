@@ -22,12 +22,20 @@
  * IN THE SOFTWARE.
  */
 
-import type { Root, RootContent } from 'mdast'
+import type { PhrasingContent, Root, RootContent } from 'mdast'
 import remarkParse from 'remark-parse'
 import { unified } from 'unified'
 
-import type { BoldMark, ItalicMark, LinkMark, Mark, Node } from '@/compiler/ast'
-import type { Parser } from './interface'
+import type {
+  BoldMark,
+  CodeMark,
+  ItalicMark,
+  LinkMark,
+  Mark,
+  Node,
+  StrikeMark,
+} from '@/compiler/ast'
+import type { Parser, ParserDiagnostic } from './interface'
 
 /**
  * Parse markdown to ast node
@@ -38,6 +46,12 @@ import type { Parser } from './interface'
  * @see {@link Parser}
  */
 export class MarkdownParser implements Parser {
+  /**
+   * Markdown constructs removed by the last call to `parse`, with their
+   * positions in the markdown input.
+   */
+  diagnostics: ParserDiagnostic[] = []
+
   /**
    * Parse markdown to ast node
    *
@@ -46,10 +60,95 @@ export class MarkdownParser implements Parser {
    */
   parse(input: string): Node {
     const ast = unified().use(remarkParse).parse(input)
-    return transform(ast)
+    splitStrikethrough(ast)
+    this.diagnostics = []
+    return transform(ast, [], this.diagnostics)
+  }
+}
+
+/**
+ * Human readable names of mdast nodes that are not supported by the ast.
+ */
+const UNSUPPORTED_NODE_NAMES: Record<string, string> = {
+  code: 'code blocks',
+  definition: 'link definitions',
+  footnoteDefinition: 'footnotes',
+  footnoteReference: 'footnotes',
+  html: 'HTML tags',
+  image: 'images',
+  imageReference: 'images',
+  linkReference: 'link references',
+  table: 'tables',
+  thematicBreak: 'thematic breaks',
+}
+
+/**
+ * Create a diagnostic for an mdast node that is not supported by the ast.
+ *
+ * @param ast - The unsupported mdast node.
+ * @returns The diagnostic at the start of the mdast node.
+ */
+function createUnsupportedDiagnostic(
+  ast: Root | RootContent
+): ParserDiagnostic {
+  const name = UNSUPPORTED_NODE_NAMES[ast.type] ?? `${ast.type} nodes`
+  const { line = 1, column = 1, offset = 0 } = ast.position?.start ?? {}
+
+  return {
+    message: `${name} are not supported and were removed`,
+    line,
+    column,
+    offset,
   }
 }
 
+/**
+ * Strikethrough delimited by a pair of `~~`, e.g, `~~text~~`.
+ */
+const STRIKETHROUGH = /~~(?=\S)([\s\S]*?\S)~~/
+
+/**
+ * Split `~~text~~` in text nodes into mdast `delete` nodes.
+ *
+ * Strikethrough is a GFM extension which is not recognized by `remark-parse`,
+ * so we split it out of the text nodes after parsing. Note that only
+ * strikethroughs within a single text node are supported, i.e, they can be
+ * nested in other marks but cannot contain other marks.
+ *
+ * @param node - The mdast node to process, modified in place.
+ */
+function splitStrikethrough(node: Root | RootContent) {
+  if (!('children' in node)) {
+    return
+  }
+
+  const children: RootContent[] = node.children
+
+  node.children = children.flatMap((child): RootContent[] => {
+    if (child.type !== 'text') {
+      splitStrikethrough(child)
+      return [child]
+    }
+
+    // splitting with a capturing group gives the texts at even indices and
+    // the strikethroughs at odd indices
+    const parts = child.value.split(STRIKETHROUGH)
+
+    if (parts.length === 1) {
+      return [child]
+    }
+
+    return parts
+      .map((value, index): PhrasingContent => {
+        if (index % 2 === 0) {
+          return { type: 'text', value }
+        }
+        return { type: 'delete', children: [{ type: 'text', value }] }
+      })
+      .filter((part) => part.type !== 'text' || part.value !== '')
+  }) as typeof node.children
+}
+
 /**
  * Transforms an mdast node (or content) into ast node(s).
  *
@@ -60,17 +159,22 @@ export class MarkdownParser implements Parser {
  * @param ast - The mdast node (Root or RootContent) to transform.
  * @param marks - The formatting marks accumulated from parent nodes to apply.
  * Defaults to an empty array.
+ * @param diagnostics - The diagnostics to report unsupported mdast nodes to.
  * @returns The corresponding ast node, an array of ast nodes (for nodes
  * that expand like emphasis/strong), or `null` if the mdast node type isn't
  * handled.
  */
-function transform(ast: Root | RootContent, marks: Mark[] = []) {
+function transform(
+  ast: Root | RootContent,
+  marks: Mark[] = [],
+  diagnostics: ParserDiagnostic[] = []
+) {
   switch (ast.type) {
     case 'root':
       return {
         type: 'doc',
         content: ast.children
-          .flatMap((child) => transform(child, marks))
+          .flatMap((child) => transform(child, marks, diagnostics))
           .filter(Boolean),
       }
 
@@ -78,7 +182,7 @@ function transform(ast: Root | RootContent, marks: Mark[] = []) {
       return {
         type: 'paragraph',
         content: ast.children
-          .flatMap((child) => transform(child, marks))
+          .flatMap((child) => transform(child, marks, diagnostics))
           .filter(Boolean),
       }
 
@@ -96,14 +200,61 @@ function transform(ast: Root | RootContent, marks: Mark[] = []) {
     // children
     case 'strong': {
       const boldMark: BoldMark = { type: 'bold' }
-      return processChildrenWithMarks(ast.children, [...marks, boldMark])
+      return processChildrenWithMarks(
+        ast.children,
+        [...marks, boldMark],
+        diagnostics
+      )
     }
 
     case 'emphasis': {
       const italicMark: ItalicMark = { type: 'italic' }
-      return processChildrenWithMarks(ast.children, [...marks, italicMark])
+      return processChildrenWithMarks(
+        ast.children,
+        [...marks, italicMark],
+        diagnostics
+      )
+    }
+
+    // Inline code has no children, the code mark is applied to its value
+    case 'inlineCode': {
+      const codeMark: CodeMark = { type: 'code' }
+      return {
+        type: 'text',
+        text: ast.value,
+        marks: [...marks, codeMark],
+      }
+    }
+
+    case 'delete': {
+      const strikeMark: StrikeMark = { type: 'strike' }
+      return processChildrenWithMarks(
+        ast.children,
+        [...marks, strikeMark],
+        diagnostics
+      )
     }
 
+    case 'break':
+      return { type: 'hardBreak' }
+
+    case 'heading':
+      return {
+        type: 'heading',
+        attrs: { level: ast.depth },
+        content: ast.children
+          .flatMap((child) => transform(child, marks, diagnostics))
+          .filter(Boolean),
+      }
+
+    case 'blockquote':
+      return {
+        type: 'blockquote',
+        content: ast.children
+          .flatMap((child) => transform(child, marks, diagnostics))
+          .filter(Boolean),
+      }
+
     case 'link': {
       const linkMark: LinkMark = {
         type: 'link',
@@ -113,14 +264,18 @@ function transform(ast: Root | RootContent, marks: Mark[] = []) {
           class: null,
         },
       }
-      return processChildrenWithMarks(ast.children, [...marks, linkMark])
+      return processChildrenWithMarks(
+        ast.children,
+        [...marks, linkMark],
+        diagnostics
+      )
     }
 
     case 'listItem':
       return {
         type: 'listItem',
         content: ast.children
-          .flatMap((child) => transform(child, marks))
+          .flatMap((child) => transform(child, marks, diagnostics))
           .filter(Boolean),
       }
 
@@ -128,11 +283,13 @@ function transform(ast: Root | RootContent, marks: Mark[] = []) {
       return {
         type: ast.ordered ? 'orderedList' : 'bulletList',
         content: ast.children
-          .flatMap((child) => transform(child, marks))
+          .flatMap((child) => transform(child, marks, diagnostics))
           .filter(Boolean),
       }
   }
 
+  diagnostics.push(createUnsupportedDiagnostic(ast))
+
   return null
 }
 
@@ -144,13 +301,18 @@ function transform(ast: Root | RootContent, marks: Mark[] = []) {
  *
  * @param children - The children of the node to process.
  * @param marks - The accumulated marks to apply to the node.
+ * @param diagnostics - The diagnostics to report unsupported mdast nodes to.
  * @returns The transformed ast node if only one results from the children,
  * otherwise an array of the transformed ast nodes.
  */
-function processChildrenWithMarks(children: RootContent[], marks: Mark[]) {
+function processChildrenWithMarks(
+  children: RootContent[],
+  marks: Mark[],
+  diagnostics: ParserDiagnostic[]
+) {
   // Transform each child with the accumulated marks
   const transformedNodes = children
-    .map((child) => transform(child, marks))
+    .map((child) => transform(child, marks, diagnostics))
     .filter(Boolean)
 
   // If only one node is returned (common case), return it directly
@@ -0,0 +1,146 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+import fs from 'node:fs'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import yaml from 'yaml'
+
+import type { Resume } from '@/models'
+import { ResumeSchema } from '@/schema'
+import { ANONYMOUS_NAME, anonymizeResume } from './anonymize'
+
+function getResume(): Resume {
+  return yaml.parse(
+    fs.readFileSync(
+      path.join(__dirname, '..', 'renderer', 'fixtures', 'full-resume.yml'),
+      'utf8'
+    )
+  )
+}
+
+describe(anonymizeResume, () => {
+  it('should mask personal details', () => {
+    const resume = getResume()
+
+    const { content } = anonymizeResume(resume)
+
+    expect(content.basics.name).toBe(ANONYMOUS_NAME)
+    expect(content.basics).not.toHaveProperty('email')
+    expect(content.basics).not.toHaveProperty('phone')
+    expect(content.basics).not.toHaveProperty('url')
+    expect(content.basics.headline).toBe(resume.content.basics.headline)
+    expect(content).not.toHaveProperty('profiles')
+    expect(content.location).not.toHaveProperty('address')
+    expect(content.location).not.toHaveProperty('postalCode')
+    expect(content.location.city).toBe(resume.content.location.city)
+  })
+
+  it('should remove contact details of references', () => {
+    const resume = getResume()
+
+    const { content } = anonymizeResume(resume)
+
+    expect(content.references).toHaveLength(resume.content.references.length)
+    content.references.forEach((item, index) => {
+      expect(item).not.toHaveProperty('email')
+      expect(item).not.toHaveProperty('phone')
+      expect(item.name).toBe(resume.content.references[index].name)
+    })
+  })
+
+  it('should keep organization names by default', () => {
+    const resume = getResume()
+
+    const { content } = anonymizeResume(resume)
+
+    expect(content.work).toEqual(resume.content.work)
+    expect(content.education).toEqual(resume.content.education)
+  })
+
+  it('should generalize organization names', () => {
+    const resume = getResume()
+    resume.content.work = [
+      { ...resume.content.work[0], name: 'PPResume' },
+      { ...resume.content.work[0], name: 'Acme Inc.' },
+      { ...resume.content.work[0], name: 'PPResume' },
+    ]
+
+    const { content } = anonymizeResume(resume, {
+      generalizeOrganizations: true,
+    })
+
+    expect(content.work.map(({ name }) => name)).toEqual([
+      'Employer A',
+      'Employer B',
+      'Employer A',
+    ])
+    for (const item of content.work) {
+      expect(item).not.toHaveProperty('url')
+    }
+    expect(content.education[0].institution).toBe('Institution A')
+    for (const item of content.education) {
+      expect(item.institution).toMatch(/^Institution [A-Z]+$/)
+      expect(item).not.toHaveProperty('url')
+    }
+  })
+
+  it('should label more than 26 organizations', () => {
+    const resume = getResume()
+    resume.content.work = Array.from({ length: 28 }, (_, index) => ({
+      ...resume.content.work[0],
+      name: `Company ${index}`,
+    }))
+
+    const { content } = anonymizeResume(resume, {
+      generalizeOrganizations: true,
+    })
+
+    expect(content.work.slice(24).map(({ name }) => name)).toEqual([
+      'Employer Y',
+      'Employer Z',
+      'Employer AA',
+      'Employer AB',
+    ])
+  })
+
+  it('should produce a resume which passes the schema', () => {
+    const resume = getResume()
+
+    for (const generalizeOrganizations of [false, true]) {
+      const anonymized = anonymizeResume(resume, { generalizeOrganizations })
+
+      expect(ResumeSchema.safeParse(anonymized).success).toBe(true)
+    }
+  })
+
+  it('should not modify the original resume', () => {
+    const resume = getResume()
+    const name = resume.content.basics.name
+
+    anonymizeResume(resume, { generalizeOrganizations: true })
+
+    expect(resume.content.basics.name).toBe(name)
+    expect(resume.content.profiles).not.toHaveLength(0)
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+import { cloneDeep, omit } from 'lodash-es'
+
+import type { Resume } from '@/models'
+
+/**
+ * The placeholder replacing the name of the candidate.
+ */
+export const ANONYMOUS_NAME = 'Anonymous Candidate'
+
+/**
+ * Options for anonymizing a resume.
+ */
+export type AnonymizeOptions = {
+  /**
+   * Whether to replace employer and institution names with generic labels,
+   * e.g, `Employer A` or `Institution B`.
+   */
+  generalizeOrganizations?: boolean
+}
+
+/**
+ * Converts a zero-based index into an alphabetic label, e.g, `A`, `Z`, `AA`.
+ *
+ * @param index - The zero-based index.
+ * @returns The alphabetic label.
+ */
+function toAlphabeticLabel(index: number): string {
+  const letter = String.fromCharCode(65 + (index % 26))
+
+  return index < 26
+    ? letter
+    : `${toAlphabeticLabel(Math.floor(index / 26) - 1)}${letter}`
+}
+
+/**
+ * Creates a function which replaces names with generic labels.
+ *
+ * Each distinct name gets its own label, so that several items of the same
+ * organization, e.g, two positions at the same employer, share one label.
+ *
+ * @param prefix - The prefix of the labels, e.g, `Employer`.
+ * @returns A function which returns the label for a name.
+ */
+function createLabeler(prefix: string): (name: string) => string {
+  const labels = new Map<string, string>()
+
+  return (name) => {
+    if (!labels.has(name)) {
+      labels.set(name, `${prefix} ${toAlphabeticLabel(labels.size)}`)
+    }
+
+    return labels.get(name)
+  }
+}
+
+/**
+ * Produces a redacted copy of a resume for blind-hiring submissions.
+ *
+ * The name of the candidate is replaced with a placeholder, while the email,
+ * phone, url, profiles, street address, postal code and the contact details
+ * of references are removed. Employer and institution names, along with their
+ * urls, can optionally be replaced with generic labels.
+ *
+ * Only optional fields are removed, so the result of a valid resume is still
+ * valid against `ResumeSchema`.
+ *
+ * @param resume - The resume object.
+ * @param options - The anonymize options.
+ * @returns The anonymized resume object.
+ * @remarks This function operates on and returns a deep clone of the original
+ * resume.
+ */
+export function anonymizeResume(
+  resume: Resume,
+  options: AnonymizeOptions = {}
+): Resume {
+  const { generalizeOrganizations = false } = options
+  const anonymized = cloneDeep(resume)
+  const { content } = anonymized
+
+  content.basics = {
+    ...omit(content.basics, ['email', 'phone', 'url']),
+    name: ANONYMOUS_NAME,
+  }
+
+  if (content.location) {
+    content.location = omit(content.location, ['address', 'postalCode'])
+  }
+
+  delete content.profiles
+
+  if (content.references) {
+    content.references = content.references.map((item) =>
+      omit(item, ['email', 'phone'])
+    )
+  }
+
+  if (!generalizeOrganizations) {
+    return anonymized
+  }
+
+  const toEmployer = createLabeler('Employer')
+  const toInstitution = createLabeler('Institution')
+
+  if (content.work) {
+    content.work = content.work.map((item) => ({
+      ...omit(item, ['url']),
+      name: toEmployer(item.name),
+    }))
+  }
+
+  if (content.education) {
+    content.education = content.education.map((item) => ({
+      ...omit(item, ['url']),
+      institution: toInstitution(item.institution),
+    }))
+  }
+
+  return anonymized
+}
@@ -0,0 +1,337 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { cloneDeep } from 'lodash-es'
+import { describe, expect, it } from 'vitest'
+
+import { FILLED_RESUME, type Resume } from '@/models'
+import {
+  convertYAMLResumeToJSONResume,
+  splitSummaryIntoHighlights,
+} from './jsonresume'
+
+describe(splitSummaryIntoHighlights, () => {
+  it('should return empty object for empty summary', () => {
+    for (const summary of [undefined, null, '', '  ']) {
+      expect(splitSummaryIntoHighlights(summary)).toEqual({})
+    }
+  })
+
+  it('should keep summary without bullet list as is', () => {
+    expect(splitSummaryIntoHighlights('Hello **world**\n')).toEqual({
+      summary: 'Hello **world**',
+    })
+  })
+
+  it('should split trailing bullet list into highlights', () => {
+    const tests = [
+      {
+        summary: '- First\n- Second',
+        expected: { highlights: ['First', 'Second'] },
+      },
+      {
+        summary: 'Intro text\n\n- First\n* Second\n+ Third',
+        expected: {
+          summary: 'Intro text',
+          highlights: ['First', 'Second', 'Third'],
+        },
+      },
+      {
+        summary: '- First\n\n- Second',
+        expected: { highlights: ['First', 'Second'] },
+      },
+      {
+        summary: '- A long highlight\n  that continues\n- Second',
+        expected: { highlights: ['A long highlight that continues', 'Second'] },
+      },
+      {
+        summary: '- Leading list\n\nTrailing paragraph',
+        expected: { summary: '- Leading list\n\nTrailing paragraph' },
+      },
+    ]
+
+    for (const { summary, expected } of tests) {
+      expect(splitSummaryIntoHighlights(summary)).toEqual(expected)
+    }
+  })
+})
+
+describe(convertYAMLResumeToJSONResume, () => {
+  const resume: Resume = {
+    content: {
+      basics: {
+        name: 'Andy Dufresne',
+        headline: 'Headed for the Pacific',
+        email: 'hi@ppresume.com',
+        summary: 'Hope is a good thing',
+      },
+      location: {
+        city: 'Zihuatanejo',
+        country: 'Mexico',
+      },
+      profiles: [{ network: 'GitHub', username: 'andy' }],
+      education: [
+        {
+          institution: 'University of Maine',
+          area: 'Banking',
+          degree: 'Bachelor',
+          startDate: '1940-09-01',
+        },
+      ],
+      work: [
+        {
+          name: 'Shawshank',
+          position: 'Accountant',
+          startDate: '1947-01-01',
+          keywords: ['Banking'],
+          summary: 'Helped the warden\n\n- Built a library\n- Filed taxes',
+        },
+      ],
+      projects: [
+        {
+          name: 'Tunnel',
+          startDate: '1947-01-01',
+          summary: '- Dug for 19 years',
+        },
+      ],
+      volunteer: [
+        {
+          organization: 'Prison Library',
+          position: 'Librarian',
+          startDate: '1950-01-01',
+          summary: '',
+        },
+      ],
+      references: [
+        {
+          name: 'Red',
+          relationship: 'Friend',
+          summary: 'He is a good man',
+        },
+      ],
+      awards: [],
+    },
+    layouts: [{ engine: 'markdown' }],
+  }
+
+  it('should move location and profiles into basics', () => {
+    const result = convertYAMLResumeToJSONResume(resume)
+
+    expect(result.basics).toEqual({
+      name: 'Andy Dufresne',
+      label: 'Headed for the Pacific',
+      email: 'hi@ppresume.com',
+      summary: 'Hope is a good thing',
+      location: {
+        city: 'Zihuatanejo',
+        countryCode: 'Mexico',
+      },
+      profiles: [{ network: 'GitHub', username: 'andy' }],
+    })
+  })
+
+  it('should rename fields for education and references', () => {
+    const result = convertYAMLResumeToJSONResume(resume)
+
+    expect(result.education).toEqual([
+      {
+        institution: 'University of Maine',
+        area: 'Banking',
+        studyType: 'Bachelor',
+        startDate: '1940-09-01',
+      },
+    ])
+    expect(result.references).toEqual([
+      {
+        name: 'Red',
+        relationship: 'Friend',
+        reference: 'He is a good man',
+      },
+    ])
+  })
+
+  it('should split summaries into highlights', () => {
+    const result = convertYAMLResumeToJSONResume(resume)
+
+    expect(result.work).toEqual([
+      {
+        name: 'Shawshank',
+        position: 'Accountant',
+        startDate: '1947-01-01',
+        keywords: ['Banking'],
+        summary: 'Helped the warden',
+        highlights: ['Built a library', 'Filed taxes'],
+      },
+    ])
+    expect(result.projects).toEqual([
+      {
+        name: 'Tunnel',
+        startDate: '1947-01-01',
+        highlights: ['Dug for 19 years'],
+      },
+    ])
+    expect(result.volunteer).toEqual([
+      {
+        organization: 'Prison Library',
+        position: 'Librarian',
+        startDate: '1950-01-01',
+      },
+    ])
+  })
+
+  it('should merge explicit highlights with summary highlights', () => {
+    const highlighted = cloneDeep(resume)
+    highlighted.content.work[0].highlights = ['Ran the laundry']
+    highlighted.content.projects[0].highlights = ['Carved chess pieces']
+    highlighted.content.volunteer[0].highlights = ['Taught Tommy']
+
+    const result = convertYAMLResumeToJSONResume(highlighted)
+
+    expect(result.work[0].summary).toBe('Helped the warden')
+    expect(result.work[0].highlights).toEqual([
+      'Ran the laundry',
+      'Built a library',
+      'Filed taxes',
+    ])
+    expect(result.projects[0].highlights).toEqual([
+      'Carved chess pieces',
+      'Dug for 19 years',
+    ])
+    expect(result.volunteer[0].highlights).toEqual(['Taught Tommy'])
+  })
+
+  it('should flatten positions into work entries', () => {
+    const grouped = cloneDeep(resume)
+    grouped.content.work = [
+      {
+        name: 'Shawshank',
+        url: 'https://shawshank.com',
+        keywords: ['Banking'],
+        summary: 'Served the warden\n\n- Kept the books',
+        highlights: ['Ran the laundry'],
+        tags: ['finance'],
+        positions: [
+          {
+            position: 'Head Accountant',
+            startDate: '1955-01-01',
+            summary: 'Managed the finances\n\n- Filed taxes',
+          },
+          {
+            position: 'Librarian',
+            startDate: '1947-01-01',
+            endDate: '1954-12-01',
+            summary: 'Built a library',
+            computed: {
+              dateRange: '',
+              startDate: '',
+              endDate: '',
+              summary: '',
+            },
+          },
+        ],
+      },
+    ]
+
+    const result = convertYAMLResumeToJSONResume(grouped)
+
+    expect(result.work).toEqual([
+      {
+        name: 'Shawshank',
+        url: 'https://shawshank.com',
+        keywords: ['Banking'],
+        position: 'Head Accountant',
+        startDate: '1955-01-01',
+        summary: 'Served the warden\n\nManaged the finances',
+        highlights: ['Ran the laundry', 'Kept the books', 'Filed taxes'],
+      },
+      {
+        name: 'Shawshank',
+        url: 'https://shawshank.com',
+        keywords: ['Banking'],
+        position: 'Librarian',
+        startDate: '1947-01-01',
+        endDate: '1954-12-01',
+        summary: 'Built a library',
+      },
+    ])
+  })
+
+  it('should resolve localized strings to the locale language', () => {
+    const localized = cloneDeep(resume)
+    localized.locale = { language: 'zh-hans' }
+    // @ts-ignore
+    localized.content.basics.name = { en: 'Andy Dufresne', 'zh-hans': '安迪' }
+    // @ts-ignore
+    localized.content.work[0].position = { en: 'Accountant' }
+
+    const result = convertYAMLResumeToJSONResume(localized)
+
+    expect(result.basics.name).toBe('安迪')
+    expect(result.work[0].position).toBe('Accountant')
+
+    delete localized.locale
+
+    expect(convertYAMLResumeToJSONResume(localized).basics.name).toBe(
+      'Andy Dufresne'
+    )
+  })
+
+  it('should omit empty sections, locale and layouts', () => {
+    const result = convertYAMLResumeToJSONResume(resume)
+
+    expect(result).not.toHaveProperty('awards')
+    expect(result).not.toHaveProperty('skills')
+    expect(result).not.toHaveProperty('locale')
+    expect(result).not.toHaveProperty('layouts')
+  })
+
+  it('should drop computed values', () => {
+    const filled = cloneDeep(FILLED_RESUME)
+    filled.content.basics.computed = { summary: 'computed', url: '' }
+    filled.content.education[0].computed = {
+      courses: '',
+      dateRange: '',
+      degreeAreaAndScore: '',
+      endDate: '',
+      startDate: '',
+      summary: '',
+    }
+
+    const result = convertYAMLResumeToJSONResume(filled)
+
+    expect(result.basics).not.toHaveProperty('computed')
+    expect(result.education[0]).not.toHaveProperty('computed')
+  })
+
+  it('should drop tags', () => {
+    const tagged = cloneDeep(resume)
+    tagged.content.work[0].tags = ['finance']
+    tagged.content.references[0].tags = ['personal']
+
+    const result = convertYAMLResumeToJSONResume(tagged)
+
+    expect(result.work[0]).not.toHaveProperty('tags')
+    expect(result.references[0]).not.toHaveProperty('tags')
+  })
+})
@@ -0,0 +1,327 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { mapKeys, omit } from 'lodash-es'
+
+import type { Resume } from '@/models'
+import { isEmptyValue } from '@/utils'
+import { localizeResume } from './localize'
+import type { JSONResume } from './types'
+
+/**
+ * Matches a top level bullet list item in a markdown summary, e.g, `- item`.
+ */
+const BULLET_ITEM_PATTERN = /^[-*+]\s+/
+
+/**
+ * Matches an indented line which continues the previous bullet list item.
+ */
+const CONTINUATION_LINE_PATTERN = /^\s+\S/
+
+/**
+ * Splits a markdown summary into a summary text and a highlights array.
+ *
+ * This is the reverse of what `json2yamlresume` does when it merges JSON
+ * Resume's `highlights` into YAMLResume's `summary`: the trailing top level
+ * bullet list of the summary becomes the highlights, the remaining text is
+ * kept as the summary.
+ *
+ * @param summary - The markdown summary.
+ * @returns The summary text and the highlights, both omitted if empty.
+ */
+export function splitSummaryIntoHighlights(summary?: string): {
+  summary?: string
+  highlights?: string[]
+} {
+  if (isEmptyValue(summary)) {
+    return {}
+  }
+
+  const lines = summary.trimEnd().split('\n')
+
+  // walk backwards to find where the trailing bullet list starts
+  let start = lines.length
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const line = lines[index]
+
+    if (BULLET_ITEM_PATTERN.test(line)) {
+      start = index
+    } else if (line.trim() === '' && start === index + 1) {
+      // loose lists have blank lines between items
+    } else if (!CONTINUATION_LINE_PATTERN.test(line)) {
+      break
+    }
+  }
+
+  const highlights: string[] = []
+  for (const line of lines.slice(start)) {
+    if (line.trim() === '') {
+      continue
+    }
+
+    if (BULLET_ITEM_PATTERN.test(line)) {
+      highlights.push(line.replace(BULLET_ITEM_PATTERN, '').trim())
+    } else {
+      highlights[highlights.length - 1] += ` ${line.trim()}`
+    }
+  }
+
+  const text = lines.slice(0, start).join('\n').trim()
+
+  return {
+    ...(isEmptyValue(text) ? {} : { summary: text }),
+    ...(highlights.length === 0 ? {} : { highlights }),
+  }
+}
+
+/**
+ * Convert the basics and location section of the resume to the JSON Resume
+ * format
+ *
+ * @param resume - The YAMLResume object
+ * @returns The JSON Resume basics object
+ */
+function convertBasics(resume: Resume): JSONResume['basics'] {
+  const { basics = { name: '' }, location, profiles } = resume.content
+
+  return {
+    ...mapKeys(omit(basics, ['computed']), (_, key) =>
+      key === 'headline' ? 'label' : key
+    ),
+    ...(isEmptyValue(location)
+      ? {}
+      : {
+          location: mapKeys(omit(location, ['computed']), (_, key) =>
+            key === 'country' ? 'countryCode' : key
+          ),
+        }),
+    ...(isEmptyValue(profiles)
+      ? {}
+      : { profiles: profiles.map((item) => omit(item, ['computed', 'tags'])) }),
+  }
+}
+
+/**
+ * Convert the education section of the resume to the JSON Resume format
+ *
+ * @param resume - The YAMLResume object
+ * @returns The JSON Resume education array
+ */
+function convertEducation(resume: Resume): JSONResume['education'] {
+  const { education = [] } = resume.content
+
+  return education.map((item) =>
+    mapKeys(omit(item, ['computed', 'tags']), (_, key) =>
+      key === 'degree' ? 'studyType' : key
+    )
+  )
+}
+
+/**
+ * Convert the references section of the resume to the JSON Resume format
+ *
+ * @param resume - The YAMLResume object
+ * @returns The JSON Resume references array
+ */
+function convertReferences(resume: Resume): JSONResume['references'] {
+  const { references = [] } = resume.content
+
+  return references.map((item) =>
+    mapKeys(omit(item, ['computed', 'tags']), (_, key) =>
+      key === 'summary' ? 'reference' : key
+    )
+  )
+}
+
+/**
+ * Convert a section whose summary should be split into highlights to the JSON
+ * Resume format, i.e, `projects`, `volunteer` and `work` sections.
+ *
+ * Explicit `highlights` of an item come first, followed by the highlights
+ * split from its summary.
+ *
+ * @param items - The section items.
+ * @returns The JSON Resume section items.
+ */
+function convertItemsWithHighlights<
+  T extends { summary?: string; highlights?: string[] },
+>(items: T[] = []) {
+  return items.map((item) => {
+    const { summary, highlights = [] } = splitSummaryIntoHighlights(
+      item.summary
+    )
+    const allHighlights = [...(item.highlights ?? []), ...highlights]
+
+    return {
+      ...omit(item, ['computed', 'summary', 'highlights', 'tags']),
+      ...(isEmptyValue(summary) ? {} : { summary }),
+      ...(allHighlights.length === 0 ? {} : { highlights: allHighlights }),
+    }
+  })
+}
+
+/**
+ * Convert the work section of the resume to the JSON Resume format.
+ *
+ * JSON Resume has no equivalent of `positions`, so every position of a work
+ * item becomes a work entry of its own, with the company details of the item
+ * and the title, dates and summary of the position. The summary and highlights
+ * of the work item itself are kept in the first entry.
+ *
+ * @param resume - The YAMLResume object
+ * @returns The JSON Resume work array
+ */
+function convertWork(resume: Resume): JSONResume['work'] {
+  const { work = [] } = resume.content
+
+  return work.flatMap((item) => {
+    if (isEmptyValue(item.positions)) {
+      return convertItemsWithHighlights([item])
+    }
+
+    const company = omit(item, [
+      'positions',
+      'position',
+      'startDate',
+      'endDate',
+      'summary',
+      'highlights',
+    ])
+    const [overall] = convertItemsWithHighlights([
+      { summary: item.summary, highlights: item.highlights },
+    ])
+
+    return item.positions.map((position, index) => {
+      const [entry] = convertItemsWithHighlights([
+        { ...company, ...omit(position, ['computed']) },
+      ])
+
+      if (index > 0) {
+        return entry
+      }
+
+      const summary = [overall.summary, entry.summary]
+        .filter((text) => !isEmptyValue(text))
+        .join('\n\n')
+      const highlights = [
+        ...(overall.highlights ?? []),
+        ...(entry.highlights ?? []),
+      ]
+
+      return {
+        ...omit(entry, ['summary', 'highlights']),
+        ...(isEmptyValue(summary) ? {} : { summary }),
+        ...(highlights.length === 0 ? {} : { highlights }),
+      }
+    })
+  })
+}
+
+/**
+ * Remove the `computed` and `tags` fields from all items of a section.
+ *
+ * @param items - The section items.
+ * @returns The section items without `computed` and `tags` fields.
+ */
+function omitComputed<T extends object>(items: T[] = []) {
+  return items.map((item) => omit(item, ['computed', 'tags']))
+}
+
+/**
+ * Converts YAMLResume to JSON Resume format
+ *
+ * This is the reverse of `json2yamlresume`:
+ *
+ * - `basics` section:
+ *   - `headline` is renamed to `label`
+ *   - top-level `location` and `profiles` are moved into `basics`
+ * - `education` section:
+ *   - `degree` is renamed to `studyType`
+ * - `location` section:
+ *   - `country` is renamed to `countryCode`
+ * - `projects`, `volunteer` and `work` sections:
+ *   - the trailing bullet list in `summary` is split into `highlights`, after
+ *     the explicit `highlights` of the item
+ * - `work` section:
+ *   - every item of `positions` becomes a work entry of its own, the summary
+ *     and highlights of the work item are kept in the first entry
+ * - `references` section:
+ *   - `summary` field is renamed to `reference` field
+ *
+ * Empty sections are omitted, `locale`, `layouts` and item `tags` are dropped
+ * since JSON Resume has no equivalent of them. Localized strings are resolved
+ * to `locale.language`, use `localizeResume` beforehand to export a resume in
+ * another language.
+ *
+ * @param resume - The YAMLResume object
+ * @returns The JSON Resume object
+ */
+export function convertYAMLResumeToJSONResume(resume: Resume): JSONResume {
+  // JSON Resume has no equivalent of localized strings, so they are resolved
+  // to the locale language of the resume
+  const localized = localizeResume(resume, resume.locale?.language ?? 'en')
+
+  const {
+    awards,
+    certificates,
+    education,
+    interests,
+    languages,
+    projects,
+    publications,
+    references,
+    skills,
+    volunteer,
+    work,
+  } = localized.content
+
+  const basics = convertBasics(localized)
+
+  return {
+    ...(isEmptyValue(basics) ? {} : { basics }),
+    ...(isEmptyValue(work) ? {} : { work: convertWork(localized) }),
+    ...(isEmptyValue(volunteer)
+      ? {}
+      : { volunteer: convertItemsWithHighlights(volunteer) }),
+    ...(isEmptyValue(education)
+      ? {}
+      : { education: convertEducation(localized) }),
+    ...(isEmptyValue(awards) ? {} : { awards: omitComputed(awards) }),
+    ...(isEmptyValue(certificates)
+      ? {}
+      : { certificates: omitComputed(certificates) }),
+    ...(isEmptyValue(publications)
+      ? {}
+      : { publications: omitComputed(publications) }),
+    ...(isEmptyValue(skills) ? {} : { skills: omitComputed(skills) }),
+    ...(isEmptyValue(languages) ? {} : { languages: omitComputed(languages) }),
+    ...(isEmptyValue(interests) ? {} : { interests: omitComputed(interests) }),
+    ...(isEmptyValue(references)
+      ? {}
+      : { references: convertReferences(localized) }),
+    ...(isEmptyValue(projects)
+      ? {}
+      : { projects: convertItemsWithHighlights(projects) }),
+  }
+}
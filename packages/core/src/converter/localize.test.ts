@@ -0,0 +1,197 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import yaml from 'yaml'
+
+import type { Resume } from '@/models'
+import { ResumeSchema } from '@/schema'
+import { registerLocalePack, unregisterLocalePack } from '@/translations'
+import {
+  collectLocalizedStrings,
+  findMissingTranslations,
+  getResumeLanguages,
+  isLocalizedString,
+  localizeResume,
+} from './localize'
+
+const yamlResume = `
+locale:
+  language: en
+content:
+  basics:
+    name: Andy Dufresne
+    headline:
+      en: Headed for the Pacific
+      zh-hans: 前往太平洋
+  work:
+    - name: Shawshank Prison
+      position:
+        en: Accountant
+        zh-hans: 会计
+      startDate: Mar 1947
+      summary: Managed the accounts of the prison and its staff.
+      keywords:
+        - en: Accounting
+          zh-hans: 会计学
+        - Tax
+  education:
+    - institution:
+        en: University of Maine
+      area: Economics
+      degree: Bachelor
+      startDate: Sep 1941
+`
+
+describe(isLocalizedString, () => {
+  it('should accept maps of locale languages to strings', () => {
+    expect(isLocalizedString({ en: 'Engineer' })).toBe(true)
+    expect(isLocalizedString({ en: 'Engineer', 'zh-hans': '工程师' })).toBe(
+      true
+    )
+  })
+
+  it('should reject other values', () => {
+    const tests = [
+      undefined,
+      null,
+      'Engineer',
+      ['Engineer'],
+      {},
+      { en: 1 },
+      { en: 'Engineer', xx: 'Engineer' },
+      { name: 'Engineer' },
+    ]
+
+    for (const value of tests) {
+      expect(isLocalizedString(value)).toBe(false)
+    }
+  })
+
+  it('should accept languages of registered locale packs', () => {
+    expect(isLocalizedString({ nl: 'Ingenieur' })).toBe(false)
+
+    registerLocalePack({ language: 'nl' })
+    expect(isLocalizedString({ nl: 'Ingenieur' })).toBe(true)
+    unregisterLocalePack('nl')
+  })
+})
+
+describe('localized strings', () => {
+  let resume: Resume
+
+  beforeEach(() => {
+    resume = yaml.parse(yamlResume)
+  })
+
+  it('should be accepted by the resume schema', () => {
+    const { success } = ResumeSchema.safeParse({
+      ...resume,
+      content: {
+        ...resume.content,
+        education: [
+          {
+            ...resume.content.education[0],
+            institution: { en: 'University of Maine', 'zh-hans': '缅因大学' },
+          },
+        ],
+      },
+    })
+
+    expect(success).toBe(true)
+  })
+
+  it('should collect localized strings along with their paths', () => {
+    expect(collectLocalizedStrings(resume)).toEqual([
+      {
+        path: ['content', 'basics', 'headline'],
+        value: { en: 'Headed for the Pacific', 'zh-hans': '前往太平洋' },
+      },
+      {
+        path: ['content', 'work', 0, 'position'],
+        value: { en: 'Accountant', 'zh-hans': '会计' },
+      },
+      {
+        path: ['content', 'work', 0, 'keywords', 0],
+        value: { en: 'Accounting', 'zh-hans': '会计学' },
+      },
+      {
+        path: ['content', 'education', 0, 'institution'],
+        value: { en: 'University of Maine' },
+      },
+    ])
+  })
+
+  it('should get the languages of the resume', () => {
+    expect(getResumeLanguages(resume)).toEqual(['en', 'zh-hans'])
+    expect(getResumeLanguages(yaml.parse('content: {}'))).toEqual([])
+  })
+
+  it('should find missing translations', () => {
+    expect(findMissingTranslations(resume)).toEqual([
+      {
+        path: ['content', 'education', 0, 'institution'],
+        value: { en: 'University of Maine' },
+        languages: ['zh-hans'],
+      },
+    ])
+  })
+
+  it('should localize the resume', () => {
+    const localized = localizeResume(resume, 'zh-hans')
+
+    expect(localized.locale.language).toBe('zh-hans')
+    expect(localized.content.basics).toEqual({
+      name: 'Andy Dufresne',
+      headline: '前往太平洋',
+    })
+    expect(localized.content.work[0].position).toBe('会计')
+    expect(localized.content.work[0].keywords).toEqual(['会计学', 'Tax'])
+    // falls back to the value for `locale.language`
+    expect(localized.content.education[0].institution).toBe(
+      'University of Maine'
+    )
+
+    // the original resume is left untouched
+    expect(resume.locale.language).toBe('en')
+    expect(resume.content.work[0].position).toEqual({
+      en: 'Accountant',
+      'zh-hans': '会计',
+    })
+  })
+
+  it('should fall back to the first value of a localized string', () => {
+    resume.locale = undefined
+    resume.content.basics.headline = {
+      'zh-hans': '前往太平洋',
+      fr: 'En route pour le Pacifique',
+    } as unknown as string
+
+    const localized = localizeResume(resume, 'es')
+
+    expect(localized.locale).toEqual({ language: 'es' })
+    expect(localized.content.basics.headline).toBe('前往太平洋')
+    expect(localized.content.work[0].position).toBe('Accountant')
+  })
+})
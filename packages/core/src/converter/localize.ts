@@ -0,0 +1,173 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { cloneDeep, isPlainObject, mapValues } from 'lodash-es'
+
+import type { LocaleLanguage, LocalizedString, Resume } from '@/models'
+import { getLocaleLanguageIds } from '@/translations/pack'
+
+/**
+ * A localized string found in the resume content along with its path.
+ */
+export type LocalizedStringEntry = {
+  /** The path to the localized string, starting with `content`. */
+  path: (string | number)[]
+  /** The localized string. */
+  value: LocalizedString
+}
+
+/**
+ * Check if a value is a localized string, i.e, a non-empty map of locale
+ * languages to strings.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a localized string, false otherwise.
+ */
+export function isLocalizedString(value: unknown): value is LocalizedString {
+  if (!isPlainObject(value)) {
+    return false
+  }
+
+  const languages = getLocaleLanguageIds()
+  const entries = Object.entries(value)
+
+  return (
+    entries.length > 0 &&
+    entries.every(
+      ([language, text]) =>
+        languages.includes(language) && typeof text === 'string'
+    )
+  )
+}
+
+/**
+ * Collect all localized strings in the resume content.
+ *
+ * @param resume - The resume object.
+ * @returns The localized strings in the order they appear in the content.
+ */
+export function collectLocalizedStrings(
+  resume: Resume
+): LocalizedStringEntry[] {
+  const entries: LocalizedStringEntry[] = []
+
+  const collect = (value: unknown, path: (string | number)[]) => {
+    if (isLocalizedString(value)) {
+      entries.push({ path, value })
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        collect(item, [...path, index])
+      })
+    } else if (isPlainObject(value)) {
+      Object.entries(value).forEach(([key, item]) => {
+        collect(item, [...path, key])
+      })
+    }
+  }
+
+  collect(resume.content, ['content'])
+
+  return entries
+}
+
+/**
+ * Get the languages a resume is written in, i.e, all languages used by the
+ * localized strings in the resume content.
+ *
+ * @param resume - The resume object.
+ * @returns The languages in the order they first appear in the content, or an
+ * empty array if the resume has no localized strings.
+ */
+export function getResumeLanguages(resume: Resume): LocaleLanguage[] {
+  const languages = collectLocalizedStrings(resume).flatMap(
+    ({ value }) => Object.keys(value) as LocaleLanguage[]
+  )
+
+  return Array.from(new Set(languages))
+}
+
+/**
+ * Find localized strings that are missing a translation for any of the
+ * languages the resume is written in.
+ *
+ * @param resume - The resume object.
+ * @returns The localized strings along with their missing languages.
+ */
+export function findMissingTranslations(
+  resume: Resume
+): (LocalizedStringEntry & { languages: LocaleLanguage[] })[] {
+  const languages = getResumeLanguages(resume)
+
+  return collectLocalizedStrings(resume)
+    .map((entry) => ({
+      ...entry,
+      languages: languages.filter((language) => !(language in entry.value)),
+    }))
+    .filter(({ languages }) => languages.length > 0)
+}
+
+/**
+ * Produces a copy of a resume in the given language.
+ *
+ * Each localized string in the content is replaced with its value for the
+ * given language, a localized string without a translation for the language
+ * falls back to the value for `locale.language`, and then to its first value.
+ * `locale.language` is set to the given language as well.
+ *
+ * @param resume - The resume object.
+ * @param language - The locale language of the copy.
+ * @returns The localized resume object.
+ * @remarks This function operates on and returns a deep clone of the original
+ * resume.
+ */
+export function localizeResume(
+  resume: Resume,
+  language: LocaleLanguage
+): Resume {
+  const localized = cloneDeep(resume)
+  const fallbackLanguage = resume.locale?.language
+
+  const localize = (value: unknown): unknown => {
+    if (isLocalizedString(value)) {
+      return (
+        value[language] ?? value[fallbackLanguage] ?? Object.values(value)[0]
+      )
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(localize)
+    }
+
+    if (isPlainObject(value)) {
+      return mapValues(value as object, localize)
+    }
+
+    return value
+  }
+
+  localized.content = localize(localized.content) as Resume['content']
+  localized.locale = { ...localized.locale, language }
+
+  return localized
+}
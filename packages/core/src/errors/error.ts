@@ -34,7 +34,7 @@ import { joinNonEmptyString } from '@/utils'
  *
  * - File related errors
  * - Format parsing errors
- * - LaTeX related errors
+ * - LaTeX and Typst related errors
  */
 export const ErrorCategory = {
   FILE: 0x00, // 00000000
@@ -92,6 +92,13 @@ export const ErrorType = {
     ),
     extname: '',
   },
+  PLUGIN_LOAD_ERROR: {
+    code: 'PLUGIN_LOAD_ERROR',
+    errno: ErrorCategory.FILE | 0x06,
+    message: 'Failed to load plugin {plugin}: {error}',
+    plugin: '',
+    error: '',
+  },
 
   // Format parsing errors (0x20 - 0x3F)
   INVALID_YAML: {
@@ -106,8 +113,50 @@ export const ErrorType = {
     message: 'Invalid JSON format: {error}',
     error: '',
   },
+  INVALID_INCLUDE: {
+    code: 'INVALID_INCLUDE',
+    errno: ErrorCategory.FORMAT | 0x03,
+    message: 'Invalid include in {path}: {error}',
+    path: '',
+    error: '',
+  },
+  INVALID_RESUME: {
+    code: 'INVALID_RESUME',
+    errno: ErrorCategory.FORMAT | 0x04,
+    message: 'Resume validation failed: {error}',
+    error: '',
+  },
+  INVALID_LOCALE_PACK: {
+    code: 'INVALID_LOCALE_PACK',
+    errno: ErrorCategory.FORMAT | 0x05,
+    message: 'Invalid locale pack: {error}',
+    error: '',
+  },
+  INVALID_LOCALE_LANGUAGE: {
+    code: 'INVALID_LOCALE_LANGUAGE',
+    errno: ErrorCategory.FORMAT | 0x06,
+    message: joinNonEmptyString(
+      [
+        'Invalid locale language: {language}.',
+        'Run `yamlresume languages list` to see all supported languages.',
+      ],
+      ' '
+    ),
+    language: '',
+  },
+  INVALID_TEMPLATE_NAME: {
+    code: 'INVALID_TEMPLATE_NAME',
+    errno: ErrorCategory.FORMAT | 0x07,
+    message: 'Template name should be a non-empty string.',
+  },
+  TEMPLATE_CONFLICT: {
+    code: 'TEMPLATE_CONFLICT',
+    errno: ErrorCategory.FORMAT | 0x08,
+    message: 'Template is already registered: {name}',
+    name: '',
+  },
 
-  // LaTeX related errors (0x40 - 0x5F)
+  // LaTeX and Typst related errors (0x40 - 0x5F)
   LATEX_NOT_FOUND: {
     code: 'LATEX_NOT_FOUND',
     errno: ErrorCategory.LATEX | 0x01,
@@ -120,6 +169,12 @@ export const ErrorType = {
     message: 'LaTeX compilation failed: {error}',
     error: '',
   },
+  TYPST_COMPILE_ERROR: {
+    code: 'TYPST_COMPILE_ERROR',
+    errno: ErrorCategory.LATEX | 0x03,
+    message: 'Typst compilation failed: {error}',
+    error: '',
+  },
 } as const
 
 /**
@@ -23,6 +23,7 @@
  */
 
 export * from './compiler'
+export * from './converter'
 export * from './errors'
 export * from './models'
 export * from './preprocess'
@@ -2077,3 +2077,2060 @@ export const NorwegianCountryNames: Record<Country, string> = {
   Zambia: 'Zambia',
   Zimbabwe: 'Zimbabwe',
 }
+
+/**
+ * Represents all possible countries & regions with their corresponding
+ * German names.
+ */
+export const GermanCountryNames: Record<Country, string> = {
+  Afghanistan: 'Afghanistan',
+  'Aland Islands': 'Ålandinseln',
+  Albania: 'Albanien',
+  Algeria: 'Algerien',
+  'American Samoa': 'Amerikanisch-Samoa',
+  Andorra: 'Andorra',
+  Angola: 'Angola',
+  Anguilla: 'Anguilla',
+  Antarctica: 'Antarktis',
+  'Antigua And Barbuda': 'Antigua und Barbuda',
+  Argentina: 'Argentinien',
+  Armenia: 'Armenien',
+  Aruba: 'Aruba',
+  Australia: 'Australien',
+  Austria: 'Österreich',
+  Azerbaijan: 'Aserbaidschan',
+  Bahrain: 'Bahrain',
+  Bangladesh: 'Bangladesch',
+  Barbados: 'Barbados',
+  Belarus: 'Belarus',
+  Belgium: 'Belgien',
+  Belize: 'Belize',
+  Benin: 'Benin',
+  Bermuda: 'Bermuda',
+  Bhutan: 'Bhutan',
+  Bolivia: 'Bolivien',
+  'Bonaire, Sint Eustatius and Saba': 'Karibische Niederlande',
+  'Bosnia and Herzegovina': 'Bosnien und Herzegowina',
+  Botswana: 'Botsuana',
+  'Bouvet Island': 'Bouvetinsel',
+  Brazil: 'Brasilien',
+  'British Indian Ocean Territory': 'Britisches Territorium im Indischen Ozean',
+  Brunei: 'Brunei Darussalam',
+  Bulgaria: 'Bulgarien',
+  'Burkina Faso': 'Burkina Faso',
+  Burundi: 'Burundi',
+  Cambodia: 'Kambodscha',
+  Cameroon: 'Kamerun',
+  Canada: 'Kanada',
+  'Cape Verde': 'Cabo Verde',
+  'Cayman Islands': 'Kaimaninseln',
+  'Central African Republic': 'Zentralafrikanische Republik',
+  Chad: 'Tschad',
+  Chile: 'Chile',
+  China: 'China',
+  'Christmas Island': 'Weihnachtsinsel',
+  'Cocos (Keeling) Islands': 'Kokosinseln',
+  Colombia: 'Kolumbien',
+  Comoros: 'Komoren',
+  Congo: 'Kongo-Brazzaville',
+  'Cook Islands': 'Cookinseln',
+  'Costa Rica': 'Costa Rica',
+  "Cote D'Ivoire (Ivory Coast)": "Côte d'Ivoire",
+  Croatia: 'Kroatien',
+  Cuba: 'Kuba',
+  Curaçao: 'Curaçao',
+  Cyprus: 'Zypern',
+  'Czech Republic': 'Tschechien',
+  'Democratic Republic of the Congo': 'Kongo-Kinshasa',
+  Denmark: 'Dänemark',
+  Djibouti: 'Dschibuti',
+  Dominica: 'Dominica',
+  'Dominican Republic': 'Dominikanische Republik',
+  'East Timor': 'Timor-Leste',
+  Ecuador: 'Ecuador',
+  Egypt: 'Ägypten',
+  'El Salvador': 'El Salvador',
+  'Equatorial Guinea': 'Äquatorialguinea',
+  Eritrea: 'Eritrea',
+  Estonia: 'Estland',
+  Ethiopia: 'Äthiopien',
+  'Falkland Islands': 'Falklandinseln',
+  'Faroe Islands': 'Färöer',
+  'Fiji Islands': 'Fidschi',
+  Finland: 'Finnland',
+  France: 'Frankreich',
+  'French Guiana': 'Französisch-Guayana',
+  'French Polynesia': 'Französisch-Polynesien',
+  'French Southern Territories': 'Französische Süd- und Antarktisgebiete',
+  Gabon: 'Gabun',
+  'Gambia The': 'Gambia',
+  Georgia: 'Georgien',
+  Germany: 'Deutschland',
+  Ghana: 'Ghana',
+  Gibraltar: 'Gibraltar',
+  Greece: 'Griechenland',
+  Greenland: 'Grönland',
+  Grenada: 'Grenada',
+  Guadeloupe: 'Guadeloupe',
+  Guam: 'Guam',
+  Guatemala: 'Guatemala',
+  'Guernsey and Alderney': 'Guernsey',
+  Guinea: 'Guinea',
+  'Guinea-Bissau': 'Guinea-Bissau',
+  Guyana: 'Guyana',
+  Haiti: 'Haiti',
+  'Heard Island and McDonald Islands': 'Heard und McDonaldinseln',
+  Honduras: 'Honduras',
+  'Hong Kong': 'Hongkong',
+  Hungary: 'Ungarn',
+  Iceland: 'Island',
+  India: 'Indien',
+  Indonesia: 'Indonesien',
+  Iran: 'Iran',
+  Iraq: 'Irak',
+  Ireland: 'Irland',
+  Israel: 'Israel',
+  Italy: 'Italien',
+  Jamaica: 'Jamaika',
+  Japan: 'Japan',
+  Jersey: 'Jersey',
+  Jordan: 'Jordanien',
+  Kazakhstan: 'Kasachstan',
+  Kenya: 'Kenia',
+  Kiribati: 'Kiribati',
+  Kosovo: 'Kosovo',
+  Kuwait: 'Kuwait',
+  Kyrgyzstan: 'Kirgisistan',
+  Laos: 'Laos',
+  Latvia: 'Lettland',
+  Lebanon: 'Libanon',
+  Lesotho: 'Lesotho',
+  Liberia: 'Liberia',
+  Libya: 'Libyen',
+  Liechtenstein: 'Liechtenstein',
+  Lithuania: 'Litauen',
+  Luxembourg: 'Luxemburg',
+  Macau: 'Macau',
+  Madagascar: 'Madagaskar',
+  Malawi: 'Malawi',
+  Malaysia: 'Malaysia',
+  Maldives: 'Malediven',
+  Mali: 'Mali',
+  Malta: 'Malta',
+  'Man (Isle of)': 'Isle of Man',
+  'Marshall Islands': 'Marshallinseln',
+  Martinique: 'Martinique',
+  Mauritania: 'Mauretanien',
+  Mauritius: 'Mauritius',
+  Mayotte: 'Mayotte',
+  Mexico: 'Mexiko',
+  Micronesia: 'Mikronesien',
+  Moldova: 'Republik Moldau',
+  Monaco: 'Monaco',
+  Mongolia: 'Mongolei',
+  Montenegro: 'Montenegro',
+  Montserrat: 'Montserrat',
+  Morocco: 'Marokko',
+  Mozambique: 'Mosambik',
+  Myanmar: 'Myanmar',
+  Namibia: 'Namibia',
+  Nauru: 'Nauru',
+  Nepal: 'Nepal',
+  Netherlands: 'Niederlande',
+  'New Caledonia': 'Neukaledonien',
+  'New Zealand': 'Neuseeland',
+  Nicaragua: 'Nicaragua',
+  Niger: 'Niger',
+  Nigeria: 'Nigeria',
+  Niue: 'Niue',
+  'Norfolk Island': 'Norfolkinsel',
+  'North Korea': 'Nordkorea',
+  'North Macedonia': 'Nordmazedonien',
+  'Northern Mariana Islands': 'Nördliche Marianen',
+  Norway: 'Norwegen',
+  Oman: 'Oman',
+  Pakistan: 'Pakistan',
+  Palau: 'Palau',
+  'Palestinian Territory Occupied': 'Palästina',
+  Panama: 'Panama',
+  'Papua new Guinea': 'Papua-Neuguinea',
+  Paraguay: 'Paraguay',
+  Peru: 'Peru',
+  Philippines: 'Philippinen',
+  'Pitcairn Island': 'Pitcairninseln',
+  Poland: 'Polen',
+  Portugal: 'Portugal',
+  'Puerto Rico': 'Puerto Rico',
+  Qatar: 'Katar',
+  Reunion: 'Réunion',
+  Romania: 'Rumänien',
+  Russia: 'Russland',
+  Rwanda: 'Ruanda',
+  'Saint Helena': 'St. Helena',
+  'Saint Kitts And Nevis': 'St. Kitts und Nevis',
+  'Saint Lucia': 'St. Lucia',
+  'Saint Pierre and Miquelon': 'St. Pierre und Miquelon',
+  'Saint Vincent And The Grenadines': 'St. Vincent und die Grenadinen',
+  'Saint-Barthelemy': 'St. Barthélemy',
+  'Saint-Martin (French part)': 'St. Martin',
+  Samoa: 'Samoa',
+  'San Marino': 'San Marino',
+  'Sao Tome and Principe': 'São Tomé und Príncipe',
+  'Saudi Arabia': 'Saudi-Arabien',
+  Senegal: 'Senegal',
+  Serbia: 'Serbien',
+  Seychelles: 'Seychellen',
+  'Sierra Leone': 'Sierra Leone',
+  Singapore: 'Singapur',
+  'Sint Maarten (Dutch part)': 'Sint Maarten',
+  Slovakia: 'Slowakei',
+  Slovenia: 'Slowenien',
+  'Solomon Islands': 'Salomonen',
+  Somalia: 'Somalia',
+  'South Africa': 'Südafrika',
+  'South Georgia': 'Südgeorgien und die Südlichen Sandwichinseln',
+  'South Korea': 'Südkorea',
+  'South Sudan': 'Südsudan',
+  Spain: 'Spanien',
+  'Sri Lanka': 'Sri Lanka',
+  Sudan: 'Sudan',
+  Suriname: 'Suriname',
+  'Svalbard And Jan Mayen Islands': 'Spitzbergen und Jan Mayen',
+  Swaziland: 'Eswatini',
+  Sweden: 'Schweden',
+  Switzerland: 'Schweiz',
+  Syria: 'Syrien',
+  Taiwan: 'Taiwan',
+  Tajikistan: 'Tadschikistan',
+  Tanzania: 'Tansania',
+  Thailand: 'Thailand',
+  'The Bahamas': 'Bahamas',
+  Togo: 'Togo',
+  Tokelau: 'Tokelau',
+  Tonga: 'Tonga',
+  'Trinidad And Tobago': 'Trinidad und Tobago',
+  Tunisia: 'Tunesien',
+  Turkey: 'Türkei',
+  Turkmenistan: 'Turkmenistan',
+  'Turks And Caicos Islands': 'Turks- und Caicosinseln',
+  Tuvalu: 'Tuvalu',
+  Uganda: 'Uganda',
+  Ukraine: 'Ukraine',
+  'United Arab Emirates': 'Vereinigte Arabische Emirate',
+  'United Kingdom': 'Vereinigtes Königreich',
+  'United States': 'Vereinigte Staaten',
+  'United States Minor Outlying Islands': 'Amerikanische Überseeinseln',
+  Uruguay: 'Uruguay',
+  Uzbekistan: 'Usbekistan',
+  Vanuatu: 'Vanuatu',
+  'Vatican City State (Holy See)': 'Vatikanstadt',
+  Venezuela: 'Venezuela',
+  Vietnam: 'Vietnam',
+  'Virgin Islands (British)': 'Britische Jungferninseln',
+  'Virgin Islands (US)': 'Amerikanische Jungferninseln',
+  'Wallis And Futuna Islands': 'Wallis und Futuna',
+  'Western Sahara': 'Westsahara',
+  Yemen: 'Jemen',
+  Zambia: 'Sambia',
+  Zimbabwe: 'Simbabwe',
+}
+
+/**
+ * Represents all possible countries & regions with their corresponding
+ * Japanese names.
+ */
+export const JapaneseCountryNames: Record<Country, string> = {
+  Afghanistan: 'アフガニスタン',
+  'Aland Islands': 'オーランド諸島',
+  Albania: 'アルバニア',
+  Algeria: 'アルジェリア',
+  'American Samoa': '米領サモア',
+  Andorra: 'アンドラ',
+  Angola: 'アンゴラ',
+  Anguilla: 'アンギラ',
+  Antarctica: '南極',
+  'Antigua And Barbuda': 'アンティグア・バーブーダ',
+  Argentina: 'アルゼンチン',
+  Armenia: 'アルメニア',
+  Aruba: 'アルバ',
+  Australia: 'オーストラリア',
+  Austria: 'オーストリア',
+  Azerbaijan: 'アゼルバイジャン',
+  Bahrain: 'バーレーン',
+  Bangladesh: 'バングラデシュ',
+  Barbados: 'バルバドス',
+  Belarus: 'ベラルーシ',
+  Belgium: 'ベルギー',
+  Belize: 'ベリーズ',
+  Benin: 'ベナン',
+  Bermuda: 'バミューダ',
+  Bhutan: 'ブータン',
+  Bolivia: 'ボリビア',
+  'Bonaire, Sint Eustatius and Saba': 'オランダ領カリブ',
+  'Bosnia and Herzegovina': 'ボスニア・ヘルツェゴビナ',
+  Botswana: 'ボツワナ',
+  'Bouvet Island': 'ブーベ島',
+  Brazil: 'ブラジル',
+  'British Indian Ocean Territory': '英領インド洋地域',
+  Brunei: 'ブルネイ',
+  Bulgaria: 'ブルガリア',
+  'Burkina Faso': 'ブルキナファソ',
+  Burundi: 'ブルンジ',
+  Cambodia: 'カンボジア',
+  Cameroon: 'カメルーン',
+  Canada: 'カナダ',
+  'Cape Verde': 'カーボベルデ',
+  'Cayman Islands': 'ケイマン諸島',
+  'Central African Republic': '中央アフリカ共和国',
+  Chad: 'チャド',
+  Chile: 'チリ',
+  China: '中国',
+  'Christmas Island': 'クリスマス島',
+  'Cocos (Keeling) Islands': 'ココス(キーリング)諸島',
+  Colombia: 'コロンビア',
+  Comoros: 'コモロ',
+  Congo: 'コンゴ共和国',
+  'Cook Islands': 'クック諸島',
+  'Costa Rica': 'コスタリカ',
+  "Cote D'Ivoire (Ivory Coast)": 'コートジボワール',
+  Croatia: 'クロアチア',
+  Cuba: 'キューバ',
+  Curaçao: 'キュラソー',
+  Cyprus: 'キプロス',
+  'Czech Republic': 'チェコ',
+  'Democratic Republic of the Congo': 'コンゴ民主共和国',
+  Denmark: 'デンマーク',
+  Djibouti: 'ジブチ',
+  Dominica: 'ドミニカ国',
+  'Dominican Republic': 'ドミニカ共和国',
+  'East Timor': '東ティモール',
+  Ecuador: 'エクアドル',
+  Egypt: 'エジプト',
+  'El Salvador': 'エルサルバドル',
+  'Equatorial Guinea': '赤道ギニア',
+  Eritrea: 'エリトリア',
+  Estonia: 'エストニア',
+  Ethiopia: 'エチオピア',
+  'Falkland Islands': 'フォークランド諸島',
+  'Faroe Islands': 'フェロー諸島',
+  'Fiji Islands': 'フィジー',
+  Finland: 'フィンランド',
+  France: 'フランス',
+  'French Guiana': '仏領ギアナ',
+  'French Polynesia': '仏領ポリネシア',
+  'French Southern Territories': '仏領極南諸島',
+  Gabon: 'ガボン',
+  'Gambia The': 'ガンビア',
+  Georgia: 'ジョージア',
+  Germany: 'ドイツ',
+  Ghana: 'ガーナ',
+  Gibraltar: 'ジブラルタル',
+  Greece: 'ギリシャ',
+  Greenland: 'グリーンランド',
+  Grenada: 'グレナダ',
+  Guadeloupe: 'グアドループ',
+  Guam: 'グアム',
+  Guatemala: 'グアテマラ',
+  'Guernsey and Alderney': 'ガーンジー',
+  Guinea: 'ギニア',
+  'Guinea-Bissau': 'ギニアビサウ',
+  Guyana: 'ガイアナ',
+  Haiti: 'ハイチ',
+  'Heard Island and McDonald Islands': 'ハード島・マクドナルド諸島',
+  Honduras: 'ホンジュラス',
+  'Hong Kong': '香港',
+  Hungary: 'ハンガリー',
+  Iceland: 'アイスランド',
+  India: 'インド',
+  Indonesia: 'インドネシア',
+  Iran: 'イラン',
+  Iraq: 'イラク',
+  Ireland: 'アイルランド',
+  Israel: 'イスラエル',
+  Italy: 'イタリア',
+  Jamaica: 'ジャマイカ',
+  Japan: '日本',
+  Jersey: 'ジャージー',
+  Jordan: 'ヨルダン',
+  Kazakhstan: 'カザフスタン',
+  Kenya: 'ケニア',
+  Kiribati: 'キリバス',
+  Kosovo: 'コソボ',
+  Kuwait: 'クウェート',
+  Kyrgyzstan: 'キルギス',
+  Laos: 'ラオス',
+  Latvia: 'ラトビア',
+  Lebanon: 'レバノン',
+  Lesotho: 'レソト',
+  Liberia: 'リベリア',
+  Libya: 'リビア',
+  Liechtenstein: 'リヒテンシュタイン',
+  Lithuania: 'リトアニア',
+  Luxembourg: 'ルクセンブルク',
+  Macau: 'マカオ',
+  Madagascar: 'マダガスカル',
+  Malawi: 'マラウイ',
+  Malaysia: 'マレーシア',
+  Maldives: 'モルディブ',
+  Mali: 'マリ',
+  Malta: 'マルタ',
+  'Man (Isle of)': 'マン島',
+  'Marshall Islands': 'マーシャル諸島',
+  Martinique: 'マルティニーク',
+  Mauritania: 'モーリタニア',
+  Mauritius: 'モーリシャス',
+  Mayotte: 'マヨット',
+  Mexico: 'メキシコ',
+  Micronesia: 'ミクロネシア連邦',
+  Moldova: 'モルドバ',
+  Monaco: 'モナコ',
+  Mongolia: 'モンゴル',
+  Montenegro: 'モンテネグロ',
+  Montserrat: 'モントセラト',
+  Morocco: 'モロッコ',
+  Mozambique: 'モザンビーク',
+  Myanmar: 'ミャンマー (ビルマ)',
+  Namibia: 'ナミビア',
+  Nauru: 'ナウル',
+  Nepal: 'ネパール',
+  Netherlands: 'オランダ',
+  'New Caledonia': 'ニューカレドニア',
+  'New Zealand': 'ニュージーランド',
+  Nicaragua: 'ニカラグア',
+  Niger: 'ニジェール',
+  Nigeria: 'ナイジェリア',
+  Niue: 'ニウエ',
+  'Norfolk Island': 'ノーフォーク島',
+  'North Korea': '北朝鮮',
+  'North Macedonia': '北マケドニア',
+  'Northern Mariana Islands': '北マリアナ諸島',
+  Norway: 'ノルウェー',
+  Oman: 'オマーン',
+  Pakistan: 'パキスタン',
+  Palau: 'パラオ',
+  'Palestinian Territory Occupied': 'パレスチナ',
+  Panama: 'パナマ',
+  'Papua new Guinea': 'パプアニューギニア',
+  Paraguay: 'パラグアイ',
+  Peru: 'ペルー',
+  Philippines: 'フィリピン',
+  'Pitcairn Island': 'ピトケアン諸島',
+  Poland: 'ポーランド',
+  Portugal: 'ポルトガル',
+  'Puerto Rico': 'プエルトリコ',
+  Qatar: 'カタール',
+  Reunion: 'レユニオン',
+  Romania: 'ルーマニア',
+  Russia: 'ロシア',
+  Rwanda: 'ルワンダ',
+  'Saint Helena': 'セントヘレナ',
+  'Saint Kitts And Nevis': 'セントクリストファー・ネーヴィス',
+  'Saint Lucia': 'セントルシア',
+  'Saint Pierre and Miquelon': 'サンピエール島・ミクロン島',
+  'Saint Vincent And The Grenadines': 'セントビンセント及びグレナディーン諸島',
+  'Saint-Barthelemy': 'サン・バルテルミー',
+  'Saint-Martin (French part)': 'サン・マルタン',
+  Samoa: 'サモア',
+  'San Marino': 'サンマリノ',
+  'Sao Tome and Principe': 'サントメ・プリンシペ',
+  'Saudi Arabia': 'サウジアラビア',
+  Senegal: 'セネガル',
+  Serbia: 'セルビア',
+  Seychelles: 'セーシェル',
+  'Sierra Leone': 'シエラレオネ',
+  Singapore: 'シンガポール',
+  'Sint Maarten (Dutch part)': 'シント・マールテン',
+  Slovakia: 'スロバキア',
+  Slovenia: 'スロベニア',
+  'Solomon Islands': 'ソロモン諸島',
+  Somalia: 'ソマリア',
+  'South Africa': '南アフリカ',
+  'South Georgia': 'サウスジョージア・サウスサンドウィッチ諸島',
+  'South Korea': '韓国',
+  'South Sudan': '南スーダン',
+  Spain: 'スペイン',
+  'Sri Lanka': 'スリランカ',
+  Sudan: 'スーダン',
+  Suriname: 'スリナム',
+  'Svalbard And Jan Mayen Islands': 'スバールバル諸島・ヤンマイエン島',
+  Swaziland: 'エスワティニ',
+  Sweden: 'スウェーデン',
+  Switzerland: 'スイス',
+  Syria: 'シリア',
+  Taiwan: '台湾',
+  Tajikistan: 'タジキスタン',
+  Tanzania: 'タンザニア',
+  Thailand: 'タイ',
+  'The Bahamas': 'バハマ',
+  Togo: 'トーゴ',
+  Tokelau: 'トケラウ',
+  Tonga: 'トンガ',
+  'Trinidad And Tobago': 'トリニダード・トバゴ',
+  Tunisia: 'チュニジア',
+  Turkey: 'トルコ',
+  Turkmenistan: 'トルクメニスタン',
+  'Turks And Caicos Islands': 'タークス・カイコス諸島',
+  Tuvalu: 'ツバル',
+  Uganda: 'ウガンダ',
+  Ukraine: 'ウクライナ',
+  'United Arab Emirates': 'アラブ首長国連邦',
+  'United Kingdom': 'イギリス',
+  'United States': 'アメリカ合衆国',
+  'United States Minor Outlying Islands': '合衆国領有小離島',
+  Uruguay: 'ウルグアイ',
+  Uzbekistan: 'ウズベキスタン',
+  Vanuatu: 'バヌアツ',
+  'Vatican City State (Holy See)': 'バチカン市国',
+  Venezuela: 'ベネズエラ',
+  Vietnam: 'ベトナム',
+  'Virgin Islands (British)': '英領ヴァージン諸島',
+  'Virgin Islands (US)': '米領ヴァージン諸島',
+  'Wallis And Futuna Islands': 'ウォリス・フツナ',
+  'Western Sahara': '西サハラ',
+  Yemen: 'イエメン',
+  Zambia: 'ザンビア',
+  Zimbabwe: 'ジンバブエ',
+}
+
+/**
+ * Represents all possible countries & regions with their corresponding
+ * Portuguese names.
+ */
+export const PortugueseCountryNames: Record<Country, string> = {
+  Afghanistan: 'Afeganistão',
+  'Aland Islands': 'Ilhas Aland',
+  Albania: 'Albânia',
+  Algeria: 'Argélia',
+  'American Samoa': 'Samoa Americana',
+  Andorra: 'Andorra',
+  Angola: 'Angola',
+  Anguilla: 'Anguila',
+  Antarctica: 'Antártida',
+  'Antigua And Barbuda': 'Antígua e Barbuda',
+  Argentina: 'Argentina',
+  Armenia: 'Armênia',
+  Aruba: 'Aruba',
+  Australia: 'Austrália',
+  Austria: 'Áustria',
+  Azerbaijan: 'Azerbaijão',
+  Bahrain: 'Barein',
+  Bangladesh: 'Bangladesh',
+  Barbados: 'Barbados',
+  Belarus: 'Bielorrússia',
+  Belgium: 'Bélgica',
+  Belize: 'Belize',
+  Benin: 'Benin',
+  Bermuda: 'Bermudas',
+  Bhutan: 'Butão',
+  Bolivia: 'Bolívia',
+  'Bonaire, Sint Eustatius and Saba': 'Países Baixos Caribenhos',
+  'Bosnia and Herzegovina': 'Bósnia e Herzegovina',
+  Botswana: 'Botsuana',
+  'Bouvet Island': 'Ilha Bouvet',
+  Brazil: 'Brasil',
+  'British Indian Ocean Territory': 'Território Britânico do Oceano Índico',
+  Brunei: 'Brunei',
+  Bulgaria: 'Bulgária',
+  'Burkina Faso': 'Burquina Faso',
+  Burundi: 'Burundi',
+  Cambodia: 'Camboja',
+  Cameroon: 'Camarões',
+  Canada: 'Canadá',
+  'Cape Verde': 'Cabo Verde',
+  'Cayman Islands': 'Ilhas Cayman',
+  'Central African Republic': 'República Centro-Africana',
+  Chad: 'Chade',
+  Chile: 'Chile',
+  China: 'China',
+  'Christmas Island': 'Ilha Christmas',
+  'Cocos (Keeling) Islands': 'Ilhas Cocos (Keeling)',
+  Colombia: 'Colômbia',
+  Comoros: 'Comores',
+  Congo: 'República do Congo',
+  'Cook Islands': 'Ilhas Cook',
+  'Costa Rica': 'Costa Rica',
+  "Cote D'Ivoire (Ivory Coast)": 'Costa do Marfim',
+  Croatia: 'Croácia',
+  Cuba: 'Cuba',
+  Curaçao: 'Curaçao',
+  Cyprus: 'Chipre',
+  'Czech Republic': 'Tchéquia',
+  'Democratic Republic of the Congo': 'Congo - Kinshasa',
+  Denmark: 'Dinamarca',
+  Djibouti: 'Djibuti',
+  Dominica: 'Dominica',
+  'Dominican Republic': 'República Dominicana',
+  'East Timor': 'Timor-Leste',
+  Ecuador: 'Equador',
+  Egypt: 'Egito',
+  'El Salvador': 'El Salvador',
+  'Equatorial Guinea': 'Guiné Equatorial',
+  Eritrea: 'Eritreia',
+  Estonia: 'Estônia',
+  Ethiopia: 'Etiópia',
+  'Falkland Islands': 'Ilhas Malvinas',
+  'Faroe Islands': 'Ilhas Faroé',
+  'Fiji Islands': 'Fiji',
+  Finland: 'Finlândia',
+  France: 'França',
+  'French Guiana': 'Guiana Francesa',
+  'French Polynesia': 'Polinésia Francesa',
+  'French Southern Territories': 'Territórios Franceses do Sul',
+  Gabon: 'Gabão',
+  'Gambia The': 'Gâmbia',
+  Georgia: 'Geórgia',
+  Germany: 'Alemanha',
+  Ghana: 'Gana',
+  Gibraltar: 'Gibraltar',
+  Greece: 'Grécia',
+  Greenland: 'Groenlândia',
+  Grenada: 'Granada',
+  Guadeloupe: 'Guadalupe',
+  Guam: 'Guam',
+  Guatemala: 'Guatemala',
+  'Guernsey and Alderney': 'Guernsey',
+  Guinea: 'Guiné',
+  'Guinea-Bissau': 'Guiné-Bissau',
+  Guyana: 'Guiana',
+  Haiti: 'Haiti',
+  'Heard Island and McDonald Islands': 'Ilhas Heard e McDonald',
+  Honduras: 'Honduras',
+  'Hong Kong': 'Hong Kong',
+  Hungary: 'Hungria',
+  Iceland: 'Islândia',
+  India: 'Índia',
+  Indonesia: 'Indonésia',
+  Iran: 'Irã',
+  Iraq: 'Iraque',
+  Ireland: 'Irlanda',
+  Israel: 'Israel',
+  Italy: 'Itália',
+  Jamaica: 'Jamaica',
+  Japan: 'Japão',
+  Jersey: 'Jersey',
+  Jordan: 'Jordânia',
+  Kazakhstan: 'Cazaquistão',
+  Kenya: 'Quênia',
+  Kiribati: 'Quiribati',
+  Kosovo: 'Kosovo',
+  Kuwait: 'Kuwait',
+  Kyrgyzstan: 'Quirguistão',
+  Laos: 'Laos',
+  Latvia: 'Letônia',
+  Lebanon: 'Líbano',
+  Lesotho: 'Lesoto',
+  Liberia: 'Libéria',
+  Libya: 'Líbia',
+  Liechtenstein: 'Liechtenstein',
+  Lithuania: 'Lituânia',
+  Luxembourg: 'Luxemburgo',
+  Macau: 'Macau',
+  Madagascar: 'Madagascar',
+  Malawi: 'Malaui',
+  Malaysia: 'Malásia',
+  Maldives: 'Maldivas',
+  Mali: 'Mali',
+  Malta: 'Malta',
+  'Man (Isle of)': 'Ilha de Man',
+  'Marshall Islands': 'Ilhas Marshall',
+  Martinique: 'Martinica',
+  Mauritania: 'Mauritânia',
+  Mauritius: 'Maurício',
+  Mayotte: 'Mayotte',
+  Mexico: 'México',
+  Micronesia: 'Micronésia',
+  Moldova: 'Moldávia',
+  Monaco: 'Mônaco',
+  Mongolia: 'Mongólia',
+  Montenegro: 'Montenegro',
+  Montserrat: 'Montserrat',
+  Morocco: 'Marrocos',
+  Mozambique: 'Moçambique',
+  Myanmar: 'Mianmar (Birmânia)',
+  Namibia: 'Namíbia',
+  Nauru: 'Nauru',
+  Nepal: 'Nepal',
+  Netherlands: 'Países Baixos',
+  'New Caledonia': 'Nova Caledônia',
+  'New Zealand': 'Nova Zelândia',
+  Nicaragua: 'Nicarágua',
+  Niger: 'Níger',
+  Nigeria: 'Nigéria',
+  Niue: 'Niue',
+  'Norfolk Island': 'Ilha Norfolk',
+  'North Korea': 'Coreia do Norte',
+  'North Macedonia': 'Macedônia do Norte',
+  'Northern Mariana Islands': 'Ilhas Marianas do Norte',
+  Norway: 'Noruega',
+  Oman: 'Omã',
+  Pakistan: 'Paquistão',
+  Palau: 'Palau',
+  'Palestinian Territory Occupied': 'Palestina',
+  Panama: 'Panamá',
+  'Papua new Guinea': 'Papua-Nova Guiné',
+  Paraguay: 'Paraguai',
+  Peru: 'Peru',
+  Philippines: 'Filipinas',
+  'Pitcairn Island': 'Ilhas Pitcairn',
+  Poland: 'Polônia',
+  Portugal: 'Portugal',
+  'Puerto Rico': 'Porto Rico',
+  Qatar: 'Catar',
+  Reunion: 'Reunião',
+  Romania: 'Romênia',
+  Russia: 'Rússia',
+  Rwanda: 'Ruanda',
+  'Saint Helena': 'Santa Helena',
+  'Saint Kitts And Nevis': 'São Cristóvão e Névis',
+  'Saint Lucia': 'Santa Lúcia',
+  'Saint Pierre and Miquelon': 'São Pedro e Miquelão',
+  'Saint Vincent And The Grenadines': 'São Vicente e Granadinas',
+  'Saint-Barthelemy': 'São Bartolomeu',
+  'Saint-Martin (French part)': 'São Martinho',
+  Samoa: 'Samoa',
+  'San Marino': 'San Marino',
+  'Sao Tome and Principe': 'São Tomé e Príncipe',
+  'Saudi Arabia': 'Arábia Saudita',
+  Senegal: 'Senegal',
+  Serbia: 'Sérvia',
+  Seychelles: 'Seicheles',
+  'Sierra Leone': 'Serra Leoa',
+  Singapore: 'Singapura',
+  'Sint Maarten (Dutch part)': 'Sint Maarten',
+  Slovakia: 'Eslováquia',
+  Slovenia: 'Eslovênia',
+  'Solomon Islands': 'Ilhas Salomão',
+  Somalia: 'Somália',
+  'South Africa': 'África do Sul',
+  'South Georgia': 'Ilhas Geórgia do Sul e Sandwich do Sul',
+  'South Korea': 'Coreia do Sul',
+  'South Sudan': 'Sudão do Sul',
+  Spain: 'Espanha',
+  'Sri Lanka': 'Sri Lanka',
+  Sudan: 'Sudão',
+  Suriname: 'Suriname',
+  'Svalbard And Jan Mayen Islands': 'Svalbard e Jan Mayen',
+  Swaziland: 'Essuatíni',
+  Sweden: 'Suécia',
+  Switzerland: 'Suíça',
+  Syria: 'Síria',
+  Taiwan: 'Taiwan',
+  Tajikistan: 'Tadjiquistão',
+  Tanzania: 'Tanzânia',
+  Thailand: 'Tailândia',
+  'The Bahamas': 'Bahamas',
+  Togo: 'Togo',
+  Tokelau: 'Tokelau',
+  Tonga: 'Tonga',
+  'Trinidad And Tobago': 'Trinidad e Tobago',
+  Tunisia: 'Tunísia',
+  Turkey: 'Turquia',
+  Turkmenistan: 'Turcomenistão',
+  'Turks And Caicos Islands': 'Ilhas Turcas e Caicos',
+  Tuvalu: 'Tuvalu',
+  Uganda: 'Uganda',
+  Ukraine: 'Ucrânia',
+  'United Arab Emirates': 'Emirados Árabes Unidos',
+  'United Kingdom': 'Reino Unido',
+  'United States': 'Estados Unidos',
+  'United States Minor Outlying Islands': 'Ilhas Menores Distantes dos EUA',
+  Uruguay: 'Uruguai',
+  Uzbekistan: 'Uzbequistão',
+  Vanuatu: 'Vanuatu',
+  'Vatican City State (Holy See)': 'Cidade do Vaticano',
+  Venezuela: 'Venezuela',
+  Vietnam: 'Vietnã',
+  'Virgin Islands (British)': 'Ilhas Virgens Britânicas',
+  'Virgin Islands (US)': 'Ilhas Virgens Americanas',
+  'Wallis And Futuna Islands': 'Wallis e Futuna',
+  'Western Sahara': 'Saara Ocidental',
+  Yemen: 'Iêmen',
+  Zambia: 'Zâmbia',
+  Zimbabwe: 'Zimbábue',
+}
+
+/**
+ * Represents all possible countries & regions with their corresponding
+ * Italian names.
+ */
+export const ItalianCountryNames: Record<Country, string> = {
+  Afghanistan: 'Afghanistan',
+  'Aland Islands': 'Isole Åland',
+  Albania: 'Albania',
+  Algeria: 'Algeria',
+  'American Samoa': 'Samoa Americane',
+  Andorra: 'Andorra',
+  Angola: 'Angola',
+  Anguilla: 'Anguilla',
+  Antarctica: 'Antartide',
+  'Antigua And Barbuda': 'Antigua e Barbuda',
+  Argentina: 'Argentina',
+  Armenia: 'Armenia',
+  Aruba: 'Aruba',
+  Australia: 'Australia',
+  Austria: 'Austria',
+  Azerbaijan: 'Azerbaigian',
+  Bahrain: 'Bahrein',
+  Bangladesh: 'Bangladesh',
+  Barbados: 'Barbados',
+  Belarus: 'Bielorussia',
+  Belgium: 'Belgio',
+  Belize: 'Belize',
+  Benin: 'Benin',
+  Bermuda: 'Bermuda',
+  Bhutan: 'Bhutan',
+  Bolivia: 'Bolivia',
+  'Bonaire, Sint Eustatius and Saba': 'Caraibi Olandesi',
+  'Bosnia and Herzegovina': 'Bosnia ed Erzegovina',
+  Botswana: 'Botswana',
+  'Bouvet Island': 'Isola Bouvet',
+  Brazil: 'Brasile',
+  'British Indian Ocean Territory': "Territorio Britannico dell'Oceano Indiano",
+  Brunei: 'Brunei',
+  Bulgaria: 'Bulgaria',
+  'Burkina Faso': 'Burkina Faso',
+  Burundi: 'Burundi',
+  Cambodia: 'Cambogia',
+  Cameroon: 'Camerun',
+  Canada: 'Canada',
+  'Cape Verde': 'Capo Verde',
+  'Cayman Islands': 'Isole Cayman',
+  'Central African Republic': 'Repubblica Centrafricana',
+  Chad: 'Ciad',
+  Chile: 'Cile',
+  China: 'Cina',
+  'Christmas Island': 'Isola Christmas',
+  'Cocos (Keeling) Islands': 'Isole Cocos (Keeling)',
+  Colombia: 'Colombia',
+  Comoros: 'Comore',
+  Congo: 'Congo-Brazzaville',
+  'Cook Islands': 'Isole Cook',
+  'Costa Rica': 'Costa Rica',
+  "Cote D'Ivoire (Ivory Coast)": "Costa d'Avorio",
+  Croatia: 'Croazia',
+  Cuba: 'Cuba',
+  Curaçao: 'Curaçao',
+  Cyprus: 'Cipro',
+  'Czech Republic': 'Cechia',
+  'Democratic Republic of the Congo': 'Congo - Kinshasa',
+  Denmark: 'Danimarca',
+  Djibouti: 'Gibuti',
+  Dominica: 'Dominica',
+  'Dominican Republic': 'Repubblica Dominicana',
+  'East Timor': 'Timor Est',
+  Ecuador: 'Ecuador',
+  Egypt: 'Egitto',
+  'El Salvador': 'El Salvador',
+  'Equatorial Guinea': 'Guinea Equatoriale',
+  Eritrea: 'Eritrea',
+  Estonia: 'Estonia',
+  Ethiopia: 'Etiopia',
+  'Falkland Islands': 'Isole Falkland',
+  'Faroe Islands': 'Isole Fær Øer',
+  'Fiji Islands': 'Figi',
+  Finland: 'Finlandia',
+  France: 'Francia',
+  'French Guiana': 'Guyana Francese',
+  'French Polynesia': 'Polinesia Francese',
+  'French Southern Territories': 'Terre Australi Francesi',
+  Gabon: 'Gabon',
+  'Gambia The': 'Gambia',
+  Georgia: 'Georgia',
+  Germany: 'Germania',
+  Ghana: 'Ghana',
+  Gibraltar: 'Gibilterra',
+  Greece: 'Grecia',
+  Greenland: 'Groenlandia',
+  Grenada: 'Grenada',
+  Guadeloupe: 'Guadalupa',
+  Guam: 'Guam',
+  Guatemala: 'Guatemala',
+  'Guernsey and Alderney': 'Guernsey',
+  Guinea: 'Guinea',
+  'Guinea-Bissau': 'Guinea-Bissau',
+  Guyana: 'Guyana',
+  Haiti: 'Haiti',
+  'Heard Island and McDonald Islands': 'Isole Heard e McDonald',
+  Honduras: 'Honduras',
+  'Hong Kong': 'Hong Kong',
+  Hungary: 'Ungheria',
+  Iceland: 'Islanda',
+  India: 'India',
+  Indonesia: 'Indonesia',
+  Iran: 'Iran',
+  Iraq: 'Iraq',
+  Ireland: 'Irlanda',
+  Israel: 'Israele',
+  Italy: 'Italia',
+  Jamaica: 'Giamaica',
+  Japan: 'Giappone',
+  Jersey: 'Jersey',
+  Jordan: 'Giordania',
+  Kazakhstan: 'Kazakistan',
+  Kenya: 'Kenya',
+  Kiribati: 'Kiribati',
+  Kosovo: 'Kosovo',
+  Kuwait: 'Kuwait',
+  Kyrgyzstan: 'Kirghizistan',
+  Laos: 'Laos',
+  Latvia: 'Lettonia',
+  Lebanon: 'Libano',
+  Lesotho: 'Lesotho',
+  Liberia: 'Liberia',
+  Libya: 'Libia',
+  Liechtenstein: 'Liechtenstein',
+  Lithuania: 'Lituania',
+  Luxembourg: 'Lussemburgo',
+  Macau: 'Macao',
+  Madagascar: 'Madagascar',
+  Malawi: 'Malawi',
+  Malaysia: 'Malaysia',
+  Maldives: 'Maldive',
+  Mali: 'Mali',
+  Malta: 'Malta',
+  'Man (Isle of)': 'Isola di Man',
+  'Marshall Islands': 'Isole Marshall',
+  Martinique: 'Martinica',
+  Mauritania: 'Mauritania',
+  Mauritius: 'Mauritius',
+  Mayotte: 'Mayotte',
+  Mexico: 'Messico',
+  Micronesia: 'Micronesia',
+  Moldova: 'Moldavia',
+  Monaco: 'Monaco',
+  Mongolia: 'Mongolia',
+  Montenegro: 'Montenegro',
+  Montserrat: 'Montserrat',
+  Morocco: 'Marocco',
+  Mozambique: 'Mozambico',
+  Myanmar: 'Myanmar (Birmania)',
+  Namibia: 'Namibia',
+  Nauru: 'Nauru',
+  Nepal: 'Nepal',
+  Netherlands: 'Paesi Bassi',
+  'New Caledonia': 'Nuova Caledonia',
+  'New Zealand': 'Nuova Zelanda',
+  Nicaragua: 'Nicaragua',
+  Niger: 'Niger',
+  Nigeria: 'Nigeria',
+  Niue: 'Niue',
+  'Norfolk Island': 'Isola Norfolk',
+  'North Korea': 'Corea del Nord',
+  'North Macedonia': 'Macedonia del Nord',
+  'Northern Mariana Islands': 'Isole Marianne Settentrionali',
+  Norway: 'Norvegia',
+  Oman: 'Oman',
+  Pakistan: 'Pakistan',
+  Palau: 'Palau',
+  'Palestinian Territory Occupied': 'Palestina',
+  Panama: 'Panama',
+  'Papua new Guinea': 'Papua Nuova Guinea',
+  Paraguay: 'Paraguay',
+  Peru: 'Perù',
+  Philippines: 'Filippine',
+  'Pitcairn Island': 'Isole Pitcairn',
+  Poland: 'Polonia',
+  Portugal: 'Portogallo',
+  'Puerto Rico': 'Portorico',
+  Qatar: 'Qatar',
+  Reunion: 'Riunione',
+  Romania: 'Romania',
+  Russia: 'Russia',
+  Rwanda: 'Ruanda',
+  'Saint Helena': "Sant'Elena",
+  'Saint Kitts And Nevis': 'Saint Kitts e Nevis',
+  'Saint Lucia': 'Saint Lucia',
+  'Saint Pierre and Miquelon': 'Saint-Pierre e Miquelon',
+  'Saint Vincent And The Grenadines': 'Saint Vincent e Grenadine',
+  'Saint-Barthelemy': 'Saint-Barthélemy',
+  'Saint-Martin (French part)': 'Saint Martin',
+  Samoa: 'Samoa',
+  'San Marino': 'San Marino',
+  'Sao Tome and Principe': 'São Tomé e Príncipe',
+  'Saudi Arabia': 'Arabia Saudita',
+  Senegal: 'Senegal',
+  Serbia: 'Serbia',
+  Seychelles: 'Seychelles',
+  'Sierra Leone': 'Sierra Leone',
+  Singapore: 'Singapore',
+  'Sint Maarten (Dutch part)': 'Sint Maarten',
+  Slovakia: 'Slovacchia',
+  Slovenia: 'Slovenia',
+  'Solomon Islands': 'Isole Salomone',
+  Somalia: 'Somalia',
+  'South Africa': 'Sudafrica',
+  'South Georgia': 'Georgia del Sud e Sandwich Australi',
+  'South Korea': 'Corea del Sud',
+  'South Sudan': 'Sud Sudan',
+  Spain: 'Spagna',
+  'Sri Lanka': 'Sri Lanka',
+  Sudan: 'Sudan',
+  Suriname: 'Suriname',
+  'Svalbard And Jan Mayen Islands': 'Svalbard e Jan Mayen',
+  Swaziland: 'Eswatini',
+  Sweden: 'Svezia',
+  Switzerland: 'Svizzera',
+  Syria: 'Siria',
+  Taiwan: 'Taiwan',
+  Tajikistan: 'Tagikistan',
+  Tanzania: 'Tanzania',
+  Thailand: 'Thailandia',
+  'The Bahamas': 'Bahamas',
+  Togo: 'Togo',
+  Tokelau: 'Tokelau',
+  Tonga: 'Tonga',
+  'Trinidad And Tobago': 'Trinidad e Tobago',
+  Tunisia: 'Tunisia',
+  Turkey: 'Turchia',
+  Turkmenistan: 'Turkmenistan',
+  'Turks And Caicos Islands': 'Isole Turks e Caicos',
+  Tuvalu: 'Tuvalu',
+  Uganda: 'Uganda',
+  Ukraine: 'Ucraina',
+  'United Arab Emirates': 'Emirati Arabi Uniti',
+  'United Kingdom': 'Regno Unito',
+  'United States': 'Stati Uniti',
+  'United States Minor Outlying Islands':
+    'Isole Minori Esterne degli Stati Uniti',
+  Uruguay: 'Uruguay',
+  Uzbekistan: 'Uzbekistan',
+  Vanuatu: 'Vanuatu',
+  'Vatican City State (Holy See)': 'Città del Vaticano',
+  Venezuela: 'Venezuela',
+  Vietnam: 'Vietnam',
+  'Virgin Islands (British)': 'Isole Vergini Britanniche',
+  'Virgin Islands (US)': 'Isole Vergini Americane',
+  'Wallis And Futuna Islands': 'Wallis e Futuna',
+  'Western Sahara': 'Sahara Occidentale',
+  Yemen: 'Yemen',
+  Zambia: 'Zambia',
+  Zimbabwe: 'Zimbabwe',
+}
+
+/**
+ * Represents all possible countries & regions with their corresponding
+ * Korean names.
+ */
+export const KoreanCountryNames: Record<Country, string> = {
+  Afghanistan: '아프가니스탄',
+  'Aland Islands': '올란드 제도',
+  Albania: '알바니아',
+  Algeria: '알제리',
+  'American Samoa': '아메리칸 사모아',
+  Andorra: '안도라',
+  Angola: '앙골라',
+  Anguilla: '앵귈라',
+  Antarctica: '남극 대륙',
+  'Antigua And Barbuda': '앤티가 바부다',
+  Argentina: '아르헨티나',
+  Armenia: '아르메니아',
+  Aruba: '아루바',
+  Australia: '오스트레일리아',
+  Austria: '오스트리아',
+  Azerbaijan: '아제르바이잔',
+  Bahrain: '바레인',
+  Bangladesh: '방글라데시',
+  Barbados: '바베이도스',
+  Belarus: '벨라루스',
+  Belgium: '벨기에',
+  Belize: '벨리즈',
+  Benin: '베냉',
+  Bermuda: '버뮤다',
+  Bhutan: '부탄',
+  Bolivia: '볼리비아',
+  'Bonaire, Sint Eustatius and Saba': '네덜란드령 카리브',
+  'Bosnia and Herzegovina': '보스니아 헤르체고비나',
+  Botswana: '보츠와나',
+  'Bouvet Island': '부베섬',
+  Brazil: '브라질',
+  'British Indian Ocean Territory': '영국령 인도양 지역',
+  Brunei: '브루나이',
+  Bulgaria: '불가리아',
+  'Burkina Faso': '부르키나파소',
+  Burundi: '부룬디',
+  Cambodia: '캄보디아',
+  Cameroon: '카메룬',
+  Canada: '캐나다',
+  'Cape Verde': '카보베르데',
+  'Cayman Islands': '케이맨 제도',
+  'Central African Republic': '중앙 아프리카 공화국',
+  Chad: '차드',
+  Chile: '칠레',
+  China: '중국',
+  'Christmas Island': '크리스마스섬',
+  'Cocos (Keeling) Islands': '코코스 제도',
+  Colombia: '콜롬비아',
+  Comoros: '코모로',
+  Congo: '콩고-브라자빌',
+  'Cook Islands': '쿡 제도',
+  'Costa Rica': '코스타리카',
+  "Cote D'Ivoire (Ivory Coast)": '코트디부아르',
+  Croatia: '크로아티아',
+  Cuba: '쿠바',
+  Curaçao: '퀴라소',
+  Cyprus: '키프로스',
+  'Czech Republic': '체코',
+  'Democratic Republic of the Congo': '콩고-킨샤사',
+  Denmark: '덴마크',
+  Djibouti: '지부티',
+  Dominica: '도미니카',
+  'Dominican Republic': '도미니카 공화국',
+  'East Timor': '동티모르',
+  Ecuador: '에콰도르',
+  Egypt: '이집트',
+  'El Salvador': '엘살바도르',
+  'Equatorial Guinea': '적도 기니',
+  Eritrea: '에리트리아',
+  Estonia: '에스토니아',
+  Ethiopia: '에티오피아',
+  'Falkland Islands': '포클랜드 제도',
+  'Faroe Islands': '페로 제도',
+  'Fiji Islands': '피지',
+  Finland: '핀란드',
+  France: '프랑스',
+  'French Guiana': '프랑스령 기아나',
+  'French Polynesia': '프랑스령 폴리네시아',
+  'French Southern Territories': '프랑스령 남방 지역',
+  Gabon: '가봉',
+  'Gambia The': '감비아',
+  Georgia: '조지아',
+  Germany: '독일',
+  Ghana: '가나',
+  Gibraltar: '지브롤터',
+  Greece: '그리스',
+  Greenland: '그린란드',
+  Grenada: '그레나다',
+  Guadeloupe: '과들루프',
+  Guam: '괌',
+  Guatemala: '과테말라',
+  'Guernsey and Alderney': '건지',
+  Guinea: '기니',
+  'Guinea-Bissau': '기니비사우',
+  Guyana: '가이아나',
+  Haiti: '아이티',
+  'Heard Island and McDonald Islands': '허드 맥도널드 제도',
+  Honduras: '온두라스',
+  'Hong Kong': '홍콩',
+  Hungary: '헝가리',
+  Iceland: '아이슬란드',
+  India: '인도',
+  Indonesia: '인도네시아',
+  Iran: '이란',
+  Iraq: '이라크',
+  Ireland: '아일랜드',
+  Israel: '이스라엘',
+  Italy: '이탈리아',
+  Jamaica: '자메이카',
+  Japan: '일본',
+  Jersey: '저지',
+  Jordan: '요르단',
+  Kazakhstan: '카자흐스탄',
+  Kenya: '케냐',
+  Kiribati: '키리바시',
+  Kosovo: '코소보',
+  Kuwait: '쿠웨이트',
+  Kyrgyzstan: '키르기스스탄',
+  Laos: '라오스',
+  Latvia: '라트비아',
+  Lebanon: '레바논',
+  Lesotho: '레소토',
+  Liberia: '라이베리아',
+  Libya: '리비아',
+  Liechtenstein: '리히텐슈타인',
+  Lithuania: '리투아니아',
+  Luxembourg: '룩셈부르크',
+  Macau: '마카오',
+  Madagascar: '마다가스카르',
+  Malawi: '말라위',
+  Malaysia: '말레이시아',
+  Maldives: '몰디브',
+  Mali: '말리',
+  Malta: '몰타',
+  'Man (Isle of)': '맨섬',
+  'Marshall Islands': '마셜 제도',
+  Martinique: '마르티니크',
+  Mauritania: '모리타니',
+  Mauritius: '모리셔스',
+  Mayotte: '마요트',
+  Mexico: '멕시코',
+  Micronesia: '미크로네시아',
+  Moldova: '몰도바',
+  Monaco: '모나코',
+  Mongolia: '몽골',
+  Montenegro: '몬테네그로',
+  Montserrat: '몬트세라트',
+  Morocco: '모로코',
+  Mozambique: '모잠비크',
+  Myanmar: '미얀마',
+  Namibia: '나미비아',
+  Nauru: '나우루',
+  Nepal: '네팔',
+  Netherlands: '네덜란드',
+  'New Caledonia': '뉴칼레도니아',
+  'New Zealand': '뉴질랜드',
+  Nicaragua: '니카라과',
+  Niger: '니제르',
+  Nigeria: '나이지리아',
+  Niue: '니우에',
+  'Norfolk Island': '노퍽섬',
+  'North Korea': '북한',
+  'North Macedonia': '북마케도니아',
+  'Northern Mariana Islands': '북마리아나제도',
+  Norway: '노르웨이',
+  Oman: '오만',
+  Pakistan: '파키스탄',
+  Palau: '팔라우',
+  'Palestinian Territory Occupied': '팔레스타인',
+  Panama: '파나마',
+  'Papua new Guinea': '파푸아뉴기니',
+  Paraguay: '파라과이',
+  Peru: '페루',
+  Philippines: '필리핀',
+  'Pitcairn Island': '핏케언 제도',
+  Poland: '폴란드',
+  Portugal: '포르투갈',
+  'Puerto Rico': '푸에르토리코',
+  Qatar: '카타르',
+  Reunion: '레위니옹',
+  Romania: '루마니아',
+  Russia: '러시아',
+  Rwanda: '르완다',
+  'Saint Helena': '세인트헬레나',
+  'Saint Kitts And Nevis': '세인트키츠 네비스',
+  'Saint Lucia': '세인트루시아',
+  'Saint Pierre and Miquelon': '생피에르 미클롱',
+  'Saint Vincent And The Grenadines': '세인트빈센트그레나딘',
+  'Saint-Barthelemy': '생바르텔레미',
+  'Saint-Martin (French part)': '생마르탱',
+  Samoa: '사모아',
+  'San Marino': '산마리노',
+  'Sao Tome and Principe': '상투메 프린시페',
+  'Saudi Arabia': '사우디아라비아',
+  Senegal: '세네갈',
+  Serbia: '세르비아',
+  Seychelles: '세이셸',
+  'Sierra Leone': '시에라리온',
+  Singapore: '싱가포르',
+  'Sint Maarten (Dutch part)': '신트마르턴',
+  Slovakia: '슬로바키아',
+  Slovenia: '슬로베니아',
+  'Solomon Islands': '솔로몬 제도',
+  Somalia: '소말리아',
+  'South Africa': '남아프리카',
+  'South Georgia': '사우스조지아 사우스샌드위치 제도',
+  'South Korea': '대한민국',
+  'South Sudan': '남수단',
+  Spain: '스페인',
+  'Sri Lanka': '스리랑카',
+  Sudan: '수단',
+  Suriname: '수리남',
+  'Svalbard And Jan Mayen Islands': '스발바르제도-얀마웬섬',
+  Swaziland: '에스와티니',
+  Sweden: '스웨덴',
+  Switzerland: '스위스',
+  Syria: '시리아',
+  Taiwan: '대만',
+  Tajikistan: '타지키스탄',
+  Tanzania: '탄자니아',
+  Thailand: '태국',
+  'The Bahamas': '바하마',
+  Togo: '토고',
+  Tokelau: '토켈라우',
+  Tonga: '통가',
+  'Trinidad And Tobago': '트리니다드 토바고',
+  Tunisia: '튀니지',
+  Turkey: '튀르키예',
+  Turkmenistan: '투르크메니스탄',
+  'Turks And Caicos Islands': '터크스 케이커스 제도',
+  Tuvalu: '투발루',
+  Uganda: '우간다',
+  Ukraine: '우크라이나',
+  'United Arab Emirates': '아랍에미리트',
+  'United Kingdom': '영국',
+  'United States': '미국',
+  'United States Minor Outlying Islands': '미국령 해외 제도',
+  Uruguay: '우루과이',
+  Uzbekistan: '우즈베키스탄',
+  Vanuatu: '바누아투',
+  'Vatican City State (Holy See)': '바티칸 시국',
+  Venezuela: '베네수엘라',
+  Vietnam: '베트남',
+  'Virgin Islands (British)': '영국령 버진아일랜드',
+  'Virgin Islands (US)': '미국령 버진아일랜드',
+  'Wallis And Futuna Islands': '왈리스-푸투나 제도',
+  'Western Sahara': '서사하라',
+  Yemen: '예멘',
+  Zambia: '잠비아',
+  Zimbabwe: '짐바브웨',
+}
+
+/**
+ * Represents all possible countries & regions with their corresponding
+ * Arabic names.
+ */
+export const ArabicCountryNames: Record<Country, string> = {
+  Afghanistan: 'أفغانستان',
+  'Aland Islands': 'جزر آلاند',
+  Albania: 'ألبانيا',
+  Algeria: 'الجزائر',
+  'American Samoa': 'ساموا الأمريكية',
+  Andorra: 'أندورا',
+  Angola: 'أنغولا',
+  Anguilla: 'أنغويلا',
+  Antarctica: 'أنتاركتيكا',
+  'Antigua And Barbuda': 'أنتيغوا وبربودا',
+  Argentina: 'الأرجنتين',
+  Armenia: 'أرمينيا',
+  Aruba: 'أروبا',
+  Australia: 'أستراليا',
+  Austria: 'النمسا',
+  Azerbaijan: 'أذربيجان',
+  Bahrain: 'البحرين',
+  Bangladesh: 'بنغلاديش',
+  Barbados: 'بربادوس',
+  Belarus: 'بيلاروس',
+  Belgium: 'بلجيكا',
+  Belize: 'بليز',
+  Benin: 'بنين',
+  Bermuda: 'برمودا',
+  Bhutan: 'بوتان',
+  Bolivia: 'بوليفيا',
+  'Bonaire, Sint Eustatius and Saba': 'هولندا الكاريبية',
+  'Bosnia and Herzegovina': 'البوسنة والهرسك',
+  Botswana: 'بوتسوانا',
+  'Bouvet Island': 'جزيرة بوفيه',
+  Brazil: 'البرازيل',
+  'British Indian Ocean Territory': 'الإقليم البريطاني في المحيط الهندي',
+  Brunei: 'بروناي',
+  Bulgaria: 'بلغاريا',
+  'Burkina Faso': 'بوركينا فاسو',
+  Burundi: 'بوروندي',
+  Cambodia: 'كمبوديا',
+  Cameroon: 'الكاميرون',
+  Canada: 'كندا',
+  'Cape Verde': 'الرأس الأخضر',
+  'Cayman Islands': 'جزر كايمان',
+  'Central African Republic': 'جمهورية أفريقيا الوسطى',
+  Chad: 'تشاد',
+  Chile: 'تشيلي',
+  China: 'الصين',
+  'Christmas Island': 'جزيرة كريسماس',
+  'Cocos (Keeling) Islands': 'جزر كوكوس (كيلينغ)',
+  Colombia: 'كولومبيا',
+  Comoros: 'جزر القمر',
+  Congo: 'الكونغو - برازافيل',
+  'Cook Islands': 'جزر كوك',
+  'Costa Rica': 'كوستاريكا',
+  "Cote D'Ivoire (Ivory Coast)": 'ساحل العاج',
+  Croatia: 'كرواتيا',
+  Cuba: 'كوبا',
+  Curaçao: 'كوراساو',
+  Cyprus: 'قبرص',
+  'Czech Republic': 'التشيك',
+  'Democratic Republic of the Congo': 'الكونغو - كينشاسا',
+  Denmark: 'الدانمرك',
+  Djibouti: 'جيبوتي',
+  Dominica: 'دومينيكا',
+  'Dominican Republic': 'جمهورية الدومينيكان',
+  'East Timor': 'تيمور - ليشتي',
+  Ecuador: 'الإكوادور',
+  Egypt: 'مصر',
+  'El Salvador': 'السلفادور',
+  'Equatorial Guinea': 'غينيا الاستوائية',
+  Eritrea: 'إريتريا',
+  Estonia: 'إستونيا',
+  Ethiopia: 'إثيوبيا',
+  'Falkland Islands': 'جزر فوكلاند',
+  'Faroe Islands': 'جزر فارو',
+  'Fiji Islands': 'فيجي',
+  Finland: 'فنلندا',
+  France: 'فرنسا',
+  'French Guiana': 'غويانا الفرنسية',
+  'French Polynesia': 'بولينيزيا الفرنسية',
+  'French Southern Territories': 'الأقاليم الجنوبية الفرنسية',
+  Gabon: 'الغابون',
+  'Gambia The': 'غامبيا',
+  Georgia: 'جورجيا',
+  Germany: 'ألمانيا',
+  Ghana: 'غانا',
+  Gibraltar: 'جبل طارق',
+  Greece: 'اليونان',
+  Greenland: 'غرينلاند',
+  Grenada: 'غرينادا',
+  Guadeloupe: 'غوادلوب',
+  Guam: 'غوام',
+  Guatemala: 'غواتيمالا',
+  'Guernsey and Alderney': 'غيرنزي',
+  Guinea: 'غينيا',
+  'Guinea-Bissau': 'غينيا بيساو',
+  Guyana: 'غيانا',
+  Haiti: 'هايتي',
+  'Heard Island and McDonald Islands': 'جزيرة هيرد وجزر ماكدونالد',
+  Honduras: 'هندوراس',
+  'Hong Kong': 'هونغ كونغ',
+  Hungary: 'هنغاريا',
+  Iceland: 'آيسلندا',
+  India: 'الهند',
+  Indonesia: 'إندونيسيا',
+  Iran: 'إيران',
+  Iraq: 'العراق',
+  Ireland: 'أيرلندا',
+  Israel: 'إسرائيل',
+  Italy: 'إيطاليا',
+  Jamaica: 'جامايكا',
+  Japan: 'اليابان',
+  Jersey: 'جيرسي',
+  Jordan: 'الأردن',
+  Kazakhstan: 'كازاخستان',
+  Kenya: 'كينيا',
+  Kiribati: 'كيريباتي',
+  Kosovo: 'كوسوفو',
+  Kuwait: 'الكويت',
+  Kyrgyzstan: 'قيرغيزستان',
+  Laos: 'لاوس',
+  Latvia: 'لاتفيا',
+  Lebanon: 'لبنان',
+  Lesotho: 'ليسوتو',
+  Liberia: 'ليبيريا',
+  Libya: 'ليبيا',
+  Liechtenstein: 'ليختنشتاين',
+  Lithuania: 'ليتوانيا',
+  Luxembourg: 'لوكسمبورغ',
+  Macau: 'مكاو',
+  Madagascar: 'مدغشقر',
+  Malawi: 'ملاوي',
+  Malaysia: 'ماليزيا',
+  Maldives: 'جزر المالديف',
+  Mali: 'مالي',
+  Malta: 'مالطا',
+  'Man (Isle of)': 'جزيرة مان',
+  'Marshall Islands': 'جزر مارشال',
+  Martinique: 'جزر المارتينيك',
+  Mauritania: 'موريتانيا',
+  Mauritius: 'موريشيوس',
+  Mayotte: 'مايوت',
+  Mexico: 'المكسيك',
+  Micronesia: 'ميكرونيزيا',
+  Moldova: 'مولدوفا',
+  Monaco: 'موناكو',
+  Mongolia: 'منغوليا',
+  Montenegro: 'الجبل الأسود',
+  Montserrat: 'مونتسرات',
+  Morocco: 'المغرب',
+  Mozambique: 'موزمبيق',
+  Myanmar: 'ميانمار (بورما)',
+  Namibia: 'ناميبيا',
+  Nauru: 'ناورو',
+  Nepal: 'نيبال',
+  Netherlands: 'هولندا',
+  'New Caledonia': 'كاليدونيا الجديدة',
+  'New Zealand': 'نيوزيلندا',
+  Nicaragua: 'نيكاراغوا',
+  Niger: 'النيجر',
+  Nigeria: 'نيجيريا',
+  Niue: 'نيوي',
+  'Norfolk Island': 'جزيرة نورفولك',
+  'North Korea': 'كوريا الشمالية',
+  'North Macedonia': 'مقدونيا الشمالية',
+  'Northern Mariana Islands': 'جزر ماريانا الشمالية',
+  Norway: 'النرويج',
+  Oman: 'عُمان',
+  Pakistan: 'باكستان',
+  Palau: 'بالاو',
+  'Palestinian Territory Occupied': 'فلسطين',
+  Panama: 'بنما',
+  'Papua new Guinea': 'بابوا غينيا الجديدة',
+  Paraguay: 'باراغواي',
+  Peru: 'بيرو',
+  Philippines: 'الفلبين',
+  'Pitcairn Island': 'جزر بيتكيرن',
+  Poland: 'بولندا',
+  Portugal: 'البرتغال',
+  'Puerto Rico': 'بورتوريكو',
+  Qatar: 'قطر',
+  Reunion: 'روينيون',
+  Romania: 'رومانيا',
+  Russia: 'روسيا',
+  Rwanda: 'رواندا',
+  'Saint Helena': 'سانت هيلينا',
+  'Saint Kitts And Nevis': 'سانت كيتس ونيفيس',
+  'Saint Lucia': 'سانت لوسيا',
+  'Saint Pierre and Miquelon': 'سان بيير ومكويلون',
+  'Saint Vincent And The Grenadines': 'سانت فنسنت وجزر غرينادين',
+  'Saint-Barthelemy': 'سان بارتليمي',
+  'Saint-Martin (French part)': 'سان مارتن',
+  Samoa: 'ساموا',
+  'San Marino': 'سان مارينو',
+  'Sao Tome and Principe': 'ساو تومي وبرينسيبي',
+  'Saudi Arabia': 'المملكة العربية السعودية',
+  Senegal: 'السنغال',
+  Serbia: 'صربيا',
+  Seychelles: 'سيشل',
+  'Sierra Leone': 'سيراليون',
+  Singapore: 'سنغافورة',
+  'Sint Maarten (Dutch part)': 'سانت مارتن',
+  Slovakia: 'سلوفاكيا',
+  Slovenia: 'سلوفينيا',
+  'Solomon Islands': 'جزر سليمان',
+  Somalia: 'الصومال',
+  'South Africa': 'جنوب أفريقيا',
+  'South Georgia': 'جورجيا الجنوبية وجزر ساندويتش الجنوبية',
+  'South Korea': 'كوريا الجنوبية',
+  'South Sudan': 'جنوب السودان',
+  Spain: 'إسبانيا',
+  'Sri Lanka': 'سريلانكا',
+  Sudan: 'السودان',
+  Suriname: 'سورينام',
+  'Svalbard And Jan Mayen Islands': 'سفالبارد وجان ماين',
+  Swaziland: 'إسواتيني',
+  Sweden: 'السويد',
+  Switzerland: 'سويسرا',
+  Syria: 'سوريا',
+  Taiwan: 'تايوان',
+  Tajikistan: 'طاجيكستان',
+  Tanzania: 'تنزانيا',
+  Thailand: 'تايلاند',
+  'The Bahamas': 'جزر البهاما',
+  Togo: 'توغو',
+  Tokelau: 'توكيلاو',
+  Tonga: 'تونغا',
+  'Trinidad And Tobago': 'ترينيداد وتوباغو',
+  Tunisia: 'تونس',
+  Turkey: 'تركيا',
+  Turkmenistan: 'تركمانستان',
+  'Turks And Caicos Islands': 'جزر توركس وكايكوس',
+  Tuvalu: 'توفالو',
+  Uganda: 'أوغندا',
+  Ukraine: 'أوكرانيا',
+  'United Arab Emirates': 'الإمارات العربية المتحدة',
+  'United Kingdom': 'المملكة المتحدة',
+  'United States': 'الولايات المتحدة',
+  'United States Minor Outlying Islands': 'جزر الولايات المتحدة النائية',
+  Uruguay: 'أورغواي',
+  Uzbekistan: 'أوزبكستان',
+  Vanuatu: 'فانواتو',
+  'Vatican City State (Holy See)': 'الفاتيكان',
+  Venezuela: 'فنزويلا',
+  Vietnam: 'فيتنام',
+  'Virgin Islands (British)': 'جزر فيرجن البريطانية',
+  'Virgin Islands (US)': 'جزر فيرجن الأمريكية',
+  'Wallis And Futuna Islands': 'جزر والس وفوتونا',
+  'Western Sahara': 'الصحراء الغربية',
+  Yemen: 'اليمن',
+  Zambia: 'زامبيا',
+  Zimbabwe: 'زيمبابوي',
+}
+
+/**
+ * Represents all possible countries & regions with their corresponding
+ * Hebrew names.
+ */
+export const HebrewCountryNames: Record<Country, string> = {
+  Afghanistan: 'אפגניסטן',
+  'Aland Islands': 'איי אולנד',
+  Albania: 'אלבניה',
+  Algeria: 'אלג׳יריה',
+  'American Samoa': 'סמואה האמריקנית',
+  Andorra: 'אנדורה',
+  Angola: 'אנגולה',
+  Anguilla: 'אנגווילה',
+  Antarctica: 'אנטארקטיקה',
+  'Antigua And Barbuda': 'אנטיגואה וברבודה',
+  Argentina: 'ארגנטינה',
+  Armenia: 'ארמניה',
+  Aruba: 'ארובה',
+  Australia: 'אוסטרליה',
+  Austria: 'אוסטריה',
+  Azerbaijan: 'אזרבייג׳ן',
+  Bahrain: 'בחריין',
+  Bangladesh: 'בנגלדש',
+  Barbados: 'ברבדוס',
+  Belarus: 'בלארוס',
+  Belgium: 'בלגיה',
+  Belize: 'בליז',
+  Benin: 'בנין',
+  Bermuda: 'ברמודה',
+  Bhutan: 'בהוטן',
+  Bolivia: 'בוליביה',
+  'Bonaire, Sint Eustatius and Saba': 'האיים הקריביים ההולנדיים',
+  'Bosnia and Herzegovina': 'בוסניה והרצגובינה',
+  Botswana: 'בוטסואנה',
+  'Bouvet Island': 'האי בובה',
+  Brazil: 'ברזיל',
+  'British Indian Ocean Territory': 'הטריטוריה הבריטית באוקיינוס ההודי',
+  Brunei: 'ברוניי',
+  Bulgaria: 'בולגריה',
+  'Burkina Faso': 'בורקינה פאסו',
+  Burundi: 'בורונדי',
+  Cambodia: 'קמבודיה',
+  Cameroon: 'קמרון',
+  Canada: 'קנדה',
+  'Cape Verde': 'כף ורדה',
+  'Cayman Islands': 'איי קיימן',
+  'Central African Republic': 'הרפובליקה המרכז-אפריקאית',
+  Chad: 'צ׳אד',
+  Chile: 'צ׳ילה',
+  China: 'סין',
+  'Christmas Island': 'אי חג המולד',
+  'Cocos (Keeling) Islands': 'איי קוקוס (קילינג)',
+  Colombia: 'קולומביה',
+  Comoros: 'קומורו',
+  Congo: 'קונגו - ברזאויל',
+  'Cook Islands': 'איי קוק',
+  'Costa Rica': 'קוסטה ריקה',
+  "Cote D'Ivoire (Ivory Coast)": 'חוף השנהב',
+  Croatia: 'קרואטיה',
+  Cuba: 'קובה',
+  Curaçao: 'קוראסאו',
+  Cyprus: 'קפריסין',
+  'Czech Republic': 'צ׳כיה',
+  'Democratic Republic of the Congo': 'קונגו - קינשאסה',
+  Denmark: 'דנמרק',
+  Djibouti: 'ג׳יבוטי',
+  Dominica: 'דומיניקה',
+  'Dominican Republic': 'הרפובליקה הדומיניקנית',
+  'East Timor': 'טימור-לסטה',
+  Ecuador: 'אקוודור',
+  Egypt: 'מצרים',
+  'El Salvador': 'אל סלבדור',
+  'Equatorial Guinea': 'גינאה המשוונית',
+  Eritrea: 'אריתריאה',
+  Estonia: 'אסטוניה',
+  Ethiopia: 'אתיופיה',
+  'Falkland Islands': 'איי פוקלנד',
+  'Faroe Islands': 'איי פארו',
+  'Fiji Islands': 'פיג׳י',
+  Finland: 'פינלנד',
+  France: 'צרפת',
+  'French Guiana': 'גיאנה הצרפתית',
+  'French Polynesia': 'פולינזיה הצרפתית',
+  'French Southern Territories': 'הטריטוריות הדרומיות של צרפת',
+  Gabon: 'גבון',
+  'Gambia The': 'גמביה',
+  Georgia: 'גאורגיה',
+  Germany: 'גרמניה',
+  Ghana: 'גאנה',
+  Gibraltar: 'גיברלטר',
+  Greece: 'יוון',
+  Greenland: 'גרינלנד',
+  Grenada: 'גרנדה',
+  Guadeloupe: 'גוואדלופ',
+  Guam: 'גואם',
+  Guatemala: 'גואטמלה',
+  'Guernsey and Alderney': 'גרנזי',
+  Guinea: 'גינאה',
+  'Guinea-Bissau': 'גינאה-ביסאו',
+  Guyana: 'גיאנה',
+  Haiti: 'האיטי',
+  'Heard Island and McDonald Islands': 'איי הרד ומקדונלד',
+  Honduras: 'הונדורס',
+  'Hong Kong': 'הונג קונג',
+  Hungary: 'הונגריה',
+  Iceland: 'איסלנד',
+  India: 'הודו',
+  Indonesia: 'אינדונזיה',
+  Iran: 'איראן',
+  Iraq: 'עיראק',
+  Ireland: 'אירלנד',
+  Israel: 'ישראל',
+  Italy: 'איטליה',
+  Jamaica: 'ג׳מייקה',
+  Japan: 'יפן',
+  Jersey: 'ג׳רזי',
+  Jordan: 'ירדן',
+  Kazakhstan: 'קזחסטן',
+  Kenya: 'קניה',
+  Kiribati: 'קיריבאטי',
+  Kosovo: 'קוסובו',
+  Kuwait: 'כווית',
+  Kyrgyzstan: 'קירגיזסטן',
+  Laos: 'לאוס',
+  Latvia: 'לטביה',
+  Lebanon: 'לבנון',
+  Lesotho: 'לסוטו',
+  Liberia: 'ליבריה',
+  Libya: 'לוב',
+  Liechtenstein: 'ליכטנשטיין',
+  Lithuania: 'ליטא',
+  Luxembourg: 'לוקסמבורג',
+  Macau: 'מקאו',
+  Madagascar: 'מדגסקר',
+  Malawi: 'מלאווי',
+  Malaysia: 'מלזיה',
+  Maldives: 'האיים המלדיביים',
+  Mali: 'מאלי',
+  Malta: 'מלטה',
+  'Man (Isle of)': 'האי מאן',
+  'Marshall Islands': 'איי מרשל',
+  Martinique: 'מרטיניק',
+  Mauritania: 'מאוריטניה',
+  Mauritius: 'מאוריציוס',
+  Mayotte: 'מאיוט',
+  Mexico: 'מקסיקו',
+  Micronesia: 'מיקרונזיה',
+  Moldova: 'מולדובה',
+  Monaco: 'מונקו',
+  Mongolia: 'מונגוליה',
+  Montenegro: 'מונטנגרו',
+  Montserrat: 'מונסראט',
+  Morocco: 'מרוקו',
+  Mozambique: 'מוזמביק',
+  Myanmar: 'מיאנמר (בורמה)',
+  Namibia: 'נמיביה',
+  Nauru: 'נאורו',
+  Nepal: 'נפאל',
+  Netherlands: 'הולנד',
+  'New Caledonia': 'קלדוניה החדשה',
+  'New Zealand': 'ניו זילנד',
+  Nicaragua: 'ניקרגואה',
+  Niger: 'ניז׳ר',
+  Nigeria: 'ניגריה',
+  Niue: 'ניווה',
+  'Norfolk Island': 'האי נורפוק',
+  'North Korea': 'קוריאה הצפונית',
+  'North Macedonia': 'מקדוניה הצפונית',
+  'Northern Mariana Islands': 'איי מריאנה הצפוניים',
+  Norway: 'נורווגיה',
+  Oman: 'עומאן',
+  Pakistan: 'פקיסטן',
+  Palau: 'פלאו',
+  'Palestinian Territory Occupied': 'פלסטין',
+  Panama: 'פנמה',
+  'Papua new Guinea': 'פפואה גינאה החדשה',
+  Paraguay: 'פרגוואי',
+  Peru: 'פרו',
+  Philippines: 'הפיליפינים',
+  'Pitcairn Island': 'איי פיטקרן',
+  Poland: 'פולין',
+  Portugal: 'פורטוגל',
+  'Puerto Rico': 'פוארטו ריקו',
+  Qatar: 'קטאר',
+  Reunion: 'ראוניון',
+  Romania: 'רומניה',
+  Russia: 'רוסיה',
+  Rwanda: 'רואנדה',
+  'Saint Helena': 'סנט הלנה',
+  'Saint Kitts And Nevis': 'סנט קיטס ונוויס',
+  'Saint Lucia': 'סנט לוסיה',
+  'Saint Pierre and Miquelon': 'סנט פייר ומיקלון',
+  'Saint Vincent And The Grenadines': 'סנט וינסנט והגרנדינים',
+  'Saint-Barthelemy': 'סנט ברתולומיאו',
+  'Saint-Martin (French part)': 'סן מרטן',
+  Samoa: 'סמואה',
+  'San Marino': 'סן מרינו',
+  'Sao Tome and Principe': 'סאו טומה ופרינסיפה',
+  'Saudi Arabia': 'ערב הסעודית',
+  Senegal: 'סנגל',
+  Serbia: 'סרביה',
+  Seychelles: 'איי סיישל',
+  'Sierra Leone': 'סיירה לאון',
+  Singapore: 'סינגפור',
+  'Sint Maarten (Dutch part)': 'סנט מארטן',
+  Slovakia: 'סלובקיה',
+  Slovenia: 'סלובניה',
+  'Solomon Islands': 'איי שלמה',
+  Somalia: 'סומליה',
+  'South Africa': 'דרום אפריקה',
+  'South Georgia': 'ג׳ורג׳יה הדרומית ואיי סנדוויץ׳ הדרומיים',
+  'South Korea': 'קוריאה הדרומית',
+  'South Sudan': 'דרום סודן',
+  Spain: 'ספרד',
+  'Sri Lanka': 'סרי לנקה',
+  Sudan: 'סודן',
+  Suriname: 'סורינאם',
+  'Svalbard And Jan Mayen Islands': 'סבאלברד ויאן מאיין',
+  Swaziland: 'אסוואטיני',
+  Sweden: 'שוודיה',
+  Switzerland: 'שווייץ',
+  Syria: 'סוריה',
+  Taiwan: 'טייוואן',
+  Tajikistan: 'טג׳יקיסטן',
+  Tanzania: 'טנזניה',
+  Thailand: 'תאילנד',
+  'The Bahamas': 'איי בהאמה',
+  Togo: 'טוגו',
+  Tokelau: 'טוקלאו',
+  Tonga: 'טונגה',
+  'Trinidad And Tobago': 'טרינידד וטובגו',
+  Tunisia: 'תוניסיה',
+  Turkey: 'טורקיה',
+  Turkmenistan: 'טורקמניסטן',
+  'Turks And Caicos Islands': 'איי טרקס וקייקוס',
+  Tuvalu: 'טובאלו',
+  Uganda: 'אוגנדה',
+  Ukraine: 'אוקראינה',
+  'United Arab Emirates': 'איחוד האמירויות הערביות',
+  'United Kingdom': 'בריטניה',
+  'United States': 'ארצות הברית',
+  'United States Minor Outlying Islands': 'האיים המרוחקים הקטנים של ארה״ב',
+  Uruguay: 'אורוגוואי',
+  Uzbekistan: 'אוזבקיסטן',
+  Vanuatu: 'ונואטו',
+  'Vatican City State (Holy See)': 'הוותיקן',
+  Venezuela: 'ונצואלה',
+  Vietnam: 'וייטנאם',
+  'Virgin Islands (British)': 'איי הבתולה הבריטיים',
+  'Virgin Islands (US)': 'איי הבתולה של ארצות הברית',
+  'Wallis And Futuna Islands': 'איי ווליס ופוטונה',
+  'Western Sahara': 'סהרה המערבית',
+  Yemen: 'תימן',
+  Zambia: 'זמביה',
+  Zimbabwe: 'זימבבואה',
+}
+
+/**
+ * Represents all possible countries & regions with their corresponding
+ * Farsi names.
+ */
+export const FarsiCountryNames: Record<Country, string> = {
+  Afghanistan: 'افغانستان',
+  'Aland Islands': 'جزایر آلاند',
+  Albania: 'آلبانی',
+  Algeria: 'الجزایر',
+  'American Samoa': 'ساموآی امریکا',
+  Andorra: 'آندورا',
+  Angola: 'آنگولا',
+  Anguilla: 'آنگویلا',
+  Antarctica: 'جنوبگان',
+  'Antigua And Barbuda': 'آنتیگوا و باربودا',
+  Argentina: 'آرژانتین',
+  Armenia: 'ارمنستان',
+  Aruba: 'آروبا',
+  Australia: 'استرالیا',
+  Austria: 'اتریش',
+  Azerbaijan: 'جمهوری آذربایجان',
+  Bahrain: 'بحرین',
+  Bangladesh: 'بنگلادش',
+  Barbados: 'باربادوس',
+  Belarus: 'بلاروس',
+  Belgium: 'بلژیک',
+  Belize: 'بلیز',
+  Benin: 'بنین',
+  Bermuda: 'برمودا',
+  Bhutan: 'بوتان',
+  Bolivia: 'بولیوی',
+  'Bonaire, Sint Eustatius and Saba': 'جزایر کارائیب هلند',
+  'Bosnia and Herzegovina': 'بوسنی و هرزگوین',
+  Botswana: 'بوتسوانا',
+  'Bouvet Island': 'جزیرهٔ بووه',
+  Brazil: 'برزیل',
+  'British Indian Ocean Territory': 'قلمرو بریتانیا در اقیانوس هند',
+  Brunei: 'برونئی',
+  Bulgaria: 'بلغارستان',
+  'Burkina Faso': 'بورکینافاسو',
+  Burundi: 'بوروندی',
+  Cambodia: 'کامبوج',
+  Cameroon: 'کامرون',
+  Canada: 'کانادا',
+  'Cape Verde': 'کیپ‌ورد',
+  'Cayman Islands': 'جزایر کِیمن',
+  'Central African Republic': 'جمهوری افریقای مرکزی',
+  Chad: 'چاد',
+  Chile: 'شیلی',
+  China: 'چین',
+  'Christmas Island': 'جزیرهٔ کریسمس',
+  'Cocos (Keeling) Islands': 'جزایر کوکوس',
+  Colombia: 'کلمبیا',
+  Comoros: 'کومور',
+  Congo: 'کنگو - برازویل',
+  'Cook Islands': 'جزایر کوک',
+  'Costa Rica': 'کاستاریکا',
+  "Cote D'Ivoire (Ivory Coast)": 'ساحل عاج',
+  Croatia: 'کرواسی',
+  Cuba: 'کوبا',
+  Curaçao: 'کوراسائو',
+  Cyprus: 'قبرس',
+  'Czech Republic': 'چک',
+  'Democratic Republic of the Congo': 'کنگو - کینشاسا',
+  Denmark: 'دانمارک',
+  Djibouti: 'جیبوتی',
+  Dominica: 'دومینیکا',
+  'Dominican Republic': 'جمهوری دومینیکن',
+  'East Timor': 'تیمور-لسته',
+  Ecuador: 'اکوادور',
+  Egypt: 'مصر',
+  'El Salvador': 'السالوادور',
+  'Equatorial Guinea': 'گینهٔ استوایی',
+  Eritrea: 'اریتره',
+  Estonia: 'استونی',
+  Ethiopia: 'اتیوپی',
+  'Falkland Islands': 'جزایر فالکلند',
+  'Faroe Islands': 'جزایر فارو',
+  'Fiji Islands': 'فیجی',
+  Finland: 'فنلاند',
+  France: 'فرانسه',
+  'French Guiana': 'گویان فرانسه',
+  'French Polynesia': 'پلی‌نزی فرانسه',
+  'French Southern Territories': 'سرزمین‌های جنوبی فرانسه',
+  Gabon: 'گابن',
+  'Gambia The': 'گامبیا',
+  Georgia: 'گرجستان',
+  Germany: 'آلمان',
+  Ghana: 'غنا',
+  Gibraltar: 'جبل‌الطارق',
+  Greece: 'یونان',
+  Greenland: 'گرینلند',
+  Grenada: 'گرنادا',
+  Guadeloupe: 'گوادلوپ',
+  Guam: 'گوام',
+  Guatemala: 'گواتمالا',
+  'Guernsey and Alderney': 'گرنزی',
+  Guinea: 'گینه',
+  'Guinea-Bissau': 'گینهٔ بیسائو',
+  Guyana: 'گویان',
+  Haiti: 'هائیتی',
+  'Heard Island and McDonald Islands': 'هرد و جزایر مک‌دونالد',
+  Honduras: 'هندوراس',
+  'Hong Kong': 'هنگ‌کنگ',
+  Hungary: 'مجارستان',
+  Iceland: 'ایسلند',
+  India: 'هند',
+  Indonesia: 'اندونزی',
+  Iran: 'ایران',
+  Iraq: 'عراق',
+  Ireland: 'ایرلند',
+  Israel: 'اسرائیل',
+  Italy: 'ایتالیا',
+  Jamaica: 'جامائیکا',
+  Japan: 'ژاپن',
+  Jersey: 'جرزی',
+  Jordan: 'اردن',
+  Kazakhstan: 'قزاقستان',
+  Kenya: 'کنیا',
+  Kiribati: 'کیریباتی',
+  Kosovo: 'کوزوو',
+  Kuwait: 'کویت',
+  Kyrgyzstan: 'قرقیزستان',
+  Laos: 'لائوس',
+  Latvia: 'لتونی',
+  Lebanon: 'لبنان',
+  Lesotho: 'لسوتو',
+  Liberia: 'لیبریا',
+  Libya: 'لیبی',
+  Liechtenstein: 'لیختن‌اشتاین',
+  Lithuania: 'لیتوانی',
+  Luxembourg: 'لوکزامبورگ',
+  Macau: 'ماکائو',
+  Madagascar: 'ماداگاسکار',
+  Malawi: 'مالاوی',
+  Malaysia: 'مالزی',
+  Maldives: 'مالدیو',
+  Mali: 'مالی',
+  Malta: 'مالت',
+  'Man (Isle of)': 'جزیرهٔ من',
+  'Marshall Islands': 'جزایر مارشال',
+  Martinique: 'مارتینیک',
+  Mauritania: 'موریتانی',
+  Mauritius: 'موریس',
+  Mayotte: 'مایوت',
+  Mexico: 'مکزیک',
+  Micronesia: 'میکرونزی',
+  Moldova: 'مولداوی',
+  Monaco: 'موناکو',
+  Mongolia: 'مغولستان',
+  Montenegro: 'مونته‌نگرو',
+  Montserrat: 'مونت‌سرات',
+  Morocco: 'مراکش',
+  Mozambique: 'موزامبیک',
+  Myanmar: 'میانمار (برمه)',
+  Namibia: 'نامیبیا',
+  Nauru: 'نائورو',
+  Nepal: 'نپال',
+  Netherlands: 'هلند',
+  'New Caledonia': 'کالدونیای جدید',
+  'New Zealand': 'نیوزیلند',
+  Nicaragua: 'نیکاراگوئه',
+  Niger: 'نیجر',
+  Nigeria: 'نیجریه',
+  Niue: 'نیوئه',
+  'Norfolk Island': 'جزیرهٔ نورفولک',
+  'North Korea': 'کرهٔ شمالی',
+  'North Macedonia': 'مقدونیهٔ شمالی',
+  'Northern Mariana Islands': 'جزایر ماریانای شمالی',
+  Norway: 'نروژ',
+  Oman: 'عمان',
+  Pakistan: 'پاکستان',
+  Palau: 'پالائو',
+  'Palestinian Territory Occupied': 'فلسطین',
+  Panama: 'پاناما',
+  'Papua new Guinea': 'پاپوا گینهٔ نو',
+  Paraguay: 'پاراگوئه',
+  Peru: 'پرو',
+  Philippines: 'فیلیپین',
+  'Pitcairn Island': 'جزایر پیت‌کرن',
+  Poland: 'لهستان',
+  Portugal: 'پرتغال',
+  'Puerto Rico': 'پورتوریکو',
+  Qatar: 'قطر',
+  Reunion: 'رئونیون',
+  Romania: 'رومانی',
+  Russia: 'روسیه',
+  Rwanda: 'رواندا',
+  'Saint Helena': 'سنت هلن',
+  'Saint Kitts And Nevis': 'سنت کیتس و نویس',
+  'Saint Lucia': 'سنت لوسیا',
+  'Saint Pierre and Miquelon': 'سن پیر و میکلن',
+  'Saint Vincent And The Grenadines': 'سنت وینسنت و گرنادین',
+  'Saint-Barthelemy': 'سن بارتلمی',
+  'Saint-Martin (French part)': 'سنت مارتین',
+  Samoa: 'ساموآ',
+  'San Marino': 'سان‌مارینو',
+  'Sao Tome and Principe': 'سائوتومه و پرینسیپ',
+  'Saudi Arabia': 'عربستان سعودی',
+  Senegal: 'سنگال',
+  Serbia: 'صربستان',
+  Seychelles: 'سیشل',
+  'Sierra Leone': 'سیرالئون',
+  Singapore: 'سنگاپور',
+  'Sint Maarten (Dutch part)': 'سنت مارتن',
+  Slovakia: 'اسلواکی',
+  Slovenia: 'اسلوونی',
+  'Solomon Islands': 'جزایر سلیمان',
+  Somalia: 'سومالی',
+  'South Africa': 'افریقای جنوبی',
+  'South Georgia': 'جورجیای جنوبی و جزایر ساندویچ جنوبی',
+  'South Korea': 'کرهٔ جنوبی',
+  'South Sudan': 'سودان جنوبی',
+  Spain: 'اسپانیا',
+  'Sri Lanka': 'سری‌لانکا',
+  Sudan: 'سودان',
+  Suriname: 'سورینام',
+  'Svalbard And Jan Mayen Islands': 'سوالبارد و یان ماین',
+  Swaziland: 'اسواتینی',
+  Sweden: 'سوئد',
+  Switzerland: 'سوئیس',
+  Syria: 'سوریه',
+  Taiwan: 'تایوان',
+  Tajikistan: 'تاجیکستان',
+  Tanzania: 'تانزانیا',
+  Thailand: 'تایلند',
+  'The Bahamas': 'باهاما',
+  Togo: 'توگو',
+  Tokelau: 'توکلائو',
+  Tonga: 'تونگا',
+  'Trinidad And Tobago': 'ترینیداد و توباگو',
+  Tunisia: 'تونس',
+  Turkey: 'ترکیه',
+  Turkmenistan: 'ترکمنستان',
+  'Turks And Caicos Islands': 'جزایر تورکس و کایکوس',
+  Tuvalu: 'تووالو',
+  Uganda: 'اوگاندا',
+  Ukraine: 'اوکراین',
+  'United Arab Emirates': 'امارات متحدهٔ عربی',
+  'United Kingdom': 'بریتانیا',
+  'United States': 'ایالات متحده',
+  'United States Minor Outlying Islands': 'جزایر دورافتادهٔ ایالات متحده',
+  Uruguay: 'اروگوئه',
+  Uzbekistan: 'ازبکستان',
+  Vanuatu: 'وانواتو',
+  'Vatican City State (Holy See)': 'واتیکان',
+  Venezuela: 'ونزوئلا',
+  Vietnam: 'ویتنام',
+  'Virgin Islands (British)': 'جزایر ویرجین بریتانیا',
+  'Virgin Islands (US)': 'جزایر ویرجین ایالات متحده',
+  'Wallis And Futuna Islands': 'والیس و فوتونا',
+  'Western Sahara': 'صحرای غربی',
+  Yemen: 'یمن',
+  Zambia: 'زامبیا',
+  Zimbabwe: 'زیمبابوه',
+}
@@ -27,6 +27,7 @@ import type { LatexTemplate, LocaleLanguage } from '@/models'
 import {
   getLatexTemplateDetail,
   getLocaleLanguageDetail,
+  isRTLLanguage,
   LATEX_TEMPLATE_OPTIONS,
   LOCALE_LANGUAGE_OPTIONS,
 } from './resume'
@@ -49,6 +50,17 @@ describe(getLocaleLanguageDetail, () => {
   })
 })
 
+describe(isRTLLanguage, () => {
+  it('should return true for right-to-left languages only', () => {
+    expect(isRTLLanguage('ar')).toBe(true)
+    expect(isRTLLanguage('he')).toBe(true)
+    expect(isRTLLanguage('fa')).toBe(true)
+    expect(isRTLLanguage('en')).toBe(false)
+    expect(isRTLLanguage('zh-hans')).toBe(false)
+    expect(isRTLLanguage(undefined)).toBe(false)
+  })
+})
+
 describe(getLatexTemplateDetail, () => {
   it('should return the template option code and name', () => {
     for (const template of LATEX_TEMPLATE_OPTIONS) {
@@ -23,6 +23,8 @@
  */
 
 import type {
+  DocxLayout,
+  HtmlLayout,
   LatexLayout,
   LatexTemplate,
   LocaleLanguage,
@@ -34,8 +36,25 @@ import type {
   ResumeLayouts,
   ResumeLocale,
   ResumeItem as ResumeSectionItem,
+  TextLayout,
+  TypstLayout,
 } from './types'
 
+/**
+ * Defines the format presets of dates.
+ *
+ * - `MMM YYYY` - localized short month and year, e.g, "Jan 2025" (default)
+ * - `YYYY-MM` - numeric year and month, e.g, "2025-01"
+ * - `YYYY` - year only, e.g, "2025"
+ * - `MM/YYYY` - numeric month and year, e.g, "01/2025"
+ */
+export const DATE_FORMAT_OPTIONS = [
+  'MMM YYYY',
+  'YYYY-MM',
+  'YYYY',
+  'MM/YYYY',
+] as const
+
 /**
  * Defines all possible degrees.
  */
@@ -68,6 +87,68 @@ export const FONT_SIZE_OPTIONS = ['10pt', '11pt', '12pt'] as const
 /** The options for the font spec numbers style. */
 export const FONTSPEC_NUMBERS_OPTIONS = ['Lining', 'OldStyle', 'Auto'] as const
 
+/**
+ * Defines the fields which can be hidden by `layout.fields.hide`.
+ *
+ * Each option is a `<section>.<field>` path, hiding a field of a list section
+ * hides it from every item of the section. Required fields are not included,
+ * as the resume cannot be rendered properly without them.
+ */
+export const HIDEABLE_FIELD_OPTIONS = [
+  'basics.email',
+  'basics.headline',
+  'basics.phone',
+  'basics.summary',
+  'basics.url',
+  'location.address',
+  'location.city',
+  'location.country',
+  'location.postalCode',
+  'location.region',
+  'profiles.url',
+  'profiles.username',
+  'education.courses',
+  'education.score',
+  'education.summary',
+  'education.url',
+  'work.highlights',
+  'work.keywords',
+  'work.summary',
+  'work.url',
+  'volunteer.highlights',
+  'volunteer.summary',
+  'volunteer.url',
+  'awards.awarder',
+  'awards.date',
+  'awards.summary',
+  'certificates.date',
+  'certificates.url',
+  'publications.releaseDate',
+  'publications.summary',
+  'publications.url',
+  'skills.keywords',
+  'skills.level',
+  'languages.keywords',
+  'interests.keywords',
+  'references.email',
+  'references.phone',
+  'references.relationship',
+  'references.summary',
+  'projects.description',
+  'projects.highlights',
+  'projects.keywords',
+  'projects.summary',
+  'projects.url',
+] as const
+
+/**
+ * The options for the HTML theme.
+ *
+ * - `light` - dark text on a light background (default)
+ * - `dark` - light text on a dark background
+ */
+export const HTML_THEME_OPTIONS = ['light', 'dark'] as const
+
 /**
  * Defines common world languages.
  *
@@ -180,6 +261,14 @@ export const LOCALE_LANGUAGE_OPTIONS = [
   'es',
   'fr',
   'no',
+  'de',
+  'ja',
+  'pt',
+  'it',
+  'ko',
+  'ar',
+  'he',
+  'fa',
 ] as const
 
 /**
@@ -253,6 +342,28 @@ export const ORDERABLE_SECTION_IDS = [
   'projects',
 ] as const
 
+/**
+ * All valid top-level sections in the resume whose items can be filtered by
+ * layout filters.
+ *
+ * `basics` and `location` are excluded as these are single objects rather
+ * than lists of items.
+ */
+export const FILTERABLE_SECTION_IDS = [
+  'profiles',
+  'education',
+  'work',
+  'volunteer',
+  'awards',
+  'certificates',
+  'publications',
+  'skills',
+  'languages',
+  'interests',
+  'references',
+  'projects',
+] as const
+
 /**
  * Default order for sections in the resume output.
  *
@@ -273,11 +384,12 @@ export const DEFAULT_SECTIONS_ORDER: OrderableSectionID[] = [
   'volunteer',
 ]
 
-/** Defines identifiers for the available resume templates. */
+/** Defines identifiers for the builtin resume templates. */
 export const LATEX_TEMPLATE_OPTIONS = [
   'moderncv-banking',
   'moderncv-casual',
   'moderncv-classic',
+  'jake',
 ] as const
 
 /**
@@ -306,6 +418,12 @@ export function getLatexTemplateDetail(template: LatexTemplate) {
       name: 'ModernCV Classic',
       description: 'ModernCV template with classic style',
     },
+    jake: {
+      engine: 'latex',
+      name: "Jake's Resume",
+      description:
+        "Dense template inspired by Jake's resume, supports a sidebar",
+    },
   }
 
   if (template in templateDetails) {
@@ -340,6 +458,14 @@ export const RESUME_SECTION_ITEMS: ResumeSectionItem = {
     name: '',
     url: '',
   },
+  custom: {
+    endDate: '',
+    keywords: [],
+    name: '',
+    startDate: '',
+    summary: '',
+    url: '',
+  },
   education: {
     area: '',
     courses: [],
@@ -375,6 +501,7 @@ export const RESUME_SECTION_ITEMS: ResumeSectionItem = {
   project: {
     description: '',
     endDate: '',
+    highlights: [],
     summary: '',
     keywords: [],
     name: '',
@@ -402,6 +529,7 @@ export const RESUME_SECTION_ITEMS: ResumeSectionItem = {
   },
   volunteer: {
     endDate: '',
+    highlights: [],
     organization: '',
     position: '',
     startDate: '',
@@ -411,12 +539,20 @@ export const RESUME_SECTION_ITEMS: ResumeSectionItem = {
   work: {
     name: '',
     endDate: '',
+    highlights: [],
     position: '',
+    positions: [],
     startDate: '',
     keywords: [],
     summary: '',
     url: '',
   },
+  workPosition: {
+    endDate: '',
+    position: '',
+    startDate: '',
+    summary: '',
+  },
 }
 
 /**
@@ -427,6 +563,7 @@ export const DEFAULT_RESUME_CONTENT: ResumeContent = {
   awards: [],
   basics: RESUME_SECTION_ITEMS.basics,
   certificates: [],
+  custom: [],
   education: [RESUME_SECTION_ITEMS.education],
   interests: [],
   languages: [RESUME_SECTION_ITEMS.language],
@@ -449,6 +586,7 @@ export const FILLED_RESUME_CONTENT: ResumeContent = {
   awards: [RESUME_SECTION_ITEMS.award],
   basics: RESUME_SECTION_ITEMS.basics,
   certificates: [RESUME_SECTION_ITEMS.certificate],
+  custom: [],
   education: [RESUME_SECTION_ITEMS.education],
   interests: [RESUME_SECTION_ITEMS.interest],
   languages: [RESUME_SECTION_ITEMS.language],
@@ -491,6 +629,14 @@ export function getLocaleLanguageDetail(localeLanguage: LocaleLanguage) {
     es: 'Spanish',
     fr: 'French',
     no: 'Norwegian',
+    de: 'German',
+    ja: 'Japanese',
+    pt: 'Portuguese',
+    it: 'Italian',
+    ko: 'Korean',
+    ar: 'Arabic',
+    he: 'Hebrew',
+    fa: 'Farsi',
   }
 
   if (localeLanguage in localeLanguageDetails) {
@@ -503,11 +649,47 @@ export function getLocaleLanguageDetail(localeLanguage: LocaleLanguage) {
   throw new Error(`Invalid locale language: ${localeLanguage}`)
 }
 
+/**
+ * Locale languages written from right to left.
+ */
+export const RTL_LOCALE_LANGUAGES = ['ar', 'he', 'fa'] as const
+
+/**
+ * Check if the given locale language is written from right to left.
+ *
+ * @param localeLanguage The locale language to check.
+ * @returns `true` if the language is a right-to-left language, `false`
+ * otherwise.
+ */
+export function isRTLLanguage(localeLanguage: LocaleLanguage): boolean {
+  return (RTL_LOCALE_LANGUAGES as readonly string[]).includes(localeLanguage)
+}
+
 /** Default Markdown layout configuration. */
 export const DEFAULT_MARKDOWN_LAYOUT: MarkdownLayout = {
   engine: 'markdown',
 }
 
+/** Default HTML layout configuration. */
+export const DEFAULT_HTML_LAYOUT: HtmlLayout = {
+  engine: 'html',
+  theme: HTML_THEME_OPTIONS[0],
+  typography: {
+    fontSize: FONT_SIZE_OPTIONS[1],
+  },
+}
+
+/** Default line width for plain text layouts. */
+export const DEFAULT_TEXT_LINE_WIDTH = 80
+
+/** Default plain text layout configuration. */
+export const DEFAULT_TEXT_LAYOUT: TextLayout = {
+  engine: 'text',
+  page: {
+    lineWidth: DEFAULT_TEXT_LINE_WIDTH,
+  },
+}
+
 /** Default LaTeX layout configuration for the new layouts array. */
 export const DEFAULT_LATEX_LAYOUT: LatexLayout = {
   engine: 'latex',
@@ -531,6 +713,40 @@ export const DEFAULT_LATEX_LAYOUT: LatexLayout = {
   },
 }
 
+/** Default Typst layout configuration. */
+export const DEFAULT_TYPST_LAYOUT: TypstLayout = {
+  engine: 'typst',
+  page: {
+    margins: {
+      top: DEFAULT_TOP_BOTTOM_MARGIN,
+      bottom: DEFAULT_TOP_BOTTOM_MARGIN,
+      left: DEFAULT_LEFT_RIGHT_MARGIN,
+      right: DEFAULT_LEFT_RIGHT_MARGIN,
+    },
+    showPageNumbers: false,
+  },
+  typography: {
+    fontSize: FONT_SIZE_OPTIONS[0],
+  },
+}
+
+/** Default Docx layout configuration. */
+export const DEFAULT_DOCX_LAYOUT: DocxLayout = {
+  engine: 'docx',
+  page: {
+    margins: {
+      top: DEFAULT_TOP_BOTTOM_MARGIN,
+      bottom: DEFAULT_TOP_BOTTOM_MARGIN,
+      left: DEFAULT_LEFT_RIGHT_MARGIN,
+      right: DEFAULT_LEFT_RIGHT_MARGIN,
+    },
+    showPageNumbers: false,
+  },
+  typography: {
+    fontSize: FONT_SIZE_OPTIONS[1],
+  },
+}
+
 /** Default layouts configuration. */
 export const DEFAULT_RESUME_LAYOUTS: ResumeLayouts = [
   DEFAULT_LATEX_LAYOUT,
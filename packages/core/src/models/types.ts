@@ -24,10 +24,14 @@
 
 import type {
   COUNTRY_OPTIONS,
+  DATE_FORMAT_OPTIONS,
   DEGREE_OPTIONS,
+  FILTERABLE_SECTION_IDS,
   FLUENCY_OPTIONS,
   FONT_SIZE_OPTIONS,
   FONTSPEC_NUMBERS_OPTIONS,
+  HIDEABLE_FIELD_OPTIONS,
+  HTML_THEME_OPTIONS,
   LANGUAGE_OPTIONS,
   LATEX_TEMPLATE_OPTIONS,
   LEVEL_OPTIONS,
@@ -36,12 +40,18 @@ import type {
   ORDERABLE_SECTION_IDS,
   SECTION_IDS,
 } from '@/models'
+import type { Punctuation, Term } from '@/translations'
 
 /**
  * A union type for all possible countries and regions in the world.
  */
 export type Country = (typeof COUNTRY_OPTIONS)[number]
 
+/**
+ * A union type for all possible date format presets.
+ */
+export type DateFormat = (typeof DATE_FORMAT_OPTIONS)[number]
+
 /**
  * A union type for all possible degrees.
  */
@@ -52,11 +62,30 @@ export type Degree = (typeof DEGREE_OPTIONS)[number]
  */
 export type Fluency = (typeof FLUENCY_OPTIONS)[number]
 
+/**
+ * A union type for all possible HTML theme options.
+ */
+export type HtmlTheme = (typeof HTML_THEME_OPTIONS)[number]
+
 /**
  * Keywords type, just an alias for a string list.
  */
 type Keywords = string[]
 
+/**
+ * Highlights type, just an alias for a string list.
+ *
+ * Highlights are rendered as a bullet list after the summary.
+ */
+type Highlights = string[]
+
+/**
+ * Tags type, just an alias for a string list.
+ *
+ * Tags are not rendered, they are used by layout filters to select items.
+ */
+type Tags = string[]
+
 /**
  * A union type for all supported languages.
  */
@@ -78,7 +107,17 @@ export type SectionID = (typeof SECTION_IDS)[number]
 export type OrderableSectionID = (typeof ORDERABLE_SECTION_IDS)[number]
 
 /**
- * A union type for all possible template options.
+ * A union type for all possible section IDs whose items can be filtered.
+ */
+export type FilterableSectionID = (typeof FILTERABLE_SECTION_IDS)[number]
+
+/**
+ * A union type for all fields which can be hidden by a layout.
+ */
+export type HideableField = (typeof HIDEABLE_FIELD_OPTIONS)[number]
+
+/**
+ * A union type for all builtin template options.
  *
  * @see {@link https://yamlresume.dev/docs/layout/templates}
  */
@@ -91,6 +130,16 @@ export type LatexTemplate = (typeof LATEX_TEMPLATE_OPTIONS)[number]
  */
 export type LocaleLanguage = (typeof LOCALE_LANGUAGE_OPTIONS)[number]
 
+/**
+ * A string field written as a map of locale languages to values, e.g,
+ * `{ en: 'Engineer', zh-hans: '工程师' }`, so that a single resume can be built
+ * in multiple languages.
+ *
+ * Besides the builtin locale languages, languages of registered locale packs
+ * are accepted as keys as well.
+ */
+export type LocalizedString = Partial<Record<LocaleLanguage, string>>
+
 /**
  * A union type for all possible social network options.
  */
@@ -111,6 +160,8 @@ type AwardItem = {
   date?: string
   /** A short description or details about the award. */
   summary?: string
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -185,6 +236,8 @@ type CertificateItem = {
   date?: string
   /** URL related to the certificate (e.g., verification link). */
   url?: string
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -203,6 +256,73 @@ export type Certificates = {
   certificates?: CertificateItem[]
 }
 
+/**
+ * A union type for ids of custom sections, any id defined in
+ * `content.custom` is valid.
+ */
+export type CustomSectionID = string & {}
+
+/**
+ * Represents a single item of a custom section, e.g, a patent or a talk.
+ *
+ * @see {@link customSectionItemSchema} for its schema constraints.
+ */
+export type CustomSectionItem = {
+  /** Name of the item, e.g, the title of a talk. */
+  name: string
+
+  /** Start date of the item (e.g., "2021", "Jan 2021"). */
+  startDate?: string
+  /** End date of the item (e.g., "2022", "Jul 2022"). */
+  endDate?: string
+  /** URL related to the item. */
+  url?: string
+  /** Detailed description of the item. */
+  summary?: string
+  /** Keywords related to the item. */
+  keywords?: Keywords
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
+
+  /** Computed values derived during transformation. */
+  computed?: {
+    /** Combined string representing the date range. */
+    dateRange: string
+    /** Transformed keywords string. */
+    keywords: string
+    /** Transformed start date string. */
+    startDate: string
+    /** Transformed end date string. */
+    endDate: string
+    /** Transformed summary string (e.g., LaTeX code). */
+    summary: string
+  }
+}
+
+/**
+ * Represents a user-defined section, e.g, "Patents", "Talks" or "Open Source".
+ *
+ * @see {@link customSectionSchema} for its schema constraints.
+ */
+export type CustomSection = {
+  /** Unique id of the section, used in `layout.sections.order`. */
+  id: CustomSectionID
+  /** Title of the section. */
+  title: string
+  /** A list of items in the section. */
+  items: CustomSectionItem[]
+}
+
+/**
+ * Contains a collection of user-defined sections.
+ *
+ * @see {@link customSchema} for its schema constraints.
+ */
+export type Custom = {
+  /** A list of custom sections. */
+  custom?: CustomSection[]
+}
+
 /**
  * Represents a single educational experience or degree program.
  *
@@ -228,6 +348,8 @@ type EducationItem = {
   score?: string
   /** URL related to the institution or degree. */
   url?: string
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -267,6 +389,8 @@ type InterestItem = {
 
   /** Keywords related to the interest. */
   keywords?: Keywords
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -298,6 +422,8 @@ export type LanguageItem = {
 
   /** Specific keywords related to language skills (e.g., "Translation"). */
   keywords?: Keywords
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -368,6 +494,8 @@ export type ProfileItem = {
 
   /** The URL of the profile. */
   url?: string
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -403,12 +531,16 @@ type ProjectItem = {
   description?: string
   /** End date of the project (e.g., "2022", "Jul 2022"). */
   endDate?: string
+  /** Key accomplishments of the project. */
+  highlights?: Highlights
   /** Keywords or technologies used in the project. */
   keywords?: Keywords
   /** URL related to the project (e.g., repository, live demo). */
   url?: string
-  /** Computed values derived during transformation. */
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
+  /** Computed values derived during transformation. */
   computed?: {
     /** Combined string representing the date range. */
     dateRange: string
@@ -418,6 +550,8 @@ type ProjectItem = {
     startDate: string
     /** Transformed end date string (or "Present"). */
     endDate: string
+    /** Transformed highlights string (e.g., LaTeX itemize list). */
+    highlights: string
     /** Transformed summary string (e.g., LaTeX code). */
     summary: string
   }
@@ -450,6 +584,8 @@ type PublicationItem = {
   summary?: string
   /** URL related to the publication (e.g., DOI, link). */
   url?: string
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -487,6 +623,8 @@ type ReferenceItem = {
   phone?: string
   /** Relationship to the reference (e.g., "Former Manager"). */
   relationship?: string
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -518,6 +656,8 @@ type SkillItem = {
 
   /** Specific keywords or technologies related to the skill. */
   keywords?: Keywords
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -555,8 +695,12 @@ type VolunteerItem = {
 
   /** End date of the volunteer work (e.g., "2020", "Dec 2020"). */
   endDate?: string
+  /** Key achievements of the volunteer work. */
+  highlights?: Highlights
   /** URL related to the organization or work. */
   url?: string
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -566,6 +710,8 @@ type VolunteerItem = {
     startDate: string
     /** Transformed end date string (or "Present"). */
     endDate: string
+    /** Transformed highlights string (e.g., LaTeX itemize list). */
+    highlights: string
     /** Transformed summary string (e.g., LaTeX code). */
     summary: string
   }
@@ -581,27 +727,67 @@ export type Volunteer = {
   volunteer?: VolunteerItem[]
 }
 
+/**
+ * Represents a single position held at a company, multiple positions can be
+ * grouped under one work item, e.g, when someone was promoted.
+ *
+ * @see {@link workPositionSchema} for its schema constraints.
+ */
+export type WorkPositionItem = {
+  /** Job title or position held. */
+  position: string
+  /** Start date of the position (e.g., "2021", "Apr 2021"). */
+  startDate: string
+
+  /** End date of the position (e.g., "2023", "Aug 2023"). */
+  endDate?: string
+  /** Summary of responsibilities and accomplishments in the position. */
+  summary?: string
+
+  /** Computed values derived during transformation. */
+  computed?: {
+    /** Combined string representing the date range. */
+    dateRange: string
+    /** Transformed start date string. */
+    startDate: string
+    /** Transformed end date string (or "Present"). */
+    endDate: string
+    /** Transformed summary string (e.g., LaTeX code). */
+    summary: string
+  }
+}
+
 /**
  * Represents a single work experience or employment position.
  *
+ * `position`, `startDate` and `summary` are only required if `positions` is
+ * absent, otherwise the dates of the work item are the overall tenure across
+ * all positions.
+ *
  * @see {@link workItemSchema} for its schema constraints.
  */
 type WorkItem = {
   /** Name of the company or employer. */
   name: string
   /** Job title or position held. */
-  position: string
+  position?: string
   /** Start date of employment (e.g., "2021", "Apr 2021"). */
-  startDate: string
+  startDate?: string
   /** Summary of responsibilities and accomplishments. */
-  summary: string
+  summary?: string
 
   /** End date of employment (e.g., "2023", "Aug 2023"). */
   endDate?: string
+  /** Key accomplishments in the role. */
+  highlights?: Highlights
   /** Keywords related to the role or technologies used. */
   keywords?: Keywords
+  /** Positions held at the company, each with its own dates and summary. */
+  positions?: WorkPositionItem[]
   /** URL related to the company or work. */
   url?: string
+  /** Tags used by layout filters to select this item. */
+  tags?: Tags
 
   /** Computed values derived during transformation. */
   computed?: {
@@ -613,6 +799,8 @@ type WorkItem = {
     startDate: string
     /** Transformed end date string (or "Present"). */
     endDate: string
+    /** Transformed highlights string (e.g., LaTeX itemize list). */
+    highlights: string
     /** Transformed summary string (e.g., LaTeX code). */
     summary: string
   }
@@ -635,6 +823,7 @@ export type ResumeItem = {
   award: AwardItem
   basics: BasicsItem
   certificate: CertificateItem
+  custom: CustomSectionItem
   education: EducationItem
   interest: InterestItem
   language: LanguageItem
@@ -646,6 +835,7 @@ export type ResumeItem = {
   skill: SkillItem
   volunteer: VolunteerItem
   work: WorkItem
+  workPosition: WorkPositionItem
 }
 
 /**
@@ -666,6 +856,8 @@ export type ResumeContent = {
   awards?: AwardItem[]
   /** Contains a collection of certifications and credentials. */
   certificates?: CertificateItem[]
+  /** Contains a collection of user-defined sections. */
+  custom?: CustomSection[]
   /** Contains a collection of interests, hobbies, or personal activities. */
   interests?: InterestItem[]
   /** Contains a collection of language proficiencies. */
@@ -708,6 +900,8 @@ export type ResumeContent = {
       skills?: string
       volunteer?: string
       work?: string
+      /** Titles of custom sections, keyed by the section id. */
+      [customSectionId: string]: string
     }
     /** Combined and formatted string of URLs from basics and profiles. */
     urls?: string
@@ -779,12 +973,44 @@ type LaTeXLayoutAdvanced = {
   }
 }
 
+/**
+ * Overrides for individual translations of the selected locale language.
+ *
+ * Each category maps an option to its translation, options which are not
+ * listed keep their builtin translations.
+ */
+export type LocaleOverrides = {
+  /** Translations for punctuations, e.g, `separator`. */
+  punctuations?: Partial<Record<Punctuation, string>>
+  /** Translations for template terms, e.g, `keywords`. */
+  terms?: Partial<Record<Term, string>>
+  /** Translations for country names. */
+  countries?: Partial<Record<Country, string>>
+  /** Translations for degree types. */
+  degrees?: Partial<Record<Degree, string>>
+  /** Translations for language fluency levels. */
+  fluency?: Partial<Record<Fluency, string>>
+  /** Translations for language names. */
+  languages?: Partial<Record<Language, string>>
+  /** Translations for resume section titles. */
+  sections?: Partial<Record<SectionID, string>>
+  /** Translations for skill proficiency levels. */
+  skills?: Partial<Record<Level, string>>
+}
+
 /**
  * Defines locale settings for internationalization and localization.
  */
 export type ResumeLocale = {
-  /** The selected language for the resume content and template terms. */
+  /**
+   * The selected language for the resume content and template terms.
+   *
+   * Besides the builtin locale languages, languages added by locale packs
+   * registered via `registerLocalePack` are accepted as well.
+   */
   language?: LocaleLanguage
+  /** Overrides for individual translations of the selected language. */
+  overrides?: LocaleOverrides
 }
 
 /**
@@ -804,13 +1030,95 @@ type LayoutSections = {
   /** Custom aliases for section names, overriding default translations. */
   aliases?: Partial<Record<SectionID, string>>
   /** Custom order for sections in the final output. */
-  order?: OrderableSectionID[]
+  order?: (OrderableSectionID | CustomSectionID)[]
+  /**
+   * Sections removed from the final output, hiding `basics` removes the
+   * summary only and keeps the name and contact details.
+   */
+  hide?: (OrderableSectionID | CustomSectionID)[]
+}
+
+/**
+ * Defines field visibility settings of a layout.
+ */
+type LayoutFields = {
+  /** Fields removed from the final output, e.g, `basics.phone`. */
+  hide?: HideableField[]
+}
+
+/**
+ * A filter matching items of a section.
+ *
+ * An item matches the filter if it has any of the `tags`, or if its zero-based
+ * index in the section is in `indices`.
+ */
+type LayoutItemFilter = {
+  /** Tags to match, an item matches if it has any of these tags. */
+  tags?: string[]
+  /** Zero-based indices of items to match. */
+  indices?: number[]
+}
+
+/**
+ * Include and exclude filters of a section.
+ *
+ * If `include` is set, only matching items are kept, then items matching
+ * `exclude` are removed.
+ */
+type LayoutSectionFilter = {
+  /** Keep only the items matching this filter. */
+  include?: LayoutItemFilter
+  /** Remove the items matching this filter. */
+  exclude?: LayoutItemFilter
+}
+
+/**
+ * Per-section content filters of a layout.
+ */
+type LayoutFilters = Partial<Record<FilterableSectionID, LayoutSectionFilter>>
+
+/**
+ * Date settings of a layout.
+ *
+ * Options that are absent fall back to the defaults of the locale language,
+ * e.g, "Jan 2025–Present" in English.
+ */
+export type LayoutDates = {
+  /** The format preset of dates. */
+  format?: DateFormat
+  /** The separator between the start and end date of a date range. */
+  separator?: string
+  /** The wording of an ongoing end date, e.g, "Present" or "Now". */
+  present?: string
+  /** Whether to show the duration of date ranges, e.g, "2 yrs 3 mos". */
+  showDuration?: boolean
+}
+
+/**
+ * Column settings of a LaTeX layout.
+ *
+ * Sections in `sidebar` are rendered in a narrow sidebar column, sections in
+ * `main`, or all other sections if `main` is empty, are rendered in the main
+ * column. A section cannot be placed in both columns. Only templates that
+ * support columns honour this option.
+ */
+type LayoutColumns = {
+  /** Sections rendered in the sidebar column, in the listed order. */
+  sidebar?: (OrderableSectionID | CustomSectionID)[]
+  /** Sections rendered in the main column, in the listed order. */
+  main?: (OrderableSectionID | CustomSectionID)[]
 }
 
 /**
  * A union type for all possible layout engines.
  */
-export type ResumeLayoutEngine = 'latex' | 'markdown'
+export type ResumeLayoutEngine =
+  | 'latex'
+  | 'markdown'
+  | 'html'
+  | 'text'
+  | 'typst'
+  | 'docx'
 
 /**
  * LaTeX layout configuration.
@@ -821,8 +1129,19 @@ export type LatexLayout = {
   page?: LaTeXLayoutPage
   /** Defines section customization settings. */
   sections?: LayoutSections
-  /** Defines the selected template. */
-  template?: LatexTemplate
+  /** Defines field visibility settings. */
+  fields?: LayoutFields
+  /** Defines per-section content filters. */
+  filters?: LayoutFilters
+  /** Defines date formatting settings. */
+  dates?: LayoutDates
+  /** Defines sidebar and main column settings. */
+  columns?: LayoutColumns
+  /**
+   * Defines the selected template, either a builtin one or a custom template
+   * registered via `registerTemplate`.
+   */
+  template?: LatexTemplate | (string & {})
   /** Defines typography settings for document formatting. */
   typography?: LaTeXLayoutTypography
   /** Defines advanced configuration options. */
@@ -838,12 +1157,128 @@ export type MarkdownLayout = {
   engine: 'markdown'
   /** Defines section customization settings. */
   sections?: LayoutSections
+  /** Defines field visibility settings. */
+  fields?: LayoutFields
+  /** Defines per-section content filters. */
+  filters?: LayoutFilters
+  /** Defines date formatting settings. */
+  dates?: LayoutDates
+}
+
+/**
+ * Defines typography settings for HTML documents.
+ */
+type HtmlLayoutTypography = {
+  /** Base font size for the web page (e.g., "10pt", "11pt"). */
+  fontSize?: string
+  /** Link styling settings. */
+  links?: LayoutTypographyLinks
+}
+
+/**
+ * HTML layout configuration.
+ *
+ * Produces a standalone web page with inline CSS.
+ */
+export type HtmlLayout = {
+  engine: 'html'
+  /** Defines section customization settings. */
+  sections?: LayoutSections
+  /** Defines field visibility settings. */
+  fields?: LayoutFields
+  /** Defines per-section content filters. */
+  filters?: LayoutFilters
+  /** Defines date formatting settings. */
+  dates?: LayoutDates
+  /** Defines the color theme of the web page. */
+  theme?: HtmlTheme
+  /** Defines typography settings for the web page. */
+  typography?: HtmlLayoutTypography
+}
+
+/**
+ * Defines page-level settings for plain text documents.
+ */
+type TextLayoutPage = {
+  /** Maximum number of characters per line before wrapping. */
+  lineWidth?: number
+}
+
+/**
+ * Plain text layout configuration.
+ *
+ * Produces a single-column, markup free resume which is friendly to applicant
+ * tracking systems.
+ */
+export type TextLayout = {
+  engine: 'text'
+  /** Defines page-level settings for the plain text document. */
+  page?: TextLayoutPage
+  /** Defines section customization settings. */
+  sections?: LayoutSections
+  /** Defines field visibility settings. */
+  fields?: LayoutFields
+  /** Defines per-section content filters. */
+  filters?: LayoutFilters
+  /** Defines date formatting settings. */
+  dates?: LayoutDates
+}
+
+/**
+ * Typst layout configuration.
+ *
+ * Produces a Typst document which can be compiled to PDF by the `typst` CLI,
+ * a lightweight alternative to a full LaTeX distribution.
+ */
+export type TypstLayout = {
+  engine: 'typst'
+  /** Defines page-level settings for document presentation. */
+  page?: LaTeXLayoutPage
+  /** Defines section customization settings. */
+  sections?: LayoutSections
+  /** Defines field visibility settings. */
+  fields?: LayoutFields
+  /** Defines per-section content filters. */
+  filters?: LayoutFilters
+  /** Defines date formatting settings. */
+  dates?: LayoutDates
+  /** Defines typography settings for document formatting. */
+  typography?: LaTeXLayoutTypography
+}
+
+/**
+ * Docx layout configuration.
+ *
+ * Produces an Office Open XML (Word) document, which is handy when an
+ * editable copy of the resume is requested.
+ */
+export type DocxLayout = {
+  engine: 'docx'
+  /** Defines page-level settings for document presentation. */
+  page?: LaTeXLayoutPage
+  /** Defines section customization settings. */
+  sections?: LayoutSections
+  /** Defines field visibility settings. */
+  fields?: LayoutFields
+  /** Defines per-section content filters. */
+  filters?: LayoutFilters
+  /** Defines date formatting settings. */
+  dates?: LayoutDates
+  /** Defines typography settings for document formatting. */
+  typography?: LaTeXLayoutTypography
 }
 
 /**
  * Array of layout items supporting multiple output formats.
  */
-export type ResumeLayouts = (LatexLayout | MarkdownLayout)[]
+export type ResumeLayouts = (
+  | LatexLayout
+  | MarkdownLayout
+  | HtmlLayout
+  | TextLayout
+  | TypstLayout
+  | DocxLayout
+)[]
 
 /**
  * Defines the overall resume structure, including content and layout.
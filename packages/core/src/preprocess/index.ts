@@ -22,4 +22,8 @@
  * IN THE SOFTWARE.
  */
 
-export { transformResume } from './transform'
+export {
+  collectSummaryDiagnostics,
+  type SummaryDiagnostic,
+  transformResume,
+} from './transform'
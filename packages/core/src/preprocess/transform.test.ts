@@ -23,15 +23,25 @@
  */
 
 import { cloneDeep } from 'lodash-es'
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 
-import { LatexCodeGenerator, MarkdownParser } from '@/compiler'
 import {
+  HtmlCodeGenerator,
+  LatexCodeGenerator,
+  MarkdownParser,
+} from '@/compiler'
+import {
+  DEFAULT_DOCX_LAYOUT,
+  DEFAULT_HTML_LAYOUT,
   DEFAULT_LATEX_LAYOUT,
   DEFAULT_RESUME,
   DEFAULT_RESUME_LAYOUTS,
   DEFAULT_RESUME_LOCALE,
+  DEFAULT_TEXT_LAYOUT,
+  DEFAULT_TYPST_LAYOUT,
+  type DocxLayout,
   FILLED_RESUME,
+  type HtmlLayout,
   type LatexLayout,
   LOCALE_LANGUAGE_OPTIONS,
   type LocaleLanguage,
@@ -41,9 +51,14 @@ import {
   type ProfileItem,
   RESUME_SECTION_ITEMS,
   type Resume,
+  type TextLayout,
+  type TypstLayout,
 } from '@/models'
 import { getOptionTranslation, getTemplateTranslations } from '@/translations'
 import {
+  collectSummaryDiagnostics,
+  filterResumeContent,
+  hideResumeContent,
   normalizedResumeContent,
   normalizeResumeContentSections,
   replaceBlankLinesWithPercent,
@@ -52,11 +67,14 @@ import {
   transformEducationCourses,
   transformEducationDegreeAreaAndScore,
   transformEndDate,
+  transformHighlights,
   transformKeywords,
   transformLanguage,
+  transformLocalizedStrings,
   transformLocation,
   transformProfileLinks,
   transformProfileUrls,
+  transformResume,
   transformResumeContent,
   transformResumeLayout,
   transformResumeLayoutLaTeX,
@@ -362,6 +380,53 @@ describe(normalizedResumeContent, () => {
     // @ts-ignore
     expect(normalized.content.basics.customField).toBe('custom')
   })
+
+  it('should fill missing fields of custom section items', () => {
+    const resume = {
+      content: {
+        basics: { name: 'Alice' },
+        custom: [
+          { id: 'talks', items: [{ name: 'Talk', url: null }] },
+          { id: 'patents', title: 'Patents' },
+          { title: 'Books', items: [] },
+        ],
+      },
+    }
+
+    // @ts-ignore
+    const normalized = normalizedResumeContent(resume)
+
+    expect(normalized.content.custom).toEqual([
+      {
+        id: 'talks',
+        title: '',
+        items: [{ ...RESUME_SECTION_ITEMS.custom, name: 'Talk' }],
+      },
+      { id: 'patents', title: 'Patents', items: [] },
+      { id: '', title: 'Books', items: [] },
+    ])
+  })
+
+  it('should fill missing fields of work positions', () => {
+    const resume = {
+      content: {
+        basics: { name: 'Alice' },
+        work: [
+          {
+            name: 'PPResume',
+            positions: [{ position: 'Engineer', summary: null }],
+          },
+        ],
+      },
+    }
+
+    // @ts-ignore
+    const normalized = normalizedResumeContent(resume)
+
+    expect(normalized.content.work[0].positions).toEqual([
+      { ...RESUME_SECTION_ITEMS.workPosition, position: 'Engineer' },
+    ])
+  })
 })
 
 describe(transformEducationCourses, () => {
@@ -491,6 +556,27 @@ describe(transformKeywords, () => {
       }
     })
   })
+
+  it('should transform keywords of custom section items', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.custom = [
+      {
+        id: 'talks',
+        title: 'Talks',
+        items: [
+          { ...RESUME_SECTION_ITEMS.custom, keywords: ['YAML', 'LaTeX'] },
+          { ...RESUME_SECTION_ITEMS.custom },
+        ],
+      },
+    ]
+
+    transformKeywords(resume)
+
+    expect(resume.content.custom[0].items[0].computed?.keywords).toBe(
+      'YAML, LaTeX'
+    )
+    expect(resume.content.custom[0].items[1].computed?.keywords).toBe('')
+  })
 })
 
 describe(transformDate, () => {
@@ -549,6 +635,168 @@ describe(transformDate, () => {
       })
     }
   })
+
+  it('should transform dates of custom section items', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.custom = [
+      {
+        id: 'talks',
+        title: 'Talks',
+        items: [
+          { name: 'Range', startDate: 'Oct 1, 2016', endDate: 'Jan 1, 2018' },
+          { name: 'Ongoing', startDate: 'Oct 1, 2016', endDate: '' },
+          { name: 'Start', startDate: 'Oct 1, 2016', endDate: '' },
+          { name: 'End', startDate: '', endDate: 'Jan 1, 2018' },
+          { name: 'None', startDate: '', endDate: '' },
+        ],
+      },
+    ]
+
+    transformDate(resume)
+    transformEndDate(resume)
+
+    expect(
+      resume.content.custom[0].items.map(({ computed }) => computed?.dateRange)
+    ).toEqual(['Oct 2016–Jan 2018', 'Oct 2016', 'Oct 2016', 'Jan 2018', ''])
+    expect(resume.content.custom[0].items[0].computed?.startDate).toBe(
+      'Oct 2016'
+    )
+    expect(resume.content.custom[0].items[0].computed?.endDate).toBe('Jan 2018')
+  })
+
+  it('should compute the overall tenure and the date range of positions', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.work[0].positions = [
+      { position: 'Senior Engineer', startDate: 'Jan 1, 2020', endDate: '' },
+      { position: 'Engineer', startDate: 'Oct 1, 2016', endDate: 'Dec 2019' },
+    ]
+    resume.content.work[1] = {
+      ...resume.content.work[0],
+      positions: [
+        { position: 'Engineer', startDate: 'Oct 1, 2016', endDate: 'Dec 2019' },
+      ],
+    }
+
+    transformDate(resume)
+    transformEndDate(resume)
+
+    const [ongoing, ended] = resume.content.work
+
+    expect(ongoing.computed?.dateRange).toBe('Oct 2016–Present')
+    expect(ongoing.computed?.startDate).toBe('Oct 2016')
+    expect(ongoing.computed?.endDate).toBe('Present')
+    expect(ongoing.positions.map(({ computed }) => computed)).toEqual([
+      {
+        startDate: 'Jan 2020',
+        endDate: 'Present',
+        dateRange: 'Jan 2020–Present',
+      },
+      {
+        startDate: 'Oct 2016',
+        endDate: 'Dec 2019',
+        dateRange: 'Oct 2016–Dec 2019',
+      },
+    ])
+    expect(ended.computed?.dateRange).toBe('Oct 2016–Dec 2019')
+    expect(ended.computed?.endDate).toBe('Dec 2019')
+  })
+
+  it('should transform dates with the date settings of the layout', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.layouts = [
+      { engine: 'markdown' },
+      {
+        engine: 'text',
+        dates: {
+          format: 'YYYY-MM',
+          separator: ' to ',
+          present: 'Now',
+          showDuration: true,
+        },
+      },
+    ]
+    resume.content.awards[0].date = 'Oct 1, 2016'
+    resume.content.work[0] = {
+      ...resume.content.work[0],
+      startDate: 'Oct 1, 2016',
+      endDate: 'Jan 1, 2018',
+      positions: [
+        { position: 'Engineer', startDate: 'Oct 1, 2016', endDate: '' },
+      ],
+    }
+    resume.content.education[0] = {
+      ...resume.content.education[0],
+      startDate: 'Oct 1, 2016',
+      endDate: 'Jan 1, 2018',
+    }
+
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2018-06-15'))
+
+    transformDate(resume, 1)
+    transformEndDate(resume, 1)
+
+    vi.useRealTimers()
+
+    expect(resume.content.awards[0].computed?.date).toBe('2016-10')
+    expect(resume.content.education[0].computed).toMatchObject({
+      startDate: '2016-10',
+      endDate: '2018-01',
+      dateRange: '2016-10 to 2018-01 (1 yr 4 mos)',
+    })
+    expect(resume.content.work[0].computed).toMatchObject({
+      startDate: '2016-10',
+      endDate: 'Now',
+      dateRange: '2016-10 to Now (1 yr 9 mos)',
+    })
+    expect(resume.content.work[0].positions[0].computed).toEqual({
+      startDate: '2016-10',
+      endDate: 'Now',
+      dateRange: '2016-10 to Now (1 yr 9 mos)',
+    })
+
+    // other layouts keep the default date settings
+    transformDate(resume, 0)
+
+    expect(resume.content.education[0].computed?.dateRange).toBe(
+      'Oct 2016–Jan 2018'
+    )
+  })
+
+  it('should escape the date separator and the present wording', () => {
+    const dates = { separator: ' & ', present: '100% <now>' }
+    const tests = [
+      { engine: 'latex', separator: ' \\& ', present: '100\\% <now>' },
+      { engine: 'html', separator: ' &amp; ', present: '100% &lt;now&gt;' },
+      { engine: 'text', separator: ' & ', present: '100% <now>' },
+    ] as const
+
+    for (const { engine, separator, present } of tests) {
+      const resume = cloneDeep(FILLED_RESUME)
+      resume.layouts = [{ engine, dates }]
+      resume.content.work[0] = {
+        ...resume.content.work[0],
+        startDate: 'Oct 1, 2016',
+        endDate: 'Jan 1, 2018',
+      }
+      resume.content.work[1] = {
+        ...resume.content.work[0],
+        endDate: '',
+      }
+
+      transformDate(resume, 0)
+      transformEndDate(resume, 0)
+
+      const [ended, ongoing] = resume.content.work
+
+      expect(ended.computed?.dateRange).toBe(`Oct 2016${separator}Jan 2018`)
+      expect(ongoing.computed?.dateRange).toBe(`Oct 2016${separator}${present}`)
+      expect(ongoing.computed?.endDate).toBe(present)
+    }
+
+    // the layout settings themselves are left untouched
+    expect(dates).toEqual({ separator: ' & ', present: '100% <now>' })
+  })
 })
 
 describe(transformEndDate, () => {
@@ -628,6 +876,8 @@ describe(transformLocation, () => {
   it('should transform location for English resume', () => {
     const latinComma = getTemplateTranslations('en').punctuations.comma
     const chineseComma = getTemplateTranslations('zh-hans').punctuations.comma
+    const japaneseComma = getTemplateTranslations('ja').punctuations.comma
+    const arabicComma = getTemplateTranslations('ar').punctuations.comma
 
     const englishLocation = getOptionTranslation(
       'en',
@@ -668,6 +918,54 @@ describe(transformLocation, () => {
       'United States'
     )
 
+    const germanLocation = getOptionTranslation(
+      'de',
+      'countries',
+      'United States'
+    )
+
+    const japaneseLocation = getOptionTranslation(
+      'ja',
+      'countries',
+      'United States'
+    )
+
+    const portugueseLocation = getOptionTranslation(
+      'pt',
+      'countries',
+      'United States'
+    )
+
+    const italianLocation = getOptionTranslation(
+      'it',
+      'countries',
+      'United States'
+    )
+
+    const koreanLocation = getOptionTranslation(
+      'ko',
+      'countries',
+      'United States'
+    )
+
+    const arabicLocation = getOptionTranslation(
+      'ar',
+      'countries',
+      'United States'
+    )
+
+    const hebrewLocation = getOptionTranslation(
+      'he',
+      'countries',
+      'United States'
+    )
+
+    const farsiLocation = getOptionTranslation(
+      'fa',
+      'countries',
+      'United States'
+    )
+
     const tests = [
       {
         postalCode: '',
@@ -683,6 +981,14 @@ describe(transformLocation, () => {
           'zh-hant-tw': '',
           fr: '',
           no: '',
+          de: '',
+          ja: '',
+          pt: '',
+          it: '',
+          ko: '',
+          ar: '',
+          he: '',
+          fa: '',
         },
       },
       {
@@ -703,6 +1009,14 @@ describe(transformLocation, () => {
           }${chineseComma}Sacramento${chineseComma}95814`,
           fr: `Sacramento${latinComma}${frenchLocation}${latinComma}95814`,
           no: `Sacramento${latinComma}${norwegianLocation}${latinComma}95814`,
+          de: `Sacramento${latinComma}${germanLocation}${latinComma}95814`,
+          ja: `${japaneseLocation}${japaneseComma}Sacramento${japaneseComma}95814`,
+          pt: `Sacramento${latinComma}${portugueseLocation}${latinComma}95814`,
+          it: `Sacramento${latinComma}${italianLocation}${latinComma}95814`,
+          ko: `${koreanLocation}${latinComma}Sacramento${latinComma}95814`,
+          ar: `Sacramento${arabicComma}${arabicLocation}${arabicComma}95814`,
+          he: `Sacramento${latinComma}${hebrewLocation}${latinComma}95814`,
+          fa: `Sacramento${arabicComma}${farsiLocation}${arabicComma}95814`,
         },
       },
       {
@@ -719,6 +1033,14 @@ describe(transformLocation, () => {
           'zh-hant-tw': `California${chineseComma}Sacramento${chineseComma}123 Main Street`,
           fr: `123 Main Street${latinComma}Sacramento${latinComma}California`,
           no: `123 Main Street${latinComma}Sacramento${latinComma}California`,
+          de: `123 Main Street${latinComma}Sacramento${latinComma}California`,
+          ja: `California${japaneseComma}Sacramento${japaneseComma}123 Main Street`,
+          pt: `123 Main Street${latinComma}Sacramento${latinComma}California`,
+          it: `123 Main Street${latinComma}Sacramento${latinComma}California`,
+          ko: `California${latinComma}Sacramento${latinComma}123 Main Street`,
+          ar: `123 Main Street${arabicComma}Sacramento${arabicComma}California`,
+          he: `123 Main Street${latinComma}Sacramento${latinComma}California`,
+          fa: `123 Main Street${arabicComma}Sacramento${arabicComma}California`,
         },
       },
       {
@@ -745,6 +1067,14 @@ describe(transformLocation, () => {
           }${chineseComma}California${chineseComma}Sacramento${chineseComma}123 Main Street${chineseComma}95814`,
           fr: `123 Main Street${latinComma}Sacramento${latinComma}California${latinComma}${frenchLocation}${latinComma}95814`,
           no: `123 Main Street${latinComma}Sacramento${latinComma}California${latinComma}${norwegianLocation}${latinComma}95814`,
+          de: `123 Main Street${latinComma}Sacramento${latinComma}California${latinComma}${germanLocation}${latinComma}95814`,
+          ja: `${japaneseLocation}${japaneseComma}California${japaneseComma}Sacramento${japaneseComma}123 Main Street${japaneseComma}95814`,
+          pt: `123 Main Street${latinComma}Sacramento${latinComma}California${latinComma}${portugueseLocation}${latinComma}95814`,
+          it: `123 Main Street${latinComma}Sacramento${latinComma}California${latinComma}${italianLocation}${latinComma}95814`,
+          ko: `${koreanLocation}${latinComma}California${latinComma}Sacramento${latinComma}123 Main Street${latinComma}95814`,
+          ar: `123 Main Street${arabicComma}Sacramento${arabicComma}California${arabicComma}${arabicLocation}${arabicComma}95814`,
+          he: `123 Main Street${latinComma}Sacramento${latinComma}California${latinComma}${hebrewLocation}${latinComma}95814`,
+          fa: `123 Main Street${arabicComma}Sacramento${arabicComma}California${arabicComma}${farsiLocation}${arabicComma}95814`,
         },
       },
     ]
@@ -780,6 +1110,128 @@ describe(transformLocation, () => {
   })
 })
 
+describe(collectSummaryDiagnostics, () => {
+  it('should return no diagnostics for supported markdown', () => {
+    expect(collectSummaryDiagnostics(cloneDeep(FILLED_RESUME))).toEqual([])
+  })
+
+  it('should collect diagnostics with the path to the summary', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    resume.content.basics.summary = '![avatar](avatar.png)'
+    resume.content.work[0].summary = 'Line 1\n\n---\n\nSee ![chart](c.png)'
+
+    expect(collectSummaryDiagnostics(resume)).toEqual([
+      {
+        message: 'images are not supported and were removed',
+        line: 1,
+        column: 1,
+        offset: 0,
+        path: ['content', 'basics', 'summary'],
+      },
+      {
+        message: 'thematic breaks are not supported and were removed',
+        line: 3,
+        column: 1,
+        offset: 8,
+        path: ['content', 'work', 0, 'summary'],
+      },
+      {
+        message: 'images are not supported and were removed',
+        line: 5,
+        column: 5,
+        offset: 17,
+        path: ['content', 'work', 0, 'summary'],
+      },
+    ])
+  })
+
+  it('should skip summaries that are not strings', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    // @ts-ignore
+    resume.content.basics.summary = 42
+    // @ts-ignore
+    resume.content.work = 'not a list'
+
+    expect(collectSummaryDiagnostics(resume)).toEqual([])
+  })
+
+  it('should collect diagnostics of each value of localized summaries', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    // @ts-ignore
+    resume.content.basics.summary = {
+      en: 'A plain summary',
+      'zh-hans': '![头像](avatar.png)',
+    }
+
+    expect(collectSummaryDiagnostics(resume)).toEqual([
+      {
+        message: 'images are not supported and were removed',
+        line: 1,
+        column: 1,
+        offset: 0,
+        path: ['content', 'basics', 'summary', 'zh-hans'],
+      },
+    ])
+  })
+
+  it('should collect diagnostics of custom section items', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.custom = [
+      { id: 'patents', title: 'Patents', items: [] },
+      {
+        id: 'talks',
+        title: 'Talks',
+        items: [{ name: 'Talk', summary: '![slide](slide.png)' }],
+      },
+    ]
+
+    expect(collectSummaryDiagnostics(resume)).toEqual([
+      {
+        message: 'images are not supported and were removed',
+        line: 1,
+        column: 1,
+        offset: 0,
+        path: ['content', 'custom', 1, 'items', 0, 'summary'],
+      },
+    ])
+  })
+
+  it('should collect diagnostics of highlights', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.projects[0].highlights = ['Shipped it', '![demo](d.png)']
+
+    expect(collectSummaryDiagnostics(resume)).toEqual([
+      {
+        message: 'images are not supported and were removed',
+        line: 1,
+        column: 1,
+        offset: 0,
+        path: ['content', 'projects', 0, 'highlights', 1],
+      },
+    ])
+  })
+
+  it('should collect diagnostics of work positions', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.work[0].positions = [
+      { position: 'Engineer', startDate: '2020', summary: '![logo](l.png)' },
+    ]
+
+    expect(collectSummaryDiagnostics(resume)).toEqual([
+      {
+        message: 'images are not supported and were removed',
+        line: 1,
+        column: 1,
+        offset: 0,
+        path: ['content', 'work', 0, 'positions', 0, 'summary'],
+      },
+    ])
+  })
+})
+
 describe(transformSummary, () => {
   const layoutIndex = 0
 
@@ -894,23 +1346,185 @@ describe(transformSummary, () => {
     )
   })
 
-  it('should skip transformation for markdown layout', () => {
+  it('should normalize markdown for markdown layout', () => {
     const resume = cloneDeep(FILLED_RESUME)
-    const summary = 'Test summary'
 
-    resume.content.basics.summary = summary
+    resume.content.basics.summary =
+      '* __Bold__ item\n\n* _Italic_ item\n   1. nested_item'
+    resume.content.work[0].summary = 'First paragraph\n\nSecond paragraph'
     resume.layouts = [{ engine: 'markdown' as const }]
 
-    const summaryParser = new MarkdownParser()
+    transformSummary(resume, layoutIndex, new MarkdownParser())
 
-    // Capture the original resume state to ensure no changes
-    const originalResume = cloneDeep(resume)
+    expect(resume.content.basics.computed?.summary).toEqual(
+      '- **Bold** item\n- *Italic* item\n  1. nested\\_item'
+    )
+    expect(resume.content.work[0].computed?.summary).toEqual(
+      'First paragraph\n\nSecond paragraph'
+    )
+  })
+
+  it('should generate html for html layout', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    const summary = '- **Bold** item\n\n- *Italic* item'
+
+    resume.content.basics.summary = summary
+    resume.layouts = [{ engine: 'html' as const }]
+
+    const summaryParser = new MarkdownParser()
 
     transformSummary(resume, layoutIndex, summaryParser)
 
-    // Should be identical to original, meaning no computed properties added
-    expect(resume).toEqual(originalResume)
-    expect(resume.content.basics.computed).toBeUndefined()
+    const expected = new HtmlCodeGenerator()
+      .generate(summaryParser.parse(summary))
+      .trim()
+
+    expect(resume.content.basics.computed?.summary).toEqual(expected)
+    expect(resume.content.basics.computed?.summary).not.toMatch('%')
+  })
+
+  it('should generate plain text for text layout', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    const summary = '- **Bold** item\n\n- *Italic* item'
+
+    resume.content.basics.summary = summary
+    resume.content.work[0].summary = 'First paragraph\n\nSecond paragraph'
+    resume.layouts = [{ engine: 'text' as const }]
+
+    transformSummary(resume, layoutIndex, new MarkdownParser())
+
+    expect(resume.content.basics.computed?.summary).toEqual(
+      '- Bold item\n- Italic item'
+    )
+    expect(resume.content.work[0].computed?.summary).toEqual(
+      'First paragraph\n\nSecond paragraph'
+    )
+  })
+
+  it('should generate typst markup for typst layout', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    resume.content.basics.summary = '- **Bold** item\n\n- *Italic* item'
+    resume.content.work[0].summary = 'First paragraph\n\nSecond paragraph'
+    resume.layouts = [{ engine: 'typst' as const }]
+
+    transformSummary(resume, layoutIndex, new MarkdownParser())
+
+    expect(resume.content.basics.computed?.summary).toEqual(
+      '- #strong[Bold] item\n- #emph[Italic] item'
+    )
+    expect(resume.content.work[0].computed?.summary).toEqual(
+      'First paragraph\n\nSecond paragraph'
+    )
+  })
+
+  it('should generate wordprocessingml for docx layout', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    resume.content.basics.summary = '- **Bold** item'
+    resume.content.work[0].summary = 'First paragraph\n\nSecond paragraph'
+    resume.layouts = [{ engine: 'docx' as const }]
+
+    transformSummary(resume, layoutIndex, new MarkdownParser())
+
+    expect(resume.content.basics.computed?.summary).toEqual(
+      [
+        '<w:p><w:pPr><w:pStyle w:val="ListBullet"/>',
+        '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr>',
+        '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">Bold</w:t></w:r>',
+        '<w:r><w:t xml:space="preserve"> item</w:t></w:r></w:p>',
+      ].join('')
+    )
+    expect(resume.content.work[0].computed?.summary).toEqual(
+      [
+        '<w:p><w:r><w:t xml:space="preserve">First paragraph</w:t></w:r></w:p>',
+        '<w:p><w:r><w:t xml:space="preserve">Second paragraph</w:t></w:r></w:p>',
+      ].join('')
+    )
+  })
+
+  it('should transform summary of custom section items', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.custom = [
+      {
+        id: 'talks',
+        title: 'Talks',
+        items: [
+          { ...RESUME_SECTION_ITEMS.custom, summary: 'A **bold** talk' },
+          { ...RESUME_SECTION_ITEMS.custom },
+        ],
+      },
+    ]
+
+    transformSummary(resume, layoutIndex, new MarkdownParser())
+
+    expect(resume.content.custom[0].items[0].computed?.summary).toBe(
+      'A \\textbf{bold} talk'
+    )
+    expect(resume.content.custom[0].items[1].computed?.summary).toBe('')
+  })
+
+  it('should transform summary of work positions', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.work[0].positions = [
+      { ...RESUME_SECTION_ITEMS.workPosition, summary: 'A **bold** role' },
+    ]
+
+    transformSummary(resume, layoutIndex, new MarkdownParser())
+
+    expect(resume.content.work[0].positions[0].computed?.summary).toBe(
+      'A \\textbf{bold} role'
+    )
+  })
+})
+
+describe(transformHighlights, () => {
+  const layoutIndex = 0
+
+  it('should transform highlights to a latex itemize list', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.work[0].highlights = ['Led **Project X**', 'R&D']
+    resume.content.projects[0].highlights = []
+    resume.content.volunteer[0].highlights = ['Organized meetups']
+
+    transformResumeValues(resume)
+    transformHighlights(resume, layoutIndex, new MarkdownParser())
+
+    expect(resume.content.work[0].computed?.highlights).toBe(
+      [
+        '\\begin{itemize}',
+        '\\item Led \\textbf{Project X}',
+        '\\item R\\&D',
+        '\\end{itemize}',
+      ].join('\n')
+    )
+    expect(resume.content.projects[0].computed?.highlights).toBe('')
+    expect(resume.content.volunteer[0].computed?.highlights).toBe(
+      '\\begin{itemize}\n\\item Organized meetups\n\\end{itemize}'
+    )
+  })
+
+  it('should generate bullet lists for other layouts', () => {
+    const tests = [
+      {
+        layout: { engine: 'html' as const },
+        expected: '<ul>\n<li>R&amp;D</li>\n</ul>',
+      },
+      { layout: { engine: 'text' as const }, expected: '- R&D' },
+      { layout: { engine: 'markdown' as const }, expected: '- R&D' },
+      { layout: { engine: 'typst' as const }, expected: '- R&D' },
+    ]
+
+    for (const { layout, expected } of tests) {
+      const resume = cloneDeep(FILLED_RESUME)
+      resume.content.work[0].highlights = ['R&D']
+      resume.layouts = [layout]
+
+      transformResumeValues(resume, layoutIndex)
+      transformHighlights(resume, layoutIndex, new MarkdownParser())
+
+      expect(resume.content.work[0].computed?.highlights).toBe(expected)
+    }
   })
 })
 
@@ -1012,6 +1626,57 @@ describe(transformSectionNames, () => {
     )
   })
 
+  it('should use section names from locale.overrides', () => {
+    const resume = cloneDeep(DEFAULT_RESUME)
+    resume.locale = {
+      language: 'en',
+      overrides: { sections: { work: 'Experience', skills: 'Tech Stack' } },
+    }
+
+    if (resume.layouts?.[layoutIndex]) {
+      resume.layouts[layoutIndex].sections = {
+        aliases: { work: 'Professional Experience' },
+      }
+    }
+
+    transformSectionNames(resume, layoutIndex, summaryParser)
+
+    // layout aliases still take precedence over locale overrides
+    expect(resume.content.computed?.sectionNames?.work).toEqual(
+      'Professional Experience'
+    )
+    expect(resume.content.computed?.sectionNames?.skills).toEqual('Tech Stack')
+  })
+
+  it('should escape custom section titles for the layout engine', () => {
+    const title = 'Open Source & *Community* #1'
+    const tests = [
+      {
+        layout: { engine: 'latex' as const },
+        expected: 'Open Source \\& *Community* \\#1',
+      },
+      {
+        layout: { engine: 'markdown' as const },
+        expected: 'Open Source & \\*Community\\* #1',
+      },
+      // html, typst and docx renderers escape section names themselves
+      { layout: { engine: 'html' as const }, expected: title },
+      { layout: { engine: 'typst' as const }, expected: title },
+      { layout: { engine: 'docx' as const }, expected: title },
+      { layout: { engine: 'text' as const }, expected: title },
+    ]
+
+    for (const { layout, expected } of tests) {
+      const resume = cloneDeep(DEFAULT_RESUME)
+      resume.layouts = [layout]
+      resume.content.custom = [{ id: 'community', title, items: [] }]
+
+      transformSectionNames(resume, layoutIndex, summaryParser)
+
+      expect(resume.content.computed?.sectionNames?.community).toEqual(expected)
+    }
+  })
+
   it('should work correctly when sections.alias is undefined', () => {
     const resume = cloneDeep(DEFAULT_RESUME)
     resume.locale = { language: 'en' }
@@ -1075,6 +1740,20 @@ describe(transformSectionNames, () => {
       getOptionTranslation('en', 'sections', 'projects')
     )
   })
+
+  it('should use titles of custom sections as their section names', () => {
+    const resume = cloneDeep(DEFAULT_RESUME)
+    resume.content.custom = [
+      { id: 'talks', title: 'Talks & Keynotes', items: [] },
+    ]
+
+    transformSectionNames(resume, layoutIndex, summaryParser)
+
+    expect(resume.content.computed?.sectionNames?.talks).toEqual(
+      'Talks \\& Keynotes'
+    )
+    expect(resume.content.computed?.sectionNames).not.toHaveProperty('custom')
+  })
 })
 
 describe(transformBasicsUrl, () => {
@@ -1217,6 +1896,60 @@ describe(transformResumeValues, () => {
     expect(resume.content.certificates[0].issuer).toEqual('AWS\\%Amazon')
   })
 
+  it('should transform resume values with escapeHtml for html layout', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    resume.layouts = [{ engine: 'html' }]
+    resume.content.basics.headline = 'Again & Again'
+    resume.content.basics.email = 'again_again@yamlresume.com'
+    resume.content.awards[0].awarder = '<AWS>'
+
+    transformResumeValues(resume, 0)
+
+    expect(resume.content.basics.headline).toEqual('Again &amp; Again')
+    expect(resume.content.basics.email).toEqual('again_again@yamlresume.com')
+    expect(resume.content.awards[0].awarder).toEqual('&lt;AWS&gt;')
+  })
+
+  it('should not escape resume values for text layout', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    resume.layouts = [{ engine: 'text' }]
+    resume.content.basics.headline = 'Again & Again'
+    resume.content.awards[0].awarder = '<AWS>_100%'
+
+    transformResumeValues(resume, 0)
+
+    expect(resume.content.basics.headline).toEqual('Again & Again')
+    expect(resume.content.awards[0].awarder).toEqual('<AWS>_100%')
+  })
+
+  it('should escape resume values as string literals for typst layout', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    resume.layouts = [{ engine: 'typst' }]
+    resume.content.basics.headline = 'The "Again" & Again'
+    resume.content.awards[0].awarder = '<AWS>_100%\\'
+
+    transformResumeValues(resume, 0)
+
+    expect(resume.content.basics.headline).toEqual('The \\"Again\\" & Again')
+    expect(resume.content.awards[0].awarder).toEqual('<AWS>_100%\\\\')
+  })
+
+  it('should escape resume values as xml for docx layout', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    resume.layouts = [{ engine: 'docx' }]
+    resume.content.basics.headline = 'Again & Again'
+    resume.content.awards[0].awarder = '<AWS>_100%'
+
+    transformResumeValues(resume, 0)
+
+    expect(resume.content.basics.headline).toEqual('Again &amp; Again')
+    expect(resume.content.awards[0].awarder).toEqual('&lt;AWS&gt;_100%')
+  })
+
   it('should ignore computed values', () => {
     const resume = cloneDeep(FILLED_RESUME)
     const urls = 'url1 {} url2 {}'
@@ -1231,6 +1964,42 @@ describe(transformResumeValues, () => {
       urls,
     })
   })
+
+  it('should escape items of custom sections but not their titles', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.custom = [
+      {
+        id: 'talks',
+        title: 'Talks & Keynotes',
+        items: [
+          {
+            ...RESUME_SECTION_ITEMS.custom,
+            name: 'R&D',
+            keywords: ['C#'],
+          },
+        ],
+      },
+    ]
+
+    transformResumeValues(resume)
+
+    expect(resume.content.custom[0].title).toEqual('Talks & Keynotes')
+    expect(resume.content.custom[0].items[0].name).toEqual('R\\&D')
+    expect(resume.content.custom[0].items[0].keywords).toEqual(['C\\#'])
+  })
+
+  it('should escape values of work positions', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+    resume.content.work[0].positions = [
+      { ...RESUME_SECTION_ITEMS.workPosition, position: 'R&D Engineer' },
+    ]
+
+    transformResumeValues(resume)
+
+    expect(resume.content.work[0].positions[0].position).toEqual(
+      'R\\&D Engineer'
+    )
+  })
 })
 
 describe(transformResumeContent, () => {
@@ -1298,7 +2067,13 @@ describe(transformResumeLayoutLaTeX, () => {
   })
 
   it('should set numbers to Lining for CJK resume', () => {
-    for (const language of ['zh-hans', 'zh-hant-hk', 'zh-hant-tw'] as const) {
+    for (const language of [
+      'zh-hans',
+      'zh-hant-hk',
+      'zh-hant-tw',
+      'ja',
+      'ko',
+    ] as const) {
       const resume = cloneDeep(DEFAULT_RESUME)
 
       resume.locale = { ...resume.locale, language }
@@ -1439,6 +2214,63 @@ describe(transformResumeLayoutsWithDefaultValues, () => {
     expect(transformed.layouts?.[0].sections?.order).toEqual(sectionOrder)
   })
 
+  it('should merge html layout with defaults', () => {
+    const resume = cloneDeep(DEFAULT_RESUME)
+    resume.layouts = [{ engine: 'html', theme: 'dark' }]
+
+    const transformed = transformResumeLayoutsWithDefaultValues(resume)
+    const layout = transformed.layouts?.[0] as HtmlLayout
+    expect(layout.engine).toEqual('html')
+    expect(layout.theme).toEqual('dark')
+    expect(layout.typography?.fontSize).toEqual(
+      DEFAULT_HTML_LAYOUT.typography?.fontSize
+    )
+  })
+
+  it('should merge text layout with defaults', () => {
+    const resume = cloneDeep(DEFAULT_RESUME)
+    resume.layouts = [
+      { engine: 'text' },
+      { engine: 'text', page: { lineWidth: 72 } },
+    ]
+
+    const transformed = transformResumeLayoutsWithDefaultValues(resume)
+    expect(transformed.layouts?.[0]).toEqual(DEFAULT_TEXT_LAYOUT)
+    expect((transformed.layouts?.[1] as TextLayout).page?.lineWidth).toEqual(72)
+  })
+
+  it('should merge typst layout with defaults', () => {
+    const resume = cloneDeep(DEFAULT_RESUME)
+    resume.layouts = [
+      { engine: 'typst' },
+      { engine: 'typst', typography: { fontSize: '12pt' } },
+    ]
+
+    const transformed = transformResumeLayoutsWithDefaultValues(resume)
+    expect(transformed.layouts?.[0]).toEqual(DEFAULT_TYPST_LAYOUT)
+    expect((transformed.layouts?.[1] as TypstLayout).typography).toEqual({
+      fontSize: '12pt',
+    })
+    expect((transformed.layouts?.[1] as TypstLayout).page).toEqual(
+      DEFAULT_TYPST_LAYOUT.page
+    )
+  })
+
+  it('should merge docx layout with defaults', () => {
+    const resume = cloneDeep(DEFAULT_RESUME)
+    resume.layouts = [
+      { engine: 'docx' },
+      { engine: 'docx', page: { showPageNumbers: true } },
+    ]
+
+    const transformed = transformResumeLayoutsWithDefaultValues(resume)
+    expect(transformed.layouts?.[0]).toEqual(DEFAULT_DOCX_LAYOUT)
+    expect((transformed.layouts?.[1] as DocxLayout).page).toEqual({
+      ...DEFAULT_DOCX_LAYOUT.page,
+      showPageNumbers: true,
+    })
+  })
+
   it('should return layout with unknown engine', () => {
     const resume = cloneDeep(DEFAULT_RESUME)
     // @ts-ignore
@@ -1493,3 +2325,277 @@ describe(transformResumeLayout, () => {
     })
   })
 })
+
+describe(transformLocalizedStrings, () => {
+  it('should replace localized strings with values for locale language', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    // @ts-ignore
+    resume.content.work[0].position = { en: 'Engineer', 'zh-hans': '工程师' }
+    resume.locale = { language: 'zh-hans' }
+
+    const transformed = transformLocalizedStrings(resume)
+
+    expect(transformed.content.work[0].position).toBe('工程师')
+    expect(transformed.content.work[0].name).toBe(
+      FILLED_RESUME.content.work[0].name
+    )
+  })
+
+  it('should be applied by transformResume', () => {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    // @ts-ignore
+    resume.content.basics.headline = { en: 'Engineer', fr: 'Ingénieur' }
+    resume.layouts = [{ engine: 'markdown' }]
+    resume.locale = { language: 'fr' }
+
+    const transformed = transformResume(resume, 0, new MarkdownParser())
+
+    expect(transformed.content.basics.headline).toBe('Ingénieur')
+  })
+})
+
+describe(filterResumeContent, () => {
+  function getResume(): Resume {
+    const resume = cloneDeep(DEFAULT_RESUME)
+
+    resume.content.work = [
+      { ...FILLED_RESUME.content.work[0], name: 'A', tags: ['backend'] },
+      { ...FILLED_RESUME.content.work[0], name: 'B', tags: ['frontend'] },
+      {
+        ...FILLED_RESUME.content.work[0],
+        name: 'C',
+        tags: ['backend', 'old'],
+      },
+      { ...FILLED_RESUME.content.work[0], name: 'D' },
+    ]
+
+    return resume
+  }
+
+  function filterWork(filters: LatexLayout['filters']) {
+    const resume = getResume()
+    resume.layouts = [{ engine: 'latex', filters }]
+
+    return filterResumeContent(resume, 0).content.work.map(({ name }) => name)
+  }
+
+  it('should keep all items without filters', () => {
+    expect(filterWork(undefined)).toEqual(['A', 'B', 'C', 'D'])
+    expect(filterWork({})).toEqual(['A', 'B', 'C', 'D'])
+    expect(filterWork({ work: { include: {}, exclude: {} } })).toEqual([
+      'A',
+      'B',
+      'C',
+      'D',
+    ])
+  })
+
+  it('should include items by tags or indices', () => {
+    expect(filterWork({ work: { include: { tags: ['backend'] } } })).toEqual([
+      'A',
+      'C',
+    ])
+    expect(filterWork({ work: { include: { indices: [0, 1, 2] } } })).toEqual([
+      'A',
+      'B',
+      'C',
+    ])
+    expect(
+      filterWork({ work: { include: { tags: ['frontend'], indices: [3] } } })
+    ).toEqual(['B', 'D'])
+  })
+
+  it('should exclude items by tags or indices', () => {
+    expect(filterWork({ work: { exclude: { tags: ['old'] } } })).toEqual([
+      'A',
+      'B',
+      'D',
+    ])
+    expect(
+      filterWork({
+        work: { include: { tags: ['backend'] }, exclude: { indices: [2] } },
+      })
+    ).toEqual(['A'])
+  })
+
+  it('should only filter the selected layout', () => {
+    const resume = getResume()
+    resume.layouts = [
+      { engine: 'markdown' },
+      { engine: 'latex', filters: { work: { include: { indices: [0] } } } },
+    ]
+
+    expect(filterResumeContent(cloneDeep(resume), 0).content.work).toHaveLength(
+      4
+    )
+    expect(filterResumeContent(cloneDeep(resume), 1).content.work).toHaveLength(
+      1
+    )
+  })
+
+  it('should be applied by transformResume', () => {
+    const resume = getResume()
+    resume.layouts = [
+      { engine: 'markdown', filters: { work: { include: { tags: ['old'] } } } },
+    ]
+
+    const transformed = transformResume(resume, 0, new MarkdownParser())
+
+    expect(transformed.content.work.map(({ name }) => name)).toEqual(['C'])
+    // the original resume should not be modified
+    expect(resume.content.work).toHaveLength(4)
+  })
+})
+
+describe(hideResumeContent, () => {
+  function getResume(): Resume {
+    const resume = cloneDeep(FILLED_RESUME)
+
+    resume.content.basics = {
+      ...resume.content.basics,
+      name: 'Andy Dufresne',
+      phone: '(213) 555-1234',
+    }
+    resume.content.location = {
+      ...resume.content.location,
+      address: '123 Main Street',
+      city: 'Sacramento',
+    }
+    resume.content.work = [
+      { ...FILLED_RESUME.content.work[0], name: 'A', url: 'https://a.com' },
+      { ...FILLED_RESUME.content.work[0], name: 'B', url: 'https://b.com' },
+    ]
+    resume.content.custom = [
+      { id: 'talks', title: 'Talks', items: [] },
+      { id: 'patents', title: 'Patents', items: [] },
+    ]
+
+    return resume
+  }
+
+  it('should keep all content without hidden sections or fields', () => {
+    const resume = getResume()
+    resume.layouts = [{ engine: 'markdown', sections: {}, fields: {} }]
+
+    expect(hideResumeContent(cloneDeep(resume), 0).content).toEqual(
+      resume.content
+    )
+  })
+
+  it('should hide sections', () => {
+    const resume = getResume()
+    resume.layouts = [
+      { engine: 'markdown', sections: { hide: ['references', 'talks'] } },
+    ]
+
+    const { content } = hideResumeContent(resume, 0)
+
+    expect(content.references).toBeUndefined()
+    expect(content.work).toHaveLength(2)
+    expect(content.custom.map(({ id }) => id)).toEqual(['patents'])
+  })
+
+  it('should only hide the summary of basics', () => {
+    const resume = getResume()
+    resume.content.basics.summary = 'A summary'
+    resume.layouts = [{ engine: 'markdown', sections: { hide: ['basics'] } }]
+
+    const { content } = hideResumeContent(resume, 0)
+
+    expect(content.basics).not.toHaveProperty('summary')
+    expect(content.basics.name).toBe('Andy Dufresne')
+    expect(content.basics.phone).toBe('(213) 555-1234')
+  })
+
+  it('should hide fields of object and list sections', () => {
+    const resume = getResume()
+    resume.layouts = [
+      {
+        engine: 'markdown',
+        fields: { hide: ['basics.phone', 'location.address', 'work.url'] },
+      },
+    ]
+
+    const { content } = hideResumeContent(resume, 0)
+
+    expect(content.basics).not.toHaveProperty('phone')
+    expect(content.basics.name).toBe('Andy Dufresne')
+    expect(content.location).not.toHaveProperty('address')
+    expect(content.location.city).toBe('Sacramento')
+    for (const item of content.work) {
+      expect(item).not.toHaveProperty('url')
+    }
+    expect(content.work.map(({ name }) => name)).toEqual(['A', 'B'])
+  })
+
+  it('should hide summaries of grouped positions', () => {
+    for (const field of ['work.summary', 'work.highlights'] as const) {
+      const resume = getResume()
+      resume.content.work[0].positions = [
+        {
+          position: 'Senior Engineer',
+          startDate: '2020-01-01',
+          summary: 'Led the payments team',
+        },
+        {
+          position: 'Engineer',
+          startDate: '2018-01-01',
+          summary: 'Built the billing system',
+        },
+      ]
+      resume.layouts = [{ engine: 'markdown', fields: { hide: [field] } }]
+
+      const transformed = transformResume(resume, 0, new MarkdownParser())
+      const [work] = transformed.content.work
+
+      expect(work.positions.map(({ position }) => position)).toEqual([
+        'Senior Engineer',
+        'Engineer',
+      ])
+      for (const position of work.positions) {
+        expect(position.summary ?? '').toBe('')
+        expect(position.computed?.summary ?? '').toBe('')
+      }
+    }
+  })
+
+  it('should only hide content of the selected layout', () => {
+    const resume = getResume()
+    resume.layouts = [
+      { engine: 'markdown' },
+      { engine: 'html', fields: { hide: ['basics.phone'] } },
+    ]
+
+    expect(hideResumeContent(cloneDeep(resume), 0).content.basics.phone).toBe(
+      '(213) 555-1234'
+    )
+    expect(
+      hideResumeContent(cloneDeep(resume), 1).content.basics
+    ).not.toHaveProperty('phone')
+  })
+
+  it('should be applied by transformResume', () => {
+    const resume = getResume()
+    resume.layouts = [
+      {
+        engine: 'markdown',
+        sections: { hide: ['references'] },
+        fields: { hide: ['basics.phone', 'location.address'] },
+      },
+    ]
+
+    const transformed = transformResume(resume, 0, new MarkdownParser())
+
+    expect(transformed.content.references).toEqual([])
+    expect(transformed.content.basics.phone).toBe('')
+    expect(transformed.content.location.address).toBe('')
+    expect(transformed.content.location.computed.fullAddress).not.toContain(
+      '123 Main Street'
+    )
+    // the original resume should not be modified
+    expect(resume.content.basics.phone).toBe('(213) 555-1234')
+    expect(resume.content.references).toHaveLength(1)
+  })
+})
@@ -22,23 +22,53 @@
  * IN THE SOFTWARE.
  */
 
-import { capitalize, cloneDeep, isArray, merge } from 'lodash-es'
+import { capitalize, cloneDeep, isArray, isPlainObject, merge } from 'lodash-es'
 
-import { LatexCodeGenerator, type Parser } from '@/compiler'
 import {
+  type CodeGenerator,
+  type DocNode,
+  DocxCodeGenerator,
+  HtmlCodeGenerator,
+  LatexCodeGenerator,
+  MarkdownCodeGenerator,
+  MarkdownParser,
+  type Node,
+  type Parser,
+  type ParserDiagnostic,
+  TextCodeGenerator,
+  TypstCodeGenerator,
+} from '@/compiler'
+import { isLocalizedString, localizeResume } from '@/converter'
+import {
+  type CustomSection,
+  DEFAULT_DOCX_LAYOUT,
+  DEFAULT_HTML_LAYOUT,
   DEFAULT_LATEX_LAYOUT,
   DEFAULT_MARKDOWN_LAYOUT,
   DEFAULT_RESUME_LAYOUTS,
   DEFAULT_RESUME_LOCALE,
+  DEFAULT_TEXT_LAYOUT,
+  DEFAULT_TYPST_LAYOUT,
   FILLED_RESUME_CONTENT,
+  FILTERABLE_SECTION_IDS,
+  type FilterableSectionID,
+  type LayoutDates,
+  ORDERABLE_SECTION_IDS,
   type ProfileItem,
+  RESUME_SECTION_ITEMS,
   type Resume,
+  type ResumeLayoutEngine,
   type SectionID,
+  type WorkPositionItem,
 } from '@/models'
 import { getOptionTranslation, getTemplateTranslations } from '@/translations'
 import {
+  escapeHtml,
   escapeLatex,
+  escapeMarkdown,
+  escapeTypstString,
   getDateRange,
+  getOverallDates,
   isEmptyValue,
   joinNonEmptyString,
   localizeDate,
@@ -114,6 +144,21 @@ export function normalizedResumeContent(resume: Resume): Resume {
       switch (sectionKey) {
         case 'computed':
           break
+        case 'custom':
+          // custom sections are lists of sections, each with a list of items
+          for (const section of sectionValue as CustomSection[]) {
+            section.id = section.id ?? ''
+            section.title = section.title ?? ''
+            section.items = section.items ?? []
+            section.items.forEach((item) => {
+              Object.keys(RESUME_SECTION_ITEMS.custom).forEach((propKey) => {
+                if (item[propKey] === null || item[propKey] === undefined) {
+                  item[propKey] = propKey === 'keywords' ? [] : ''
+                }
+              })
+            })
+          }
+          break
         case 'basics':
         case 'location':
           // for basics and location, iterate through all keys
@@ -135,9 +180,12 @@ export function normalizedResumeContent(resume: Resume): Resume {
                   (propKey) => {
                     if (item[propKey] === null || item[propKey] === undefined) {
                       switch (propKey) {
-                        // for courses and keywords, we set them to empty array
+                        // for courses, highlights, keywords and positions, we
+                        // set them to empty array
                         case 'courses':
+                        case 'highlights':
                         case 'keywords':
+                        case 'positions':
                           item[propKey] = []
                           break
                         default:
@@ -146,6 +194,22 @@ export function normalizedResumeContent(resume: Resume): Resume {
                     }
                   }
                 )
+
+                // positions grouped under a work item are objects as well
+                if (sectionKey === 'work') {
+                  item.positions.forEach((position: WorkPositionItem) => {
+                    Object.keys(RESUME_SECTION_ITEMS.workPosition).forEach(
+                      (propKey) => {
+                        if (
+                          position[propKey] === null ||
+                          position[propKey] === undefined
+                        ) {
+                          position[propKey] = ''
+                        }
+                      }
+                    )
+                  })
+                }
               }
             })
           }
@@ -156,26 +220,73 @@ export function normalizedResumeContent(resume: Resume): Resume {
   return resumeWithDefaults
 }
 
+/**
+ * A function that escapes special characters for the output format.
+ */
+type EscapeFunction = (value: string | null | undefined) => string
+
+/**
+ * Get the escape function for the values of the given layout engine.
+ *
+ * @param engine - The layout engine, default to LaTeX if absent.
+ * @returns The escape function.
+ */
+function getEscapeFunction(engine?: ResumeLayoutEngine): EscapeFunction {
+  switch (engine) {
+    case 'html':
+    case 'docx':
+      return escapeHtml
+    case 'typst':
+      return escapeTypstString
+    default:
+      return escapeLatex
+  }
+}
+
 /**
  * Iterates through all resume content sections and applies `escapeLatex` to
  * relevant string fields and array elements using helper functions.
  *
+ * For html layouts `escapeHtml` is applied instead, so that the values can be
+ * embedded into the web page safely, the same goes for docx layouts because
+ * the escaped values are valid XML as well. For typst layouts `escapeTypstString` is
+ * applied, because the values are embedded as Typst string literals. Text
+ * layouts do not need any escaping so the values are left untouched.
+ *
  * @param resume - The resume object to process.
+ * @param layoutIndex - The index of the selected layout.
  * @returns The processed resume object.
  * @remarks Modifies the `resume.content` object and its children directly.
  */
-export function transformResumeValues(resume: Resume): Resume {
+export function transformResumeValues(
+  resume: Resume,
+  layoutIndex?: number
+): Resume {
+  if (resume.layouts?.[layoutIndex]?.engine === 'text') {
+    return resume
+  }
+
+  const escapeValue = getEscapeFunction(resume.layouts?.[layoutIndex]?.engine)
+
   Object.entries(resume.content).forEach(([key, value]) => {
     // only resume.basics and resume.location are objects, others are all arrays
     if (key === 'basics' || key === 'location') {
-      transformResumeSectionValues(value)
+      transformResumeSectionValues(value, escapeValue)
+    } else if (key === 'custom') {
+      // titles of custom sections are escaped by `transformSectionNames`, only
+      // the items are escaped here
+      resume.content.custom.forEach(({ items }) => {
+        items.forEach((item) => {
+          transformResumeSectionValues(item, escapeValue)
+        })
+      })
     } else if (key === 'computed') {
       // `computed` object will be handled separately
       // for now, `transformSocialLinks` will handle it
       return
     } else {
       resume.content[key].forEach((_, index: number) => {
-        transformResumeSectionValues(value[index])
+        transformResumeSectionValues(value[index], escapeValue)
       })
     }
   })
@@ -184,48 +295,65 @@ export function transformResumeValues(resume: Resume): Resume {
 }
 
 /**
- * Transform all values in `computed` field with `escapeLatex`.
+ * Transform all values in `computed` field with the escape function.
  */
-function transformResumeSectionComputedValues(sectionResumeComputed: {
-  [key: string]: string
-}): void {
+function transformResumeSectionComputedValues(
+  sectionResumeComputed: {
+    [key: string]: string
+  },
+  escapeValue: EscapeFunction
+): void {
   Object.entries(sectionResumeComputed).forEach(([key, value]) => {
-    sectionResumeComputed[key] = escapeLatex(value)
+    sectionResumeComputed[key] = escapeValue(value)
   })
 }
 
 /**
- * Transform all the values in `sectionResumeItem` with `escapeLatex`
+ * Transform all the values in `sectionResumeItem` with the escape function.
  *
  * @param sectionResumeItem - a dictionary object in a resume section, for
  * 'basics` and 'locations', it would be `resume.basics` and `resume.location`
  * respectively, for other sections, it would be `resume.education[0]`,
  * `resume.projects[0]` etc.
+ * @param escapeValue - the escape function, e.g, `escapeLatex` or `escapeHtml`
  */
-// biome-ignore lint/complexity/noBannedTypes: ignore
-function transformResumeSectionValues(sectionResumeItem: Object): void {
+function transformResumeSectionValues(
+  // biome-ignore lint/complexity/noBannedTypes: ignore
+  sectionResumeItem: Object,
+  escapeValue: EscapeFunction
+): void {
   Object.entries(sectionResumeItem).forEach(([key, value]) => {
-    if (key === 'summary') {
-      // we will handle the `summary` field in a `textNodeToTeX` function
-      // separately
+    if (key === 'summary' || key === 'highlights') {
+      // we will handle the `summary` and `highlights` fields in a
+      // `textNodeToTeX` function separately
       return
     }
 
     if (key === 'computed') {
       // deal with `computed` field separately
-      transformResumeSectionComputedValues(value)
+      transformResumeSectionComputedValues(value, escapeValue)
+      return
+    }
+
+    if (key === 'positions') {
+      // positions grouped under a work item are dictionary objects as well
+      ;(value as WorkPositionItem[]).forEach((position) => {
+        transformResumeSectionValues(position, escapeValue)
+      })
+
       return
     }
 
-    if (['courses', 'keywords'].includes(key)) {
+    // tags are only used by layout filters but they are string arrays as well
+    if (['courses', 'keywords', 'tags'].includes(key)) {
       sectionResumeItem[key] = (value as string[]).map((item) => {
-        return escapeLatex(item)
+        return escapeValue(item)
       })
 
       return
     }
 
-    sectionResumeItem[key] = escapeLatex(value)
+    sectionResumeItem[key] = escapeValue(value)
   })
 }
 
@@ -242,7 +370,7 @@ function transformResumeSectionValues(sectionResumeItem: Object): void {
 export function transformEducationCourses(resume: Resume): Resume {
   const {
     punctuations: { separator },
-  } = getTemplateTranslations(resume.locale?.language)
+  } = getTemplateTranslations(resume.locale?.language, resume.locale?.overrides)
 
   resume.content.education.forEach((item, index: number) => {
     if (!isEmptyValue(item.courses)) {
@@ -269,17 +397,18 @@ export function transformEducationCourses(resume: Resume): Resume {
 export function transformEducationDegreeAreaAndScore(resume: Resume): Resume {
   const {
     punctuations: { colon, comma },
-  } = getTemplateTranslations(resume.locale?.language)
+  } = getTemplateTranslations(resume.locale?.language, resume.locale?.overrides)
 
   const {
     terms: { score },
-  } = getTemplateTranslations(resume.locale?.language)
+  } = getTemplateTranslations(resume.locale?.language, resume.locale?.overrides)
 
   resume.content.education.forEach((item) => {
     const degree = getOptionTranslation(
       resume.locale?.language,
       'degrees',
-      item.degree
+      item.degree,
+      resume.locale?.overrides
     )
 
     item.computed = {
@@ -311,7 +440,7 @@ export function transformEducationDegreeAreaAndScore(resume: Resume): Resume {
 export function transformKeywords(resume: Resume): Resume {
   const {
     punctuations: { separator },
-  } = getTemplateTranslations(resume.locale?.language)
+  } = getTemplateTranslations(resume.locale?.language, resume.locale?.overrides)
 
   for (const section of [
     'interests',
@@ -339,26 +468,68 @@ export function transformKeywords(resume: Resume): Resume {
     )
   }
 
+  for (const { items } of resume.content.custom) {
+    items.forEach((item) => {
+      item.computed = {
+        ...item.computed,
+        keywords: isArray(item.keywords) ? item.keywords.join(separator) : '',
+      }
+    })
+  }
+
   return resume
 }
 
+/**
+ * Get the date settings of the selected layout.
+ *
+ * The separator and the wording of ongoing dates are user supplied text which
+ * is embedded into the output as is, so they are escaped in the same way as
+ * the values of the resume.
+ *
+ * @param resume - The resume object.
+ * @param layoutIndex - The index of the selected layout.
+ * @returns The date settings with escaped text, or `undefined` if absent.
+ */
+function getLayoutDates(resume: Resume, layoutIndex?: number): LayoutDates {
+  const layout = resume.layouts?.[layoutIndex]
+
+  if (isEmptyValue(layout?.dates) || layout.engine === 'text') {
+    return layout?.dates
+  }
+
+  const escapeValue = getEscapeFunction(layout.engine)
+
+  return {
+    ...layout.dates,
+    separator: escapeValue(layout.dates.separator),
+    present: escapeValue(layout.dates.present),
+  }
+}
+
 /**
  * Transforms various date fields (`date`, `releaseDate`, `startDate`,
  * `endDate`) across multiple sections into a localized format (e.g., "Month
  * Year") and calculates date ranges.
  *
- * Stores results in the respective `computed` objects.
+ * Stores results in the respective `computed` objects. Date formats, range
+ * separators, ongoing wording and durations follow `layout.dates` if present.
  *
  * @param resume - The resume object.
+ * @param layoutIndex - The index of the selected layout to pull date settings
+ * from.
  * @returns The transformed resume object.
  * @remarks Modifies items within relevant sections in place.
  */
-export function transformDate(resume: Resume): Resume {
+export function transformDate(resume: Resume, layoutIndex?: number): Resume {
+  const dates = getLayoutDates(resume, layoutIndex)
+  const language = resume.locale?.language
+
   for (const section of ['awards', 'certificates']) {
     resume.content[section].forEach((item: { date: string }, index: number) => {
       resume.content[section][index].computed = {
         ...resume.content[section][index].computed,
-        date: localizeDate(item.date, resume.locale?.language),
+        date: localizeDate(item.date, language, dates?.format),
       }
     })
   }
@@ -368,7 +539,7 @@ export function transformDate(resume: Resume): Resume {
       (item: { releaseDate: string }, index: number) => {
         resume.content[section][index].computed = {
           ...resume.content[section][index].computed,
-          releaseDate: localizeDate(item.releaseDate, resume.locale?.language),
+          releaseDate: localizeDate(item.releaseDate, language, dates?.format),
         }
       }
     )
@@ -376,51 +547,117 @@ export function transformDate(resume: Resume): Resume {
 
   for (const section of ['education', 'projects', 'volunteer', 'work']) {
     resume.content[section].forEach(
-      (item: { startDate: string; endDate: string }, index: number) => {
+      (
+        item: {
+          startDate: string
+          endDate: string
+          positions?: WorkPositionItem[]
+        },
+        index: number
+      ) => {
+        // the dates of a work item with positions are the overall tenure
+        // across all positions
+        const { startDate, endDate } = isEmptyValue(item.positions)
+          ? item
+          : getOverallDates(item.positions)
+
         resume.content[section][index].computed = {
           ...resume.content[section][index].computed,
-          startDate: localizeDate(item.startDate, resume.locale?.language),
+          startDate: localizeDate(startDate, language, dates?.format),
         }
         resume.content[section][index].computed = {
           ...resume.content[section][index].computed,
-          endDate: localizeDate(item.endDate, resume.locale?.language),
+          endDate: localizeDate(endDate, language, dates?.format),
         }
         resume.content[section][index].computed = {
           ...resume.content[section][index].computed,
-          dateRange: getDateRange(
-            item.startDate,
-            item.endDate,
-            resume.locale?.language
-          ),
+          dateRange: getDateRange(startDate, endDate, language, dates),
         }
+
+        item.positions?.forEach((position) => {
+          position.computed = {
+            ...position.computed,
+            startDate: localizeDate(
+              position.startDate,
+              language,
+              dates?.format
+            ),
+            endDate: localizeDate(position.endDate, language, dates?.format),
+            dateRange: getDateRange(
+              position.startDate,
+              position.endDate,
+              language,
+              dates
+            ),
+          }
+        })
       }
     )
   }
 
+  // dates of custom section items are optional, a single date is shown as is
+  // because it usually is the date of an event, e.g, a talk or a patent
+  for (const { items } of resume.content.custom) {
+    items.forEach((item) => {
+      const startDate = localizeDate(item.startDate, language, dates?.format)
+      const endDate = localizeDate(item.endDate, language, dates?.format)
+
+      item.computed = {
+        ...item.computed,
+        startDate,
+        endDate,
+        dateRange:
+          startDate && endDate
+            ? getDateRange(item.startDate, item.endDate, language, dates)
+            : startDate || endDate,
+      }
+    })
+  }
+
   return resume
 }
 
 /**
  * Replaces empty `endDate` values in relevant sections with the string
- * "Present".
+ * "Present", or `layout.dates.present` if set.
  *
  * Updates the `computed.endDate` field.
  *
  * @param resume - The resume object.
+ * @param layoutIndex - The index of the selected layout to pull date settings
+ * from.
  * @returns The transformed resume object.
  * @remarks Modifies items within relevant sections (`education`, `projects`,
  * etc.) in place. Should run after `transformDate`.
  */
-export function transformEndDate(resume: Resume): Resume {
+export function transformEndDate(resume: Resume, layoutIndex?: number): Resume {
+  const present = getLayoutDates(resume, layoutIndex)?.present ?? 'Present'
+
   for (const section of ['education', 'projects', 'volunteer', 'work']) {
     resume.content[section].forEach(
-      (item: { endDate: string }, index: number) => {
-        if (isEmptyValue(item.endDate)) {
+      (
+        item: { endDate: string; positions?: WorkPositionItem[] },
+        index: number
+      ) => {
+        const { endDate } = isEmptyValue(item.positions)
+          ? item
+          : getOverallDates(item.positions)
+
+        if (isEmptyValue(endDate)) {
           resume.content[section][index].computed = {
             ...resume.content[section][index].computed,
-            endDate: 'Present',
+            endDate: present,
           }
         }
+
+        item.positions?.forEach((position) => {
+          if (isEmptyValue(position.endDate)) {
+            position.computed = {
+              ...position.computed,
+              endDate: present,
+            }
+          }
+        })
       }
     )
   }
@@ -444,12 +681,14 @@ export function transformLanguage(resume: Resume): Resume {
       language: getOptionTranslation(
         resume.locale?.language,
         'languages',
-        item.language
+        item.language,
+        resume.locale?.overrides
       ),
       fluency: getOptionTranslation(
         resume.locale?.language,
         'fluency',
-        item.fluency
+        item.fluency,
+        resume.locale?.overrides
       ),
     }
   })
@@ -472,7 +711,7 @@ export function transformLanguage(resume: Resume): Resume {
 export function transformLocation(resume: Resume): Resume {
   const {
     punctuations: { comma },
-  } = getTemplateTranslations(resume.locale?.language)
+  } = getTemplateTranslations(resume.locale?.language, resume.locale?.overrides)
 
   const {
     content: {
@@ -483,14 +722,18 @@ export function transformLocation(resume: Resume): Resume {
   const country = getOptionTranslation(
     resume.locale?.language,
     'countries',
-    resume.content.location.country
+    resume.content.location.country,
+    resume.locale?.overrides
   )
 
   switch (resume.locale?.language) {
     case 'zh-hans':
     case 'zh-hant-hk':
-    case 'zh-hant-tw': {
-      // For Chinese, the address format is most generic to more specific, i.e,
+    case 'zh-hant-tw':
+    case 'ja':
+    case 'ko': {
+      // For Chinese, Japanese and Korean, the address format is most generic
+      // to more specific, i.e,
       // Country > Region > City  > Address
       const fullAddress = joinNonEmptyString(
         [country, region, city, address, postalCode].filter(
@@ -602,7 +845,8 @@ export function transformSkills(resume: Resume): Resume {
     const level = getOptionTranslation(
       resume.locale?.language,
       'skills',
-      item.level
+      item.level,
+      resume.locale?.overrides
     )
 
     item.computed = {
@@ -645,12 +889,40 @@ export function transformProfileLinks(resume: Resume): Resume {
   return resume
 }
 
+/**
+ * Get the escape function for the section names of the given layout engine.
+ *
+ * Html, typst and docx renderers escape section names themselves and text
+ * layouts do not need any escaping, so section names are left untouched for
+ * them.
+ *
+ * @param engine - The layout engine, default to LaTeX if absent.
+ * @returns The escape function.
+ */
+function getSectionNameEscapeFunction(
+  engine?: ResumeLayoutEngine
+): EscapeFunction {
+  switch (engine) {
+    case 'html':
+    case 'typst':
+    case 'docx':
+    case 'text':
+      return (value) => value
+    case 'markdown':
+      return escapeMarkdown
+    default:
+      return escapeLatex
+  }
+}
+
 /**
  * Translates standard section titles (like "Education", "Work") based on the
  * selected locale, with support for section aliases.
  *
  * Stores the translations in `resume.content.computed.sectionNames`. Section
  * aliases in `layout.sections.alias` will override default translations.
+ * Titles of custom sections are user input and escaped for the layout engine
+ * unless the renderer escapes section names itself.
  *
  * @param resume - The resume object.
  * @param layoutIndex - The index of the selected layout to pull section aliases
@@ -664,11 +936,15 @@ export function transformSectionNames(
   layoutIndex: number,
   _summaryParser: Parser
 ): Resume {
+  const escapeTitle = getSectionNameEscapeFunction(
+    resume.layouts?.[layoutIndex]?.engine
+  )
+
   resume.content.computed = {
     ...resume.content.computed,
     sectionNames: Object.keys(resume.content).reduce(
       (translations, sectionName) => {
-        if (sectionName === 'computed') {
+        if (sectionName === 'computed' || sectionName === 'custom') {
           return translations
         }
 
@@ -681,23 +957,240 @@ export function transformSectionNames(
         // Use the alias if provided, otherwise use default translation
         translations[sectionName] =
           sectionAlias ||
-          getOptionTranslation(resume.locale?.language, 'sections', sectionId)
+          getOptionTranslation(
+            resume.locale?.language,
+            'sections',
+            sectionId,
+            resume.locale?.overrides
+          )
 
         return translations
       },
-      {}
+      // titles of custom sections are used as their section names
+      Object.fromEntries(
+        resume.content.custom.map(({ id, title }) => [id, escapeTitle(title)])
+      )
     ),
   }
 
   return resume
 }
 
+/**
+ * Get the code generator to convert summaries for the given layout engine.
+ *
+ * @param engine - The layout engine, default to LaTeX if absent.
+ * @returns The code generator.
+ */
+function getSummaryCodeGenerator(engine?: ResumeLayoutEngine): CodeGenerator {
+  switch (engine) {
+    case 'html':
+      return new HtmlCodeGenerator()
+    case 'text':
+      return new TextCodeGenerator()
+    case 'typst':
+      return new TypstCodeGenerator()
+    case 'docx':
+      return new DocxCodeGenerator()
+    case 'markdown':
+      return new MarkdownCodeGenerator()
+    default:
+      return new LatexCodeGenerator()
+  }
+}
+
+/**
+ * Sections with a list of items that have a `summary` field.
+ */
+const SUMMARY_SECTIONS = [
+  'awards',
+  'education',
+  'projects',
+  'publications',
+  'references',
+  'volunteer',
+  'work',
+]
+
+/**
+ * Sections with a list of items that have a `highlights` field.
+ */
+const HIGHLIGHTS_SECTIONS = ['projects', 'volunteer', 'work']
+
+/**
+ * A parser diagnostic of a `summary` field in the resume.
+ */
+export type SummaryDiagnostic = ParserDiagnostic & {
+  /** The path to the summary field, e.g, `['content', 'work', 2, 'summary']`. */
+  path: (string | number)[]
+}
+
+/**
+ * Parses all `summary` and `highlights` fields in the resume and collects the
+ * diagnostics of the parser, e.g, markdown constructs that are removed from
+ * the output.
+ *
+ * Summaries and highlights that are not strings are skipped, they are reported by the schema
+ * validation instead, while each value of a localized string is parsed, e.g,
+ * `['content', 'work', 2, 'summary', 'en']`.
+ *
+ * @param resume - The resume object.
+ * @param summaryParser - The parser instance (e.g., `MarkdownParser`)
+ * @returns The diagnostics of all summaries, in the order of sections.
+ */
+export function collectSummaryDiagnostics(
+  resume: Resume,
+  summaryParser: Parser = new MarkdownParser()
+): SummaryDiagnostic[] {
+  const diagnose = (
+    summary: unknown,
+    path: (string | number)[]
+  ): SummaryDiagnostic[] => {
+    if (isLocalizedString(summary)) {
+      return Object.entries(summary).flatMap(([language, text]) =>
+        diagnose(text, [...path, language])
+      )
+    }
+
+    if (typeof summary !== 'string') {
+      return []
+    }
+
+    summaryParser.parse(summary)
+
+    return (summaryParser.diagnostics ?? []).map((diagnostic) => ({
+      ...diagnostic,
+      path,
+    }))
+  }
+
+  return [
+    ...diagnose(resume.content?.basics?.summary, [
+      'content',
+      'basics',
+      'summary',
+    ]),
+    ...SUMMARY_SECTIONS.flatMap((section) => {
+      const items: unknown = resume.content?.[section]
+
+      if (!isArray(items)) {
+        return []
+      }
+
+      return items.flatMap((item, index) =>
+        diagnose(item?.summary, ['content', section, index, 'summary'])
+      )
+    }),
+    ...HIGHLIGHTS_SECTIONS.flatMap((section) => {
+      const items: unknown = resume.content?.[section]
+
+      if (!isArray(items)) {
+        return []
+      }
+
+      return items.flatMap((item, index) =>
+        (isArray(item?.highlights) ? item.highlights : []).flatMap(
+          (highlight: unknown, highlightIndex: number) =>
+            diagnose(highlight, [
+              'content',
+              section,
+              index,
+              'highlights',
+              highlightIndex,
+            ])
+        )
+      )
+    }),
+    ...(isArray(resume.content?.work) ? resume.content.work : []).flatMap(
+      (item, index) =>
+        (isArray(item?.positions) ? item.positions : []).flatMap(
+          (position, positionIndex) =>
+            diagnose(position?.summary, [
+              'content',
+              'work',
+              index,
+              'positions',
+              positionIndex,
+              'summary',
+            ])
+        )
+    ),
+    ...(isArray(resume.content?.custom) ? resume.content.custom : []).flatMap(
+      (section, sectionIndex) =>
+        (isArray(section?.items) ? section.items : []).flatMap((item, index) =>
+          diagnose(item?.summary, [
+            'content',
+            'custom',
+            sectionIndex,
+            'items',
+            index,
+            'summary',
+          ])
+        )
+    ),
+  ]
+}
+
+/**
+ * Creates a function that converts an AST node into code for the selected
+ * layout, e.g, LaTeX code for LaTeX layouts and HTML code for html layouts.
+ *
+ * @param resume - The resume object.
+ * @param layoutIndex - The index of the selected layout to pull typography
+ * overrides from.
+ * @returns The function to convert an AST node.
+ */
+function createNodeTransformer(
+  resume: Resume,
+  layoutIndex: number
+): (node: Node) => string {
+  const layout = resume.layouts?.[layoutIndex]
+
+  const typographyContext = {
+    typography:
+      layout?.engine === 'text' || layout?.engine === 'markdown'
+        ? undefined
+        : layout?.typography,
+  }
+
+  const isLatex =
+    layout?.engine !== 'markdown' &&
+    layout?.engine !== 'html' &&
+    layout?.engine !== 'text' &&
+    layout?.engine !== 'typst' &&
+    layout?.engine !== 'docx'
+
+  const codeGenerator = getSummaryCodeGenerator(layout?.engine)
+
+  return (node: Node) => {
+    const generated = codeGenerator.generate(node, typographyContext).trim()
+
+    // The reason we need to replace blank lines with percent is that, the
+    // argument of `\cventry` command in LaTeX's moderncv package do not
+    // support consecutive blank lines. It will report ugly errors like:
+    // `Paragraph ended before \cventry was complete.`, thus we have to
+    // replace all blank lines in `\cventry`'s argument with a percent sign.
+    // Ref:
+    // - https://www.reddit.com/r/LaTeX/comments/2szgdi/odd_error_using_extra_line_breaks_in_argument_of/cnudnos/
+    //
+    // BTW, debugging LaTeX's error with its arcane messages is really a
+    // boring, dirty and meaningless job.
+    return isLatex ? replaceBlankLinesWithPercent(generated) : generated
+  }
+}
+
 /**
  * Parses the `summary` field in various sections and converts it into LaTeX
  * code using the provided parser and generator.
  *
  * Stores the result in the corresponding `computed.summary` field, replacing blank lines.
  *
+ * For html layouts, the summary is converted into HTML code instead, for typst
+ * layouts into Typst markup, for docx layouts into WordprocessingML
+ * paragraphs, for markdown layouts into normalized markdown, and for text
+ * layouts it is converted into plain text, blank lines are kept as is because
+ * they only matter to LaTeX.
+ *
  * @param resume - The resume object.
  * @param layoutIndex - The index of the selected layout to pull typography
  * overrides from.
@@ -711,63 +1204,86 @@ export function transformSummary(
   layoutIndex: number,
   summaryParser: Parser
 ): Resume {
-  const layout = resume.layouts?.[layoutIndex]
+  const transformNode = createNodeTransformer(resume, layoutIndex)
 
-  if (layout?.engine === 'markdown') {
-    return resume
-  }
-
-  const typographyContext = {
-    typography: layout?.typography,
-  }
+  const transformItemSummary = (summary: string) =>
+    transformNode(summaryParser.parse(summary))
 
   resume.content.basics.computed = {
     ...resume.content.basics.computed,
-    summary: replaceBlankLinesWithPercent(
-      new LatexCodeGenerator()
-        .generate(
-          summaryParser.parse(resume.content.basics.summary),
-          typographyContext
-        )
-        .trim()
-    ),
+    summary: transformItemSummary(resume.content.basics.summary),
   }
 
-  for (const section of [
-    'awards',
-    'education',
-    'projects',
-    'publications',
-    'references',
-    'volunteer',
-    'work',
-  ]) {
+  for (const section of SUMMARY_SECTIONS) {
     resume.content[section].forEach(
       (item: { summary: string }, index: number) => {
-        const summary = new LatexCodeGenerator().generate(
-          summaryParser.parse(item.summary),
-          typographyContext
-        )
-        if (summary) {
-          // The reason we need to replace blank lines with percent is that, the
-          // argument of `\cventry` command in LaTeX's moderncv package do not
-          // support consecutive blank lines. It will report ugly errors like:
-          // `Paragraph ended before \cventry was complete.`, thus we have to
-          // replace all blank lines in `\cventry`'s argument with a percent sign.
-          // Ref:
-          // - https://www.reddit.com/r/LaTeX/comments/2szgdi/odd_error_using_extra_line_breaks_in_argument_of/cnudnos/
-          //
-          // BTW, debugging LaTeX's error with its arcane messages is really a
-          // boring, dirty and meaningless job.
-          resume.content[section][index].computed = {
-            ...resume.content[section][index].computed,
-            summary: replaceBlankLinesWithPercent(summary.trim()),
-          }
-        } else {
-          resume.content[section][index].computed = {
-            ...resume.content[section][index].computed,
-            summary: '',
-          }
+        resume.content[section][index].computed = {
+          ...resume.content[section][index].computed,
+          summary: transformItemSummary(item.summary),
+        }
+      }
+    )
+  }
+
+  for (const { positions } of resume.content.work) {
+    positions.forEach((position) => {
+      position.computed = {
+        ...position.computed,
+        summary: transformItemSummary(position.summary),
+      }
+    })
+  }
+
+  for (const { items } of resume.content.custom) {
+    items.forEach((item) => {
+      item.computed = {
+        ...item.computed,
+        summary: transformItemSummary(item.summary),
+      }
+    })
+  }
+
+  return resume
+}
+
+/**
+ * Converts the `highlights` field in `projects`, `volunteer` and `work`
+ * sections into a bullet list, e.g, an `itemize` environment for LaTeX layouts
+ * or an `<ul>` element for html layouts.
+ *
+ * Each highlight is parsed with the summary parser, so inline markdown like
+ * bold texts or links is supported, and stored in the corresponding
+ * `computed.highlights` field, items without highlights get an empty string.
+ *
+ * @param resume - The resume object.
+ * @param layoutIndex - The index of the selected layout to pull typography
+ * overrides from.
+ * @param summaryParser - The parser instance (e.g., `MarkdownParser`)
+ * @returns The transformed resume object.
+ * @remarks Modifies `computed.highlights` within items in sections like
+ * `projects`, `work`, etc.
+ */
+export function transformHighlights(
+  resume: Resume,
+  layoutIndex: number,
+  summaryParser: Parser
+): Resume {
+  const transformNode = createNodeTransformer(resume, layoutIndex)
+
+  for (const section of HIGHLIGHTS_SECTIONS) {
+    resume.content[section].forEach(
+      (item: { highlights: string[] }, index: number) => {
+        resume.content[section][index].computed = {
+          ...resume.content[section][index].computed,
+          highlights: isEmptyValue(item.highlights)
+            ? ''
+            : transformNode({
+                content: item.highlights.map((highlight) => ({
+                  content: (summaryParser.parse(highlight) as DocNode).content,
+                  type: 'listItem',
+                })),
+                type: 'bulletList',
+              }),
         }
       }
     )
@@ -811,6 +1327,7 @@ export function transformResumeContent(
     transformSkills,
     transformProfileLinks,
     transformSummary,
+    transformHighlights,
     transformSectionNames,
   ].reduce(
     (resume, tranformFunc) => tranformFunc(resume, layoutIndex, summaryParser),
@@ -853,6 +1370,14 @@ export function transformResumeLayoutsWithDefaultValues(
           return merge(cloneDeep(DEFAULT_MARKDOWN_LAYOUT), layout)
         case 'latex':
           return merge(cloneDeep(DEFAULT_LATEX_LAYOUT), layout)
+        case 'html':
+          return merge(cloneDeep(DEFAULT_HTML_LAYOUT), layout)
+        case 'text':
+          return merge(cloneDeep(DEFAULT_TEXT_LAYOUT), layout)
+        case 'typst':
+          return merge(cloneDeep(DEFAULT_TYPST_LAYOUT), layout)
+        case 'docx':
+          return merge(cloneDeep(DEFAULT_DOCX_LAYOUT), layout)
         default:
           return layout
       }
@@ -903,7 +1428,9 @@ export function transformResumeLayoutLaTeX(resume: Resume): Resume {
     const numbers =
       resume.locale?.language === 'zh-hans' ||
       resume.locale?.language === 'zh-hant-hk' ||
-      resume.locale?.language === 'zh-hant-tw'
+      resume.locale?.language === 'zh-hant-tw' ||
+      resume.locale?.language === 'ja' ||
+      resume.locale?.language === 'ko'
         ? 'Lining'
         : 'OldStyle'
 
@@ -942,12 +1469,174 @@ export function transformResumeLayout(resume: Resume): Resume {
   ].reduce((resume, transformFunc) => transformFunc(resume), resume)
 }
 
+/**
+ * Replaces localized strings in the resume content with their values for
+ * `locale.language`.
+ *
+ * @param resume - The resume object.
+ * @returns The transformed resume object.
+ */
+export function transformLocalizedStrings(resume: Resume): Resume {
+  return localizeResume(resume, resume.locale?.language ?? 'en')
+}
+
+/**
+ * A filter matching items by tags or by zero-based indices.
+ */
+type ItemFilter = { tags?: string[]; indices?: number[] }
+
+/**
+ * Check if an item matches a filter, i.e, the item has any of the filter's
+ * tags, or its index is one of the filter's indices.
+ *
+ * @param item - The item to check.
+ * @param index - The zero-based index of the item in its section.
+ * @param filter - The filter to match against.
+ * @returns True if the item matches the filter, false otherwise.
+ */
+function matchesItemFilter(
+  item: { tags?: string[] },
+  index: number,
+  filter: ItemFilter
+): boolean {
+  return (
+    (filter.tags ?? []).some((tag) => (item.tags ?? []).includes(tag)) ||
+    (filter.indices ?? []).includes(index)
+  )
+}
+
+/**
+ * Check if a filter has neither tags nor indices, empty filters are ignored.
+ *
+ * @param filter - The filter to check.
+ * @returns True if the filter is empty, false otherwise.
+ */
+function isEmptyItemFilter(filter?: ItemFilter | null): boolean {
+  return isEmptyValue(filter?.tags) && isEmptyValue(filter?.indices)
+}
+
+/**
+ * Removes content items which are not selected by the filters of the selected
+ * layout.
+ *
+ * For each section in `layout.filters`, if `include` is set, only the items
+ * matching it are kept, then items matching `exclude` are removed. Indices
+ * always refer to the positions of items in the original resume.
+ *
+ * @param resume - The resume object.
+ * @param layoutIndex - The index of the selected layout.
+ * @returns The filtered resume object.
+ * @remarks Modifies the filtered sections of `resume.content` in place.
+ */
+export function filterResumeContent(
+  resume: Resume,
+  layoutIndex: number
+): Resume {
+  const filters = resume.layouts?.[layoutIndex]?.filters
+
+  if (isEmptyValue(filters)) {
+    return resume
+  }
+
+  const content = resume.content as Partial<
+    Record<FilterableSectionID, { tags?: string[] }[]>
+  >
+
+  for (const section of FILTERABLE_SECTION_IDS) {
+    const { include, exclude } = filters[section] ?? {}
+    const items = content[section]
+
+    if (!isArray(items)) {
+      continue
+    }
+
+    content[section] = items.filter(
+      (item, index) =>
+        (isEmptyItemFilter(include) ||
+          matchesItemFilter(item, index, include)) &&
+        (isEmptyItemFilter(exclude) || !matchesItemFilter(item, index, exclude))
+    )
+  }
+
+  return resume
+}
+
+/**
+ * Removes the sections and fields hidden by the selected layout.
+ *
+ * Sections in `layout.sections.hide` are removed from the content, except for
+ * `basics` whose summary is removed only, because the name and contact
+ * details in the header are rendered from `basics` as well. Fields in
+ * `layout.fields.hide` are removed from their section, or from every item if
+ * the section is a list, hiding `work.summary` or `work.highlights` removes the
+ * summaries of grouped positions as well, so hidden data never reaches the
+ * rendered output.
+ * Removed values are later filled with empty defaults by
+ * `normalizedResumeContent`.
+ *
+ * @param resume - The resume object.
+ * @param layoutIndex - The index of the selected layout.
+ * @returns The resume object without hidden sections and fields.
+ * @remarks Modifies `resume.content` in place.
+ */
+export function hideResumeContent(resume: Resume, layoutIndex: number): Resume {
+  const { sections, fields } = resume.layouts?.[layoutIndex] ?? {}
+  const hiddenSections: string[] = sections?.hide ?? []
+  const content = resume.content as Record<string, unknown>
+
+  for (const section of hiddenSections) {
+    if (section === 'basics') {
+      // the `basics` section in the output is the summary, the name and
+      // contact details of the header are kept
+      if (isPlainObject(resume.content.basics)) {
+        delete resume.content.basics.summary
+      }
+    } else if ((ORDERABLE_SECTION_IDS as readonly string[]).includes(section)) {
+      delete content[section]
+    }
+  }
+
+  if (isArray(resume.content.custom)) {
+    resume.content.custom = resume.content.custom.filter(
+      ({ id }) => !hiddenSections.includes(id)
+    )
+  }
+
+  for (const option of fields?.hide ?? []) {
+    const [section, field] = option.split('.')
+    const value = content[section]
+    const items = isArray(value) ? value : [value]
+
+    for (const item of items) {
+      if (isPlainObject(item)) {
+        delete item[field]
+
+        // summaries of grouped positions describe what was done in each role,
+        // so they are hidden along with the work summary or highlights
+        if (
+          section === 'work' &&
+          (field === 'summary' || field === 'highlights') &&
+          isArray(item.positions)
+        ) {
+          for (const position of item.positions) {
+            if (isPlainObject(position)) {
+              delete position.summary
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return resume
+}
+
 /**
  * Applies all necessary transformations to a resume object in preparation for
  * rendering.
  *
- * This includes content processing, layout merging/adjustments, and environment
- * setup.
+ * This includes content filtering and hiding, layout merging/adjustments,
+ * resolving localized strings, content processing, and environment setup.
  *
  * The order of transformations is: content, layout, environment.
  *
@@ -963,7 +1652,13 @@ export function transformResume(
   layoutIndex: number,
   summaryParser: Parser
 ): Resume {
-  return [transformResumeLayout, transformResumeContent].reduce(
+  return [
+    filterResumeContent,
+    hideResumeContent,
+    transformResumeLayout,
+    transformLocalizedStrings,
+    transformResumeContent,
+  ].reduce(
     (resume, tranformFunc) => tranformFunc(resume, layoutIndex, summaryParser),
     cloneDeep(resume)
   )
@@ -24,7 +24,7 @@
 
 import { beforeEach, describe, expect, it } from 'vitest'
 
-import type { Resume } from '@/models'
+import type { CustomSection, Resume } from '@/models'
 import { Renderer } from './base'
 
 // Create a concrete implementation for testing
@@ -82,8 +82,11 @@ class TestRenderer extends Renderer {
   renderVolunteer(): string {
     return ''
   }
+  renderCustomSection(section: CustomSection): string {
+    return section.title
+  }
   render(): string {
-    return ''
+    return this.renderOrderedSections()
   }
 }
 
@@ -141,4 +144,34 @@ describe('Renderer', () => {
       expect(emptyRenderer.renderLocation()).toBe('')
     })
   })
+
+  describe('renderOrderedSections', () => {
+    const custom: CustomSection[] = [
+      { id: 'patents', title: 'Patents', items: [] },
+      { id: 'talks', title: 'Talks', items: [] },
+    ]
+
+    it('should render custom sections after builtin sections', () => {
+      mockResume.content.custom = custom
+
+      expect(renderer.render()).toBe('Software Engineer\n\nPatents\n\nTalks')
+    })
+
+    it('should render custom sections in the specified order', () => {
+      mockResume.content.custom = custom
+      mockResume.layouts = [
+        { engine: 'markdown', sections: { order: ['talks', 'basics'] } },
+      ]
+
+      expect(renderer.render()).toBe('Talks\n\nSoftware Engineer\n\nPatents')
+    })
+
+    it('should ignore unknown sections in the specified order', () => {
+      mockResume.layouts = [
+        { engine: 'markdown', sections: { order: ['patents', 'basics'] } },
+      ]
+
+      expect(renderer.render()).toBe('Software Engineer')
+    })
+  })
 })
@@ -22,7 +22,12 @@
  * IN THE SOFTWARE.
  */
 
-import type { OrderableSectionID, Resume } from '@/models'
+import type {
+  CustomSection,
+  CustomSectionID,
+  OrderableSectionID,
+  Resume,
+} from '@/models'
 import { DEFAULT_SECTIONS_ORDER } from '@/models'
 import { joinNonEmptyString, mergeArrayWithOrder } from '@/utils'
 
@@ -177,6 +182,15 @@ abstract class Renderer {
    */
   abstract renderVolunteer(): string
 
+  // user-defined sections
+  /**
+   * Render a custom section of the resume.
+   *
+   * @param section - The custom section to render.
+   * @returns {string} The rendered custom section
+   */
+  abstract renderCustomSection(section: CustomSection): string
+
   /**
    * Render the resume.
    *
@@ -184,14 +198,52 @@ abstract class Renderer {
    */
   abstract render(): string
 
+  /**
+   * Get the ids of all sections in the default order, i.e, builtin sections
+   * followed by custom sections in the order they are defined.
+   *
+   * @returns The ids of all sections in the default order
+   */
+  protected getDefaultSectionsOrder(): (
+    | OrderableSectionID
+    | CustomSectionID
+  )[] {
+    const customSections = this.resume.content?.custom ?? []
+
+    return [...DEFAULT_SECTIONS_ORDER, ...customSections.map(({ id }) => id)]
+  }
+
+  /**
+   * Get the ids of all sections in the order of `sections.order` of the
+   * layout, followed by the remaining sections in the default order.
+   *
+   * @returns The ids of all sections in the layout order
+   */
+  protected getSectionsOrder(): (OrderableSectionID | CustomSectionID)[] {
+    const customOrder = this.resume.layouts?.[this.layoutIndex]?.sections?.order
+
+    return mergeArrayWithOrder(customOrder, this.getDefaultSectionsOrder())
+  }
+
   /**
    * Render sections in the specified order.
    *
+   * @param sections - Optional sections to render in the given order, e.g,
+   * sections of a column, all sections are rendered in the layout order if not
+   * provided.
    * @returns {string} The rendered sections in the specified order
    */
-  protected renderOrderedSections(): string {
-    const customOrder = this.resume.layouts?.[this.layoutIndex]?.sections?.order
-    const order = mergeArrayWithOrder(customOrder, DEFAULT_SECTIONS_ORDER)
+  protected renderOrderedSections(
+    sections?: (OrderableSectionID | CustomSectionID)[]
+  ): string {
+    const customSections = this.resume.content?.custom ?? []
+    const order =
+      sections === undefined
+        ? this.getSectionsOrder()
+        : // keep the given order, without duplicated or unknown sections
+          mergeArrayWithOrder(sections, this.getDefaultSectionsOrder()).filter(
+            (sectionId) => sections.includes(sectionId)
+          )
 
     const sectionRenderers: Record<OrderableSectionID, () => string> = {
       basics: () => this.renderSummary(),
@@ -209,7 +261,13 @@ abstract class Renderer {
     }
 
     const renderedSections = order
-      .map((sectionId) => sectionRenderers[sectionId]())
+      .map((sectionId) =>
+        sectionId in sectionRenderers
+          ? sectionRenderers[sectionId]()
+          : this.renderCustomSection(
+              customSections.find(({ id }) => id === sectionId)
+            )
+      )
       .filter((rendered) => rendered.trim() !== '')
 
     return joinNonEmptyString(renderedSections)
@@ -0,0 +1,147 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  DOCX_RELATIONSHIP_IDS,
+  renderContentTypes,
+  renderDocumentRelationships,
+  renderFooter,
+  renderNumbering,
+  renderPackageRelationships,
+  renderStyles,
+  toTwips,
+} from './parts'
+
+describe(toTwips, () => {
+  it('should convert lengths into twips', () => {
+    const tests = [
+      { length: '1in', expected: 1440 },
+      { length: '2.54cm', expected: 1440 },
+      { length: '2.5cm', expected: 1417 },
+      { length: '72pt', expected: 1440 },
+      { length: '0.5pt', expected: 10 },
+    ]
+
+    for (const { length, expected } of tests) {
+      expect(toTwips(length)).toBe(expected)
+    }
+  })
+
+  it('should return undefined for invalid lengths', () => {
+    for (const length of [undefined, '', '1px', 'cm', '-1cm']) {
+      expect(toTwips(length)).toBeUndefined()
+    }
+  })
+})
+
+describe(renderContentTypes, () => {
+  it('should declare all parts of the package', () => {
+    const result = renderContentTypes()
+
+    for (const part of [
+      '/word/document.xml',
+      '/word/styles.xml',
+      '/word/numbering.xml',
+      '/word/footer1.xml',
+    ]) {
+      expect(result).toMatch(`<Override PartName="${part}"`)
+    }
+  })
+})
+
+describe(renderPackageRelationships, () => {
+  it('should point to the main document', () => {
+    expect(renderPackageRelationships()).toMatch('Target="word/document.xml"')
+  })
+})
+
+describe(renderDocumentRelationships, () => {
+  it('should reference styles, numbering and footer', () => {
+    const result = renderDocumentRelationships()
+
+    expect(result).toMatch(
+      `Id="${DOCX_RELATIONSHIP_IDS.styles}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"`
+    )
+    expect(result).toMatch(
+      `Id="${DOCX_RELATIONSHIP_IDS.numbering}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"`
+    )
+    expect(result).toMatch(
+      `Id="${DOCX_RELATIONSHIP_IDS.footer}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"`
+    )
+  })
+})
+
+describe(renderStyles, () => {
+  it('should use 11pt and no language by default', () => {
+    const result = renderStyles()
+
+    expect(result).toMatch('<w:sz w:val="22"/>')
+    expect(result).not.toMatch('<w:lang')
+  })
+
+  it('should render the given font size and language', () => {
+    const result = renderStyles({ fontSize: '10pt', language: 'fr' })
+
+    expect(result).toMatch('<w:sz w:val="20"/>')
+    expect(result).toMatch('<w:lang w:val="fr"/>')
+  })
+
+  it('should define builtin styles', () => {
+    const result = renderStyles()
+
+    for (const [id, name] of [
+      ['Title', 'Title'],
+      ['Subtitle', 'Subtitle'],
+      ['Heading1', 'heading 1'],
+      ['Heading2', 'heading 2'],
+      ['Heading3', 'heading 3'],
+      ['Quote', 'Quote'],
+      ['ListBullet', 'List Bullet'],
+      ['ListNumber', 'List Number'],
+      ['ListContinue', 'List Continue'],
+      ['Hyperlink', 'Hyperlink'],
+    ]) {
+      expect(result).toMatch(`w:styleId="${id}"><w:name w:val="${name}"/>`)
+    }
+  })
+})
+
+describe(renderNumbering, () => {
+  it('should define bullet and decimal numberings with 9 levels', () => {
+    const result = renderNumbering()
+
+    expect(result).toMatch('<w:num w:numId="1"><w:abstractNumId w:val="0"/>')
+    expect(result).toMatch('<w:num w:numId="2"><w:abstractNumId w:val="1"/>')
+    expect(result.match(/<w:lvl /g)).toHaveLength(18)
+    expect(result).toMatch('<w:lvlText w:val="%9."/>')
+  })
+})
+
+describe(renderFooter, () => {
+  it('should render the page number field', () => {
+    expect(renderFooter()).toMatch('<w:fldSimple w:instr="PAGE">')
+  })
+})
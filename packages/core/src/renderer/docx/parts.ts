@@ -0,0 +1,355 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { joinNonEmptyString } from '@/utils'
+
+/**
+ * The XML declaration shared by all parts of a docx package.
+ */
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+
+/**
+ * Namespaces used by the parts of a docx package.
+ */
+export const DOCX_NAMESPACES = {
+  contentTypes: 'http://schemas.openxmlformats.org/package/2006/content-types',
+  packageRelationships:
+    'http://schemas.openxmlformats.org/package/2006/relationships',
+  relationships:
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wordprocessingml:
+    'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+} as const
+
+/**
+ * Relationship ids of the parts referenced by `word/document.xml`.
+ */
+export const DOCX_RELATIONSHIP_IDS = {
+  styles: 'rId1',
+  numbering: 'rId2',
+  footer: 'rId3',
+} as const
+
+/**
+ * A4 page size in twentieths of a point, i.e, twips.
+ */
+export const DOCX_PAGE_SIZE = { width: 11906, height: 16838 } as const
+
+/**
+ * Convert a length like `2.5cm`, `1in` or `72pt` into twips.
+ *
+ * @param length - The length to convert.
+ * @returns The length in twips, or `undefined` if the length is not valid.
+ */
+export function toTwips(length: string | undefined): number | undefined {
+  const match = length?.match(/^(\d+(?:\.\d+)?)(cm|pt|in)$/)
+
+  if (!match) {
+    return undefined
+  }
+
+  const value = Number(match[1])
+
+  switch (match[2]) {
+    case 'cm':
+      return Math.round((value * 1440) / 2.54)
+    case 'in':
+      return Math.round(value * 1440)
+    default:
+      return Math.round(value * 20)
+  }
+}
+
+/**
+ * Render `[Content_Types].xml` of a docx package.
+ *
+ * @returns The content types part.
+ */
+export function renderContentTypes(): string {
+  const type = (name: string) =>
+    `application/vnd.openxmlformats-officedocument.wordprocessingml.${name}+xml`
+
+  return joinNonEmptyString(
+    [
+      XML_DECLARATION,
+      `<Types xmlns="${DOCX_NAMESPACES.contentTypes}">`,
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+      '<Default Extension="xml" ContentType="application/xml"/>',
+      `<Override PartName="/word/document.xml" ContentType="${type('document.main')}"/>`,
+      `<Override PartName="/word/styles.xml" ContentType="${type('styles')}"/>`,
+      `<Override PartName="/word/numbering.xml" ContentType="${type('numbering')}"/>`,
+      `<Override PartName="/word/footer1.xml" ContentType="${type('footer')}"/>`,
+      '</Types>',
+    ],
+    '\n'
+  )
+}
+
+/**
+ * Render `_rels/.rels` of a docx package, which points to the main document.
+ *
+ * @returns The package relationships part.
+ */
+export function renderPackageRelationships(): string {
+  return joinNonEmptyString(
+    [
+      XML_DECLARATION,
+      `<Relationships xmlns="${DOCX_NAMESPACES.packageRelationships}">`,
+      `<Relationship Id="rId1" Type="${DOCX_NAMESPACES.relationships}/officeDocument" Target="word/document.xml"/>`,
+      '</Relationships>',
+    ],
+    '\n'
+  )
+}
+
+/**
+ * Render `word/_rels/document.xml.rels` of a docx package.
+ *
+ * @returns The document relationships part.
+ */
+export function renderDocumentRelationships(): string {
+  const relationship = (id: string, type: string, target: string) =>
+    `<Relationship Id="${id}" Type="${DOCX_NAMESPACES.relationships}/${type}" Target="${target}"/>`
+
+  return joinNonEmptyString(
+    [
+      XML_DECLARATION,
+      `<Relationships xmlns="${DOCX_NAMESPACES.packageRelationships}">`,
+      relationship(DOCX_RELATIONSHIP_IDS.styles, 'styles', 'styles.xml'),
+      relationship(
+        DOCX_RELATIONSHIP_IDS.numbering,
+        'numbering',
+        'numbering.xml'
+      ),
+      relationship(DOCX_RELATIONSHIP_IDS.footer, 'footer', 'footer1.xml'),
+      '</Relationships>',
+    ],
+    '\n'
+  )
+}
+
+/**
+ * Options for rendering `word/styles.xml`.
+ */
+type DocxStylesOptions = {
+  /** The base font size, e.g, `11pt`. */
+  fontSize?: string
+  /** The language of the document, e.g, `en` or `zh-hans`. */
+  language?: string
+}
+
+/**
+ * Render `word/styles.xml` of a docx package.
+ *
+ * Builtin style ids and names are used so that word processors recognize the
+ * headings, lists and links as real styles, e.g, for the navigation pane.
+ *
+ * @param options - The options of the styles.
+ * @returns The styles part.
+ */
+export function renderStyles({
+  fontSize,
+  language,
+}: DocxStylesOptions = {}): string {
+  // font sizes are measured in half points
+  const size = Math.round((toTwips(fontSize) ?? 220) / 10)
+
+  const style = (
+    type: 'paragraph' | 'character',
+    id: string,
+    name: string,
+    properties: string,
+    basedOn = type === 'paragraph' ? 'Normal' : ''
+  ) =>
+    joinNonEmptyString(
+      [
+        `<w:style w:type="${type}" w:styleId="${id}">`,
+        `<w:name w:val="${name}"/>`,
+        basedOn ? `<w:basedOn w:val="${basedOn}"/>` : '',
+        '<w:qFormat/>',
+        properties,
+        '</w:style>',
+      ],
+      ''
+    )
+
+  return joinNonEmptyString(
+    [
+      XML_DECLARATION,
+      `<w:styles xmlns:w="${DOCX_NAMESPACES.wordprocessingml}">`,
+      joinNonEmptyString(
+        [
+          '<w:docDefaults><w:rPrDefault><w:rPr>',
+          '<w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>',
+          `<w:sz w:val="${size}"/><w:szCs w:val="${size}"/>`,
+          language ? `<w:lang w:val="${language}"/>` : '',
+          '</w:rPr></w:rPrDefault>',
+          '<w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault>',
+          '</w:docDefaults>',
+        ],
+        ''
+      ),
+      joinNonEmptyString(
+        [
+          '<w:style w:type="paragraph" w:default="1" w:styleId="Normal">',
+          '<w:name w:val="Normal"/><w:qFormat/>',
+          '<w:pPr><w:jc w:val="both"/></w:pPr>',
+          '</w:style>',
+        ],
+        ''
+      ),
+      style(
+        'paragraph',
+        'Title',
+        'Title',
+        `<w:pPr><w:spacing w:after="60"/><w:jc w:val="center"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size * 2}"/><w:szCs w:val="${size * 2}"/></w:rPr>`
+      ),
+      style(
+        'paragraph',
+        'Subtitle',
+        'Subtitle',
+        '<w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:i/></w:rPr>'
+      ),
+      style(
+        'paragraph',
+        'Contact',
+        'Contact',
+        '<w:pPr><w:jc w:val="center"/></w:pPr>'
+      ),
+      style(
+        'paragraph',
+        'Heading1',
+        'heading 1',
+        `<w:pPr><w:keepNext/><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="auto"/></w:pBdr><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="${Math.round(size * 1.2)}"/><w:szCs w:val="${Math.round(size * 1.2)}"/></w:rPr>`
+      ),
+      style(
+        'paragraph',
+        'Heading2',
+        'heading 2',
+        '<w:pPr><w:keepNext/><w:spacing w:before="160" w:after="40"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/></w:rPr>'
+      ),
+      style(
+        'paragraph',
+        'Heading3',
+        'heading 3',
+        '<w:pPr><w:keepNext/><w:spacing w:before="120" w:after="40"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:i/></w:rPr>'
+      ),
+      style(
+        'paragraph',
+        'Quote',
+        'Quote',
+        '<w:pPr><w:ind w:left="720" w:right="720"/></w:pPr><w:rPr><w:i/></w:rPr>'
+      ),
+      style(
+        'paragraph',
+        'ListBullet',
+        'List Bullet',
+        '<w:pPr><w:numPr><w:numId w:val="1"/></w:numPr></w:pPr>'
+      ),
+      style(
+        'paragraph',
+        'ListNumber',
+        'List Number',
+        '<w:pPr><w:numPr><w:numId w:val="2"/></w:numPr></w:pPr>'
+      ),
+      style(
+        'paragraph',
+        'ListContinue',
+        'List Continue',
+        '<w:pPr><w:ind w:left="360"/></w:pPr>'
+      ),
+      style(
+        'character',
+        'Hyperlink',
+        'Hyperlink',
+        '<w:rPr><w:color w:val="0563C1"/></w:rPr>'
+      ),
+      '</w:styles>',
+    ],
+    '\n'
+  )
+}
+
+/**
+ * Render `word/numbering.xml` of a docx package.
+ *
+ * Defines a bullet numbering (id 1) and a decimal numbering (id 2), each with
+ * 9 levels for nested lists.
+ *
+ * @returns The numbering part.
+ */
+export function renderNumbering(): string {
+  const bullets = ['•', '◦', '▪']
+
+  const levels = (format: 'bullet' | 'decimal') =>
+    Array.from({ length: 9 }, (_, level) =>
+      joinNonEmptyString(
+        [
+          `<w:lvl w:ilvl="${level}">`,
+          '<w:start w:val="1"/>',
+          `<w:numFmt w:val="${format}"/>`,
+          `<w:lvlText w:val="${
+            format === 'bullet'
+              ? bullets[level % bullets.length]
+              : `%${level + 1}.`
+          }"/>`,
+          '<w:lvlJc w:val="left"/>',
+          `<w:pPr><w:ind w:left="${360 * (level + 1)}" w:hanging="360"/></w:pPr>`,
+          '</w:lvl>',
+        ],
+        ''
+      )
+    ).join('')
+
+  return joinNonEmptyString(
+    [
+      XML_DECLARATION,
+      `<w:numbering xmlns:w="${DOCX_NAMESPACES.wordprocessingml}">`,
+      `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum>`,
+      `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum>`,
+      '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>',
+      '<w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>',
+      '</w:numbering>',
+    ],
+    '\n'
+  )
+}
+
+/**
+ * Render `word/footer1.xml` of a docx package, which shows the page number.
+ *
+ * @returns The footer part.
+ */
+export function renderFooter(): string {
+  return joinNonEmptyString(
+    [
+      XML_DECLARATION,
+      `<w:ftr xmlns:w="${DOCX_NAMESPACES.wordprocessingml}">`,
+      '<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:fldSimple w:instr="PAGE"><w:r><w:t>1</w:t></w:r></w:fldSimple></w:p>',
+      '</w:ftr>',
+    ],
+    '\n'
+  )
+}
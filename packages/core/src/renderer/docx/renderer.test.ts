@@ -0,0 +1,399 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { cloneDeep } from 'lodash-es'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  createDocxHyperlink,
+  createDocxParagraph,
+  createDocxRun,
+} from '@/compiler/codegen/docx'
+import { FILLED_RESUME, type Resume } from '@/models'
+import { DocxRenderer } from './renderer'
+
+describe('DocxRenderer', () => {
+  let resume: Resume
+  let renderer: DocxRenderer
+  const layoutIndex = 0
+
+  beforeEach(() => {
+    resume = cloneDeep(FILLED_RESUME)
+    resume.layouts = [{ engine: 'docx' }]
+    renderer = new DocxRenderer(resume, layoutIndex)
+  })
+
+  describe('renderPreamble', () => {
+    it('should render styles with default values', () => {
+      const result = renderer.renderPreamble()
+
+      expect(result).toMatch('<w:sz w:val="22"/>')
+      expect(result).toMatch('<w:lang w:val="en"/>')
+      expect(result).toMatch('w:styleId="Heading1"><w:name w:val="heading 1"/>')
+      expect(result).toMatch('w:styleId="ListBullet"')
+      expect(result).toMatch('w:styleId="Hyperlink"')
+    })
+
+    it('should respect font size and language', () => {
+      resume.layouts = [{ engine: 'docx', typography: { fontSize: '12pt' } }]
+      resume.locale = { language: 'zh-hans' }
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+      const result = renderer.renderPreamble()
+
+      expect(result).toMatch('<w:sz w:val="24"/>')
+      expect(result).toMatch('<w:lang w:val="zh-hans"/>')
+    })
+  })
+
+  describe('renderBasics', () => {
+    it('should render name, headline, and contact info', () => {
+      resume.content.basics = {
+        name: 'Andy Dufresne',
+        headline: 'Headed for the Pacific',
+        email: 'hi@ppresume.com',
+        phone: '(213) 555-9876',
+      }
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+
+      const link = (url: string, text: string) =>
+        createDocxHyperlink(
+          url,
+          createDocxRun(text, { style: 'Hyperlink', underline: false })
+        )
+
+      expect(renderer.renderBasics()).toBe(
+        [
+          createDocxParagraph(createDocxRun('Andy Dufresne'), {
+            style: 'Title',
+          }),
+          createDocxParagraph(createDocxRun('Headed for the Pacific'), {
+            style: 'Subtitle',
+          }),
+          createDocxParagraph(
+            [
+              link('mailto:hi@ppresume.com', 'hi@ppresume.com'),
+              link('tel:(213) 555-9876', '(213) 555-9876'),
+            ].join(createDocxRun(' | ')),
+            { style: 'Contact' }
+          ),
+        ].join('\n')
+      )
+    })
+
+    it('should handle missing optional fields', () => {
+      resume.content.basics = { name: 'Andy Dufresne' }
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+
+      expect(renderer.renderBasics()).toBe(
+        createDocxParagraph(createDocxRun('Andy Dufresne'), { style: 'Title' })
+      )
+    })
+  })
+
+  describe('renderProfiles', () => {
+    it('should return empty string without profiles', () => {
+      resume.content.profiles = []
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+
+      expect(renderer.renderProfiles()).toBe('')
+    })
+
+    it('should underline links if the layout asks for it', () => {
+      resume.layouts = [
+        { engine: 'docx', typography: { links: { underline: true } } },
+      ]
+      resume.content.profiles = [
+        {
+          network: 'GitHub',
+          username: 'andy',
+          url: 'https://github.com/andy',
+        },
+      ]
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+
+      expect(renderer.renderProfiles()).toMatch(
+        createDocxHyperlink(
+          'https://github.com/andy',
+          createDocxRun('@andy', { style: 'Hyperlink', underline: true })
+        )
+      )
+    })
+  })
+
+  describe('renderWork', () => {
+    it('should render work entries with keywords and summary', () => {
+      resume.content.work = [
+        {
+          name: 'Shawshank & Co',
+          position: 'Accountant',
+          startDate: '1947-01-01',
+          endDate: '1966-01-01',
+          keywords: ['Banking', 'Taxes'],
+          summary: '- Built a **library**',
+        },
+      ]
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch(
+        createDocxParagraph(createDocxRun('Work'), { style: 'Heading1' })
+      )
+      expect(result).toMatch(
+        createDocxParagraph(createDocxRun('Accountant'), { style: 'Heading2' })
+      )
+      expect(result).toMatch(
+        createDocxParagraph(
+          [
+            createDocxRun('Shawshank &amp; Co', { italic: true }),
+            createDocxRun('Jan 1947–Jan 1966'),
+          ].join(createDocxRun(' | '))
+        )
+      )
+      expect(result).toMatch(
+        createDocxParagraph(
+          createDocxRun('Keywords', { bold: true }) +
+            createDocxRun(': Banking, Taxes')
+        )
+      )
+      expect(result).toMatch('<w:pStyle w:val="ListBullet"/>')
+      expect(result).toMatch(createDocxRun('library', { bold: true }))
+    })
+
+    it('should return empty string without work', () => {
+      resume.content.work = []
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+
+      expect(renderer.renderWork()).toBe('')
+    })
+
+    it('should render highlights as a bullet list', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          position: 'Software Engineer',
+          startDate: '2020-01-01',
+          summary: 'Built things',
+          highlights: ['Shipped **v1**', 'R&D'],
+        },
+      ]
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result.match(/<w:pStyle w:val="ListBullet"\/>/g)).toHaveLength(2)
+      expect(result).toMatch(createDocxRun('v1', { bold: true }))
+      expect(result).toMatch(createDocxRun('R&amp;D'))
+    })
+
+    it('should render positions grouped under the company', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          url: 'https://ppresume.com',
+          positions: [
+            {
+              position: 'Senior Software Engineer',
+              startDate: '2022-01-01',
+              summary: 'Led **things**',
+            },
+            {
+              position: 'Software Engineer',
+              startDate: '2020-01-01',
+              endDate: '2022-01-01',
+              summary: 'Built things',
+            },
+          ],
+        },
+      ]
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch(
+        '<w:pStyle w:val="Heading2"/></w:pPr><w:r><w:t xml:space="preserve">PPResume</w:t>'
+      )
+      expect(result).toMatch(
+        '<w:pStyle w:val="Heading3"/></w:pPr><w:r><w:t xml:space="preserve">Senior Software Engineer</w:t>'
+      )
+      expect(result).toMatch(
+        '<w:pStyle w:val="Heading3"/></w:pPr><w:r><w:t xml:space="preserve">Software Engineer</w:t>'
+      )
+      expect(result).toMatch('Jan 2020–Present')
+      expect(result).toMatch('Jan 2020–Jan 2022')
+    })
+  })
+
+  describe('renderSkills', () => {
+    it('should render skills as a bullet list', () => {
+      resume.content.skills = [
+        { name: 'Programming', level: 'Expert', keywords: ['Rust'] },
+      ]
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+
+      expect(renderer.renderSkills()).toMatch(
+        createDocxParagraph(
+          createDocxRun('Programming', { bold: true }) +
+            createDocxRun(': Expert, Keywords: Rust'),
+          { style: 'ListBullet', numbering: { id: 1, level: 0 } }
+        )
+      )
+    })
+  })
+
+  describe('render', () => {
+    it('should respect section order and escape aliases', () => {
+      resume.layouts = [
+        {
+          engine: 'docx',
+          sections: {
+            aliases: { work: 'Experience & More' },
+            order: ['work', 'education'],
+          },
+        },
+      ]
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      const work = result.indexOf(createDocxRun('Experience &amp; More'))
+      const education = result.indexOf(createDocxRun('Education'))
+      const skills = result.indexOf(createDocxRun('Skills'))
+
+      expect(work).toBeGreaterThan(-1)
+      expect(work).toBeLessThan(education)
+      expect(education).toBeLessThan(skills)
+    })
+
+    it('should render page size and margins in twips', () => {
+      resume.layouts = [
+        {
+          engine: 'docx',
+          page: { margins: { top: '1in', left: '20pt' } },
+        },
+      ]
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      expect(result).toMatch('<w:pgSz w:w="11906" w:h="16838"/>')
+      expect(result).toMatch(
+        '<w:pgMar w:top="1440" w:right="850" w:bottom="1417" w:left="400"'
+      )
+      expect(result).not.toMatch('<w:footerReference')
+    })
+
+    it('should reference the footer if page numbers are shown', () => {
+      resume.layouts = [{ engine: 'docx', page: { showPageNumbers: true } }]
+
+      renderer = new DocxRenderer(resume, layoutIndex)
+
+      expect(renderer.render()).toMatch(
+        '<w:footerReference w:type="default" r:id="rId3"/>'
+      )
+    })
+  })
+
+  describe('renderDocx', () => {
+    it('should pack all parts into a zip package', () => {
+      // entries are stored without compression, so the parts can be found in
+      // the decoded package as is
+      const result = new TextDecoder().decode(renderer.renderDocx())
+
+      for (const path of [
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'word/_rels/document.xml.rels',
+        'word/document.xml',
+        'word/styles.xml',
+        'word/numbering.xml',
+        'word/footer1.xml',
+      ]) {
+        expect(result).toContain(path)
+      }
+      expect(result).toContain(renderer.render())
+      expect(result).toContain(renderer.renderPreamble())
+    })
+  })
+
+  describe('renderCustomSection', () => {
+    beforeEach(() => {
+      resume.content.custom = [
+        {
+          id: 'talks',
+          title: 'Talks',
+          items: [
+            {
+              name: 'Resumes as Code',
+              startDate: '2024-05-01',
+              url: 'https://example.com/talk',
+              keywords: ['YAML', 'LaTeX'],
+              summary: 'A talk about **resumes**',
+            },
+          ],
+        },
+        { id: 'patents', title: 'Patents', items: [] },
+      ]
+      renderer = new DocxRenderer(resume, layoutIndex)
+    })
+
+    it('should render items of a custom section', () => {
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch(
+        '<w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t xml:space="preserve">Talks</w:t>'
+      )
+      expect(result).toMatch('<w:t xml:space="preserve">Resumes as Code</w:t>')
+      expect(result).toMatch('<w:t xml:space="preserve">: YAML, LaTeX</w:t>')
+    })
+
+    it('should escape the title of a custom section once', () => {
+      resume.content.custom[0].title = 'Open Source & *Community*'
+      renderer = new DocxRenderer(resume, layoutIndex)
+
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch(
+        '<w:t xml:space="preserve">Open Source &amp; *Community*</w:t>'
+      )
+    })
+
+    it('should return empty string when a custom section has no items', () => {
+      expect(
+        renderer.renderCustomSection(renderer.resume.content.custom[1])
+      ).toBe('')
+    })
+  })
+})
@@ -0,0 +1,934 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type { Parser } from '@/compiler'
+import { MarkdownParser } from '@/compiler'
+import {
+  createDocxHyperlink,
+  createDocxParagraph,
+  createDocxRun,
+  DOCX_NUMBERING_IDS,
+} from '@/compiler/codegen/docx'
+import type {
+  CustomSection,
+  DocxLayout,
+  Resume,
+  WorkPositionItem,
+} from '@/models'
+import { transformResume } from '@/preprocess'
+import { getTemplateTranslations } from '@/translations'
+import {
+  createZip,
+  escapeHtml,
+  isEmptyValue,
+  joinNonEmptyString,
+  showIfNotEmpty,
+} from '@/utils'
+import { Renderer } from '../base'
+import {
+  DOCX_NAMESPACES,
+  DOCX_PAGE_SIZE,
+  DOCX_RELATIONSHIP_IDS,
+  renderContentTypes,
+  renderDocumentRelationships,
+  renderFooter,
+  renderNumbering,
+  renderPackageRelationships,
+  renderStyles,
+  toTwips,
+} from './parts'
+
+/**
+ * A single entry in a section, e.g, a work experience or an award.
+ */
+type DocxEntry = {
+  /** The title of the entry. */
+  title: string
+  /** The subtitle of the entry. */
+  subtitle?: string
+  /** The date or date range of the entry. */
+  date?: string
+  /** The url related to the entry. */
+  url?: string
+  /** Extra paragraphs rendered before the summary, e.g, keywords or courses. */
+  details?: string[]
+  /** The summary of the entry, already converted into WordprocessingML. */
+  summary?: string
+  /** The highlights of the entry, already converted into a WordprocessingML list. */
+  highlights?: string
+  /** The nested positions of the entry, already rendered into WordprocessingML. */
+  positions?: string
+}
+
+/**
+ * Docx renderer for generating an editable Word document from resume data.
+ *
+ * `render` returns the main `word/document.xml` part, while `renderDocx`
+ * packs it together with styles, numbering and the other parts into a `.docx`
+ * file, no external binaries are required.
+ */
+export class DocxRenderer extends Renderer {
+  /**
+   * Constructor for the DocxRenderer class.
+   *
+   * @param resume - The resume object
+   * @param layoutIndex - The index of the selected layout to use.
+   * @param summaryParser - The summary parser used to parse summary field in
+   * various sections.
+   */
+  constructor(
+    resume: Resume,
+    layoutIndex: number,
+    summaryParser: Parser = new MarkdownParser()
+  ) {
+    super(transformResume(resume, layoutIndex, summaryParser), layoutIndex)
+  }
+
+  /**
+   * Get the docx layout selected for this renderer.
+   */
+  private get layout(): DocxLayout | undefined {
+    return this.resume.layouts?.[this.layoutIndex] as DocxLayout
+  }
+
+  /**
+   * Render a section with a heading and its body.
+   *
+   * Section names are not escaped by `transformResume`, so we escape them here.
+   */
+  private renderSection(title: string, body: string): string {
+    return joinNonEmptyString(
+      [
+        createDocxParagraph(createDocxRun(escapeHtml(title)), {
+          style: 'Heading1',
+        }),
+        body,
+      ],
+      '\n'
+    )
+  }
+
+  /**
+   * Render a link with the builtin `Hyperlink` character style.
+   */
+  private renderLink(url: string, text: string): string {
+    return createDocxHyperlink(
+      url,
+      createDocxRun(text, {
+        style: 'Hyperlink',
+        underline: this.layout?.typography?.links?.underline ?? false,
+      })
+    )
+  }
+
+  /**
+   * Render a labelled item, i.e, a bold label optionally followed by a value.
+   */
+  private renderItem(label: string, value = ''): string {
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    return joinNonEmptyString(
+      [
+        createDocxRun(label, { bold: true }),
+        showIfNotEmpty(value, createDocxRun(`${escapeHtml(colon)}${value}`)),
+      ],
+      ''
+    )
+  }
+
+  /**
+   * Render a bullet list, each item is a list of runs.
+   */
+  private renderList(items: string[]): string {
+    return items
+      .map((item) =>
+        createDocxParagraph(item, {
+          style: 'ListBullet',
+          numbering: { id: DOCX_NUMBERING_IDS.ListBullet, level: 0 },
+        })
+      )
+      .join('\n')
+  }
+
+  /**
+   * Render a single entry of a section.
+   *
+   * The title is rendered with the `Heading2` style, followed by a paragraph
+   * with the subtitle, date and url, the details and the summary.
+   */
+  private renderEntry({
+    title,
+    subtitle,
+    date,
+    url,
+    details = [],
+    summary,
+    highlights,
+    positions,
+  }: DocxEntry): string {
+    const separator = createDocxRun(' | ')
+
+    const meta = joinNonEmptyString(
+      [
+        showIfNotEmpty(subtitle, createDocxRun(subtitle, { italic: true })),
+        showIfNotEmpty(date, createDocxRun(date)),
+        showIfNotEmpty(url, this.renderLink(url, url)),
+      ],
+      separator
+    )
+
+    return joinNonEmptyString(
+      [
+        createDocxParagraph(createDocxRun(title ?? ''), { style: 'Heading2' }),
+        showIfNotEmpty(meta, createDocxParagraph(meta)),
+        ...details.map((detail) =>
+          showIfNotEmpty(detail, createDocxParagraph(detail))
+        ),
+        summary,
+        highlights,
+        positions,
+      ],
+      '\n'
+    )
+  }
+
+  /**
+   * Render the preamble of the docx document.
+   *
+   * For docx documents the preamble is `word/styles.xml`, which defines the
+   * font size, language and the styles used by the document.
+   *
+   * @returns {string} The styles part of the docx document.
+   */
+  renderPreamble(): string {
+    return renderStyles({
+      fontSize: this.layout?.typography?.fontSize,
+      language: this.resume.locale?.language,
+    })
+  }
+
+  /**
+   * Render the basics section of the resume.
+   *
+   * @returns {string} The rendered basics section
+   */
+  renderBasics(): string {
+    const {
+      content: {
+        basics: { name, headline, email, phone, url },
+      },
+    } = this.resume
+
+    const contactInfo = joinNonEmptyString(
+      [
+        showIfNotEmpty(email, this.renderLink(`mailto:${email}`, email)),
+        showIfNotEmpty(phone, this.renderLink(`tel:${phone}`, phone)),
+        showIfNotEmpty(url, this.renderLink(url, url)),
+      ],
+      createDocxRun(' | ')
+    )
+
+    return joinNonEmptyString(
+      [
+        showIfNotEmpty(
+          name,
+          createDocxParagraph(createDocxRun(name), { style: 'Title' })
+        ),
+        showIfNotEmpty(
+          headline,
+          createDocxParagraph(createDocxRun(headline), { style: 'Subtitle' })
+        ),
+        showIfNotEmpty(
+          contactInfo,
+          createDocxParagraph(contactInfo, { style: 'Contact' })
+        ),
+      ],
+      '\n'
+    )
+  }
+
+  /**
+   * Render the summary section of the resume.
+   *
+   * @returns {string} The rendered summary section
+   */
+  renderSummary(): string {
+    const {
+      content: {
+        basics: {
+          computed: { summary },
+        },
+        computed: { sectionNames },
+      },
+    } = this.resume
+
+    return showIfNotEmpty(
+      summary,
+      this.renderSection(sectionNames.basics, summary)
+    )
+  }
+
+  /**
+   * Render the location section of the resume.
+   *
+   * @returns {string} The rendered location section
+   */
+  renderLocation(): string {
+    const {
+      content: {
+        location: {
+          computed: { fullAddress },
+        },
+      },
+    } = this.resume
+
+    return showIfNotEmpty(
+      fullAddress,
+      createDocxParagraph(createDocxRun(fullAddress), { style: 'Contact' })
+    )
+  }
+
+  /**
+   * Render the profiles section of the resume.
+   *
+   * @returns {string} The rendered profiles section
+   */
+  renderProfiles(): string {
+    const {
+      content: { profiles },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(profiles)) return ''
+
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    const links = profiles
+      .filter(({ username }) => !isEmptyValue(username))
+      .map(({ network, url, username }) => {
+        if (isEmptyValue(url)) {
+          return createDocxRun(`${network}${escapeHtml(colon)}@${username}`)
+        }
+
+        return joinNonEmptyString(
+          [
+            createDocxRun(`${network}${escapeHtml(colon)}`),
+            this.renderLink(url, `@${username}`),
+          ],
+          ''
+        )
+      })
+      .join(createDocxRun(' | '))
+
+    return showIfNotEmpty(
+      links,
+      createDocxParagraph(links, { style: 'Contact' })
+    )
+  }
+
+  /**
+   * Render the education section of the resume.
+   *
+   * @returns {string} The rendered education section
+   */
+  renderEducation(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        education,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(education)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames.education,
+      education
+        .map(
+          ({
+            computed: {
+              courses,
+              dateRange,
+              degreeAreaAndScore,
+              startDate,
+              summary,
+            },
+            institution,
+            url,
+          }) =>
+            this.renderEntry({
+              title: institution,
+              subtitle: degreeAreaAndScore,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [
+                showIfNotEmpty(
+                  courses,
+                  this.renderItem(terms.courses, courses)
+                ),
+              ],
+              summary,
+            })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the positions held at a company, each position is rendered with the
+   * `Heading3` style followed by its own dates and summary.
+   */
+  private renderWorkPositions(positions: WorkPositionItem[] = []): string {
+    return positions
+      .map(({ computed: { dateRange, startDate, summary }, position }) =>
+        joinNonEmptyString(
+          [
+            createDocxParagraph(createDocxRun(position), { style: 'Heading3' }),
+            showIfNotEmpty(
+              startDate,
+              createDocxParagraph(createDocxRun(dateRange))
+            ),
+            summary,
+          ],
+          '\n'
+        )
+      )
+      .join('\n')
+  }
+
+  /**
+   * Render the work section of the resume.
+   *
+   * @returns {string} The rendered work section
+   */
+  renderWork(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        work,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(work)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames.work,
+      work
+        .map(
+          ({
+            computed: { dateRange, highlights, keywords, startDate, summary },
+            name,
+            position,
+            positions,
+            url,
+          }) =>
+            this.renderEntry({
+              // when positions are grouped, the company is the title and each
+              // position is rendered as a nested role below it
+              title: isEmptyValue(positions) ? position : name,
+              subtitle: isEmptyValue(positions) ? name : '',
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [
+                showIfNotEmpty(
+                  keywords,
+                  this.renderItem(terms.keywords, keywords)
+                ),
+              ],
+              summary,
+              highlights,
+              positions: this.renderWorkPositions(positions),
+            })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the languages section of the resume.
+   *
+   * @returns {string} The rendered languages section
+   */
+  renderLanguages(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        languages,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(languages)) return ''
+
+    const {
+      punctuations: { colon, comma },
+      terms,
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      sectionNames.languages,
+      this.renderList(
+        languages.map(({ computed: { language, fluency, keywords } }) =>
+          this.renderItem(
+            language,
+            joinNonEmptyString(
+              [
+                fluency,
+                showIfNotEmpty(
+                  keywords,
+                  `${terms.keywords}${escapeHtml(colon)}${keywords}`
+                ),
+              ],
+              escapeHtml(comma)
+            )
+          )
+        )
+      )
+    )
+  }
+
+  /**
+   * Render the skills section of the resume.
+   *
+   * @returns {string} The rendered skills section
+   */
+  renderSkills(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        skills,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(skills)) return ''
+
+    const {
+      punctuations: { colon, comma },
+      terms,
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      sectionNames.skills,
+      this.renderList(
+        skills.map(({ name, computed: { level, keywords } }) =>
+          this.renderItem(
+            name,
+            joinNonEmptyString(
+              [
+                level,
+                showIfNotEmpty(
+                  keywords,
+                  `${terms.keywords}${escapeHtml(colon)}${keywords}`
+                ),
+              ],
+              escapeHtml(comma)
+            )
+          )
+        )
+      )
+    )
+  }
+
+  /**
+   * Render the awards section of the resume.
+   *
+   * @returns {string} The rendered awards section
+   */
+  renderAwards(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        awards,
+      },
+    } = this.resume
+
+    if (isEmptyValue(awards)) return ''
+
+    return this.renderSection(
+      sectionNames.awards,
+      awards
+        .map(({ computed: { date, summary }, awarder, title }) =>
+          this.renderEntry({ title, subtitle: awarder, date, summary })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the certificates section of the resume.
+   *
+   * @returns {string} The rendered certificates section
+   */
+  renderCertificates(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        certificates,
+      },
+    } = this.resume
+
+    if (isEmptyValue(certificates)) return ''
+
+    return this.renderSection(
+      sectionNames.certificates,
+      certificates
+        .map(({ computed: { date }, issuer, name, url }) =>
+          this.renderEntry({ title: name, subtitle: issuer, date, url })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the publications section of the resume.
+   *
+   * @returns {string} The rendered publications section
+   */
+  renderPublications(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        publications,
+      },
+    } = this.resume
+
+    if (isEmptyValue(publications)) return ''
+
+    return this.renderSection(
+      sectionNames.publications,
+      publications
+        .map(({ computed: { releaseDate, summary }, name, publisher, url }) =>
+          this.renderEntry({
+            title: name,
+            subtitle: publisher,
+            date: releaseDate,
+            url,
+            summary,
+          })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the references section of the resume.
+   *
+   * @returns {string} The rendered references section
+   */
+  renderReferences(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        references,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(references)) return ''
+
+    const {
+      punctuations: { comma },
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      sectionNames.references,
+      references
+        .map(({ computed: { summary }, email, name, phone, relationship }) =>
+          this.renderEntry({
+            title: name,
+            subtitle: relationship,
+            details: [
+              joinNonEmptyString(
+                [
+                  showIfNotEmpty(
+                    email,
+                    this.renderLink(`mailto:${email}`, email)
+                  ),
+                  showIfNotEmpty(phone, this.renderLink(`tel:${phone}`, phone)),
+                ],
+                createDocxRun(escapeHtml(comma))
+              ),
+            ],
+            summary,
+          })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the projects section of the resume.
+   *
+   * @returns {string} The rendered projects section
+   */
+  renderProjects(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        projects,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(projects)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames.projects,
+      projects
+        .map(
+          ({
+            computed: { dateRange, highlights, keywords, startDate, summary },
+            description,
+            name,
+            url,
+          }) =>
+            this.renderEntry({
+              title: name,
+              subtitle: description,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [
+                showIfNotEmpty(
+                  keywords,
+                  this.renderItem(terms.keywords, keywords)
+                ),
+              ],
+              summary,
+              highlights,
+            })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the interests section of the resume.
+   *
+   * @returns {string} The rendered interests section
+   */
+  renderInterests(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        interests,
+      },
+    } = this.resume
+
+    if (isEmptyValue(interests)) return ''
+
+    return this.renderSection(
+      sectionNames.interests,
+      this.renderList(
+        interests.map(({ name, computed: { keywords } }) =>
+          this.renderItem(name, keywords)
+        )
+      )
+    )
+  }
+
+  /**
+   * Render the volunteer section of the resume.
+   *
+   * @returns {string} The rendered volunteer section
+   */
+  renderVolunteer(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        volunteer,
+      },
+    } = this.resume
+
+    if (isEmptyValue(volunteer)) return ''
+
+    return this.renderSection(
+      sectionNames.volunteer,
+      volunteer
+        .map(
+          ({
+            computed: { dateRange, highlights, startDate, summary },
+            organization,
+            position,
+            url,
+          }) =>
+            this.renderEntry({
+              title: organization,
+              subtitle: position,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              summary,
+              highlights,
+            })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render a custom section of the resume.
+   *
+   * @param section - The custom section to render.
+   * @returns {string} The rendered custom section
+   */
+  renderCustomSection({ id, items }: CustomSection): string {
+    const {
+      content: {
+        computed: { sectionNames },
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(items)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames[id],
+      items
+        .map(({ computed: { dateRange, keywords, summary }, name, url }) =>
+          this.renderEntry({
+            title: name,
+            date: dateRange,
+            url,
+            details: [
+              showIfNotEmpty(
+                keywords,
+                this.renderItem(terms.keywords, keywords)
+              ),
+            ],
+            summary,
+          })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the section properties of the document, i.e, the page size,
+   * margins and the footer with page numbers.
+   *
+   * @returns {string} The section properties
+   */
+  private renderSectionProperties(): string {
+    const { page } = this.layout ?? {}
+    const { top, bottom, left, right } = page?.margins ?? {}
+
+    const margins = joinNonEmptyString(
+      [
+        `w:top="${toTwips(top) ?? 1417}"`,
+        `w:right="${toTwips(right) ?? 850}"`,
+        `w:bottom="${toTwips(bottom) ?? 1417}"`,
+        `w:left="${toTwips(left) ?? 850}"`,
+        'w:header="708" w:footer="708" w:gutter="0"',
+      ],
+      ' '
+    )
+
+    return joinNonEmptyString(
+      [
+        '<w:sectPr>',
+        page?.showPageNumbers
+          ? `<w:footerReference w:type="default" r:id="${DOCX_RELATIONSHIP_IDS.footer}"/>`
+          : '',
+        `<w:pgSz w:w="${DOCX_PAGE_SIZE.width}" w:h="${DOCX_PAGE_SIZE.height}"/>`,
+        `<w:pgMar ${margins}/>`,
+        '</w:sectPr>',
+      ],
+      ''
+    )
+  }
+
+  /**
+   * Render the main document part of the docx resume, i.e,
+   * `word/document.xml`.
+   *
+   * @returns {string} The rendered document part
+   */
+  render(): string {
+    return `${joinNonEmptyString(
+      [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        `<w:document xmlns:w="${DOCX_NAMESPACES.wordprocessingml}" xmlns:r="${DOCX_NAMESPACES.relationships}">`,
+        '<w:body>',
+        this.renderBasics(),
+        this.renderLocation(),
+        this.renderProfiles(),
+        this.renderOrderedSections(),
+        this.renderSectionProperties(),
+        '</w:body>',
+        '</w:document>',
+      ],
+      '\n'
+    )}
+`
+  }
+
+  /**
+   * Render the complete docx resume, a zip package of all the parts.
+   *
+   * @returns {Uint8Array} The content of the `.docx` file
+   */
+  renderDocx(): Uint8Array {
+    return createZip([
+      { path: '[Content_Types].xml', content: renderContentTypes() },
+      { path: '_rels/.rels', content: renderPackageRelationships() },
+      {
+        path: 'word/_rels/document.xml.rels',
+        content: renderDocumentRelationships(),
+      },
+      { path: 'word/document.xml', content: this.render() },
+      { path: 'word/styles.xml', content: this.renderPreamble() },
+      { path: 'word/numbering.xml', content: renderNumbering() },
+      { path: 'word/footer1.xml', content: renderFooter() },
+    ])
+  }
+}
@@ -0,0 +1,567 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { cloneDeep } from 'lodash-es'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { FILLED_RESUME, type Resume } from '@/models'
+import { HtmlRenderer } from './renderer'
+
+describe('HtmlRenderer', () => {
+  let resume: Resume
+  let renderer: HtmlRenderer
+  const layoutIndex = 0
+
+  beforeEach(() => {
+    resume = cloneDeep(FILLED_RESUME)
+    resume.layouts = [{ engine: 'html' }]
+    renderer = new HtmlRenderer(resume, layoutIndex)
+  })
+
+  describe('renderPreamble', () => {
+    it('should render meta tags, title and inline stylesheet', () => {
+      resume.content.basics = {
+        name: 'Andy Dufresne',
+        headline: 'Headed for the Pacific',
+      }
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderPreamble()
+
+      expect(result).toMatch('<meta charset="utf-8">')
+      expect(result).toMatch('<meta name="viewport"')
+      expect(result).toMatch(
+        '<title>Andy Dufresne — Headed for the Pacific</title>'
+      )
+      expect(result).toMatch('<style>')
+      expect(result).toMatch('@media print')
+    })
+
+    it('should respect theme, font size and link underline', () => {
+      resume.layouts = [
+        {
+          engine: 'html',
+          theme: 'dark',
+          typography: { fontSize: '12pt', links: { underline: true } },
+        },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderPreamble()
+
+      expect(result).toMatch('--resume-background: #0d1117;')
+      expect(result).toMatch('--resume-font-size: 12pt;')
+      expect(result).toMatch('text-decoration: underline;')
+    })
+
+    it('should use default theme and font size', () => {
+      const result = renderer.renderPreamble()
+
+      expect(result).toMatch('--resume-background: #ffffff;')
+      expect(result).toMatch('--resume-font-size: 11pt;')
+    })
+  })
+
+  describe('renderBasics', () => {
+    it('should render basic information with name, headline, and contact info', () => {
+      resume.content.basics = {
+        name: 'Andy Dufresne',
+        headline: 'Headed for the Pacific',
+        email: 'hi@ppresume.com',
+        phone: '(213) 555-9876',
+        url: 'https://ppresume.com/gallery',
+      }
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderBasics()
+
+      expect(result).toMatch('<h1>Andy Dufresne</h1>')
+      expect(result).toMatch('<p class="headline">Headed for the Pacific</p>')
+      expect(result).toMatch(
+        '<li><a href="mailto:hi@ppresume.com">hi@ppresume.com</a></li>'
+      )
+      expect(result).toMatch(
+        '<li><a href="tel:(213) 555-9876">(213) 555-9876</a></li>'
+      )
+      expect(result).toMatch(
+        '<li><a href="https://ppresume.com/gallery">https://ppresume.com/gallery</a></li>'
+      )
+    })
+
+    it('should handle missing optional fields', () => {
+      resume.content.basics = { name: 'Andy Dufresne' }
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderBasics()
+
+      expect(result).toBe('<h1>Andy Dufresne</h1>')
+    })
+
+    it('should escape html special characters', () => {
+      resume.content.basics = {
+        name: 'Andy <Dufresne> & Red',
+      }
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderBasics()
+
+      expect(result).toBe('<h1>Andy &lt;Dufresne&gt; &amp; Red</h1>')
+    })
+  })
+
+  describe('renderSummary', () => {
+    it('should return empty string when summary is missing', () => {
+      resume.content.basics = { name: 'Test User', summary: undefined }
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      expect(renderer.renderSummary()).toBe('')
+    })
+
+    it('should render summary as html', () => {
+      resume.content.basics = {
+        name: 'Test User',
+        summary: '- **Computer Science** major\n- Familiar with *TypeScript*',
+      }
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderSummary()
+
+      expect(result).toMatch('<section id="basics">')
+      expect(result).toMatch('<h2>Basics</h2>')
+      expect(result).toMatch('<li><strong>Computer Science</strong> major</li>')
+      expect(result).toMatch('<li>Familiar with <em>TypeScript</em></li>')
+    })
+  })
+
+  describe('renderLocation', () => {
+    it('should render full address', () => {
+      resume.content.location = {
+        address: '123 Main St',
+        city: 'Sunnyvale',
+        country: 'United States',
+      }
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderLocation()
+
+      expect(result).toMatch(/^<p class="location">123 Main St, Sunnyvale/)
+    })
+
+    it('should return empty string when location is empty', () => {
+      resume.content.location = { city: '' }
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      expect(renderer.renderLocation()).toBe('')
+    })
+  })
+
+  describe('renderProfiles', () => {
+    it('should return empty string when profiles is missing', () => {
+      resume.content.profiles = []
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      expect(renderer.renderProfiles()).toBe('')
+    })
+
+    it('should render profiles with and without url', () => {
+      resume.content.profiles = [
+        {
+          network: 'GitHub',
+          url: 'https://github.com/yamlresume',
+          username: 'yamlresume',
+        },
+        { network: 'Twitter', username: 'ppresume' },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderProfiles()
+
+      expect(result).toMatch('<ul class="profiles">')
+      expect(result).toMatch(
+        '<li>GitHub: <a href="https://github.com/yamlresume">@yamlresume</a></li>'
+      )
+      expect(result).toMatch('<li>Twitter: @ppresume</li>')
+    })
+  })
+
+  describe('renderWork', () => {
+    it('should return empty string when work is missing', () => {
+      resume.content.work = []
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      expect(renderer.renderWork()).toBe('')
+    })
+
+    it('should render work entries', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          position: 'Software Engineer',
+          startDate: '2020-01-01',
+          endDate: '2022-06-01',
+          url: 'https://ppresume.com',
+          keywords: ['TypeScript', 'React'],
+          summary: 'Built **things**',
+        },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch('<section id="work">')
+      expect(result).toMatch('<h2>Work</h2>')
+      expect(result).toMatch('<h3>Software Engineer</h3>')
+      expect(result).toMatch(
+        '<span class="entry-date">Jan 2020–Jun 2022</span>'
+      )
+      expect(result).toMatch('<p class="entry-subtitle">PPResume</p>')
+      expect(result).toMatch(
+        '<p><a href="https://ppresume.com">https://ppresume.com</a></p>'
+      )
+      expect(result).toMatch(
+        '<p><strong>Keywords</strong>: TypeScript, React</p>'
+      )
+      expect(result).toMatch('<p>Built <strong>things</strong></p>')
+    })
+
+    it('should render highlights as a bullet list', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          position: 'Software Engineer',
+          startDate: '2020-01-01',
+          summary: 'Built things',
+          highlights: ['Shipped **v1**', 'R&D'],
+        },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch(
+        [
+          '<div class="entry-highlights">',
+          '<ul>',
+          '<li>Shipped <strong>v1</strong></li>',
+          '<li>R&amp;D</li>',
+          '</ul>',
+          '</div>',
+        ].join('\n')
+      )
+    })
+
+    it('should render positions grouped under the company', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          url: 'https://ppresume.com',
+          positions: [
+            {
+              position: 'Senior Software Engineer',
+              startDate: '2022-01-01',
+              summary: 'Led **things**',
+            },
+            {
+              position: 'Software Engineer',
+              startDate: '2020-01-01',
+              endDate: '2022-01-01',
+              summary: 'Built things',
+            },
+          ],
+        },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch(
+        [
+          '<h3>PPResume</h3>',
+          '<span class="entry-date">Jan 2020–Present</span>',
+        ].join('\n')
+      )
+      expect(result).toMatch(
+        [
+          '<div class="entry-position">',
+          '<div class="entry-heading">',
+          '<h4>Senior Software Engineer</h4>',
+          '<span class="entry-date">Jan 2022–Present</span>',
+          '</div>',
+          '<div class="entry-summary">',
+          '<p>Led <strong>things</strong></p>',
+        ].join('\n')
+      )
+      expect(result).toMatch('<h4>Software Engineer</h4>')
+      expect(result).toMatch('Jan 2020–Jan 2022')
+      expect(result).not.toMatch('entry-subtitle')
+    })
+  })
+
+  describe('renderWork with date settings', () => {
+    it('should escape the date separator and the present wording', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          position: 'Software Engineer',
+          startDate: '2010-01-01',
+          endDate: '2012-04-01',
+        },
+        {
+          name: 'PPResume',
+          position: 'Staff Engineer',
+          startDate: '2012-05-01',
+          endDate: '',
+        },
+      ]
+      resume.layouts = [
+        {
+          engine: 'html',
+          dates: { format: 'MM/YYYY', separator: ' <-> ', present: '<now>' },
+        },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch(
+        '<span class="entry-date">01/2010 &lt;-&gt; 04/2012</span>'
+      )
+      expect(result).toMatch(
+        '<span class="entry-date">05/2012 &lt;-&gt; &lt;now&gt;</span>'
+      )
+      expect(result).not.toMatch('<now>')
+    })
+  })
+
+  describe('renderEducation', () => {
+    it('should render education entries', () => {
+      resume.content.education = [
+        {
+          institution: 'MIT',
+          area: 'Computer Science',
+          degree: 'Bachelor',
+          startDate: '2016-09-01',
+          courses: ['Algorithms', 'Compilers'],
+        },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderEducation()
+
+      expect(result).toMatch('<section id="education">')
+      expect(result).toMatch('<h3>MIT</h3>')
+      expect(result).toMatch('Bachelor')
+      expect(result).toMatch('Computer Science')
+      expect(result).toMatch('<strong>Courses</strong>: Algorithms, Compilers')
+    })
+  })
+
+  describe('renderSkills', () => {
+    it('should render skills as a list', () => {
+      resume.content.skills = [
+        {
+          name: 'Programming',
+          level: 'Expert',
+          keywords: ['TypeScript', 'Rust'],
+        },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderSkills()
+
+      expect(result).toMatch('<ul class="items">')
+      expect(result).toMatch(
+        '<li><strong>Programming</strong>: Expert, Keywords: TypeScript, Rust</li>'
+      )
+    })
+  })
+
+  describe('renderInterests', () => {
+    it('should render interests as a list', () => {
+      resume.content.interests = [
+        { name: 'Music', keywords: ['Jazz'] },
+        { name: 'Hiking' },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderInterests()
+
+      expect(result).toMatch('<li><strong>Music</strong>: Jazz</li>')
+      expect(result).toMatch('<li><strong>Hiking</strong></li>')
+    })
+  })
+
+  describe('renderReferences', () => {
+    it('should render references with contact links', () => {
+      resume.content.references = [
+        {
+          name: 'Red',
+          relationship: 'Friend',
+          email: 'red@shawshank.com',
+          phone: '555-0100',
+          summary: 'A good man',
+        },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.renderReferences()
+
+      expect(result).toMatch('<h3>Red</h3>')
+      expect(result).toMatch('<p class="entry-subtitle">Friend</p>')
+      expect(result).toMatch(
+        '<a href="mailto:red@shawshank.com">red@shawshank.com</a>, <a href="tel:555-0100">555-0100</a>'
+      )
+      expect(result).toMatch('<p>A good man</p>')
+    })
+  })
+
+  describe('render', () => {
+    it('should render a complete html document', () => {
+      resume.content.basics = { name: 'Andy Dufresne' }
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      expect(result).toMatch(/^<!DOCTYPE html>\n<html lang="en">/)
+      expect(result).toMatch('<header class="resume-header">')
+      expect(result).toMatch('<main class="resume">')
+      expect(result).toMatch(/<\/html>\n$/)
+    })
+
+    it('should set text direction for right-to-left resumes', () => {
+      resume.content.basics = { name: 'Andy Dufresne' }
+      resume.locale = { ...resume.locale, language: 'he' }
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      expect(result).toMatch(/^<!DOCTYPE html>\n<html lang="he" dir="rtl">/)
+    })
+
+    it('should respect the sections order', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          position: 'Engineer',
+          startDate: '2020-01-01',
+          summary: '',
+        },
+      ]
+      resume.content.education = [
+        {
+          institution: 'MIT',
+          area: 'Computer Science',
+          degree: 'Bachelor',
+          startDate: '2016-09-01',
+        },
+      ]
+      resume.layouts = [
+        { engine: 'html', sections: { order: ['work', 'education'] } },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      expect(result.indexOf('<section id="work">')).toBeLessThan(
+        result.indexOf('<section id="education">')
+      )
+    })
+
+    it('should escape section aliases and custom section titles', () => {
+      resume.layouts = [
+        {
+          engine: 'html',
+          sections: { aliases: { work: '<b>W</b> & #co $' } },
+        },
+      ]
+      resume.content.custom = [
+        {
+          id: 'talks',
+          title: 'Talks & <i>Panels</i>',
+          items: [{ name: 'Resumes as Code' }],
+        },
+      ]
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      expect(result).toMatch('<h2>&lt;b&gt;W&lt;/b&gt; &amp; #co $</h2>')
+      expect(result).toMatch('<h2>Talks &amp; &lt;i&gt;Panels&lt;/i&gt;</h2>')
+    })
+
+    it('should place custom sections in the sections order', () => {
+      resume.content.custom = [
+        { id: 'talks', title: 'Talks', items: [{ name: 'Resumes as Code' }] },
+      ]
+      resume.layouts = [
+        { engine: 'html', sections: { order: ['talks', 'education'] } },
+      ]
+
+      renderer = new HtmlRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      expect(result.indexOf('<section id="talks">')).toBeLessThan(
+        result.indexOf('<section id="education">')
+      )
+    })
+  })
+
+  describe('renderCustomSection', () => {
+    beforeEach(() => {
+      resume.content.custom = [
+        {
+          id: 'talks',
+          title: 'Talks',
+          items: [
+            {
+              name: 'Resumes as Code',
+              startDate: '2024-05-01',
+              url: 'https://example.com/talk',
+              keywords: ['YAML', 'LaTeX'],
+              summary: 'A talk about **resumes**',
+            },
+          ],
+        },
+        { id: 'patents', title: 'Patents', items: [] },
+      ]
+      renderer = new HtmlRenderer(resume, layoutIndex)
+    })
+
+    it('should render items of a custom section', () => {
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('<section id="talks">\n<h2>Talks</h2>')
+      expect(result).toMatch('<span class="entry-date">May 2024</span>')
+      expect(result).toMatch('<p><strong>Keywords</strong>: YAML, LaTeX</p>')
+      expect(result).toMatch('<p>A talk about <strong>resumes</strong></p>')
+    })
+
+    it('should return empty string when a custom section has no items', () => {
+      expect(
+        renderer.renderCustomSection(renderer.resume.content.custom[1])
+      ).toBe('')
+    })
+  })
+})
@@ -0,0 +1,841 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type { Parser } from '@/compiler'
+import { MarkdownParser } from '@/compiler'
+import {
+  type CustomSection,
+  type HtmlLayout,
+  isRTLLanguage,
+  type Resume,
+  type WorkPositionItem,
+} from '@/models'
+import { transformResume } from '@/preprocess'
+import { getTemplateTranslations } from '@/translations'
+import {
+  escapeHtml,
+  isEmptyValue,
+  joinNonEmptyString,
+  showIf,
+  showIfNotEmpty,
+} from '@/utils'
+import { Renderer } from '../base'
+import { renderStylesheet } from './styles'
+
+/**
+ * A single entry in a section, e.g, a work experience or an award.
+ */
+type HtmlEntry = {
+  /** The title of the entry. */
+  title: string
+  /** The subtitle of the entry. */
+  subtitle?: string
+  /** The date or date range of the entry. */
+  date?: string
+  /** The url related to the entry. */
+  url?: string
+  /** Extra lines rendered after the url, e.g, keywords or courses. */
+  details?: string[]
+  /** The summary of the entry, already converted into HTML. */
+  summary?: string
+  /** The highlights of the entry, already converted into a HTML list. */
+  highlights?: string
+  /** The nested positions of the entry, already rendered into HTML. */
+  positions?: string
+}
+
+/**
+ * HTML renderer for generating a standalone web page from resume data.
+ *
+ * The output is a single self-contained `.html` file with semantic markup and
+ * an inline stylesheet, including print styles.
+ */
+export class HtmlRenderer extends Renderer {
+  /**
+   * Constructor for the HtmlRenderer class.
+   *
+   * @param resume - The resume object
+   * @param layoutIndex - The index of the selected layout to use.
+   * @param summaryParser - The summary parser used to parse summary field in
+   * various sections.
+   */
+  constructor(
+    resume: Resume,
+    layoutIndex: number,
+    summaryParser: Parser = new MarkdownParser()
+  ) {
+    super(transformResume(resume, layoutIndex, summaryParser), layoutIndex)
+  }
+
+  /**
+   * Get the html layout selected for this renderer.
+   */
+  private get layout(): HtmlLayout | undefined {
+    return this.resume.layouts?.[this.layoutIndex] as HtmlLayout
+  }
+
+  /**
+   * Render a section with a heading and its body.
+   *
+   * Section names are not escaped by `transformResume`, so we escape them here.
+   */
+  private renderSection(id: string, title: string, body: string): string {
+    return `<section id="${id}">
+<h2>${escapeHtml(title)}</h2>
+${body}
+</section>`
+  }
+
+  /**
+   * Render a single entry of a section.
+   */
+  private renderEntry({
+    title,
+    subtitle,
+    date,
+    url,
+    details = [],
+    summary,
+    highlights,
+    positions,
+  }: HtmlEntry): string {
+    return `<article class="entry">
+${joinNonEmptyString(
+  [
+    `<div class="entry-heading">
+${joinNonEmptyString(
+  [
+    `<h3>${title}</h3>`,
+    showIfNotEmpty(date, `<span class="entry-date">${date}</span>`),
+  ],
+  '\n'
+)}
+</div>`,
+    showIfNotEmpty(subtitle, `<p class="entry-subtitle">${subtitle}</p>`),
+    showIfNotEmpty(url, `<p><a href="${url}">${url}</a></p>`),
+    ...details.map((detail) => showIfNotEmpty(detail, `<p>${detail}</p>`)),
+    showIfNotEmpty(summary, `<div class="entry-summary">\n${summary}\n</div>`),
+    showIfNotEmpty(
+      highlights,
+      `<div class="entry-highlights">\n${highlights}\n</div>`
+    ),
+    positions,
+  ],
+  '\n'
+)}
+</article>`
+  }
+
+  /**
+   * Render a labelled line, e.g, `<strong>Keywords</strong>: React, Vue`.
+   */
+  private renderLabel(label: string, value: string): string {
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    return showIfNotEmpty(value, `<strong>${label}</strong>${colon}${value}`)
+  }
+
+  /**
+   * Render the head elements of the html document, including the inline
+   * stylesheet.
+   *
+   * @returns {string} The head elements of the html document.
+   */
+  renderPreamble(): string {
+    const {
+      content: {
+        basics: { name, headline },
+      },
+    } = this.resume
+
+    const title = joinNonEmptyString([name, headline], ' — ')
+
+    return joinNonEmptyString(
+      [
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        '<meta name="generator" content="YAMLResume">',
+        showIfNotEmpty(title, `<title>${title}</title>`),
+        `<style>
+${renderStylesheet({
+  theme: this.layout?.theme,
+  fontSize: this.layout?.typography?.fontSize,
+  underlineLinks: this.layout?.typography?.links?.underline,
+})}
+</style>`,
+      ],
+      '\n'
+    )
+  }
+
+  /**
+   * Render the basics section of the resume.
+   *
+   * @returns {string} The rendered basics section
+   */
+  renderBasics(): string {
+    const {
+      content: {
+        basics: { name, headline, email, phone, url },
+      },
+    } = this.resume
+
+    const contactInfo = joinNonEmptyString(
+      [
+        showIfNotEmpty(
+          email,
+          `<li><a href="mailto:${email}">${email}</a></li>`
+        ),
+        showIfNotEmpty(phone, `<li><a href="tel:${phone}">${phone}</a></li>`),
+        showIfNotEmpty(url, `<li><a href="${url}">${url}</a></li>`),
+      ],
+      '\n'
+    )
+
+    return joinNonEmptyString(
+      [
+        showIfNotEmpty(name, `<h1>${name}</h1>`),
+        showIfNotEmpty(headline, `<p class="headline">${headline}</p>`),
+        showIfNotEmpty(
+          contactInfo,
+          `<ul class="contact">\n${contactInfo}\n</ul>`
+        ),
+      ],
+      '\n'
+    )
+  }
+
+  /**
+   * Render the summary section of the resume.
+   *
+   * @returns {string} The rendered summary section
+   */
+  renderSummary(): string {
+    const {
+      content: {
+        basics: {
+          computed: { summary },
+        },
+        computed: { sectionNames },
+      },
+    } = this.resume
+
+    return showIfNotEmpty(
+      summary,
+      this.renderSection(
+        'basics',
+        sectionNames.basics,
+        `<div class="summary">\n${summary}\n</div>`
+      )
+    )
+  }
+
+  /**
+   * Render the location section of the resume.
+   *
+   * @returns {string} The rendered location section
+   */
+  renderLocation(): string {
+    const {
+      content: {
+        location: {
+          computed: { fullAddress },
+        },
+      },
+    } = this.resume
+
+    return showIfNotEmpty(fullAddress, `<p class="location">${fullAddress}</p>`)
+  }
+
+  /**
+   * Render the profiles section of the resume.
+   *
+   * @returns {string} The rendered profiles section
+   */
+  renderProfiles(): string {
+    const {
+      content: { profiles },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(profiles)) return ''
+
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    const profileLinks = profiles
+      .filter(({ username }) => !isEmptyValue(username))
+      .map(({ network, url, username }) => {
+        if (isEmptyValue(url)) {
+          return `<li>${network}${colon}@${username}</li>`
+        }
+
+        return `<li>${network}${colon}<a href="${url}">@${username}</a></li>`
+      })
+      .join('\n')
+
+    return showIfNotEmpty(
+      profileLinks,
+      `<ul class="profiles">\n${profileLinks}\n</ul>`
+    )
+  }
+
+  /**
+   * Render the education section of the resume.
+   *
+   * @returns {string} The rendered education section
+   */
+  renderEducation(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        education,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(education)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      'education',
+      sectionNames.education,
+      education
+        .map(
+          ({
+            computed: {
+              courses,
+              dateRange,
+              degreeAreaAndScore,
+              startDate,
+              summary,
+            },
+            institution,
+            url,
+          }) =>
+            this.renderEntry({
+              title: institution,
+              subtitle: degreeAreaAndScore,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [this.renderLabel(terms.courses, courses)],
+              summary,
+            })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the positions held at a company, each with its own dates and
+   * summary.
+   */
+  private renderWorkPositions(positions: WorkPositionItem[] = []): string {
+    return positions
+      .map(
+        ({ computed: { dateRange, startDate, summary }, position }) =>
+          `<div class="entry-position">
+${joinNonEmptyString(
+  [
+    `<div class="entry-heading">
+${joinNonEmptyString(
+  [
+    `<h4>${position}</h4>`,
+    showIfNotEmpty(startDate, `<span class="entry-date">${dateRange}</span>`),
+  ],
+  '\n'
+)}
+</div>`,
+    showIfNotEmpty(summary, `<div class="entry-summary">\n${summary}\n</div>`),
+  ],
+  '\n'
+)}
+</div>`
+      )
+      .join('\n')
+  }
+
+  /**
+   * Render the work section of the resume.
+   *
+   * @returns {string} The rendered work section
+   */
+  renderWork(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        work,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(work)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      'work',
+      sectionNames.work,
+      work
+        .map(
+          ({
+            computed: { dateRange, highlights, keywords, startDate, summary },
+            name,
+            position,
+            positions,
+            url,
+          }) =>
+            this.renderEntry({
+              // when positions are grouped, the company is the title and each
+              // position is rendered as a nested role below it
+              title: isEmptyValue(positions) ? position : name,
+              subtitle: isEmptyValue(positions) ? name : '',
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [this.renderLabel(terms.keywords, keywords)],
+              summary,
+              highlights,
+              positions: this.renderWorkPositions(positions),
+            })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the languages section of the resume.
+   *
+   * @returns {string} The rendered languages section
+   */
+  renderLanguages(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        languages,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(languages)) return ''
+
+    const {
+      punctuations: { colon, comma },
+      terms,
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      'languages',
+      sectionNames.languages,
+      `<ul class="items">
+${languages
+  .map(
+    ({ computed: { language, fluency, keywords } }) =>
+      `<li><strong>${language}</strong>${colon}${fluency}${showIfNotEmpty(
+        keywords,
+        `${comma}${terms.keywords}${colon}${keywords}`
+      )}</li>`
+  )
+  .join('\n')}
+</ul>`
+    )
+  }
+
+  /**
+   * Render the skills section of the resume.
+   *
+   * @returns {string} The rendered skills section
+   */
+  renderSkills(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        skills,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(skills)) return ''
+
+    const {
+      punctuations: { colon, comma },
+      terms,
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      'skills',
+      sectionNames.skills,
+      `<ul class="items">
+${skills
+  .map(
+    ({ name, computed: { level, keywords } }) =>
+      `<li><strong>${name}</strong>${colon}${level}${showIfNotEmpty(
+        keywords,
+        `${comma}${terms.keywords}${colon}${keywords}`
+      )}</li>`
+  )
+  .join('\n')}
+</ul>`
+    )
+  }
+
+  /**
+   * Render the awards section of the resume.
+   *
+   * @returns {string} The rendered awards section
+   */
+  renderAwards(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        awards,
+      },
+    } = this.resume
+
+    if (isEmptyValue(awards)) return ''
+
+    return this.renderSection(
+      'awards',
+      sectionNames.awards,
+      awards
+        .map(({ computed: { date, summary }, awarder, title }) =>
+          this.renderEntry({ title, subtitle: awarder, date, summary })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the certificates section of the resume.
+   *
+   * @returns {string} The rendered certificates section
+   */
+  renderCertificates(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        certificates,
+      },
+    } = this.resume
+
+    if (isEmptyValue(certificates)) return ''
+
+    return this.renderSection(
+      'certificates',
+      sectionNames.certificates,
+      certificates
+        .map(({ computed: { date }, issuer, name, url }) =>
+          this.renderEntry({ title: name, subtitle: issuer, date, url })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the publications section of the resume.
+   *
+   * @returns {string} The rendered publications section
+   */
+  renderPublications(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        publications,
+      },
+    } = this.resume
+
+    if (isEmptyValue(publications)) return ''
+
+    return this.renderSection(
+      'publications',
+      sectionNames.publications,
+      publications
+        .map(({ computed: { releaseDate, summary }, name, publisher, url }) =>
+          this.renderEntry({
+            title: name,
+            subtitle: publisher,
+            date: releaseDate,
+            url,
+            summary,
+          })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the references section of the resume.
+   *
+   * @returns {string} The rendered references section
+   */
+  renderReferences(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        references,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(references)) return ''
+
+    const {
+      punctuations: { comma },
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      'references',
+      sectionNames.references,
+      references
+        .map(({ computed: { summary }, email, name, phone, relationship }) =>
+          this.renderEntry({
+            title: name,
+            subtitle: relationship,
+            details: [
+              joinNonEmptyString(
+                [
+                  showIfNotEmpty(
+                    email,
+                    `<a href="mailto:${email}">${email}</a>`
+                  ),
+                  showIfNotEmpty(phone, `<a href="tel:${phone}">${phone}</a>`),
+                ],
+                comma
+              ),
+            ],
+            summary,
+          })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the projects section of the resume.
+   *
+   * @returns {string} The rendered projects section
+   */
+  renderProjects(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        projects,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(projects)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      'projects',
+      sectionNames.projects,
+      projects
+        .map(
+          ({
+            computed: { dateRange, highlights, keywords, startDate, summary },
+            description,
+            name,
+            url,
+          }) =>
+            this.renderEntry({
+              title: name,
+              subtitle: description,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [this.renderLabel(terms.keywords, keywords)],
+              summary,
+              highlights,
+            })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the interests section of the resume.
+   *
+   * @returns {string} The rendered interests section
+   */
+  renderInterests(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        interests,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(interests)) return ''
+
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      'interests',
+      sectionNames.interests,
+      `<ul class="items">
+${interests
+  .map(
+    ({ name, computed: { keywords } }) =>
+      `<li><strong>${name}</strong>${showIfNotEmpty(
+        keywords,
+        `${colon}${keywords}`
+      )}</li>`
+  )
+  .join('\n')}
+</ul>`
+    )
+  }
+
+  /**
+   * Render the volunteer section of the resume.
+   *
+   * @returns {string} The rendered volunteer section
+   */
+  renderVolunteer(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        volunteer,
+      },
+    } = this.resume
+
+    if (isEmptyValue(volunteer)) return ''
+
+    return this.renderSection(
+      'volunteer',
+      sectionNames.volunteer,
+      volunteer
+        .map(
+          ({
+            computed: { dateRange, highlights, startDate, summary },
+            organization,
+            position,
+            url,
+          }) =>
+            this.renderEntry({
+              title: organization,
+              subtitle: position,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              summary,
+              highlights,
+            })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render a custom section of the resume.
+   *
+   * @param section - The custom section to render.
+   * @returns {string} The rendered custom section
+   */
+  renderCustomSection({ id, items }: CustomSection): string {
+    const {
+      content: {
+        computed: { sectionNames },
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(items)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      id,
+      sectionNames[id],
+      items
+        .map(({ computed: { dateRange, keywords, summary }, name, url }) =>
+          this.renderEntry({
+            title: name,
+            date: dateRange,
+            url,
+            details: [this.renderLabel(terms.keywords, keywords)],
+            summary,
+          })
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the complete html resume.
+   *
+   * @returns {string} The rendered html resume
+   */
+  render(): string {
+    const language = this.resume.locale?.language
+
+    const header = joinNonEmptyString(
+      [this.renderBasics(), this.renderLocation(), this.renderProfiles()],
+      '\n'
+    )
+
+    return `<!DOCTYPE html>
+<html${showIf(!isEmptyValue(language), ` lang="${language}"`)}${showIf(
+      isRTLLanguage(language),
+      ' dir="rtl"'
+    )}>
+<head>
+${this.renderPreamble()}
+</head>
+<body>
+<main class="resume">
+${joinNonEmptyString([
+  showIfNotEmpty(
+    header,
+    `<header class="resume-header">\n${header}\n</header>`
+  ),
+  this.renderOrderedSections(),
+])}
+</main>
+</body>
+</html>
+`
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { HTML_THEME_OPTIONS } from '@/models'
+import { HTML_THEME_COLORS, renderStylesheet } from './styles'
+
+describe('HTML_THEME_COLORS', () => {
+  it('should have colors for all html themes', () => {
+    for (const theme of HTML_THEME_OPTIONS) {
+      expect(HTML_THEME_COLORS[theme]).toBeDefined()
+    }
+  })
+})
+
+describe(renderStylesheet, () => {
+  it('should use light theme, 11pt and no link underline by default', () => {
+    const result = renderStylesheet()
+
+    expect(result).toMatch(
+      `--resume-background: ${HTML_THEME_COLORS.light.background};`
+    )
+    expect(result).toMatch('--resume-font-size: 11pt;')
+    expect(result).toMatch('text-decoration: none;')
+  })
+
+  it('should render colors for the given theme', () => {
+    for (const theme of HTML_THEME_OPTIONS) {
+      const result = renderStylesheet({ theme })
+
+      for (const [name, color] of Object.entries(HTML_THEME_COLORS[theme])) {
+        expect(result).toMatch(`--resume-${name}: ${color};`)
+      }
+    }
+  })
+
+  it('should render the given font size and link underline', () => {
+    const result = renderStylesheet({ fontSize: '12pt', underlineLinks: true })
+
+    expect(result).toMatch('--resume-font-size: 12pt;')
+    expect(result).toMatch(
+      /^a \{\n {2}color: var\(--resume-accent\);\n {2}text-decoration: underline;/m
+    )
+  })
+
+  it('should always include print styles', () => {
+    const result = renderStylesheet({ theme: 'dark' })
+
+    expect(result).toMatch('@media print')
+    expect(result).toMatch('--resume-background: #ffffff;')
+  })
+})
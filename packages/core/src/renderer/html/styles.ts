@@ -0,0 +1,269 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type { HtmlTheme } from '@/models'
+
+/**
+ * Colors used by an html theme.
+ */
+type HtmlThemeColors = {
+  /** The page background color. */
+  background: string
+  /** The main text color. */
+  text: string
+  /** The color for secondary text like dates and subtitles. */
+  muted: string
+  /** The color for headings and links. */
+  accent: string
+  /** The color for section rules. */
+  border: string
+}
+
+/**
+ * Color palettes for all supported html themes.
+ */
+export const HTML_THEME_COLORS: Record<HtmlTheme, HtmlThemeColors> = {
+  light: {
+    background: '#ffffff',
+    text: '#1f2328',
+    muted: '#59636e',
+    accent: '#0b4f8a',
+    border: '#d1d9e0',
+  },
+  dark: {
+    background: '#0d1117',
+    text: '#e6edf3',
+    muted: '#9198a1',
+    accent: '#58a6ff',
+    border: '#3d444d',
+  },
+}
+
+/**
+ * Options to render the html stylesheet.
+ */
+type HtmlStylesheetOptions = {
+  /** The color theme of the web page. */
+  theme?: HtmlTheme
+  /** The base font size, e.g, "11pt". */
+  fontSize?: string
+  /** Whether to underline links. */
+  underlineLinks?: boolean
+}
+
+/**
+ * Render the inline stylesheet for the html resume.
+ *
+ * All colors are exposed as CSS custom properties on `:root`, so users can
+ * override them with their own stylesheet if they want to. Print styles always
+ * use black text on a white background regardless of the selected theme.
+ *
+ * @param options - The stylesheet options.
+ * @returns The CSS code.
+ */
+export function renderStylesheet({
+  theme = 'light',
+  fontSize = '11pt',
+  underlineLinks = false,
+}: HtmlStylesheetOptions = {}): string {
+  const colors = HTML_THEME_COLORS[theme] ?? HTML_THEME_COLORS.light
+  const textDecoration = underlineLinks ? 'underline' : 'none'
+
+  return `:root {
+  --resume-background: ${colors.background};
+  --resume-text: ${colors.text};
+  --resume-muted: ${colors.muted};
+  --resume-accent: ${colors.accent};
+  --resume-border: ${colors.border};
+  --resume-font-size: ${fontSize};
+}
+
+*, *::before, *::after {
+  box-sizing: border-box;
+}
+
+body {
+  margin: 0;
+  background: var(--resume-background);
+  color: var(--resume-text);
+  font-family: system-ui, -apple-system, "Segoe UI", Roboto, "Noto Sans",
+    "Helvetica Neue", Arial, sans-serif;
+  font-size: var(--resume-font-size);
+  line-height: 1.5;
+}
+
+a {
+  color: var(--resume-accent);
+  text-decoration: ${textDecoration};
+}
+
+a:hover {
+  text-decoration: underline;
+}
+
+.resume {
+  max-width: 52rem;
+  margin: 0 auto;
+  padding: 2.5rem 1.5rem;
+}
+
+.resume-header h1 {
+  margin: 0;
+  color: var(--resume-accent);
+  font-size: 2.25em;
+  line-height: 1.2;
+}
+
+.resume-header .headline {
+  margin: 0.25rem 0 0;
+  font-size: 1.2em;
+}
+
+.resume-header .location {
+  margin: 0.25rem 0 0;
+  color: var(--resume-muted);
+}
+
+.contact,
+.profiles {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.25rem 1.25rem;
+  margin: 0.5rem 0 0;
+  padding: 0;
+  list-style: none;
+}
+
+section {
+  margin-top: 1.75rem;
+}
+
+section > h2 {
+  margin: 0 0 0.75rem;
+  padding-bottom: 0.25rem;
+  border-bottom: 1px solid var(--resume-border);
+  color: var(--resume-accent);
+  font-size: 1.3em;
+}
+
+.entry {
+  margin-bottom: 1rem;
+}
+
+.entry-heading {
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: space-between;
+  align-items: baseline;
+  gap: 0 1rem;
+}
+
+.entry-heading h3 {
+  margin: 0;
+  font-size: 1.05em;
+}
+
+.entry-heading h4 {
+  margin: 0;
+  font-size: 1em;
+}
+
+.entry-position {
+  margin-top: 0.5rem;
+  padding-inline-start: 0.75rem;
+  border-inline-start: 2px solid var(--resume-muted);
+}
+
+.entry-date,
+.entry-subtitle {
+  color: var(--resume-muted);
+}
+
+.entry p,
+.summary p {
+  margin: 0.25rem 0;
+}
+
+.entry ul,
+.entry ol,
+.summary ul,
+.summary ol {
+  margin: 0.25rem 0;
+  padding-inline-start: 1.5rem;
+}
+
+.entry blockquote,
+.summary blockquote {
+  margin: 0.25rem 0;
+  padding-inline-start: 1rem;
+  border-inline-start: 2px solid var(--resume-muted);
+  color: var(--resume-muted);
+}
+
+.entry h4,
+.entry h5,
+.entry h6,
+.summary h4,
+.summary h5,
+.summary h6 {
+  margin: 0.5rem 0 0.25rem;
+  font-size: 1em;
+}
+
+.items {
+  margin: 0;
+  padding-inline-start: 1.25rem;
+}
+
+@media print {
+  :root {
+    --resume-background: #ffffff;
+    --resume-text: #000000;
+    --resume-muted: #444444;
+    --resume-accent: #000000;
+    --resume-border: #999999;
+  }
+
+  @page {
+    margin: 1.5cm;
+  }
+
+  .resume {
+    max-width: none;
+    padding: 0;
+  }
+
+  a {
+    text-decoration: none;
+  }
+
+  .entry {
+    break-inside: avoid;
+  }
+
+  section > h2 {
+    break-after: avoid;
+  }
+}`
+}
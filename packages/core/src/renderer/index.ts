@@ -22,11 +22,27 @@
  * IN THE SOFTWARE.
  */
 
+export { Renderer } from './base'
+export { DocxRenderer } from './docx'
+export { HtmlRenderer } from './html'
 export {
+  JakeRenderer,
   ModerncvBankingRenderer,
+  ModerncvBase,
   ModerncvCasualRenderer,
   ModerncvClassicRenderer,
 } from './latex'
 export { MarkdownRenderer } from './markdown'
-
+export {
+  getRegisteredTemplateIds,
+  getRegisteredTemplates,
+  getTemplateRenderer,
+  type RegisteredTemplate,
+  registerTemplate,
+  type TemplateDetails,
+  type TemplateRendererClass,
+  unregisterTemplate,
+} from './registry'
 export { getResumeRenderer } from './resume'
+export { PlainTextRenderer } from './text'
+export { TypstRenderer } from './typst'
@@ -22,6 +22,7 @@
  * IN THE SOFTWARE.
  */
 
+export { JakeRenderer } from './jake'
 export {
   ModerncvBankingRenderer,
   ModerncvBase,
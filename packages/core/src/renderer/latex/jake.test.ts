@@ -0,0 +1,453 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { cloneDeep } from 'lodash-es'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { FILLED_RESUME, type Resume } from '@/models'
+import { JakeRenderer } from './jake'
+
+describe(JakeRenderer, () => {
+  let resume: Resume
+  let renderer: JakeRenderer
+  const layoutIndex = 0
+
+  beforeEach(() => {
+    resume = cloneDeep(FILLED_RESUME)
+    renderer = new JakeRenderer(resume, layoutIndex)
+  })
+
+  it('should generate complete LaTeX document', () => {
+    const result = renderer.render()
+
+    expect(result).toContain('\\documentclass')
+    expect(result).toContain('\\begin{document}')
+    expect(result).toContain('\\begin{center}')
+    expect(result).toContain('\\end{document}')
+    expect(result).not.toContain('moderncv')
+    expect(result).not.toContain('\\cventry')
+  })
+
+  describe('renderPreamble', () => {
+    it('should render article document class', () => {
+      const result = renderer.renderPreamble()
+
+      expect(result).toContain('\\documentclass[a4paper, 10pt]{article}')
+      expect(result).toContain('\\newcommand{\\resumeSubheading}[4]')
+    })
+
+    it('should load polyglossia after all other packages', () => {
+      resume.locale = { ...resume.locale, language: 'ar' }
+
+      const result = new JakeRenderer(resume, layoutIndex).renderPreamble()
+
+      expect(result).toContain('\\setdefaultlanguage{arabic}')
+      expect(result.lastIndexOf('\\usepackage')).toBe(
+        result.indexOf('\\usepackage{polyglossia}')
+      )
+    })
+
+    it('should honour font size and margins', () => {
+      resume.layouts = [
+        {
+          engine: 'latex',
+          template: 'jake',
+          page: {
+            margins: {
+              top: '1 cm',
+              bottom: '1 cm',
+              left: '1.5 cm',
+              right: '1.5 cm',
+            },
+            showPageNumbers: true,
+          },
+          typography: { fontSize: '12pt' },
+        },
+      ]
+
+      const result = new JakeRenderer(resume, layoutIndex).renderPreamble()
+
+      expect(result).toContain('\\documentclass[a4paper, 12pt]{article}')
+      expect(result).toContain(
+        '\\usepackage[top=1cm, bottom=1cm, left=1.5cm, right=1.5cm]{geometry}'
+      )
+      expect(result).toContain('\\pagestyle{plain}')
+    })
+
+    it('should hide page numbers by default', () => {
+      expect(renderer.renderPreamble()).toContain('\\pagestyle{empty}')
+    })
+
+    it('should render babel configuration for non English resumes', () => {
+      resume.locale = { language: 'fr' }
+
+      const result = new JakeRenderer(resume, layoutIndex).renderPreamble()
+
+      expect(result).toContain('\\usepackage[french]{babel}')
+    })
+
+    it('should return empty preamble when layout engine is not latex', () => {
+      resume.layouts = [{ engine: 'markdown' }]
+
+      const result = new JakeRenderer(resume, layoutIndex).renderPreamble()
+
+      expect(result).toBe('')
+    })
+  })
+
+  describe('renderBasics', () => {
+    it('should render the header', () => {
+      resume.content.basics = {
+        name: 'Andy Dufresne',
+        headline: 'Banker',
+        phone: '123',
+        email: 'andy@example.com',
+      }
+
+      const result = new JakeRenderer(resume, layoutIndex).renderBasics()
+
+      expect(result).toBe(
+        [
+          '{\\Huge\\scshape Andy Dufresne} \\\\',
+          '{\\large Banker} \\\\',
+          '\\small 123 $|$ \\href{mailto:andy@example.com}{andy@example.com}',
+        ].join('\n')
+      )
+    })
+
+    it('should skip empty fields', () => {
+      resume.content.basics = { name: 'Andy Dufresne' }
+
+      const result = new JakeRenderer(resume, layoutIndex).renderBasics()
+
+      expect(result).toBe('{\\Huge\\scshape Andy Dufresne}')
+    })
+  })
+
+  describe('renderWork', () => {
+    it('should return empty string if no work entries', () => {
+      resume.content.work = []
+
+      const result = new JakeRenderer(resume, layoutIndex).renderWork()
+
+      expect(result).toBe('')
+    })
+
+    it('should render work entries with resumeSubheading', () => {
+      resume.content.work = [
+        {
+          name: 'Company',
+          position: 'Software Engineer',
+          startDate: 'Jan 1, 2020',
+          endDate: 'Jan 1, 2024',
+          url: 'https://company.com',
+          summary: 'Built things',
+          keywords: ['React'],
+        },
+      ]
+
+      const result = new JakeRenderer(resume, layoutIndex).renderWork()
+
+      expect(result).toMatch(/^\\section{Work}/)
+      expect(result).toContain('\\resumeSubHeadingListStart')
+      expect(result).toContain(
+        '\\resumeSubheading{Company}{Jan 2020–Jan 2024}{Software Engineer}' +
+          '{\\href{https://company.com}{https://company.com}}'
+      )
+      expect(result).toContain('\\resumeSummary{Built things')
+      expect(result).toContain('\\textbf{Keywords}: React}')
+    })
+
+    it('should render highlights as an itemize list', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          position: 'Software Engineer',
+          startDate: '2020-01-01',
+          summary: 'Built things',
+          highlights: ['Shipped **v1**', 'R&D'],
+        },
+      ]
+
+      renderer = new JakeRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toContain(
+        [
+          '\\resumeSummary{Built things',
+          '\\begin{itemize}',
+          '\\item Shipped \\textbf{v1}',
+          '\\item R\\&D',
+          '\\end{itemize}}',
+        ].join('\n')
+      )
+    })
+
+    it('should render positions grouped under the company', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          url: 'https://ppresume.com',
+          positions: [
+            {
+              position: 'Senior Software Engineer',
+              startDate: '2022-01-01',
+              summary: 'Led **things**',
+            },
+            {
+              position: 'Software Engineer',
+              startDate: '2020-01-01',
+              endDate: '2022-01-01',
+              summary: 'Built things',
+            },
+          ],
+        },
+      ]
+
+      renderer = new JakeRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toContain(
+        '\\resumeSubheading{PPResume}{Jan 2020–Present}{}{\\href{https://ppresume.com}{https://ppresume.com}}'
+      )
+      expect(result).toContain(
+        [
+          '\\resumeSubSubheading{Senior Software Engineer}{Jan 2022–Present}',
+          '\\resumeSummary{Led \\textbf{things}}',
+          '\\resumeSubSubheading{Software Engineer}{Jan 2020–Jan 2022}',
+          '\\resumeSummary{Built things}',
+        ].join('\n')
+      )
+    })
+  })
+
+  describe('renderSkills', () => {
+    it('should render skills as one line per skill', () => {
+      resume.content.skills = [
+        { name: 'Programming', level: 'Expert', keywords: ['TypeScript'] },
+      ]
+
+      const result = new JakeRenderer(resume, layoutIndex).renderSkills()
+
+      expect(result).toContain(
+        '\\resumeSkill{Programming}{: Expert, TypeScript}'
+      )
+    })
+  })
+
+  describe('renderProjects', () => {
+    it('should render projects with resumeProjectHeading', () => {
+      resume.content.projects = [
+        {
+          name: 'YAMLResume',
+          description: 'Resume as code',
+          startDate: 'Jan 1, 2024',
+          summary: '',
+        },
+      ]
+
+      const result = new JakeRenderer(resume, layoutIndex).renderProjects()
+
+      expect(result).toContain(
+        '\\resumeProjectHeading{\\textbf{YAMLResume} $|$ \\emph{Resume as code}}'
+      )
+      expect(result).not.toContain('\\resumeSummary')
+    })
+  })
+
+  describe('columns', () => {
+    it('should not use paracol without a sidebar', () => {
+      const result = renderer.render()
+
+      expect(result).not.toContain('paracol')
+    })
+
+    it('should render sidebar and main columns with paracol', () => {
+      resume.layouts = [
+        {
+          engine: 'latex',
+          template: 'jake',
+          columns: { sidebar: ['skills', 'languages'] },
+        },
+      ]
+
+      const result = new JakeRenderer(resume, layoutIndex).render()
+
+      expect(result).toContain('\\usepackage{paracol}')
+
+      const begin = result.indexOf('\\begin{paracol}{2}')
+      const switchColumn = result.indexOf('\\switchcolumn')
+      const end = result.indexOf('\\end{paracol}')
+
+      expect(begin).toBeGreaterThan(-1)
+      expect(switchColumn).toBeGreaterThan(begin)
+      expect(end).toBeGreaterThan(switchColumn)
+
+      const sidebar = result.slice(begin, switchColumn)
+      const main = result.slice(switchColumn, end)
+
+      expect(sidebar).toContain('\\section{Skills}')
+      expect(sidebar).toContain('\\section{Languages}')
+      expect(sidebar).not.toContain('\\section{Work}')
+      expect(main).toContain('\\section{Work}')
+      expect(main).toContain('\\section{Education}')
+      expect(main).not.toContain('\\section{Skills}')
+    })
+
+    it('should place custom sections in the main column by default', () => {
+      resume.content.custom = [
+        { id: 'talks', title: 'Talks', items: [{ name: 'Resumes as Code' }] },
+        { id: 'patents', title: 'Patents', items: [{ name: 'Resumes' }] },
+      ]
+      resume.layouts = [
+        {
+          engine: 'latex',
+          template: 'jake',
+          columns: { sidebar: ['skills', 'patents'] },
+        },
+      ]
+
+      const result = new JakeRenderer(resume, layoutIndex).render()
+      const switchColumn = result.indexOf('\\switchcolumn')
+
+      expect(result.indexOf('\\section{Patents}')).toBeLessThan(switchColumn)
+      expect(result.indexOf('\\section{Talks}')).toBeGreaterThan(switchColumn)
+    })
+
+    it('should render the main sections in the listed order', () => {
+      resume.layouts = [
+        {
+          engine: 'latex',
+          template: 'jake',
+          columns: {
+            sidebar: ['languages', 'skills'],
+            main: ['work', 'education'],
+          },
+        },
+      ]
+
+      const result = new JakeRenderer(resume, layoutIndex).render()
+      const switchColumn = result.indexOf('\\switchcolumn')
+      const main = result.slice(switchColumn)
+
+      expect(result.indexOf('\\section{Languages}')).toBeLessThan(
+        result.indexOf('\\section{Skills}')
+      )
+      expect(main.indexOf('\\section{Work}')).toBeGreaterThan(-1)
+      expect(main.indexOf('\\section{Work}')).toBeLessThan(
+        main.indexOf('\\section{Education}')
+      )
+      expect(result).not.toContain('\\section{Projects}')
+    })
+
+    it('should render the main sections without a sidebar', () => {
+      resume.layouts = [
+        {
+          engine: 'latex',
+          template: 'jake',
+          columns: { main: ['work', 'education'] },
+        },
+      ]
+
+      const result = new JakeRenderer(resume, layoutIndex).render()
+
+      expect(result).not.toContain('paracol')
+      expect(result.indexOf('\\section{Work}')).toBeLessThan(
+        result.indexOf('\\section{Education}')
+      )
+      expect(result).not.toContain('\\section{Skills}')
+    })
+  })
+
+  it('should honour sections order and aliases', () => {
+    resume.layouts = [
+      {
+        engine: 'latex',
+        template: 'jake',
+        sections: {
+          aliases: { work: 'Experience' },
+          order: ['skills', 'work'],
+        },
+      },
+    ]
+
+    const result = new JakeRenderer(resume, layoutIndex).render()
+
+    expect(result).toContain('\\section{Experience}')
+    expect(result.indexOf('\\section{Skills}')).toBeLessThan(
+      result.indexOf('\\section{Experience}')
+    )
+  })
+
+  describe('renderCustomSection', () => {
+    beforeEach(() => {
+      resume.content.custom = [
+        {
+          id: 'talks',
+          title: 'Talks',
+          items: [
+            {
+              name: 'Resumes as Code',
+              startDate: '2024-05-01',
+              url: 'https://example.com/talk',
+              keywords: ['YAML', 'LaTeX'],
+              summary: 'A talk about **resumes**',
+            },
+          ],
+        },
+        { id: 'patents', title: 'Patents', items: [] },
+      ]
+      renderer = new JakeRenderer(resume, layoutIndex)
+    })
+
+    it('should render items of a custom section', () => {
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('\\section{Talks}')
+      expect(result).toMatch(
+        '\\resumeProjectHeading{\\textbf{Resumes as Code} $|$ \\href{https://example.com/talk}{https://example.com/talk}}{May 2024}'
+      )
+      expect(result).toMatch('\\textbf{Keywords}: YAML, LaTeX')
+    })
+
+    it('should escape the title of a custom section once', () => {
+      resume.content.custom[0].title = 'Open Source & *Community*'
+      renderer = new JakeRenderer(resume, layoutIndex)
+
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('\\section{Open Source \\& *Community*}')
+    })
+
+    it('should return empty string when a custom section has no items', () => {
+      expect(
+        renderer.renderCustomSection(renderer.resume.content.custom[1])
+      ).toBe('')
+    })
+  })
+})
@@ -0,0 +1,943 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type { Parser } from '@/compiler'
+import { MarkdownParser } from '@/compiler'
+import type {
+  CustomSection,
+  CustomSectionID,
+  LatexLayout,
+  OrderableSectionID,
+  Resume,
+} from '@/models'
+import { transformResume } from '@/preprocess'
+import { getTemplateTranslations } from '@/translations'
+import {
+  isEmptyValue,
+  joinNonEmptyString,
+  showIf,
+  showIfNotEmpty,
+} from '@/utils'
+import { Renderer } from '../base'
+import {
+  isCJKLanguage,
+  normalizeUnit,
+  renderBabelConfig,
+  renderCJKConfig,
+  renderFontspecConfig,
+  renderPolyglossiaConfig,
+  renderUlemConfig,
+} from './preamble'
+
+/**
+ * Renderer for a dense one-column template based on the `article` document
+ * class, inspired by the popular Jake's resume.
+ *
+ * Unlike moderncv templates, every entry is rendered with a two-row
+ * `\resumeSubheading`, title and date on the first row, subtitle and link on
+ * the second row, followed by the summary.
+ *
+ * If `layout.columns.sidebar` is not empty, the sections are split into a
+ * sidebar and a main column with the `paracol` package, sections listed in
+ * `layout.columns.main` are rendered in the main column in the listed order.
+ *
+ * @see {@link https://github.com/jakegut/resume}
+ */
+class JakeRenderer extends Renderer {
+  /**
+   * Create a one-column jake renderer.
+   *
+   * @param resume - The resume object to render.
+   * @param layoutIndex - The index of the selected layout to use.
+   * @param summaryParser - Optional parser for summary fields (defaults to markdown).
+   */
+  constructor(
+    resume: Resume,
+    layoutIndex: number,
+    summaryParser: Parser = new MarkdownParser()
+  ) {
+    super(transformResume(resume, layoutIndex, summaryParser), layoutIndex)
+  }
+
+  /**
+   * Render the document class configuration.
+   */
+  private renderDocumentClassConfig(): string {
+    const layout = this.resume.layouts?.[this.layoutIndex]
+
+    const fontSize =
+      layout?.engine === 'latex' ? layout.typography?.fontSize : undefined
+
+    return `\\documentclass[a4paper, ${normalizeUnit(fontSize)}]{article}`
+  }
+
+  /**
+   * Render the layout configuration.
+   */
+  private renderLayoutConfig(): string {
+    const layout = this.resume.layouts?.[this.layoutIndex]
+
+    const page = layout?.engine === 'latex' ? layout.page : undefined
+
+    const margins = page?.margins
+
+    const t = normalizeUnit(margins?.top)
+    const b = normalizeUnit(margins?.bottom)
+    const l = normalizeUnit(margins?.left)
+    const r = normalizeUnit(margins?.right)
+
+    return `%% page layout/margins
+\\usepackage[top=${t}, bottom=${b}, left=${l}, right=${r}]{geometry}
+\\pagestyle{${page?.showPageNumbers ? 'plain' : 'empty'}}`
+  }
+
+  /**
+   * Get the sections of the sidebar column, empty if there is no sidebar.
+   */
+  private getSidebarSections(): (OrderableSectionID | CustomSectionID)[] {
+    const layout = this.resume.layouts?.[this.layoutIndex] as LatexLayout
+
+    return layout?.columns?.sidebar ?? []
+  }
+
+  /**
+   * Get the sections of the main column, i.e, the sections listed in
+   * `columns.main`, or all sections that are not in the sidebar in the layout
+   * order if there are none.
+   */
+  private getMainSections(): (OrderableSectionID | CustomSectionID)[] {
+    const layout = this.resume.layouts?.[this.layoutIndex] as LatexLayout
+    const main = layout?.columns?.main ?? []
+
+    if (main.length > 0) {
+      return main
+    }
+
+    const sidebar = this.getSidebarSections()
+
+    return this.getSectionsOrder().filter(
+      (section) => !sidebar.includes(section)
+    )
+  }
+
+  /**
+   * Render the paracol configuration for two-column layouts.
+   */
+  private renderColumnsConfig(): string {
+    return showIf(
+      this.getSidebarSections().length > 0,
+      `%% columns
+\\usepackage{paracol}
+\\columnratio{0.3}
+\\setlength{\\columnsep}{1.5em}`
+    )
+  }
+
+  /**
+   * Render the commands used by the template.
+   */
+  private renderTemplateConfig(): string {
+    return `%% packages
+\\usepackage{titlesec}
+\\usepackage{enumitem}
+\\usepackage{tabularx}
+\\usepackage[hidelinks]{hyperref}
+
+% needed for showing icons of profiles
+\\usepackage{fontawesome5}
+
+\\urlstyle{same}
+\\raggedbottom
+\\raggedright
+\\setlength{\\tabcolsep}{0in}
+
+%% section headings
+\\titleformat{\\section}{
+  \\vspace{-4pt}\\scshape\\raggedright\\large
+}{}{0em}{}[\\titlerule\\vspace{-5pt}]
+
+%% resume commands
+\\newcommand{\\resumeSubheading}[4]{
+  \\vspace{-2pt}\\item
+  \\begin{tabular*}{\\linewidth}[t]{l@{\\extracolsep{\\fill}}r}
+    \\textbf{#1} & #2 \\\\
+    \\textit{\\small #3} & \\textit{\\small #4} \\\\
+  \\end{tabular*}\\vspace{-7pt}
+}
+\\newcommand{\\resumeSubSubheading}[2]{
+  \\vspace{-2pt}\\item
+  \\begin{tabular*}{\\linewidth}{l@{\\extracolsep{\\fill}}r}
+    \\textit{\\small #1} & \\textit{\\small #2} \\\\
+  \\end{tabular*}\\vspace{-7pt}
+}
+\\newcommand{\\resumeProjectHeading}[2]{
+  \\vspace{-2pt}\\item
+  \\begin{tabular*}{\\linewidth}{l@{\\extracolsep{\\fill}}r}
+    \\small #1 & #2 \\\\
+  \\end{tabular*}\\vspace{-7pt}
+}
+\\newcommand{\\resumeSummary}[1]{
+  \\vspace{4pt}{\\small #1\\par}\\vspace{-4pt}
+}
+\\newcommand{\\resumeSkill}[2]{
+  \\item\\small{\\textbf{#1}#2}
+}
+\\newcommand{\\resumeSubHeadingListStart}{
+  \\begin{itemize}[leftmargin=0.15in, label={}]
+}
+\\newcommand{\\resumeSubHeadingListEnd}{\\end{itemize}}`
+  }
+
+  /**
+   * Render the preamble for the resume.
+   *
+   * @returns The LaTeX code for the preamble
+   */
+  renderPreamble(): string {
+    const layout = this.resume.layouts?.[this.layoutIndex]
+
+    if (layout?.engine !== 'latex') {
+      return ''
+    }
+
+    const language = this.resume.locale?.language
+
+    return joinNonEmptyString([
+      // document class
+      this.renderDocumentClassConfig(),
+      this.renderTemplateConfig(),
+
+      // layout
+      this.renderLayoutConfig(),
+      this.renderColumnsConfig(),
+
+      // language specific, note that babel should be loaded before fontspec
+      // and CJK packages and polyglossia should be loaded after fontspec and
+      // all other packages, see `ModerncvBase`
+      renderBabelConfig(language),
+      renderFontspecConfig(
+        layout.advanced?.fontspec?.numbers,
+        isCJKLanguage(language)
+      ),
+      renderCJKConfig(language),
+
+      // strikethrough for summaries
+      renderUlemConfig(),
+
+      renderPolyglossiaConfig(language),
+    ])
+  }
+
+  /**
+   * Render a list of entries wrapped in a section.
+   *
+   * @param sectionName - The name of the section.
+   * @param entries - The LaTeX code of entries.
+   * @returns The LaTeX code for the section
+   */
+  private renderEntries(sectionName: string, entries: string[]): string {
+    return `\\section{${sectionName}}
+
+\\resumeSubHeadingListStart
+${entries.join('\n\n')}
+\\resumeSubHeadingListEnd`
+  }
+
+  /**
+   * Render a two-row subheading of an entry.
+   *
+   * @param title - The title shown on the top left.
+   * @param date - The date shown on the top right.
+   * @param subtitle - The subtitle shown on the bottom left.
+   * @param extra - The extra info shown on the bottom right, e.g, a link.
+   * @returns The LaTeX code for the subheading
+   */
+  private renderSubheading(
+    title: string,
+    date: string,
+    subtitle: string,
+    extra: string
+  ): string {
+    return `\\resumeSubheading{${title}}{${date}}{${subtitle}}{${extra}}`
+  }
+
+  /**
+   * Render the summary and keywords-like line of an entry.
+   *
+   * @param summary - The summary of the entry.
+   * @param term - The term of the extra line, e.g, `Keywords`.
+   * @param value - The value of the extra line.
+   * @returns The LaTeX code for the entry summary
+   */
+  private renderEntrySummary(
+    summary: string,
+    term?: string,
+    value?: string
+  ): string {
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    const content = joinNonEmptyString(
+      [
+        summary ?? '',
+        showIf(!isEmptyValue(value), `\\textbf{${term}}${colon}${value}`),
+      ],
+      '\n'
+    )
+
+    return showIfNotEmpty(content, `\\resumeSummary{${content}}`)
+  }
+
+  /**
+   * Render a link, or an empty string if the url is empty.
+   *
+   * @param url - The url of the link.
+   * @returns The LaTeX code for the link
+   */
+  private renderLink(url: string): string {
+    return showIfNotEmpty(url, `\\href{${url}}{${url}}`)
+  }
+
+  /**
+   * Render the basics section of the resume.
+   *
+   * @returns The LaTeX code for the basics section
+   */
+  renderBasics(): string {
+    const {
+      content: {
+        basics: { name, headline, phone, email },
+      },
+    } = this.resume
+
+    return joinNonEmptyString(
+      [
+        showIfNotEmpty(name, `{\\Huge\\scshape ${name}}`),
+        showIfNotEmpty(headline, `{\\large ${headline}}`),
+        showIf(
+          !isEmptyValue(phone) || !isEmptyValue(email),
+          `\\small ${joinNonEmptyString(
+            [
+              phone ?? '',
+              showIfNotEmpty(email, `\\href{mailto:${email}}{${email}}`),
+            ],
+            ' $|$ '
+          )}`
+        ),
+      ],
+      ' \\\\\n'
+    )
+  }
+
+  /**
+   * Render the location section of the resume.
+   *
+   * @returns The LaTeX code for the location section
+   */
+  renderLocation(): string {
+    const {
+      content: {
+        location: {
+          computed: { fullAddress },
+        },
+      },
+    } = this.resume
+
+    return showIfNotEmpty(fullAddress, `\\small ${fullAddress}`)
+  }
+
+  /**
+   * Render the profiles section of the resume.
+   *
+   * @returns The LaTeX code for the profiles section
+   */
+  renderProfiles(): string {
+    const {
+      content: { basics, profiles },
+    } = this.resume
+
+    const urls = [
+      basics.computed?.url,
+      ...profiles.map((profile) => profile.computed?.url),
+    ].filter((url) => !isEmptyValue(url))
+
+    return showIf(urls.length > 0, `\\small ${urls.join(' $|$ ')}`)
+  }
+
+  /**
+   * Render the summary section of the resume.
+   *
+   * @returns The LaTeX code for the summary section
+   */
+  renderSummary(): string {
+    const {
+      content: {
+        basics: {
+          computed: { summary },
+        },
+        computed: { sectionNames },
+      },
+    } = this.resume
+
+    return showIfNotEmpty(
+      summary,
+      `\\section{${sectionNames.basics}}
+
+{\\small ${summary}\\par}`
+    )
+  }
+
+  /**
+   * Render the education section of the resume.
+   *
+   * @returns The LaTeX code for the education section
+   */
+  renderEducation(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        education,
+      },
+    } = this.resume
+
+    const { terms } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    if (!education.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.education,
+      education.map(
+        ({
+          computed: { dateRange, degreeAreaAndScore, summary, courses },
+          institution,
+          url,
+        }) =>
+          joinNonEmptyString(
+            [
+              this.renderSubheading(
+                institution,
+                dateRange,
+                degreeAreaAndScore,
+                this.renderLink(url)
+              ),
+              this.renderEntrySummary(summary, terms.courses, courses),
+            ],
+            '\n'
+          )
+      )
+    )
+  }
+
+  /**
+   * Render the work section of the resume.
+   *
+   * @returns The LaTeX code for the work section
+   */
+  renderWork(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        work,
+      },
+    } = this.resume
+
+    const { terms } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    if (!work.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.work,
+      work.map(
+        ({
+          computed: { dateRange, summary, highlights, keywords },
+          name,
+          position,
+          positions,
+          url,
+        }) =>
+          joinNonEmptyString(
+            [
+              // when positions are grouped, the company is rendered once with
+              // the overall tenure and each position is rendered below it
+              this.renderSubheading(
+                name,
+                dateRange,
+                isEmptyValue(positions) ? position : '',
+                this.renderLink(url)
+              ),
+              this.renderEntrySummary(
+                joinNonEmptyString([summary, highlights], '\n'),
+                terms.keywords,
+                keywords
+              ),
+              ...(positions ?? []).map(({ computed, position }) =>
+                joinNonEmptyString(
+                  [
+                    `\\resumeSubSubheading{${position}}{${computed.dateRange}}`,
+                    this.renderEntrySummary(computed.summary),
+                  ],
+                  '\n'
+                )
+              ),
+            ],
+            '\n'
+          )
+      )
+    )
+  }
+
+  /**
+   * Render the languages section of the resume.
+   *
+   * @returns The LaTeX code for the languages section
+   */
+  renderLanguages(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        languages,
+      },
+    } = this.resume
+
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    if (!languages.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.languages,
+      languages.map(
+        ({ computed: { language, fluency, keywords } }) =>
+          `\\resumeSkill{${language}}{${colon}${joinNonEmptyString(
+            [fluency, keywords ?? ''],
+            ', '
+          )}}`
+      )
+    )
+  }
+
+  /**
+   * Render the skills section of the resume.
+   *
+   * @returns The LaTeX code for the skills section
+   */
+  renderSkills(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        skills,
+      },
+    } = this.resume
+
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    if (!skills.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.skills,
+      skills.map(
+        ({ name, computed: { level, keywords } }) =>
+          `\\resumeSkill{${name}}{${colon}${joinNonEmptyString(
+            [level, keywords ?? ''],
+            ', '
+          )}}`
+      )
+    )
+  }
+
+  /**
+   * Render the awards section of the resume.
+   *
+   * @returns The LaTeX code for the awards section
+   */
+  renderAwards(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        awards,
+      },
+    } = this.resume
+
+    if (!awards.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.awards,
+      awards.map(({ computed: { date, summary }, awarder, title }) =>
+        joinNonEmptyString(
+          [
+            this.renderSubheading(title, date, awarder, ''),
+            this.renderEntrySummary(summary),
+          ],
+          '\n'
+        )
+      )
+    )
+  }
+
+  /**
+   * Render the certificates section of the resume.
+   *
+   * @returns The LaTeX code for the certificates section
+   */
+  renderCertificates(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        certificates,
+      },
+    } = this.resume
+
+    if (!certificates.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.certificates,
+      certificates.map(({ computed: { date }, issuer, name, url }) =>
+        this.renderSubheading(name, date, issuer, this.renderLink(url))
+      )
+    )
+  }
+
+  /**
+   * Render the publications section of the resume.
+   *
+   * @returns The LaTeX code for the publications section
+   */
+  renderPublications(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        publications,
+      },
+    } = this.resume
+
+    if (!publications.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.publications,
+      publications.map(
+        ({ computed: { releaseDate, summary }, name, publisher, url }) =>
+          joinNonEmptyString(
+            [
+              this.renderSubheading(
+                name,
+                releaseDate,
+                publisher,
+                this.renderLink(url)
+              ),
+              this.renderEntrySummary(summary),
+            ],
+            '\n'
+          )
+      )
+    )
+  }
+
+  /**
+   * Render the references section of the resume.
+   *
+   * @returns The LaTeX code for the references section
+   */
+  renderReferences(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        references,
+      },
+    } = this.resume
+
+    if (!references.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.references,
+      references.map(
+        ({ computed: { summary }, email, name, phone, relationship }) =>
+          joinNonEmptyString(
+            [
+              this.renderSubheading(
+                name,
+                phone ?? '',
+                relationship,
+                showIfNotEmpty(email, `\\href{mailto:${email}}{${email}}`)
+              ),
+              this.renderEntrySummary(summary),
+            ],
+            '\n'
+          )
+      )
+    )
+  }
+
+  /**
+   * Render the projects section of the resume.
+   *
+   * @returns The LaTeX code for the projects section
+   */
+  renderProjects(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        projects,
+      },
+    } = this.resume
+
+    const { terms } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    if (!projects.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.projects,
+      projects.map(
+        ({
+          computed: { dateRange, summary, highlights, keywords },
+          description,
+          name,
+          url,
+        }) =>
+          joinNonEmptyString(
+            [
+              `\\resumeProjectHeading{${joinNonEmptyString(
+                [
+                  `\\textbf{${name}}`,
+                  showIfNotEmpty(description, `\\emph{${description}}`),
+                  this.renderLink(url),
+                ],
+                ' $|$ '
+              )}}{${dateRange}}`,
+              this.renderEntrySummary(
+                joinNonEmptyString([summary, highlights], '\n'),
+                terms.keywords,
+                keywords
+              ),
+            ],
+            '\n'
+          )
+      )
+    )
+  }
+
+  /**
+   * Render the interests section of the resume.
+   *
+   * @returns The LaTeX code for the interests section
+   */
+  renderInterests(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        interests,
+      },
+    } = this.resume
+
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    if (!interests.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.interests,
+      interests.map(
+        ({ name, computed: { keywords } }) =>
+          `\\resumeSkill{${name}}{${showIfNotEmpty(
+            keywords,
+            `${colon}${keywords}`
+          )}}`
+      )
+    )
+  }
+
+  /**
+   * Render the volunteer section of the resume.
+   *
+   * @returns The LaTeX code for the volunteer section
+   */
+  renderVolunteer(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        volunteer,
+      },
+    } = this.resume
+
+    if (!volunteer.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames.volunteer,
+      volunteer.map(
+        ({
+          computed: { dateRange, summary, highlights },
+          organization,
+          position,
+          url,
+        }) =>
+          joinNonEmptyString(
+            [
+              this.renderSubheading(
+                organization,
+                dateRange,
+                position,
+                this.renderLink(url)
+              ),
+              this.renderEntrySummary(
+                joinNonEmptyString([summary, highlights], '\n')
+              ),
+            ],
+            '\n'
+          )
+      )
+    )
+  }
+
+  /**
+   * Render a custom section of the resume.
+   *
+   * @param section - The custom section to render.
+   * @returns The LaTeX code for the custom section
+   */
+  renderCustomSection({ id, items }: CustomSection): string {
+    const {
+      content: {
+        computed: { sectionNames },
+      },
+    } = this.resume
+
+    const { terms } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    if (!items.length) {
+      return ''
+    }
+
+    return this.renderEntries(
+      sectionNames[id],
+      items.map(({ computed: { dateRange, summary, keywords }, name, url }) =>
+        joinNonEmptyString(
+          [
+            `\\resumeProjectHeading{${joinNonEmptyString(
+              [`\\textbf{${name}}`, this.renderLink(url)],
+              ' $|$ '
+            )}}{${dateRange}}`,
+            this.renderEntrySummary(summary, terms.keywords, keywords),
+          ],
+          '\n'
+        )
+      )
+    )
+  }
+
+  /**
+   * Render the sections, in the sidebar and main columns if there is a
+   * sidebar, or in a single column of the main sections otherwise.
+   *
+   * @returns The LaTeX code for the sections
+   */
+  private renderColumns(): string {
+    const sidebar = this.getSidebarSections()
+    const main = this.getMainSections()
+
+    if (sidebar.length === 0) {
+      return this.renderOrderedSections(main)
+    }
+
+    return `\\begin{paracol}{2}
+${this.renderOrderedSections(sidebar)}
+
+\\switchcolumn
+
+${this.renderOrderedSections(main)}
+\\end{paracol}`
+  }
+
+  /**
+   * Render the resume.
+   *
+   * @returns The LaTeX code for the resume
+   */
+  render(): string {
+    return `${this.renderPreamble()}
+
+\\begin{document}
+
+\\begin{center}
+${joinNonEmptyString(
+  [this.renderBasics(), this.renderLocation(), this.renderProfiles()],
+  ' \\\\\n'
+)}
+\\end{center}
+
+${this.renderColumns()}
+\\end{document}`
+  }
+}
+
+export { JakeRenderer }
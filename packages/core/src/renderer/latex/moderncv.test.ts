@@ -52,6 +52,22 @@ describe('ModerncvBase', () => {
     expect(result).toContain('\\end{document}')
   })
 
+  it('should keep the name when the basics section is hidden', () => {
+    resume.content.basics = {
+      ...resume.content.basics,
+      name: 'John Doe',
+      email: 'john@example.com',
+      summary: 'A complete summary',
+    }
+    resume.layouts = [{ engine: 'latex', sections: { hide: ['basics'] } }]
+
+    const result = new ModerncvBankingRenderer(resume, layoutIndex).render()
+
+    expect(result).toContain('\\name{John Doe}{}')
+    expect(result).toContain('\\email{john@example.com}')
+    expect(result).not.toContain('A complete summary')
+  })
+
   describe('renderPreamble', () => {
     it('should render correct document class configuration', () => {
       const result = renderer.renderPreamble()
@@ -169,6 +185,50 @@ describe('ModerncvBase', () => {
       expect(result).toContain('\\usepackage[french]{babel}')
     })
 
+    it('should render German configuration for German resume', () => {
+      const germanResume = cloneDeep(resume)
+      germanResume.locale = { ...germanResume.locale, language: 'de' }
+
+      const renderer = new ModerncvBankingRenderer(germanResume, layoutIndex)
+      const result = renderer.renderPreamble()
+
+      expect(result).toContain('\\usepackage[shorthands=off,ngerman]{babel}')
+    })
+
+    it('should render polyglossia configuration for right-to-left resumes', () => {
+      const hebrewResume = cloneDeep(resume)
+      hebrewResume.locale = { ...hebrewResume.locale, language: 'he' }
+
+      const renderer = new ModerncvBankingRenderer(hebrewResume, layoutIndex)
+      const result = renderer.renderPreamble()
+
+      expect(result).toContain('\\setdefaultlanguage{hebrew}')
+      expect(result.indexOf('\\usepackage{polyglossia}')).toBeGreaterThan(
+        result.indexOf('\\usepackage{fontspec}')
+      )
+      // bidi loaded by polyglossia should be loaded after all other packages
+      expect(result.lastIndexOf('\\usepackage')).toBe(
+        result.indexOf('\\usepackage{polyglossia}')
+      )
+    })
+
+    it('should render xeCJK configuration for Japanese and Korean resumes', () => {
+      for (const [language, region] of [
+        ['ja', 'JP'],
+        ['ko', 'KR'],
+      ] as const) {
+        const cjkResume = cloneDeep(resume)
+        cjkResume.locale = { ...cjkResume.locale, language }
+
+        const renderer = new ModerncvBankingRenderer(cjkResume, layoutIndex)
+        const result = renderer.renderPreamble()
+
+        expect(result).toContain('\\usepackage{xeCJK}')
+        expect(result).toContain(`\\setCJKmainfont{Noto Serif CJK ${region}}`)
+        expect(result).not.toContain('{ctex}')
+      }
+    })
+
     it('should render basic fontspec configuration', () => {
       const linuxLibertineFont = 'Linux Libertine'
       const linuxLibertineOFont = 'Linux Libertine O'
@@ -582,6 +642,73 @@ describe('ModerncvBase', () => {
       expect(result).toContain(`{\\\href{${url}}{${url}}}`)
       expect(result).toContain(`\\textbf{Keywords}: ${keywords.join(', ')}`)
     })
+
+    it('should render positions grouped under the company', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          url: 'https://ppresume.com',
+          positions: [
+            {
+              position: 'Senior Software Engineer',
+              startDate: '2022-01-01',
+              summary: 'Led **things**',
+            },
+            {
+              position: 'Software Engineer',
+              startDate: '2020-01-01',
+              endDate: '2022-01-01',
+              summary: 'Built things',
+            },
+          ],
+        },
+      ]
+
+      renderer = new ModerncvBankingRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toContain(
+        '\\cventry{Jan 2020–Present}\n        {PPResume}\n        {}'
+      )
+      expect(result).toContain(
+        '\\cventry{Jan 2022–Present}\n        {Senior Software Engineer}'
+      )
+      expect(result).toContain('{Led \\textbf{things}}')
+      expect(result).toContain(
+        '\\cventry{Jan 2020–Jan 2022}\n        {Software Engineer}'
+      )
+    })
+  })
+
+  describe('renderWork with date settings', () => {
+    it('should escape the date separator and the present wording', () => {
+      resume.content.work = [
+        {
+          name: 'Company',
+          position: 'Software Engineer',
+          startDate: 'Jan 1, 2010',
+          endDate: 'Apr 1, 2012',
+        },
+        {
+          name: 'Company',
+          position: 'Staff Engineer',
+          startDate: 'May 1, 2012',
+          endDate: '',
+        },
+      ]
+      resume.layouts = [
+        {
+          engine: 'latex',
+          dates: { format: 'MM/YYYY', separator: ' & ', present: '100% now' },
+        },
+      ]
+
+      renderer = new ModerncvBankingRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toContain('\\cventry{01/2010 \\& 04/2012}')
+      expect(result).toContain('\\cventry{05/2012 \\& 100\\% now}')
+    })
   })
 
   describe('renderLanguages', () => {
@@ -935,6 +1062,25 @@ describe('ModerncvBase', () => {
       expect(result).toContain(`{\\href{${url}}{${url}}}`)
       expect(result).toContain('')
     })
+
+    it('should render highlights as an itemize list', () => {
+      resume.content.volunteer = [
+        {
+          organization: 'Code for Good',
+          position: 'Technical Lead',
+          startDate: '2023-01',
+          summary: '',
+          highlights: ['Mentored 30+ students'],
+        },
+      ]
+
+      renderer = new ModerncvBankingRenderer(resume, layoutIndex)
+      const result = renderer.renderVolunteer()
+
+      expect(result).toContain(
+        '{\\begin{itemize}\n\\item Mentored 30+ students\n\\end{itemize}}'
+      )
+    })
   })
 
   describe('generateTeX -> renderOrderedSections', () => {
@@ -1060,4 +1206,56 @@ describe('ModerncvBase', () => {
       expect(skillsIndex).toBe(-1)
     })
   })
+
+  describe('renderCustomSection', () => {
+    beforeEach(() => {
+      resume.content.custom = [
+        {
+          id: 'talks',
+          title: 'Talks',
+          items: [
+            {
+              name: 'Resumes as Code',
+              startDate: '2024-05-01',
+              url: 'https://example.com/talk',
+              keywords: ['YAML', 'LaTeX'],
+              summary: 'A talk about **resumes**',
+            },
+          ],
+        },
+        { id: 'patents', title: 'Patents', items: [] },
+      ]
+      renderer = new ModerncvBankingRenderer(resume, layoutIndex)
+    })
+
+    it('should render items of a custom section', () => {
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('\\section{Talks}')
+      expect(result).toMatch('\\cventry{May 2024}\n        {Resumes as Code}')
+      expect(result).toMatch(
+        '\\href{https://example.com/talk}{https://example.com/talk}'
+      )
+      expect(result).toMatch('\\textbf{Keywords}: YAML, LaTeX')
+    })
+
+    it('should escape the title of a custom section once', () => {
+      resume.content.custom[0].title = 'Open Source & *Community*'
+      renderer = new ModerncvBankingRenderer(resume, layoutIndex)
+
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('\\section{Open Source \\& *Community*}')
+    })
+
+    it('should return empty string when a custom section has no items', () => {
+      expect(
+        renderer.renderCustomSection(renderer.resume.content.custom[1])
+      ).toBe('')
+    })
+  })
 })
@@ -24,7 +24,7 @@
 
 import type { Parser } from '@/compiler'
 import { MarkdownParser } from '@/compiler'
-import type { LatexLayout, Resume } from '@/models'
+import type { CustomSection, LatexLayout, Resume } from '@/models'
 import { transformResume } from '@/preprocess'
 import { getTemplateTranslations } from '@/translations'
 import {
@@ -34,7 +34,16 @@ import {
   showIfNotEmpty,
 } from '@/utils'
 import { Renderer } from '../base'
-import { type ModerncvStyle, normalizeUnit } from './preamble'
+import {
+  isCJKLanguage,
+  type ModerncvStyle,
+  normalizeUnit,
+  renderBabelConfig,
+  renderCJKConfig,
+  renderFontspecConfig,
+  renderPolyglossiaConfig,
+  renderUlemConfig,
+} from './preamble'
 
 /**
  * Base class for moderncv renderers.
@@ -65,9 +74,7 @@ class ModerncvBase extends Renderer {
    * Check if the resume is a CJK resume.
    */
   private isCJKResume(): boolean {
-    return ['zh-hans', 'zh-hant-hk', 'zh-hant-tw'].includes(
-      this.resume.locale?.language
-    )
+    return isCJKLanguage(this.resume.locale?.language)
   }
 
   /**
@@ -89,7 +96,10 @@ class ModerncvBase extends Renderer {
   private renderModerncvOverride(): string {
     const {
       punctuations: { colon },
-    } = getTemplateTranslations(this.resume.locale?.language)
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
 
     if (!this.isCJKResume()) {
       return ''
@@ -159,102 +169,15 @@ class ModerncvBase extends Renderer {
     )
   }
 
-  /**
-   * Render the LaTeX packages for CJK support
-   */
-  private renderCTeXConfig(): string {
-    return `%% CTeX
-% CJK support, used to show CJK characters in the resume
-%
-% - fontset=none: disable builtin fontset but instead set the CJK font manually
-% - heading=false: disable ctex heading
-% - punct=kaiming: use kaiming punctuations styles for CJK
-% - scheme=plain: use plain scheme, do not override \`\\normalsize\` font size
-% - space=auto: space settings for CJK characters
-%
-% ref:
-% - http://ctan.mirrorcatalogs.com/language/chinese/ctex/ctex.pdf
-\\usepackage[UTF8, heading=false, punct=kaiming, scheme=plain, space=auto]{ctex}
-
-\\IfFontExistsTF{Noto Serif CJK SC}{
-  \\setCJKmainfont{Noto Serif CJK SC}
-}{}
-\\IfFontExistsTF{Noto Sans CJK SC}{
-  \\setCJKsansfont{Noto Sans CJK SC}
-}{}`
-  }
-
-  /**
-   * Render the LaTeX packages for Spanish support
-   */
-  private renderBabelConfig(): string {
-    switch (this.resume.locale?.language) {
-      case 'es':
-        return `%% Babel config for Spanish language
-% \`\\usepackage[spanish]{babel}\` has some conflicting issues with moderncv
-% so we have to use enable the following options to make it work
-%
-% ref:
-% - https://tex.stackexchange.com/a/140161/36007
-\\usepackage[spanish,es-lcroman]{babel}`
-      case 'fr':
-        return `%% Babel config for French language
-% ref:
-% - https://latex3.github.io/babel/guides/locale-french.html
-\\usepackage[french]{babel}`
-      case 'no':
-        return `%% Babel config for Norwegian language
-% ref:
-% - https://latex3.github.io/babel/guides/locale-norwegian.html
-\\usepackage[norsk]{babel}`
-      default:
-        return ''
-    }
-  }
-
-  /**
-   * Render the LaTeX packages for fontspec support
-   */
-  private renderFontspecConfig(): string {
-    const layout = this.resume.layouts?.[this.layoutIndex]
-
-    const numbers = (layout as LatexLayout)?.advanced?.fontspec?.numbers
-
-    const linuxLibertineFont = 'Linux Libertine'
-    const linuxLibertineOFont = 'Linux Libertine O'
-
-    return `%% fontspec
-\\usepackage{fontspec}
-
-\\IfFontExistsTF{${linuxLibertineFont}}{
-  \\setmainfont[${joinNonEmptyString(
-    [
-      'Ligatures={TeX, Common}',
-      `Numbers=${numbers}`,
-      showIf(this.isCJKResume(), `ItalicFont=${linuxLibertineFont}`),
-    ],
-    ', '
-  )}]{${linuxLibertineFont}}
-}{}
-\\IfFontExistsTF{${linuxLibertineOFont}}{
-  \\setmainfont[${joinNonEmptyString(
-    [
-      'Ligatures={TeX, Common}',
-      `Numbers=${numbers}`,
-      showIf(this.isCJKResume(), `ItalicFont=${linuxLibertineOFont}`),
-    ],
-    ', '
-  )}]{${linuxLibertineOFont}}
-}{}`
-  }
-
   /**
    * Render the preamble for the resume.
    *
    * @returns The LaTeX code for the preamble
    */
   renderPreamble(): string {
-    if (this.resume.layouts?.[this.layoutIndex]?.engine !== 'latex') {
+    const layout = this.resume.layouts?.[this.layoutIndex]
+
+    if (layout?.engine !== 'latex') {
       return ''
     }
 
@@ -267,19 +190,29 @@ class ModerncvBase extends Renderer {
       this.renderLayoutConfig(),
 
       // language specific
-      this.renderBabelConfig(),
+      renderBabelConfig(this.resume.locale?.language),
 
       // fontspec
       // note that loading order of fontspec and babel packages matters here
       // babel package should be loaded before fontspec package, otherwise
       // Spanish resumes cannot render correct font styles in my testing,
       // reason still unknown though
-      this.renderFontspecConfig(),
+      renderFontspecConfig(
+        layout.advanced?.fontspec?.numbers,
+        this.isCJKResume()
+      ),
 
-      // CTeX for CJK
-      // CTeX needs to load after fontspec because we use `\IfFontExistsTF` to
+      // CTeX for Chinese, xeCJK for Japanese and Korean
+      // both need to load after fontspec because we use `\IfFontExistsTF` to
       // set the CJK font manually if the required Google Noto font exists
-      this.renderCTeXConfig(),
+      renderCJKConfig(this.resume.locale?.language),
+
+      // strikethrough for summaries
+      renderUlemConfig(),
+
+      // polyglossia and bidi for right-to-left languages, which need to load
+      // after fontspec as well, bidi should be the last package to load
+      renderPolyglossiaConfig(this.resume.locale?.language),
     ])
   }
 
@@ -381,7 +314,7 @@ class ModerncvBase extends Renderer {
     const {
       punctuations: { colon },
       terms,
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     if (!education.length) {
       return ''
@@ -428,7 +361,7 @@ ${education
     const {
       punctuations: { colon },
       terms,
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     if (!content.work.length) {
       return ''
@@ -439,22 +372,30 @@ ${education
 ${content.work
   .map((work) => {
     const {
-      computed: { startDate, dateRange, summary, keywords },
+      computed: { startDate, dateRange, summary, highlights, keywords },
       name,
       position,
+      positions,
       url,
     } = work
 
-    return `\\cventry{${showIfNotEmpty(startDate, dateRange)}}
-        {${position}}
-        {${name}}
+    // when positions are grouped, the company is rendered once as the title
+    // and each position is rendered as a nested entry below it
+    const hasPositions = !isEmptyValue(positions)
+
+    const entry = `\\cventry{${showIfNotEmpty(startDate, dateRange)}}
+        {${hasPositions ? name : position}}
+        {${hasPositions ? '' : name}}
         {${showIfNotEmpty(url, `\\href{${url}}{${url}}`)}}
         {}
         {${showIf(
-          !isEmptyValue(summary) || !isEmptyValue(keywords),
+          !isEmptyValue(summary) ||
+            !isEmptyValue(highlights) ||
+            !isEmptyValue(keywords),
           `${joinNonEmptyString(
             [
               summary,
+              highlights,
               showIf(
                 !isEmptyValue(keywords),
                 `\\textbf{${terms.keywords}}${colon}${keywords}`
@@ -463,6 +404,21 @@ ${content.work
             '\n'
           )}`
         )}}`
+
+    return joinNonEmptyString([
+      entry,
+      ...(positions ?? []).map(
+        ({ computed, position }) => `\\cventry{${showIfNotEmpty(
+          computed.startDate,
+          computed.dateRange
+        )}}
+        {${position}}
+        {}
+        {}
+        {}
+        {${computed.summary}}`
+      ),
+    ])
   })
   .join('\n\n')}`
   }
@@ -488,7 +444,7 @@ ${content.work
     const {
       punctuations: { colon },
       terms,
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `\\section{${sectionNames.languages}}
 
@@ -520,7 +476,7 @@ ${languages
     const {
       punctuations: { colon },
       terms,
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     if (!skills.length) {
       return ''
@@ -714,7 +670,10 @@ ${references
     const {
       punctuations: { colon },
       terms,
-    } = getTemplateTranslations(this.resume.locale?.language)
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
 
     if (!content.projects.length) {
       return ''
@@ -728,17 +687,20 @@ ${content.projects
       name,
       description,
       url,
-      computed: { dateRange, startDate, summary, keywords },
+      computed: { dateRange, startDate, summary, highlights, keywords },
     }) => `\\cventry{${showIfNotEmpty(startDate, dateRange)}}
         {${description}}
         {${name}}
         {${showIfNotEmpty(url, `\\href{${url}}{${url}}`)}}
         {}
         {${showIf(
-          !isEmptyValue(summary) || !isEmptyValue(keywords),
+          !isEmptyValue(summary) ||
+            !isEmptyValue(highlights) ||
+            !isEmptyValue(keywords),
           `${joinNonEmptyString(
             [
               summary,
+              highlights,
               showIf(
                 !isEmptyValue(keywords),
                 `\\textbf{${terms.keywords}}${colon}${keywords}`
@@ -790,18 +752,68 @@ ${content.volunteer
       position,
       organization,
       url,
-      computed: { startDate, dateRange, summary },
+      computed: { startDate, dateRange, summary, highlights },
     }) => `\\cventry{${showIfNotEmpty(startDate, dateRange)}}
         {${position}}
         {${organization}}
         {${showIfNotEmpty(url, `\\href{${url}}{${url}}`)}}
         {}
-        {${showIfNotEmpty(summary, summary)}}
+        {${joinNonEmptyString([summary, highlights], '\n')}}
     `
   )
   .join('\n\n')}`
   }
 
+  /**
+   * Render a custom section of the resume.
+   *
+   * @param section - The custom section to render.
+   * @returns The LaTeX code for the custom section
+   */
+  renderCustomSection({ id, items }: CustomSection): string {
+    const { content } = this.resume
+    const {
+      punctuations: { colon },
+      terms,
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    if (!items.length) {
+      return ''
+    }
+
+    return `\\section{${content.computed.sectionNames[id]}}
+
+${items
+  .map(
+    ({
+      name,
+      url,
+      computed: { dateRange, summary, keywords },
+    }) => `\\cventry{${dateRange}}
+        {${name}}
+        {}
+        {${showIfNotEmpty(url, `\\href{${url}}{${url}}`)}}
+        {}
+        {${showIf(
+          !isEmptyValue(summary) || !isEmptyValue(keywords),
+          `${joinNonEmptyString(
+            [
+              summary,
+              showIf(
+                !isEmptyValue(keywords),
+                `\\textbf{${terms.keywords}}${colon}${keywords}`
+              ),
+            ],
+            '\n'
+          )}`
+        )}}`
+  )
+  .join('\n\n')}`
+  }
+
   /**
    * Render the resume.
    *
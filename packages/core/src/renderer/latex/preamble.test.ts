@@ -23,7 +23,17 @@
  */
 
 import { describe, expect, it } from 'vitest'
-import { normalizeUnit } from './preamble'
+import {
+  isCJKLanguage,
+  normalizeUnit,
+  renderBabelConfig,
+  renderCJKConfig,
+  renderCTeXConfig,
+  renderFontspecConfig,
+  renderPolyglossiaConfig,
+  renderUlemConfig,
+  renderXeCJKConfig,
+} from './preamble'
 
 describe(normalizeUnit, () => {
   it('should remove spaces between number and unit', () => {
@@ -32,3 +42,96 @@ describe(normalizeUnit, () => {
     expect(normalizeUnit('12.5 em')).toBe('12.5em')
   })
 })
+
+describe(isCJKLanguage, () => {
+  it('should return true for CJK languages only', () => {
+    expect(isCJKLanguage('zh-hans')).toBe(true)
+    expect(isCJKLanguage('zh-hant-hk')).toBe(true)
+    expect(isCJKLanguage('zh-hant-tw')).toBe(true)
+    expect(isCJKLanguage('ja')).toBe(true)
+    expect(isCJKLanguage('ko')).toBe(true)
+    expect(isCJKLanguage('en')).toBe(false)
+    expect(isCJKLanguage(undefined)).toBe(false)
+  })
+})
+
+describe(renderBabelConfig, () => {
+  it('should render babel config for supported languages', () => {
+    expect(renderBabelConfig('es')).toContain(
+      '\\usepackage[spanish,es-lcroman]{babel}'
+    )
+    expect(renderBabelConfig('fr')).toContain('\\usepackage[french]{babel}')
+    expect(renderBabelConfig('no')).toContain('\\usepackage[norsk]{babel}')
+    expect(renderBabelConfig('de')).toContain(
+      '\\usepackage[shorthands=off,ngerman]{babel}'
+    )
+    expect(renderBabelConfig('pt')).toContain(
+      '\\usepackage[shorthands=off,portuguese]{babel}'
+    )
+    expect(renderBabelConfig('it')).toContain(
+      '\\usepackage[shorthands=off,italian]{babel}'
+    )
+    expect(renderBabelConfig('en')).toBe('')
+  })
+})
+
+describe(renderCJKConfig, () => {
+  it('should render xeCJK config with matching fonts for Japanese and Korean', () => {
+    expect(renderCJKConfig('ja')).toEqual(renderXeCJKConfig('ja'))
+    expect(renderCJKConfig('ja')).toContain('\\usepackage{xeCJK}')
+    expect(renderCJKConfig('ja')).toContain('Noto Serif CJK JP')
+    expect(renderCJKConfig('ko')).toContain('Noto Sans CJK KR')
+    expect(renderCJKConfig('ko')).not.toContain('{ctex}')
+  })
+
+  it('should render CTeX config for other languages', () => {
+    for (const language of ['en', 'zh-hans', 'de'] as const) {
+      expect(renderCJKConfig(language)).toEqual(renderCTeXConfig())
+    }
+  })
+})
+
+describe(renderFontspecConfig, () => {
+  it('should render fontspec config with numbers style', () => {
+    const result = renderFontspecConfig('Lining', false)
+
+    expect(result).toContain('Numbers=Lining')
+    expect(result).not.toContain('ItalicFont')
+  })
+
+  it('should set italic font for CJK resumes', () => {
+    expect(renderFontspecConfig('Auto', true)).toContain(
+      'ItalicFont=Linux Libertine'
+    )
+  })
+})
+
+describe(renderPolyglossiaConfig, () => {
+  it('should render polyglossia config for right-to-left languages', () => {
+    const arabic = renderPolyglossiaConfig('ar')
+
+    expect(arabic).toContain('\\usepackage{polyglossia}')
+    expect(arabic).toContain('\\setdefaultlanguage{arabic}')
+    expect(arabic).toContain(
+      '\\newfontfamily\\arabicfont[Script=Arabic]{Noto Naskh Arabic}'
+    )
+    expect(renderPolyglossiaConfig('he')).toContain(
+      '\\newfontfamily\\hebrewfont[Script=Hebrew]{Noto Serif Hebrew}'
+    )
+    expect(renderPolyglossiaConfig('fa')).toContain(
+      '\\setdefaultlanguage{persian}'
+    )
+  })
+
+  it('should render nothing for left-to-right languages', () => {
+    expect(renderPolyglossiaConfig('en')).toBe('')
+    expect(renderPolyglossiaConfig('zh-hans')).toBe('')
+    expect(renderPolyglossiaConfig(undefined)).toBe('')
+  })
+})
+
+describe(renderUlemConfig, () => {
+  it('should load ulem without changing emph', () => {
+    expect(renderUlemConfig()).toContain('\\usepackage[normalem]{ulem}')
+  })
+})
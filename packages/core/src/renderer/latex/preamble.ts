@@ -22,12 +22,16 @@
  * IN THE SOFTWARE.
  */
 
+import type { FontspecNumbers, LocaleLanguage } from '@/models'
+import { isEmptyValue, joinNonEmptyString, showIf } from '@/utils'
+
 /**
  * The options for the document class.
  *
- * For now we only support `moderncv` document class.
+ * - `moderncv` - used by the moderncv templates
+ * - `article` - used by the one-column jake template
  */
-export const DOCUMENT_CLASS_OPTIONS = ['moderncv'] as const
+export const DOCUMENT_CLASS_OPTIONS = ['moderncv', 'article'] as const
 
 /** The type of document class. */
 export type DocumentClass = (typeof DOCUMENT_CLASS_OPTIONS)[number]
@@ -62,3 +66,253 @@ export type ModerncvStyle = (typeof MODERNCV_STYLE_OPTIONS)[number]
 export function normalizeUnit(value: string): string {
   return value.replace(/\s+/g, '')
 }
+
+/**
+ * Check if the given locale language is a CJK language.
+ *
+ * @param language - The locale language.
+ * @returns `true` if the language is a CJK language, `false` otherwise.
+ */
+export function isCJKLanguage(language: LocaleLanguage): boolean {
+  return ['zh-hans', 'zh-hant-hk', 'zh-hant-tw', 'ja', 'ko'].includes(language)
+}
+
+/**
+ * Render the LaTeX packages for CJK support
+ *
+ * @returns The LaTeX code for CTeX configuration
+ */
+export function renderCTeXConfig(): string {
+  return `%% CTeX
+% CJK support, used to show CJK characters in the resume
+%
+% - fontset=none: disable builtin fontset but instead set the CJK font manually
+% - heading=false: disable ctex heading
+% - punct=kaiming: use kaiming punctuations styles for CJK
+% - scheme=plain: use plain scheme, do not override \`\\normalsize\` font size
+% - space=auto: space settings for CJK characters
+%
+% ref:
+% - http://ctan.mirrorcatalogs.com/language/chinese/ctex/ctex.pdf
+\\usepackage[UTF8, heading=false, punct=kaiming, scheme=plain, space=auto]{ctex}
+
+\\IfFontExistsTF{Noto Serif CJK SC}{
+  \\setCJKmainfont{Noto Serif CJK SC}
+}{}
+\\IfFontExistsTF{Noto Sans CJK SC}{
+  \\setCJKsansfont{Noto Sans CJK SC}
+}{}`
+}
+
+/**
+ * Render the LaTeX packages for Japanese and Korean support
+ *
+ * CTeX is tailored for Chinese typesetting, i.e, punctuation styles and glyph
+ * shapes, so Japanese and Korean resumes use plain xeCJK with the matching
+ * Google Noto fonts instead.
+ *
+ * @param language - The locale language, either `ja` or `ko`.
+ * @returns The LaTeX code for xeCJK configuration
+ */
+export function renderXeCJKConfig(language: 'ja' | 'ko'): string {
+  const region = language === 'ja' ? 'JP' : 'KR'
+
+  return `%% xeCJK
+% CJK support, used to show Japanese and Korean characters in the resume
+%
+% ref:
+% - https://ctan.org/pkg/xecjk
+\\usepackage{xeCJK}
+
+\\IfFontExistsTF{Noto Serif CJK ${region}}{
+  \\setCJKmainfont{Noto Serif CJK ${region}}
+}{}
+\\IfFontExistsTF{Noto Sans CJK ${region}}{
+  \\setCJKsansfont{Noto Sans CJK ${region}}
+}{}`
+}
+
+/**
+ * Render the LaTeX packages for CJK support based on the locale language
+ *
+ * @param language - The locale language.
+ * @returns The LaTeX code for xeCJK configuration for Japanese and Korean,
+ * CTeX configuration otherwise
+ */
+export function renderCJKConfig(language: LocaleLanguage): string {
+  switch (language) {
+    case 'ja':
+    case 'ko':
+      return renderXeCJKConfig(language)
+    default:
+      return renderCTeXConfig()
+  }
+}
+
+/**
+ * Render the LaTeX packages for strikethrough support
+ *
+ * @returns The LaTeX code for ulem configuration
+ */
+export function renderUlemConfig(): string {
+  return `%% ulem
+% strikethrough support, used by \`\\sout\` in summaries
+%
+% - normalem: keep \`\\emph\` as italic instead of underline
+\\usepackage[normalem]{ulem}`
+}
+
+/**
+ * Render the LaTeX packages for babel support
+ *
+ * @param language - The locale language.
+ * @returns The LaTeX code for babel configuration
+ */
+export function renderBabelConfig(language: LocaleLanguage): string {
+  switch (language) {
+    case 'es':
+      return `%% Babel config for Spanish language
+% \`\\usepackage[spanish]{babel}\` has some conflicting issues with moderncv
+% so we have to use enable the following options to make it work
+%
+% ref:
+% - https://tex.stackexchange.com/a/140161/36007
+\\usepackage[spanish,es-lcroman]{babel}`
+    case 'fr':
+      return `%% Babel config for French language
+% ref:
+% - https://latex3.github.io/babel/guides/locale-french.html
+\\usepackage[french]{babel}`
+    case 'no':
+      return `%% Babel config for Norwegian language
+% ref:
+% - https://latex3.github.io/babel/guides/locale-norwegian.html
+\\usepackage[norsk]{babel}`
+    case 'de':
+      return `%% Babel config for German language
+% - shorthands=off: keep \`"\` as a plain character instead of an active
+%   shorthand, which breaks quotes in summaries and moderncv commands
+%
+% ref:
+% - https://latex3.github.io/babel/guides/locale-german.html
+\\usepackage[shorthands=off,ngerman]{babel}`
+    case 'pt':
+      return `%% Babel config for Portuguese language
+% - shorthands=off: keep \`"\` as a plain character instead of an active
+%   shorthand
+%
+% ref:
+% - https://latex3.github.io/babel/guides/locale-portuguese.html
+\\usepackage[shorthands=off,portuguese]{babel}`
+    case 'it':
+      return `%% Babel config for Italian language
+% - shorthands=off: keep \`"\` as a plain character instead of an active
+%   shorthand
+%
+% ref:
+% - https://latex3.github.io/babel/guides/locale-italian.html
+\\usepackage[shorthands=off,italian]{babel}`
+    default:
+      return ''
+  }
+}
+
+/**
+ * Render the LaTeX packages for right-to-left languages
+ *
+ * polyglossia, instead of babel, sets up Arabic, Hebrew and Farsi resumes, as
+ * it loads bidi to handle the text direction and supports the script specific
+ * fonts, punctuations and digits via fontspec.
+ *
+ * @param language - The locale language.
+ * @returns The LaTeX code for polyglossia configuration, or an empty string
+ * for left-to-right languages
+ */
+export function renderPolyglossiaConfig(language: LocaleLanguage): string {
+  const configs: Partial<
+    Record<
+      LocaleLanguage,
+      { name: string; polyglossia: string; script: string; font: string }
+    >
+  > = {
+    ar: {
+      name: 'Arabic',
+      polyglossia: 'arabic',
+      script: 'Arabic',
+      font: 'Naskh Arabic',
+    },
+    he: {
+      name: 'Hebrew',
+      polyglossia: 'hebrew',
+      script: 'Hebrew',
+      font: 'Serif Hebrew',
+    },
+    fa: {
+      name: 'Farsi',
+      polyglossia: 'persian',
+      script: 'Arabic',
+      font: 'Naskh Arabic',
+    },
+  }
+
+  if (isEmptyValue(configs[language])) {
+    return ''
+  }
+
+  const { name, polyglossia, script, font } = configs[language]
+
+  return `%% Polyglossia config for ${name} language
+% polyglossia loads bidi for right-to-left typesetting, so it needs to be
+% loaded after fontspec and all other packages, the script font is set
+% manually if the required Google Noto font exists
+%
+% ref:
+% - https://ctan.org/pkg/polyglossia
+% - https://ctan.org/pkg/bidi
+\\usepackage{polyglossia}
+\\setdefaultlanguage{${polyglossia}}
+\\setotherlanguage{english}
+
+\\IfFontExistsTF{Noto ${font}}{
+  \\newfontfamily\\${polyglossia}font[Script=${script}]{Noto ${font}}
+}{}`
+}
+
+/**
+ * Render the LaTeX packages for fontspec support
+ *
+ * @param numbers - The fontspec numbers style.
+ * @param isCJK - Whether the resume is a CJK resume.
+ * @returns The LaTeX code for fontspec configuration
+ */
+export function renderFontspecConfig(
+  numbers: FontspecNumbers,
+  isCJK: boolean
+): string {
+  const linuxLibertineFont = 'Linux Libertine'
+  const linuxLibertineOFont = 'Linux Libertine O'
+
+  return `%% fontspec
+\\usepackage{fontspec}
+
+\\IfFontExistsTF{${linuxLibertineFont}}{
+  \\setmainfont[${joinNonEmptyString(
+    [
+      'Ligatures={TeX, Common}',
+      `Numbers=${numbers}`,
+      showIf(isCJK, `ItalicFont=${linuxLibertineFont}`),
+    ],
+    ', '
+  )}]{${linuxLibertineFont}}
+}{}
+\\IfFontExistsTF{${linuxLibertineOFont}}{
+  \\setmainfont[${joinNonEmptyString(
+    [
+      'Ligatures={TeX, Common}',
+      `Numbers=${numbers}`,
+      showIf(isCJK, `ItalicFont=${linuxLibertineOFont}`),
+    ],
+    ', '
+  )}]{${linuxLibertineOFont}}
+}{}`
+}
@@ -26,7 +26,13 @@ import { beforeEach, describe, expect, it } from 'vitest'
 
 import type { Resume } from '@/models'
 import { collectAllKeys, removeKeysFromObject } from '@/utils'
-import { getFixture, getRandomSections, sections } from '../test-utils'
+import {
+  getFixture,
+  getRandomSections,
+  sections,
+  tagResumeItems,
+} from '../test-utils'
+import { JakeRenderer } from './jake'
 import {
   ModerncvBankingRenderer,
   ModerncvCasualRenderer,
@@ -41,6 +47,7 @@ describe('smoke test for all renderers', () => {
     ModerncvBankingRenderer,
     ModerncvClassicRenderer,
     ModerncvCasualRenderer,
+    JakeRenderer,
   ]
 
   function expectValidLaTeXDocument(result: string) {
@@ -91,6 +98,18 @@ describe('smoke test for all renderers', () => {
     })
   })
 
+  describe('should handle tagged items', () => {
+    it('should render resume with tagged items', () => {
+      for (const renderer of renderers) {
+        const result = new renderer(
+          tagResumeItems(cloneDeep(resume), ['backend', 'a & b <c>']),
+          layoutIndex
+        ).render()
+        expectValidLaTeXDocument(result)
+      }
+    })
+  })
+
   describe('should handle optional layout', () => {
     it('should render resume with no layout', () => {
       for (const renderer of renderers) {
@@ -36,6 +36,7 @@ describe('MarkdownRenderer', () => {
 
   beforeEach(() => {
     resume = cloneDeep(FILLED_RESUME)
+    resume.layouts = [{ engine: 'markdown' }]
     renderer = new MarkdownRenderer(resume, layoutIndex)
   })
 
@@ -135,11 +136,22 @@ describe('MarkdownRenderer', () => {
       const result = renderer.renderSummary()
 
       expect(result).toMatch('## Basics')
-      // unlike LaTeX renderer, the summary here should be rendered without any
-      // change because the original summary in yaml is already a markdown
-      // string
+      // the summary is already normalized markdown, so it is rendered as is
       expect(result).toMatch(summary)
     })
+
+    it('should normalize list markers and indentation of the summary', () => {
+      resume.content.basics = {
+        name: 'Test User',
+        summary: '* Parent\n\n    + Child with *emphasis*',
+      }
+
+      renderer = new MarkdownRenderer(resume, layoutIndex)
+
+      expect(renderer.renderSummary()).toBe(
+        '## Basics\n\n- Parent\n  - Child with *emphasis*'
+      )
+    })
   })
 
   describe('renderLocation', () => {
@@ -387,6 +399,41 @@ describe('MarkdownRenderer', () => {
       expect(result).toMatch('–') // computed dateRange is always present
       expect(result).toMatch('Summary:')
     })
+
+    it('should render positions grouped under the company', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          url: 'https://ppresume.com',
+          positions: [
+            {
+              position: 'Senior Software Engineer',
+              startDate: '2022-01-01',
+              summary: 'Led **things**',
+            },
+            {
+              position: 'Software Engineer',
+              startDate: '2020-01-01',
+              endDate: '2022-01-01',
+              summary: 'Built things',
+            },
+          ],
+        },
+      ]
+
+      renderer = new MarkdownRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch(
+        '### PPResume\n\nJan 2020–Present\n\nURL: https://ppresume.com'
+      )
+      expect(result).toMatch(
+        '#### Senior Software Engineer\n\nJan 2022–Present\n\nSummary: \nLed **things**'
+      )
+      expect(result).toMatch(
+        '#### Software Engineer\n\nJan 2020–Jan 2022\n\nSummary: \nBuilt things'
+      )
+    })
   })
 
   describe('renderLanguages', () => {
@@ -481,6 +528,26 @@ describe('MarkdownRenderer', () => {
         `- JavaScript: Expert, Keywords: ${keywords.join(', ')}`
       )
     })
+
+    it('should respect terms and punctuations from locale.overrides', () => {
+      resume.content.skills = [
+        { name: 'JavaScript', level: 'Expert', keywords: ['React', 'Node.js'] },
+      ]
+      resume.locale = {
+        language: 'en',
+        overrides: {
+          punctuations: { separator: ' / ' },
+          terms: { keywords: 'Tech stack' },
+        },
+      }
+
+      renderer = new MarkdownRenderer(resume, layoutIndex)
+      const result = renderer.renderSkills()
+
+      expect(result).toMatch(
+        '- JavaScript: Expert, Tech stack: React / Node.js'
+      )
+    })
   })
 
   describe('renderAwards', () => {
@@ -764,6 +831,24 @@ describe('MarkdownRenderer', () => {
       expect(result).toMatch(summary)
       expect(result).toMatch('–') // computed dateRange is always present
     })
+
+    it('should render highlights as a bullet list', () => {
+      resume.content.projects = [
+        {
+          name: 'YAMLResume',
+          startDate: '2025-01-01',
+          summary: 'Resumes as code',
+          highlights: ['Shipped **v1**', 'snake_case'],
+        },
+      ]
+
+      renderer = new MarkdownRenderer(resume, layoutIndex)
+      const result = renderer.renderProjects()
+
+      expect(result).toMatch(
+        'Summary: \nResumes as code\n\n- Shipped **v1**\n- snake\\_case'
+      )
+    })
   })
 
   describe('renderInterests', () => {
@@ -924,5 +1009,86 @@ describe('MarkdownRenderer', () => {
       expect(result).toMatch('# Test User')
       expect(result).not.toMatch('## Basics')
     })
+
+    it('should keep the name when the basics section is hidden', () => {
+      resume.content.basics = {
+        name: 'Andy Dufresne',
+        email: 'andy@example.com',
+        summary: 'A complete summary',
+      }
+      resume.layouts = [{ engine: 'markdown', sections: { hide: ['basics'] } }]
+
+      renderer = new MarkdownRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      expect(result).toMatch('# Andy Dufresne')
+      expect(result).toMatch('andy@example.com')
+      expect(result).not.toMatch('## Basics')
+      expect(result).not.toMatch('A complete summary')
+    })
+
+    it('should wrap right-to-left resumes in a dir hint', () => {
+      resume.content.basics = { name: 'Test User' }
+
+      renderer = new MarkdownRenderer(resume, layoutIndex)
+      expect(renderer.render()).not.toMatch('dir="rtl"')
+
+      resume.locale = { ...resume.locale, language: 'ar' }
+
+      renderer = new MarkdownRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      expect(result).toMatch(/^<div dir="rtl">\n\n# Test User/)
+      expect(result).toMatch(/\n\n<\/div>$/)
+    })
+  })
+
+  describe('renderCustomSection', () => {
+    beforeEach(() => {
+      resume.content.custom = [
+        {
+          id: 'talks',
+          title: 'Talks',
+          items: [
+            {
+              name: 'Resumes as Code',
+              startDate: '2024-05-01',
+              url: 'https://example.com/talk',
+              keywords: ['YAML', 'LaTeX'],
+              summary: 'A talk about **resumes**',
+            },
+          ],
+        },
+        { id: 'patents', title: 'Patents', items: [] },
+      ]
+      renderer = new MarkdownRenderer(resume, layoutIndex)
+    })
+
+    it('should render items of a custom section', () => {
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('## Talks\n\n### Resumes as Code\n\nMay 2024')
+      expect(result).toMatch('Keywords: YAML, LaTeX')
+      expect(result).toMatch('A talk about **resumes**')
+    })
+
+    it('should escape the title of a custom section once', () => {
+      resume.content.custom[0].title = 'Open Source & *Community*'
+      renderer = new MarkdownRenderer(resume, layoutIndex)
+
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('## Open Source & \\*Community\\*\n')
+    })
+
+    it('should return empty string when a custom section has no items', () => {
+      expect(
+        renderer.renderCustomSection(renderer.resume.content.custom[1])
+      ).toBe('')
+    })
   })
 })
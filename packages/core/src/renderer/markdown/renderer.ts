@@ -24,7 +24,7 @@
 
 import type { Parser } from '@/compiler'
 import { MarkdownParser } from '@/compiler'
-import type { Resume } from '@/models'
+import { type CustomSection, isRTLLanguage, type Resume } from '@/models'
 import { transformResume } from '@/preprocess'
 import { getTemplateTranslations } from '@/translations'
 import { isEmptyValue, joinNonEmptyString, showIfNotEmpty } from '@/utils'
@@ -32,6 +32,9 @@ import { Renderer } from '../base'
 
 /**
  * Markdown renderer for generating markdown documents from resume data.
+ *
+ * Summaries are re-emitted by `MarkdownCodeGenerator`, so they are rendered
+ * predictably no matter how they were written in the source.
  */
 export class MarkdownRenderer extends Renderer {
   /**
@@ -76,7 +79,7 @@ export class MarkdownRenderer extends Renderer {
 
     const {
       punctuations: { colon },
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     const contactInfo = joinNonEmptyString(
       [
@@ -102,7 +105,9 @@ export class MarkdownRenderer extends Renderer {
   renderSummary(): string {
     const {
       content: {
-        basics: { summary },
+        basics: {
+          computed: { summary },
+        },
         computed: { sectionNames },
       },
     } = this.resume
@@ -131,7 +136,7 @@ export class MarkdownRenderer extends Renderer {
 
     const {
       punctuations: { colon },
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return showIfNotEmpty(
       fullAddress,
@@ -157,7 +162,7 @@ export class MarkdownRenderer extends Renderer {
 
     const {
       punctuations: { colon },
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     const profileLinks = profiles
       .map(({ network, url, username }) => {
@@ -191,16 +196,15 @@ export class MarkdownRenderer extends Renderer {
     const {
       punctuations: { colon, comma },
       terms,
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.education}
 
 ${education
   .map(
     ({
-      computed: { courses, dateRange, degreeAreaAndScore, startDate },
+      computed: { courses, dateRange, degreeAreaAndScore, startDate, summary },
       institution,
-      summary,
       url,
     }) => {
       return joinNonEmptyString([
@@ -237,25 +241,49 @@ ${education
     const {
       punctuations: { colon, comma },
       terms,
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.work}
 
 ${work
   .map(
     ({
-      computed: { dateRange, keywords, startDate },
+      computed: { dateRange, highlights, keywords, startDate, summary },
       name,
       position,
-      summary,
+      positions,
       url,
     }) => {
+      // when positions are grouped, the company is the heading and each
+      // position is rendered as a nested heading below it
+      if (!isEmptyValue(positions)) {
+        return joinNonEmptyString([
+          `### ${name}`,
+          showIfNotEmpty(startDate, dateRange),
+          showIfNotEmpty(url, `URL${colon}${url}`),
+          showIfNotEmpty(keywords, `${terms.keywords}${colon}${keywords}`),
+          showIfNotEmpty(summary, `Summary${colon}\n${summary}`),
+          highlights,
+          ...positions.map((item) =>
+            joinNonEmptyString([
+              `#### ${item.position}`,
+              showIfNotEmpty(item.computed.startDate, item.computed.dateRange),
+              showIfNotEmpty(
+                item.computed.summary,
+                `Summary${colon}\n${item.computed.summary}`
+              ),
+            ])
+          ),
+        ])
+      }
+
       return joinNonEmptyString([
         `### ${position}`,
         joinNonEmptyString([name, showIfNotEmpty(startDate, dateRange)], comma),
         showIfNotEmpty(url, `URL${colon}${url}`),
         showIfNotEmpty(keywords, `${terms.keywords}${colon}${keywords}`),
         showIfNotEmpty(summary, `Summary${colon}\n${summary}`),
+        highlights,
       ])
     }
   )
@@ -281,7 +309,7 @@ ${work
     const {
       punctuations: { colon, comma },
       terms,
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.languages}
 
@@ -314,7 +342,7 @@ ${languages
     const {
       punctuations: { colon, comma },
       terms,
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.skills}
 
@@ -346,12 +374,12 @@ ${skills
 
     const {
       punctuations: { colon, comma },
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.awards}
 
 ${awards
-  .map(({ computed: { date }, awarder, title, summary }) => {
+  .map(({ computed: { date, summary }, awarder, title }) => {
     return joinNonEmptyString([
       `### ${title}`,
       joinNonEmptyString([awarder, date], comma),
@@ -379,7 +407,7 @@ ${awards
 
     const {
       punctuations: { comma },
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.certificates}
 
@@ -412,12 +440,12 @@ ${certificates
 
     const {
       punctuations: { colon, comma },
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.publications}
 
 ${publications
-  .map(({ computed: { releaseDate }, name, publisher, summary, url }) => {
+  .map(({ computed: { releaseDate, summary }, name, publisher, url }) => {
     return joinNonEmptyString([
       `### ${name}`,
       joinNonEmptyString([publisher, releaseDate], comma),
@@ -446,12 +474,12 @@ ${publications
 
     const {
       punctuations: { colon, comma },
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.references}
 
 ${references
-  .map(({ email, name, phone, relationship, summary }) => {
+  .map(({ computed: { summary }, email, name, phone, relationship }) => {
     return joinNonEmptyString([
       `### ${name}`,
       joinNonEmptyString([relationship, email, phone], comma),
@@ -480,16 +508,15 @@ ${references
     const {
       punctuations: { colon, comma },
       terms,
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.projects}
 
 ${projects
   .map(
     ({
-      computed: { dateRange, keywords, startDate },
+      computed: { dateRange, highlights, keywords, startDate, summary },
       name,
-      summary,
       description,
       url,
     }) => {
@@ -502,6 +529,7 @@ ${projects
         showIfNotEmpty(url, `URL${colon}${url}`),
         showIfNotEmpty(keywords, `${terms.keywords}${colon}${keywords}`),
         showIfNotEmpty(summary, `Summary${colon}\n${summary}`),
+        highlights,
       ])
     }
   )
@@ -526,7 +554,7 @@ ${projects
 
     const {
       punctuations: { colon },
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.interests}
 
@@ -556,17 +584,16 @@ ${interests
 
     const {
       punctuations: { colon, comma },
-    } = getTemplateTranslations(locale?.language)
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
 
     return `## ${sectionNames.volunteer}
 
 ${volunteer
   .map(
     ({
-      computed: { dateRange, startDate },
+      computed: { dateRange, highlights, startDate, summary },
       position,
       organization,
-      summary,
       url,
     }) => {
       return joinNonEmptyString([
@@ -577,12 +604,49 @@ ${volunteer
         ),
         showIfNotEmpty(url, `URL${colon}${url}`),
         showIfNotEmpty(summary, `Summary${colon}\n${summary}`),
+        highlights,
       ])
     }
   )
   .join('\n\n')}`
   }
 
+  /**
+   * Render a custom section of the resume.
+   *
+   * @param section - The custom section to render.
+   * @returns {string} The rendered custom section
+   */
+  renderCustomSection({ id, items }: CustomSection): string {
+    const {
+      content: {
+        computed: { sectionNames },
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(items)) return ''
+
+    const {
+      punctuations: { colon },
+      terms,
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return `## ${sectionNames[id]}
+
+${items
+  .map(({ computed: { dateRange, keywords, summary }, name, url }) => {
+    return joinNonEmptyString([
+      `### ${name}`,
+      dateRange,
+      showIfNotEmpty(url, `URL${colon}${url}`),
+      showIfNotEmpty(keywords, `${terms.keywords}${colon}${keywords}`),
+      showIfNotEmpty(summary, `Summary${colon}\n${summary}`),
+    ])
+  })
+  .join('\n\n')}`
+  }
+
   /**
    * Render the complete markdown resume.
    *
@@ -596,6 +660,13 @@ ${volunteer
       this.renderOrderedSections(),
     ]
 
-    return joinNonEmptyString(sections, '\n\n')
+    const markdown = joinNonEmptyString(sections, '\n\n')
+
+    // markdown has no syntax for text direction, so right-to-left resumes are
+    // wrapped in a html block which markdown viewers like GitHub respect, the
+    // blank lines keep the content inside parsed as markdown
+    return isRTLLanguage(this.resume.locale?.language)
+      ? `<div dir="rtl">\n\n${markdown}\n\n</div>`
+      : markdown
   }
 }
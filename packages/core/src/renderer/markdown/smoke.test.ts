@@ -26,7 +26,12 @@ import { beforeEach, describe, expect, it } from 'vitest'
 
 import type { Resume } from '@/models'
 import { collectAllKeys, removeKeysFromObject } from '@/utils'
-import { getFixture, getRandomSections, sections } from '../test-utils'
+import {
+  getFixture,
+  getRandomSections,
+  sections,
+  tagResumeItems,
+} from '../test-utils'
 import { MarkdownRenderer } from './renderer'
 
 describe('smoke test for markdown renderer', () => {
@@ -79,6 +84,15 @@ describe('smoke test for markdown renderer', () => {
     })
   })
 
+  describe('should handle tagged items', () => {
+    it('should render resume with tagged items', () => {
+      tagResumeItems(resume, ['backend', 'a & b <c>'])
+
+      const result = new MarkdownRenderer(resume, layoutIndex).render()
+      expectValidMarkdownDocument(result)
+    })
+  })
+
   describe('should handle optional layout', () => {
     it('should render resume with no layout', () => {
       resume.layouts = undefined
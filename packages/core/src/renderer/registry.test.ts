@@ -0,0 +1,124 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { cloneDeep } from 'lodash-es'
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { YAMLResumeError } from '@/errors'
+import { DEFAULT_RESUME, LATEX_TEMPLATE_OPTIONS } from '@/models'
+import { ModerncvBankingRenderer } from './latex/moderncv'
+import {
+  getRegisteredTemplateIds,
+  getRegisteredTemplates,
+  getTemplateRenderer,
+  registerTemplate,
+  unregisterTemplate,
+} from './registry'
+import { getResumeRenderer } from './resume'
+
+class AcmeRenderer extends ModerncvBankingRenderer {
+  override renderPreamble(): string {
+    return '% acme'
+  }
+}
+
+describe(registerTemplate, () => {
+  afterEach(() => {
+    unregisterTemplate('acme')
+  })
+
+  it('should register builtin templates by default', () => {
+    expect(getRegisteredTemplateIds()).toEqual([...LATEX_TEMPLATE_OPTIONS])
+    expect(getTemplateRenderer('moderncv-banking')).toBe(
+      ModerncvBankingRenderer
+    )
+  })
+
+  it('should register a custom template', () => {
+    registerTemplate('acme', AcmeRenderer, {
+      name: 'Acme',
+      description: 'Acme in-house template',
+    })
+
+    expect(getRegisteredTemplateIds()).toEqual([
+      ...LATEX_TEMPLATE_OPTIONS,
+      'acme',
+    ])
+    expect(getTemplateRenderer('acme')).toBe(AcmeRenderer)
+    expect(getRegisteredTemplates().pop()).toEqual({
+      id: 'acme',
+      engine: 'latex',
+      name: 'Acme',
+      description: 'Acme in-house template',
+      renderer: AcmeRenderer,
+    })
+  })
+
+  it('should default details to the template id', () => {
+    registerTemplate('acme', AcmeRenderer)
+
+    expect(getRegisteredTemplates().pop()).toMatchObject({
+      id: 'acme',
+      name: 'acme',
+      description: '',
+    })
+  })
+
+  it('should be used by getResumeRenderer', () => {
+    registerTemplate('acme', AcmeRenderer)
+
+    const resume = cloneDeep(DEFAULT_RESUME)
+    resume.layouts = [{ engine: 'latex', template: 'acme' }]
+
+    const renderer = getResumeRenderer(resume, 0)
+    expect(renderer).toBeInstanceOf(AcmeRenderer)
+    expect(renderer.renderPreamble()).toBe('% acme')
+  })
+
+  it('should throw an error for invalid or duplicated template names', () => {
+    expect(() => registerTemplate('', AcmeRenderer)).toThrow(
+      new YAMLResumeError('INVALID_TEMPLATE_NAME', {})
+    )
+    expect(() => registerTemplate('moderncv-banking', AcmeRenderer)).toThrow(
+      new YAMLResumeError('TEMPLATE_CONFLICT', { name: 'moderncv-banking' })
+    )
+  })
+})
+
+describe(unregisterTemplate, () => {
+  it('should unregister a custom template', () => {
+    registerTemplate('acme', AcmeRenderer)
+
+    expect(unregisterTemplate('acme')).toBe(true)
+    expect(getTemplateRenderer('acme')).toBeUndefined()
+    expect(unregisterTemplate('acme')).toBe(false)
+  })
+
+  it('should not unregister builtin templates', () => {
+    expect(unregisterTemplate('moderncv-banking')).toBe(false)
+    expect(getTemplateRenderer('moderncv-banking')).toBe(
+      ModerncvBankingRenderer
+    )
+  })
+})
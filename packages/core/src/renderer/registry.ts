@@ -0,0 +1,186 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type { Parser } from '@/compiler'
+import { YAMLResumeError } from '@/errors'
+import type { Resume } from '@/models'
+import { getLatexTemplateDetail, LATEX_TEMPLATE_OPTIONS } from '@/models'
+import { setTemplateOptionsLookup } from '@/schema/primitives'
+import type { Renderer } from './base'
+import { JakeRenderer } from './latex/jake'
+import {
+  ModerncvBankingRenderer,
+  ModerncvCasualRenderer,
+  ModerncvClassicRenderer,
+} from './latex/moderncv'
+
+/**
+ * A renderer class which can be registered as a LaTeX template.
+ *
+ * It must be constructable with the same arguments as the builtin moderncv
+ * renderers, i.e, the resume, the layout index and the summary parser.
+ */
+export type TemplateRendererClass = new (
+  resume: Resume,
+  layoutIndex: number,
+  summaryParser: Parser
+) => Renderer
+
+/**
+ * Optional details for a registered template, shown by `templates list`.
+ */
+export type TemplateDetails = {
+  /** The human readable name of the template. */
+  name?: string
+  /** A short description of the template. */
+  description?: string
+}
+
+/**
+ * A registered LaTeX template.
+ */
+export type RegisteredTemplate = {
+  id: string
+  engine: 'latex'
+  name: string
+  description: string
+  renderer: TemplateRendererClass
+}
+
+const BUILTIN_TEMPLATE_RENDERERS: Record<
+  (typeof LATEX_TEMPLATE_OPTIONS)[number],
+  TemplateRendererClass
+> = {
+  'moderncv-banking': ModerncvBankingRenderer,
+  'moderncv-casual': ModerncvCasualRenderer,
+  'moderncv-classic': ModerncvClassicRenderer,
+  jake: JakeRenderer,
+}
+
+const templateRegistry = new Map<string, RegisteredTemplate>(
+  LATEX_TEMPLATE_OPTIONS.map((template) => [
+    template,
+    {
+      ...getLatexTemplateDetail(template),
+      engine: 'latex',
+      renderer: BUILTIN_TEMPLATE_RENDERERS[template],
+    },
+  ])
+)
+
+/**
+ * Register a LaTeX template so that it can be selected by `layout.template`.
+ *
+ * This allows third party packages to ship their own LaTeX templates without
+ * forking core, e.g:
+ *
+ * ```ts
+ * import { Renderer, registerTemplate } from '@yamlresume/core'
+ *
+ * class AcmeRenderer extends Renderer {
+ *   // ...
+ * }
+ *
+ * registerTemplate('acme', AcmeRenderer, { name: 'Acme' })
+ * ```
+ *
+ * The CLI loads such packages with the `--plugin` option, e.g,
+ * `yamlresume --plugin yamlresume-template-acme build resume.yml`.
+ *
+ * @param name - The template id used in `layout.template`.
+ * @param RendererClass - The renderer class for the template.
+ * @param details - Optional name and description of the template.
+ * @throws {YAMLResumeError} If the template id is empty or already registered.
+ */
+export function registerTemplate(
+  name: string,
+  RendererClass: TemplateRendererClass,
+  details: TemplateDetails = {}
+) {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new YAMLResumeError('INVALID_TEMPLATE_NAME', {})
+  }
+
+  if (templateRegistry.has(name)) {
+    throw new YAMLResumeError('TEMPLATE_CONFLICT', { name })
+  }
+
+  templateRegistry.set(name, {
+    id: name,
+    engine: 'latex',
+    name: details.name ?? name,
+    description: details.description ?? '',
+    renderer: RendererClass,
+  })
+}
+
+/**
+ * Unregister a previously registered LaTeX template.
+ *
+ * Builtin templates cannot be unregistered.
+ *
+ * @param name - The template id to unregister.
+ * @returns `true` if the template was unregistered, `false` otherwise.
+ */
+export function unregisterTemplate(name: string): boolean {
+  if ((LATEX_TEMPLATE_OPTIONS as readonly string[]).includes(name)) {
+    return false
+  }
+
+  return templateRegistry.delete(name)
+}
+
+/**
+ * Get all registered LaTeX templates, builtin ones first, in the order they
+ * were registered.
+ *
+ * @returns The registered templates.
+ */
+export function getRegisteredTemplates(): RegisteredTemplate[] {
+  return Array.from(templateRegistry.values())
+}
+
+/**
+ * Get the ids of all registered LaTeX templates.
+ *
+ * @returns The registered template ids.
+ */
+export function getRegisteredTemplateIds(): string[] {
+  return Array.from(templateRegistry.keys())
+}
+
+/**
+ * Get the renderer class for a registered LaTeX template.
+ *
+ * @param name - The template id.
+ * @returns The renderer class, or `undefined` if the template is unknown.
+ */
+export function getTemplateRenderer(
+  name: string
+): TemplateRendererClass | undefined {
+  return templateRegistry.get(name)?.renderer
+}
+
+// accept registered templates in `layout.template`
+setTemplateOptionsLookup(getRegisteredTemplateIds)
@@ -26,6 +26,9 @@ import { cloneDeep } from 'lodash-es'
 import { describe, expect, it } from 'vitest'
 import type { LatexTemplate, Resume } from '@/models'
 import { DEFAULT_RESUME } from '@/models'
+import { DocxRenderer } from './docx'
+import { HtmlRenderer } from './html'
+import { JakeRenderer } from './latex/jake'
 import {
   ModerncvBankingRenderer,
   ModerncvCasualRenderer,
@@ -33,6 +36,8 @@ import {
 } from './latex/moderncv'
 import { MarkdownRenderer } from './markdown'
 import { getResumeRenderer } from './resume'
+import { PlainTextRenderer } from './text'
+import { TypstRenderer } from './typst'
 
 describe(getResumeRenderer, () => {
   const mockResume: Resume = DEFAULT_RESUME
@@ -52,6 +57,10 @@ describe(getResumeRenderer, () => {
         template: 'moderncv-classic',
         expected: ModerncvClassicRenderer,
       },
+      {
+        template: 'jake',
+        expected: JakeRenderer,
+      },
     ] as const
 
     for (const { template, expected } of tests) {
@@ -103,6 +112,38 @@ describe(getResumeRenderer, () => {
     expect(renderer).toBeInstanceOf(MarkdownRenderer)
   })
 
+  it('should return html renderer when engine is html', () => {
+    const resume = cloneDeep(mockResume)
+    resume.layouts = [{ engine: 'html' }]
+
+    const renderer = getResumeRenderer(resume, layoutIndex)
+    expect(renderer).toBeInstanceOf(HtmlRenderer)
+  })
+
+  it('should return plain text renderer when engine is text', () => {
+    const resume = cloneDeep(mockResume)
+    resume.layouts = [{ engine: 'text' }]
+
+    const renderer = getResumeRenderer(resume, layoutIndex)
+    expect(renderer).toBeInstanceOf(PlainTextRenderer)
+  })
+
+  it('should return typst renderer when engine is typst', () => {
+    const resume = cloneDeep(mockResume)
+    resume.layouts = [{ engine: 'typst' }]
+
+    const renderer = getResumeRenderer(resume, layoutIndex)
+    expect(renderer).toBeInstanceOf(TypstRenderer)
+  })
+
+  it('should return docx renderer when engine is docx', () => {
+    const resume = cloneDeep(mockResume)
+    resume.layouts = [{ engine: 'docx' }]
+
+    const renderer = getResumeRenderer(resume, layoutIndex)
+    expect(renderer).toBeInstanceOf(DocxRenderer)
+  })
+
   it('should throw error when layout is not found', () => {
     const resume = cloneDeep(mockResume)
     resume.layouts = []
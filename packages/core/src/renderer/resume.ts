@@ -22,24 +22,17 @@
  * IN THE SOFTWARE.
  */
 
-import { get } from 'lodash-es'
-
 import type { Parser } from '@/compiler'
 import { MarkdownParser } from '@/compiler'
 import type { Resume } from '@/models'
 import type { Renderer } from './base'
-import {
-  ModerncvBankingRenderer,
-  ModerncvCasualRenderer,
-  ModerncvClassicRenderer,
-} from './latex/moderncv'
+import { DocxRenderer } from './docx'
+import { HtmlRenderer } from './html'
+import { ModerncvBankingRenderer } from './latex/moderncv'
 import { MarkdownRenderer } from './markdown'
-
-const LATEX_RESUME_RENDERER_MAP = {
-  'moderncv-banking': ModerncvBankingRenderer,
-  'moderncv-classic': ModerncvClassicRenderer,
-  'moderncv-casual': ModerncvCasualRenderer,
-}
+import { getTemplateRenderer } from './registry'
+import { PlainTextRenderer } from './text'
+import { TypstRenderer } from './typst'
 
 /**
  * Get the appropriate resume renderer based on the provided resume layout.
@@ -65,23 +58,22 @@ export function getResumeRenderer(
   switch (layout.engine) {
     case 'markdown':
       return new MarkdownRenderer(resume, layoutIndex, summaryParser)
+    case 'html':
+      return new HtmlRenderer(resume, layoutIndex, summaryParser)
+    case 'text':
+      return new PlainTextRenderer(resume, layoutIndex, summaryParser)
+    case 'typst':
+      return new TypstRenderer(resume, layoutIndex, summaryParser)
+    case 'docx':
+      return new DocxRenderer(resume, layoutIndex, summaryParser)
     case 'latex': {
-      const template = layout.template
-
       // default to use moderncv banking style if template is not specified
-      if (!template) {
-        return new ModerncvBankingRenderer(
-          resume as Resume,
-          layoutIndex,
-          summaryParser
-        )
-      }
-
-      return new (get(
-        LATEX_RESUME_RENDERER_MAP,
-        template,
+      // or not registered
+      const TemplateRenderer =
+        (layout.template && getTemplateRenderer(layout.template)) ??
         ModerncvBankingRenderer
-      ))(resume as Resume, layoutIndex, summaryParser)
+
+      return new TemplateRenderer(resume as Resume, layoutIndex, summaryParser)
     }
     default:
       // @ts-ignore
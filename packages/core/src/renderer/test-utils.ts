@@ -25,7 +25,7 @@ import fs from 'node:fs'
 import path from 'node:path'
 import yaml from 'yaml'
 
-import { type Resume, SECTION_IDS } from '@/models'
+import { FILTERABLE_SECTION_IDS, type Resume, SECTION_IDS } from '@/models'
 
 /**
  * Load a resume fixture from the fixtures directory.
@@ -55,3 +55,26 @@ export function getRandomSections(count: number): string[] {
   const shuffled = [...sections].sort(() => 0.5 - Math.random())
   return shuffled.slice(0, count)
 }
+
+/**
+ * Tag all items of the filterable and custom sections of a resume.
+ *
+ * @param resume - The resume to tag, modified in place
+ * @param tags - The tags of the items
+ * @returns The tagged resume
+ */
+export function tagResumeItems(resume: Resume, tags: string[]): Resume {
+  for (const section of FILTERABLE_SECTION_IDS) {
+    resume.content[section]?.forEach((item: { tags?: string[] }) => {
+      item.tags = tags
+    })
+  }
+
+  resume.content.custom?.forEach(({ items }) => {
+    items.forEach((item) => {
+      item.tags = tags
+    })
+  })
+
+  return resume
+}
@@ -0,0 +1,371 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { cloneDeep } from 'lodash-es'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { FILLED_RESUME, type Resume } from '@/models'
+import { PlainTextRenderer } from './renderer'
+
+describe('PlainTextRenderer', () => {
+  let resume: Resume
+  let renderer: PlainTextRenderer
+  const layoutIndex = 0
+
+  beforeEach(() => {
+    resume = cloneDeep(FILLED_RESUME)
+    resume.layouts = [{ engine: 'text' }]
+    renderer = new PlainTextRenderer(resume, layoutIndex)
+  })
+
+  describe('renderPreamble', () => {
+    it('should return empty string for plain text', () => {
+      expect(renderer.renderPreamble()).toBe('')
+    })
+  })
+
+  describe('renderBasics', () => {
+    it('should render basic information with name, headline, and contact info', () => {
+      resume.content.basics = {
+        name: 'Andy Dufresne',
+        headline: 'Headed for the Pacific',
+        email: 'hi@ppresume.com',
+        phone: '(213) 555-9876',
+        url: 'https://ppresume.com/gallery',
+      }
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+
+      expect(renderer.renderBasics()).toBe(
+        [
+          'ANDY DUFRESNE',
+          'Headed for the Pacific',
+          'Email: hi@ppresume.com',
+          'Phone: (213) 555-9876',
+          'URL: https://ppresume.com/gallery',
+        ].join('\n')
+      )
+    })
+
+    it('should handle missing optional fields', () => {
+      resume.content.basics = { name: 'Andy Dufresne' }
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+
+      expect(renderer.renderBasics()).toBe('ANDY DUFRESNE')
+    })
+
+    it('should not escape special characters', () => {
+      resume.content.basics = {
+        name: 'Andy Dufresne',
+        headline: 'R&D <Engineer> 100%',
+      }
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+
+      expect(renderer.renderBasics()).toMatch('R&D <Engineer> 100%')
+    })
+  })
+
+  describe('renderSummary', () => {
+    it('should return empty string when summary is missing', () => {
+      resume.content.basics = { name: 'Test User', summary: undefined }
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+      expect(renderer.renderSummary()).toBe('')
+    })
+
+    it('should render summary without markup under uppercased header', () => {
+      resume.content.basics = {
+        name: 'Test User',
+        summary: '- **Computer Science** major\n- Familiar with *TypeScript*',
+      }
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+
+      expect(renderer.renderSummary()).toBe(
+        [
+          'BASICS',
+          '------',
+          '',
+          '- Computer Science major',
+          '- Familiar with TypeScript',
+        ].join('\n')
+      )
+    })
+
+    it('should wrap lines to the configured line width', () => {
+      resume.layouts = [{ engine: 'text', page: { lineWidth: 40 } }]
+      resume.content.basics = {
+        name: 'Test User',
+        summary: [
+          '- Pixel perfect full stack web developer, specialised in',
+          'creating high-quality, visually appealing websites',
+        ].join(' '),
+      }
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+      const lines = renderer.renderSummary().split('\n')
+
+      for (const line of lines) {
+        expect(line.length).toBeLessThanOrEqual(40)
+      }
+      expect(lines[3]).toBe('- Pixel perfect full stack web')
+      expect(lines[4]).toBe('  developer, specialised in creating')
+    })
+  })
+
+  describe('renderLocation', () => {
+    it('should render full address', () => {
+      resume.content.location = {
+        address: '123 Main St',
+        city: 'Sunnyvale',
+      }
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+
+      expect(renderer.renderLocation()).toMatch(/^123 Main St, Sunnyvale/)
+    })
+  })
+
+  describe('renderProfiles', () => {
+    it('should return empty string when profiles is missing', () => {
+      resume.content.profiles = []
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+      expect(renderer.renderProfiles()).toBe('')
+    })
+
+    it('should render profiles with and without url', () => {
+      resume.content.profiles = [
+        {
+          network: 'GitHub',
+          url: 'https://github.com/yamlresume',
+          username: 'yamlresume',
+        },
+        { network: 'Twitter', username: 'ppresume' },
+      ]
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+
+      expect(renderer.renderProfiles()).toBe(
+        'GitHub: https://github.com/yamlresume\nTwitter: @ppresume'
+      )
+    })
+  })
+
+  describe('renderWork', () => {
+    it('should return empty string when work is missing', () => {
+      resume.content.work = []
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+      expect(renderer.renderWork()).toBe('')
+    })
+
+    it('should render work entries', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          position: 'Software Engineer',
+          startDate: '2020-01-01',
+          endDate: '2022-06-01',
+          url: 'https://ppresume.com',
+          keywords: ['TypeScript', 'React'],
+          summary: 'Built **things**, see [docs](https://yamlresume.dev)',
+        },
+      ]
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+
+      expect(renderer.renderWork()).toBe(
+        [
+          'WORK',
+          '----',
+          '',
+          'Software Engineer, PPResume',
+          'Jan 2020–Jun 2022',
+          'https://ppresume.com',
+          'Keywords: TypeScript, React',
+          'Built things, see docs (https://yamlresume.dev)',
+        ].join('\n')
+      )
+    })
+
+    it('should render highlights as a bullet list', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          position: 'Software Engineer',
+          startDate: '2020-01-01',
+          summary: 'Built things',
+          highlights: ['Shipped **v1**', 'R&D'],
+        },
+      ]
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch('Built things\n- Shipped v1\n- R&D')
+    })
+
+    it('should render positions grouped under the company', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          url: 'https://ppresume.com',
+          positions: [
+            {
+              position: 'Senior Software Engineer',
+              startDate: '2022-01-01',
+              summary: 'Led **things**',
+            },
+            {
+              position: 'Software Engineer',
+              startDate: '2020-01-01',
+              endDate: '2022-01-01',
+              summary: 'Built things',
+            },
+          ],
+        },
+      ]
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch(
+        [
+          'PPResume',
+          'Jan 2020–Present',
+          'https://ppresume.com',
+          'Senior Software Engineer',
+          'Jan 2022–Present',
+          'Led things',
+          'Software Engineer',
+          'Jan 2020–Jan 2022',
+          'Built things',
+        ].join('\n')
+      )
+    })
+  })
+
+  describe('renderSkills', () => {
+    it('should render skills as a list', () => {
+      resume.content.skills = [
+        {
+          name: 'Programming',
+          level: 'Expert',
+          keywords: ['TypeScript', 'Rust'],
+        },
+      ]
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+
+      expect(renderer.renderSkills()).toMatch(
+        '- Programming: Expert, Keywords: TypeScript, Rust'
+      )
+    })
+  })
+
+  describe('renderInterests', () => {
+    it('should render interests as a list', () => {
+      resume.content.interests = [
+        { name: 'Music', keywords: ['Jazz'] },
+        { name: 'Hiking' },
+      ]
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+
+      expect(renderer.renderInterests()).toMatch('- Music: Jazz\n- Hiking')
+    })
+  })
+
+  describe('render', () => {
+    it('should separate header and sections with blank lines', () => {
+      resume.content.basics = {
+        name: 'Andy Dufresne',
+        summary: 'Hope is a good thing',
+      }
+      resume.content.location = { city: 'Zihuatanejo' }
+      resume.content.profiles = []
+      resume.layouts = [{ engine: 'text', sections: { order: ['basics'] } }]
+
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      expect(result).toMatch(
+        /^ANDY DUFRESNE\nZihuatanejo\n\nBASICS\n------\n\nHope is a good thing\n\n/
+      )
+      expect(result).toMatch(/\n$/)
+    })
+  })
+
+  describe('renderCustomSection', () => {
+    beforeEach(() => {
+      resume.content.custom = [
+        {
+          id: 'talks',
+          title: 'Talks',
+          items: [
+            {
+              name: 'Resumes as Code',
+              startDate: '2024-05-01',
+              url: 'https://example.com/talk',
+              keywords: ['YAML', 'LaTeX'],
+              summary: 'A talk about **resumes**',
+            },
+          ],
+        },
+        { id: 'patents', title: 'Patents', items: [] },
+      ]
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+    })
+
+    it('should render items of a custom section', () => {
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('TALKS\n-----\n\nResumes as Code\nMay 2024')
+      expect(result).toMatch('Keywords: YAML, LaTeX')
+      expect(result).toMatch('A talk about resumes')
+    })
+
+    it('should escape the title of a custom section once', () => {
+      resume.content.custom[0].title = 'Open Source & *Community*'
+      renderer = new PlainTextRenderer(resume, layoutIndex)
+
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('OPEN SOURCE & *COMMUNITY*\n')
+    })
+
+    it('should return empty string when a custom section has no items', () => {
+      expect(
+        renderer.renderCustomSection(renderer.resume.content.custom[1])
+      ).toBe('')
+    })
+  })
+})
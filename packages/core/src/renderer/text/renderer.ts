@@ -0,0 +1,721 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type { Parser } from '@/compiler'
+import { MarkdownParser } from '@/compiler'
+import {
+  type CustomSection,
+  DEFAULT_TEXT_LINE_WIDTH,
+  type Resume,
+  type TextLayout,
+  type WorkPositionItem,
+} from '@/models'
+import { transformResume } from '@/preprocess'
+import { getTemplateTranslations } from '@/translations'
+import { isEmptyValue, joinNonEmptyString, showIfNotEmpty } from '@/utils'
+import { Renderer } from '../base'
+import { wrapText } from './wrap'
+
+/**
+ * A single entry in a section, e.g, a work experience or an award.
+ */
+type TextEntry = {
+  /** The title of the entry. */
+  title: string
+  /** The subtitle of the entry. */
+  subtitle?: string
+  /** The date or date range of the entry. */
+  date?: string
+  /** The url related to the entry. */
+  url?: string
+  /** Extra lines rendered after the url, e.g, keywords or courses. */
+  details?: string[]
+  /** The summary of the entry, already converted into plain text. */
+  summary?: string
+  /** The highlights of the entry, already converted into a plain text list. */
+  highlights?: string
+  /** The nested positions of the entry, already rendered into plain text. */
+  positions?: string
+}
+
+/**
+ * Plain text renderer for generating an ATS friendly resume.
+ *
+ * The output is a single-column document without any markup, section headers
+ * are uppercased and all lines are wrapped to the configured line width.
+ */
+export class PlainTextRenderer extends Renderer {
+  /**
+   * Constructor for the PlainTextRenderer class.
+   *
+   * @param resume - The resume object
+   * @param layoutIndex - The index of the selected layout to use.
+   * @param summaryParser - The summary parser used to parse summary field in
+   * various sections.
+   */
+  constructor(
+    resume: Resume,
+    layoutIndex: number,
+    summaryParser: Parser = new MarkdownParser()
+  ) {
+    super(transformResume(resume, layoutIndex, summaryParser), layoutIndex)
+  }
+
+  /**
+   * Get the maximum number of characters per line.
+   */
+  private get lineWidth(): number {
+    const layout = this.resume.layouts?.[this.layoutIndex] as TextLayout
+
+    return layout?.page?.lineWidth ?? DEFAULT_TEXT_LINE_WIDTH
+  }
+
+  /**
+   * Render a section with an uppercased and underlined header.
+   */
+  private renderSection(title: string, body: string): string {
+    const header = title.toUpperCase()
+
+    return `${header}
+${'-'.repeat(header.length)}
+
+${wrapText(body, this.lineWidth)}`
+  }
+
+  /**
+   * Render a single entry of a section.
+   */
+  private renderEntry({
+    title,
+    subtitle,
+    date,
+    url,
+    details = [],
+    summary,
+    highlights,
+    positions,
+  }: TextEntry): string {
+    const {
+      punctuations: { comma },
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    return joinNonEmptyString(
+      [
+        joinNonEmptyString([title ?? '', subtitle ?? ''], comma),
+        date ?? '',
+        url ?? '',
+        ...details,
+        summary ?? '',
+        highlights ?? '',
+        positions ?? '',
+      ],
+      '\n'
+    )
+  }
+
+  /**
+   * Render a labelled line, e.g, `Keywords: React, Vue`.
+   */
+  private renderLabel(label: string, value: string): string {
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(
+      this.resume.locale?.language,
+      this.resume.locale?.overrides
+    )
+
+    return showIfNotEmpty(value, `${label}${colon}${value}`)
+  }
+
+  /**
+   * Render the preamble of the plain text document.
+   *
+   * Please note that plain text output do not need a preamble.
+   *
+   * @returns {string} The preamble of the plain text document.
+   */
+  renderPreamble(): string {
+    return ''
+  }
+
+  /**
+   * Render the basics section of the resume.
+   *
+   * @returns {string} The rendered basics section
+   */
+  renderBasics(): string {
+    const {
+      content: {
+        basics: { name, headline, email, phone, url },
+      },
+    } = this.resume
+
+    return wrapText(
+      joinNonEmptyString(
+        [
+          name?.toUpperCase() ?? '',
+          headline ?? '',
+          this.renderLabel('Email', email),
+          this.renderLabel('Phone', phone),
+          this.renderLabel('URL', url),
+        ],
+        '\n'
+      ),
+      this.lineWidth
+    )
+  }
+
+  /**
+   * Render the summary section of the resume.
+   *
+   * @returns {string} The rendered summary section
+   */
+  renderSummary(): string {
+    const {
+      content: {
+        basics: {
+          computed: { summary },
+        },
+        computed: { sectionNames },
+      },
+    } = this.resume
+
+    return showIfNotEmpty(
+      summary,
+      this.renderSection(sectionNames.basics, summary)
+    )
+  }
+
+  /**
+   * Render the location section of the resume.
+   *
+   * @returns {string} The rendered location section
+   */
+  renderLocation(): string {
+    const {
+      content: {
+        location: {
+          computed: { fullAddress },
+        },
+      },
+    } = this.resume
+
+    return wrapText(fullAddress ?? '', this.lineWidth)
+  }
+
+  /**
+   * Render the profiles section of the resume.
+   *
+   * @returns {string} The rendered profiles section
+   */
+  renderProfiles(): string {
+    const {
+      content: { profiles },
+    } = this.resume
+
+    if (isEmptyValue(profiles)) return ''
+
+    return wrapText(
+      joinNonEmptyString(
+        profiles
+          .filter(({ username }) => !isEmptyValue(username))
+          .map(({ network, url, username }) =>
+            this.renderLabel(network, isEmptyValue(url) ? `@${username}` : url)
+          ),
+        '\n'
+      ),
+      this.lineWidth
+    )
+  }
+
+  /**
+   * Render the education section of the resume.
+   *
+   * @returns {string} The rendered education section
+   */
+  renderEducation(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        education,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(education)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames.education,
+      education
+        .map(
+          ({
+            computed: {
+              courses,
+              dateRange,
+              degreeAreaAndScore,
+              startDate,
+              summary,
+            },
+            institution,
+            url,
+          }) =>
+            this.renderEntry({
+              title: institution,
+              subtitle: degreeAreaAndScore,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [this.renderLabel(terms.courses, courses)],
+              summary,
+            })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the positions held at a company, each with its own dates and
+   * summary.
+   */
+  private renderWorkPositions(positions: WorkPositionItem[] = []): string {
+    return positions
+      .map(({ computed: { dateRange, startDate, summary }, position }) =>
+        this.renderEntry({
+          title: position,
+          date: showIfNotEmpty(startDate, dateRange),
+          summary,
+        })
+      )
+      .join('\n')
+  }
+
+  /**
+   * Render the work section of the resume.
+   *
+   * @returns {string} The rendered work section
+   */
+  renderWork(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        work,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(work)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames.work,
+      work
+        .map(
+          ({
+            computed: { dateRange, highlights, keywords, startDate, summary },
+            name,
+            position,
+            positions,
+            url,
+          }) =>
+            this.renderEntry({
+              // when positions are grouped, the company is the title and each
+              // position is rendered as a nested role below it
+              title: isEmptyValue(positions) ? position : name,
+              subtitle: isEmptyValue(positions) ? name : '',
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [this.renderLabel(terms.keywords, keywords)],
+              summary,
+              highlights,
+              positions: this.renderWorkPositions(positions),
+            })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the languages section of the resume.
+   *
+   * @returns {string} The rendered languages section
+   */
+  renderLanguages(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        languages,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(languages)) return ''
+
+    const {
+      punctuations: { comma },
+      terms,
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      sectionNames.languages,
+      languages
+        .map(
+          ({ computed: { language, fluency, keywords } }) =>
+            `- ${joinNonEmptyString(
+              [
+                this.renderLabel(language, fluency),
+                this.renderLabel(terms.keywords, keywords),
+              ],
+              comma
+            )}`
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the skills section of the resume.
+   *
+   * @returns {string} The rendered skills section
+   */
+  renderSkills(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        skills,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(skills)) return ''
+
+    const {
+      punctuations: { comma },
+      terms,
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      sectionNames.skills,
+      skills
+        .map(
+          ({ name, computed: { level, keywords } }) =>
+            `- ${joinNonEmptyString(
+              [
+                this.renderLabel(name, level),
+                this.renderLabel(terms.keywords, keywords),
+              ],
+              comma
+            )}`
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the awards section of the resume.
+   *
+   * @returns {string} The rendered awards section
+   */
+  renderAwards(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        awards,
+      },
+    } = this.resume
+
+    if (isEmptyValue(awards)) return ''
+
+    return this.renderSection(
+      sectionNames.awards,
+      awards
+        .map(({ computed: { date, summary }, awarder, title }) =>
+          this.renderEntry({ title, subtitle: awarder, date, summary })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the certificates section of the resume.
+   *
+   * @returns {string} The rendered certificates section
+   */
+  renderCertificates(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        certificates,
+      },
+    } = this.resume
+
+    if (isEmptyValue(certificates)) return ''
+
+    return this.renderSection(
+      sectionNames.certificates,
+      certificates
+        .map(({ computed: { date }, issuer, name, url }) =>
+          this.renderEntry({ title: name, subtitle: issuer, date, url })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the publications section of the resume.
+   *
+   * @returns {string} The rendered publications section
+   */
+  renderPublications(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        publications,
+      },
+    } = this.resume
+
+    if (isEmptyValue(publications)) return ''
+
+    return this.renderSection(
+      sectionNames.publications,
+      publications
+        .map(({ computed: { releaseDate, summary }, name, publisher, url }) =>
+          this.renderEntry({
+            title: name,
+            subtitle: publisher,
+            date: releaseDate,
+            url,
+            summary,
+          })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the references section of the resume.
+   *
+   * @returns {string} The rendered references section
+   */
+  renderReferences(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        references,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(references)) return ''
+
+    const {
+      punctuations: { comma },
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      sectionNames.references,
+      references
+        .map(({ computed: { summary }, email, name, phone, relationship }) =>
+          this.renderEntry({
+            title: name,
+            subtitle: relationship,
+            details: [joinNonEmptyString([email ?? '', phone ?? ''], comma)],
+            summary,
+          })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the projects section of the resume.
+   *
+   * @returns {string} The rendered projects section
+   */
+  renderProjects(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        projects,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(projects)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames.projects,
+      projects
+        .map(
+          ({
+            computed: { dateRange, highlights, keywords, startDate, summary },
+            description,
+            name,
+            url,
+          }) =>
+            this.renderEntry({
+              title: name,
+              subtitle: description,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [this.renderLabel(terms.keywords, keywords)],
+              summary,
+              highlights,
+            })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the interests section of the resume.
+   *
+   * @returns {string} The rendered interests section
+   */
+  renderInterests(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        interests,
+      },
+    } = this.resume
+
+    if (isEmptyValue(interests)) return ''
+
+    return this.renderSection(
+      sectionNames.interests,
+      interests
+        .map(({ name, computed: { keywords } }) =>
+          isEmptyValue(keywords)
+            ? `- ${name}`
+            : `- ${this.renderLabel(name, keywords)}`
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the volunteer section of the resume.
+   *
+   * @returns {string} The rendered volunteer section
+   */
+  renderVolunteer(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        volunteer,
+      },
+    } = this.resume
+
+    if (isEmptyValue(volunteer)) return ''
+
+    return this.renderSection(
+      sectionNames.volunteer,
+      volunteer
+        .map(
+          ({
+            computed: { dateRange, highlights, startDate, summary },
+            organization,
+            position,
+            url,
+          }) =>
+            this.renderEntry({
+              title: organization,
+              subtitle: position,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              summary,
+              highlights,
+            })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render a custom section of the resume.
+   *
+   * @param section - The custom section to render.
+   * @returns {string} The rendered custom section
+   */
+  renderCustomSection({ id, items }: CustomSection): string {
+    const {
+      content: {
+        computed: { sectionNames },
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(items)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames[id],
+      items
+        .map(({ computed: { dateRange, keywords, summary }, name, url }) =>
+          this.renderEntry({
+            title: name,
+            date: dateRange,
+            url,
+            details: [this.renderLabel(terms.keywords, keywords)],
+            summary,
+          })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the complete plain text resume.
+   *
+   * @returns {string} The rendered plain text resume
+   */
+  render(): string {
+    const header = joinNonEmptyString(
+      [this.renderBasics(), this.renderLocation(), this.renderProfiles()],
+      '\n'
+    )
+
+    return `${joinNonEmptyString([header, this.renderOrderedSections()])}\n`
+  }
+}
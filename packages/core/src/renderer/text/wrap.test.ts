@@ -0,0 +1,69 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { wrapText } from './wrap'
+
+describe(wrapText, () => {
+  it('should keep lines that fit into the width', () => {
+    expect(wrapText('Hello world', 20)).toBe('Hello world')
+    expect(wrapText('Hello\n\nworld', 5)).toBe('Hello\n\nworld')
+  })
+
+  it('should wrap long lines at word boundaries', () => {
+    expect(wrapText('The quick brown fox jumps over the lazy dog', 15)).toBe(
+      'The quick brown\nfox jumps over\nthe lazy dog'
+    )
+  })
+
+  it('should indent continuation lines of list items', () => {
+    const tests = [
+      {
+        text: '- The quick brown fox jumps over the lazy dog',
+        expected: '- The quick brown\n  fox jumps over\n  the lazy dog',
+      },
+      {
+        text: '10. The quick brown fox jumps over the lazy dog',
+        expected:
+          '10. The quick\n    brown fox\n    jumps over\n    the lazy dog',
+      },
+      {
+        text: '  - The quick brown fox jumps over the lazy dog',
+        expected:
+          '  - The quick\n    brown fox\n    jumps over\n    the lazy dog',
+      },
+    ]
+
+    for (const { text, expected } of tests) {
+      expect(wrapText(text, 17)).toBe(expected)
+    }
+  })
+
+  it('should not break words longer than the width', () => {
+    expect(wrapText('see https://yamlresume.dev/docs for details', 10)).toBe(
+      'see\nhttps://yamlresume.dev/docs\nfor\ndetails'
+    )
+  })
+})
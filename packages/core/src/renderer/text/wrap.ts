@@ -0,0 +1,82 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+/**
+ * Matches the leading indentation and list marker of a line, e.g, `- ` or
+ * `  12. `.
+ */
+const LIST_MARKER_PATTERN = /^(\s*)((?:[-*]|\d+\.)\s+)?/
+
+/**
+ * Wrap a single line at word boundaries so that it fits into the given width.
+ *
+ * Continuation lines are indented to line up with the text after the leading
+ * indentation and list marker, so wrapped bullet points stay readable. Words
+ * longer than the width, e.g, long urls, are never broken.
+ *
+ * @param line - The line to wrap.
+ * @param width - The maximum number of characters per line.
+ * @returns The wrapped lines joined by newlines.
+ */
+function wrapLine(line: string, width: number): string {
+  if (line.length <= width) {
+    return line
+  }
+
+  const [prefix] = line.match(LIST_MARKER_PATTERN) ?? ['']
+  const hangingIndent = ' '.repeat(prefix.length)
+  const words = line.slice(prefix.length).split(/\s+/).filter(Boolean)
+
+  const lines: string[] = []
+  let current = prefix
+
+  for (const word of words) {
+    if (current === prefix) {
+      current = `${current}${word}`
+    } else if (current.length + 1 + word.length <= width) {
+      current = `${current} ${word}`
+    } else {
+      lines.push(current)
+      current = `${hangingIndent}${word}`
+    }
+  }
+
+  lines.push(current)
+
+  return lines.join('\n')
+}
+
+/**
+ * Wrap a multi-line text so that every line fits into the given width.
+ *
+ * @param text - The text to wrap.
+ * @param width - The maximum number of characters per line.
+ * @returns The wrapped text.
+ */
+export function wrapText(text: string, width: number): string {
+  return text
+    .split('\n')
+    .map((line) => wrapLine(line, width))
+    .join('\n')
+}
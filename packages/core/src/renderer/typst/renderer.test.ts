@@ -0,0 +1,359 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { cloneDeep } from 'lodash-es'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { FILLED_RESUME, type Resume } from '@/models'
+import { TypstRenderer } from './renderer'
+
+describe('TypstRenderer', () => {
+  let resume: Resume
+  let renderer: TypstRenderer
+  const layoutIndex = 0
+
+  beforeEach(() => {
+    resume = cloneDeep(FILLED_RESUME)
+    resume.layouts = [{ engine: 'typst' }]
+    renderer = new TypstRenderer(resume, layoutIndex)
+  })
+
+  describe('renderPreamble', () => {
+    it('should render page and text settings with default values', () => {
+      const result = renderer.renderPreamble()
+
+      expect(result).toMatch(
+        '  margin: (top: 2.5cm, bottom: 2.5cm, left: 1.5cm, right: 1.5cm),'
+      )
+      expect(result).toMatch('  numbering: none,')
+      expect(result).toMatch('#set text(size: 10pt, lang: "en")')
+      expect(result).toMatch('#let resume-link(url, body) = link(url, body)')
+      expect(result).toMatch('#let resume-entry(')
+    })
+
+    it('should respect margins, font size, page numbers and links', () => {
+      resume.layouts = [
+        {
+          engine: 'typst',
+          page: {
+            margins: { top: '1in', left: '20pt' },
+            showPageNumbers: true,
+          },
+          typography: { fontSize: '12pt', links: { underline: true } },
+        },
+      ]
+      resume.locale = { language: 'zh-hans' }
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+      const result = renderer.renderPreamble()
+
+      expect(result).toMatch(
+        '  margin: (top: 1in, bottom: 2.5cm, left: 20pt, right: 1.5cm),'
+      )
+      expect(result).toMatch('  numbering: "1",')
+      expect(result).toMatch('#set text(size: 12pt, lang: "zh")')
+      expect(result).toMatch(
+        '#let resume-link(url, body) = underline(link(url, body))'
+      )
+      expect(result).toMatch('[#"："#value]')
+    })
+
+    it('should set the document title', () => {
+      resume.content.basics = { name: 'Andy "Red" Dufresne' }
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+
+      expect(renderer.renderPreamble()).toMatch(
+        '#set document(title: "Andy \\"Red\\" Dufresne")'
+      )
+    })
+  })
+
+  describe('renderBasics', () => {
+    it('should render name, headline, and contact info', () => {
+      resume.content.basics = {
+        name: 'Andy Dufresne',
+        headline: 'Headed for the Pacific',
+        email: 'hi@ppresume.com',
+        phone: '(213) 555-9876',
+        url: 'https://ppresume.com/gallery',
+      }
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+
+      expect(renderer.renderBasics()).toBe(
+        [
+          '#text(size: 2em, weight: "bold", "Andy Dufresne") \\',
+          '#emph("Headed for the Pacific") \\',
+          [
+            '#resume-link("mailto:hi@ppresume.com", "hi@ppresume.com")',
+            '#resume-link("tel:(213) 555-9876", "(213) 555-9876")',
+            '#resume-link("https://ppresume.com/gallery", "https://ppresume.com/gallery")',
+          ].join(' | '),
+        ].join('\n')
+      )
+    })
+
+    it('should handle missing optional fields', () => {
+      resume.content.basics = { name: 'Andy Dufresne' }
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+
+      expect(renderer.renderBasics()).toBe(
+        '#text(size: 2em, weight: "bold", "Andy Dufresne")'
+      )
+    })
+  })
+
+  describe('renderProfiles', () => {
+    it('should render profiles with and without urls', () => {
+      resume.content.profiles = [
+        {
+          network: 'GitHub',
+          username: 'andy',
+          url: 'https://github.com/andy',
+        },
+        { network: 'Line', username: 'andy' },
+      ]
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+
+      expect(renderer.renderProfiles()).toBe(
+        '#"GitHub: "#resume-link("https://github.com/andy", "@andy") | #"Line: @andy"'
+      )
+    })
+
+    it('should return empty string without profiles', () => {
+      resume.content.profiles = []
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+
+      expect(renderer.renderProfiles()).toBe('')
+    })
+  })
+
+  describe('renderWork', () => {
+    it('should render work entries with keywords and summary', () => {
+      resume.content.work = [
+        {
+          name: 'Shawshank',
+          position: 'Accountant',
+          startDate: '1947-01-01',
+          endDate: '1966-01-01',
+          keywords: ['Banking', 'Taxes'],
+          url: 'https://shawshank.com',
+          summary: '- Built a **library**',
+        },
+      ]
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+
+      expect(renderer.renderWork()).toBe(`#heading("Work")
+
+#resume-entry(
+  title: "Accountant",
+  subtitle: "Shawshank",
+  date: "Jan 1947–Jan 1966",
+  url: "https://shawshank.com",
+)[
+#resume-item("Keywords", "Banking, Taxes")
+
+- Built a #strong[library]
+]`)
+    })
+
+    it('should return empty string without work', () => {
+      resume.content.work = []
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+
+      expect(renderer.renderWork()).toBe('')
+    })
+
+    it('should render highlights as a bullet list', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          position: 'Software Engineer',
+          startDate: '2020-01-01',
+          summary: 'Built things',
+          highlights: ['Shipped **v1**', 'R&D'],
+        },
+      ]
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch('Built things\n\n- Shipped #strong[v1]\n- R&D\n]')
+    })
+
+    it('should render positions grouped under the company', () => {
+      resume.content.work = [
+        {
+          name: 'PPResume',
+          url: 'https://ppresume.com',
+          positions: [
+            {
+              position: 'Senior Software Engineer',
+              startDate: '2022-01-01',
+              summary: 'Led **things**',
+            },
+            {
+              position: 'Software Engineer',
+              startDate: '2020-01-01',
+              endDate: '2022-01-01',
+              summary: 'Built things',
+            },
+          ],
+        },
+      ]
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+      const result = renderer.renderWork()
+
+      expect(result).toMatch(
+        [
+          '#resume-entry(',
+          '  title: "PPResume",',
+          '  date: "Jan 2020–Present",',
+          '  url: "https://ppresume.com",',
+          ')[',
+          '#resume-entry(',
+          '  title: "Senior Software Engineer",',
+          '  date: "Jan 2022–Present",',
+          ')[',
+          'Led #strong[things]',
+        ].join('\n')
+      )
+      expect(result).toMatch('  title: "Software Engineer",')
+    })
+  })
+
+  describe('renderSkills', () => {
+    it('should render skills as a list of labelled items', () => {
+      resume.content.skills = [
+        { name: 'Programming', level: 'Expert', keywords: ['Rust'] },
+      ]
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+
+      expect(renderer.renderSkills()).toBe(`#heading("Skills")
+
+- #resume-item("Programming", "Expert, Keywords: Rust")`)
+    })
+  })
+
+  describe('render', () => {
+    it('should respect section order and aliases', () => {
+      resume.layouts = [
+        {
+          engine: 'typst',
+          sections: {
+            aliases: { work: 'Experience "So Far"' },
+            order: ['work', 'education'],
+          },
+        },
+      ]
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      const work = result.indexOf('#heading("Experience \\"So Far\\"")')
+      const education = result.indexOf('#heading("Education")')
+      const skills = result.indexOf('#heading("Skills")')
+
+      expect(work).toBeGreaterThan(-1)
+      expect(work).toBeLessThan(education)
+      expect(education).toBeLessThan(skills)
+    })
+
+    it('should escape resume values', () => {
+      resume.content.basics.headline = 'C:\\ "quoted"'
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+
+      expect(renderer.render()).toMatch('#emph("C:\\\\ \\"quoted\\"")')
+    })
+
+    it('should render the header in a centered block', () => {
+      resume.content.basics.name = 'Andy Dufresne'
+
+      renderer = new TypstRenderer(resume, layoutIndex)
+      const result = renderer.render()
+
+      expect(result).toMatch(/^#align\(center\)\[$/m)
+      expect(result.endsWith('\n')).toBe(true)
+    })
+  })
+
+  describe('renderCustomSection', () => {
+    beforeEach(() => {
+      resume.content.custom = [
+        {
+          id: 'talks',
+          title: 'Talks',
+          items: [
+            {
+              name: 'Resumes as Code',
+              startDate: '2024-05-01',
+              url: 'https://example.com/talk',
+              keywords: ['YAML', 'LaTeX'],
+              summary: 'A talk about **resumes**',
+            },
+          ],
+        },
+        { id: 'patents', title: 'Patents', items: [] },
+      ]
+      renderer = new TypstRenderer(resume, layoutIndex)
+    })
+
+    it('should render items of a custom section', () => {
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('#heading("Talks")')
+      expect(result).toMatch('title: "Resumes as Code",\n  date: "May 2024",')
+      expect(result).toMatch('#resume-item("Keywords", "YAML, LaTeX")')
+      expect(result).toMatch('A talk about #strong[resumes]')
+    })
+
+    it('should escape the title of a custom section once', () => {
+      resume.content.custom[0].title = 'Open Source & *Community*'
+      renderer = new TypstRenderer(resume, layoutIndex)
+
+      const result = renderer.renderCustomSection(
+        renderer.resume.content.custom[0]
+      )
+
+      expect(result).toMatch('#heading("Open Source & *Community*")')
+    })
+
+    it('should return empty string when a custom section has no items', () => {
+      expect(
+        renderer.renderCustomSection(renderer.resume.content.custom[1])
+      ).toBe('')
+    })
+  })
+})
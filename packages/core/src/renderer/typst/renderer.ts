@@ -0,0 +1,852 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type { Parser } from '@/compiler'
+import { MarkdownParser } from '@/compiler'
+import type {
+  CustomSection,
+  Resume,
+  TypstLayout,
+  WorkPositionItem,
+} from '@/models'
+import { transformResume } from '@/preprocess'
+import { getTemplateTranslations } from '@/translations'
+import {
+  escapeTypstString,
+  isEmptyValue,
+  joinNonEmptyString,
+  showIf,
+  showIfNotEmpty,
+} from '@/utils'
+import { Renderer } from '../base'
+
+/**
+ * A single entry in a section, e.g, a work experience or an award.
+ */
+type TypstEntry = {
+  /** The title of the entry. */
+  title: string
+  /** The subtitle of the entry. */
+  subtitle?: string
+  /** The date or date range of the entry. */
+  date?: string
+  /** The url related to the entry. */
+  url?: string
+  /** Extra lines rendered before the summary, e.g, keywords or courses. */
+  details?: string[]
+  /** The summary of the entry, already converted into Typst markup. */
+  summary?: string
+  /** The highlights of the entry, already converted into a Typst markup list. */
+  highlights?: string
+  /** The nested positions of the entry, already rendered into Typst markup. */
+  positions?: string
+}
+
+/**
+ * Typst renderer for generating a resume which can be compiled to PDF by the
+ * `typst` CLI.
+ *
+ * All resume values are embedded as Typst string literals, while summaries are
+ * embedded as Typst markup.
+ */
+export class TypstRenderer extends Renderer {
+  /**
+   * Constructor for the TypstRenderer class.
+   *
+   * @param resume - The resume object
+   * @param layoutIndex - The index of the selected layout to use.
+   * @param summaryParser - The summary parser used to parse summary field in
+   * various sections.
+   */
+  constructor(
+    resume: Resume,
+    layoutIndex: number,
+    summaryParser: Parser = new MarkdownParser()
+  ) {
+    super(transformResume(resume, layoutIndex, summaryParser), layoutIndex)
+  }
+
+  /**
+   * Get the typst layout selected for this renderer.
+   */
+  private get layout(): TypstLayout | undefined {
+    return this.resume.layouts?.[this.layoutIndex] as TypstLayout
+  }
+
+  /**
+   * Render a section with a heading and its body.
+   *
+   * Section names are not escaped by `transformResume`, so we escape them here.
+   */
+  private renderSection(title: string, body: string): string {
+    return `#heading("${escapeTypstString(title)}")
+
+${body}`
+  }
+
+  /**
+   * Render a link, the `resume-link` function is defined in the preamble.
+   */
+  private renderLink(url: string, text: string): string {
+    return `#resume-link("${url}", "${text}")`
+  }
+
+  /**
+   * Render a labelled item, the `resume-item` function is defined in the
+   * preamble.
+   */
+  private renderItem(label: string, value = ''): string {
+    return `#resume-item("${label}", "${value}")`
+  }
+
+  /**
+   * Render a single entry of a section, the `resume-entry` function is defined
+   * in the preamble.
+   */
+  private renderEntry({
+    title,
+    subtitle,
+    date,
+    url,
+    details = [],
+    summary,
+    highlights,
+    positions,
+  }: TypstEntry): string {
+    const args = joinNonEmptyString(
+      [
+        `  title: "${title ?? ''}",`,
+        showIfNotEmpty(subtitle, `  subtitle: "${subtitle}",`),
+        showIfNotEmpty(date, `  date: "${date}",`),
+        showIfNotEmpty(url, `  url: "${url}",`),
+      ],
+      '\n'
+    )
+
+    const body = joinNonEmptyString(
+      [joinNonEmptyString(details, ' \\\n'), summary, highlights, positions],
+      '\n\n'
+    )
+
+    return `#resume-entry(
+${args}
+)[${showIfNotEmpty(body, `\n${body}\n`)}]`
+  }
+
+  /**
+   * Render the preamble of the typst document, including page settings and
+   * the helper functions used by the other parts of the document.
+   *
+   * @returns {string} The preamble of the typst document.
+   */
+  renderPreamble(): string {
+    const {
+      content: {
+        basics: { name },
+      },
+      locale,
+    } = this.resume
+
+    const { page, typography } = this.layout ?? {}
+    const { top, bottom, left, right } = page?.margins ?? {}
+
+    const margins = joinNonEmptyString(
+      [
+        showIfNotEmpty(top, `top: ${top}`),
+        showIfNotEmpty(bottom, `bottom: ${bottom}`),
+        showIfNotEmpty(left, `left: ${left}`),
+        showIfNotEmpty(right, `right: ${right}`),
+      ],
+      ', '
+    )
+
+    const textSettings = joinNonEmptyString(
+      [
+        showIfNotEmpty(typography?.fontSize, `size: ${typography?.fontSize}`),
+        showIfNotEmpty(
+          locale?.language,
+          `lang: "${locale?.language?.split('-')[0]}"`
+        ),
+      ],
+      ', '
+    )
+
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    const link = typography?.links?.underline
+      ? 'underline(link(url, body))'
+      : 'link(url, body)'
+
+    return joinNonEmptyString([
+      joinNonEmptyString(
+        [
+          showIfNotEmpty(name, `#set document(title: "${name}")`),
+          `#set page(
+${showIfNotEmpty(margins, `  margin: (${margins}),\n`)}  numbering: ${page?.showPageNumbers ? '"1"' : 'none'},
+)`,
+          showIfNotEmpty(textSettings, `#set text(${textSettings})`),
+          '#set par(justify: true)',
+        ],
+        '\n'
+      ),
+      `#show heading: it => block(above: 1.2em, below: 0.8em, width: 100%)[
+  #text(size: 1.2em, weight: "bold", it.body)
+  #v(-0.6em)
+  #line(length: 100%, stroke: 0.5pt)
+]`,
+      `#let resume-link(url, body) = ${link}`,
+      `#let resume-item(label, value) = [#strong(label)#if value != "" [#"${escapeTypstString(colon)}"#value]]`,
+      `#let resume-entry(
+  title: "",
+  subtitle: "",
+  date: "",
+  url: "",
+  body,
+) = block(above: 1em, below: 1em, width: 100%)[
+  #grid(
+    columns: (1fr, auto),
+    column-gutter: 1em,
+    row-gutter: 0.6em,
+    strong(title), date,
+    emph(subtitle), if url != "" { resume-link(url, url) } else { [] },
+  )
+  #body
+]`,
+    ])
+  }
+
+  /**
+   * Render the basics section of the resume.
+   *
+   * @returns {string} The rendered basics section
+   */
+  renderBasics(): string {
+    const {
+      content: {
+        basics: { name, headline, email, phone, url },
+      },
+    } = this.resume
+
+    const contactInfo = joinNonEmptyString(
+      [
+        showIfNotEmpty(email, this.renderLink(`mailto:${email}`, email)),
+        showIfNotEmpty(phone, this.renderLink(`tel:${phone}`, phone)),
+        showIfNotEmpty(url, this.renderLink(url, url)),
+      ],
+      ' | '
+    )
+
+    return joinNonEmptyString(
+      [
+        showIfNotEmpty(name, `#text(size: 2em, weight: "bold", "${name}")`),
+        showIfNotEmpty(headline, `#emph("${headline}")`),
+        contactInfo,
+      ],
+      ' \\\n'
+    )
+  }
+
+  /**
+   * Render the summary section of the resume.
+   *
+   * @returns {string} The rendered summary section
+   */
+  renderSummary(): string {
+    const {
+      content: {
+        basics: {
+          computed: { summary },
+        },
+        computed: { sectionNames },
+      },
+    } = this.resume
+
+    return showIfNotEmpty(
+      summary,
+      this.renderSection(sectionNames.basics, summary)
+    )
+  }
+
+  /**
+   * Render the location section of the resume.
+   *
+   * @returns {string} The rendered location section
+   */
+  renderLocation(): string {
+    const {
+      content: {
+        location: {
+          computed: { fullAddress },
+        },
+      },
+    } = this.resume
+
+    return showIfNotEmpty(fullAddress, `#"${fullAddress}"`)
+  }
+
+  /**
+   * Render the profiles section of the resume.
+   *
+   * @returns {string} The rendered profiles section
+   */
+  renderProfiles(): string {
+    const {
+      content: { profiles },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(profiles)) return ''
+
+    const {
+      punctuations: { colon },
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return profiles
+      .filter(({ username }) => !isEmptyValue(username))
+      .map(({ network, url, username }) => {
+        if (isEmptyValue(url)) {
+          return `#"${network}${colon}@${username}"`
+        }
+
+        return `#"${network}${colon}"${this.renderLink(url, `@${username}`)}`
+      })
+      .join(' | ')
+  }
+
+  /**
+   * Render the education section of the resume.
+   *
+   * @returns {string} The rendered education section
+   */
+  renderEducation(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        education,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(education)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames.education,
+      education
+        .map(
+          ({
+            computed: {
+              courses,
+              dateRange,
+              degreeAreaAndScore,
+              startDate,
+              summary,
+            },
+            institution,
+            url,
+          }) =>
+            this.renderEntry({
+              title: institution,
+              subtitle: degreeAreaAndScore,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [
+                showIfNotEmpty(
+                  courses,
+                  this.renderItem(terms.courses, courses)
+                ),
+              ],
+              summary,
+            })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the positions held at a company as nested entries, each with its
+   * own dates and summary.
+   */
+  private renderWorkPositions(positions: WorkPositionItem[] = []): string {
+    return positions
+      .map(({ computed: { dateRange, startDate, summary }, position }) =>
+        this.renderEntry({
+          title: position,
+          date: showIfNotEmpty(startDate, dateRange),
+          summary,
+        })
+      )
+      .join('\n\n')
+  }
+
+  /**
+   * Render the work section of the resume.
+   *
+   * @returns {string} The rendered work section
+   */
+  renderWork(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        work,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(work)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames.work,
+      work
+        .map(
+          ({
+            computed: { dateRange, highlights, keywords, startDate, summary },
+            name,
+            position,
+            positions,
+            url,
+          }) =>
+            this.renderEntry({
+              // when positions are grouped, the company is the title and each
+              // position is rendered as a nested role below it
+              title: isEmptyValue(positions) ? position : name,
+              subtitle: isEmptyValue(positions) ? name : '',
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [
+                showIfNotEmpty(
+                  keywords,
+                  this.renderItem(terms.keywords, keywords)
+                ),
+              ],
+              summary,
+              highlights,
+              positions: this.renderWorkPositions(positions),
+            })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the languages section of the resume.
+   *
+   * @returns {string} The rendered languages section
+   */
+  renderLanguages(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        languages,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(languages)) return ''
+
+    const {
+      punctuations: { colon, comma },
+      terms,
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      sectionNames.languages,
+      languages
+        .map(
+          ({ computed: { language, fluency, keywords } }) =>
+            `- ${this.renderItem(
+              language,
+              joinNonEmptyString(
+                [
+                  fluency,
+                  showIfNotEmpty(
+                    keywords,
+                    `${terms.keywords}${colon}${keywords}`
+                  ),
+                ],
+                comma
+              )
+            )}`
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the skills section of the resume.
+   *
+   * @returns {string} The rendered skills section
+   */
+  renderSkills(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        skills,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(skills)) return ''
+
+    const {
+      punctuations: { colon, comma },
+      terms,
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      sectionNames.skills,
+      skills
+        .map(
+          ({ name, computed: { level, keywords } }) =>
+            `- ${this.renderItem(
+              name,
+              joinNonEmptyString(
+                [
+                  level,
+                  showIfNotEmpty(
+                    keywords,
+                    `${terms.keywords}${colon}${keywords}`
+                  ),
+                ],
+                comma
+              )
+            )}`
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the awards section of the resume.
+   *
+   * @returns {string} The rendered awards section
+   */
+  renderAwards(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        awards,
+      },
+    } = this.resume
+
+    if (isEmptyValue(awards)) return ''
+
+    return this.renderSection(
+      sectionNames.awards,
+      awards
+        .map(({ computed: { date, summary }, awarder, title }) =>
+          this.renderEntry({ title, subtitle: awarder, date, summary })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the certificates section of the resume.
+   *
+   * @returns {string} The rendered certificates section
+   */
+  renderCertificates(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        certificates,
+      },
+    } = this.resume
+
+    if (isEmptyValue(certificates)) return ''
+
+    return this.renderSection(
+      sectionNames.certificates,
+      certificates
+        .map(({ computed: { date }, issuer, name, url }) =>
+          this.renderEntry({ title: name, subtitle: issuer, date, url })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the publications section of the resume.
+   *
+   * @returns {string} The rendered publications section
+   */
+  renderPublications(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        publications,
+      },
+    } = this.resume
+
+    if (isEmptyValue(publications)) return ''
+
+    return this.renderSection(
+      sectionNames.publications,
+      publications
+        .map(({ computed: { releaseDate, summary }, name, publisher, url }) =>
+          this.renderEntry({
+            title: name,
+            subtitle: publisher,
+            date: releaseDate,
+            url,
+            summary,
+          })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the references section of the resume.
+   *
+   * @returns {string} The rendered references section
+   */
+  renderReferences(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        references,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(references)) return ''
+
+    const {
+      punctuations: { comma },
+    } = getTemplateTranslations(locale?.language, locale?.overrides)
+
+    return this.renderSection(
+      sectionNames.references,
+      references
+        .map(({ computed: { summary }, email, name, phone, relationship }) =>
+          this.renderEntry({
+            title: name,
+            subtitle: relationship,
+            details: [
+              joinNonEmptyString(
+                [
+                  showIfNotEmpty(
+                    email,
+                    this.renderLink(`mailto:${email}`, email)
+                  ),
+                  showIfNotEmpty(phone, this.renderLink(`tel:${phone}`, phone)),
+                ],
+                `#"${comma}"`
+              ),
+            ],
+            summary,
+          })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the projects section of the resume.
+   *
+   * @returns {string} The rendered projects section
+   */
+  renderProjects(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        projects,
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(projects)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames.projects,
+      projects
+        .map(
+          ({
+            computed: { dateRange, highlights, keywords, startDate, summary },
+            description,
+            name,
+            url,
+          }) =>
+            this.renderEntry({
+              title: name,
+              subtitle: description,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              details: [
+                showIfNotEmpty(
+                  keywords,
+                  this.renderItem(terms.keywords, keywords)
+                ),
+              ],
+              summary,
+              highlights,
+            })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the interests section of the resume.
+   *
+   * @returns {string} The rendered interests section
+   */
+  renderInterests(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        interests,
+      },
+    } = this.resume
+
+    if (isEmptyValue(interests)) return ''
+
+    return this.renderSection(
+      sectionNames.interests,
+      interests
+        .map(
+          ({ name, computed: { keywords } }) =>
+            `- ${this.renderItem(name, keywords)}`
+        )
+        .join('\n')
+    )
+  }
+
+  /**
+   * Render the volunteer section of the resume.
+   *
+   * @returns {string} The rendered volunteer section
+   */
+  renderVolunteer(): string {
+    const {
+      content: {
+        computed: { sectionNames },
+        volunteer,
+      },
+    } = this.resume
+
+    if (isEmptyValue(volunteer)) return ''
+
+    return this.renderSection(
+      sectionNames.volunteer,
+      volunteer
+        .map(
+          ({
+            computed: { dateRange, highlights, startDate, summary },
+            organization,
+            position,
+            url,
+          }) =>
+            this.renderEntry({
+              title: organization,
+              subtitle: position,
+              date: showIfNotEmpty(startDate, dateRange),
+              url,
+              summary,
+              highlights,
+            })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render a custom section of the resume.
+   *
+   * @param section - The custom section to render.
+   * @returns {string} The rendered custom section
+   */
+  renderCustomSection({ id, items }: CustomSection): string {
+    const {
+      content: {
+        computed: { sectionNames },
+      },
+      locale,
+    } = this.resume
+
+    if (isEmptyValue(items)) return ''
+
+    const { terms } = getTemplateTranslations(
+      locale?.language,
+      locale?.overrides
+    )
+
+    return this.renderSection(
+      sectionNames[id],
+      items
+        .map(({ computed: { dateRange, keywords, summary }, name, url }) =>
+          this.renderEntry({
+            title: name,
+            date: dateRange,
+            url,
+            details: [
+              showIfNotEmpty(
+                keywords,
+                this.renderItem(terms.keywords, keywords)
+              ),
+            ],
+            summary,
+          })
+        )
+        .join('\n\n')
+    )
+  }
+
+  /**
+   * Render the complete typst resume.
+   *
+   * @returns {string} The rendered typst resume
+   */
+  render(): string {
+    const header = joinNonEmptyString(
+      [this.renderBasics(), this.renderLocation(), this.renderProfiles()],
+      ' \\\n'
+    )
+
+    return `${joinNonEmptyString([
+      this.renderPreamble(),
+      showIf(!isEmptyValue(header), `#align(center)[\n${header}\n]`),
+      this.renderOrderedSections(),
+    ])}
+`
+  }
+}
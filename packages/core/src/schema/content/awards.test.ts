@@ -113,7 +113,10 @@ describe('AwardsSchema', () => {
                   errors: [],
                   properties: {
                     awarder: {
-                      errors: ['awarder is required.'],
+                      errors: [
+                        'awarder is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -143,7 +146,10 @@ describe('AwardsSchema', () => {
                   errors: [],
                   properties: {
                     title: {
-                      errors: ['title is required.'],
+                      errors: [
+                        'title is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -232,10 +238,16 @@ describe('AwardsSchema', () => {
                   errors: [],
                   properties: {
                     awarder: {
-                      errors: ['awarder is required.'],
+                      errors: [
+                        'awarder is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                     title: {
-                      errors: ['title is required.'],
+                      errors: [
+                        'title is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -29,6 +29,7 @@ import {
   NameSchema,
   OrganizationSchema,
   SummarySchema,
+  TagsSchema,
 } from '../primitives'
 import { nullifySchema } from '../utils'
 
@@ -61,6 +62,7 @@ export const AwardItemSchema = z.object({
   // optional fields
   date: nullifySchema(DateSchema('date')),
   summary: nullifySchema(SummarySchema),
+  tags: nullifySchema(TagsSchema),
 })
 
 /**
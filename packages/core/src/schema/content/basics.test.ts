@@ -118,7 +118,10 @@ describe('BasicsSchema', () => {
               errors: [],
               properties: {
                 name: {
-                  errors: ['name is required.'],
+                  errors: [
+                    'name is required.',
+                    'Invalid input: expected record, received undefined',
+                  ],
                 },
               },
             },
@@ -26,6 +26,7 @@ import { z } from 'zod'
 import { joinNonEmptyString } from '@/utils'
 import {
   EmailSchema,
+  LocalizedSchema,
   NameSchema,
   PhoneSchema,
   SizedStringSchema,
@@ -37,15 +38,17 @@ import { nullifySchema } from '../utils'
 /**
  * A zod schema for a headline.
  */
-export const HeadlineSchema = SizedStringSchema('headline', 2, 128).meta({
-  title: 'Headline',
-  description: 'A short and catchy headline for your resume.',
-  examples: [
-    'Full-stack software engineer',
-    'Data Scientist with a passion for Machine Learning',
-    'Product Manager driving innovation',
-  ],
-})
+export const HeadlineSchema = LocalizedSchema(
+  SizedStringSchema('headline', 2, 128).meta({
+    title: 'Headline',
+    description: 'A short and catchy headline for your resume.',
+    examples: [
+      'Full-stack software engineer',
+      'Data Scientist with a passion for Machine Learning',
+      'Product Manager driving innovation',
+    ],
+  })
+)
 
 /**
  * A zod schema for a basics item.
@@ -112,7 +112,10 @@ describe('CertificatesSchema', () => {
                   errors: [],
                   properties: {
                     issuer: {
-                      errors: ['issuer is required.'],
+                      errors: [
+                        'issuer is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -142,7 +145,10 @@ describe('CertificatesSchema', () => {
                   errors: [],
                   properties: {
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -231,10 +237,16 @@ describe('CertificatesSchema', () => {
                   errors: [],
                   properties: {
                     issuer: {
-                      errors: ['issuer is required.'],
+                      errors: [
+                        'issuer is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -28,6 +28,7 @@ import {
   DateSchema,
   NameSchema,
   OrganizationSchema,
+  TagsSchema,
   UrlSchema,
 } from '../primitives'
 import { nullifySchema } from '../utils'
@@ -51,6 +52,7 @@ export const CertificateItemSchema = z.object({
 
   // optional fields
   date: nullifySchema(DateSchema('date')),
+  tags: nullifySchema(TagsSchema),
   url: nullifySchema(UrlSchema),
 })
 
@@ -123,7 +123,10 @@ describe('ContentSchema', () => {
                       errors: [],
                       properties: {
                         awarder: {
-                          errors: ['awarder is required.'],
+                          errors: [
+                            'awarder is required.',
+                            'Invalid input: expected record, received undefined',
+                          ],
                         },
                       },
                     },
@@ -159,7 +162,10 @@ describe('ContentSchema', () => {
                       errors: [],
                       properties: {
                         issuer: {
-                          errors: ['issuer is required.'],
+                          errors: [
+                            'issuer is required.',
+                            'Invalid input: expected record, received undefined',
+                          ],
                         },
                       },
                     },
@@ -191,7 +197,10 @@ describe('ContentSchema', () => {
                       errors: [],
                       properties: {
                         name: {
-                          errors: ['name is required.'],
+                          errors: [
+                            'name is required.',
+                            'Invalid input: expected record, received undefined',
+                          ],
                         },
                       },
                     },
@@ -254,7 +263,10 @@ describe('ContentSchema', () => {
                   errors: [],
                   properties: {
                     city: {
-                      errors: ['city is required.'],
+                      errors: [
+                        'city is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -316,7 +328,10 @@ describe('ContentSchema', () => {
                       errors: [],
                       properties: {
                         summary: {
-                          errors: ['summary is required.'],
+                          errors: [
+                            'summary is required.',
+                            'Invalid input: expected record, received undefined',
+                          ],
                         },
                       },
                     },
@@ -348,7 +363,10 @@ describe('ContentSchema', () => {
                       errors: [],
                       properties: {
                         name: {
-                          errors: ['name is required.'],
+                          errors: [
+                            'name is required.',
+                            'Invalid input: expected record, received undefined',
+                          ],
                         },
                       },
                     },
@@ -380,7 +398,10 @@ describe('ContentSchema', () => {
                       errors: [],
                       properties: {
                         summary: {
-                          errors: ['summary is required.'],
+                          errors: [
+                            'summary is required.',
+                            'Invalid input: expected record, received undefined',
+                          ],
                         },
                       },
                     },
@@ -450,7 +471,10 @@ describe('ContentSchema', () => {
                       errors: [],
                       properties: {
                         organization: {
-                          errors: ['organization is required.'],
+                          errors: [
+                            'organization is required.',
+                            'Invalid input: expected record, received undefined',
+                          ],
                         },
                         summary: {
                           errors: ['summary should be 16 characters or more.'],
@@ -491,7 +515,10 @@ describe('ContentSchema', () => {
                       errors: [],
                       properties: {
                         name: {
-                          errors: ['name is required.'],
+                          errors: [
+                            'name is required.',
+                            'Invalid input: expected record, received undefined',
+                          ],
                         },
                         summary: {
                           errors: ['summary should be 16 characters or more.'],
@@ -26,6 +26,7 @@ import { z } from 'zod'
 import { AwardsSchema } from './awards'
 import { BasicsSchema } from './basics'
 import { CertificatesSchema } from './certificates'
+import { CustomSchema } from './custom'
 import { EducationSchema } from './education'
 import { InterestsSchema } from './interests'
 import { LanguagesSchema } from './languages'
@@ -51,6 +52,7 @@ export const ContentSchema = z.object({
       // optional sections
       ...AwardsSchema.shape,
       ...CertificatesSchema.shape,
+      ...CustomSchema.shape,
       ...InterestsSchema.shape,
       ...LanguagesSchema.shape,
       ...LocationSchema.shape,
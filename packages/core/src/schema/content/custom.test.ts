@@ -0,0 +1,237 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+import type { Custom } from '@/models'
+import {
+  expectSchemaMetadata,
+  getNullishTestCases,
+  validateZodErrors,
+} from '../zod'
+import {
+  CustomSchema,
+  CustomSectionIdSchema,
+  CustomSectionItemNameSchema,
+  CustomSectionItemSchema,
+  CustomSectionTitleSchema,
+  duplicatedCustomSectionIdMessage,
+  reservedCustomSectionIdMessage,
+} from './custom'
+
+describe('CustomSectionIdSchema', () => {
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(CustomSectionIdSchema)
+  })
+
+  it('should validate an id if it is valid', () => {
+    for (const id of ['talks', 'open-source', 'patents2']) {
+      expect(CustomSectionIdSchema.parse(id)).toBe(id)
+    }
+  })
+
+  it('should throw an error if an id is invalid', () => {
+    const message =
+      'id should only contain lowercase letters, digits and hyphens, and start with a letter.'
+    const tests = [
+      { id: 'Talks', errors: [message] },
+      { id: 'open source', errors: [message] },
+      { id: '2talks', errors: [message] },
+      { id: 'work', errors: [reservedCustomSectionIdMessage('work')] },
+      { id: 'location', errors: [reservedCustomSectionIdMessage('location')] },
+    ]
+
+    for (const { id, errors } of tests) {
+      validateZodErrors(CustomSectionIdSchema, id, { errors })
+    }
+  })
+})
+
+describe('CustomSectionTitleSchema', () => {
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(CustomSectionTitleSchema)
+  })
+})
+
+describe('CustomSectionItemNameSchema', () => {
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(CustomSectionItemNameSchema)
+  })
+})
+
+describe('CustomSchema', () => {
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(CustomSchema.shape.custom)
+  })
+
+  const id = 'talks'
+  const title = 'Talks'
+  const name = 'Writing resumes in YAML'
+
+  const startDate = '2024-05'
+  const endDate = '2024-06'
+  const keywords = ['YAML', 'LaTeX']
+  const summary = 'A talk about writing resumes as code.'
+  const url = 'https://example.com/talk'
+
+  it('should validate a custom object if it is valid', () => {
+    const baseCustomSectionItem = { name }
+
+    const tests: Array<Custom> = [
+      {},
+      {
+        custom: undefined,
+      },
+      {
+        custom: [],
+      },
+      {
+        custom: [{ id, title, items: [] }],
+      },
+      {
+        custom: [
+          {
+            id,
+            title,
+            items: [
+              {
+                ...baseCustomSectionItem,
+
+                endDate,
+                keywords,
+                startDate,
+                summary,
+                url,
+              },
+            ],
+          },
+          { id: 'patents', title: 'Patents', items: [{ name: 'Resume' }] },
+        ],
+      },
+      ...getNullishTestCases(
+        CustomSectionItemSchema,
+        baseCustomSectionItem
+      ).map((testCase) => ({
+        custom: [{ id, title, items: [testCase] }],
+      })),
+    ]
+
+    for (const custom of tests) {
+      expect(CustomSchema.parse(custom)).toStrictEqual(custom)
+    }
+  })
+
+  it('should throw an error if a custom object is invalid', () => {
+    const tests: Array<Custom & { error: object }> = [
+      {
+        // @ts-ignore
+        custom: [{ id, items: [] }],
+        error: {
+          errors: [],
+          properties: {
+            custom: {
+              errors: [],
+              items: [
+                {
+                  errors: [],
+                  properties: {
+                    title: {
+                      errors: [
+                        'title is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      {
+        // @ts-ignore
+        custom: [{ id, title, items: [{ summary }] }],
+        error: {
+          errors: [],
+          properties: {
+            custom: {
+              errors: [],
+              items: [
+                {
+                  errors: [],
+                  properties: {
+                    items: {
+                      errors: [],
+                      items: [
+                        {
+                          errors: [],
+                          properties: {
+                            name: {
+                              errors: [
+                                'name is required.',
+                                'Invalid input: expected record, received undefined',
+                              ],
+                            },
+                          },
+                        },
+                      ],
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      {
+        custom: [
+          { id, title, items: [] },
+          { id, title, items: [] },
+        ],
+        error: {
+          errors: [],
+          properties: {
+            custom: {
+              errors: [],
+              items: [
+                undefined,
+                {
+                  errors: [],
+                  properties: {
+                    id: {
+                      errors: [duplicatedCustomSectionIdMessage(id)],
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+    ]
+
+    for (const { custom, error } of tests) {
+      validateZodErrors(CustomSchema, { custom }, error)
+    }
+  })
+})
@@ -0,0 +1,185 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { z } from 'zod'
+
+import { SECTION_IDS } from '@/models'
+import { joinNonEmptyString } from '@/utils'
+import {
+  DateSchema,
+  KeywordsSchema,
+  LocalizedSchema,
+  NameSchema,
+  SizedStringSchema,
+  SummarySchema,
+  TagsSchema,
+  UrlSchema,
+} from '../primitives'
+import { nullifySchema } from '../utils'
+
+/**
+ * A regex for a custom section id, i.e, lowercase letters, digits and hyphens,
+ * starting with a letter.
+ */
+const CUSTOM_SECTION_ID_REGEX = /^[a-z][a-z0-9-]*$/
+
+/**
+ * Creates an error message for a custom section id which is used by a builtin
+ * section.
+ *
+ * @param id - The custom section id.
+ * @returns The error message.
+ */
+export function reservedCustomSectionIdMessage(id: string) {
+  return `custom section id "${id}" is reserved for a builtin section.`
+}
+
+/**
+ * Creates an error message for a custom section id defined more than once.
+ *
+ * @param id - The custom section id.
+ * @returns The error message.
+ */
+export function duplicatedCustomSectionIdMessage(id: string) {
+  return `custom section id "${id}" is defined more than once.`
+}
+
+/**
+ * A zod schema for a custom section id.
+ *
+ * Ids of builtin sections are rejected, so that custom sections can be placed
+ * in `layout.sections.order` along with builtin sections.
+ */
+export const CustomSectionIdSchema = SizedStringSchema('id', 2, 32)
+  .regex(CUSTOM_SECTION_ID_REGEX, {
+    message: joinNonEmptyString(
+      [
+        'id should only contain lowercase letters, digits and hyphens,',
+        'and start with a letter.',
+      ],
+      ' '
+    ),
+  })
+  .check((ctx) => {
+    if ((SECTION_IDS as readonly string[]).includes(ctx.value)) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: reservedCustomSectionIdMessage(ctx.value),
+      })
+    }
+  })
+  .meta({
+    title: 'ID',
+    description: joinNonEmptyString(
+      [
+        'A unique id of the custom section between 2 and 32 characters,',
+        'used to place the section in `layout.sections.order`.',
+      ],
+      ' '
+    ),
+    examples: ['patents', 'talks', 'open-source'],
+  })
+
+/**
+ * A zod schema for a custom section title.
+ */
+export const CustomSectionTitleSchema = LocalizedSchema(
+  SizedStringSchema('title', 2, 128).meta({
+    title: 'Title',
+    description:
+      'The title of the custom section between 2 and 128 characters.',
+    examples: ['Patents', 'Talks', 'Open Source'],
+  })
+)
+
+/**
+ * A zod schema for a custom section item name.
+ */
+export const CustomSectionItemNameSchema = NameSchema('name').describe(
+  'The name of the item, e.g, the title of a talk.'
+)
+
+/**
+ * A zod schema for a custom section item.
+ */
+export const CustomSectionItemSchema = z.object({
+  // required fields
+  name: CustomSectionItemNameSchema,
+
+  // optional fields
+  endDate: nullifySchema(DateSchema('endDate')),
+  keywords: nullifySchema(KeywordsSchema),
+  startDate: nullifySchema(DateSchema('startDate')),
+  summary: nullifySchema(SummarySchema),
+  tags: nullifySchema(TagsSchema),
+  url: nullifySchema(UrlSchema),
+})
+
+/**
+ * A zod schema for a custom section.
+ */
+export const CustomSectionSchema = z.object({
+  id: CustomSectionIdSchema,
+  title: CustomSectionTitleSchema,
+  items: z.array(CustomSectionItemSchema).meta({
+    title: 'Items',
+    description: 'The items of the custom section.',
+  }),
+})
+
+/**
+ * A zod schema for custom sections.
+ */
+export const CustomSchema = z.object({
+  custom: z
+    .array(CustomSectionSchema)
+    .check((ctx) => {
+      const ids = new Set<string>()
+
+      ctx.value.forEach(({ id }, index) => {
+        if (ids.has(id)) {
+          ctx.issues.push({
+            code: 'custom',
+            input: id,
+            message: duplicatedCustomSectionIdMessage(id),
+            path: [index, 'id'],
+          })
+        }
+
+        ids.add(id)
+      })
+    })
+    .nullish()
+    .meta({
+      title: 'Custom',
+      description: joinNonEmptyString(
+        [
+          'The custom sections contain sections that are not builtin,',
+          'e.g, patents, talks or open source contributions.',
+        ],
+        ' '
+      ),
+    }),
+})
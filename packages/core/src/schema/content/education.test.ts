@@ -169,7 +169,10 @@ describe('EducationSchema', () => {
                   errors: [],
                   properties: {
                     area: {
-                      errors: ['area is required.'],
+                      errors: [
+                        'area is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -239,7 +242,10 @@ describe('EducationSchema', () => {
                   errors: [],
                   properties: {
                     institution: {
-                      errors: ['institution is required.'],
+                      errors: [
+                        'institution is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -307,13 +313,19 @@ describe('EducationSchema', () => {
                   errors: [],
                   properties: {
                     area: {
-                      errors: ['area is required.'],
+                      errors: [
+                        'area is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                     degree: {
                       errors: ['degree option is required.'],
                     },
                     institution: {
-                      errors: ['institution is required.'],
+                      errors: [
+                        'institution is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
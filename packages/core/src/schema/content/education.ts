@@ -27,9 +27,11 @@ import { joinNonEmptyString } from '@/utils'
 import {
   DateSchema,
   DegreeOptionSchema,
+  LocalizedSchema,
   OrganizationSchema,
   SizedStringSchema,
   SummarySchema,
+  TagsSchema,
   UrlSchema,
 } from '../primitives'
 import { nullifySchema } from '../utils'
@@ -37,22 +39,24 @@ import { nullifySchema } from '../utils'
 /**
  * A zod schema for an area of study.
  */
-export const AreaSchema = SizedStringSchema('area', 2, 64).meta({
-  title: 'Area',
-  description: 'Your field of study or major.',
-  examples: [
-    'Computer Science',
-    'Business Administration',
-    'Engineering',
-    'Arts',
-  ],
-})
+export const AreaSchema = LocalizedSchema(
+  SizedStringSchema('area', 2, 64).meta({
+    title: 'Area',
+    description: 'Your field of study or major.',
+    examples: [
+      'Computer Science',
+      'Business Administration',
+      'Engineering',
+      'Arts',
+    ],
+  })
+)
 
 /**
  * A zod schema for courses.
  */
 export const CoursesSchema = z
-  .array(SizedStringSchema('courses', 2, 128))
+  .array(LocalizedSchema(SizedStringSchema('courses', 2, 128)))
   .meta({
     title: 'Courses',
     description: 'A list of relevant courses you have taken.',
@@ -79,11 +83,13 @@ export const InstitutionSchema = OrganizationSchema('institution').meta({
 /**
  * A zod schema for a score.
  */
-export const ScoreSchema = SizedStringSchema('score', 2, 32).meta({
-  title: 'Score',
-  description: 'Your GPA, grade, or other academic score.',
-  examples: ['3.8', '3.8/4.0', 'A+', '95%', 'First Class Honours'],
-})
+export const ScoreSchema = LocalizedSchema(
+  SizedStringSchema('score', 2, 32).meta({
+    title: 'Score',
+    description: 'Your GPA, grade, or other academic score.',
+    examples: ['3.8', '3.8/4.0', 'A+', '95%', 'First Class Honours'],
+  })
+)
 
 /**
  * A zod schema for an education item.
@@ -100,6 +106,7 @@ export const EducationItemSchema = z.object({
   endDate: nullifySchema(DateSchema('endDate')),
   summary: nullifySchema(SummarySchema),
   score: nullifySchema(ScoreSchema),
+  tags: nullifySchema(TagsSchema),
   url: nullifySchema(UrlSchema),
 })
 
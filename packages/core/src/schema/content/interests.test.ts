@@ -102,7 +102,10 @@ describe('InterestsSchema', () => {
                   errors: [],
                   properties: {
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -24,7 +24,7 @@
 import { z } from 'zod'
 
 import { joinNonEmptyString } from '@/utils'
-import { KeywordsSchema, NameSchema } from '../primitives'
+import { KeywordsSchema, NameSchema, TagsSchema } from '../primitives'
 import { nullifySchema } from '../utils'
 
 /**
@@ -43,6 +43,7 @@ export const InterestItemSchema = z.object({
 
   // optional fields
   keywords: nullifySchema(KeywordsSchema),
+  tags: nullifySchema(TagsSchema),
 })
 
 /**
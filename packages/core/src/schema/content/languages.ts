@@ -28,6 +28,7 @@ import {
   FluencyOptionSchema,
   KeywordsSchema,
   LanguageOptionSchema,
+  TagsSchema,
 } from '../primitives'
 import { nullifySchema } from '../utils'
 
@@ -41,6 +42,7 @@ export const LanguageItemSchema = z.object({
 
   // optional fields
   keywords: nullifySchema(KeywordsSchema),
+  tags: nullifySchema(TagsSchema),
 })
 
 /**
@@ -124,7 +124,10 @@ describe('LocationSchema', () => {
               errors: [],
               properties: {
                 city: {
-                  errors: ['city is required.'],
+                  errors: [
+                    'city is required.',
+                    'Invalid input: expected record, received undefined',
+                  ],
                 },
               },
             },
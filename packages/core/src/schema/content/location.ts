@@ -24,30 +24,38 @@
 import { z } from 'zod'
 
 import { joinNonEmptyString } from '@/utils'
-import { CountryOptionSchema, SizedStringSchema } from '../primitives'
+import {
+  CountryOptionSchema,
+  LocalizedSchema,
+  SizedStringSchema,
+} from '../primitives'
 import { nullifySchema } from '../utils'
 
 /**
  * A zod schema for a city.
  */
-export const CitySchema = SizedStringSchema('city', 2, 64).meta({
-  title: 'City',
-  description: 'The city where you are located.',
-  examples: ['San Francisco', 'New York', 'London', 'Tokyo'],
-})
+export const CitySchema = LocalizedSchema(
+  SizedStringSchema('city', 2, 64).meta({
+    title: 'City',
+    description: 'The city where you are located.',
+    examples: ['San Francisco', 'New York', 'London', 'Tokyo'],
+  })
+)
 
 /**
  * A zod schema for an address.
  */
-export const AddressSchema = SizedStringSchema('address', 4, 256).meta({
-  title: 'Address',
-  description: 'Your full address including street, apartment, etc.',
-  examples: [
-    '123 Main Street, Apt 4B',
-    '456 Oak Avenue',
-    '789 Pine Road, Suite 100',
-  ],
-})
+export const AddressSchema = LocalizedSchema(
+  SizedStringSchema('address', 4, 256).meta({
+    title: 'Address',
+    description: 'Your full address including street, apartment, etc.',
+    examples: [
+      '123 Main Street, Apt 4B',
+      '456 Oak Avenue',
+      '789 Pine Road, Suite 100',
+    ],
+  })
+)
 
 /**
  * A zod schema for a postal code.
@@ -61,11 +69,13 @@ export const PostalCodeSchema = SizedStringSchema('postalCode', 2, 16).meta({
 /**
  * A zod schema for a region.
  */
-export const RegionSchema = SizedStringSchema('region', 2, 64).meta({
-  title: 'Region',
-  description: 'Your state, province, or region.',
-  examples: ['California', 'New York', 'England', 'Tokyo'],
-})
+export const RegionSchema = LocalizedSchema(
+  SizedStringSchema('region', 2, 64).meta({
+    title: 'Region',
+    description: 'Your state, province, or region.',
+    examples: ['California', 'New York', 'England', 'Tokyo'],
+  })
+)
 
 /**
  * A zod schema for a location item.
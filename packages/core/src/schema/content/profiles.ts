@@ -27,6 +27,7 @@ import { joinNonEmptyString } from '@/utils'
 import {
   NetworkOptionSchema,
   SizedStringSchema,
+  TagsSchema,
   UrlSchema,
 } from '../primitives'
 import { nullifySchema } from '../utils'
@@ -49,6 +50,7 @@ export const ProfileItemSchema = z.object({
   username: UsernameSchema,
 
   // optional fields
+  tags: nullifySchema(TagsSchema),
   url: nullifySchema(UrlSchema),
 })
 
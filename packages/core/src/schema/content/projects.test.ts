@@ -59,6 +59,7 @@ describe('ProjectsSchema', () => {
 
   const description = 'Built a scalable web application'
   const endDate = '2023-06'
+  const highlights = ['Built the frontend', 'Wrote the docs']
   const keywords = ['react', 'typescript', 'node']
   const url = 'https://example.com/project1'
 
@@ -84,6 +85,7 @@ describe('ProjectsSchema', () => {
 
             description,
             endDate,
+            highlights,
             keywords,
             url,
           },
@@ -128,7 +130,10 @@ describe('ProjectsSchema', () => {
                   errors: [],
                   properties: {
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -194,7 +199,10 @@ describe('ProjectsSchema', () => {
                   errors: [],
                   properties: {
                     summary: {
-                      errors: ['summary is required.'],
+                      errors: [
+                        'summary is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -226,7 +234,10 @@ describe('ProjectsSchema', () => {
                   errors: [],
                   properties: {
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                     startDate: {
                       errors: ['startDate is required.'],
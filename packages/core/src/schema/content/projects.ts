@@ -26,10 +26,13 @@ import { z } from 'zod'
 import { joinNonEmptyString } from '@/utils'
 import {
   DateSchema,
+  HighlightsSchema,
   KeywordsSchema,
+  LocalizedSchema,
   NameSchema,
   SizedStringSchema,
   SummarySchema,
+  TagsSchema,
   UrlSchema,
 } from '../primitives'
 import { nullifySchema } from '../utils'
@@ -44,19 +47,17 @@ export const ProjectNameSchema = NameSchema('name').describe(
 /**
  * A zod schema for a project description.
  */
-export const ProjectDescriptionSchema = SizedStringSchema(
-  'description',
-  4,
-  128
-).meta({
-  title: 'Description',
-  description: 'A detailed description of the project and your role.',
-  examples: [
-    'Led development of a full-stack web application',
-    'Designed and implemented REST API endpoints',
-    'Managed team of 5 developers for mobile app development',
-  ],
-})
+export const ProjectDescriptionSchema = LocalizedSchema(
+  SizedStringSchema('description', 4, 128).meta({
+    title: 'Description',
+    description: 'A detailed description of the project and your role.',
+    examples: [
+      'Led development of a full-stack web application',
+      'Designed and implemented REST API endpoints',
+      'Managed team of 5 developers for mobile app development',
+    ],
+  })
+)
 
 /**
  * A zod schema for a project item.
@@ -70,7 +71,9 @@ export const ProjectItemSchema = z.object({
   // optional fields
   description: nullifySchema(ProjectDescriptionSchema),
   endDate: nullifySchema(DateSchema('endDate')),
+  highlights: nullifySchema(HighlightsSchema),
   keywords: nullifySchema(KeywordsSchema),
+  tags: nullifySchema(TagsSchema),
   url: nullifySchema(UrlSchema),
 })
 
@@ -121,7 +121,10 @@ describe('PublicationsSchema', () => {
                   errors: [],
                   properties: {
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -152,7 +155,10 @@ describe('PublicationsSchema', () => {
                   errors: [],
                   properties: {
                     publisher: {
-                      errors: ['publisher is required.'],
+                      errors: [
+                        'publisher is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -182,10 +188,16 @@ describe('PublicationsSchema', () => {
                   errors: [],
                   properties: {
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                     publisher: {
-                      errors: ['publisher is required.'],
+                      errors: [
+                        'publisher is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -29,6 +29,7 @@ import {
   NameSchema,
   OrganizationSchema,
   SummarySchema,
+  TagsSchema,
   UrlSchema,
 } from '../primitives'
 import { nullifySchema } from '../utils'
@@ -60,6 +61,7 @@ export const PublicationItemSchema = z.object({
   // optional fields
   releaseDate: nullifySchema(DateSchema('Release date')),
   summary: nullifySchema(SummarySchema),
+  tags: nullifySchema(TagsSchema),
   url: nullifySchema(UrlSchema),
 })
 
@@ -121,7 +121,10 @@ describe('ReferencesSchema', () => {
                   errors: [],
                   properties: {
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -152,7 +155,10 @@ describe('ReferencesSchema', () => {
                   errors: [],
                   properties: {
                     summary: {
-                      errors: ['summary is required.'],
+                      errors: [
+                        'summary is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -275,10 +281,16 @@ describe('ReferencesSchema', () => {
                   errors: [],
                   properties: {
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                     summary: {
-                      errors: ['summary is required.'],
+                      errors: [
+                        'summary is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                     relationship: {
                       errors: ['relationship should be 2 characters or more.'],
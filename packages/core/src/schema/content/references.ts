@@ -26,10 +26,12 @@ import { z } from 'zod'
 import { joinNonEmptyString } from '@/utils'
 import {
   EmailSchema,
+  LocalizedSchema,
   NameSchema,
   PhoneSchema,
   SizedStringSchema,
   SummarySchema,
+  TagsSchema,
 } from '../primitives'
 import { nullifySchema } from '../utils'
 
@@ -43,15 +45,13 @@ export const ReferenceNameSchema = NameSchema('name').describe(
 /**
  * A zod schema for a relationship.
  */
-export const RelationshipSchema = SizedStringSchema(
-  'relationship',
-  2,
-  128
-).meta({
-  title: 'Relationship',
-  description: 'Your professional relationship with the reference.',
-  examples: ['Former Manager', 'Colleague', 'Professor', 'Client'],
-})
+export const RelationshipSchema = LocalizedSchema(
+  SizedStringSchema('relationship', 2, 128).meta({
+    title: 'Relationship',
+    description: 'Your professional relationship with the reference.',
+    examples: ['Former Manager', 'Colleague', 'Professor', 'Client'],
+  })
+)
 
 /**
  * A zod schema for a reference item.
@@ -65,6 +65,7 @@ export const ReferenceItemSchema = z.object({
   email: nullifySchema(EmailSchema),
   phone: nullifySchema(PhoneSchema),
   relationship: nullifySchema(RelationshipSchema),
+  tags: nullifySchema(TagsSchema),
 })
 
 /**
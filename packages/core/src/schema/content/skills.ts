@@ -24,7 +24,12 @@
 import { z } from 'zod'
 
 import { joinNonEmptyString } from '@/utils'
-import { KeywordsSchema, LevelOptionSchema, NameSchema } from '../primitives'
+import {
+  KeywordsSchema,
+  LevelOptionSchema,
+  NameSchema,
+  TagsSchema,
+} from '../primitives'
 import { nullifySchema } from '../utils'
 
 /**
@@ -44,6 +49,7 @@ export const SkillItemSchema = z.object({
 
   // optional fields
   keywords: nullifySchema(KeywordsSchema),
+  tags: nullifySchema(TagsSchema),
 })
 
 /**
@@ -59,6 +59,7 @@ describe('VolunteerSchema', () => {
   const summary = 'This is a summary with some text.'
 
   const endDate = '2021-12'
+  const highlights = ['Organized monthly meetups']
   const url = 'https://example.com'
 
   it('should validate a volunteer object if it is valid', () => {
@@ -83,6 +84,7 @@ describe('VolunteerSchema', () => {
             ...baseVolunteerItem,
 
             endDate,
+            highlights,
             url,
           },
         ],
@@ -124,7 +126,10 @@ describe('VolunteerSchema', () => {
                   errors: [],
                   properties: {
                     organization: {
-                      errors: ['organization is required.'],
+                      errors: [
+                        'organization is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -156,7 +161,10 @@ describe('VolunteerSchema', () => {
                   errors: [],
                   properties: {
                     position: {
-                      errors: ['position is required.'],
+                      errors: [
+                        'position is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -220,7 +228,10 @@ describe('VolunteerSchema', () => {
                   errors: [],
                   properties: {
                     summary: {
-                      errors: ['summary is required.'],
+                      errors: [
+                        'summary is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -250,10 +261,16 @@ describe('VolunteerSchema', () => {
                   errors: [],
                   properties: {
                     organization: {
-                      errors: ['organization is required.'],
+                      errors: [
+                        'organization is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                     position: {
-                      errors: ['position is required.'],
+                      errors: [
+                        'position is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                     startDate: {
                       errors: ['startDate is required.'],
@@ -26,9 +26,12 @@ import { z } from 'zod'
 import { joinNonEmptyString } from '@/utils'
 import {
   DateSchema,
+  HighlightsSchema,
+  LocalizedSchema,
   OrganizationSchema,
   SizedStringSchema,
   SummarySchema,
+  TagsSchema,
   UrlSchema,
 } from '../primitives'
 import { nullifySchema } from '../utils'
@@ -52,15 +55,13 @@ export const VolunteerOrganizationSchema = OrganizationSchema(
 /**
  * A zod schema for a volunteer position.
  */
-export const VolunteerPositionSchema = SizedStringSchema(
-  'position',
-  2,
-  64
-).meta({
-  title: 'Position',
-  description: 'Your role or position in the volunteer organization.',
-  examples: ['Event Coordinator', 'Tutor', 'Fundraiser', 'Board Member'],
-})
+export const VolunteerPositionSchema = LocalizedSchema(
+  SizedStringSchema('position', 2, 64).meta({
+    title: 'Position',
+    description: 'Your role or position in the volunteer organization.',
+    examples: ['Event Coordinator', 'Tutor', 'Fundraiser', 'Board Member'],
+  })
+)
 
 /**
  * A zod schema for a volunteer item.
@@ -74,6 +75,8 @@ export const VolunteerItemSchema = z.object({
 
   // optional fields
   endDate: nullifySchema(DateSchema('endDate')),
+  highlights: nullifySchema(HighlightsSchema),
+  tags: nullifySchema(TagsSchema),
   url: nullifySchema(UrlSchema),
 })
 /**
@@ -33,6 +33,7 @@ import {
   CompanyNameSchema,
   PositionSchema,
   WorkItemSchema,
+  WorkPositionsSchema,
   WorkSchema,
 } from './work'
 
@@ -48,6 +49,12 @@ describe('PositionSchema', () => {
   })
 })
 
+describe('WorkPositionsSchema', () => {
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(WorkPositionsSchema)
+  })
+})
+
 describe('WorkSchema', () => {
   it('should have correct metadata', () => {
     expectSchemaMetadata(WorkSchema.shape.work)
@@ -59,6 +66,7 @@ describe('WorkSchema', () => {
   const summary = 'Built amazing things'
 
   const endDate = '2023-01-01'
+  const highlights = ['Shipped a new product', 'Mentored 3 engineers']
   const url = 'https://example.com'
   const keywords = ['typescript', 'react']
 
@@ -83,11 +91,28 @@ describe('WorkSchema', () => {
             ...baseWorkItem,
 
             endDate,
+            highlights,
             url,
             keywords,
           },
         ],
       },
+      {
+        work: [
+          {
+            name,
+            positions: [
+              { position: 'Senior Software Engineer', startDate: '2022-01' },
+              {
+                position,
+                startDate,
+                endDate: '2021-12',
+                summary,
+              },
+            ],
+          },
+        ],
+      },
       ...getNullishTestCases(WorkItemSchema, baseWorkItem).map((testCase) => ({
         work: [testCase],
       })),
@@ -124,7 +149,10 @@ describe('WorkSchema', () => {
                   errors: [],
                   properties: {
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
                     },
                   },
                 },
@@ -254,14 +282,131 @@ describe('WorkSchema', () => {
                   errors: [],
                   properties: {
                     name: {
-                      errors: ['name is required.'],
+                      errors: [
+                        'name is required.',
+                        'Invalid input: expected record, received undefined',
+                      ],
+                    },
+                    position: {
+                      errors: ['position is required.'],
+                    },
+                    startDate: {
+                      errors: ['startDate is required.'],
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      {
+        work: [
+          {
+            name,
+            position,
+            startDate,
+            summary,
+
+            highlights: ['Shipped a new product', ''],
+          },
+        ],
+        error: {
+          errors: [],
+          properties: {
+            work: {
+              errors: [],
+              items: [
+                {
+                  errors: [],
+                  properties: {
+                    highlights: {
+                      errors: [],
+                      items: [
+                        undefined,
+                        {
+                          errors: ['highlight should be 2 characters or more.'],
+                        },
+                      ],
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      {
+        work: [
+          {
+            name,
+            positions: [
+              // @ts-ignore
+              {
+                // missing position
+                startDate,
+              },
+            ],
+          },
+        ],
+        error: {
+          errors: [],
+          properties: {
+            work: {
+              errors: [],
+              items: [
+                {
+                  errors: [],
+                  properties: {
+                    positions: {
+                      errors: [],
+                      items: [
+                        {
+                          errors: [],
+                          properties: {
+                            position: {
+                              errors: [
+                                'position is required.',
+                                'Invalid input: expected record, received undefined',
+                              ],
+                            },
+                          },
+                        },
+                      ],
                     },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      {
+        work: [
+          {
+            name,
+            // empty positions do not replace the required fields
+            positions: [],
+          },
+        ],
+        error: {
+          errors: [],
+          properties: {
+            work: {
+              errors: [],
+              items: [
+                {
+                  errors: [],
+                  properties: {
                     position: {
                       errors: ['position is required.'],
                     },
                     startDate: {
                       errors: ['startDate is required.'],
                     },
+                    summary: {
+                      errors: ['summary is required.'],
+                    },
                   },
                 },
               ],
@@ -21,15 +21,19 @@
  * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
  * IN THE SOFTWARE.
  */
+import { isPlainObject } from 'lodash-es'
 import { z } from 'zod'
 
-import { joinNonEmptyString } from '@/utils'
+import { isEmptyValue, joinNonEmptyString } from '@/utils'
 import {
   DateSchema,
+  HighlightsSchema,
   KeywordsSchema,
+  LocalizedSchema,
   OrganizationSchema,
   SizedStringSchema,
   SummarySchema,
+  TagsSchema,
   UrlSchema,
 } from '../primitives'
 import { nullifySchema } from '../utils'
@@ -46,33 +50,87 @@ export const CompanyNameSchema = OrganizationSchema('name').meta({
 /**
  * A zod schema for a position.
  */
-export const PositionSchema = SizedStringSchema('position', 2, 64).meta({
-  title: 'Position',
-  description: 'Your job title or position at the company.',
-  examples: [
-    'Software Engineer',
-    'Product Manager',
-    'Data Scientist',
-    'UX Designer',
-  ],
-})
+export const PositionSchema = LocalizedSchema(
+  SizedStringSchema('position', 2, 64).meta({
+    title: 'Position',
+    description: 'Your job title or position at the company.',
+    examples: [
+      'Software Engineer',
+      'Product Manager',
+      'Data Scientist',
+      'UX Designer',
+    ],
+  })
+)
 
 /**
- * A zod schema for a work item.
+ * A zod schema for a position held at a company.
  */
-export const WorkItemSchema = z.object({
+export const WorkPositionSchema = z.object({
   // required fields
-  name: CompanyNameSchema,
   position: PositionSchema,
   startDate: DateSchema('startDate'),
-  summary: SummarySchema,
 
   // optional fields
   endDate: nullifySchema(DateSchema('endDate')),
-  keywords: nullifySchema(KeywordsSchema),
-  url: nullifySchema(UrlSchema),
+  summary: nullifySchema(SummarySchema),
+})
+
+/**
+ * A zod schema for positions held at a company.
+ */
+export const WorkPositionsSchema = z.array(WorkPositionSchema).meta({
+  title: 'Positions',
+  description: joinNonEmptyString(
+    [
+      'Positions held at the company, e.g, after a promotion,',
+      'each with its own dates and summary.',
+    ],
+    ' '
+  ),
 })
 
+/**
+ * Fields of a work item which are only required if `positions` is absent.
+ */
+const POSITION_FIELDS = ['position', 'startDate', 'summary'] as const
+
+/**
+ * A zod schema for a work item.
+ *
+ * `position`, `startDate` and `summary` are required unless `positions` is
+ * given, the check runs even if other fields are invalid, so all missing
+ * fields are reported at once.
+ */
+export const WorkItemSchema = POSITION_FIELDS.reduce(
+  (schema, field) =>
+    schema.refine(
+      (item) => !isEmptyValue(item[field]) || !isEmptyValue(item.positions),
+      {
+        message: `${field} is required.`,
+        path: [field],
+        when: ({ value }) => isPlainObject(value),
+      }
+    ),
+  z.object({
+    // required fields
+    name: CompanyNameSchema,
+
+    // required fields if `positions` is absent
+    position: nullifySchema(PositionSchema),
+    startDate: nullifySchema(DateSchema('startDate')),
+    summary: nullifySchema(SummarySchema),
+
+    // optional fields
+    endDate: nullifySchema(DateSchema('endDate')),
+    highlights: nullifySchema(HighlightsSchema),
+    keywords: nullifySchema(KeywordsSchema),
+    positions: nullifySchema(WorkPositionsSchema),
+    tags: nullifySchema(TagsSchema),
+    url: nullifySchema(UrlSchema),
+  })
+)
+
 /**
  * A zod schema for work.
  */
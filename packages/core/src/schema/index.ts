@@ -22,4 +22,5 @@
  * IN THE SOFTWARE.
  */
 
+export { LocalePackSchema, loadLocalePack } from './locale'
 export { ResumeSchema } from './resume'
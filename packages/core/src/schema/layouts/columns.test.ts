@@ -0,0 +1,112 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { ORDERABLE_SECTION_IDS } from '@/models'
+import { optionSchemaMessage } from '../primitives'
+import { expectSchemaMetadata, validateZodErrors } from '../zod'
+import { ColumnsSchema, duplicatedColumnSectionMessage } from './columns'
+
+describe('ColumnsSchema', () => {
+  it('should validate correct columns', () => {
+    const tests = [
+      {},
+      { columns: null },
+      { columns: {} },
+      { columns: { sidebar: ['skills', 'languages', 'interests'] } },
+      {
+        columns: {
+          sidebar: ['skills', 'languages'],
+          main: ['work', 'education'],
+        },
+      },
+    ]
+
+    for (const columns of tests) {
+      expect(ColumnsSchema.parse(columns)).toStrictEqual(columns)
+    }
+  })
+
+  it('should throw an error if a section is invalid', () => {
+    validateZodErrors(
+      ColumnsSchema,
+      // @ts-ignore
+      { columns: { sidebar: ['location'] } },
+      {
+        errors: [],
+        properties: {
+          columns: {
+            errors: [],
+            properties: {
+              sidebar: {
+                errors: [],
+                items: [
+                  {
+                    errors: [
+                      optionSchemaMessage(ORDERABLE_SECTION_IDS, 'section'),
+                    ],
+                  },
+                ],
+              },
+            },
+          },
+        },
+      }
+    )
+  })
+
+  it('should throw an error if a section is placed in both columns', () => {
+    validateZodErrors(
+      ColumnsSchema,
+      {
+        columns: {
+          sidebar: ['skills', 'languages'],
+          main: ['work', 'languages'],
+        },
+      },
+      {
+        errors: [],
+        properties: {
+          columns: {
+            errors: [],
+            properties: {
+              main: {
+                errors: [],
+                items: [
+                  undefined,
+                  { errors: [duplicatedColumnSectionMessage('languages')] },
+                ],
+              },
+            },
+          },
+        },
+      }
+    )
+  })
+
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(ColumnsSchema.shape.columns)
+  })
+})
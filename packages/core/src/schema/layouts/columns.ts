@@ -0,0 +1,102 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { startCase } from 'lodash-es'
+import { z } from 'zod'
+
+import { joinNonEmptyString } from '@/utils'
+import { SectionOptionSchema } from './sections'
+
+/**
+ * Creates an error message for a section placed in both columns.
+ *
+ * @param section - The section placed in both columns.
+ * @returns The error message.
+ */
+export function duplicatedColumnSectionMessage(section: string) {
+  return joinNonEmptyString(
+    [
+      `section "${section}" is placed in both sidebar and main columns,`,
+      'it must be placed in only one of them.',
+    ],
+    ' '
+  )
+}
+
+/**
+ * A zod schema for the sections of a column.
+ *
+ * @param column - The name of the column.
+ * @returns A zod schema for the sections of a column.
+ */
+function ColumnSectionsSchema(column: string) {
+  return z
+    .array(SectionOptionSchema)
+    .nullish()
+    .meta({
+      title: startCase(column),
+      description: `Sections rendered in the ${column} column, in order.`,
+    })
+}
+
+/**
+ * A zod schema for columns configuration.
+ *
+ * Sections listed in `sidebar` are rendered in the sidebar column, and
+ * sections listed in `main`, or all other sections if `main` is empty, are
+ * rendered in the main column, a section placed in both columns is rejected.
+ */
+export const ColumnsSchema = z.object({
+  columns: z
+    .object({
+      sidebar: ColumnSectionsSchema('sidebar'),
+      main: ColumnSectionsSchema('main'),
+    })
+    .check((ctx) => {
+      const sidebar = ctx.value.sidebar ?? []
+      const main = ctx.value.main ?? []
+
+      main.forEach((section, index) => {
+        if (sidebar.includes(section)) {
+          ctx.issues.push({
+            code: 'custom',
+            input: section,
+            message: duplicatedColumnSectionMessage(section),
+            path: ['main', index],
+          })
+        }
+      })
+    })
+    .nullish()
+    .meta({
+      title: 'Columns',
+      description: joinNonEmptyString(
+        [
+          'Two-column layout settings, assigning sections to a sidebar or a',
+          'main column, only honoured by templates which support columns.',
+        ],
+        ' '
+      ),
+    }),
+})
@@ -0,0 +1,115 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { DATE_FORMAT_OPTIONS } from '@/models'
+import { optionSchemaMessage } from '../primitives'
+import { expectSchemaMetadata, validateZodErrors } from '../zod'
+import {
+  DateSeparatorSchema,
+  DatesSchema,
+  PresentSchema,
+  ShowDurationSchema,
+} from './dates'
+
+describe('DatesSchema', () => {
+  it('should validate correct dates', () => {
+    const tests = [
+      {},
+      { dates: null },
+      { dates: {} },
+      { dates: { format: null, separator: null, present: null } },
+      ...DATE_FORMAT_OPTIONS.map((format) => ({ dates: { format } })),
+      {
+        dates: {
+          format: 'YYYY-MM',
+          separator: ' to ',
+          present: 'Now',
+          showDuration: true,
+        },
+      },
+    ]
+
+    for (const dates of tests) {
+      expect(DatesSchema.parse(dates)).toStrictEqual(dates)
+    }
+  })
+
+  it('should throw an error if dates are invalid', () => {
+    const tests = [
+      {
+        dates: { format: 'DD.MM.YYYY' },
+        error: {
+          format: {
+            errors: [optionSchemaMessage(DATE_FORMAT_OPTIONS, 'date format')],
+          },
+        },
+      },
+      {
+        dates: { separator: '' },
+        error: {
+          separator: {
+            errors: ['date separator should be 1 characters or more.'],
+          },
+        },
+      },
+      {
+        dates: { present: 'x'.repeat(33) },
+        error: {
+          present: {
+            errors: ['present should be 32 characters or less.'],
+          },
+        },
+      },
+      {
+        dates: { showDuration: 'yes' },
+        error: {
+          showDuration: {
+            errors: ['Invalid input: expected boolean, received string'],
+          },
+        },
+      },
+    ]
+
+    for (const { dates, error } of tests) {
+      validateZodErrors(
+        DatesSchema,
+        // @ts-ignore - Testing invalid input
+        { dates },
+        {
+          errors: [],
+          properties: { dates: { errors: [], properties: error } },
+        }
+      )
+    }
+  })
+
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(DatesSchema.shape.dates)
+    expectSchemaMetadata(DateSeparatorSchema)
+    expectSchemaMetadata(PresentSchema)
+    expectSchemaMetadata(ShowDurationSchema)
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { z } from 'zod'
+
+import { joinNonEmptyString } from '@/utils'
+import { DateFormatOptionSchema, SizedStringSchema } from '../primitives'
+import { nullifySchema } from '../utils'
+
+/**
+ * A zod schema for the separator of date ranges.
+ */
+export const DateSeparatorSchema = SizedStringSchema(
+  'date separator',
+  1,
+  16
+).meta({
+  title: 'Date Separator',
+  description: 'The separator between the start and end date of a date range.',
+  examples: ['–', ' - ', ' to '],
+})
+
+/**
+ * A zod schema for the wording of an ongoing end date.
+ */
+export const PresentSchema = SizedStringSchema('present', 1, 32).meta({
+  title: 'Present',
+  description: 'The wording of an ongoing end date.',
+  examples: ['Present', 'Now', 'Current'],
+})
+
+/**
+ * A zod schema for the show duration setting.
+ */
+export const ShowDurationSchema = z.boolean().meta({
+  title: 'Show Duration',
+  description: 'Whether to show the duration of date ranges, e.g, "2 yrs".',
+})
+
+/**
+ * A zod schema for date formatting configuration.
+ *
+ * Options that are absent fall back to the defaults of the locale language.
+ */
+export const DatesSchema = z.object({
+  dates: z
+    .object({
+      format: nullifySchema(DateFormatOptionSchema),
+      separator: nullifySchema(DateSeparatorSchema),
+      present: nullifySchema(PresentSchema),
+      showDuration: nullifySchema(ShowDurationSchema),
+    })
+    .nullish()
+    .meta({
+      title: 'Dates',
+      description: joinNonEmptyString(
+        [
+          'The dates section contains date formatting settings,',
+          'including the format, the range separator, the wording of',
+          'ongoing dates and whether to show durations.',
+        ],
+        ' '
+      ),
+    }),
+})
@@ -0,0 +1,101 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+import { describe, expect, it } from 'vitest'
+
+import { HIDEABLE_FIELD_OPTIONS } from '@/models'
+import { optionSchemaMessage } from '../primitives'
+import { expectSchemaMetadata, validateZodErrors } from '../zod'
+import { FieldOptionSchema, FieldsSchema } from './fields'
+
+describe('FieldOptionSchema', () => {
+  it('should return a field option if it is valid', () => {
+    for (const option of HIDEABLE_FIELD_OPTIONS) {
+      expect(FieldOptionSchema.parse(option)).toBe(option)
+    }
+  })
+
+  it('should throw an error if the field option is invalid', () => {
+    const tests = ['basics.name', 'work.position', 'phone', 'basics.phone ']
+
+    for (const option of tests) {
+      validateZodErrors(FieldOptionSchema, option, {
+        errors: [optionSchemaMessage(HIDEABLE_FIELD_OPTIONS, 'field')],
+      })
+    }
+  })
+
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(FieldOptionSchema)
+  })
+})
+
+describe('FieldsSchema', () => {
+  it('should validate correct fields', () => {
+    const tests = [
+      {},
+      { fields: null },
+      { fields: {} },
+      { fields: { hide: null } },
+      { fields: { hide: [] } },
+      { fields: { hide: ['basics.phone', 'location.address'] } },
+    ]
+
+    for (const fields of tests) {
+      expect(FieldsSchema.parse(fields)).toStrictEqual(fields)
+    }
+  })
+
+  it('should throw an error if fields are invalid', () => {
+    validateZodErrors(
+      FieldsSchema,
+      // @ts-ignore - Testing invalid input
+      { fields: { hide: ['basics.phone', 'basics.name'] } },
+      {
+        errors: [],
+        properties: {
+          fields: {
+            errors: [],
+            properties: {
+              hide: {
+                errors: [],
+                items: [
+                  undefined,
+                  {
+                    errors: [
+                      optionSchemaMessage(HIDEABLE_FIELD_OPTIONS, 'field'),
+                    ],
+                  },
+                ],
+              },
+            },
+          },
+        },
+      }
+    )
+  })
+
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(FieldsSchema.shape.fields)
+  })
+})
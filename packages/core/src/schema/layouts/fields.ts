@@ -0,0 +1,63 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+import { z } from 'zod'
+
+import { HIDEABLE_FIELD_OPTIONS } from '@/models'
+import { joinNonEmptyString } from '@/utils'
+import { optionSchema } from '../primitives'
+
+/**
+ * A zod schema for a field option, i.e, a `<section>.<field>` path.
+ */
+export const FieldOptionSchema = optionSchema(HIDEABLE_FIELD_OPTIONS, 'field')
+
+/**
+ * A zod schema for field visibility configuration.
+ *
+ * Hidden fields are removed before rendering, so that one resume can publish
+ * a redacted output, e.g, without `basics.phone` or `location.address`.
+ */
+export const FieldsSchema = z.object({
+  fields: z
+    .object({
+      hide: z
+        .array(FieldOptionSchema)
+        .nullish()
+        .meta({
+          title: 'Hide',
+          description: joinNonEmptyString(
+            [
+              'Fields removed from the final output, hiding a field of a list',
+              'section hides it from every item of the section.',
+            ],
+            ' '
+          ),
+        }),
+    })
+    .nullish()
+    .meta({
+      title: 'Fields',
+      description: 'Field visibility settings.',
+    }),
+})
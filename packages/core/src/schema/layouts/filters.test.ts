@@ -0,0 +1,116 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { FILTERABLE_SECTION_IDS } from '@/models'
+import { expectSchemaMetadata, validateZodErrors } from '../zod'
+import { FiltersSchema, ItemIndexSchema } from './filters'
+
+describe('ItemIndexSchema', () => {
+  it('should return an index if it is valid', () => {
+    for (const index of [0, 1, 42]) {
+      expect(ItemIndexSchema.parse(index)).toBe(index)
+    }
+  })
+
+  it('should throw an error if the index is invalid', () => {
+    const tests = [
+      { index: -1, error: { errors: ['index should be 0 or more.'] } },
+      { index: 1.5, error: { errors: ['index should be an integer.'] } },
+      { index: '1', error: { errors: ['index should be a number.'] } },
+    ]
+
+    for (const { index, error } of tests) {
+      // @ts-ignore
+      validateZodErrors(ItemIndexSchema, index, error)
+    }
+  })
+
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(ItemIndexSchema)
+  })
+})
+
+describe('FiltersSchema', () => {
+  it('should validate correct filters', () => {
+    const tests = [
+      {},
+      { filters: null },
+      { filters: {} },
+      { filters: { work: { include: { tags: ['backend'] } } } },
+      {
+        filters: {
+          projects: { include: { indices: [0, 1, 2] } },
+          skills: { exclude: { tags: ['legacy'] } },
+        },
+      },
+    ]
+
+    for (const filters of tests) {
+      expect(FiltersSchema.parse(filters)).toStrictEqual(filters)
+    }
+  })
+
+  it('should support all filterable sections', () => {
+    expect(
+      Object.keys(FiltersSchema.shape.filters.unwrap().unwrap().shape)
+    ).toEqual([...FILTERABLE_SECTION_IDS])
+  })
+
+  it('should throw an error if filters are invalid', () => {
+    validateZodErrors(
+      FiltersSchema,
+      { filters: { work: { include: { indices: [-1] } } } },
+      {
+        errors: [],
+        properties: {
+          filters: {
+            errors: [],
+            properties: {
+              work: {
+                errors: [],
+                properties: {
+                  include: {
+                    errors: [],
+                    properties: {
+                      indices: {
+                        errors: [],
+                        items: [{ errors: ['index should be 0 or more.'] }],
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      }
+    )
+  })
+
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(FiltersSchema.shape.filters)
+  })
+})
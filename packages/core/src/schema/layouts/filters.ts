@@ -0,0 +1,133 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { z } from 'zod'
+
+import { joinNonEmptyString } from '@/utils'
+import { TagsSchema } from '../primitives'
+import { nullifySchema } from '../utils'
+
+/**
+ * A zod schema for a zero-based item index.
+ */
+export const ItemIndexSchema = z
+  .number({ message: 'index should be a number.' })
+  .int({ message: 'index should be an integer.' })
+  .min(0, { message: 'index should be 0 or more.' })
+  .meta({
+    title: 'Index',
+    description: 'The zero-based index of an item in a section.',
+  })
+
+/**
+ * A zod schema for an item filter.
+ *
+ * An item matches the filter if it has any of the `tags`, or if its
+ * zero-based index is in `indices`.
+ */
+export const ItemFilterSchema = z
+  .object({
+    tags: nullifySchema(TagsSchema),
+    indices: z.array(ItemIndexSchema).nullish().meta({
+      title: 'Indices',
+      description: 'The zero-based indices of items to match.',
+    }),
+  })
+  .meta({
+    id: 'itemFilter',
+    title: 'Item Filter',
+    description: 'Items having any of the tags or indices match the filter.',
+  })
+
+/**
+ * A zod schema for the include and exclude filters of a section.
+ *
+ * The schema is shared by all sections, so that it is emitted once in the
+ * JSON schema and referenced by every section.
+ */
+const SectionFilterObjectSchema = z
+  .object({
+    include: nullifySchema(ItemFilterSchema).meta({
+      title: 'Include',
+      description: 'Keep only items matching this filter.',
+    }),
+    exclude: nullifySchema(ItemFilterSchema).meta({
+      title: 'Exclude',
+      description: 'Remove items matching this filter.',
+    }),
+  })
+  .meta({
+    id: 'sectionFilter',
+    title: 'Section Filter',
+    description: 'The include and exclude filters of a section.',
+  })
+
+/**
+ * A zod schema for the include and exclude filters of a section.
+ *
+ * @param section - The section to create the filter schema for.
+ * @returns A zod schema for the filters of a section.
+ */
+export function SectionFilterSchema(section: string) {
+  return SectionFilterObjectSchema.nullish().meta({
+    title: section,
+    description: `The include and exclude filters for ${section} section.`,
+  })
+}
+
+/**
+ * A zod schema for per-section content filters configuration.
+ *
+ * Filters are applied before rendering, so that one resume can produce
+ * several tailored outputs, e.g, only `work` items tagged `backend`, or only
+ * the first three `projects`.
+ */
+export const FiltersSchema = z.object({
+  filters: z
+    .object({
+      profiles: SectionFilterSchema('profiles'),
+      education: SectionFilterSchema('education'),
+      work: SectionFilterSchema('work'),
+      volunteer: SectionFilterSchema('volunteer'),
+      awards: SectionFilterSchema('awards'),
+      certificates: SectionFilterSchema('certificates'),
+      publications: SectionFilterSchema('publications'),
+      skills: SectionFilterSchema('skills'),
+      languages: SectionFilterSchema('languages'),
+      interests: SectionFilterSchema('interests'),
+      references: SectionFilterSchema('references'),
+      projects: SectionFilterSchema('projects'),
+    })
+    .nullish()
+    .meta({
+      title: 'Filters',
+      description: joinNonEmptyString(
+        [
+          'Per-section content filters selecting items by tags or indices,',
+          'applied before rendering the layout.',
+        ],
+        ' '
+      ),
+    }),
+})
@@ -24,7 +24,11 @@
 
 import { describe, expect, it } from 'vitest'
 
-import { FONT_SIZE_OPTIONS, LATEX_TEMPLATE_OPTIONS } from '@/models'
+import {
+  FONT_SIZE_OPTIONS,
+  HTML_THEME_OPTIONS,
+  LATEX_TEMPLATE_OPTIONS,
+} from '@/models'
 import { optionSchemaMessage } from '../primitives'
 import { expectSchemaMetadata, validateZodErrors } from '../zod'
 import { LayoutsSchema } from './layouts'
@@ -135,6 +139,61 @@ describe('LayoutsSchema', () => {
           },
         ],
       },
+      {
+        layouts: [
+          {
+            engine: 'html' as const,
+          },
+        ],
+      },
+      {
+        layouts: [
+          {
+            engine: 'html' as const,
+            theme: HTML_THEME_OPTIONS[1],
+            typography,
+            sections: {
+              order: ['work' as const, 'education' as const],
+            },
+          },
+        ],
+      },
+      {
+        layouts: [
+          {
+            engine: 'text' as const,
+            page: { lineWidth: 72 },
+          },
+          {
+            engine: 'html' as const,
+          },
+        ],
+      },
+      {
+        layouts: [
+          {
+            engine: 'typst' as const,
+            page: {
+              margins: { top: '1cm', bottom: '1cm' },
+              showPageNumbers: true,
+            },
+            typography: { fontSize: '11pt', links: { underline: true } },
+            sections: {
+              aliases: { work: 'Experience' },
+              order: ['work' as const, 'education' as const],
+            },
+          },
+        ],
+      },
+      {
+        layouts: [
+          {
+            engine: 'docx' as const,
+            page: { margins: { left: '1in' }, showPageNumbers: true },
+            typography: { fontSize: '12pt' },
+          },
+        ],
+      },
     ]
     for (const layout of tests) {
       expect(LayoutsSchema.parse(layout)).toStrictEqual(layout)
@@ -337,6 +396,65 @@ describe('LayoutsSchema', () => {
           },
         },
       },
+      {
+        layouts: [
+          {
+            engine: 'html',
+            theme: 'rainbow',
+          },
+        ],
+        error: {
+          errors: [],
+          properties: {
+            layouts: {
+              errors: [],
+              items: [
+                {
+                  errors: [],
+                  properties: {
+                    theme: {
+                      errors: [
+                        optionSchemaMessage(HTML_THEME_OPTIONS, 'html theme'),
+                      ],
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      {
+        layouts: [
+          {
+            engine: 'text',
+            page: { lineWidth: 20 },
+          },
+        ],
+        error: {
+          errors: [],
+          properties: {
+            layouts: {
+              errors: [],
+              items: [
+                {
+                  errors: [],
+                  properties: {
+                    page: {
+                      errors: [],
+                      properties: {
+                        lineWidth: {
+                          errors: ['line width should be 40 or more.'],
+                        },
+                      },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
     ]
 
     for (const { layouts, error } of tests) {
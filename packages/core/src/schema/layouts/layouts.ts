@@ -25,10 +25,15 @@
 import { z } from 'zod'
 
 import { joinNonEmptyString } from '@/utils'
+import { ColumnsSchema } from './columns'
+import { DatesSchema } from './dates'
+import { FieldsSchema } from './fields'
+import { FiltersSchema } from './filters'
 import { LatexSchema } from './latex'
-import { PageSchema } from './page'
+import { PageSchema, TextPageSchema } from './page'
 import { SectionsSchema } from './sections'
 import { TemplateSchema } from './template'
+import { ThemeSchema } from './theme'
 import { TypographySchema } from './typography'
 
 /**
@@ -44,6 +49,10 @@ const LatexLayoutSchema = z
     engine: z.literal('latex'),
     ...PageSchema.shape,
     ...SectionsSchema.shape,
+    ...FieldsSchema.shape,
+    ...FiltersSchema.shape,
+    ...DatesSchema.shape,
+    ...ColumnsSchema.shape,
     ...TemplateSchema.shape,
     ...TypographySchema.shape,
     ...LatexSchema.shape,
@@ -54,13 +63,70 @@ const MarkdownLayoutSchema = z
   .object({
     engine: z.literal('markdown'),
     ...SectionsSchema.shape,
+    ...FieldsSchema.shape,
+    ...FiltersSchema.shape,
+    ...DatesSchema.shape,
   })
   .meta({ title: 'Markdown Engine Layout' })
 
+const HtmlLayoutSchema = z
+  .object({
+    engine: z.literal('html'),
+    ...SectionsSchema.shape,
+    ...FieldsSchema.shape,
+    ...FiltersSchema.shape,
+    ...DatesSchema.shape,
+    ...ThemeSchema.shape,
+    ...TypographySchema.shape,
+  })
+  .meta({ title: 'HTML Engine Layout' })
+
+const TextLayoutSchema = z
+  .object({
+    engine: z.literal('text'),
+    ...TextPageSchema.shape,
+    ...SectionsSchema.shape,
+    ...FieldsSchema.shape,
+    ...FiltersSchema.shape,
+    ...DatesSchema.shape,
+  })
+  .meta({ title: 'Text Engine Layout' })
+
+const TypstLayoutSchema = z
+  .object({
+    engine: z.literal('typst'),
+    ...PageSchema.shape,
+    ...SectionsSchema.shape,
+    ...FieldsSchema.shape,
+    ...FiltersSchema.shape,
+    ...DatesSchema.shape,
+    ...TypographySchema.shape,
+  })
+  .meta({ title: 'Typst Engine Layout' })
+
+const DocxLayoutSchema = z
+  .object({
+    engine: z.literal('docx'),
+    ...PageSchema.shape,
+    ...SectionsSchema.shape,
+    ...FieldsSchema.shape,
+    ...FiltersSchema.shape,
+    ...DatesSchema.shape,
+    ...TypographySchema.shape,
+  })
+  .meta({ title: 'Docx Engine Layout' })
+
 export const LayoutsSchema = z.object({
   layouts: z
     .array(
-      z.discriminatedUnion('engine', [LatexLayoutSchema, MarkdownLayoutSchema])
+      z.discriminatedUnion('engine', [
+        LatexLayoutSchema,
+        MarkdownLayoutSchema,
+        HtmlLayoutSchema,
+        TextLayoutSchema,
+        TypstLayoutSchema,
+        DocxLayoutSchema,
+      ])
     )
     .nullish()
     .meta({
@@ -68,7 +134,8 @@ export const LayoutsSchema = z.object({
       description: joinNonEmptyString(
         [
           'Multiple output layouts configuration as a discriminated union array,',
-          'supporting engines like "latex" and "markdown".',
+          'supporting engines like "latex", "markdown", "html", "text",',
+          '"typst" and "docx".',
         ],
         ' '
       ),
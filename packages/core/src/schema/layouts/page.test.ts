@@ -25,7 +25,12 @@
 import { describe, expect, it } from 'vitest'
 
 import { expectSchemaMetadata, validateZodErrors } from '../zod'
-import { PageSchema, ShowPageNumbersSchema } from './page'
+import {
+  LineWidthSchema,
+  PageSchema,
+  ShowPageNumbersSchema,
+  TextPageSchema,
+} from './page'
 
 describe('ShowPageNumbersSchema', () => {
   it('should have correct metadata', () => {
@@ -77,3 +82,75 @@ describe('PageSchema', () => {
     }
   })
 })
+
+describe('LineWidthSchema', () => {
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(LineWidthSchema)
+  })
+
+  it('should validate a line width if it is valid', () => {
+    for (const lineWidth of [40, 72, 80, 200]) {
+      expect(LineWidthSchema.parse(lineWidth)).toBe(lineWidth)
+    }
+  })
+
+  it('should throw an error if line width is invalid', () => {
+    const tests = [
+      { lineWidth: 39, message: 'line width should be 40 or more.' },
+      { lineWidth: 201, message: 'line width should be 200 or less.' },
+      { lineWidth: 80.5, message: 'line width should be an integer.' },
+    ]
+
+    for (const { lineWidth, message } of tests) {
+      const result = LineWidthSchema.safeParse(lineWidth)
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0].message).toBe(message)
+    }
+  })
+})
+
+describe('TextPageSchema', () => {
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(TextPageSchema.shape.page)
+  })
+
+  it('should validate a page object if it is valid', () => {
+    const tests = [
+      {},
+      { page: {} },
+      { page: { lineWidth: 80 } },
+      { page: { lineWidth: null } },
+    ]
+
+    for (const page of tests) {
+      expect(TextPageSchema.parse(page)).toStrictEqual(page)
+    }
+  })
+
+  it('should throw an error if lineWidth is invalid', () => {
+    const tests = [
+      {
+        page: { lineWidth: '80' },
+        error: {
+          errors: [],
+          properties: {
+            page: {
+              errors: [],
+              properties: {
+                lineWidth: {
+                  errors: ['Invalid input: expected number, received string'],
+                },
+              },
+            },
+          },
+        },
+      },
+    ]
+
+    for (const { page, error } of tests) {
+      // @ts-ignore
+      validateZodErrors(TextPageSchema, { page }, error)
+    }
+  })
+})
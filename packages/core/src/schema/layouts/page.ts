@@ -36,6 +36,19 @@ export const ShowPageNumbersSchema = z.boolean().meta({
   description: 'Whether to show page numbers on the page.',
 })
 
+/**
+ * A zod schema for the line width setting of plain text layouts.
+ */
+export const LineWidthSchema = z
+  .number()
+  .int({ message: 'line width should be an integer.' })
+  .min(40, { message: 'line width should be 40 or more.' })
+  .max(200, { message: 'line width should be 200 or less.' })
+  .meta({
+    title: 'Line Width',
+    description: 'The maximum number of characters per line, from 40 to 200.',
+  })
+
 /**
  * A zod schema for validating page configuration.
  *
@@ -59,3 +72,26 @@ export const PageSchema = z.object({
       ),
     }),
 })
+
+/**
+ * A zod schema for validating page configuration of plain text layouts.
+ *
+ * Validates page-related settings such as the line width.
+ */
+export const TextPageSchema = z.object({
+  page: z
+    .object({
+      lineWidth: nullifySchema(LineWidthSchema),
+    })
+    .nullish()
+    .meta({
+      title: 'Page',
+      description: joinNonEmptyString(
+        [
+          'The page section contains page display settings,',
+          'including the maximum line width.',
+        ],
+        ' '
+      ),
+    }),
+})
@@ -31,6 +31,7 @@ import { validateZodErrors } from '../zod'
 import {
   AliasesSchema,
   AliasNameSchema,
+  HideSchema,
   OrderSchema,
   SectionsSchema,
 } from './sections'
@@ -201,6 +202,9 @@ describe('OrderSchema', () => {
       {
         order: ['work', 'education'],
       },
+      {
+        order: ['patents', 'work', 'open-source'],
+      },
     ]
 
     for (const test of tests) {
@@ -211,7 +215,7 @@ describe('OrderSchema', () => {
   it('should throw an error if order contains invalid section IDs', () => {
     const tests = [
       {
-        order: ['invalid-section', 'education'],
+        order: ['Invalid Section', 'education'],
         error: {
           errors: [],
           properties: {
@@ -229,7 +233,7 @@ describe('OrderSchema', () => {
         },
       },
       {
-        order: ['education', 'invalid-section'],
+        order: ['education', 'Invalid Section'],
         error: {
           errors: [],
           properties: {
@@ -299,6 +303,44 @@ describe('OrderSchema', () => {
   })
 })
 
+describe('HideSchema', () => {
+  it('should validate correct hide array', () => {
+    const tests = [
+      { hide: null },
+      { hide: undefined },
+      { hide: [] },
+      { hide: ['references'] },
+      { hide: ['references', 'interests', 'open-source'] },
+    ]
+
+    for (const test of tests) {
+      expect(HideSchema.parse(test)).toStrictEqual(test)
+    }
+  })
+
+  it('should throw an error if hide contains invalid section IDs', () => {
+    validateZodErrors(
+      HideSchema,
+      // @ts-ignore - Testing invalid input
+      { hide: ['references', 'Invalid Section'] },
+      {
+        errors: [],
+        properties: {
+          hide: {
+            errors: [],
+            items: [
+              undefined,
+              {
+                errors: [optionSchemaMessage(ORDERABLE_SECTION_IDS, 'section')],
+              },
+            ],
+          },
+        },
+      }
+    )
+  })
+})
+
 describe('SectionsSchema', () => {
   it('should validate correct sections object', () => {
     const basics = 'Basic Info'
@@ -433,7 +475,7 @@ describe('SectionsSchema', () => {
       {
         sections: {
           // @ts-ignore - Testing invalid input
-          order: ['invalid-section', 'education'],
+          order: ['Invalid Section', 'education'],
         },
         error: {
           errors: [],
@@ -25,7 +25,13 @@
 import { z } from 'zod'
 
 import { ORDERABLE_SECTION_IDS } from '@/models'
-import { optionSchema, SizedStringSchema } from '../primitives'
+import { joinNonEmptyString } from '@/utils'
+import { CustomSectionIdSchema } from '../content/custom'
+import {
+  optionSchema,
+  optionSchemaMessage,
+  SizedStringSchema,
+} from '../primitives'
 import { nullifySchema } from '../utils'
 
 /**
@@ -67,16 +73,84 @@ export const AliasesSchema = z.object({
     }),
 })
 
+/**
+ * Creates an error message for an invalid section option.
+ *
+ * @param customSectionIds - The ids of custom sections in the resume.
+ * @returns The error message.
+ */
+export function sectionOptionMessage(customSectionIds: string[] = []) {
+  return optionSchemaMessage(
+    [...ORDERABLE_SECTION_IDS, ...customSectionIds],
+    'section'
+  )
+}
+
+/**
+ * A zod schema for the id of a custom section used as a section option.
+ *
+ * Whether a custom section with the id exists is checked by `ResumeSchema`,
+ * because custom sections are defined in the content of the resume.
+ */
+const CustomSectionOptionSchema = z
+  .string()
+  .check((ctx) => {
+    if (!CustomSectionIdSchema.safeParse(ctx.value).success) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: sectionOptionMessage(),
+        // a non-aborting issue is reported alone by the union below, instead
+        // of being reported along with the issue of the builtin option
+        continue: true,
+      })
+    }
+  })
+  .meta({
+    title: 'Custom Section Option',
+    description: 'The id of a custom section.',
+  })
+
+/**
+ * A zod schema for a section option, either a builtin section or the id of a
+ * custom section.
+ */
+export const SectionOptionSchema = z
+  .union(
+    [optionSchema(ORDERABLE_SECTION_IDS, 'section'), CustomSectionOptionSchema],
+    { error: () => ({ message: sectionOptionMessage() }) }
+  )
+  .meta({
+    title: 'Section Option',
+    description: 'A builtin section option or the id of a custom section.',
+  })
+
 /**
  * A zod schema for section order configuration.
  */
 export const OrderSchema = z.object({
-  order: z
-    .array(optionSchema(ORDERABLE_SECTION_IDS, 'section'))
+  order: z.array(SectionOptionSchema).nullish().meta({
+    title: 'Order',
+    description: 'Custom order for sections in the final output.',
+  }),
+})
+
+/**
+ * A zod schema for hidden sections configuration.
+ */
+export const HideSchema = z.object({
+  hide: z
+    .array(SectionOptionSchema)
     .nullish()
     .meta({
-      title: 'Order',
-      description: 'Custom order for sections in the final output.',
+      title: 'Hide',
+      description: joinNonEmptyString(
+        [
+          'Sections removed from the final output, hiding "basics" removes the',
+          'summary only and keeps the name and contact details.',
+        ],
+        ' '
+      ),
     }),
 })
 
@@ -88,6 +162,7 @@ export const SectionsSchema = z.object({
     .object({
       ...AliasesSchema.shape,
       ...OrderSchema.shape,
+      ...HideSchema.shape,
     })
     .nullish()
     .meta({
@@ -0,0 +1,65 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { HTML_THEME_OPTIONS } from '@/models'
+import { optionSchemaMessage } from '../primitives'
+import { expectSchemaMetadata, validateZodErrors } from '../zod'
+import { ThemeSchema } from './theme'
+
+describe('ThemeSchema', () => {
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(ThemeSchema.shape.theme)
+  })
+
+  it('should validate a theme if it is valid', () => {
+    const tests = [{}, ...HTML_THEME_OPTIONS.map((theme) => ({ theme }))]
+
+    for (const theme of tests) {
+      expect(ThemeSchema.parse(theme)).toStrictEqual(theme)
+    }
+  })
+
+  it('should throw an error if the theme is invalid', () => {
+    const tests = [
+      {
+        theme: 'invalid-theme',
+        error: {
+          errors: [],
+          properties: {
+            theme: {
+              errors: [optionSchemaMessage(HTML_THEME_OPTIONS, 'html theme')],
+            },
+          },
+        },
+      },
+    ]
+
+    for (const { theme, error } of tests) {
+      // @ts-ignore
+      validateZodErrors(ThemeSchema, { theme }, error)
+    }
+  })
+})
@@ -23,3 +23,4 @@
  */
 
 export { LocaleSchema } from './locale'
+export { LocalePackSchema, loadLocalePack } from './pack'
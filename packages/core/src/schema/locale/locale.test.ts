@@ -39,6 +39,16 @@ describe('LocaleSchema', () => {
       {},
       { locale: {} },
       { locale: { language: LOCALE_LANGUAGE_OPTIONS[0] } },
+      {
+        locale: {
+          language: LOCALE_LANGUAGE_OPTIONS[0],
+          overrides: {
+            terms: { keywords: 'Tech stack' },
+            punctuations: { separator: ' · ' },
+            sections: { work: 'Experience' },
+          },
+        },
+      },
     ]
 
     for (const locale of tests) {
@@ -76,4 +86,18 @@ describe('LocaleSchema', () => {
       validateZodErrors(LocaleSchema, { locale }, error)
     }
   })
+  it('should throw an error if overrides translate unknown options', () => {
+    const tests = [
+      { terms: { stack: 'Tech stack' } },
+      { sections: { experience: 'Experience' } },
+      { degrees: { Bachelor: 42 } },
+    ]
+
+    for (const overrides of tests) {
+      expect(
+        LocaleSchema.safeParse({ locale: { language: 'en', overrides } })
+          .success
+      ).toBe(false)
+    }
+  })
 })
@@ -27,17 +27,19 @@ import { z } from 'zod'
 import { joinNonEmptyString } from '@/utils'
 import { LocaleLanguageOptionSchema } from '../primitives'
 import { nullifySchema } from '../utils'
+import { LocaleOverridesSchema } from './overrides'
 
 /**
  * A zod schema for validating locale configuration.
  *
  * Validates that the language field contains a supported locale language
- * option.
+ * option, and that overrides only translate known options.
  */
 export const LocaleSchema = z.object({
   locale: z
     .object({
       language: nullifySchema(LocaleLanguageOptionSchema),
+      overrides: LocaleOverridesSchema,
     })
     .nullish()
     .meta({
@@ -0,0 +1,107 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { startCase } from 'lodash-es'
+import { z } from 'zod'
+
+import { SECTION_IDS } from '@/models'
+import { PUNCTUATIONS, TERMS } from '@/translations/template'
+import { joinNonEmptyString } from '@/utils'
+import {
+  CountryOptionSchema,
+  DegreeOptionSchema,
+  FluencyOptionSchema,
+  LanguageOptionSchema,
+  LevelOptionSchema,
+  optionSchema,
+} from '../primitives'
+
+/**
+ * Creates a zod schema for the translations of a category, i.e, a map from
+ * options to their translations.
+ *
+ * @param keySchema - The schema of the options of the category.
+ * @param category - The name of the category.
+ * @returns A Zod schema for the translations of the category.
+ */
+function translationsSchema(
+  keySchema: z.ZodType<string, string>,
+  category: string
+) {
+  return z
+    .partialRecord(
+      keySchema,
+      z.string({ message: `${category} translation should be a string.` })
+    )
+    .nullish()
+    .meta({
+      title: startCase(category),
+      description: `Translations for ${category}, keyed by option.`,
+    })
+}
+
+/**
+ * A zod schema for overriding individual translations of a locale language,
+ * which is shared by `locale.overrides` and locale packs.
+ */
+export const TranslationsSchema = z.object({
+  punctuations: translationsSchema(
+    optionSchema(PUNCTUATIONS, 'punctuation'),
+    'punctuations'
+  ),
+  terms: translationsSchema(optionSchema(TERMS, 'term'), 'terms'),
+  countries: translationsSchema(CountryOptionSchema, 'countries'),
+  degrees: translationsSchema(DegreeOptionSchema, 'degrees'),
+  fluency: translationsSchema(FluencyOptionSchema, 'fluency'),
+  languages: translationsSchema(LanguageOptionSchema, 'languages'),
+  sections: translationsSchema(
+    optionSchema(SECTION_IDS, 'section'),
+    'sections'
+  ),
+  skills: translationsSchema(LevelOptionSchema, 'skills'),
+})
+
+/**
+ * A zod schema for validating locale overrides.
+ *
+ * Overrides take precedence over the translations of the selected locale
+ * language, e.g, `terms.keywords` renames "Keywords" to "Tech stack".
+ */
+export const LocaleOverridesSchema = TranslationsSchema.nullish().meta({
+  title: 'Overrides',
+  description: joinNonEmptyString(
+    [
+      'Overrides for individual translations of the locale language,',
+      'such as template terms, punctuations or section titles.',
+    ],
+    ' '
+  ),
+  examples: [
+    {
+      terms: { keywords: 'Tech stack' },
+      punctuations: { separator: ' · ' },
+      sections: { work: 'Experience' },
+    },
+  ],
+})
@@ -0,0 +1,100 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { YAMLResumeError } from '@/errors'
+import { getLocalePack, unregisterLocalePack } from '@/translations/pack'
+import { expectSchemaMetadata } from '../zod'
+import { LocalePackSchema, loadLocalePack } from './pack'
+
+describe('LocalePackSchema', () => {
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(LocalePackSchema)
+  })
+
+  it('should validate a locale pack if it is valid', () => {
+    const tests = [
+      { language: 'nl' },
+      { language: 'pt-BR', name: 'Brazilian Portuguese' },
+      { language: 'nl', terms: { keywords: 'Trefwoorden' } },
+    ]
+
+    for (const pack of tests) {
+      expect(LocalePackSchema.parse(pack)).toStrictEqual(pack)
+    }
+  })
+
+  it('should throw an error if the locale pack is invalid', () => {
+    const tests = [
+      {},
+      { language: 'not a tag' },
+      { language: 'en' },
+      { language: 'nl', terms: { stack: 'Tech stack' } },
+    ]
+
+    for (const pack of tests) {
+      expect(LocalePackSchema.safeParse(pack).success).toBe(false)
+    }
+  })
+})
+
+describe(loadLocalePack, () => {
+  afterEach(() => {
+    unregisterLocalePack('nl')
+  })
+
+  it('should load and register a locale pack', () => {
+    const { pack, warnings } = loadLocalePack(
+      JSON.stringify({ language: 'nl', name: 'Dutch' })
+    )
+
+    expect(pack).toEqual({ language: 'nl', name: 'Dutch' })
+    expect(getLocalePack('nl')).toEqual(pack)
+    expect(warnings).toHaveLength(8)
+  })
+
+  it('should throw an error for invalid JSON', () => {
+    expect(() => loadLocalePack('{ language: nl }')).toThrow(YAMLResumeError)
+
+    try {
+      loadLocalePack('{ language: nl }')
+    } catch (error) {
+      expect(error.code).toBe('INVALID_JSON')
+    }
+  })
+
+  it('should throw an error for invalid locale packs', () => {
+    try {
+      loadLocalePack(JSON.stringify({ language: 'en' }))
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(YAMLResumeError)
+      expect(error.code).toBe('INVALID_LOCALE_PACK')
+      expect(error.message).toContain('is a builtin locale language')
+    }
+
+    expect(getLocalePack('en')).toBeUndefined()
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { z } from 'zod'
+
+import { YAMLResumeError } from '@/errors'
+import { LOCALE_LANGUAGE_OPTIONS } from '@/models'
+import { type LocalePack, registerLocalePack } from '@/translations/pack'
+import { joinNonEmptyString } from '@/utils'
+import { TranslationsSchema } from './overrides'
+
+/**
+ * A zod schema for validating an external locale pack.
+ *
+ * The language of a locale pack should be a valid BCP 47 language tag which
+ * is not a builtin locale language, all translations are optional and fall
+ * back to English.
+ */
+export const LocalePackSchema = TranslationsSchema.extend({
+  language: z
+    .string({ message: 'locale pack language is required.' })
+    .check((ctx) => {
+      try {
+        Intl.getCanonicalLocales(ctx.value)
+      } catch (_e) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: 'locale pack language should be a valid BCP 47 tag.',
+        })
+        return
+      }
+
+      if ((LOCALE_LANGUAGE_OPTIONS as readonly string[]).includes(ctx.value)) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: joinNonEmptyString(
+            [
+              `locale pack language "${ctx.value}" is a builtin locale language,`,
+              'use `locale.overrides` to override its translations instead.',
+            ],
+            ' '
+          ),
+        })
+      }
+    })
+    .meta({
+      title: 'Language',
+      description: 'The locale language added by the locale pack.',
+      examples: ['nl', 'pt-br', 'sv'],
+    }),
+  name: z
+    .string()
+    .nullish()
+    .meta({
+      title: 'Name',
+      description: 'The human readable name of the locale language.',
+      examples: ['Dutch', 'Brazilian Portuguese', 'Swedish'],
+    }),
+}).meta({
+  title: 'Locale Pack',
+  description: 'Translations for a locale language which is not builtin.',
+})
+
+/**
+ * Load an external JSON locale pack and register it, so that its language can
+ * be used in `locale.language`.
+ *
+ * @param json - The content of the JSON locale pack.
+ * @returns The registered locale pack and warnings for translations missing
+ * from the pack, which fall back to English.
+ * @throws {YAMLResumeError} If the JSON is invalid or the locale pack fails
+ * the validation.
+ * @throws {Error} If the language of the locale pack is already registered.
+ */
+export function loadLocalePack(json: string): {
+  pack: LocalePack
+  warnings: string[]
+} {
+  let data: unknown
+
+  try {
+    data = JSON.parse(json)
+  } catch (error) {
+    throw new YAMLResumeError('INVALID_JSON', { error: error.message })
+  }
+
+  const result = LocalePackSchema.safeParse(data)
+
+  if (!result.success) {
+    throw new YAMLResumeError('INVALID_LOCALE_PACK', {
+      error: z.prettifyError(result.error),
+    })
+  }
+
+  const pack = result.data as LocalePack
+
+  return { pack, warnings: registerLocalePack(pack) }
+}
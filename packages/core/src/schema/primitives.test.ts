@@ -26,29 +26,41 @@ import { describe, expect, it } from 'vitest'
 
 import {
   COUNTRY_OPTIONS,
+  DATE_FORMAT_OPTIONS,
   DEGREE_OPTIONS,
   FLUENCY_OPTIONS,
   FONT_SIZE_OPTIONS,
   FONTSPEC_NUMBERS_OPTIONS,
+  HTML_THEME_OPTIONS,
   LANGUAGE_OPTIONS,
   LATEX_TEMPLATE_OPTIONS,
   LEVEL_OPTIONS,
   LOCALE_LANGUAGE_OPTIONS,
   NETWORK_OPTIONS,
 } from '@/models'
+import {
+  ModerncvBankingRenderer,
+  registerTemplate,
+  unregisterTemplate,
+} from '@/renderer'
+import { registerLocalePack, unregisterLocalePack } from '@/translations'
 
 import {
   CountryOptionSchema,
+  DateFormatOptionSchema,
   DateSchema,
   DegreeOptionSchema,
   EmailSchema,
   FluencyOptionSchema,
   FontSizeOptionSchema,
   FontspecNumbersOptionSchema,
+  HighlightsSchema,
+  HtmlThemeOptionSchema,
   KeywordsSchema,
   LanguageOptionSchema,
   LevelOptionSchema,
   LocaleLanguageOptionSchema,
+  LocalizedSchema,
   NameSchema,
   NetworkOptionSchema,
   OrganizationSchema,
@@ -56,6 +68,7 @@ import {
   PhoneSchema,
   SizedStringSchema,
   SummarySchema,
+  TagsSchema,
   TemplateOptionSchema,
   UrlSchema,
 } from './primitives'
@@ -101,6 +114,133 @@ describe('SizedStringSchema', () => {
   })
 })
 
+describe('LocalizedSchema', () => {
+  const schema = LocalizedSchema(
+    SizedStringSchema('string', 2, 10).meta({
+      title: 'String',
+      description: 'A string between 2 and 10 characters.',
+    })
+  )
+
+  it('should return a string or a localized string if it is valid', () => {
+    const tests = [
+      'aa',
+      { en: 'aa' },
+      { en: 'aa', 'zh-hans': '中文字符' },
+      { fr: 'a'.repeat(10) },
+    ]
+
+    for (const test of tests) {
+      expect(schema.parse(test)).toEqual(test)
+    }
+  })
+
+  it('should throw an error if a string or a localized string is invalid', () => {
+    const tests = [
+      {
+        string: 'a',
+        error: {
+          errors: ['string should be 2 characters or more.'],
+        },
+      },
+      {
+        string: undefined,
+        error: {
+          errors: [
+            'string is required.',
+            'Invalid input: expected record, received undefined',
+          ],
+        },
+      },
+      {
+        string: 123,
+        error: {
+          errors: [
+            'string is required.',
+            'Invalid input: expected record, received number',
+          ],
+        },
+      },
+      {
+        string: { en: 'a', 'zh-hans': 'aa' },
+        error: {
+          errors: [],
+          properties: {
+            en: { errors: ['string should be 2 characters or more.'] },
+          },
+        },
+      },
+      {
+        string: { en: 'aa', 'zh-hans': 3 },
+        error: {
+          errors: ['string is required.'],
+          properties: {
+            'zh-hans': { errors: ['string is required.'] },
+          },
+        },
+      },
+      {
+        string: { en: 'aa', xx: 'aa' },
+        error: {
+          errors: [],
+          properties: {
+            xx: {
+              errors: [
+                optionSchemaMessage(LOCALE_LANGUAGE_OPTIONS, 'locale language'),
+              ],
+            },
+          },
+        },
+      },
+      {
+        string: {},
+        error: {
+          errors: ['localized string should have at least one language.'],
+        },
+      },
+    ]
+
+    for (const { string, error } of tests) {
+      // biome-ignore lint/suspicious/noExplicitAny: ignore
+      validateZodErrors(schema, string as any, error)
+    }
+  })
+
+  it('should report a single message if neither option matches', () => {
+    const tests = [
+      { string: undefined, message: 'string is required.' },
+      { string: 123, message: 'string is required.' },
+      {
+        string: { en: 'aa', 'zh-hans': 3 },
+        message: 'localized string values should be strings.',
+      },
+    ]
+
+    for (const { string, message } of tests) {
+      const { issues } = schema.safeParse(string).error
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0].code).toBe('invalid_union')
+      expect(issues[0].message).toBe(message)
+    }
+  })
+
+  it('should accept languages of registered locale packs', () => {
+    registerLocalePack({ language: 'nl' })
+    expect(schema.parse({ nl: 'aa' })).toEqual({ nl: 'aa' })
+    unregisterLocalePack('nl')
+
+    expect(schema.safeParse({ nl: 'aa' }).success).toBe(false)
+  })
+
+  it('should have the metadata of the string schema', () => {
+    expect(schema.meta()).toEqual({
+      title: 'String',
+      description: 'A string between 2 and 10 characters.',
+    })
+  })
+})
+
 describe('CountryOptionSchema', () => {
   it('should return a country if it is valid', () => {
     for (const country of COUNTRY_OPTIONS) {
@@ -196,6 +336,39 @@ describe('DateSchema', () => {
   })
 })
 
+describe('DateFormatOptionSchema', () => {
+  it('should return a date format if it is valid', () => {
+    for (const format of DATE_FORMAT_OPTIONS) {
+      expect(DateFormatOptionSchema.parse(format)).toBe(format)
+    }
+  })
+
+  it('should throw an error if the date format is invalid', () => {
+    const tests = [
+      {
+        format: 'DD/MM/YYYY',
+        error: {
+          errors: [optionSchemaMessage(DATE_FORMAT_OPTIONS, 'date format')],
+        },
+      },
+      {
+        format: undefined,
+        error: {
+          errors: ['date format option is required.'],
+        },
+      },
+    ]
+
+    for (const { format, error } of tests) {
+      validateZodErrors(DateFormatOptionSchema, format, error)
+    }
+  })
+
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(DateFormatOptionSchema)
+  })
+})
+
 describe('DegreeOptionSchema', () => {
   it('should return a degree if it is valid', () => {
     for (const degree of DEGREE_OPTIONS) {
@@ -350,6 +523,85 @@ describe('FontSizeOptionSchema', () => {
   })
 })
 
+describe('HtmlThemeOptionSchema', () => {
+  it('should return a theme if it is valid', () => {
+    for (const theme of HTML_THEME_OPTIONS) {
+      expect(HtmlThemeOptionSchema.parse(theme)).toBe(theme)
+    }
+  })
+
+  it('should throw an error if the theme is invalid', () => {
+    const tests = [
+      {
+        theme: 'rainbow',
+        error: {
+          errors: [optionSchemaMessage(HTML_THEME_OPTIONS, 'html theme')],
+        },
+      },
+      {
+        theme: undefined,
+        error: {
+          errors: ['html theme option is required.'],
+        },
+      },
+    ]
+
+    for (const { theme, error } of tests) {
+      validateZodErrors(HtmlThemeOptionSchema, theme, error)
+    }
+  })
+
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(HtmlThemeOptionSchema)
+  })
+})
+
+describe('HighlightsSchema', () => {
+  it('should return an array of highlights if they are valid', () => {
+    const tests = [[], ['Did something', 'Did another thing']]
+
+    for (const highlights of tests) {
+      expect(HighlightsSchema.parse(highlights)).toEqual(highlights)
+    }
+  })
+
+  it('should throw an error if the highlights are invalid', () => {
+    const tests = [
+      {
+        highlights: ['a', 'Did something'],
+        error: {
+          errors: [],
+          items: [
+            {
+              errors: ['highlight should be 2 characters or more.'],
+            },
+          ],
+        },
+      },
+      {
+        highlights: ['Did something', 'a'.repeat(257)],
+        error: {
+          errors: [],
+          items: [
+            undefined,
+            {
+              errors: ['highlight should be 256 characters or less.'],
+            },
+          ],
+        },
+      },
+    ]
+
+    for (const { highlights, error } of tests) {
+      validateZodErrors(HighlightsSchema, highlights, error)
+    }
+  })
+
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(HighlightsSchema)
+  })
+})
+
 describe('KeywordsSchema', () => {
   it('should return an array of keywords if they are valid', () => {
     const tests = [[], ['keyword 1', 'keyword 2']]
@@ -592,6 +844,26 @@ describe('LocaleLanguageOptionSchema', () => {
     }
   })
 
+  it('should accept languages of registered locale packs', () => {
+    registerLocalePack({ language: 'nl' })
+
+    try {
+      expect(LocaleLanguageOptionSchema.parse('nl')).toBe('nl')
+      validateZodErrors(LocaleLanguageOptionSchema, 'sv', {
+        errors: [
+          optionSchemaMessage(
+            [...LOCALE_LANGUAGE_OPTIONS, 'nl'],
+            'locale language'
+          ),
+        ],
+      })
+    } finally {
+      unregisterLocalePack('nl')
+    }
+
+    expect(LocaleLanguageOptionSchema.safeParse('nl').success).toBe(false)
+  })
+
   it('should have correct metadata', () => {
     expectSchemaMetadata(LocaleLanguageOptionSchema)
   })
@@ -675,7 +947,10 @@ describe('NameSchema', () => {
       {
         name: undefined,
         error: {
-          errors: ['name is required.'],
+          errors: [
+            'name is required.',
+            'Invalid input: expected record, received undefined',
+          ],
         },
       },
     ]
@@ -719,7 +994,10 @@ describe('OrganizationSchema', () => {
       {
         organization: undefined,
         error: {
-          errors: ['Organization is required.'],
+          errors: [
+            'Organization is required.',
+            'Invalid input: expected record, received undefined',
+          ],
         },
       },
     ]
@@ -819,7 +1097,10 @@ describe('SummarySchema', () => {
       {
         summary: undefined,
         error: {
-          errors: ['summary is required.'],
+          errors: [
+            'summary is required.',
+            'Invalid input: expected record, received undefined',
+          ],
         },
       },
     ]
@@ -834,6 +1115,27 @@ describe('SummarySchema', () => {
   })
 })
 
+describe('TagsSchema', () => {
+  it('should return an array of tags if they are valid', () => {
+    const tests = [[], ['backend', 'python']]
+
+    for (const tags of tests) {
+      expect(TagsSchema.parse(tags)).toEqual(tags)
+    }
+  })
+
+  it('should throw an error if the tags are invalid', () => {
+    validateZodErrors(TagsSchema, ['backend', ''], {
+      errors: [],
+      items: [undefined, { errors: ['tag should be 1 characters or more.'] }],
+    })
+  })
+
+  it('should have correct metadata', () => {
+    expectSchemaMetadata(TagsSchema)
+  })
+})
+
 describe('TemplateOptionSchema', () => {
   it('should return a template option if it is valid', () => {
     for (const template of LATEX_TEMPLATE_OPTIONS) {
@@ -862,6 +1164,18 @@ describe('TemplateOptionSchema', () => {
     }
   })
 
+  it('should accept custom registered templates', () => {
+    registerTemplate('acme', ModerncvBankingRenderer)
+
+    try {
+      expect(TemplateOptionSchema.parse('acme')).toBe('acme')
+    } finally {
+      unregisterTemplate('acme')
+    }
+
+    expect(TemplateOptionSchema.safeParse('acme').success).toBe(false)
+  })
+
   it('should have correct metadata', () => {
     expectSchemaMetadata(TemplateOptionSchema)
   })
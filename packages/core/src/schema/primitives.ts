@@ -21,15 +21,17 @@
  * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
  * IN THE SOFTWARE.
  */
-import { startCase } from 'lodash-es'
+import { isPlainObject, omit, startCase } from 'lodash-es'
 import { z } from 'zod'
 
 import {
   COUNTRY_OPTIONS,
+  DATE_FORMAT_OPTIONS,
   DEGREE_OPTIONS,
   FLUENCY_OPTIONS,
   FONT_SIZE_OPTIONS,
   FONTSPEC_NUMBERS_OPTIONS,
+  HTML_THEME_OPTIONS,
   LANGUAGE_OPTIONS,
   LATEX_TEMPLATE_OPTIONS,
   LEVEL_OPTIONS,
@@ -37,6 +39,10 @@ import {
   NETWORK_OPTIONS,
   type ORDERABLE_SECTION_IDS,
 } from '@/models'
+import {
+  getLocaleLanguageIds,
+  getRegisteredLocalePacks,
+} from '@/translations/pack'
 import { joinNonEmptyString } from '@/utils'
 
 /**
@@ -44,16 +50,19 @@ import { joinNonEmptyString } from '@/utils'
  */
 type Options =
   | typeof COUNTRY_OPTIONS
+  | typeof DATE_FORMAT_OPTIONS
   | typeof DEGREE_OPTIONS
   | typeof FONTSPEC_NUMBERS_OPTIONS
   | typeof FONT_SIZE_OPTIONS
   | typeof FLUENCY_OPTIONS
+  | typeof HTML_THEME_OPTIONS
   | typeof LANGUAGE_OPTIONS
   | typeof LOCALE_LANGUAGE_OPTIONS
   | typeof LEVEL_OPTIONS
   | typeof NETWORK_OPTIONS
   | typeof LATEX_TEMPLATE_OPTIONS
   | typeof ORDERABLE_SECTION_IDS
+  | readonly string[]
 
 /**
  * Creates an error message for an optionSchema
@@ -116,6 +125,61 @@ export const SizedStringSchema = (name: string, min: number, max: number) => {
     .max(max, { message: `${name} should be ${max} characters or less.` })
 }
 
+/**
+ * Creates a zod schema for a string field which can also be written as a
+ * localized string, i.e, a map of locale languages to values, e.g,
+ * `{ en: 'Engineer', zh-hans: '工程师' }`.
+ *
+ * Keys are checked against the locale languages at validation time, so that
+ * languages of registered locale packs are accepted as well.
+ *
+ * Values which match neither option are reported with the message of the
+ * original schema, e.g, `name is required.`, or with a dedicated message for
+ * maps with non-string values.
+ *
+ * @param schema - The schema of the string and the values of the map.
+ * @returns A Zod schema for a localizable string, with the same metadata as
+ * the original schema.
+ */
+export function LocalizedSchema(schema: z.ZodType<string>) {
+  const LocalizedStringSchema = z.record(z.string(), schema).check((ctx) => {
+    const languages = getLocaleLanguageIds()
+
+    if (Object.keys(ctx.value).length === 0) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: 'localized string should have at least one language.',
+        continue: true,
+      })
+    }
+
+    for (const language of Object.keys(ctx.value)) {
+      if (!languages.includes(language)) {
+        ctx.issues.push({
+          code: 'custom',
+          input: language,
+          message: optionSchemaMessage(languages, 'locale language'),
+          path: [language],
+          continue: true,
+        })
+      }
+    }
+  })
+
+  // ids are unique in the zod registry, so they are kept by the original schema
+  return z
+    .union([schema, LocalizedStringSchema], {
+      // values which are neither strings nor maps of strings are reported
+      // with the messages of the string schema, e.g, `name is required.`
+      error: (issue) =>
+        isPlainObject(issue.input)
+          ? 'localized string values should be strings.'
+          : schema.safeParse(issue.input).error?.issues[0]?.message,
+    })
+    .meta(omit(schema.meta(), 'id'))
+}
+
 /**
  * A zod schema for a country option.
  */
@@ -184,6 +248,14 @@ export function DateSchema(date: string) {
     })
 }
 
+/**
+ * A zod schema for a date format option.
+ */
+export const DateFormatOptionSchema = optionSchema(
+  DATE_FORMAT_OPTIONS,
+  'date format'
+)
+
 /**
  * A zod schema for a degree option.
  */
@@ -221,11 +293,39 @@ export const FontspecNumbersOptionSchema = optionSchema(
  */
 export const FontSizeOptionSchema = optionSchema(FONT_SIZE_OPTIONS, 'font size')
 
+/**
+ * A zod schema for a highlights array.
+ *
+ * Highlights are rendered as a bullet list after the summary.
+ */
+export const HighlightsSchema = z
+  .array(LocalizedSchema(SizedStringSchema('highlight', 2, 256)))
+  .meta({
+    id: 'highlights',
+    title: 'Highlights',
+    description: 'An array of highlight, each between 2 and 256 characters.',
+    examples: [
+      [
+        'Led the migration of a monolith to microservices',
+        'Reduced the p99 latency by 40%',
+      ],
+      ['Organized monthly meetups with 100+ attendees'],
+    ],
+  })
+
+/**
+ * A zod schema for a theme option in html layout.
+ */
+export const HtmlThemeOptionSchema = optionSchema(
+  HTML_THEME_OPTIONS,
+  'html theme'
+)
+
 /**
  * A zod schema for a keywords array.
  */
 export const KeywordsSchema = z
-  .array(SizedStringSchema('keyword', 1, 32))
+  .array(LocalizedSchema(SizedStringSchema('keyword', 1, 32)))
   .meta({
     id: 'keywords',
     title: 'Keywords',
@@ -242,13 +342,52 @@ export const KeywordsSchema = z
  */
 export const LanguageOptionSchema = optionSchema(LANGUAGE_OPTIONS, 'language')
 
+/**
+ * A zod schema for a locale language option registered via a locale pack.
+ *
+ * The registry is looked up at validation time, any other value, including
+ * `undefined`, is reported by a non-aborting issue, so that the union below
+ * reports it alone instead of along with the issue of the builtin options.
+ */
+const RegisteredLocaleLanguageOptionSchema = z.any().check((ctx) => {
+  if (
+    getRegisteredLocalePacks().some(({ language }) => language === ctx.value)
+  ) {
+    return
+  }
+
+  ctx.issues.push({
+    code: 'custom',
+    input: ctx.value,
+    message:
+      ctx.value === undefined
+        ? 'locale language option is required.'
+        : optionSchemaMessage(getLocaleLanguageIds(), 'locale language'),
+    continue: true,
+  })
+})
+
 /**
  * A zod schema for a locale language option.
+ *
+ * Besides the builtin options, languages of locale packs registered via
+ * `registerLocalePack` or `loadLocalePack` are accepted as well.
  */
-export const LocaleLanguageOptionSchema = optionSchema(
-  LOCALE_LANGUAGE_OPTIONS,
-  'locale language'
-)
+export const LocaleLanguageOptionSchema = z
+  .union([
+    optionSchema(LOCALE_LANGUAGE_OPTIONS, 'locale language'),
+    RegisteredLocaleLanguageOptionSchema,
+  ])
+  .meta({
+    title: 'Locale Language Option',
+    description: joinNonEmptyString(
+      [
+        'A predefined option from the available locale language choices',
+        'or the language of a registered locale pack.',
+      ],
+      ' '
+    ),
+  })
 
 /**
  * A zod schema for a level option.
@@ -262,11 +401,18 @@ export const LevelOptionSchema = optionSchema(LEVEL_OPTIONS, 'level')
  * @returns A Zod schema for a name string.
  */
 export const NameSchema = (name: string) =>
-  SizedStringSchema(name, 2, 128).meta({
-    title: startCase(name),
-    description: `A ${name} between 2 and 128 characters.`,
-    examples: ['Andy Dufresne', 'Xiao Hanyu', 'Jane Smith', 'Dr. Robert John'],
-  })
+  LocalizedSchema(
+    SizedStringSchema(name, 2, 128).meta({
+      title: startCase(name),
+      description: `A ${name} between 2 and 128 characters.`,
+      examples: [
+        'Andy Dufresne',
+        'Xiao Hanyu',
+        'Jane Smith',
+        'Dr. Robert John',
+      ],
+    })
+  )
 
 /**
  * A zod schema for a network.
@@ -302,28 +448,30 @@ export const PhoneSchema = z
 /**
  * A zod schema for a summary.
  */
-export const SummarySchema = SizedStringSchema('summary', 16, 1024).meta({
-  id: 'summary',
-  title: 'Summary',
-  description: 'A summary text between 16 and 1024 characters.',
-  examples: [
-    'Experienced software engineer with 5+ years in full-stack development.',
-    joinNonEmptyString(
-      [
-        'Creative designer passionate about',
-        'user experience and modern design principles.',
-      ],
-      ' '
-    ),
-    joinNonEmptyString(
-      [
-        'Dedicated project manager with proven track record of',
-        'delivering complex projects on time and budget.',
-      ],
-      ' '
-    ),
-  ],
-})
+export const SummarySchema = LocalizedSchema(
+  SizedStringSchema('summary', 16, 1024).meta({
+    id: 'summary',
+    title: 'Summary',
+    description: 'A summary text between 16 and 1024 characters.',
+    examples: [
+      'Experienced software engineer with 5+ years in full-stack development.',
+      joinNonEmptyString(
+        [
+          'Creative designer passionate about',
+          'user experience and modern design principles.',
+        ],
+        ' '
+      ),
+      joinNonEmptyString(
+        [
+          'Dedicated project manager with proven track record of',
+          'delivering complex projects on time and budget.',
+        ],
+        ' '
+      ),
+    ],
+  })
+)
 
 /**
  * Creates a zod schema for an organization.
@@ -332,24 +480,99 @@ export const SummarySchema = SizedStringSchema('summary', 16, 1024).meta({
  * @returns A Zod schema for an organization.
  */
 export const OrganizationSchema = (name: string) =>
-  SizedStringSchema(name, 2, 128).meta({
-    title: startCase(name),
-    description: 'An organization name between 2 and 128 characters.',
-    examples: [
-      'Google Inc.',
-      'Microsoft Corporation',
-      'Startup XYZ',
-      'Non-Profit Organization',
+  LocalizedSchema(
+    SizedStringSchema(name, 2, 128).meta({
+      title: startCase(name),
+      description: 'An organization name between 2 and 128 characters.',
+      examples: [
+        'Google Inc.',
+        'Microsoft Corporation',
+        'Startup XYZ',
+        'Non-Profit Organization',
+      ],
+    })
+  )
+
+/**
+ * A zod schema for a tags array.
+ *
+ * Tags are not rendered, they are used by layout filters to select items.
+ */
+export const TagsSchema = z.array(SizedStringSchema('tag', 1, 32)).meta({
+  id: 'tags',
+  title: 'Tags',
+  description: joinNonEmptyString(
+    [
+      'An array of tags, each between 1 and 32 characters,',
+      'used by layout filters to select items.',
     ],
-  })
+    ' '
+  ),
+  examples: [['backend', 'python'], ['frontend'], ['research', 'academia']],
+})
+
+/**
+ * Get the ids of templates accepted by `TemplateOptionSchema`, which are the
+ * builtin templates unless another lookup is set.
+ */
+let getTemplateOptions: () => readonly string[] = () => LATEX_TEMPLATE_OPTIONS
+
+/**
+ * Set the lookup of templates accepted by `TemplateOptionSchema`.
+ *
+ * The schema does not depend on the renderer layer, the template registry
+ * sets its lookup instead, so that templates registered via
+ * `registerTemplate` are accepted as well.
+ *
+ * @param lookup - Get the ids of all accepted templates.
+ */
+export function setTemplateOptionsLookup(lookup: () => readonly string[]) {
+  getTemplateOptions = lookup
+}
 
 /**
  * A zod schema for a template option.
+ *
+ * Unlike other option schemas, the valid options are not fixed, they are
+ * looked up at validation time, see `setTemplateOptionsLookup`.
  */
-export const TemplateOptionSchema = optionSchema(
-  LATEX_TEMPLATE_OPTIONS,
-  'template'
-)
+export const TemplateOptionSchema = z
+  .string({
+    error: (issue) => {
+      if (issue.input === undefined) {
+        return {
+          message: 'template option is required.',
+        }
+      }
+
+      return {
+        message: optionSchemaMessage(getTemplateOptions(), 'template'),
+      }
+    },
+  })
+  .check((ctx) => {
+    const templates = getTemplateOptions()
+
+    if (!templates.includes(ctx.value)) {
+      ctx.issues.push({
+        code: 'invalid_value',
+        input: ctx.value,
+        message: optionSchemaMessage(templates, 'template'),
+        values: [...templates],
+      })
+    }
+  })
+  .meta({
+    title: 'Template Option',
+    description: joinNonEmptyString(
+      [
+        'A builtin template option',
+        'or a custom template registered via `registerTemplate`.',
+      ],
+      ' '
+    ),
+    examples: [...LATEX_TEMPLATE_OPTIONS],
+  })
 
 /**
  * A zod schema for a url.
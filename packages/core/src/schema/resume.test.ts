@@ -30,7 +30,8 @@ import { z } from 'zod'
 
 import type { Resume } from '@/models'
 
-import { ResumeSchema } from './resume'
+import { sectionOptionMessage } from './layouts/sections'
+import { missingTranslationsMessage, ResumeSchema } from './resume'
 import { validateZodErrors } from './zod'
 
 const __filename = fileURLToPath(import.meta.url)
@@ -121,6 +122,19 @@ describe('ResumeSchema', () => {
           },
         ],
       },
+      {
+        content: {
+          ...minimalResume.content,
+          custom: [{ id: 'talks', title: 'Talks', items: [] }],
+        },
+        layouts: [
+          {
+            engine: 'latex',
+            sections: { order: ['talks', 'education'], hide: ['talks'] },
+            columns: { sidebar: ['talks'] },
+          },
+        ],
+      },
     ]
 
     for (const resume of tests) {
@@ -272,6 +286,144 @@ describe('ResumeSchema', () => {
     }
   })
 
+  it('should throw an error if a section option is not a custom section', () => {
+    validateZodErrors(
+      ResumeSchema,
+      {
+        content: {
+          ...minimalResume.content,
+          custom: [{ id: 'talks', title: 'Talks', items: [] }],
+        },
+        layouts: [
+          { engine: 'markdown', sections: { order: ['talks', 'patents'] } },
+          { engine: 'latex', columns: { main: ['patents'] } },
+          { engine: 'html', sections: { hide: ['patents'] } },
+        ],
+      },
+      {
+        errors: [],
+        properties: {
+          layouts: {
+            errors: [],
+            items: [
+              {
+                errors: [],
+                properties: {
+                  sections: {
+                    errors: [],
+                    properties: {
+                      order: {
+                        errors: [],
+                        items: [
+                          undefined,
+                          { errors: [sectionOptionMessage(['talks'])] },
+                        ],
+                      },
+                    },
+                  },
+                },
+              },
+              {
+                errors: [],
+                properties: {
+                  columns: {
+                    errors: [],
+                    properties: {
+                      main: {
+                        errors: [],
+                        items: [{ errors: [sectionOptionMessage(['talks'])] }],
+                      },
+                    },
+                  },
+                },
+              },
+              {
+                errors: [],
+                properties: {
+                  sections: {
+                    errors: [],
+                    properties: {
+                      hide: {
+                        errors: [],
+                        items: [{ errors: [sectionOptionMessage(['talks'])] }],
+                      },
+                    },
+                  },
+                },
+              },
+            ],
+          },
+        },
+      }
+    )
+  })
+
+  it('should validate a resume with localized strings', () => {
+    const resume = {
+      content: {
+        basics: {
+          name: { en: 'John Doe', 'zh-hans': '约翰·多伊' },
+        },
+        education: [
+          {
+            ...minimalResume.content.education[0],
+            area: { en: 'Computer Science', 'zh-hans': '计算机科学' },
+          },
+        ],
+      },
+    }
+
+    expect(ResumeSchema.parse(resume)).toEqual(resume)
+  })
+
+  it('should throw an error if a localized string is missing translations', () => {
+    validateZodErrors(
+      ResumeSchema,
+      {
+        content: {
+          basics: {
+            name: { en: 'John Doe', 'zh-hans': '约翰·多伊' },
+          },
+          education: [
+            {
+              ...minimalResume.content.education[0],
+              area: { en: 'Computer Science', fr: 'Informatique' },
+            },
+          ],
+        },
+      },
+      {
+        errors: [],
+        properties: {
+          content: {
+            errors: [],
+            properties: {
+              basics: {
+                errors: [],
+                properties: {
+                  name: { errors: [missingTranslationsMessage(['fr'])] },
+                },
+              },
+              education: {
+                errors: [],
+                items: [
+                  {
+                    errors: [],
+                    properties: {
+                      area: {
+                        errors: [missingTranslationsMessage(['zh-hans'])],
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      }
+    )
+  })
+
   describe('should generate a valid json schema', () => {
     it('should generate a valid json schema', () => {
       const jsonSchema = z.toJSONSchema(ResumeSchema)
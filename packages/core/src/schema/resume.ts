@@ -24,12 +24,42 @@
 
 import { z } from 'zod'
 
+import { findMissingTranslations } from '@/converter/localize'
+import { ORDERABLE_SECTION_IDS, type Resume } from '@/models'
 import { ContentSchema } from './content'
 import { LayoutsSchema } from './layouts'
+import { sectionOptionMessage } from './layouts/sections'
 import { LocaleSchema } from './locale'
 
+/**
+ * Section options of a layout, i.e, `sections.order`, `sections.hide` and
+ * `columns`.
+ */
+type LayoutSectionOptions = {
+  sections?: { order?: string[] | null; hide?: string[] | null } | null
+  columns?: { sidebar?: string[] | null; main?: string[] | null } | null
+}
+
+/**
+ * Creates an error message for a localized string missing translations.
+ *
+ * @param languages - The languages missing a translation.
+ * @returns The error message.
+ */
+export function missingTranslationsMessage(languages: string[]) {
+  return `translation is missing for locale language(s): ${languages
+    .map((language) => `"${language}"`)
+    .join(', ')}.`
+}
+
 /**
  * A zod schema for a yaml resume.
+ *
+ * Section options in layouts may refer to custom sections, so they are checked
+ * against the custom sections defined in the content.
+ *
+ * Localized strings are checked against the languages used by all localized
+ * strings in the content, so that missing translations are reported.
  */
 export const ResumeSchema = z
   .object({
@@ -37,6 +67,49 @@ export const ResumeSchema = z
     ...LocaleSchema.shape,
     ...LayoutsSchema.shape,
   })
+  .check((ctx) => {
+    const customSectionIds = (ctx.value.content.custom ?? []).map(
+      ({ id }) => id
+    )
+    const validSectionIds: string[] = [
+      ...ORDERABLE_SECTION_IDS,
+      ...customSectionIds,
+    ]
+
+    ctx.value.layouts?.forEach((layout, layoutIndex) => {
+      const { sections, columns } = layout as LayoutSectionOptions
+      const sectionOptions: [string[], string[]][] = [
+        [sections?.order, ['sections', 'order']],
+        [sections?.hide, ['sections', 'hide']],
+        [columns?.sidebar, ['columns', 'sidebar']],
+        [columns?.main, ['columns', 'main']],
+      ]
+
+      for (const [options, path] of sectionOptions) {
+        options?.forEach((option, index) => {
+          if (!validSectionIds.includes(option)) {
+            ctx.issues.push({
+              code: 'custom',
+              input: option,
+              message: sectionOptionMessage(customSectionIds),
+              path: ['layouts', layoutIndex, ...path, index],
+            })
+          }
+        })
+      }
+    })
+
+    for (const { path, value, languages } of findMissingTranslations(
+      ctx.value as Resume
+    )) {
+      ctx.issues.push({
+        code: 'custom',
+        input: value,
+        message: missingTranslationsMessage(languages),
+        path,
+      })
+    }
+  })
   .meta({
     $id: 'https://yamlresume.dev/schema.json',
     title: 'YAMLResume Schema',
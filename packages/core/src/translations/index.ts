@@ -23,4 +23,5 @@
  */
 
 export * from './options'
+export * from './pack'
 export * from './template'
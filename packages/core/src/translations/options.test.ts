@@ -85,6 +85,70 @@ describe(getOptionTranslation, () => {
           },
         },
       },
+      {
+        language: 'de',
+        expected: {
+          education: {
+            Bachelor: 'Bachelor',
+          },
+        },
+      },
+      {
+        language: 'ja',
+        expected: {
+          education: {
+            Bachelor: '学士',
+          },
+        },
+      },
+      {
+        language: 'pt',
+        expected: {
+          education: {
+            Bachelor: 'Bacharelado',
+          },
+        },
+      },
+      {
+        language: 'it',
+        expected: {
+          education: {
+            Bachelor: 'Laurea triennale',
+          },
+        },
+      },
+      {
+        language: 'ko',
+        expected: {
+          education: {
+            Bachelor: '학사',
+          },
+        },
+      },
+      {
+        language: 'ar',
+        expected: {
+          education: {
+            Bachelor: 'بكالوريوس',
+          },
+        },
+      },
+      {
+        language: 'he',
+        expected: {
+          education: {
+            Bachelor: 'תואר ראשון',
+          },
+        },
+      },
+      {
+        language: 'fa',
+        expected: {
+          education: {
+            Bachelor: 'کارشناسی',
+          },
+        },
+      },
     ] as const
 
     tests.forEach((test) => {
@@ -98,3 +162,22 @@ describe(getOptionTranslation, () => {
     })
   })
 })
+
+describe('getOptionTranslation with overrides', () => {
+  it('should prefer overridden translations', () => {
+    const overrides = {
+      sections: { work: 'Experience' },
+      degrees: { Bachelor: 'B.Sc.' },
+    }
+
+    expect(getOptionTranslation('en', 'sections', 'work', overrides)).toEqual(
+      'Experience'
+    )
+    expect(
+      getOptionTranslation('zh-hans', 'degrees', 'Bachelor', overrides)
+    ).toEqual('B.Sc.')
+    expect(
+      getOptionTranslation('en', 'sections', 'education', overrides)
+    ).toEqual(getOptionTranslation('en', 'sections', 'education'))
+  })
+})
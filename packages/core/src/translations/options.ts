@@ -31,18 +31,29 @@ import type {
   Language,
   Level,
   LocaleLanguage,
+  LocaleOverrides,
   SectionID,
 } from '@/models'
 
 import {
+  ArabicCountryNames,
   EnglishCountryNames,
+  FarsiCountryNames,
   FrenchCountryNames,
+  GermanCountryNames,
+  HebrewCountryNames,
+  ItalianCountryNames,
+  JapaneseCountryNames,
+  KoreanCountryNames,
   NorwegianCountryNames,
+  PortugueseCountryNames,
   SimplifiedChineseCountryNames,
   SpanishCountryNames,
   TraditionalChineseCountryHKNames,
   TraditionalChineseCountryTWNames,
 } from '@/models'
+import { isEmptyValue } from '@/utils'
+import { getLocalePack } from './pack'
 
 /** Defines the structure for translated terms for a single language. */
 type OptionTranslation = {
@@ -71,15 +82,23 @@ type OptionsTranslations = Record<LocaleLanguage, OptionTranslation>
  * Includes translations for degrees, languages, fluencies, countries, section
  * titles, levels, and other specific terms.
  *
+ * Languages of registered locale packs fall back to English for translations
+ * missing from the pack.
+ *
  * @param language - The desired locale language. If undefined, defaults to
  * English.
+ * @param category - The translation category, e.g, `degrees`.
+ * @param option - The option to translate.
+ * @param overrides - User supplied translations, i.e, `locale.overrides`,
+ * which take precedence over the translations of the language.
  * @returns An object containing the translated terms for the specified
  * language.
  */
 export function getOptionTranslation<K extends OptionCategory>(
   language: LocaleLanguage,
   category: K,
-  option: keyof OptionTranslation[K]
+  option: keyof OptionTranslation[K],
+  overrides?: LocaleOverrides
 ): string {
   const optionsTranslations: OptionsTranslations = {
     en: {
@@ -923,6 +942,983 @@ export function getOptionTranslation<K extends OptionCategory>(
         Master: 'Mester',
       },
     },
+    de: {
+      countries: GermanCountryNames,
+      degrees: {
+        'Middle School': 'Mittlere Reife',
+        'High School': 'Abitur',
+        Diploma: 'Diplom',
+        Associate: 'Associate Degree',
+        Bachelor: 'Bachelor',
+        Master: 'Master',
+        Doctor: 'Doktor',
+      },
+      languages: {
+        Afrikaans: 'Afrikaans',
+        Albanian: 'Albanisch',
+        Amharic: 'Amharisch',
+        Arabic: 'Arabisch',
+        Azerbaijani: 'Aserbaidschanisch',
+        Belarusian: 'Belarussisch',
+        Bengali: 'Bengalisch',
+        Bhojpuri: 'Bhodschpuri',
+        Bulgarian: 'Bulgarisch',
+        Burmese: 'Birmanisch',
+        Cantonese: 'Kantonesisch',
+        Catalan: 'Katalanisch',
+        Chinese: 'Chinesisch',
+        Croatian: 'Kroatisch',
+        Czech: 'Tschechisch',
+        Danish: 'Dänisch',
+        Dutch: 'Niederländisch',
+        English: 'Englisch',
+        Estonian: 'Estnisch',
+        Farsi: 'Persisch',
+        Filipino: 'Filipino',
+        Finnish: 'Finnisch',
+        French: 'Französisch',
+        German: 'Deutsch',
+        Greek: 'Griechisch',
+        Gujarati: 'Gujarati',
+        Hausa: 'Haussa',
+        Hebrew: 'Hebräisch',
+        Hindi: 'Hindi',
+        Hungarian: 'Ungarisch',
+        Icelandic: 'Isländisch',
+        Igbo: 'Igbo',
+        Indonesian: 'Indonesisch',
+        Irish: 'Irisch',
+        Italian: 'Italienisch',
+        Japanese: 'Japanisch',
+        Javanese: 'Javanisch',
+        Kazakh: 'Kasachisch',
+        Khmer: 'Khmer',
+        Korean: 'Koreanisch',
+        Lahnda: 'Lahnda',
+        Latvian: 'Lettisch',
+        Lithuanian: 'Litauisch',
+        Malay: 'Malaiisch',
+        Mandarin: 'Mandarin',
+        Marathi: 'Marathi',
+        Nepali: 'Nepalesisch',
+        Norwegian: 'Norwegisch',
+        Oromo: 'Oromo',
+        Pashto: 'Paschtu',
+        Polish: 'Polnisch',
+        Portuguese: 'Portugiesisch',
+        Romanian: 'Rumänisch',
+        Russian: 'Russisch',
+        Serbian: 'Serbisch',
+        Shona: 'Shona',
+        Sinhala: 'Singhalesisch',
+        Slovak: 'Slowakisch',
+        Slovene: 'Slowenisch',
+        Somali: 'Somali',
+        Spanish: 'Spanisch',
+        Sundanese: 'Sundanesisch',
+        Swahili: 'Suaheli',
+        Swedish: 'Schwedisch',
+        Tagalog: 'Tagalog',
+        Tamil: 'Tamil',
+        Telugu: 'Telugu',
+        Thai: 'Thailändisch',
+        Turkish: 'Türkisch',
+        Ukrainian: 'Ukrainisch',
+        Urdu: 'Urdu',
+        Uzbek: 'Usbekisch',
+        Vietnamese: 'Vietnamesisch',
+        Yoruba: 'Yoruba',
+        Zulu: 'Zulu',
+      },
+      fluency: {
+        'Elementary Proficiency': 'Elementare Kenntnisse',
+        'Limited Working Proficiency': 'Eingeschränkte berufliche Kenntnisse',
+        'Minimum Professional Proficiency':
+          'Grundlegende berufliche Kenntnisse',
+        'Full Professional Proficiency': 'Verhandlungssichere Kenntnisse',
+        'Native or Bilingual Proficiency': 'Muttersprache oder zweisprachig',
+      },
+      sections: {
+        awards: 'Auszeichnungen',
+        basics: 'Grunddaten',
+        certificates: 'Zertifikate',
+        education: 'Ausbildung',
+        interests: 'Interessen',
+        languages: 'Sprachen',
+        location: 'Standort',
+        profiles: 'Profile',
+        projects: 'Projekte',
+        publications: 'Publikationen',
+        references: 'Referenzen',
+        skills: 'Kenntnisse',
+        volunteer: 'Ehrenamt',
+        work: 'Berufserfahrung',
+      },
+      skills: {
+        Novice: 'Neuling',
+        Beginner: 'Anfänger',
+        Intermediate: 'Mittelstufe',
+        Advanced: 'Fortgeschritten',
+        Expert: 'Experte',
+        Master: 'Meister',
+      },
+    },
+    ja: {
+      countries: JapaneseCountryNames,
+      degrees: {
+        'Middle School': '中学校',
+        'High School': '高等学校',
+        Diploma: 'ディプロマ',
+        Associate: '準学士',
+        Bachelor: '学士',
+        Master: '修士',
+        Doctor: '博士',
+      },
+      languages: {
+        Afrikaans: 'アフリカーンス語',
+        Albanian: 'アルバニア語',
+        Amharic: 'アムハラ語',
+        Arabic: 'アラビア語',
+        Azerbaijani: 'アゼルバイジャン語',
+        Belarusian: 'ベラルーシ語',
+        Bengali: 'ベンガル語',
+        Bhojpuri: 'ボージュプリー語',
+        Bulgarian: 'ブルガリア語',
+        Burmese: 'ミャンマー語',
+        Cantonese: '広東語',
+        Catalan: 'カタロニア語',
+        Chinese: '中国語',
+        Croatian: 'クロアチア語',
+        Czech: 'チェコ語',
+        Danish: 'デンマーク語',
+        Dutch: 'オランダ語',
+        English: '英語',
+        Estonian: 'エストニア語',
+        Farsi: 'ペルシア語',
+        Filipino: 'フィリピノ語',
+        Finnish: 'フィンランド語',
+        French: 'フランス語',
+        German: 'ドイツ語',
+        Greek: 'ギリシャ語',
+        Gujarati: 'グジャラート語',
+        Hausa: 'ハウサ語',
+        Hebrew: 'ヘブライ語',
+        Hindi: 'ヒンディー語',
+        Hungarian: 'ハンガリー語',
+        Icelandic: 'アイスランド語',
+        Igbo: 'イボ語',
+        Indonesian: 'インドネシア語',
+        Irish: 'アイルランド語',
+        Italian: 'イタリア語',
+        Japanese: '日本語',
+        Javanese: 'ジャワ語',
+        Kazakh: 'カザフ語',
+        Khmer: 'クメール語',
+        Korean: '韓国語',
+        Lahnda: 'ラフンダー語',
+        Latvian: 'ラトビア語',
+        Lithuanian: 'リトアニア語',
+        Malay: 'マレー語',
+        Mandarin: '標準中国語',
+        Marathi: 'マラーティー語',
+        Nepali: 'ネパール語',
+        Norwegian: 'ノルウェー語',
+        Oromo: 'オロモ語',
+        Pashto: 'パシュトゥー語',
+        Polish: 'ポーランド語',
+        Portuguese: 'ポルトガル語',
+        Romanian: 'ルーマニア語',
+        Russian: 'ロシア語',
+        Serbian: 'セルビア語',
+        Shona: 'ショナ語',
+        Sinhala: 'シンハラ語',
+        Slovak: 'スロバキア語',
+        Slovene: 'スロベニア語',
+        Somali: 'ソマリ語',
+        Spanish: 'スペイン語',
+        Sundanese: 'スンダ語',
+        Swahili: 'スワヒリ語',
+        Swedish: 'スウェーデン語',
+        Tagalog: 'タガログ語',
+        Tamil: 'タミル語',
+        Telugu: 'テルグ語',
+        Thai: 'タイ語',
+        Turkish: 'トルコ語',
+        Ukrainian: 'ウクライナ語',
+        Urdu: 'ウルドゥー語',
+        Uzbek: 'ウズベク語',
+        Vietnamese: 'ベトナム語',
+        Yoruba: 'ヨルバ語',
+        Zulu: 'ズールー語',
+      },
+      fluency: {
+        'Elementary Proficiency': '初級',
+        'Limited Working Proficiency': '限定的な業務レベル',
+        'Minimum Professional Proficiency': '基礎的なビジネスレベル',
+        'Full Professional Proficiency': 'ビジネスレベル',
+        'Native or Bilingual Proficiency': 'ネイティブまたはバイリンガル',
+      },
+      sections: {
+        awards: '受賞歴',
+        basics: '基本情報',
+        certificates: '資格',
+        education: '学歴',
+        interests: '興味・関心',
+        languages: '語学',
+        location: '所在地',
+        profiles: 'プロフィール',
+        projects: 'プロジェクト',
+        publications: '出版物',
+        references: '推薦者',
+        skills: 'スキル',
+        volunteer: 'ボランティア活動',
+        work: '職歴',
+      },
+      skills: {
+        Novice: '入門',
+        Beginner: '初級',
+        Intermediate: '中級',
+        Advanced: '上級',
+        Expert: 'エキスパート',
+        Master: 'マスター',
+      },
+    },
+    pt: {
+      countries: PortugueseCountryNames,
+      degrees: {
+        'Middle School': 'Ensino Fundamental',
+        'High School': 'Ensino Médio',
+        Diploma: 'Diploma',
+        Associate: 'Tecnólogo',
+        Bachelor: 'Bacharelado',
+        Master: 'Mestrado',
+        Doctor: 'Doutorado',
+      },
+      languages: {
+        Afrikaans: 'Africâner',
+        Albanian: 'Albanês',
+        Amharic: 'Amárico',
+        Arabic: 'Árabe',
+        Azerbaijani: 'Azerbaijano',
+        Belarusian: 'Bielorrusso',
+        Bengali: 'Bengali',
+        Bhojpuri: 'Bhojpuri',
+        Bulgarian: 'Búlgaro',
+        Burmese: 'Birmanês',
+        Cantonese: 'Cantonês',
+        Catalan: 'Catalão',
+        Chinese: 'Chinês',
+        Croatian: 'Croata',
+        Czech: 'Tcheco',
+        Danish: 'Dinamarquês',
+        Dutch: 'Holandês',
+        English: 'Inglês',
+        Estonian: 'Estoniano',
+        Farsi: 'Persa',
+        Filipino: 'Filipino',
+        Finnish: 'Finlandês',
+        French: 'Francês',
+        German: 'Alemão',
+        Greek: 'Grego',
+        Gujarati: 'Guzerate',
+        Hausa: 'Hauçá',
+        Hebrew: 'Hebraico',
+        Hindi: 'Híndi',
+        Hungarian: 'Húngaro',
+        Icelandic: 'Islandês',
+        Igbo: 'Igbo',
+        Indonesian: 'Indonésio',
+        Irish: 'Irlandês',
+        Italian: 'Italiano',
+        Japanese: 'Japonês',
+        Javanese: 'Javanês',
+        Kazakh: 'Cazaque',
+        Khmer: 'Khmer',
+        Korean: 'Coreano',
+        Lahnda: 'Lahnda',
+        Latvian: 'Letão',
+        Lithuanian: 'Lituano',
+        Malay: 'Malaio',
+        Mandarin: 'Mandarim',
+        Marathi: 'Marati',
+        Nepali: 'Nepalês',
+        Norwegian: 'Norueguês',
+        Oromo: 'Oromo',
+        Pashto: 'Pashto',
+        Polish: 'Polonês',
+        Portuguese: 'Português',
+        Romanian: 'Romeno',
+        Russian: 'Russo',
+        Serbian: 'Sérvio',
+        Shona: 'Xona',
+        Sinhala: 'Cingalês',
+        Slovak: 'Eslovaco',
+        Slovene: 'Esloveno',
+        Somali: 'Somali',
+        Spanish: 'Espanhol',
+        Sundanese: 'Sundanês',
+        Swahili: 'Suaíli',
+        Swedish: 'Sueco',
+        Tagalog: 'Tagalo',
+        Tamil: 'Tâmil',
+        Telugu: 'Télugo',
+        Thai: 'Tailandês',
+        Turkish: 'Turco',
+        Ukrainian: 'Ucraniano',
+        Urdu: 'Urdu',
+        Uzbek: 'Uzbeque',
+        Vietnamese: 'Vietnamita',
+        Yoruba: 'Iorubá',
+        Zulu: 'Zulu',
+      },
+      fluency: {
+        'Elementary Proficiency': 'Proficiência elementar',
+        'Limited Working Proficiency': 'Proficiência profissional limitada',
+        'Minimum Professional Proficiency': 'Proficiência profissional mínima',
+        'Full Professional Proficiency': 'Proficiência profissional plena',
+        'Native or Bilingual Proficiency': 'Proficiência nativa ou bilíngue',
+      },
+      sections: {
+        awards: 'Prêmios',
+        basics: 'Informações básicas',
+        certificates: 'Certificados',
+        education: 'Formação',
+        interests: 'Interesses',
+        languages: 'Idiomas',
+        location: 'Localização',
+        profiles: 'Perfis',
+        projects: 'Projetos',
+        publications: 'Publicações',
+        references: 'Referências',
+        skills: 'Competências',
+        volunteer: 'Voluntariado',
+        work: 'Experiência profissional',
+      },
+      skills: {
+        Novice: 'Novato',
+        Beginner: 'Iniciante',
+        Intermediate: 'Intermediário',
+        Advanced: 'Avançado',
+        Expert: 'Especialista',
+        Master: 'Mestre',
+      },
+    },
+    it: {
+      countries: ItalianCountryNames,
+      degrees: {
+        'Middle School': 'Scuola media',
+        'High School': 'Scuola superiore',
+        Diploma: 'Diploma',
+        Associate: 'Diploma universitario',
+        Bachelor: 'Laurea triennale',
+        Master: 'Laurea magistrale',
+        Doctor: 'Dottorato',
+      },
+      languages: {
+        Afrikaans: 'Afrikaans',
+        Albanian: 'Albanese',
+        Amharic: 'Amarico',
+        Arabic: 'Arabo',
+        Azerbaijani: 'Azerbaigiano',
+        Belarusian: 'Bielorusso',
+        Bengali: 'Bengalese',
+        Bhojpuri: 'Bhojpuri',
+        Bulgarian: 'Bulgaro',
+        Burmese: 'Birmano',
+        Cantonese: 'Cantonese',
+        Catalan: 'Catalano',
+        Chinese: 'Cinese',
+        Croatian: 'Croato',
+        Czech: 'Ceco',
+        Danish: 'Danese',
+        Dutch: 'Olandese',
+        English: 'Inglese',
+        Estonian: 'Estone',
+        Farsi: 'Persiano',
+        Filipino: 'Filippino',
+        Finnish: 'Finlandese',
+        French: 'Francese',
+        German: 'Tedesco',
+        Greek: 'Greco',
+        Gujarati: 'Gujarati',
+        Hausa: 'Hausa',
+        Hebrew: 'Ebraico',
+        Hindi: 'Hindi',
+        Hungarian: 'Ungherese',
+        Icelandic: 'Islandese',
+        Igbo: 'Igbo',
+        Indonesian: 'Indonesiano',
+        Irish: 'Irlandese',
+        Italian: 'Italiano',
+        Japanese: 'Giapponese',
+        Javanese: 'Giavanese',
+        Kazakh: 'Kazako',
+        Khmer: 'Khmer',
+        Korean: 'Coreano',
+        Lahnda: 'Lahnda',
+        Latvian: 'Lettone',
+        Lithuanian: 'Lituano',
+        Malay: 'Malese',
+        Mandarin: 'Mandarino',
+        Marathi: 'Marathi',
+        Nepali: 'Nepalese',
+        Norwegian: 'Norvegese',
+        Oromo: 'Oromo',
+        Pashto: 'Pashto',
+        Polish: 'Polacco',
+        Portuguese: 'Portoghese',
+        Romanian: 'Rumeno',
+        Russian: 'Russo',
+        Serbian: 'Serbo',
+        Shona: 'Shona',
+        Sinhala: 'Singalese',
+        Slovak: 'Slovacco',
+        Slovene: 'Sloveno',
+        Somali: 'Somalo',
+        Spanish: 'Spagnolo',
+        Sundanese: 'Sundanese',
+        Swahili: 'Swahili',
+        Swedish: 'Svedese',
+        Tagalog: 'Tagalog',
+        Tamil: 'Tamil',
+        Telugu: 'Telugu',
+        Thai: 'Thailandese',
+        Turkish: 'Turco',
+        Ukrainian: 'Ucraino',
+        Urdu: 'Urdu',
+        Uzbek: 'Uzbeco',
+        Vietnamese: 'Vietnamita',
+        Yoruba: 'Yoruba',
+        Zulu: 'Zulu',
+      },
+      fluency: {
+        'Elementary Proficiency': 'Conoscenza elementare',
+        'Limited Working Proficiency': 'Conoscenza lavorativa limitata',
+        'Minimum Professional Proficiency': 'Conoscenza professionale minima',
+        'Full Professional Proficiency': 'Conoscenza professionale completa',
+        'Native or Bilingual Proficiency': 'Madrelingua o bilingue',
+      },
+      sections: {
+        awards: 'Premi',
+        basics: 'Informazioni di base',
+        certificates: 'Certificazioni',
+        education: 'Istruzione',
+        interests: 'Interessi',
+        languages: 'Lingue',
+        location: 'Località',
+        profiles: 'Profili',
+        projects: 'Progetti',
+        publications: 'Pubblicazioni',
+        references: 'Referenze',
+        skills: 'Competenze',
+        volunteer: 'Volontariato',
+        work: 'Esperienza lavorativa',
+      },
+      skills: {
+        Novice: 'Novizio',
+        Beginner: 'Principiante',
+        Intermediate: 'Intermedio',
+        Advanced: 'Avanzato',
+        Expert: 'Esperto',
+        Master: 'Maestro',
+      },
+    },
+    ko: {
+      countries: KoreanCountryNames,
+      degrees: {
+        'Middle School': '중학교',
+        'High School': '고등학교',
+        Diploma: '디플로마',
+        Associate: '전문학사',
+        Bachelor: '학사',
+        Master: '석사',
+        Doctor: '박사',
+      },
+      languages: {
+        Afrikaans: '아프리칸스어',
+        Albanian: '알바니아어',
+        Amharic: '암하라어',
+        Arabic: '아랍어',
+        Azerbaijani: '아제르바이잔어',
+        Belarusian: '벨라루스어',
+        Bengali: '벵골어',
+        Bhojpuri: '보즈푸리어',
+        Bulgarian: '불가리아어',
+        Burmese: '버마어',
+        Cantonese: '광둥어',
+        Catalan: '카탈로니아어',
+        Chinese: '중국어',
+        Croatian: '크로아티아어',
+        Czech: '체코어',
+        Danish: '덴마크어',
+        Dutch: '네덜란드어',
+        English: '영어',
+        Estonian: '에스토니아어',
+        Farsi: '페르시아어',
+        Filipino: '필리핀어',
+        Finnish: '핀란드어',
+        French: '프랑스어',
+        German: '독일어',
+        Greek: '그리스어',
+        Gujarati: '구자라트어',
+        Hausa: '하우사어',
+        Hebrew: '히브리어',
+        Hindi: '힌디어',
+        Hungarian: '헝가리어',
+        Icelandic: '아이슬란드어',
+        Igbo: '이그보어',
+        Indonesian: '인도네시아어',
+        Irish: '아일랜드어',
+        Italian: '이탈리아어',
+        Japanese: '일본어',
+        Javanese: '자바어',
+        Kazakh: '카자흐어',
+        Khmer: '크메르어',
+        Korean: '한국어',
+        Lahnda: '라한다어',
+        Latvian: '라트비아어',
+        Lithuanian: '리투아니아어',
+        Malay: '말레이어',
+        Mandarin: '표준 중국어',
+        Marathi: '마라티어',
+        Nepali: '네팔어',
+        Norwegian: '노르웨이어',
+        Oromo: '오로모어',
+        Pashto: '파슈토어',
+        Polish: '폴란드어',
+        Portuguese: '포르투갈어',
+        Romanian: '루마니아어',
+        Russian: '러시아어',
+        Serbian: '세르비아어',
+        Shona: '쇼나어',
+        Sinhala: '싱할라어',
+        Slovak: '슬로바키아어',
+        Slovene: '슬로베니아어',
+        Somali: '소말리아어',
+        Spanish: '스페인어',
+        Sundanese: '순다어',
+        Swahili: '스와힐리어',
+        Swedish: '스웨덴어',
+        Tagalog: '타갈로그어',
+        Tamil: '타밀어',
+        Telugu: '텔루구어',
+        Thai: '태국어',
+        Turkish: '튀르키예어',
+        Ukrainian: '우크라이나어',
+        Urdu: '우르두어',
+        Uzbek: '우즈베크어',
+        Vietnamese: '베트남어',
+        Yoruba: '요루바어',
+        Zulu: '줄루어',
+      },
+      fluency: {
+        'Elementary Proficiency': '초급',
+        'Limited Working Proficiency': '제한적 업무 가능',
+        'Minimum Professional Proficiency': '기본 업무 가능',
+        'Full Professional Proficiency': '능숙한 업무 가능',
+        'Native or Bilingual Proficiency': '원어민 또는 이중 언어',
+      },
+      sections: {
+        awards: '수상 경력',
+        basics: '기본 정보',
+        certificates: '자격증',
+        education: '학력',
+        interests: '관심사',
+        languages: '어학',
+        location: '위치',
+        profiles: '프로필',
+        projects: '프로젝트',
+        publications: '출판물',
+        references: '추천인',
+        skills: '기술',
+        volunteer: '봉사 활동',
+        work: '경력',
+      },
+      skills: {
+        Novice: '입문',
+        Beginner: '초급',
+        Intermediate: '중급',
+        Advanced: '고급',
+        Expert: '전문가',
+        Master: '마스터',
+      },
+    },
+    ar: {
+      countries: ArabicCountryNames,
+      degrees: {
+        'Middle School': 'المدرسة الإعدادية',
+        'High School': 'المدرسة الثانوية',
+        Diploma: 'دبلوم',
+        Associate: 'دبلوم مشارك',
+        Bachelor: 'بكالوريوس',
+        Master: 'ماجستير',
+        Doctor: 'دكتوراه',
+      },
+      languages: {
+        Afrikaans: 'الأفريقانية',
+        Albanian: 'الألبانية',
+        Amharic: 'الأمهرية',
+        Arabic: 'العربية',
+        Azerbaijani: 'الأذربيجانية',
+        Belarusian: 'البيلاروسية',
+        Bengali: 'البنغالية',
+        Bhojpuri: 'البهوجبورية',
+        Bulgarian: 'البلغارية',
+        Burmese: 'البورمية',
+        Cantonese: 'الكَنْتُونية',
+        Catalan: 'الكتالانية',
+        Chinese: 'الصينية',
+        Croatian: 'الكرواتية',
+        Czech: 'التشيكية',
+        Danish: 'الدانمركية',
+        Dutch: 'الهولندية',
+        English: 'الإنجليزية',
+        Estonian: 'الإستونية',
+        Farsi: 'الفارسية',
+        Filipino: 'الفلبينية',
+        Finnish: 'الفنلندية',
+        French: 'الفرنسية',
+        German: 'الألمانية',
+        Greek: 'اليونانية',
+        Gujarati: 'الغوجاراتية',
+        Hausa: 'الهوسا',
+        Hebrew: 'العبرية',
+        Hindi: 'الهندية',
+        Hungarian: 'الهنغارية',
+        Icelandic: 'الأيسلندية',
+        Igbo: 'الإيجبو',
+        Indonesian: 'الإندونيسية',
+        Irish: 'الأيرلندية',
+        Italian: 'الإيطالية',
+        Japanese: 'اليابانية',
+        Javanese: 'الجاوية',
+        Kazakh: 'الكازاخستانية',
+        Khmer: 'الخميرية',
+        Korean: 'الكورية',
+        Lahnda: 'اللاهندا',
+        Latvian: 'اللاتفية',
+        Lithuanian: 'الليتوانية',
+        Malay: 'الماليزية',
+        Mandarin: 'الماندرين',
+        Marathi: 'الماراثية',
+        Nepali: 'النيبالية',
+        Norwegian: 'النرويجية',
+        Oromo: 'الأورومية',
+        Pashto: 'البشتو',
+        Polish: 'البولندية',
+        Portuguese: 'البرتغالية',
+        Romanian: 'الرومانية',
+        Russian: 'الروسية',
+        Serbian: 'الصربية',
+        Shona: 'الشونا',
+        Sinhala: 'السنهالية',
+        Slovak: 'السلوفاكية',
+        Slovene: 'السلوفانية',
+        Somali: 'الصومالية',
+        Spanish: 'الإسبانية',
+        Sundanese: 'السوندانية',
+        Swahili: 'السواحلية',
+        Swedish: 'السويدية',
+        Tagalog: 'التاغالوغية',
+        Tamil: 'التاميلية',
+        Telugu: 'التيلوغوية',
+        Thai: 'التايلاندية',
+        Turkish: 'التركية',
+        Ukrainian: 'الأوكرانية',
+        Urdu: 'الأوردية',
+        Uzbek: 'الأوزبكية',
+        Vietnamese: 'الفيتنامية',
+        Yoruba: 'اليوروبا',
+        Zulu: 'الزولو',
+      },
+      fluency: {
+        'Elementary Proficiency': 'كفاءة أولية',
+        'Limited Working Proficiency': 'كفاءة عمل محدودة',
+        'Minimum Professional Proficiency': 'كفاءة مهنية أساسية',
+        'Full Professional Proficiency': 'كفاءة مهنية كاملة',
+        'Native or Bilingual Proficiency': 'لغة أم أو ثنائي اللغة',
+      },
+      sections: {
+        awards: 'الجوائز',
+        basics: 'المعلومات الأساسية',
+        certificates: 'الشهادات',
+        education: 'التعليم',
+        interests: 'الاهتمامات',
+        languages: 'اللغات',
+        location: 'الموقع',
+        profiles: 'الملفات الشخصية',
+        projects: 'المشاريع',
+        publications: 'المنشورات',
+        references: 'المراجع',
+        skills: 'المهارات',
+        volunteer: 'العمل التطوعي',
+        work: 'الخبرة العملية',
+      },
+      skills: {
+        Novice: 'مستجد',
+        Beginner: 'مبتدئ',
+        Intermediate: 'متوسط',
+        Advanced: 'متقدم',
+        Expert: 'خبير',
+        Master: 'متمكن',
+      },
+    },
+    he: {
+      countries: HebrewCountryNames,
+      degrees: {
+        'Middle School': 'חטיבת ביניים',
+        'High School': 'תיכון',
+        Diploma: 'דיפלומה',
+        Associate: 'תואר אסוציאט',
+        Bachelor: 'תואר ראשון',
+        Master: 'תואר שני',
+        Doctor: 'דוקטורט',
+      },
+      languages: {
+        Afrikaans: 'אפריקאנס',
+        Albanian: 'אלבנית',
+        Amharic: 'אמהרית',
+        Arabic: 'ערבית',
+        Azerbaijani: 'אזרית',
+        Belarusian: 'בלארוסית',
+        Bengali: 'בנגלית',
+        Bhojpuri: 'בוג׳פורי',
+        Bulgarian: 'בולגרית',
+        Burmese: 'בורמזית',
+        Cantonese: 'קנטונזית',
+        Catalan: 'קטלאנית',
+        Chinese: 'סינית',
+        Croatian: 'קרואטית',
+        Czech: 'צ׳כית',
+        Danish: 'דנית',
+        Dutch: 'הולנדית',
+        English: 'אנגלית',
+        Estonian: 'אסטונית',
+        Farsi: 'פרסית',
+        Filipino: 'פיליפינית',
+        Finnish: 'פינית',
+        French: 'צרפתית',
+        German: 'גרמנית',
+        Greek: 'יוונית',
+        Gujarati: 'גוג׳ארטי',
+        Hausa: 'האוסה',
+        Hebrew: 'עברית',
+        Hindi: 'הינדי',
+        Hungarian: 'הונגרית',
+        Icelandic: 'איסלנדית',
+        Igbo: 'איגבו',
+        Indonesian: 'אינדונזית',
+        Irish: 'אירית',
+        Italian: 'איטלקית',
+        Japanese: 'יפנית',
+        Javanese: 'יאוואית',
+        Kazakh: 'קזחית',
+        Khmer: 'חמרית',
+        Korean: 'קוריאנית',
+        Lahnda: 'לנדה',
+        Latvian: 'לטבית',
+        Lithuanian: 'ליטאית',
+        Malay: 'מלאית',
+        Mandarin: 'מנדרינית',
+        Marathi: 'מראטהית',
+        Nepali: 'נפאלית',
+        Norwegian: 'נורווגית',
+        Oromo: 'אורומו',
+        Pashto: 'פאשטו',
+        Polish: 'פולנית',
+        Portuguese: 'פורטוגזית',
+        Romanian: 'רומנית',
+        Russian: 'רוסית',
+        Serbian: 'סרבית',
+        Shona: 'שונה',
+        Sinhala: 'סינהלה',
+        Slovak: 'סלובקית',
+        Slovene: 'סלובנית',
+        Somali: 'סומלית',
+        Spanish: 'ספרדית',
+        Sundanese: 'סונדנזית',
+        Swahili: 'סווהילי',
+        Swedish: 'שוודית',
+        Tagalog: 'טגלוג',
+        Tamil: 'טמילית',
+        Telugu: 'טלוגו',
+        Thai: 'תאית',
+        Turkish: 'טורקית',
+        Ukrainian: 'אוקראינית',
+        Urdu: 'אורדו',
+        Uzbek: 'אוזבקית',
+        Vietnamese: 'וייטנאמית',
+        Yoruba: 'יורובה',
+        Zulu: 'זולו',
+      },
+      fluency: {
+        'Elementary Proficiency': 'ידע בסיסי',
+        'Limited Working Proficiency': 'יכולת עבודה מוגבלת',
+        'Minimum Professional Proficiency': 'רמה מקצועית בסיסית',
+        'Full Professional Proficiency': 'רמה מקצועית מלאה',
+        'Native or Bilingual Proficiency': 'שפת אם או דו-לשוני',
+      },
+      sections: {
+        awards: 'פרסים',
+        basics: 'פרטים בסיסיים',
+        certificates: 'תעודות',
+        education: 'השכלה',
+        interests: 'תחומי עניין',
+        languages: 'שפות',
+        location: 'מיקום',
+        profiles: 'פרופילים',
+        projects: 'פרויקטים',
+        publications: 'פרסומים',
+        references: 'ממליצים',
+        skills: 'כישורים',
+        volunteer: 'התנדבות',
+        work: 'ניסיון תעסוקתי',
+      },
+      skills: {
+        Novice: 'טירון',
+        Beginner: 'מתחיל',
+        Intermediate: 'בינוני',
+        Advanced: 'מתקדם',
+        Expert: 'מומחה',
+        Master: 'מאסטר',
+      },
+    },
+    fa: {
+      countries: FarsiCountryNames,
+      degrees: {
+        'Middle School': 'دوره راهنمایی',
+        'High School': 'دبیرستان',
+        Diploma: 'دیپلم',
+        Associate: 'کاردانی',
+        Bachelor: 'کارشناسی',
+        Master: 'کارشناسی ارشد',
+        Doctor: 'دکتری',
+      },
+      languages: {
+        Afrikaans: 'آفریکانس',
+        Albanian: 'آلبانیایی',
+        Amharic: 'امهری',
+        Arabic: 'عربی',
+        Azerbaijani: 'ترکی آذربایجانی',
+        Belarusian: 'بلاروسی',
+        Bengali: 'بنگالی',
+        Bhojpuri: 'بوجپوری',
+        Bulgarian: 'بلغاری',
+        Burmese: 'برمه‌ای',
+        Cantonese: 'کانتونی',
+        Catalan: 'کاتالان',
+        Chinese: 'چینی',
+        Croatian: 'کروات',
+        Czech: 'چکی',
+        Danish: 'دانمارکی',
+        Dutch: 'هلندی',
+        English: 'انگلیسی',
+        Estonian: 'استونیایی',
+        Farsi: 'فارسی',
+        Filipino: 'فیلیپینی',
+        Finnish: 'فنلاندی',
+        French: 'فرانسوی',
+        German: 'آلمانی',
+        Greek: 'یونانی',
+        Gujarati: 'گجراتی',
+        Hausa: 'هوسایی',
+        Hebrew: 'عبری',
+        Hindi: 'هندی',
+        Hungarian: 'مجاری',
+        Icelandic: 'ایسلندی',
+        Igbo: 'ایگبویی',
+        Indonesian: 'اندونزیایی',
+        Irish: 'ایرلندی',
+        Italian: 'ایتالیایی',
+        Japanese: 'ژاپنی',
+        Javanese: 'جاوه‌ای',
+        Kazakh: 'قزاقی',
+        Khmer: 'خمری',
+        Korean: 'کره‌ای',
+        Lahnda: 'لاهندا',
+        Latvian: 'لتونیایی',
+        Lithuanian: 'لیتوانیایی',
+        Malay: 'مالایی',
+        Mandarin: 'ماندارین',
+        Marathi: 'مراتی',
+        Nepali: 'نپالی',
+        Norwegian: 'نروژی',
+        Oromo: 'اورومویی',
+        Pashto: 'پشتو',
+        Polish: 'لهستانی',
+        Portuguese: 'پرتغالی',
+        Romanian: 'رومانیایی',
+        Russian: 'روسی',
+        Serbian: 'صربی',
+        Shona: 'شونایی',
+        Sinhala: 'سینهالی',
+        Slovak: 'اسلواکی',
+        Slovene: 'اسلوونیایی',
+        Somali: 'سومالیایی',
+        Spanish: 'اسپانیایی',
+        Sundanese: 'سوندایی',
+        Swahili: 'سواحیلی',
+        Swedish: 'سوئدی',
+        Tagalog: 'تاگالوگ',
+        Tamil: 'تامیلی',
+        Telugu: 'تلوگویی',
+        Thai: 'تایلندی',
+        Turkish: 'ترکی استانبولی',
+        Ukrainian: 'اوکراینی',
+        Urdu: 'اردو',
+        Uzbek: 'ازبکی',
+        Vietnamese: 'ویتنامی',
+        Yoruba: 'یوروبایی',
+        Zulu: 'زولویی',
+      },
+      fluency: {
+        'Elementary Proficiency': 'مهارت مقدماتی',
+        'Limited Working Proficiency': 'مهارت کاری محدود',
+        'Minimum Professional Proficiency': 'مهارت حرفه‌ای پایه',
+        'Full Professional Proficiency': 'مهارت حرفه‌ای کامل',
+        'Native or Bilingual Proficiency': 'زبان مادری یا دوزبانه',
+      },
+      sections: {
+        awards: 'جوایز',
+        basics: 'اطلاعات پایه',
+        certificates: 'گواهینامه‌ها',
+        education: 'تحصیلات',
+        interests: 'علایق',
+        languages: 'زبان‌ها',
+        location: 'موقعیت مکانی',
+        profiles: 'پروفایل‌ها',
+        projects: 'پروژه‌ها',
+        publications: 'انتشارات',
+        references: 'معرفان',
+        skills: 'مهارت‌ها',
+        volunteer: 'فعالیت‌های داوطلبانه',
+        work: 'سوابق کاری',
+      },
+      skills: {
+        Novice: 'تازه‌کار',
+        Beginner: 'مبتدی',
+        Intermediate: 'متوسط',
+        Advanced: 'پیشرفته',
+        Expert: 'متخصص',
+        Master: 'استاد',
+      },
+    },
+  }
+
+  const override = get(overrides, [category, option]) as string
+
+  if (!isEmptyValue(override)) {
+    return override
+  }
+
+  const pack = getLocalePack(language)
+
+  if (pack) {
+    return get(
+      pack,
+      [category, option],
+      get(optionsTranslations, ['en', category, option], option)
+    ) as string
   }
 
   return get(
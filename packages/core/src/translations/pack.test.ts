@@ -0,0 +1,133 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { LOCALE_LANGUAGE_OPTIONS, type LocaleLanguage } from '@/models'
+import { getOptionTranslation } from './options'
+import {
+  getLocaleLanguageIds,
+  getLocalePack,
+  getRegisteredLocalePacks,
+  type LocalePack,
+  registerLocalePack,
+  unregisterLocalePack,
+} from './pack'
+import { getTemplateTranslations } from './template'
+
+const dutch: LocalePack = {
+  language: 'nl',
+  name: 'Dutch',
+  punctuations: { comma: ', ', colon: ': ', separator: ', ' },
+  terms: { courses: 'Vakken', keywords: 'Trefwoorden', score: 'Cijfer' },
+  sections: { work: 'Werkervaring' },
+}
+
+describe(registerLocalePack, () => {
+  afterEach(() => {
+    unregisterLocalePack('nl')
+  })
+
+  it('should register a locale pack', () => {
+    registerLocalePack(dutch)
+
+    expect(getLocalePack('nl')).toBe(dutch)
+    expect(getRegisteredLocalePacks()).toEqual([dutch])
+    expect(getLocaleLanguageIds()).toEqual([...LOCALE_LANGUAGE_OPTIONS, 'nl'])
+  })
+
+  it('should warn about missing translations by category', () => {
+    const warnings = registerLocalePack(dutch)
+
+    expect(warnings.some((warning) => warning.includes('terms'))).toBe(false)
+    expect(warnings).toContainEqual(
+      expect.stringContaining('Locale pack "nl" is missing 6 skills')
+    )
+    expect(warnings).toContainEqual(
+      expect.stringMatching(
+        /^Locale pack "nl" is missing \d+ sections translation\(s\), falling back to English\.$/
+      )
+    )
+  })
+
+  it('should only list missing keys of punctuations and terms', () => {
+    const warnings = registerLocalePack({
+      language: 'nl',
+      terms: { courses: 'Vakken' },
+    })
+
+    expect(warnings).toContain(
+      'Locale pack "nl" is missing 3 punctuations translation(s), falling back to English: comma, colon, separator.'
+    )
+    expect(warnings).toContain(
+      'Locale pack "nl" is missing 2 terms translation(s), falling back to English: keywords, score.'
+    )
+    for (const warning of warnings) {
+      expect(warning).not.toContain('Afghanistan')
+      expect(warning).not.toContain('Afrikaans')
+    }
+  })
+
+  it('should throw an error for invalid or duplicated languages', () => {
+    expect(() => registerLocalePack({ language: '' })).toThrow(
+      'Locale pack language should be a non-empty string.'
+    )
+    expect(() => registerLocalePack({ language: 'not a tag' })).toThrow(
+      'Locale pack language is not a valid BCP 47 tag: not a tag'
+    )
+    expect(() => registerLocalePack({ language: 'en' })).toThrow(
+      'Locale language is already registered: en'
+    )
+
+    registerLocalePack(dutch)
+
+    expect(() => registerLocalePack(dutch)).toThrow(
+      'Locale language is already registered: nl'
+    )
+  })
+
+  it('should unregister a locale pack', () => {
+    registerLocalePack(dutch)
+
+    expect(unregisterLocalePack('nl')).toBe(true)
+    expect(unregisterLocalePack('nl')).toBe(false)
+    expect(getLocalePack('nl')).toBeUndefined()
+  })
+
+  it('should translate with the locale pack and fall back to English', () => {
+    registerLocalePack(dutch)
+
+    const language = 'nl' as LocaleLanguage
+
+    expect(getTemplateTranslations(language).terms.keywords).toEqual(
+      'Trefwoorden'
+    )
+    expect(getOptionTranslation(language, 'sections', 'work')).toEqual(
+      'Werkervaring'
+    )
+    expect(getOptionTranslation(language, 'sections', 'education')).toEqual(
+      getOptionTranslation('en', 'sections', 'education')
+    )
+  })
+})
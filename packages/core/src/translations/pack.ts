@@ -0,0 +1,191 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import {
+  COUNTRY_OPTIONS,
+  DEGREE_OPTIONS,
+  FLUENCY_OPTIONS,
+  LANGUAGE_OPTIONS,
+  LEVEL_OPTIONS,
+  LOCALE_LANGUAGE_OPTIONS,
+  type LocaleOverrides,
+  SECTION_IDS,
+} from '@/models'
+import { isEmptyValue } from '@/utils'
+import { PUNCTUATIONS, TERMS } from './template'
+
+/**
+ * An external locale pack, which adds a locale language without waiting for
+ * a new release.
+ *
+ * A locale pack has the same translation categories as `locale.overrides`,
+ * translations missing from the pack fall back to English.
+ */
+export type LocalePack = LocaleOverrides & {
+  /** The locale language used in `locale.language`, e.g, `nl`. */
+  language: string
+  /** The human readable name of the language, e.g, `Dutch`. */
+  name?: string
+}
+
+const localePackRegistry = new Map<string, LocalePack>()
+
+/**
+ * Translation categories whose missing keys are listed in warnings, other
+ * categories like countries or languages have hundreds of options, so only
+ * the number of missing translations is reported for them.
+ */
+const LISTED_CATEGORIES: readonly (keyof LocaleOverrides)[] = [
+  'punctuations',
+  'terms',
+]
+
+/**
+ * Get the translations missing from a locale pack.
+ *
+ * @param pack - The locale pack.
+ * @returns A warning for each translation category with missing translations.
+ */
+function getMissingTranslationWarnings(pack: LocalePack): string[] {
+  const categories: Record<keyof LocaleOverrides, readonly string[]> = {
+    punctuations: PUNCTUATIONS,
+    terms: TERMS,
+    countries: COUNTRY_OPTIONS,
+    degrees: DEGREE_OPTIONS,
+    fluency: FLUENCY_OPTIONS,
+    languages: LANGUAGE_OPTIONS,
+    sections: SECTION_IDS,
+    skills: LEVEL_OPTIONS,
+  }
+
+  return Object.keys(categories).flatMap((category: keyof LocaleOverrides) => {
+    const missing = categories[category].filter((option) =>
+      isEmptyValue(pack[category]?.[option])
+    )
+
+    if (isEmptyValue(missing)) {
+      return []
+    }
+
+    const warning =
+      `Locale pack "${pack.language}" is missing ${missing.length} ` +
+      `${category} translation(s), falling back to English`
+
+    return [
+      LISTED_CATEGORIES.includes(category)
+        ? `${warning}: ${missing.join(', ')}.`
+        : `${warning}.`,
+    ]
+  })
+}
+
+/**
+ * Register a locale pack so that its language can be used in
+ * `locale.language`.
+ *
+ * This allows teams to add a language without forking core, e.g:
+ *
+ * ```ts
+ * import { registerLocalePack } from '@yamlresume/core'
+ *
+ * registerLocalePack({
+ *   language: 'nl',
+ *   name: 'Dutch',
+ *   terms: { courses: 'Vakken', keywords: 'Trefwoorden', score: 'Cijfer' },
+ *   sections: { work: 'Werkervaring' },
+ * })
+ * ```
+ *
+ * @param pack - The locale pack.
+ * @returns Warnings for translations missing from the pack, which fall back
+ * to English.
+ * @throws {Error} If the language is not a valid BCP 47 language tag, or is
+ * already a builtin or registered locale language.
+ */
+export function registerLocalePack(pack: LocalePack): string[] {
+  const { language } = pack
+
+  if (typeof language !== 'string' || language.trim() === '') {
+    throw new Error('Locale pack language should be a non-empty string.')
+  }
+
+  try {
+    Intl.getCanonicalLocales(language)
+  } catch (_e) {
+    throw new Error(
+      `Locale pack language is not a valid BCP 47 tag: ${language}`
+    )
+  }
+
+  if (
+    (LOCALE_LANGUAGE_OPTIONS as readonly string[]).includes(language) ||
+    localePackRegistry.has(language)
+  ) {
+    throw new Error(`Locale language is already registered: ${language}`)
+  }
+
+  localePackRegistry.set(language, pack)
+
+  return getMissingTranslationWarnings(pack)
+}
+
+/**
+ * Unregister a previously registered locale pack.
+ *
+ * @param language - The locale language of the pack.
+ * @returns `true` if the locale pack was unregistered, `false` otherwise.
+ */
+export function unregisterLocalePack(language: string): boolean {
+  return localePackRegistry.delete(language)
+}
+
+/**
+ * Get the registered locale pack for a locale language.
+ *
+ * @param language - The locale language.
+ * @returns The locale pack, or `undefined` if no pack is registered for the
+ * language.
+ */
+export function getLocalePack(language: string): LocalePack | undefined {
+  return localePackRegistry.get(language)
+}
+
+/**
+ * Get all registered locale packs, in the order they were registered.
+ *
+ * @returns The registered locale packs.
+ */
+export function getRegisteredLocalePacks(): LocalePack[] {
+  return Array.from(localePackRegistry.values())
+}
+
+/**
+ * Get all locale languages, builtin ones first, then those of the registered
+ * locale packs.
+ *
+ * @returns The locale languages.
+ */
+export function getLocaleLanguageIds(): string[] {
+  return [...LOCALE_LANGUAGE_OPTIONS, ...Array.from(localePackRegistry.keys())]
+}
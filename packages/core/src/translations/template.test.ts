@@ -107,6 +107,94 @@ describe(getTemplateTranslations, () => {
           },
         },
       },
+      {
+        language: 'de',
+        expected: {
+          punctuations: {
+            colon: ': ',
+          },
+          terms: {
+            keywords: 'Schlüsselwörter',
+          },
+        },
+      },
+      {
+        language: 'ja',
+        expected: {
+          punctuations: {
+            colon: '：',
+          },
+          terms: {
+            keywords: 'キーワード',
+          },
+        },
+      },
+      {
+        language: 'pt',
+        expected: {
+          punctuations: {
+            colon: ': ',
+          },
+          terms: {
+            keywords: 'Palavras-chave',
+          },
+        },
+      },
+      {
+        language: 'it',
+        expected: {
+          punctuations: {
+            colon: ': ',
+          },
+          terms: {
+            keywords: 'Parole chiave',
+          },
+        },
+      },
+      {
+        language: 'ko',
+        expected: {
+          punctuations: {
+            colon: ': ',
+          },
+          terms: {
+            keywords: '키워드',
+          },
+        },
+      },
+      {
+        language: 'ar',
+        expected: {
+          punctuations: {
+            colon: ': ',
+          },
+          terms: {
+            keywords: 'الكلمات المفتاحية',
+          },
+        },
+      },
+      {
+        language: 'he',
+        expected: {
+          punctuations: {
+            colon: ': ',
+          },
+          terms: {
+            keywords: 'מילות מפתח',
+          },
+        },
+      },
+      {
+        language: 'fa',
+        expected: {
+          punctuations: {
+            colon: ': ',
+          },
+          terms: {
+            keywords: 'کلیدواژه‌ها',
+          },
+        },
+      },
     ]
 
     tests.forEach((test) => {
@@ -122,3 +210,26 @@ describe(getTemplateTranslations, () => {
     })
   })
 })
+
+describe('getTemplateTranslations with overrides', () => {
+  it('should prefer overridden punctuations and terms', () => {
+    const translations = getTemplateTranslations('en', {
+      punctuations: { separator: ' · ' },
+      terms: { keywords: 'Tech stack' },
+    })
+
+    expect(translations.punctuations).toEqual({
+      comma: ', ',
+      colon: ': ',
+      separator: ' · ',
+    })
+    expect(translations.terms.keywords).toEqual('Tech stack')
+    expect(translations.terms.courses).toEqual('Courses')
+  })
+
+  it('should fall back to English for unknown languages', () => {
+    expect(getTemplateTranslations('xx' as LocaleLanguage)).toEqual(
+      getTemplateTranslations('en')
+    )
+  })
+})
@@ -22,8 +22,9 @@
  * IN THE SOFTWARE.
  */
 
-import type { LocaleLanguage } from '@/models'
+import type { LocaleLanguage, LocaleOverrides } from '@/models'
 import { isEmptyValue } from '@/utils'
+import { getLocalePack } from './pack'
 
 /** Specific punctuation types used for formatting within templates. */
 export const PUNCTUATIONS = ['comma', 'colon', 'separator'] as const
@@ -53,13 +54,19 @@ type TemplateTranslation = Record<LocaleLanguage, TemplateTranslationValue>
  * Retrieves template-specific translations (punctuations and terms) for a given
  * locale language.
  *
+ * Languages of registered locale packs fall back to English for translations
+ * missing from the pack.
+ *
  * @param language - The desired locale language. If undefined, defaults to
  * English.
+ * @param overrides - User supplied translations, i.e, `locale.overrides`,
+ * which take precedence over the translations of the language.
  * @returns An object containing the translated punctuations and terms for the
  * specified language.
  */
 export function getTemplateTranslations(
-  language?: LocaleLanguage
+  language?: LocaleLanguage,
+  overrides?: LocaleOverrides
 ): TemplateTranslationValue {
   const templateTranslation: TemplateTranslation = {
     en: {
@@ -146,7 +153,118 @@ export function getTemplateTranslations(
         score: 'Poeng',
       },
     },
+    de: {
+      punctuations: {
+        comma: ', ',
+        colon: ': ',
+        separator: ', ',
+      },
+      terms: {
+        courses: 'Kurse',
+        keywords: 'Schlüsselwörter',
+        score: 'Note',
+      },
+    },
+    ja: {
+      punctuations: {
+        comma: '、',
+        colon: '：',
+        separator: '、',
+      },
+      terms: {
+        courses: '履修科目',
+        keywords: 'キーワード',
+        score: '成績',
+      },
+    },
+    pt: {
+      punctuations: {
+        comma: ', ',
+        colon: ': ',
+        separator: ', ',
+      },
+      terms: {
+        courses: 'Disciplinas',
+        keywords: 'Palavras-chave',
+        score: 'Nota',
+      },
+    },
+    it: {
+      punctuations: {
+        comma: ', ',
+        colon: ': ',
+        separator: ', ',
+      },
+      terms: {
+        courses: 'Corsi',
+        keywords: 'Parole chiave',
+        score: 'Voto',
+      },
+    },
+    ko: {
+      punctuations: {
+        comma: ', ',
+        colon: ': ',
+        separator: ', ',
+      },
+      terms: {
+        courses: '수강 과목',
+        keywords: '키워드',
+        score: '성적',
+      },
+    },
+    ar: {
+      punctuations: {
+        comma: '، ',
+        colon: ': ',
+        separator: '، ',
+      },
+      terms: {
+        courses: 'المقررات',
+        keywords: 'الكلمات المفتاحية',
+        score: 'الدرجة',
+      },
+    },
+    he: {
+      punctuations: {
+        comma: ', ',
+        colon: ': ',
+        separator: ', ',
+      },
+      terms: {
+        courses: 'קורסים',
+        keywords: 'מילות מפתח',
+        score: 'ציון',
+      },
+    },
+    fa: {
+      punctuations: {
+        comma: '، ',
+        colon: ': ',
+        separator: '، ',
+      },
+      terms: {
+        courses: 'دروس',
+        keywords: 'کلیدواژه‌ها',
+        score: 'نمره',
+      },
+    },
+  }
+
+  const pack = getLocalePack(language)
+
+  const { punctuations, terms } = templateTranslation[
+    isEmptyValue(language) ? 'en' : language
+  ] ?? {
+    punctuations: {
+      ...templateTranslation.en.punctuations,
+      ...pack?.punctuations,
+    },
+    terms: { ...templateTranslation.en.terms, ...pack?.terms },
   }
 
-  return templateTranslation[isEmptyValue(language) ? 'en' : language]
+  return {
+    punctuations: { ...punctuations, ...overrides?.punctuations },
+    terms: { ...terms, ...overrides?.terms },
+  }
 }
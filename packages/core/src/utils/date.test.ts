@@ -24,10 +24,12 @@
 
 import { describe, expect, it, vi } from 'vitest'
 
-import type { LocaleLanguage } from '@/models'
+import type { DateFormat, LayoutDates, LocaleLanguage } from '@/models'
 import {
   epochSecondsToLocaleDateString,
   getDateRange,
+  getDuration,
+  getOverallDates,
   localizeDate,
   milliSecondsToSeconds,
   nowInUTCSeconds,
@@ -189,6 +191,102 @@ describe(localizeDate, () => {
       expect(localizeDate(date, language)).toEqual(expected)
     }
   })
+
+  it('should format the date with the format preset', () => {
+    const tests: {
+      format: DateFormat
+      language: LocaleLanguage
+      expected: string
+    }[] = [
+      { format: 'MMM YYYY', language: 'en', expected: 'Oct 2016' },
+      { format: 'MMM YYYY', language: 'zh-hans', expected: '2016年10月' },
+      { format: 'YYYY-MM', language: 'en', expected: '2016-10' },
+      { format: 'YYYY-MM', language: 'fa', expected: '2016-10' },
+      { format: 'YYYY', language: 'en', expected: '2016' },
+      { format: 'MM/YYYY', language: 'de', expected: '10/2016' },
+    ]
+
+    for (const { format, language, expected } of tests) {
+      expect(localizeDate('Oct 1, 2016', language, format)).toEqual(expected)
+    }
+
+    expect(localizeDate('Mar 2020', 'en', 'MM/YYYY')).toEqual('03/2020')
+    expect(localizeDate('', 'en', 'YYYY')).toEqual('')
+    expect(localizeDate('hello', 'en', 'YYYY-MM')).toEqual('hello')
+  })
+})
+
+describe(getDuration, () => {
+  it('should return the duration between two dates', () => {
+    const tests: {
+      startDate: string
+      endDate: string
+      language: LocaleLanguage
+      expected: string
+    }[] = [
+      {
+        startDate: 'Jan 2020',
+        endDate: 'Mar 2022',
+        language: 'en',
+        expected: '2 yrs 3 mos',
+      },
+      {
+        startDate: 'Jan 2024',
+        endDate: 'Dec 2024',
+        language: 'en',
+        expected: '1 yr',
+      },
+      {
+        startDate: 'Jan 2024',
+        endDate: 'Jan 2024',
+        language: 'en',
+        expected: '1 mo',
+      },
+      {
+        startDate: 'Jan 2020',
+        endDate: 'Mar 2022',
+        language: 'zh-hans',
+        expected: '2年3个月',
+      },
+      {
+        startDate: 'Jan 2020',
+        endDate: 'Mar 2022',
+        language: 'ko',
+        expected: '2년 3개월',
+      },
+      {
+        startDate: 'Jan 2020',
+        endDate: 'Mar 2022',
+        language: 'es',
+        expected: '2 años 3 meses',
+      },
+    ]
+
+    for (const { startDate, endDate, language, expected } of tests) {
+      expect(getDuration(startDate, endDate, language)).toEqual(expected)
+    }
+  })
+
+  it('should count an ongoing duration until now', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-06-15'))
+
+    expect(getDuration('Jan 2025', '', 'en')).toEqual('6 mos')
+
+    vi.useRealTimers()
+  })
+
+  it('should return an empty string for invalid date ranges', () => {
+    expect(getDuration('hello', 'Mar 2022', 'en')).toEqual('')
+    expect(getDuration('Jan 2020', 'world', 'en')).toEqual('')
+    expect(getDuration('Mar 2022', 'Jan 2020', 'en')).toEqual('')
+  })
+
+  it('should fall back to English for languages without duration units', () => {
+    expect(getDuration('Jan 2020', 'Mar 2022', 'nl' as LocaleLanguage)).toEqual(
+      '2 yrs 3 mos'
+    )
+  })
 })
 
 describe(getDateRange, () => {
@@ -278,6 +376,60 @@ describe(getDateRange, () => {
         language: 'no',
         expected: 'okt. 2016–Nå',
       },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'de',
+        expected: 'Okt. 2016–heute',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'ja',
+        expected: '2016年10月–現在',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'pt',
+        expected: 'out. de 2016–atual',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'it',
+        expected: 'ott 2016–oggi',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'ko',
+        expected: '2016년 10월–현재',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'ar',
+        expected: 'أكتوبر 2016–حتى الآن',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'he',
+        expected: 'אוק׳ 2016–היום',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'fa',
+        expected: 'اکتبر ۲۰۱۶–اکنون',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: 'Jan 1, 2018',
+        language: 'fa',
+        expected: 'اکتبر ۲۰۱۶–ژانویه ۲۰۱۸',
+      },
       {
         startDate: '',
         endDate: '',
@@ -296,6 +448,103 @@ describe(getDateRange, () => {
       expect(getDateRange(startDate, endDate, language)).toEqual(expected)
     }
   })
+
+  it('should return date range with date settings', () => {
+    const tests: {
+      startDate: string
+      endDate: string
+      language: LocaleLanguage
+      dates: LayoutDates
+      expected: string
+    }[] = [
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: 'Jan 1, 2018',
+        language: 'en',
+        dates: { format: 'YYYY-MM', separator: ' to ' },
+        expected: '2016-10 to 2018-01',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'en',
+        dates: { format: 'MM/YYYY', present: 'Now' },
+        expected: '10/2016–Now',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'zh-hans',
+        dates: { separator: ' - ' },
+        expected: '2016年10月 - 至今',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: '',
+        language: 'zh-hans',
+        dates: {},
+        expected: '2016年10月至今',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: 'Jan 1, 2018',
+        language: 'en',
+        dates: { format: 'YYYY', showDuration: true },
+        expected: '2016–2018 (1 yr 4 mos)',
+      },
+      {
+        startDate: 'Oct 1, 2016',
+        endDate: 'Jan 1, 2018',
+        language: 'en',
+        dates: { showDuration: false },
+        expected: 'Oct 2016–Jan 2018',
+      },
+      {
+        startDate: '',
+        endDate: 'Jan 1, 2018',
+        language: 'en',
+        dates: { showDuration: true },
+        expected: '',
+      },
+    ]
+
+    for (const { startDate, endDate, language, dates, expected } of tests) {
+      expect(getDateRange(startDate, endDate, language, dates)).toEqual(
+        expected
+      )
+    }
+  })
+})
+
+describe(getOverallDates, () => {
+  it('should return the earliest start date and the latest end date', () => {
+    expect(
+      getOverallDates([
+        { startDate: 'Jan 2022', endDate: 'Jun 2024' },
+        { startDate: '2019-03', endDate: 'Dec 2021' },
+      ])
+    ).toEqual({ startDate: '2019-03', endDate: 'Jun 2024' })
+  })
+
+  it('should return an empty end date if any date range is ongoing', () => {
+    expect(
+      getOverallDates([
+        { startDate: '2019-03', endDate: 'Dec 2021' },
+        { startDate: 'Jan 2022', endDate: '' },
+      ])
+    ).toEqual({ startDate: '2019-03', endDate: '' })
+    expect(getOverallDates([{ startDate: '2019-03' }])).toEqual({
+      startDate: '2019-03',
+      endDate: '',
+    })
+  })
+
+  it('should return empty dates without valid dates', () => {
+    expect(getOverallDates([])).toEqual({ startDate: '', endDate: '' })
+    expect(getOverallDates([{ startDate: 'hello', endDate: 'world' }])).toEqual(
+      { startDate: '', endDate: '' }
+    )
+  })
 })
 
 describe(nowInUTCSeconds, () => {
@@ -22,7 +22,7 @@
  * IN THE SOFTWARE.
  */
 
-import type { LocaleLanguage } from '@/models'
+import type { DateFormat, LayoutDates, LocaleLanguage } from '@/models'
 import { isEmptyValue } from './object'
 
 /**
@@ -47,22 +47,30 @@ export function parseDate(dateStr: string | undefined | null): Date | null {
 /**
  * Localize a date string to a specific language.
  *
+ * Numeric formats, i.e, `YYYY-MM`, `YYYY` and `MM/YYYY`, are the same for all
+ * languages.
+ *
  * @param date - The date string to localize.
  * @param language - The language to localize the date string to.
+ * @param format - The format preset of the date, default to `MMM YYYY`.
  * @returns The localized date string.
  */
 export function localizeDate(
   date: string,
-  language: LocaleLanguage | string
+  language: LocaleLanguage | string,
+  format: DateFormat = 'MMM YYYY'
 ): string {
   if (date === '') {
     return ''
   }
 
-  // for resumes, we only care about the year and month
+  // for resumes, we only care about the year and month, and dates are always
+  // given in the Gregorian calendar, so some locales, e.g, Farsi, must not
+  // convert them to their default calendar
   const options: Intl.DateTimeFormatOptions = {
     year: 'numeric',
     month: 'short',
+    calendar: 'gregory',
   }
 
   const dateObj = new Date(date)
@@ -72,10 +80,141 @@ export function localizeDate(
     return date
   }
 
-  return dateObj.toLocaleDateString(
-    isEmptyValue(language) ? 'en' : language,
-    options
-  )
+  const year = String(dateObj.getFullYear())
+  const month = String(dateObj.getMonth() + 1).padStart(2, '0')
+
+  switch (format) {
+    case 'YYYY-MM':
+      return `${year}-${month}`
+    case 'YYYY':
+      return year
+    case 'MM/YYYY':
+      return `${month}/${year}`
+    default:
+      return dateObj.toLocaleDateString(
+        isEmptyValue(language) ? 'en' : language,
+        options
+      )
+  }
+}
+
+/**
+ * Get the default separator and wording of an ongoing date range for a given
+ * language.
+ *
+ * @param language - The language of the date range.
+ * @returns The separator and the wording of the ongoing end date.
+ */
+function getPresentTerm(language: LocaleLanguage): {
+  separator: string
+  present: string
+} {
+  switch (language) {
+    case 'zh-hans':
+    case 'zh-hant-hk':
+    case 'zh-hant-tw':
+      return { separator: '', present: '至今' }
+    case 'es':
+      return { separator: ' ', present: 'hasta la fecha' }
+    case 'no':
+      return { separator: '–', present: 'Nå' }
+    case 'de':
+      return { separator: '–', present: 'heute' }
+    case 'ja':
+      return { separator: '–', present: '現在' }
+    case 'pt':
+      return { separator: '–', present: 'atual' }
+    case 'it':
+      return { separator: '–', present: 'oggi' }
+    case 'ko':
+      return { separator: '–', present: '현재' }
+    case 'ar':
+      return { separator: '–', present: 'حتى الآن' }
+    case 'he':
+      return { separator: '–', present: 'היום' }
+    case 'fa':
+      return { separator: '–', present: 'اکنون' }
+    default:
+      // by default we return English's "Present" if language is not supported
+      return { separator: '–', present: 'Present' }
+  }
+}
+
+/**
+ * Abbreviated year and month units of durations, as `[singular, plural]`
+ * suffixes of numbers, and the separator between years and months.
+ */
+type DurationUnits = {
+  year: [string, string]
+  month: [string, string]
+  separator: string
+}
+
+/**
+ * Duration units of all builtin locale languages.
+ */
+const DURATION_UNITS: Record<LocaleLanguage, DurationUnits> = {
+  en: { year: [' yr', ' yrs'], month: [' mo', ' mos'], separator: ' ' },
+  'zh-hans': { year: ['年', '年'], month: ['个月', '个月'], separator: '' },
+  'zh-hant-hk': { year: ['年', '年'], month: ['個月', '個月'], separator: '' },
+  'zh-hant-tw': { year: ['年', '年'], month: ['個月', '個月'], separator: '' },
+  es: { year: [' año', ' años'], month: [' mes', ' meses'], separator: ' ' },
+  fr: { year: [' an', ' ans'], month: [' mois', ' mois'], separator: ' ' },
+  no: { year: [' år', ' år'], month: [' mnd', ' mnd'], separator: ' ' },
+  de: { year: [' J.', ' J.'], month: [' Mon.', ' Mon.'], separator: ' ' },
+  ja: { year: ['年', '年'], month: ['か月', 'か月'], separator: '' },
+  pt: { year: [' ano', ' anos'], month: [' mês', ' meses'], separator: ' ' },
+  it: { year: [' anno', ' anni'], month: [' mese', ' mesi'], separator: ' ' },
+  ko: { year: ['년', '년'], month: ['개월', '개월'], separator: ' ' },
+  ar: { year: [' سنة', ' سنوات'], month: [' شهر', ' أشهر'], separator: ' ' },
+  he: { year: [' שנה', ' שנים'], month: [' חודש', ' חודשים'], separator: ' ' },
+  fa: { year: [' سال', ' سال'], month: [' ماه', ' ماه'], separator: ' ' },
+}
+
+/**
+ * Get the duration between a start and end date, e.g, "2 yrs 3 mos".
+ *
+ * Both the start and end month are counted, so that a date range from Jan 2024
+ * to Dec 2024 lasts 1 year. An empty end date means the date range is ongoing.
+ *
+ * @param startDate - The start date.
+ * @param endDate - The end date, or an empty string if ongoing.
+ * @param language - The language to localize the duration to, languages
+ * without duration units fall back to English.
+ * @returns The localized duration, or an empty string if any date is invalid
+ * or the end date is before the start date.
+ */
+export function getDuration(
+  startDate: string,
+  endDate: string,
+  language: LocaleLanguage
+): string {
+  const start = parseDate(startDate)
+  const end = isEmptyValue(endDate) ? new Date() : parseDate(endDate)
+
+  if (start === null || end === null) {
+    return ''
+  }
+
+  const months =
+    (end.getFullYear() - start.getFullYear()) * 12 +
+    (end.getMonth() - start.getMonth()) +
+    1
+
+  if (months <= 0) {
+    return ''
+  }
+
+  const { year, month, separator } =
+    DURATION_UNITS[language] ?? DURATION_UNITS.en
+
+  return [
+    { units: year, value: Math.floor(months / 12) },
+    { units: month, value: months % 12 },
+  ]
+    .filter(({ value }) => value > 0)
+    .map(({ units, value }) => `${value}${units[value === 1 ? 0 : 1]}`)
+    .join(separator)
 }
 
 /**
@@ -84,38 +223,78 @@ export function localizeDate(
  * @param startDate - The start date.
  * @param endDate - The end date.
  * @param language - The language to localize the date string to.
+ * @param dates - The date settings of the layout, absent options fall back to
+ * the defaults of the language. The separator and the wording of ongoing dates
+ * are embedded as is, so they should be escaped for the output beforehand.
  * @returns The date range.
  */
 export function getDateRange(
   startDate: string,
   endDate: string,
-  language: LocaleLanguage
+  language: LocaleLanguage,
+  dates?: LayoutDates
 ): string {
   if (!startDate) {
     return ''
   }
 
+  const { format, separator, present, showDuration } = dates ?? {}
+
+  const start = localizeDate(startDate, language, format)
+
+  let dateRange: string
+
   if (!endDate) {
-    switch (language) {
-      case 'zh-hans':
-      case 'zh-hant-hk':
-      case 'zh-hant-tw':
-        return `${localizeDate(startDate, language)}至今`
-      case 'es':
-        return `${localizeDate(startDate, language)} hasta la fecha`
-      case 'no':
-        return `${localizeDate(startDate, language)}–Nå`
-      default:
-        // by default we return English's "Present" if language is not supported
-        return `${localizeDate(startDate, language)}–Present`
-    }
+    const presentTerm = getPresentTerm(language)
+
+    // a custom separator or wording replaces the language specific phrase,
+    // e.g, "至今" in Chinese, with a plain date range
+    dateRange =
+      isEmptyValue(separator) && isEmptyValue(present)
+        ? `${start}${presentTerm.separator}${presentTerm.present}`
+        : `${start}${separator ?? '–'}${present ?? presentTerm.present}`
+  } else {
+    // Please note that we use en-dash instead of hyphen as the date separator
+    dateRange = `${start}${separator ?? '–'}${localizeDate(
+      endDate,
+      language,
+      format
+    )}`
   }
 
-  // Please note that we use en-dash instead of hyphen as the date separator
-  return `${localizeDate(startDate, language)}–${localizeDate(
-    endDate,
-    language
-  )}`
+  const duration = showDuration ? getDuration(startDate, endDate, language) : ''
+
+  return duration ? `${dateRange} (${duration})` : dateRange
+}
+
+/**
+ * Get the overall start and end date of multiple date ranges, e.g, the tenure
+ * at a company across all positions held there.
+ *
+ * The overall start date is the earliest start date, and the overall end date
+ * is the latest end date, or an empty string if any date range is ongoing.
+ * Dates that cannot be parsed are ignored.
+ *
+ * @param dateRanges - The date ranges with start and end dates.
+ * @returns The overall start and end date.
+ */
+export function getOverallDates(
+  dateRanges: { startDate: string; endDate?: string }[]
+): { startDate: string; endDate: string } {
+  const sortByDate = (dates: string[]) =>
+    dates
+      .filter((date) => parseDate(date) !== null)
+      .sort((a, b) => parseDate(a).getTime() - parseDate(b).getTime())
+
+  const startDates = sortByDate(dateRanges.map(({ startDate }) => startDate))
+  const endDates = sortByDate(dateRanges.map(({ endDate }) => endDate))
+
+  const isOngoing = dateRanges.some(({ endDate }) => isEmptyValue(endDate))
+
+  return {
+    startDate: startDates[0] ?? '',
+    endDate: isOngoing ? '' : (endDates[endDates.length - 1] ?? ''),
+  }
 }
 
 /**
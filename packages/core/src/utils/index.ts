@@ -24,6 +24,10 @@
 
 export * from './array'
 export * from './date'
+export * from './html'
+export * from './markdown'
 export * from './object'
 export * from './string'
 export * from './tex'
+export * from './typst'
+export * from './zip'
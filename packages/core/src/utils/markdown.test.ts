@@ -0,0 +1,85 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { escapeMarkdown, escapeMarkdownUrl } from './markdown'
+
+describe(escapeMarkdown, () => {
+  it('should return null or undefined as is', () => {
+    expect(escapeMarkdown(null)).toBeNull()
+    expect(escapeMarkdown(undefined)).toBeUndefined()
+    expect(escapeMarkdown('')).toBe('')
+  })
+
+  it('should escape inline special characters', () => {
+    const tests = [
+      { value: 'snake_case', expected: 'snake\\_case' },
+      { value: '2 * 3', expected: '2 \\* 3' },
+      { value: '`code`', expected: '\\`code\\`' },
+      { value: '[link]', expected: '\\[link\\]' },
+      { value: '~~old~~', expected: '\\~\\~old\\~\\~' },
+      { value: '<br>', expected: '\\<br>' },
+      { value: 'C:\\', expected: 'C:\\\\' },
+      { value: 'C++ & C#, high-quality', expected: 'C++ & C#, high-quality' },
+    ]
+
+    for (const { value, expected } of tests) {
+      expect(escapeMarkdown(value)).toBe(expected)
+    }
+  })
+
+  it('should escape block markers at the start of a line', () => {
+    const tests = [
+      { value: '# 1 in sales', expected: '\\# 1 in sales' },
+      { value: '> 100 users', expected: '\\> 100 users' },
+      { value: '- 20%', expected: '\\- 20%' },
+      { value: '+ 20%', expected: '\\+ 20%' },
+      { value: 'a\n===', expected: 'a\n\\===' },
+      { value: '1999. A year', expected: '1999\\. A year' },
+      { value: 'a\n 2) b', expected: 'a\n 2\\) b' },
+      { value: 'version 1.0', expected: 'version 1.0' },
+    ]
+
+    for (const { value, expected } of tests) {
+      expect(escapeMarkdown(value)).toBe(expected)
+    }
+  })
+})
+
+describe(escapeMarkdownUrl, () => {
+  it('should return null or undefined as is', () => {
+    expect(escapeMarkdownUrl(null)).toBeNull()
+    expect(escapeMarkdownUrl(undefined)).toBeUndefined()
+  })
+
+  it('should escape parentheses and whitespaces', () => {
+    expect(
+      escapeMarkdownUrl('https://en.wikipedia.org/wiki/C_(language)')
+    ).toBe('https://en.wikipedia.org/wiki/C_\\(language\\)')
+    expect(escapeMarkdownUrl('https://example.com/a b')).toBe(
+      'https://example.com/a%20b'
+    )
+  })
+})
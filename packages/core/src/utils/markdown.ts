@@ -0,0 +1,70 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { isEmptyValue } from './object'
+
+/**
+ * Characters that have a special meaning anywhere in markdown inline text.
+ */
+const MARKDOWN_INLINE_SPECIAL_CHARS = /[\\`*_~[\]<]/g
+
+/**
+ * Escape special markdown characters, handling null and undefined values.
+ *
+ * Besides the inline special characters, `#`, `>`, `-`, `+`, `=` and `1.` or
+ * `1)` are escaped at the start of a line so they are not parsed as headings,
+ * blockquotes or lists.
+ *
+ * @param value - value to be escaped
+ * @returns escaped value
+ */
+export function escapeMarkdown(value: string | null | undefined) {
+  if (isEmptyValue(value)) {
+    return value
+  }
+
+  return value
+    .replace(MARKDOWN_INLINE_SPECIAL_CHARS, (char) => `\\${char}`)
+    .replace(/^(\s*)([#>+=-])/gm, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])/gm, '$1\\$2')
+}
+
+/**
+ * Escape a markdown link destination, handling null and undefined values.
+ *
+ * Parentheses and backslashes are escaped and whitespaces are percent-encoded
+ * so that the url can be used inside `[text](url)`.
+ *
+ * @param value - url to be escaped
+ * @returns escaped url
+ */
+export function escapeMarkdownUrl(value: string | null | undefined) {
+  if (isEmptyValue(value)) {
+    return value
+  }
+
+  return value
+    .replace(/[\\()]/g, (char) => `\\${char}`)
+    .replace(/\s/g, (char) => encodeURIComponent(char))
+}
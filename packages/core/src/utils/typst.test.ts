@@ -0,0 +1,91 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { escapeTypst, escapeTypstString } from './typst'
+
+describe(escapeTypst, () => {
+  it('returns empty values as original', () => {
+    for (const value of [null, undefined, '']) {
+      expect(escapeTypst(value)).toBe(value)
+    }
+  })
+
+  it('escapes non-empty values', () => {
+    const tests = [
+      {
+        value: 'Hello, world!',
+        expected: 'Hello, world!',
+      },
+      {
+        value: '#1 in C++ & *bold* _italic_, high-quality',
+        expected: '\\#1 in C++ & \\*bold\\* \\_italic\\_, high-quality',
+      },
+      {
+        value: 'hi@ppresume.com <label> $100 [link] ~nbsp `raw` C:\\path',
+        expected:
+          'hi\\@ppresume.com \\<label\\> \\$100 \\[link\\] \\~nbsp \\`raw\\` C:\\\\path',
+      },
+      {
+        value: 'https://ppresume.com /// a--b ---c soft-?hyphen',
+        expected:
+          'https:\\//ppresume.com \\/\\// a\\--b \\-\\--c soft\\-?hyphen',
+      },
+      {
+        value: '- item\n  + item\n= heading\n1984. A good year',
+        expected: '\\- item\n  \\+ item\n\\= heading\n1984\\. A good year',
+      },
+    ]
+
+    for (const { value, expected } of tests) {
+      expect(escapeTypst(value)).toBe(expected)
+    }
+  })
+})
+
+describe(escapeTypstString, () => {
+  it('returns empty values as original', () => {
+    for (const value of [null, undefined, '']) {
+      expect(escapeTypstString(value)).toBe(value)
+    }
+  })
+
+  it('escapes non-empty values', () => {
+    const tests = [
+      {
+        value: 'https://ppresume.com/#about',
+        expected: 'https://ppresume.com/#about',
+      },
+      {
+        value: 'The "Shawshank" C:\\Redemption',
+        expected: 'The \\"Shawshank\\" C:\\\\Redemption',
+      },
+    ]
+
+    for (const { value, expected } of tests) {
+      expect(escapeTypstString(value)).toBe(expected)
+    }
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { isEmptyValue } from './object'
+
+/**
+ * Characters that have a special meaning anywhere in Typst markup.
+ */
+const TYPST_MARKUP_SPECIAL_CHARS = /[\\#*_`$<>@[\]~]/g
+
+/**
+ * Escape special Typst markup characters, handling null and undefined values.
+ *
+ * Besides the special characters, `/` is escaped when it would start a
+ * comment, `-` when it would start a dash or a soft hyphen, and `-`, `+`, `=`
+ * or `1.` at the start of a line so they are not parsed as lists or headings.
+ *
+ * The escaped value is safe to be used as Typst markup, i.e, inside a content
+ * block like `[...]`.
+ *
+ * @param value - value to be escaped
+ * @returns escaped value
+ */
+export function escapeTypst(value: string | null | undefined) {
+  if (isEmptyValue(value)) {
+    return value
+  }
+
+  return value
+    .replace(TYPST_MARKUP_SPECIAL_CHARS, (char) => `\\${char}`)
+    .replace(/\/(?=[/*])/g, '\\/')
+    .replace(/-(?=[-?])/g, '\\-')
+    .replace(/^(\s*)([-+=])/gm, '$1\\$2')
+    .replace(/^(\s*\d+)\./gm, '$1\\.')
+}
+
+/**
+ * Escape special characters in Typst string literals, handling null and
+ * undefined values.
+ *
+ * The escaped value is safe to be used inside double quotes, e.g,
+ * `#link("...")`.
+ *
+ * @param value - value to be escaped
+ * @returns escaped value
+ */
+export function escapeTypstString(value: string | null | undefined) {
+  if (isEmptyValue(value)) {
+    return value
+  }
+
+  return value.replace(/[\\"]/g, (char) => `\\${char}`)
+}
@@ -0,0 +1,116 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { crc32, createZip } from './zip'
+
+describe(crc32, () => {
+  it('computes the crc-32 checksum', () => {
+    const encoder = new TextEncoder()
+    const tests = [
+      { value: '', expected: 0 },
+      { value: 'hello', expected: 0x3610a686 },
+      {
+        value: 'The quick brown fox jumps over the lazy dog',
+        expected: 0x414fa339,
+      },
+    ]
+
+    for (const { value, expected } of tests) {
+      expect(crc32(encoder.encode(value))).toBe(expected)
+    }
+  })
+})
+
+describe(createZip, () => {
+  /**
+   * Read back the entries of a stored zip archive via its central directory.
+   */
+  function readZip(bytes: Uint8Array) {
+    const view = new DataView(bytes.buffer)
+    const decoder = new TextDecoder()
+
+    const end = bytes.length - 22
+    expect(view.getUint32(end, true)).toBe(0x06054b50)
+
+    const count = view.getUint16(end + 10, true)
+    let offset = view.getUint32(end + 16, true)
+
+    return Array.from({ length: count }, () => {
+      expect(view.getUint32(offset, true)).toBe(0x02014b50)
+
+      const crc = view.getUint32(offset + 16, true)
+      const size = view.getUint32(offset + 24, true)
+      const nameLength = view.getUint16(offset + 28, true)
+      const localOffset = view.getUint32(offset + 42, true)
+      const path = decoder.decode(
+        bytes.slice(offset + 46, offset + 46 + nameLength)
+      )
+
+      expect(view.getUint32(localOffset, true)).toBe(0x04034b50)
+      const dataOffset = localOffset + 30 + nameLength
+      const data = bytes.slice(dataOffset, dataOffset + size)
+
+      offset += 46 + nameLength
+
+      return { path, crc, content: decoder.decode(data) }
+    })
+  }
+
+  it('creates an empty archive', () => {
+    const bytes = createZip([])
+
+    expect(bytes.length).toBe(22)
+    expect(readZip(bytes)).toEqual([])
+  })
+
+  it('stores entries in order', () => {
+    const bytes = createZip([
+      { path: 'hello.txt', content: 'hello' },
+      { path: 'dir/你好.xml', content: '<xml>你好</xml>' },
+      { path: 'raw.bin', content: new TextEncoder().encode('raw') },
+    ])
+
+    expect(readZip(bytes)).toEqual([
+      { path: 'hello.txt', crc: 0x3610a686, content: 'hello' },
+      {
+        path: 'dir/你好.xml',
+        crc: crc32(new TextEncoder().encode('<xml>你好</xml>')),
+        content: '<xml>你好</xml>',
+      },
+      {
+        path: 'raw.bin',
+        crc: crc32(new TextEncoder().encode('raw')),
+        content: 'raw',
+      },
+    ])
+  })
+
+  it('creates the same archive for the same entries', () => {
+    const entries = [{ path: 'hello.txt', content: 'hello' }]
+
+    expect(createZip(entries)).toEqual(createZip(entries))
+  })
+})
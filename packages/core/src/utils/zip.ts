@@ -0,0 +1,162 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+/**
+ * A file to be added into a zip archive.
+ */
+export type ZipEntry = {
+  /** The path of the file inside the archive, e.g, `word/document.xml`. */
+  path: string
+  /** The content of the file. */
+  content: string | Uint8Array
+}
+
+/**
+ * Lookup table for the CRC-32 checksum, computed once on first use.
+ */
+let crcTable: number[] | undefined
+
+/**
+ * Compute the CRC-32 checksum of the given bytes, as required by the zip
+ * format.
+ *
+ * @param bytes - The bytes to compute the checksum for.
+ * @returns The unsigned CRC-32 checksum.
+ */
+export function crc32(bytes: Uint8Array): number {
+  if (crcTable === undefined) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      return c >>> 0
+    })
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// general purpose flag telling that file names are encoded in UTF-8
+const UTF8_FLAG = 0x0800
+
+// files are stored with a fixed MS-DOS timestamp (1980-01-01 00:00) so that
+// the same input always produces the same archive
+const DOS_TIME = 0
+const DOS_DATE = (1 << 5) | 1
+
+/**
+ * Create a zip archive from the given entries.
+ *
+ * Files are stored without compression, which keeps the implementation free of
+ * any dependencies and is good enough for small documents like a docx resume.
+ *
+ * @param entries - The files to add into the archive, in order.
+ * @returns The bytes of the zip archive.
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder()
+
+  const files = entries.map(({ path, content }) => {
+    const data = typeof content === 'string' ? encoder.encode(content) : content
+    return { name: encoder.encode(path), data, crc: crc32(data) }
+  })
+
+  const localSize = files.reduce(
+    (size, { name, data }) => size + 30 + name.length + data.length,
+    0
+  )
+  const centralSize = files.reduce(
+    (size, { name }) => size + 46 + name.length,
+    0
+  )
+
+  const bytes = new Uint8Array(localSize + centralSize + 22)
+  const view = new DataView(bytes.buffer)
+
+  let offset = 0
+  const localOffsets: number[] = []
+
+  // local file headers followed by file data
+  files.forEach(({ name, data, crc }) => {
+    localOffsets.push(offset)
+
+    view.setUint32(offset, 0x04034b50, true)
+    view.setUint16(offset + 4, 20, true)
+    view.setUint16(offset + 6, UTF8_FLAG, true)
+    view.setUint16(offset + 8, 0, true)
+    view.setUint16(offset + 10, DOS_TIME, true)
+    view.setUint16(offset + 12, DOS_DATE, true)
+    view.setUint32(offset + 14, crc, true)
+    view.setUint32(offset + 18, data.length, true)
+    view.setUint32(offset + 22, data.length, true)
+    view.setUint16(offset + 26, name.length, true)
+    view.setUint16(offset + 28, 0, true)
+    bytes.set(name, offset + 30)
+    bytes.set(data, offset + 30 + name.length)
+
+    offset += 30 + name.length + data.length
+  })
+
+  // central directory
+  files.forEach(({ name, data, crc }, index) => {
+    view.setUint32(offset, 0x02014b50, true)
+    view.setUint16(offset + 4, 20, true)
+    view.setUint16(offset + 6, 20, true)
+    view.setUint16(offset + 8, UTF8_FLAG, true)
+    view.setUint16(offset + 10, 0, true)
+    view.setUint16(offset + 12, DOS_TIME, true)
+    view.setUint16(offset + 14, DOS_DATE, true)
+    view.setUint32(offset + 16, crc, true)
+    view.setUint32(offset + 20, data.length, true)
+    view.setUint32(offset + 24, data.length, true)
+    view.setUint16(offset + 28, name.length, true)
+    view.setUint16(offset + 30, 0, true)
+    view.setUint16(offset + 32, 0, true)
+    view.setUint16(offset + 34, 0, true)
+    view.setUint16(offset + 36, 0, true)
+    view.setUint32(offset + 38, 0, true)
+    view.setUint32(offset + 42, localOffsets[index], true)
+    bytes.set(name, offset + 46)
+
+    offset += 46 + name.length
+  })
+
+  // end of central directory record
+  view.setUint32(offset, 0x06054b50, true)
+  view.setUint16(offset + 4, 0, true)
+  view.setUint16(offset + 6, 0, true)
+  view.setUint16(offset + 8, files.length, true)
+  view.setUint16(offset + 10, files.length, true)
+  view.setUint32(offset + 12, centralSize, true)
+  view.setUint32(offset + 16, localSize, true)
+  view.setUint16(offset + 20, 0, true)
+
+  return bytes
+}
@@ -0,0 +1,119 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { COUNTRY_OPTIONS, DEGREE_OPTIONS } from '@yamlresume/core'
+import { describe, expect, it } from 'vitest'
+import { CompletionItemKind } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+
+import { getCompletions } from './completion'
+
+/**
+ * Create a text document for a resume.
+ */
+function createTextDocument(lines: string[]) {
+  return TextDocument.create('file:///resume.yml', 'yaml', 1, lines.join('\n'))
+}
+
+describe(getCompletions, () => {
+  it('should complete empty values with predefined options', () => {
+    const textDocument = createTextDocument([
+      'content:',
+      '  location:',
+      '    country: ',
+    ])
+
+    const completions = getCompletions(textDocument, {
+      line: 2,
+      character: 13,
+    })
+
+    expect(completions.map(({ label }) => label)).toEqual(COUNTRY_OPTIONS)
+    expect(completions[0]).toEqual({
+      label: COUNTRY_OPTIONS[0],
+      kind: CompletionItemKind.EnumMember,
+      detail: '[optional] Country Option',
+      textEdit: {
+        range: {
+          start: { line: 2, character: 13 },
+          end: { line: 2, character: 13 },
+        },
+        newText: COUNTRY_OPTIONS[0],
+      },
+    })
+  })
+
+  it('should replace existing values', () => {
+    const textDocument = createTextDocument([
+      'content:',
+      '  education:',
+      '    - degree: Bach',
+    ])
+
+    const completions = getCompletions(textDocument, {
+      line: 2,
+      character: 16,
+    })
+
+    expect(completions.map(({ label }) => label)).toEqual(DEGREE_OPTIONS)
+    expect(completions[0].textEdit).toEqual({
+      range: {
+        start: { line: 2, character: 14 },
+        end: { line: 2, character: 18 },
+      },
+      newText: DEGREE_OPTIONS[0],
+    })
+  })
+
+  it('should complete options of the layout engine', () => {
+    const textDocument = createTextDocument([
+      'layouts:',
+      '  - engine: latex',
+      '    typography:',
+      '      fontSize: ',
+    ])
+
+    const completions = getCompletions(textDocument, {
+      line: 3,
+      character: 16,
+    })
+
+    expect(completions.map(({ label }) => label)).toEqual([
+      '10pt',
+      '11pt',
+      '12pt',
+    ])
+  })
+
+  it('should return empty array for keys and free form values', () => {
+    const textDocument = createTextDocument([
+      'content:',
+      '  basics:',
+      '    name: Andy',
+    ])
+
+    expect(getCompletions(textDocument, { line: 2, character: 5 })).toEqual([])
+    expect(getCompletions(textDocument, { line: 2, character: 12 })).toEqual([])
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { ResumeSchema } from '@yamlresume/core'
+import {
+  type CompletionItem,
+  CompletionItemKind,
+  type Position,
+  TextEdit,
+} from 'vscode-languageserver'
+import type { TextDocument } from 'vscode-languageserver-textdocument'
+import { stringify } from 'yaml'
+
+import { getRange, parseTextDocument } from './diagnostics'
+import { getLocationAtOffset } from './path'
+import { getSchemaAtPath, getSchemaMeta, getSchemaOptions } from './schema'
+
+/**
+ * Get completions for the value at a position in a resume.
+ *
+ * Only values with predefined options are completed, e.g, countries, networks,
+ * degrees, languages and so on.
+ *
+ * @param textDocument - The text document.
+ * @param position - The position in the text document.
+ * @returns A list of completion items.
+ */
+export function getCompletions(
+  textDocument: TextDocument,
+  position: Position
+): CompletionItem[] {
+  const document = parseTextDocument(textDocument)
+  const location = getLocationAtOffset(
+    document,
+    textDocument.offsetAt(position),
+    textDocument.getText()
+  )
+
+  if (!location || location.isKey) {
+    return []
+  }
+
+  const schema = getSchemaAtPath(ResumeSchema, location.path, document.toJS())
+
+  if (!schema) {
+    return []
+  }
+
+  const meta = getSchemaMeta(schema)
+  const range = location.node?.range
+    ? getRange(textDocument, location.node.range[0], location.node.range[1])
+    : { start: position, end: position }
+
+  return getSchemaOptions(schema)
+    .filter((option) => typeof option === 'string')
+    .map((option) => ({
+      label: option,
+      kind: CompletionItemKind.EnumMember,
+      detail: meta?.title,
+      // quote options which are not plain YAML strings, e.g, `"10"`
+      textEdit: TextEdit.replace(range, stringify(option).trimEnd()),
+    }))
+}
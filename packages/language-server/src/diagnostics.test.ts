@@ -0,0 +1,119 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { DiagnosticSeverity } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+
+import { DIAGNOSTIC_SOURCE, getDiagnostics } from './diagnostics'
+
+/**
+ * Create a text document for a resume.
+ */
+function createTextDocument(lines: string[]) {
+  return TextDocument.create('file:///resume.yml', 'yaml', 1, lines.join('\n'))
+}
+
+describe(getDiagnostics, () => {
+  const validResume = [
+    'content:',
+    '  basics:',
+    '    name: Andy Dufresne',
+    '  education:',
+    '    - institution: University of Maine',
+    '      area: Banking',
+    '      degree: Bachelor',
+    '      startDate: Sep 1, 1940',
+    'layouts:',
+    '  - engine: markdown',
+  ]
+
+  it('should return empty array for valid resume', () => {
+    expect(getDiagnostics(createTextDocument(validResume))).toEqual([])
+  })
+
+  it('should report yaml syntax errors', () => {
+    const diagnostics = getDiagnostics(createTextDocument(['name: a: b']))
+
+    expect(diagnostics).toEqual([
+      {
+        severity: DiagnosticSeverity.Error,
+        range: {
+          start: { line: 0, character: 6 },
+          end: expect.any(Object),
+        },
+        message: 'Nested mappings are not allowed in compact mappings.',
+        source: DIAGNOSTIC_SOURCE,
+      },
+    ])
+  })
+
+  it('should report schema validation issues as errors', () => {
+    const lines = [...validResume]
+    lines[2] = '    name: A'
+
+    const diagnostics = getDiagnostics(createTextDocument(lines))
+
+    expect(diagnostics).toEqual([
+      {
+        severity: DiagnosticSeverity.Error,
+        range: {
+          start: { line: 2, character: 10 },
+          end: { line: 2, character: 11 },
+        },
+        message: 'name should be 2 characters or more.',
+        source: DIAGNOSTIC_SOURCE,
+      },
+    ])
+  })
+
+  it('should report missing fields at the start of the document', () => {
+    const diagnostics = getDiagnostics(
+      createTextDocument(validResume.slice(0, 3))
+    )
+
+    expect(diagnostics).toEqual([
+      {
+        severity: DiagnosticSeverity.Error,
+        range: {
+          start: { line: 0, character: 0 },
+          end: { line: 0, character: 0 },
+        },
+        message: 'education is required.',
+        source: DIAGNOSTIC_SOURCE,
+      },
+    ])
+  })
+
+  it('should ignore issues of values composed from other files', () => {
+    const tests = [
+      [...validResume.slice(0, 3), '  education: !include education.yml'],
+      ['extends: base.yml', ...validResume.slice(0, 3)],
+    ]
+
+    for (const lines of tests) {
+      expect(getDiagnostics(createTextDocument(lines))).toEqual([])
+    }
+  })
+})
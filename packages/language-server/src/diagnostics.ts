@@ -0,0 +1,143 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { ResumeSchema } from '@yamlresume/core'
+import {
+  type Diagnostic,
+  DiagnosticSeverity,
+  type Range,
+} from 'vscode-languageserver'
+import type { TextDocument } from 'vscode-languageserver-textdocument'
+import { type Document, isMap, isNode, isScalar, parseDocument } from 'yaml'
+
+import type { SchemaPath } from './schema'
+
+/**
+ * The source of diagnostics, shown by editors next to the message.
+ */
+export const DIAGNOSTIC_SOURCE = 'yamlresume'
+
+/**
+ * Parse a text document into a YAML document.
+ *
+ * @param textDocument - The text document.
+ * @returns The YAML document.
+ */
+export function parseTextDocument(textDocument: TextDocument): Document {
+  return parseDocument(textDocument.getText(), { keepSourceTokens: true })
+}
+
+/**
+ * Get the range of a pair of offsets in a text document.
+ *
+ * @param textDocument - The text document.
+ * @param start - The start offset.
+ * @param end - The end offset.
+ * @returns The range in the text document.
+ */
+export function getRange(
+  textDocument: TextDocument,
+  start: number,
+  end: number
+): Range {
+  return {
+    start: textDocument.positionAt(start),
+    end: textDocument.positionAt(end),
+  }
+}
+
+/**
+ * Check whether a schema issue comes from a value which is composed from
+ * other files, i.e, the node or one of its ancestors is an `!include` tag, or
+ * the node is missing while the resume `extends` a base resume.
+ *
+ * These values are only known after composing the resume, so the issue may be
+ * a false positive for a single file.
+ *
+ * @param document - The YAML document.
+ * @param path - The path of the issue.
+ * @returns True if the issue should be ignored.
+ */
+function isComposedIssue(document: Document, path: SchemaPath): boolean {
+  for (let index = 1; index <= path.length; index++) {
+    const node = document.getIn(path.slice(0, index), true)
+    if (isScalar(node) && node.tag === '!include') {
+      return true
+    }
+  }
+
+  return (
+    isMap(document.contents) &&
+    document.contents.has('extends') &&
+    !isNode(document.getIn(path, true))
+  )
+}
+
+/**
+ * Get diagnostics for a resume text document.
+ *
+ * Both YAML syntax errors and schema validation issues are reported as errors,
+ * just like `yamlresume validate`, which fails on either of them.
+ *
+ * @param textDocument - The text document.
+ * @returns A list of diagnostics.
+ */
+export function getDiagnostics(textDocument: TextDocument): Diagnostic[] {
+  const document = parseTextDocument(textDocument)
+
+  if (document.errors.length > 0) {
+    return document.errors.map((error) => ({
+      severity: DiagnosticSeverity.Error,
+      range: getRange(textDocument, error.pos[0], error.pos[1]),
+      message: error.message
+        .split('\n')[0]
+        .replace(/ at line \d+, column \d+:?/, '.')
+        .trim(),
+      source: DIAGNOSTIC_SOURCE,
+    }))
+  }
+
+  const validationResult = ResumeSchema.safeParse(document.toJS())
+
+  if (validationResult.success) {
+    return []
+  }
+
+  return validationResult.error.issues
+    .filter((issue) => !isComposedIssue(document, issue.path as SchemaPath))
+    .map((issue) => {
+      const node = document.getIn(issue.path, true)
+      const range =
+        isNode(node) && node.range
+          ? getRange(textDocument, node.range[0], node.range[1])
+          : getRange(textDocument, 0, 0)
+
+      return {
+        severity: DiagnosticSeverity.Error,
+        range,
+        message: issue.message,
+        source: DIAGNOSTIC_SOURCE,
+      }
+    })
+}
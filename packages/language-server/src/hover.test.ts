@@ -0,0 +1,79 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { MarkupKind } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+
+import { getHover } from './hover'
+
+describe(getHover, () => {
+  const textDocument = TextDocument.create(
+    'file:///resume.yml',
+    'yaml',
+    1,
+    [
+      'content:',
+      '  basics:',
+      '    name: Andy Dufresne',
+      '    unknown: value',
+    ].join('\n')
+  )
+
+  it('should show docs from schema metadata', () => {
+    const hover = getHover(textDocument, { line: 2, character: 5 })
+
+    expect(hover).toEqual({
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: [
+          '**Name**',
+          'Your personal name.',
+          'Examples: `"Andy Dufresne"`, `"Xiao Hanyu"`, `"Jane Smith"`, `"Dr. Robert John"`',
+        ].join('\n\n'),
+      },
+      range: {
+        start: { line: 2, character: 4 },
+        end: { line: 2, character: 8 },
+      },
+    })
+  })
+
+  it('should show docs for values', () => {
+    const hover = getHover(textDocument, { line: 2, character: 12 })
+
+    expect(hover.contents).toEqual(
+      expect.objectContaining({ value: expect.stringContaining('**Name**') })
+    )
+    expect(hover.range).toEqual({
+      start: { line: 2, character: 10 },
+      end: { line: 2, character: 23 },
+    })
+  })
+
+  it('should return null for unknown keys', () => {
+    expect(getHover(textDocument, { line: 3, character: 5 })).toBeNull()
+    expect(getHover(textDocument, { line: 4, character: 0 })).toBeNull()
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { joinNonEmptyString, ResumeSchema } from '@yamlresume/core'
+import { type Hover, MarkupKind, type Position } from 'vscode-languageserver'
+import type { TextDocument } from 'vscode-languageserver-textdocument'
+
+import { getRange, parseTextDocument } from './diagnostics'
+import { getLocationAtOffset } from './path'
+import { getSchemaAtPath, getSchemaMeta } from './schema'
+
+/**
+ * Get hover docs for the key or value at a position in a resume.
+ *
+ * The docs come from the `title`, `description` and `examples` metadata of
+ * the zod schema of the node.
+ *
+ * @param textDocument - The text document.
+ * @param position - The position in the text document.
+ * @returns The hover docs, or null if there is nothing to show.
+ */
+export function getHover(
+  textDocument: TextDocument,
+  position: Position
+): Hover | null {
+  const document = parseTextDocument(textDocument)
+  const location = getLocationAtOffset(
+    document,
+    textDocument.offsetAt(position),
+    textDocument.getText()
+  )
+
+  if (!location) {
+    return null
+  }
+
+  const schema = getSchemaAtPath(ResumeSchema, location.path, document.toJS())
+  const meta = schema ? getSchemaMeta(schema) : undefined
+
+  if (!meta?.description) {
+    return null
+  }
+
+  const examples = (meta.examples ?? [])
+    .map((example) => `\`${JSON.stringify(example)}\``)
+    .join(', ')
+
+  return {
+    contents: {
+      kind: MarkupKind.Markdown,
+      value: joinNonEmptyString(
+        [
+          meta.title ? `**${meta.title}**` : '',
+          meta.description,
+          examples ? `Examples: ${examples}` : '',
+        ],
+        '\n\n'
+      ),
+    },
+    ...(location.node?.range
+      ? {
+          range: getRange(
+            textDocument,
+            location.node.range[0],
+            location.node.range[1]
+          ),
+        }
+      : {}),
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { parseDocument } from 'yaml'
+
+import { getLocationAtOffset } from './path'
+
+describe(getLocationAtOffset, () => {
+  const text = [
+    'content:',
+    '  basics:',
+    '    name: Andy Dufresne',
+    '  profiles:',
+    '    - network: GitHub',
+    '      username: andy',
+    '  location:',
+    '    country: ',
+    '',
+  ].join('\n')
+  const document = parseDocument(text, { keepSourceTokens: true })
+
+  it('should locate keys', () => {
+    const location = getLocationAtOffset(document, text.indexOf('name'), text)
+
+    expect(location.path).toEqual(['content', 'basics', 'name'])
+    expect(location.isKey).toBe(true)
+    expect(location.node.value).toBe('name')
+  })
+
+  it('should locate values', () => {
+    const tests = [
+      {
+        offset: text.indexOf('Dufresne'),
+        path: ['content', 'basics', 'name'],
+        value: 'Andy Dufresne',
+      },
+      {
+        offset: text.indexOf('GitHub'),
+        path: ['content', 'profiles', 0, 'network'],
+        value: 'GitHub',
+      },
+      {
+        offset: text.indexOf('andy'),
+        path: ['content', 'profiles', 0, 'username'],
+        value: 'andy',
+      },
+    ]
+
+    for (const { offset, path, value } of tests) {
+      const location = getLocationAtOffset(document, offset, text)
+
+      expect(location.path).toEqual(path)
+      expect(location.isKey).toBe(false)
+      expect(location.node.value).toBe(value)
+    }
+  })
+
+  it('should locate empty values after the colon', () => {
+    const offset = text.indexOf('country: ') + 'country: '.length
+    const location = getLocationAtOffset(document, offset, text)
+
+    expect(location.path).toEqual(['content', 'location', 'country'])
+    expect(location.isKey).toBe(false)
+  })
+
+  it('should return undefined outside of keys and values', () => {
+    expect(getLocationAtOffset(document, text.length, text)).toBeUndefined()
+    expect(getLocationAtOffset(parseDocument(''), 0, '')).toBeUndefined()
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import {
+  type Document,
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  type Node,
+  type Scalar,
+} from 'yaml'
+
+import type { SchemaPath } from './schema'
+
+/**
+ * The location of an offset in a YAML document.
+ *
+ * @param path - The path to the node at the offset.
+ * @param isKey - Whether the offset is on a map key instead of a value.
+ * @param node - The scalar at the offset, if any.
+ */
+export interface NodeLocation {
+  path: SchemaPath
+  isKey: boolean
+  node?: Scalar
+}
+
+/**
+ * Check whether the offset is within the range of a node.
+ *
+ * @param node - The YAML node.
+ * @param offset - The offset in the document.
+ * @returns True if the offset is within the node.
+ */
+function contains(node: unknown, offset: number): boolean {
+  return (
+    isNode(node) &&
+    node.range !== undefined &&
+    node.range[0] <= offset &&
+    offset <= node.range[1]
+  )
+}
+
+/**
+ * Check whether a node is missing or an empty scalar, e.g, `country:`.
+ *
+ * @param node - The YAML node.
+ * @returns True if the node has no value.
+ */
+function isEmptyNode(node: unknown): boolean {
+  return (
+    node === null ||
+    node === undefined ||
+    (isScalar(node) && (node.value === null || node.value === ''))
+  )
+}
+
+/**
+ * Locate the offset in a YAML node recursively.
+ *
+ * @param node - The YAML node.
+ * @param path - The path to the node.
+ * @param offset - The offset in the document.
+ * @param text - The document text.
+ * @returns The location of the offset, or undefined if not found.
+ */
+function locate(
+  node: Node,
+  path: SchemaPath,
+  offset: number,
+  text: string
+): NodeLocation | undefined {
+  if (isScalar(node)) {
+    return { path, isKey: false, node }
+  }
+
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      if (!isScalar(pair.key)) {
+        continue
+      }
+
+      const pairPath = [...path, String(pair.key.value)]
+
+      if (contains(pair.key, offset)) {
+        return { path: pairPath, isKey: true, node: pair.key }
+      }
+
+      if (contains(pair.value, offset)) {
+        return locate(pair.value as Node, pairPath, offset, text)
+      }
+
+      // the cursor is after the colon of a key without value yet
+      const keyEnd = pair.key.range[1]
+      if (
+        isEmptyNode(pair.value) &&
+        offset > keyEnd &&
+        !text.slice(keyEnd, offset).includes('\n')
+      ) {
+        return { path: pairPath, isKey: false }
+      }
+    }
+  }
+
+  if (isSeq(node)) {
+    const index = node.items.findIndex((item) => contains(item, offset))
+
+    if (index >= 0) {
+      return locate(node.items[index] as Node, [...path, index], offset, text)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Get the location of an offset in a YAML document.
+ *
+ * @param document - The YAML document.
+ * @param offset - The offset in the document.
+ * @param text - The document text.
+ * @returns The location of the offset, or undefined if the offset is not on a
+ * key or a value.
+ */
+export function getLocationAtOffset(
+  document: Document,
+  offset: number,
+  text: string
+): NodeLocation | undefined {
+  const { contents } = document
+
+  if (!isNode(contents)) {
+    return undefined
+  }
+
+  return locate(contents, [], offset, text)
+}
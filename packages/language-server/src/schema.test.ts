@@ -0,0 +1,150 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import {
+  COUNTRY_OPTIONS,
+  DEGREE_OPTIONS,
+  FONTSPEC_NUMBERS_OPTIONS,
+  ResumeSchema,
+} from '@yamlresume/core'
+import { describe, expect, it } from 'vitest'
+
+import {
+  getSchemaAtPath,
+  getSchemaMeta,
+  getSchemaOptions,
+  unwrapSchema,
+} from './schema'
+
+describe(unwrapSchema, () => {
+  it('should unwrap nullish schemas', () => {
+    const schema = getSchemaAtPath(ResumeSchema, ['content', 'location'])
+    const layers = unwrapSchema(schema)
+
+    expect(layers.map((layer) => layer.def.type)).toEqual([
+      'optional',
+      'nullable',
+      'object',
+    ])
+  })
+})
+
+describe(getSchemaAtPath, () => {
+  it('should return the root schema for an empty path', () => {
+    expect(getSchemaAtPath(ResumeSchema, [])).toBe(ResumeSchema)
+  })
+
+  it('should get schemas of objects and arrays', () => {
+    const tests = [
+      ['content', 'basics', 'name'],
+      ['content', 'education', 0, 'degree'],
+      ['content', 'profiles', 1, 'network'],
+      ['locale', 'language'],
+    ]
+
+    for (const path of tests) {
+      expect(getSchemaAtPath(ResumeSchema, path)).toBeDefined()
+    }
+  })
+
+  it('should return undefined for unknown paths', () => {
+    const tests = [
+      ['unknown'],
+      ['content', 'basics', 'unknown'],
+      ['content', 'education', 'degree'],
+      ['content', 'basics', 'email', 'unknown'],
+    ]
+
+    for (const path of tests) {
+      expect(getSchemaAtPath(ResumeSchema, path)).toBeUndefined()
+    }
+  })
+
+  it('should get schemas of localized strings', () => {
+    const path = ['content', 'basics', 'name', 'zh-hans']
+
+    expect(getSchemaMeta(getSchemaAtPath(ResumeSchema, path))).toEqual({
+      title: 'Name',
+      description: 'A name between 2 and 128 characters.',
+      examples: expect.any(Array),
+    })
+  })
+
+  it('should pick the option of discriminated unions by value', () => {
+    const path = ['layouts', 0, 'advanced', 'fontspec', 'numbers']
+
+    expect(getSchemaAtPath(ResumeSchema, path)).toBeDefined()
+    expect(
+      getSchemaAtPath(ResumeSchema, path, {
+        layouts: [{ engine: 'markdown' }],
+      })
+    ).toBeUndefined()
+    expect(
+      getSchemaOptions(
+        getSchemaAtPath(ResumeSchema, path, { layouts: [{ engine: 'latex' }] })
+      )
+    ).toEqual(FONTSPEC_NUMBERS_OPTIONS)
+  })
+})
+
+describe(getSchemaMeta, () => {
+  it('should get the metadata of the outermost schema', () => {
+    expect(
+      getSchemaMeta(
+        getSchemaAtPath(ResumeSchema, ['content', 'basics', 'name'])
+      )
+    ).toEqual({
+      title: 'Name',
+      description: 'Your personal name.',
+      examples: expect.any(Array),
+    })
+    expect(
+      getSchemaMeta(getSchemaAtPath(ResumeSchema, ['content', 'location']))
+        .title
+    ).toBe('Location')
+  })
+})
+
+describe(getSchemaOptions, () => {
+  it('should get options of enums', () => {
+    expect(
+      getSchemaOptions(
+        getSchemaAtPath(ResumeSchema, ['content', 'location', 'country'])
+      )
+    ).toEqual(COUNTRY_OPTIONS)
+    expect(
+      getSchemaOptions(
+        getSchemaAtPath(ResumeSchema, ['content', 'education', 0, 'degree'])
+      )
+    ).toEqual(DEGREE_OPTIONS)
+  })
+
+  it('should return empty array for schemas without options', () => {
+    expect(
+      getSchemaOptions(
+        getSchemaAtPath(ResumeSchema, ['content', 'basics', 'name'])
+      )
+    ).toEqual([])
+  })
+})
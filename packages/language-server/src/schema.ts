@@ -0,0 +1,217 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import type { ResumeSchema } from '@yamlresume/core'
+import type { z } from 'zod'
+
+/**
+ * A zod schema of the resume, or any of its descendants.
+ */
+export type Schema = z.ZodType
+
+/**
+ * A path to a node in the resume, e.g, `['content', 'work', 0, 'name']`.
+ */
+export type SchemaPath = (string | number)[]
+
+/**
+ * Metadata of a schema, populated via zod's `.meta()`.
+ */
+export interface SchemaMeta {
+  title?: string
+  description?: string
+  examples?: unknown[]
+}
+
+/**
+ * Get the inner schemas of a schema, from the outermost to the innermost.
+ *
+ * Wrappers like `optional`, `nullable` and `default` are unwrapped, and so are
+ * pipes, in which case the input schema is used.
+ *
+ * @param schema - The schema to unwrap.
+ * @returns The schema and all its inner schemas.
+ */
+export function unwrapSchema(schema: Schema): Schema[] {
+  const layers = [schema]
+
+  let current = schema
+  while (true) {
+    const def = current.def as {
+      type: string
+      innerType?: Schema
+      in?: Schema
+    }
+
+    const inner = def.type === 'pipe' ? def.in : def.innerType
+    if (!inner) {
+      return layers
+    }
+
+    layers.push(inner)
+    current = inner
+  }
+}
+
+/**
+ * Pick the option of a discriminated union matching the given value.
+ *
+ * @param options - The union options.
+ * @param discriminator - The discriminator key.
+ * @param value - The value to match.
+ * @returns The matching option, or undefined if none matches.
+ */
+function pickUnionOption(
+  options: Schema[],
+  discriminator: string,
+  value: unknown
+): Schema | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined
+  }
+
+  const target = (value as Record<string, unknown>)[discriminator]
+
+  return options.find((option) => {
+    const field = getSchemaAtPath(option, [discriminator])
+    return field !== undefined && getSchemaOptions(field).includes(target)
+  })
+}
+
+/**
+ * Get the schema of a node in the resume.
+ *
+ * @param schema - The root schema, usually `ResumeSchema`.
+ * @param path - The path to the node.
+ * @param value - The value of the root node, used to pick the right option of
+ * discriminated unions, e.g, the layout for `engine: latex`.
+ * @returns The schema of the node, or undefined if the path is not defined by
+ * the schema.
+ */
+export function getSchemaAtPath(
+  schema: Schema | typeof ResumeSchema,
+  path: SchemaPath,
+  value?: unknown
+): Schema | undefined {
+  if (path.length === 0) {
+    return schema
+  }
+
+  const [key, ...rest] = path
+  const child =
+    typeof value === 'object' && value !== null
+      ? (value as Record<string | number, unknown>)[key]
+      : undefined
+
+  const inner = unwrapSchema(schema).pop()
+  const def = inner.def as {
+    type: string
+    shape?: Record<string, Schema>
+    element?: Schema
+    valueType?: Schema
+    options?: Schema[]
+    discriminator?: string
+  }
+
+  switch (def.type) {
+    case 'object':
+      return typeof key === 'string' && def.shape[key]
+        ? getSchemaAtPath(def.shape[key], rest, child)
+        : undefined
+    case 'array':
+      return typeof key === 'number'
+        ? getSchemaAtPath(def.element, rest, child)
+        : undefined
+    case 'record':
+      return getSchemaAtPath(def.valueType, rest, child)
+    case 'union': {
+      const option = def.discriminator
+        ? pickUnionOption(def.options, def.discriminator, value)
+        : undefined
+
+      if (option) {
+        return getSchemaAtPath(option, path, value)
+      }
+
+      for (const item of def.options) {
+        const result = getSchemaAtPath(item, path, value)
+        if (result) {
+          return result
+        }
+      }
+
+      return undefined
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Get the metadata of a schema.
+ *
+ * The metadata of the outermost schema which has one wins, so `[optional]`
+ * titles of nullish schemas are kept.
+ *
+ * @param schema - The schema.
+ * @returns The metadata, or undefined if the schema has no metadata.
+ */
+export function getSchemaMeta(schema: Schema): SchemaMeta | undefined {
+  for (const layer of unwrapSchema(schema)) {
+    const meta = layer.meta() as SchemaMeta | undefined
+    if (meta) {
+      return meta
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Get the predefined options of a schema, i.e, values of enums and literals.
+ *
+ * @param schema - The schema.
+ * @returns The predefined options, or an empty array if the schema accepts
+ * arbitrary values.
+ */
+export function getSchemaOptions(schema: Schema): unknown[] {
+  const inner = unwrapSchema(schema).pop()
+  const def = inner.def as {
+    type: string
+    entries?: Record<string, unknown>
+    values?: unknown[]
+    options?: Schema[]
+  }
+
+  switch (def.type) {
+    case 'enum':
+      return Object.values(def.entries)
+    case 'literal':
+      return def.values
+    case 'union':
+      return def.options.flatMap((option) => getSchemaOptions(option))
+    default:
+      return []
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import { PassThrough } from 'node:stream'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  CompletionRequest,
+  type Connection,
+  createConnection,
+  createProtocolConnection,
+  DidOpenTextDocumentNotification,
+  HoverRequest,
+  InitializeRequest,
+  type ProtocolConnection,
+  PublishDiagnosticsNotification,
+  type PublishDiagnosticsParams,
+  StreamMessageReader,
+  StreamMessageWriter,
+} from 'vscode-languageserver/node'
+
+import { createServer } from './server'
+
+describe(createServer, () => {
+  const uri = 'file:///resume.yml'
+
+  let server: Connection
+  let client: ProtocolConnection
+
+  beforeEach(async () => {
+    const clientToServer = new PassThrough()
+    const serverToClient = new PassThrough()
+
+    server = createConnection(
+      new StreamMessageReader(clientToServer),
+      new StreamMessageWriter(serverToClient)
+    )
+    client = createProtocolConnection(
+      new StreamMessageReader(serverToClient),
+      new StreamMessageWriter(clientToServer)
+    )
+
+    createServer(server)
+    server.listen()
+    client.listen()
+  })
+
+  afterEach(() => {
+    client.dispose()
+    server.dispose()
+  })
+
+  /**
+   * Initialize the server and open a resume document.
+   */
+  async function openDocument(text: string) {
+    const diagnostics = new Promise<PublishDiagnosticsParams>((resolve) => {
+      client.onNotification(PublishDiagnosticsNotification.type, resolve)
+    })
+
+    await client.sendRequest(InitializeRequest.type, {
+      processId: null,
+      rootUri: null,
+      capabilities: {},
+    })
+    await client.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri, languageId: 'yaml', version: 1, text },
+    })
+
+    return diagnostics
+  }
+
+  it('should advertise hover and completion capabilities', async () => {
+    const result = await client.sendRequest(InitializeRequest.type, {
+      processId: null,
+      rootUri: null,
+      capabilities: {},
+    })
+
+    expect(result.capabilities.hoverProvider).toBe(true)
+    expect(result.capabilities.completionProvider).toBeDefined()
+  })
+
+  it('should publish diagnostics for opened documents', async () => {
+    const diagnostics = await openDocument('content:\n  basics:\n    name: A\n')
+
+    expect(diagnostics.uri).toBe(uri)
+    expect(diagnostics.diagnostics.map(({ message }) => message)).toEqual([
+      'name should be 2 characters or more.',
+      'education is required.',
+    ])
+  })
+
+  it('should answer hover and completion requests', async () => {
+    await openDocument('content:\n  location:\n    country: \n')
+
+    const hover = await client.sendRequest(HoverRequest.type, {
+      textDocument: { uri },
+      position: { line: 2, character: 5 },
+    })
+    const completions = await client.sendRequest(CompletionRequest.type, {
+      textDocument: { uri },
+      position: { line: 2, character: 13 },
+    })
+
+    expect(hover.contents).toEqual(
+      expect.objectContaining({
+        value: expect.stringContaining('Country Option'),
+      })
+    )
+    expect(completions).toContainEqual(
+      expect.objectContaining({ label: 'United States' })
+    )
+  })
+
+  it('should return empty results for unknown documents', async () => {
+    await client.sendRequest(InitializeRequest.type, {
+      processId: null,
+      rootUri: null,
+      capabilities: {},
+    })
+
+    const textDocument = { uri: 'file:///unknown.yml' }
+    const position = { line: 0, character: 0 }
+
+    expect(
+      await client.sendRequest(HoverRequest.type, { textDocument, position })
+    ).toBeNull()
+    expect(
+      await client.sendRequest(CompletionRequest.type, {
+        textDocument,
+        position,
+      })
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023–Present PPResume (https://ppresume.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to
+ * deal in the Software without restriction, including without limitation the
+ * rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+ * sell copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+ * FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS
+ * IN THE SOFTWARE.
+ */
+
+import {
+  type Connection,
+  TextDocumentSyncKind,
+  TextDocuments,
+} from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+
+import { getCompletions } from './completion'
+import { getDiagnostics } from './diagnostics'
+import { getHover } from './hover'
+
+/**
+ * Register the YAMLResume language features on a connection.
+ *
+ * Features:
+ *
+ * - diagnostics for YAML syntax errors and schema validation issues
+ * - hover docs from schema metadata
+ * - completion for values with predefined options
+ *
+ * @param connection - The language server connection.
+ * @returns The text documents managed by the server.
+ */
+export function createServer(connection: Connection) {
+  const documents = new TextDocuments(TextDocument)
+
+  connection.onInitialize(() => ({
+    capabilities: {
+      textDocumentSync: TextDocumentSyncKind.Incremental,
+      hoverProvider: true,
+      completionProvider: {
+        triggerCharacters: [' '],
+      },
+    },
+  }))
+
+  documents.onDidChangeContent(({ document }) => {
+    connection.sendDiagnostics({
+      uri: document.uri,
+      diagnostics: getDiagnostics(document),
+    })
+  })
+
+  documents.onDidClose(({ document }) => {
+    connection.sendDiagnostics({ uri: document.uri, diagnostics: [] })
+  })
+
+  connection.onHover(({ textDocument, position }) => {
+    const document = documents.get(textDocument.uri)
+    return document ? getHover(document, position) : null
+  })
+
+  connection.onCompletion(({ textDocument, position }) => {
+    const document = documents.get(textDocument.uri)
+    return document ? getCompletions(document, position) : []
+  })
+
+  documents.listen(connection)
+
+  return documents
+}